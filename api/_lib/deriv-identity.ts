@@ -0,0 +1,46 @@
+const DERIV_WS_URL = 'wss://ws.derivws.com/websockets/v3';
+const AUTHORIZE_TIMEOUT_MS = 10 * 1000;
+
+export interface DerivIdentity {
+    loginid: string;
+    accounts: string[]; // every login id on the Deriv user, so grants follow the person across real and demo
+}
+
+interface AuthorizeResponse {
+    authorize?: { loginid: string; account_list?: { loginid: string }[] };
+    error?: { message: string };
+}
+
+/**
+ * Resolve a Deriv API token to the login ids it belongs to by calling `authorize` once.
+ * Resolves null if Deriv rejects the token.
+ */
+export const authorizeDerivToken = (
+    token: string,
+    appId = process.env.DERIV_APP_ID || '1089'
+): Promise<DerivIdentity | null> =>
+    new Promise((resolve, reject) => {
+        const socket = new WebSocket(`${DERIV_WS_URL}?app_id=${appId}`);
+        const finish = (error: Error | null, identity: DerivIdentity | null = null) => {
+            clearTimeout(timeout);
+            socket.close();
+            if (error) reject(error);
+            else resolve(identity);
+        };
+        const timeout = setTimeout(() => finish(new Error('Deriv authorize timed out')), AUTHORIZE_TIMEOUT_MS);
+
+        socket.addEventListener('open', () => socket.send(JSON.stringify({ authorize: token })));
+        socket.addEventListener('error', () => finish(new Error('Could not reach Deriv')));
+        socket.addEventListener('message', event => {
+            const data = JSON.parse(String(event.data)) as AuthorizeResponse;
+            if (!data.authorize) {
+                finish(null);
+                return;
+            }
+            const { loginid, account_list = [] } = data.authorize;
+            finish(null, {
+                loginid,
+                accounts: Array.from(new Set([loginid, ...account_list.map(account => account.loginid)])),
+            });
+        });
+    });
@@ -0,0 +1,280 @@
+import { randomUUID } from 'crypto';
+import {
+    ACCOUNT_ID_PATTERN,
+    EntitlementAuditAction,
+    EntitlementAuditEntry,
+    EntitlementFeature,
+    EntitlementGrant,
+    EntitlementGrantResult,
+    EntitlementUsageReport,
+    EntitlementUsageSummary,
+    getGrantStatus,
+    isEntitlementFeature,
+} from '../../src/types/entitlement.types';
+import type { EntitlementStorageAdapter } from './entitlement-store';
+
+const MAX_BULK_GRANTS = 500;
+const MAX_USAGE_ENTRIES = 5000;
+const MAX_AUDIT_ENTRIES = 10000;
+const USAGE_REPORT_EVENTS = 200;
+
+export class EntitlementError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number
+    ) {
+        super(message);
+        this.name = 'EntitlementError';
+    }
+}
+
+// Request bodies are untrusted, so every field is validated before use
+type GrantInput = { account?: unknown; feature?: unknown; startsAt?: unknown; expiresAt?: unknown };
+
+export interface ResolvedEntitlements {
+    features: EntitlementFeature[];
+    refreshAt?: number; // ms timestamp of the next grant starting or expiring for these accounts
+}
+
+export const normalizeAccount = (account: unknown): string => {
+    const normalized = typeof account === 'string' ? account.trim().toUpperCase() : '';
+    if (!ACCOUNT_ID_PATTERN.test(normalized)) {
+        throw new EntitlementError('Invalid account. Use a Deriv login id such as CR1234567 or VRTC1234567', 400);
+    }
+    return normalized;
+};
+
+const assertFeature = (feature: unknown): EntitlementFeature => {
+    if (!isEntitlementFeature(feature)) {
+        throw new EntitlementError(`Unknown feature: ${String(feature)}`, 400);
+    }
+    return feature;
+};
+
+const parseDate = (value: unknown, label: string): string | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const time = typeof value === 'string' ? Date.parse(value) : NaN;
+    if (isNaN(time)) {
+        throw new EntitlementError(`Invalid ${label}: ${String(value)}`, 400);
+    }
+    return new Date(time).toISOString();
+};
+
+/**
+ * Grants per-feature access to Deriv accounts, optionally for a limited period, and records every
+ * change in the audit log. Bootstrap admins come from configuration so the first admin can sign in
+ * to grant the rest.
+ */
+export class EntitlementRegistry {
+    private readonly bootstrapAdmins: Set<string>;
+
+    constructor(
+        private readonly adapter: EntitlementStorageAdapter,
+        bootstrapAdmins: string[] = []
+    ) {
+        this.bootstrapAdmins = new Set(bootstrapAdmins.map(account => account.trim().toUpperCase()).filter(Boolean));
+    }
+
+    /**
+     * Features active for these accounts right now. Scheduled and expired grants are left out;
+     * refreshAt tells the caller when that changes so tokens can expire with the grant.
+     * Expired grants seen on the way are removed, so expiry does not wait for an admin to list grants.
+     */
+    async resolve(accounts: string[], now = Date.now()): Promise<ResolvedEntitlements> {
+        const owned = new Set(accounts);
+        const features = new Set<EntitlementFeature>();
+        let refreshAt: number | undefined;
+        const addBoundary = (time: number) => {
+            if (time > now && (refreshAt === undefined || time < refreshAt)) refreshAt = time;
+        };
+
+        const grants = await this.adapter.getGrants();
+        await this.removeExpired(grants, now);
+
+        for (const grant of grants) {
+            if (!owned.has(grant.account)) continue;
+
+            const status = getGrantStatus(grant, now);
+            if (status === 'active') {
+                features.add(grant.feature);
+                if (grant.expiresAt) addBoundary(Date.parse(grant.expiresAt));
+            } else if (status === 'scheduled') {
+                addBoundary(Date.parse(grant.startsAt!));
+            }
+        }
+        if (accounts.some(account => this.bootstrapAdmins.has(account))) {
+            features.add('admin');
+        }
+
+        return { features: Array.from(features), refreshAt };
+    }
+
+    async listGrants(now = Date.now()): Promise<EntitlementGrant[]> {
+        await this.expireGrants(now);
+
+        const grants = await this.adapter.getGrants();
+        const bootstrapGrants: EntitlementGrant[] = Array.from(this.bootstrapAdmins)
+            .filter(account => !grants.some(grant => grant.account === account && grant.feature === 'admin'))
+            .map(account => ({ account, feature: 'admin', grantedBy: 'bootstrap', grantedAt: '', bootstrap: true }));
+
+        return [...grants, ...bootstrapGrants].sort(
+            (a, b) => a.account.localeCompare(b.account) || a.feature.localeCompare(b.feature)
+        );
+    }
+
+    async listAudit(limit = 200): Promise<EntitlementAuditEntry[]> {
+        return this.adapter.getAudit(limit);
+    }
+
+    /**
+     * Grant a feature, or replace the dates of a grant the account already has (renewals)
+     */
+    async grant(
+        request: GrantInput,
+        actor: string,
+        now = Date.now()
+    ): Promise<{ grant: EntitlementGrant; status: 'created' | 'updated' }> {
+        const account = normalizeAccount(request.account);
+        const feature = assertFeature(request.feature);
+        const startsAt = parseDate(request.startsAt, 'start date');
+        const expiresAt = parseDate(request.expiresAt, 'expiry date');
+
+        if (expiresAt && Date.parse(expiresAt) <= Math.max(now, startsAt ? Date.parse(startsAt) : now)) {
+            throw new EntitlementError('Expiry date must be in the future and after the start date', 400);
+        }
+
+        const grant: EntitlementGrant = {
+            account,
+            feature,
+            grantedBy: actor,
+            grantedAt: new Date(now).toISOString(),
+            ...(startsAt ? { startsAt } : {}),
+            ...(expiresAt ? { expiresAt } : {}),
+        };
+        const status = await this.adapter.saveGrant(grant);
+        await this.audit(status === 'created' ? 'grant' : 'update', grant, actor, now);
+
+        return { grant, status };
+    }
+
+    /**
+     * Apply a batch of grants (CSV import). Invalid rows are reported and skipped; the rest still apply.
+     */
+    async grantMany(requests: unknown, actor: string, now = Date.now()): Promise<EntitlementGrantResult[]> {
+        if (!Array.isArray(requests) || requests.length === 0) {
+            throw new EntitlementError('grants must be a non-empty list', 400);
+        }
+        if (requests.length > MAX_BULK_GRANTS) {
+            throw new EntitlementError(`At most ${MAX_BULK_GRANTS} grants can be imported at once`, 400);
+        }
+
+        const results: EntitlementGrantResult[] = [];
+        for (const request of requests as GrantInput[]) {
+            try {
+                const { grant, status } = await this.grant(request || {}, actor, now);
+                results.push({ account: grant.account, feature: grant.feature, status });
+            } catch (error) {
+                if (!(error instanceof EntitlementError)) throw error;
+                results.push({
+                    account: String(request?.account ?? ''),
+                    feature: String(request?.feature ?? ''),
+                    status: 'failed',
+                    error: error.message,
+                });
+            }
+        }
+        return results;
+    }
+
+    async revoke(account: unknown, feature: unknown, actor: string, now = Date.now()): Promise<void> {
+        const normalized = normalizeAccount(account);
+        const checkedFeature = assertFeature(feature);
+
+        if (checkedFeature === 'admin' && this.bootstrapAdmins.has(normalized)) {
+            throw new EntitlementError(
+                `${normalized} is a bootstrap admin; remove it from ENTITLEMENT_BOOTSTRAP_ADMINS`,
+                409
+            );
+        }
+        if (!(await this.adapter.deleteGrant(normalized, checkedFeature))) {
+            throw new EntitlementError(`${normalized} does not have ${checkedFeature}`, 404);
+        }
+        await this.audit('revoke', { account: normalized, feature: checkedFeature }, actor, now);
+    }
+
+    /**
+     * Remove grants past their expiry date and log them as expired. Expired grants already stop
+     * counting in resolve(); this keeps the store and the panel tidy. Runs on every resolve() and listGrants().
+     */
+    async expireGrants(now = Date.now()): Promise<number> {
+        return this.removeExpired(await this.adapter.getGrants(), now);
+    }
+
+    async recordUsage(account: string, feature: EntitlementFeature, now = Date.now()): Promise<void> {
+        await this.adapter.appendUsage({ account, feature, at: new Date(now).toISOString() }, MAX_USAGE_ENTRIES);
+    }
+
+    /**
+     * Usage per account and feature over the retained usage log, plus the latest events
+     */
+    async usageReport(): Promise<EntitlementUsageReport> {
+        const events = await this.adapter.getUsage(MAX_USAGE_ENTRIES);
+        const summaries = new Map<string, EntitlementUsageSummary>();
+
+        // Events are newest first, so the first event seen for a pair is its last use
+        events.forEach(event => {
+            const key = `${event.account}:${event.feature}`;
+            const summary = summaries.get(key);
+            if (summary) {
+                summary.count++;
+                summary.firstUsedAt = event.at;
+            } else {
+                summaries.set(key, {
+                    account: event.account,
+                    feature: event.feature,
+                    count: 1,
+                    firstUsedAt: event.at,
+                    lastUsedAt: event.at,
+                });
+            }
+        });
+
+        return { summary: Array.from(summaries.values()), events: events.slice(0, USAGE_REPORT_EVENTS) };
+    }
+
+    /**
+     * Delete the expired grants among these, each only if it is still the stored grant: a renewal
+     * saved after the grants were read is kept, and a grant another request already removed is not logged twice
+     */
+    private async removeExpired(grants: EntitlementGrant[], now: number): Promise<number> {
+        let removed = 0;
+        for (const grant of grants.filter(item => getGrantStatus(item, now) === 'expired')) {
+            if (await this.adapter.deleteGrant(grant.account, grant.feature, grant)) {
+                removed++;
+                await this.audit('expire', grant, 'system', now);
+            }
+        }
+        return removed;
+    }
+
+    private async audit(
+        action: EntitlementAuditAction,
+        grant: Pick<EntitlementGrant, 'account' | 'feature' | 'startsAt' | 'expiresAt'>,
+        actor: string,
+        now: number
+    ): Promise<void> {
+        await this.adapter.appendAudit(
+            {
+                id: randomUUID(),
+                action,
+                account: grant.account,
+                feature: grant.feature,
+                actor,
+                at: new Date(now).toISOString(),
+                ...(grant.startsAt ? { startsAt: grant.startsAt } : {}),
+                ...(grant.expiresAt ? { expiresAt: grant.expiresAt } : {}),
+            },
+            MAX_AUDIT_ENTRIES
+        );
+    }
+}
@@ -0,0 +1,177 @@
+import type {
+    EntitlementAuditEntry,
+    EntitlementFeature,
+    EntitlementGrant,
+    EntitlementUsageEntry,
+} from '../../src/types/entitlement.types';
+
+/**
+ * Storage adapter for entitlement grants, the audit log and the usage log.
+ * Each write is a single atomic operation on one grant, so concurrent admins never clobber each other's grants.
+ */
+export interface EntitlementStorageAdapter {
+    readonly name: string;
+    getGrants(): Promise<EntitlementGrant[]>;
+    saveGrant(grant: EntitlementGrant): Promise<'created' | 'updated'>; // replaces the account's grant for that feature
+    // false if there was nothing to revoke; with `expected`, only deletes while the stored grant still equals it
+    deleteGrant(account: string, feature: EntitlementFeature, expected?: EntitlementGrant): Promise<boolean>;
+    appendAudit(entry: EntitlementAuditEntry, maxEntries: number): Promise<void>; // keeps the newest maxEntries
+    getAudit(limit: number): Promise<EntitlementAuditEntry[]>; // newest first
+    appendUsage(entry: EntitlementUsageEntry, maxEntries: number): Promise<void>; // keeps the newest maxEntries
+    getUsage(limit: number): Promise<EntitlementUsageEntry[]>; // newest first
+}
+
+const grantKey = (account: string, feature: EntitlementFeature) => `${account}:${feature}`;
+
+// Deletes a hash field only while it still holds the expected value, so a grant renewed
+// after it was read is never deleted
+const COMPARE_AND_DELETE_SCRIPT =
+    "if redis.call('HGET', KEYS[1], ARGV[1]) == ARGV[2] then return redis.call('HDEL', KEYS[1], ARGV[1]) end return 0";
+
+/**
+ * Keeps grants in process memory. Only for local development: serverless instances do not
+ * share memory and lose it on every cold start.
+ */
+export class MemoryEntitlementAdapter implements EntitlementStorageAdapter {
+    readonly name = 'memory';
+    private grants = new Map<string, EntitlementGrant>();
+    private audit: EntitlementAuditEntry[] = [];
+    private usage: EntitlementUsageEntry[] = [];
+
+    async getGrants(): Promise<EntitlementGrant[]> {
+        return Array.from(this.grants.values());
+    }
+
+    async saveGrant(grant: EntitlementGrant): Promise<'created' | 'updated'> {
+        const key = grantKey(grant.account, grant.feature);
+        const status = this.grants.has(key) ? 'updated' : 'created';
+        this.grants.set(key, grant);
+        return status;
+    }
+
+    async deleteGrant(account: string, feature: EntitlementFeature, expected?: EntitlementGrant): Promise<boolean> {
+        const key = grantKey(account, feature);
+        const stored = this.grants.get(key);
+        if (expected && (!stored || JSON.stringify(stored) !== JSON.stringify(expected))) return false;
+        return this.grants.delete(key);
+    }
+
+    async appendAudit(entry: EntitlementAuditEntry, maxEntries: number): Promise<void> {
+        this.audit.unshift(entry);
+        this.audit.length = Math.min(this.audit.length, maxEntries);
+    }
+
+    async getAudit(limit: number): Promise<EntitlementAuditEntry[]> {
+        return this.audit.slice(0, limit);
+    }
+
+    async appendUsage(entry: EntitlementUsageEntry, maxEntries: number): Promise<void> {
+        this.usage.unshift(entry);
+        this.usage.length = Math.min(this.usage.length, maxEntries);
+    }
+
+    async getUsage(limit: number): Promise<EntitlementUsageEntry[]> {
+        return this.usage.slice(0, limit);
+    }
+}
+
+/**
+ * Persists grants in a Redis hash and the audit and usage logs in Redis lists through the
+ * Upstash REST API (the API behind Vercel KV)
+ */
+export class RedisRestEntitlementAdapter implements EntitlementStorageAdapter {
+    readonly name = 'redis';
+    private readonly grantsKey: string;
+    private readonly auditKey: string;
+    private readonly usageKey: string;
+
+    constructor(
+        private readonly url: string,
+        private readonly token: string,
+        prefix = 'entitlements'
+    ) {
+        this.grantsKey = `${prefix}:grants`;
+        this.auditKey = `${prefix}:audit`;
+        this.usageKey = `${prefix}:usage`;
+    }
+
+    async getGrants(): Promise<EntitlementGrant[]> {
+        const fields = (await this.command<string[] | null>('HGETALL', this.grantsKey)) || [];
+        // HGETALL returns [field, value, field, value, ...]
+        return fields.filter((_, index) => index % 2 === 1).map(value => JSON.parse(value) as EntitlementGrant);
+    }
+
+    async saveGrant(grant: EntitlementGrant): Promise<'created' | 'updated'> {
+        // HSET returns the number of fields added, 0 when an existing field was overwritten
+        const added = await this.command<number>(
+            'HSET',
+            this.grantsKey,
+            grantKey(grant.account, grant.feature),
+            JSON.stringify(grant)
+        );
+        return added === 1 ? 'created' : 'updated';
+    }
+
+    async deleteGrant(account: string, feature: EntitlementFeature, expected?: EntitlementGrant): Promise<boolean> {
+        const field = grantKey(account, feature);
+        // Grants are stored as JSON.stringify(grant), and a parsed grant stringifies back to the same value
+        const removed = expected
+            ? await this.command<number>(
+                  'EVAL',
+                  COMPARE_AND_DELETE_SCRIPT,
+                  '1',
+                  this.grantsKey,
+                  field,
+                  JSON.stringify(expected)
+              )
+            : await this.command<number>('HDEL', this.grantsKey, field);
+        return removed > 0;
+    }
+
+    async appendAudit(entry: EntitlementAuditEntry, maxEntries: number): Promise<void> {
+        await this.command('LPUSH', this.auditKey, JSON.stringify(entry));
+        await this.command('LTRIM', this.auditKey, '0', String(maxEntries - 1));
+    }
+
+    async getAudit(limit: number): Promise<EntitlementAuditEntry[]> {
+        const entries = (await this.command<string[] | null>('LRANGE', this.auditKey, '0', String(limit - 1))) || [];
+        return entries.map(entry => JSON.parse(entry) as EntitlementAuditEntry);
+    }
+
+    async appendUsage(entry: EntitlementUsageEntry, maxEntries: number): Promise<void> {
+        await this.command('LPUSH', this.usageKey, JSON.stringify(entry));
+        await this.command('LTRIM', this.usageKey, '0', String(maxEntries - 1));
+    }
+
+    async getUsage(limit: number): Promise<EntitlementUsageEntry[]> {
+        const entries = (await this.command<string[] | null>('LRANGE', this.usageKey, '0', String(limit - 1))) || [];
+        return entries.map(entry => JSON.parse(entry) as EntitlementUsageEntry);
+    }
+
+    private async command<T>(...args: string[]): Promise<T> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${this.token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify(args),
+        });
+        const data = (await response.json()) as { result?: T; error?: string };
+        if (!response.ok || data.error) {
+            throw new Error(`Entitlement store ${args[0]} failed: ${data.error || response.status}`);
+        }
+        return data.result as T;
+    }
+}
+
+/**
+ * Pick the adapter from the environment: ENTITLEMENT_STORE=memory forces the in-memory store,
+ * otherwise KV_REST_API_URL / KV_REST_API_TOKEN select Redis
+ */
+export const createEntitlementAdapter = (env: NodeJS.ProcessEnv = process.env): EntitlementStorageAdapter => {
+    if (env.ENTITLEMENT_STORE !== 'memory' && env.KV_REST_API_URL && env.KV_REST_API_TOKEN) {
+        return new RedisRestEntitlementAdapter(env.KV_REST_API_URL, env.KV_REST_API_TOKEN);
+    }
+    if (env.ENTITLEMENT_STORE !== 'memory') {
+        console.warn('⚠️ KV_REST_API_URL / KV_REST_API_TOKEN not set; entitlement grants will not persist');
+    }
+    return new MemoryEntitlementAdapter();
+};
@@ -0,0 +1,79 @@
+import { createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import type { EntitlementClaims, EntitlementFeature } from '../../src/types/entitlement.types';
+
+// Short enough that a revoked grant stops working within minutes without a revocation list
+export const ENTITLEMENT_TOKEN_TTL_SECONDS = 10 * 60;
+const MIN_TOKEN_TTL_SECONDS = 30;
+
+const HEADER = { alg: 'ES256', typ: 'JWT' };
+
+const base64url = (value: string | Buffer) =>
+    (typeof value === 'string' ? Buffer.from(value, 'utf8') : value).toString('base64url');
+
+// crypto's sign/verify take ArrayBufferView; a plain Uint8Array view keeps Buffer's typings out of it
+const toBytes = (value: string | Buffer): Uint8Array => {
+    const buffer = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+    return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+};
+
+/**
+ * Read the ECDSA P-256 signing key from ENTITLEMENT_PRIVATE_KEY (PKCS#8 PEM; `\n` escapes allowed)
+ */
+export const loadSigningKey = (env: NodeJS.ProcessEnv = process.env): KeyObject => {
+    const pem = env.ENTITLEMENT_PRIVATE_KEY?.replace(/\\n/g, '\n');
+    if (!pem) {
+        throw new Error('ENTITLEMENT_PRIVATE_KEY is not configured');
+    }
+    return createPrivateKey(pem);
+};
+
+/**
+ * Issue an ES256 JWT. The signature uses the raw r||s encoding so WebCrypto can verify it in the browser.
+ * `notAfter` (ms) shortens the token so it is refreshed when a grant starts or expires.
+ */
+export const signEntitlementToken = (
+    subject: { loginid: string; accounts: string[] },
+    features: EntitlementFeature[],
+    key: KeyObject,
+    now = Date.now(),
+    notAfter?: number
+): { token: string; claims: EntitlementClaims } => {
+    const iat = Math.floor(now / 1000);
+    const ttl = notAfter
+        ? Math.min(ENTITLEMENT_TOKEN_TTL_SECONDS, Math.max(MIN_TOKEN_TTL_SECONDS, Math.floor(notAfter / 1000) - iat))
+        : ENTITLEMENT_TOKEN_TTL_SECONDS;
+    const claims: EntitlementClaims = {
+        sub: subject.loginid,
+        accounts: subject.accounts,
+        features,
+        iat,
+        exp: iat + ttl,
+    };
+    const data = `${base64url(JSON.stringify(HEADER))}.${base64url(JSON.stringify(claims))}`;
+    const signature = sign('sha256', toBytes(data), { key, dsaEncoding: 'ieee-p1363' });
+
+    return { token: `${data}.${base64url(signature)}`, claims };
+};
+
+/**
+ * Verify a token this server issued; null if it is malformed, forged or expired
+ */
+export const verifyEntitlementToken = (token: string, key: KeyObject, now = Date.now()): EntitlementClaims | null => {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) return null;
+
+    const valid = verify(
+        'sha256',
+        toBytes(`${header}.${payload}`),
+        { key: createPublicKey(key), dsaEncoding: 'ieee-p1363' },
+        toBytes(Buffer.from(signature, 'base64url'))
+    );
+    if (!valid) return null;
+
+    try {
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as EntitlementClaims;
+        return claims.exp * 1000 > now ? claims : null;
+    } catch {
+        return null;
+    }
+};
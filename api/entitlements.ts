@@ -0,0 +1,123 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isEntitlementFeature } from '../src/types/entitlement.types';
+import { authorizeDerivToken } from './_lib/deriv-identity';
+import { EntitlementError, EntitlementRegistry } from './_lib/entitlement-registry';
+import { createEntitlementAdapter } from './_lib/entitlement-store';
+import { loadSigningKey, signEntitlementToken, verifyEntitlementToken } from './_lib/entitlement-token';
+
+/**
+ * Entitlement API
+ * - POST   { derivToken }                              → signed entitlement token for the Deriv user behind derivToken
+ * - POST   ?action=usage { feature }                   → record a use of a feature the caller holds
+ * - GET    ?view=grants|audit|usage                    → grants, audit log or usage report (admin)
+ * - PUT    { account, feature, startsAt?, expiresAt? } → grant a feature, or renew it with new dates (admin)
+ * - PUT    { grants: [...] }                           → bulk grant, e.g. a CSV import (admin)
+ * - DELETE { account, feature }                        → revoke a feature (admin)
+ *
+ * Usage and admin calls carry the caller's entitlement token as a Bearer token; admin rights are
+ * re-checked against the store so a revoked admin is locked out before their token expires.
+ */
+
+let registry: EntitlementRegistry | undefined;
+
+// Kept across warm invocations so the memory adapter survives between requests
+const getRegistry = () => {
+    registry ??= new EntitlementRegistry(
+        createEntitlementAdapter(),
+        (process.env.ENTITLEMENT_BOOTSTRAP_ADMINS || '').split(',')
+    );
+    return registry;
+};
+
+const requireClaims = (req: VercelRequest) => {
+    const token = req.headers.authorization?.replace(/^Bearer /, '');
+    const claims = token ? verifyEntitlementToken(token, loadSigningKey()) : null;
+    if (!claims) {
+        throw new EntitlementError('Unauthorized', 401);
+    }
+    return claims;
+};
+
+const requireAdmin = async (req: VercelRequest): Promise<string> => {
+    const claims = requireClaims(req);
+    if (!(await getRegistry().resolve(claims.accounts)).features.includes('admin')) {
+        throw new EntitlementError('Admin access required', 403);
+    }
+    return claims.sub;
+};
+
+const issueToken = async (req: VercelRequest, res: VercelResponse) => {
+    const { derivToken } = req.body || {};
+    if (!derivToken || typeof derivToken !== 'string') {
+        throw new EntitlementError('derivToken is required', 400);
+    }
+
+    const identity = await authorizeDerivToken(derivToken);
+    if (!identity) {
+        throw new EntitlementError('Deriv rejected the token', 401);
+    }
+
+    const { features, refreshAt } = await getRegistry().resolve(identity.accounts);
+    return res.status(200).json(signEntitlementToken(identity, features, loadSigningKey(), Date.now(), refreshAt));
+};
+
+const recordUsage = async (req: VercelRequest, res: VercelResponse) => {
+    const claims = requireClaims(req);
+    const { feature } = req.body || {};
+    if (!isEntitlementFeature(feature) || !claims.features.includes(feature)) {
+        throw new EntitlementError('Feature not held by this token', 403);
+    }
+
+    await getRegistry().recordUsage(claims.sub, feature);
+    return res.status(200).json({ success: true });
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (req.method === 'OPTIONS') {
+        return res.status(200).end();
+    }
+
+    try {
+        if (req.method === 'POST') {
+            return req.query.action === 'usage' ? await recordUsage(req, res) : await issueToken(req, res);
+        }
+
+        const actor = await requireAdmin(req);
+
+        if (req.method === 'GET') {
+            if (req.query.view === 'audit') {
+                return res.status(200).json({ audit: await getRegistry().listAudit() });
+            }
+            if (req.query.view === 'usage') {
+                return res.status(200).json(await getRegistry().usageReport());
+            }
+            return res.status(200).json({ grants: await getRegistry().listGrants() });
+        }
+
+        const body = req.body || {};
+
+        if (req.method === 'PUT') {
+            return body.grants
+                ? res.status(200).json({ results: await getRegistry().grantMany(body.grants, actor) })
+                : res.status(200).json(await getRegistry().grant(body, actor));
+        }
+
+        if (req.method === 'DELETE') {
+            await getRegistry().revoke(body.account, body.feature, actor);
+            return res.status(200).json({ success: true });
+        }
+
+        return res.status(405).json({ error: 'Method not allowed' });
+    } catch (error) {
+        if (error instanceof EntitlementError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error('Entitlement API error:', error);
+        return res.status(500).json({ error: 'Entitlement service unavailable' });
+    }
+}
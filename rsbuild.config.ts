@@ -70,6 +70,7 @@ export default defineConfig({
                 RUDDERSTACK_KEY: JSON.stringify(process.env.RUDDERSTACK_KEY || ''),
                 GROWTHBOOK_CLIENT_KEY: JSON.stringify(process.env.GROWTHBOOK_CLIENT_KEY || ''),
                 GROWTHBOOK_DECRYPTION_KEY: JSON.stringify(process.env.GROWTHBOOK_DECRYPTION_KEY || ''),
+                ENTITLEMENT_PUBLIC_KEY: JSON.stringify(process.env.ENTITLEMENT_PUBLIC_KEY || ''),
             },
         },
         alias: {
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+/**
+ * Serves the mock Deriv API over ws:// for offline end-to-end runs.
+ *
+ *   npm run mock:deriv -- --port 8765 --interval 1000 --scenario ./scenario.json
+ *
+ * Point the app at it from the endpoint page (server `localhost:8765`) and log in
+ * with one of the scenario tokens (`mock-demo-token` by default).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { WebSocketServer } from 'ws';
+import { MockDerivScenario, MockDerivServer } from '../src/services/mock-deriv/mock-deriv-server';
+
+const readOption = (name: string, fallback?: string): string | undefined => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : fallback;
+};
+
+const port = Number(readOption('port', '8765'));
+const intervalMs = Number(readOption('interval', '1000'));
+const scenarioPath = readOption('scenario');
+
+const scenario: MockDerivScenario = scenarioPath
+    ? JSON.parse(fs.readFileSync(path.resolve(process.cwd(), scenarioPath), 'utf8'))
+    : {};
+
+const server = new MockDerivServer({ startEpoch: Math.floor(Date.now() / 1000), ...scenario });
+const wss = new WebSocketServer({ port, path: '/websockets/v3' });
+
+wss.on('connection', socket => {
+    const session = server.connect(response => socket.send(JSON.stringify(response)));
+    console.log(`🔌 Client connected (${server.getStats().sessions} open)`);
+
+    socket.on('message', data => session.receive(data.toString()));
+    socket.on('close', () => {
+        session.close();
+        console.log(`❌ Client disconnected (${server.getStats().sessions} open)`);
+    });
+});
+
+if (intervalMs > 0) server.start(intervalMs);
+
+console.log(`🚀 Mock Deriv server listening on ws://localhost:${port}/websockets/v3`);
+console.log(intervalMs > 0 ? `⏱️ One tick every ${intervalMs}ms` : '⏸️ Ticks paused (--interval 0)');
+
+const shutdown = () => {
+    server.stop();
+    wss.close(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
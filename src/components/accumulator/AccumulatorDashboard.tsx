@@ -5,7 +5,13 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { accumulatorAnalysisService } from '../../services/accumulator/accumulator-analysis.service';
-import { AccumulatorSession, AccumulatorConfig, AccumulatorSignal } from '../../types/accumulator/accumulator.types';
+import { accumulatorBotService } from '../../services/accumulator/accumulator-bot.service';
+import {
+    AccumulatorSession,
+    AccumulatorConfig,
+    AccumulatorSignal,
+    AccumulatorBot,
+} from '../../types/accumulator/accumulator.types';
 import './AccumulatorDashboard.scss';
 
 interface AccumulatorDashboardProps {
@@ -20,11 +26,20 @@ export const AccumulatorDashboard: React.FC<AccumulatorDashboardProps> = ({ clas
     const [growthRate, setGrowthRate] = useState(2);
     const [takeProfit, setTakeProfit] = useState(25);
     const [stopLoss, setStopLoss] = useState(50);
+    const [paperMode, setPaperMode] = useState(true);
+    const [activeBot, setActiveBot] = useState<AccumulatorBot | null>(null);
 
     useEffect(() => {
         initializeDashboard();
     }, []);
 
+    // Live ticks mutate the session in place; copy it so each tick re-renders
+    useEffect(() => {
+        return accumulatorAnalysisService.onSessionUpdate((session) => {
+            setActiveSession({ ...session });
+        });
+    }, []);
+
     const initializeDashboard = async () => {
         try {
             // Generate initial signals for different markets
@@ -78,14 +93,48 @@ export const AccumulatorDashboard: React.FC<AccumulatorDashboardProps> = ({ clas
         }
     }, [selectedMarket, growthRate, takeProfit, stopLoss, isAnalyzing]);
 
-    const stopAnalysis = useCallback(() => {
+    const stopAnalysis = useCallback(async () => {
         try {
-            accumulatorAnalysisService.stopAnalysis();
+            if (activeBot) {
+                await accumulatorBotService.stopBot(activeBot.id);
+                setActiveBot(null);
+            } else {
+                accumulatorAnalysisService.stopAnalysis();
+            }
             setActiveSession(null);
         } catch (error) {
             console.error('Failed to stop analysis:', error);
         }
-    }, []);
+    }, [activeBot]);
+
+    const startBot = useCallback(async (market: string) => {
+        if (isAnalyzing || activeSession) return;
+
+        setIsAnalyzing(true);
+        try {
+            const config: AccumulatorConfig = {
+                growthRate,
+                takeProfit,
+                stopLoss,
+                maxTicks: 1000,
+                minTicks: 10,
+                market,
+                initialStake: 1,
+                strategy: 'TICK_BASED_EXIT',
+                maxKnockOuts: 3,
+                paperMode
+            };
+
+            const bot = await accumulatorBotService.createBot(config, `Accumulator ${market}`);
+            await accumulatorBotService.startBot(bot.id);
+            setActiveBot(bot);
+            setActiveSession(accumulatorAnalysisService.getCurrentSession());
+        } catch (error) {
+            console.error('Failed to start accumulator bot:', error);
+        } finally {
+            setIsAnalyzing(false);
+        }
+    }, [growthRate, takeProfit, stopLoss, paperMode, isAnalyzing, activeSession]);
 
     const refreshSignals = async () => {
         await initializeDashboard();
@@ -165,6 +214,17 @@ export const AccumulatorDashboard: React.FC<AccumulatorDashboardProps> = ({ clas
                             />
                             <span className="value">{stopLoss}%</span>
                         </div>
+
+                        <div className="config-item">
+                            <label>Paper Mode</label>
+                            <input
+                                type="checkbox"
+                                checked={paperMode}
+                                onChange={(e) => setPaperMode(e.target.checked)}
+                                disabled={!!activeSession}
+                            />
+                            <span className="value">{paperMode ? 'Settle without buying' : 'Live contracts'}</span>
+                        </div>
                     </div>
 
                     <div className="action-buttons">
@@ -231,6 +291,40 @@ export const AccumulatorDashboard: React.FC<AccumulatorDashboardProps> = ({ clas
                                 <label>Tick Count</label>
                                 <span>{activeSession.tickCount}</span>
                             </div>
+                            {activeBot && (
+                                <>
+                                    <div className="stat-item">
+                                        <label>Mode</label>
+                                        <span>{activeSession.paperMode ? 'Paper' : 'Live'}</span>
+                                    </div>
+                                    <div className="stat-item">
+                                        <label>Barrier</label>
+                                        <span>
+                                            {activeSession.barrier ? `±${(activeSession.barrier * 100).toFixed(4)}%` : '-'}
+                                        </span>
+                                    </div>
+                                    <div className="stat-item">
+                                        <label>Contracts</label>
+                                        <span>{activeBot.performance.totalTrades}</span>
+                                    </div>
+                                    <div className="stat-item">
+                                        <label>Win Rate</label>
+                                        <span>{activeBot.performance.winRate.toFixed(1)}%</span>
+                                    </div>
+                                    <div className="stat-item">
+                                        <label>Knock-outs</label>
+                                        <span className="negative">{activeSession.knockOuts}</span>
+                                    </div>
+                                    <div className="stat-item">
+                                        <label>Open Contract</label>
+                                        <span>
+                                            {activeSession.openPosition
+                                                ? `${activeSession.openPosition.ticksHeld} ticks · ${activeSession.openPosition.currentValue.toFixed(2)}`
+                                                : '-'}
+                                        </span>
+                                    </div>
+                                </>
+                            )}
                         </div>
 
                         <div className="progress-bars">
@@ -312,7 +406,11 @@ export const AccumulatorDashboard: React.FC<AccumulatorDashboardProps> = ({ clas
                                 </div>
 
                                 <div className="signal-actions">
-                                    <button className="action-btn primary">
+                                    <button
+                                        className="action-btn primary"
+                                        onClick={() => startBot(signal.market)}
+                                        disabled={isAnalyzing || !!activeSession}
+                                    >
                                         🚀 Start Bot
                                     </button>
                                     <button className="action-btn secondary">
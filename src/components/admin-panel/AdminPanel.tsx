@@ -1,4 +1,18 @@
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { entitlementService } from '@/services/entitlement.service';
+import {
+    ACCOUNT_ID_PATTERN,
+    ENTITLEMENT_FEATURES,
+    EntitlementAuditEntry,
+    EntitlementFeature,
+    EntitlementGrant,
+    EntitlementGrantRequest,
+    EntitlementGrantResult,
+    EntitlementUsageReport,
+    FEATURE_LABELS,
+    getGrantStatus,
+} from '@/types/entitlement.types';
+import { addDuration, parseGrantCsv } from '@/utils/entitlement-csv';
 import './AdminPanel.scss';
 
 interface AdminPanelProps {
@@ -6,138 +20,687 @@ interface AdminPanelProps {
     onClose: () => void;
 }
 
+type AdminTab = 'admin' | 'premium' | 'usage' | 'audit';
+
+const PREMIUM_FEATURES = ENTITLEMENT_FEATURES.filter(feature => feature !== 'admin');
+
+// Keys of the retired public/premium-whitelist.json file
+const LEGACY_WHITELIST_FEATURES: Record<string, EntitlementFeature> = {
+    novagrid2026: 'bot:novagrid2026',
+    novagridElite: 'bot:novagridElite',
+    signals: 'signals',
+};
+
+// Expiry presets for trials and subscriptions, as durations after the start date
+const DURATION_PRESETS = [
+    { value: '', label: 'No expiry' },
+    { value: '7d', label: '7-day trial' },
+    { value: '14d', label: '14-day trial' },
+    { value: '1m', label: '1 month' },
+    { value: '3m', label: '3 months' },
+    { value: '1y', label: '1 year' },
+];
+
+const CSV_PLACEHOLDER =
+    'account,features,starts,expires\nCR1234567,novagrid2026;signals,,7d\nCR7654321,Novagrid Elite,2026-11-01,1m';
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : '');
+
+const describeGrant = (grant: EntitlementGrant) => {
+    const status = getGrantStatus(grant);
+    if (status === 'scheduled') return `starts ${formatDate(grant.startsAt)}`;
+    if (status === 'expired') return `expired ${formatDate(grant.expiresAt)}`;
+    return grant.expiresAt ? `until ${formatDate(grant.expiresAt)}` : '';
+};
+
+const summarizeResults = (results: EntitlementGrantResult[]) => {
+    const count = (status: EntitlementGrantResult['status']) =>
+        results.filter(result => result.status === status).length;
+    return `${count('created')} granted, ${count('updated')} renewed, ${count('failed')} failed`;
+};
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+const AccountBadge: React.FC<{ account: string }> = ({ account }) => (
+    <span className={`account-badge ${account.startsWith('CR') ? 'real' : 'demo'}`}>
+        {account.startsWith('CR') ? 'REAL' : 'DEMO'}
+    </span>
+);
+
 export const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
-    const [activeTab, setActiveTab] = useState<'admin' | 'premium'>('admin');
-    const [adminAccounts, setAdminAccounts] = useState<string[]>([]);
-    const [premiumAccounts, setPremiumAccounts] = useState<string[]>([]);
+    const [activeTab, setActiveTab] = useState<AdminTab>('admin');
+    const [access, setAccess] = useState<'checking' | 'granted' | 'denied'>('checking');
+    const [grants, setGrants] = useState<EntitlementGrant[]>([]);
+    const [audit, setAudit] = useState<EntitlementAuditEntry[]>([]);
     const [newAccount, setNewAccount] = useState('');
+    const [newPremiumAccount, setNewPremiumAccount] = useState('');
+    const [newFeature, setNewFeature] = useState<EntitlementFeature>(PREMIUM_FEATURES[0]);
+    const [newStartDate, setNewStartDate] = useState('');
+    const [newDuration, setNewDuration] = useState('');
+    const [csvText, setCsvText] = useState('');
+    const [csvMessages, setCsvMessages] = useState<string[]>([]);
+    const [usage, setUsage] = useState<EntitlementUsageReport>({ summary: [], events: [] });
     const [searchTerm, setSearchTerm] = useState('');
     const [premiumSearchTerm, setPremiumSearchTerm] = useState('');
     const [isLoading, setIsLoading] = useState(false);
 
-    useEffect(() => {
-        loadAdminAccounts();
-        loadPremiumAccounts();
-    }, []);
-
-    const loadAdminAccounts = () => {
+    const loadEntitlements = useCallback(async () => {
         try {
-            const stored = localStorage.getItem('novaprime_admin_accounts');
-            if (stored) {
-                setAdminAccounts(JSON.parse(stored));
-            } else {
-                // Initialize with default admins
-                const defaultAdmins = [
-                    'CR5186289',
-                    'VRTC90460',
-                    'VRTC10463082',
-                    'CR7005911',
-                    'CR2371589',
-                    'VRTC4143924',
-                ];
-                setAdminAccounts(defaultAdmins);
-                localStorage.setItem('novaprime_admin_accounts', JSON.stringify(defaultAdmins));
-            }
+            setIsLoading(true);
+            const [loadedGrants, loadedAudit, loadedUsage] = await Promise.all([
+                entitlementService.listGrants(),
+                entitlementService.listAudit(),
+                entitlementService.listUsage(),
+            ]);
+            setGrants(loadedGrants);
+            setAudit(loadedAudit);
+            setUsage(loadedUsage);
         } catch (error) {
-            console.error('Error loading admin accounts:', error);
+            console.error('Error loading entitlements:', error);
+            alert(`Could not load entitlements: ${getErrorMessage(error)}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        setAccess('checking');
+        entitlementService.getEntitlements(true).then(claims => {
+            const isAdmin = !!claims?.features.includes('admin');
+            setAccess(isAdmin ? 'granted' : 'denied');
+            if (isAdmin) loadEntitlements();
+        });
+    }, [isOpen, loadEntitlements]);
+
+    const adminAccounts = useMemo(() => grants.filter(grant => grant.feature === 'admin'), [grants]);
+
+    const premiumAccounts = useMemo(() => {
+        const byAccount = new Map<string, EntitlementGrant[]>();
+        grants
+            .filter(grant => grant.feature !== 'admin')
+            .forEach(grant => byAccount.set(grant.account, [...(byAccount.get(grant.account) || []), grant]));
+        return Array.from(byAccount.entries());
+    }, [grants]);
+
+    const grantFeature = async (
+        account: string,
+        feature: EntitlementFeature,
+        dates: Pick<EntitlementGrantRequest, 'startsAt' | 'expiresAt'> = {}
+    ): Promise<boolean> => {
+        const trimmed = account.trim().toUpperCase();
+
+        if (!trimmed) {
+            alert('Please enter an account number');
+            return false;
+        }
+
+        // Validate format (CR, VRTC or VRW followed by numbers)
+        if (!ACCOUNT_ID_PATTERN.test(trimmed)) {
+            alert('Invalid format. Use CR##### or VRTC##### format');
+            return false;
         }
-    };
 
-    const loadPremiumAccounts = async () => {
         try {
-            setIsLoading(true);
-            const response = await fetch('/premium-whitelist.json');
-            if (response.ok) {
-                const data = await response.json();
-                // Combine both lists for display
-                const combined = [
-                    ...(data.novagrid2026 || []).map((acc: string) => ({ account: acc, bot: 'Novagrid 2026' })),
-                    ...(data.novagridElite || []).map((acc: string) => ({ account: acc, bot: 'Novagrid Elite' }))
-                ];
-                // Extract unique accounts
-                const uniqueAccounts = Array.from(new Set(combined.map(item => item.account)));
-                setPremiumAccounts(uniqueAccounts);
-            } else {
-                setPremiumAccounts([]);
-            }
+            await entitlementService.grant({ account: trimmed, feature, ...dates });
+            await loadEntitlements();
+            return true;
         } catch (error) {
-            console.error('Error loading premium accounts:', error);
-            setPremiumAccounts([]);
-        } finally {
-            setIsLoading(false);
+            alert(getErrorMessage(error));
+            return false;
         }
     };
 
-    const saveAdminAccounts = (accounts: string[]) => {
+    const revokeFeature = async (account: string, feature: EntitlementFeature) => {
+        if (!confirm(`Remove ${FEATURE_LABELS[feature]} access from ${account}?`)) return;
+
         try {
-            localStorage.setItem('novaprime_admin_accounts', JSON.stringify(accounts));
-            setAdminAccounts(accounts);
+            await entitlementService.revoke(account, feature);
+            await loadEntitlements();
         } catch (error) {
-            console.error('Error saving admin accounts:', error);
+            alert(getErrorMessage(error));
         }
     };
 
-    const addAccount = () => {
-        const trimmed = newAccount.trim().toUpperCase();
-        
-        if (!trimmed) {
-            alert('Please enter an account number');
+    const addAccount = async () => {
+        if (await grantFeature(newAccount, 'admin')) setNewAccount('');
+    };
+
+    const addPremiumAccount = async () => {
+        // The date input is local midnight; an empty start means the grant starts now
+        const start = newStartDate ? new Date(`${newStartDate}T00:00:00`) : new Date();
+        const expiry = newDuration ? addDuration(start, newDuration) : null;
+        const dates = {
+            ...(newStartDate ? { startsAt: start.toISOString() } : {}),
+            ...(expiry ? { expiresAt: expiry.toISOString() } : {}),
+        };
+
+        if (await grantFeature(newPremiumAccount, newFeature, dates)) setNewPremiumAccount('');
+    };
+
+    const importCsv = async () => {
+        const { grants: requests, errors } = parseGrantCsv(csvText);
+        if (!requests.length) {
+            setCsvMessages(errors.length ? errors : ['No grants found']);
             return;
         }
-
-        // Validate format (CR or VRTC followed by numbers)
-        if (!trimmed.match(/^(CR|VRTC)\d+$/)) {
-            alert('Invalid format. Use CR##### or VRTC##### format');
+        if (
+            !confirm(
+                `Apply ${requests.length} grants${errors.length ? `, skipping ${errors.length} invalid rows` : ''}?`
+            )
+        ) {
             return;
         }
 
-        if (adminAccounts.includes(trimmed)) {
-            alert('This account is already in the admin list');
-            return;
+        try {
+            setIsLoading(true);
+            const results = await entitlementService.grantMany(requests);
+            setCsvMessages([
+                summarizeResults(results),
+                ...errors,
+                ...results
+                    .filter(result => result.status === 'failed')
+                    .map(result => `${result.account} ${result.feature}: ${result.error}`),
+            ]);
+            setCsvText('');
+        } catch (error) {
+            setCsvMessages([`Import failed: ${getErrorMessage(error)}`, ...errors]);
+        } finally {
+            await loadEntitlements();
         }
+    };
 
-        const updated = [...adminAccounts, trimmed];
-        saveAdminAccounts(updated);
-        setNewAccount('');
+    const loadCsvFile = (file?: File) => {
+        file?.text().then(setCsvText);
     };
 
-    const removeAccount = (account: string) => {
-        if (confirm(`Remove ${account} from admin access?`)) {
-            const updated = adminAccounts.filter(acc => acc !== account);
-            saveAdminAccounts(updated);
+    /**
+     * One-off migration: grant everything still listed in the retired public/premium-whitelist.json
+     */
+    const importLegacyWhitelist = async () => {
+        try {
+            const response = await fetch('/premium-whitelist.json');
+            if (!response.ok) {
+                alert('No legacy whitelist found');
+                return;
+            }
+
+            const data = await response.json();
+            const existing = new Set(grants.map(grant => `${grant.account}:${grant.feature}`));
+            const pending = Object.entries(LEGACY_WHITELIST_FEATURES).flatMap(([key, feature]) =>
+                ((data[key] as string[]) || [])
+                    .map(account => account.trim().toUpperCase())
+                    .filter(account => ACCOUNT_ID_PATTERN.test(account) && !existing.has(`${account}:${feature}`))
+                    .map(account => ({ account, feature }))
+            );
+
+            if (!pending.length) {
+                alert('Every legacy whitelist entry is already granted');
+                return;
+            }
+            if (!confirm(`Grant ${pending.length} legacy whitelist entries?`)) return;
+
+            setIsLoading(true);
+            alert(`Legacy whitelist: ${summarizeResults(await entitlementService.grantMany(pending))}`);
+        } catch (error) {
+            console.error('Error importing legacy whitelist:', error);
+            alert(`Import stopped: ${getErrorMessage(error)}`);
+        } finally {
+            await loadEntitlements();
         }
     };
 
-    const filteredAccounts = adminAccounts.filter(acc =>
-        acc.toLowerCase().includes(searchTerm.toLowerCase())
+    const filteredAccounts = adminAccounts.filter(grant =>
+        grant.account.toLowerCase().includes(searchTerm.toLowerCase())
     );
 
-    const filteredPremiumAccounts = premiumAccounts.filter(acc =>
-        acc.toLowerCase().includes(premiumSearchTerm.toLowerCase())
+    const filteredPremiumAccounts = premiumAccounts.filter(([account]) =>
+        account.toLowerCase().includes(premiumSearchTerm.toLowerCase())
     );
 
     if (!isOpen) return null;
 
+    const renderContent = () => {
+        if (access !== 'granted') {
+            return (
+                <div className='admin-panel-content'>
+                    <div className='empty-state'>
+                        {access === 'checking'
+                            ? 'Verifying admin access...'
+                            : 'Admin access required. Log in with an account that has the admin entitlement.'}
+                    </div>
+                </div>
+            );
+        }
+
+        if (activeTab === 'admin') {
+            return (
+                <div className='admin-panel-content'>
+                    <div className='add-section'>
+                        <h3>Add Admin Account</h3>
+                        <div className='input-group'>
+                            <input
+                                type='text'
+                                placeholder='Enter CR or VRTC number (e.g., CR1234567)'
+                                value={newAccount}
+                                onChange={e => setNewAccount(e.target.value.toUpperCase())}
+                                onKeyPress={e => {
+                                    if (e.key === 'Enter') {
+                                        addAccount();
+                                    }
+                                }}
+                            />
+                            <button className='add-btn' onClick={addAccount}>
+                                Add Account
+                            </button>
+                        </div>
+                        <p className='hint'>Format: CR followed by numbers or VRTC followed by numbers</p>
+                    </div>
+
+                    <div className='list-section'>
+                        <div className='list-header'>
+                            <h3>Admin Accounts ({adminAccounts.length})</h3>
+                            <input
+                                type='text'
+                                className='search-input'
+                                placeholder='Search accounts...'
+                                value={searchTerm}
+                                onChange={e => setSearchTerm(e.target.value)}
+                            />
+                        </div>
+
+                        <div className='accounts-list'>
+                            {isLoading ? (
+                                <div className='empty-state'>Loading...</div>
+                            ) : filteredAccounts.length === 0 ? (
+                                <div className='empty-state'>
+                                    {searchTerm ? 'No accounts match your search' : 'No admin accounts added yet'}
+                                </div>
+                            ) : (
+                                filteredAccounts.map(grant => (
+                                    <div key={grant.account} className='account-item'>
+                                        <div className='account-info'>
+                                            <AccountBadge account={grant.account} />
+                                            <span className='account-number'>{grant.account}</span>
+                                            {grant.bootstrap && <span className='grant-meta'>bootstrap</span>}
+                                        </div>
+                                        {!grant.bootstrap && (
+                                            <button
+                                                className='remove-btn'
+                                                onClick={() => revokeFeature(grant.account, 'admin')}
+                                                title='Remove admin access'
+                                            >
+                                                <svg
+                                                    width='16'
+                                                    height='16'
+                                                    viewBox='0 0 24 24'
+                                                    fill='none'
+                                                    xmlns='http://www.w3.org/2000/svg'
+                                                >
+                                                    <path
+                                                        d='M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z'
+                                                        fill='currentColor'
+                                                    />
+                                                </svg>
+                                            </button>
+                                        )}
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </div>
+
+                    <div className='info-section'>
+                        <div className='info-item'>
+                            <svg
+                                width='20'
+                                height='20'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                xmlns='http://www.w3.org/2000/svg'
+                            >
+                                <path
+                                    d='M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-6h2v6zm0-8h-2V7h2v2z'
+                                    fill='#3b82f6'
+                                />
+                            </svg>
+                            <p>Admin accounts can grant and revoke every entitlement.</p>
+                        </div>
+                        <div className='info-item'>
+                            <svg
+                                width='20'
+                                height='20'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                xmlns='http://www.w3.org/2000/svg'
+                            >
+                                <path d='M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z' fill='#f59e0b' />
+                            </svg>
+                            <p>
+                                Bootstrap admins are set with ENTITLEMENT_BOOTSTRAP_ADMINS and cannot be removed here.
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            );
+        }
+
+        if (activeTab === 'premium') {
+            return (
+                <div className='admin-panel-content'>
+                    <div className='add-section'>
+                        <h3>Grant Premium Access</h3>
+                        <div className='input-group'>
+                            <input
+                                type='text'
+                                placeholder='Enter CR or VRTC number (e.g., CR1234567)'
+                                value={newPremiumAccount}
+                                onChange={e => setNewPremiumAccount(e.target.value.toUpperCase())}
+                                onKeyPress={e => {
+                                    if (e.key === 'Enter') {
+                                        addPremiumAccount();
+                                    }
+                                }}
+                            />
+                            <select
+                                value={newFeature}
+                                onChange={e => setNewFeature(e.target.value as EntitlementFeature)}
+                            >
+                                {PREMIUM_FEATURES.map(feature => (
+                                    <option key={feature} value={feature}>
+                                        {FEATURE_LABELS[feature]}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className='input-group'>
+                            <input
+                                type='date'
+                                title='Start date (empty starts now)'
+                                value={newStartDate}
+                                onChange={e => setNewStartDate(e.target.value)}
+                            />
+                            <select value={newDuration} onChange={e => setNewDuration(e.target.value)}>
+                                {DURATION_PRESETS.map(preset => (
+                                    <option key={preset.value} value={preset.value}>
+                                        {preset.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <button className='add-btn' onClick={addPremiumAccount}>
+                                Grant
+                            </button>
+                        </div>
+                        <p className='hint'>
+                            Access applies to every account on the client&apos;s Deriv login. Granting a feature the
+                            account already has renews it with the new dates.{' '}
+                            <button className='link-btn' onClick={importLegacyWhitelist}>
+                                Import legacy premium-whitelist.json
+                            </button>
+                        </p>
+                    </div>
+
+                    <div className='add-section'>
+                        <h3>Bulk Import (CSV)</h3>
+                        <textarea
+                            className='csv-input'
+                            rows={4}
+                            placeholder={CSV_PLACEHOLDER}
+                            value={csvText}
+                            onChange={e => setCsvText(e.target.value)}
+                        />
+                        <div className='input-group'>
+                            <input
+                                type='file'
+                                accept='.csv,text/csv'
+                                onChange={e => loadCsvFile(e.target.files?.[0])}
+                            />
+                            <button className='add-btn' onClick={importCsv} disabled={!csvText.trim()}>
+                                Import
+                            </button>
+                        </div>
+                        <p className='hint'>
+                            Columns: account, features (bot names or keys, joined with ;), start date (empty for now),
+                            expiry date or duration such as 7d, 2w, 1m or 1y (empty for no expiry)
+                        </p>
+                        {csvMessages.length > 0 && (
+                            <ul className='csv-messages'>
+                                {csvMessages.map(message => (
+                                    <li key={message}>{message}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    <div className='list-section'>
+                        <div className='list-header'>
+                            <h3>Premium Accounts ({premiumAccounts.length})</h3>
+                            <input
+                                type='text'
+                                className='search-input'
+                                placeholder='Search accounts...'
+                                value={premiumSearchTerm}
+                                onChange={e => setPremiumSearchTerm(e.target.value)}
+                            />
+                        </div>
+
+                        <div className='accounts-list'>
+                            {isLoading ? (
+                                <div className='empty-state'>Loading...</div>
+                            ) : filteredPremiumAccounts.length === 0 ? (
+                                <div className='empty-state'>
+                                    {premiumSearchTerm
+                                        ? 'No accounts match your search'
+                                        : 'No premium access granted yet'}
+                                </div>
+                            ) : (
+                                filteredPremiumAccounts.map(([account, accountGrants]) => (
+                                    <div key={account} className='account-item'>
+                                        <div className='account-info'>
+                                            <AccountBadge account={account} />
+                                            <span className='account-number'>{account}</span>
+                                        </div>
+                                        <div className='feature-chips'>
+                                            {accountGrants.map(grant => (
+                                                <span
+                                                    key={grant.feature}
+                                                    className={`feature-chip ${getGrantStatus(grant)}`}
+                                                    title={`Granted by ${grant.grantedBy}`}
+                                                >
+                                                    {FEATURE_LABELS[grant.feature]}
+                                                    {describeGrant(grant) && (
+                                                        <span className='chip-dates'>{describeGrant(grant)}</span>
+                                                    )}
+                                                    <button
+                                                        onClick={() => revokeFeature(account, grant.feature)}
+                                                        title={`Revoke ${FEATURE_LABELS[grant.feature]}`}
+                                                    >
+                                                        ×
+                                                    </button>
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </div>
+
+                    <div className='info-section'>
+                        <div className='info-item'>
+                            <svg
+                                width='20'
+                                height='20'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                xmlns='http://www.w3.org/2000/svg'
+                            >
+                                <path
+                                    d='M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-6h2v6zm0-8h-2V7h2v2z'
+                                    fill='#3b82f6'
+                                />
+                            </svg>
+                            <p>Grants are stored by the entitlement API; no deployment is needed.</p>
+                        </div>
+                        <div className='info-item'>
+                            <svg
+                                width='20'
+                                height='20'
+                                viewBox='0 0 24 24'
+                                fill='none'
+                                xmlns='http://www.w3.org/2000/svg'
+                            >
+                                <path d='M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z' fill='#f59e0b' />
+                            </svg>
+                            <p>
+                                Clients pick up changes within 10 minutes, when their access token is refreshed.
+                                Time-boxed grants switch on and off on their dates.
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            );
+        }
+
+        if (activeTab === 'usage') {
+            return (
+                <div className='admin-panel-content'>
+                    <div className='list-section'>
+                        <div className='list-header'>
+                            <h3>Premium Usage ({usage.summary.length})</h3>
+                            <button className='link-btn' onClick={loadEntitlements}>
+                                Refresh
+                            </button>
+                        </div>
+
+                        <div className='accounts-list'>
+                            {isLoading ? (
+                                <div className='empty-state'>Loading...</div>
+                            ) : usage.summary.length === 0 ? (
+                                <div className='empty-state'>No premium bot or signal usage recorded yet</div>
+                            ) : (
+                                usage.summary.map(entry => (
+                                    <div key={`${entry.account}:${entry.feature}`} className='account-item'>
+                                        <div className='account-info'>
+                                            <AccountBadge account={entry.account} />
+                                            <span className='account-number'>{entry.account}</span>
+                                            <span>{FEATURE_LABELS[entry.feature] || entry.feature}</span>
+                                        </div>
+                                        <span className='grant-meta'>
+                                            {entry.count}× · {formatDate(entry.firstUsedAt)} –{' '}
+                                            {new Date(entry.lastUsedAt).toLocaleString()}
+                                        </span>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </div>
+
+                    <div className='list-section'>
+                        <div className='list-header'>
+                            <h3>Recent Activity ({usage.events.length})</h3>
+                        </div>
+
+                        <div className='accounts-list'>
+                            {usage.events.map((event, index) => (
+                                <div key={`${event.at}:${index}`} className='account-item'>
+                                    <div className='account-info'>
+                                        <span className='account-number'>{event.account}</span>
+                                        <span>{FEATURE_LABELS[event.feature] || event.feature}</span>
+                                    </div>
+                                    <span className='grant-meta'>{new Date(event.at).toLocaleString()}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            );
+        }
+
+        return (
+            <div className='admin-panel-content'>
+                <div className='list-section'>
+                    <div className='list-header'>
+                        <h3>Audit Log ({audit.length})</h3>
+                        <button className='link-btn' onClick={loadEntitlements}>
+                            Refresh
+                        </button>
+                    </div>
+
+                    <div className='accounts-list'>
+                        {isLoading ? (
+                            <div className='empty-state'>Loading...</div>
+                        ) : audit.length === 0 ? (
+                            <div className='empty-state'>No grant changes recorded yet</div>
+                        ) : (
+                            audit.map(entry => (
+                                <div key={entry.id} className='account-item audit-item'>
+                                    <div className='account-info'>
+                                        <span className={`audit-action ${entry.action}`}>{entry.action}</span>
+                                        <span className='account-number'>{entry.account}</span>
+                                        <span>{FEATURE_LABELS[entry.feature] || entry.feature}</span>
+                                        {(entry.startsAt || entry.expiresAt) && (
+                                            <span className='grant-meta'>
+                                                {formatDate(entry.startsAt) || 'now'} –{' '}
+                                                {formatDate(entry.expiresAt) || 'no expiry'}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <span className='grant-meta'>
+                                        {entry.actor} · {new Date(entry.at).toLocaleString()}
+                                    </span>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
     return (
-        <div className="admin-panel-overlay" onClick={onClose}>
-            <div className="admin-panel" onClick={(e) => e.stopPropagation()}>
-                <div className="admin-panel-header">
+        <div className='admin-panel-overlay' onClick={onClose}>
+            <div className='admin-panel' onClick={e => e.stopPropagation()}>
+                <div className='admin-panel-header'>
                     <h2>
-                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ marginRight: '8px', verticalAlign: 'middle' }}>
-                            <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4zm0 10.99h7c-.53 4.12-3.28 7.79-7 8.94V12H5V6.3l7-3.11v8.8z" fill="currentColor"/>
+                        <svg
+                            width='24'
+                            height='24'
+                            viewBox='0 0 24 24'
+                            fill='none'
+                            xmlns='http://www.w3.org/2000/svg'
+                            style={{ marginRight: '8px', verticalAlign: 'middle' }}
+                        >
+                            <path
+                                d='M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4zm0 10.99h7c-.53 4.12-3.28 7.79-7 8.94V12H5V6.3l7-3.11v8.8z'
+                                fill='currentColor'
+                            />
                         </svg>
                         Access Control Panel
                     </h2>
-                    <button className="close-btn" onClick={onClose}>×</button>
+                    <button className='close-btn' onClick={onClose}>
+                        ×
+                    </button>
                 </div>
 
-                <div className="admin-panel-tabs">
+                <div className='admin-panel-tabs'>
                     <button
                         className={`tab-btn ${activeTab === 'admin' ? 'active' : ''}`}
                         onClick={() => setActiveTab('admin')}
                     >
-                        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ marginRight: '6px', verticalAlign: 'middle' }}>
-                            <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4z" fill="currentColor"/>
+                        <svg
+                            width='18'
+                            height='18'
+                            viewBox='0 0 24 24'
+                            fill='none'
+                            xmlns='http://www.w3.org/2000/svg'
+                            style={{ marginRight: '6px', verticalAlign: 'middle' }}
+                        >
+                            <path
+                                d='M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4z'
+                                fill='currentColor'
+                            />
                         </svg>
                         Admin Access
                     </button>
@@ -145,175 +708,62 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
                         className={`tab-btn ${activeTab === 'premium' ? 'active' : ''}`}
                         onClick={() => setActiveTab('premium')}
                     >
-                        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" style={{ marginRight: '6px', verticalAlign: 'middle' }}>
-                            <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" fill="currentColor"/>
+                        <svg
+                            width='18'
+                            height='18'
+                            viewBox='0 0 24 24'
+                            fill='none'
+                            xmlns='http://www.w3.org/2000/svg'
+                            style={{ marginRight: '6px', verticalAlign: 'middle' }}
+                        >
+                            <path
+                                d='M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z'
+                                fill='currentColor'
+                            />
+                        </svg>
+                        Premium Access
+                    </button>
+                    <button
+                        className={`tab-btn ${activeTab === 'usage' ? 'active' : ''}`}
+                        onClick={() => setActiveTab('usage')}
+                    >
+                        <svg
+                            width='18'
+                            height='18'
+                            viewBox='0 0 24 24'
+                            fill='none'
+                            xmlns='http://www.w3.org/2000/svg'
+                            style={{ marginRight: '6px', verticalAlign: 'middle' }}
+                        >
+                            <path
+                                d='M5 9.2h3V19H5V9.2zM10.6 5h2.8v14h-2.8V5zm5.6 8H19v6h-2.8v-6z'
+                                fill='currentColor'
+                            />
+                        </svg>
+                        Usage
+                    </button>
+                    <button
+                        className={`tab-btn ${activeTab === 'audit' ? 'active' : ''}`}
+                        onClick={() => setActiveTab('audit')}
+                    >
+                        <svg
+                            width='18'
+                            height='18'
+                            viewBox='0 0 24 24'
+                            fill='none'
+                            xmlns='http://www.w3.org/2000/svg'
+                            style={{ marginRight: '6px', verticalAlign: 'middle' }}
+                        >
+                            <path
+                                d='M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z'
+                                fill='currentColor'
+                            />
                         </svg>
-                        Premium Bot Access
+                        Audit Log
                     </button>
                 </div>
 
-                {activeTab === 'admin' ? (
-                    <div className="admin-panel-content">
-                        <div className="add-section">
-                            <h3>Add Admin Account</h3>
-                            <div className="input-group">
-                                <input
-                                    type="text"
-                                    placeholder="Enter CR or VRTC number (e.g., CR1234567)"
-                                    value={newAccount}
-                                    onChange={(e) => setNewAccount(e.target.value.toUpperCase())}
-                                    onKeyPress={(e) => {
-                                        if (e.key === 'Enter') {
-                                            addAccount();
-                                        }
-                                    }}
-                                />
-                                <button className="add-btn" onClick={addAccount}>
-                                    Add Account
-                                </button>
-                            </div>
-                            <p className="hint">Format: CR followed by numbers or VRTC followed by numbers</p>
-                        </div>
-
-                        <div className="list-section">
-                            <div className="list-header">
-                                <h3>Admin Accounts ({adminAccounts.length})</h3>
-                                <input
-                                    type="text"
-                                    className="search-input"
-                                    placeholder="Search accounts..."
-                                    value={searchTerm}
-                                    onChange={(e) => setSearchTerm(e.target.value)}
-                                />
-                            </div>
-
-                            <div className="accounts-list">
-                                {filteredAccounts.length === 0 ? (
-                                    <div className="empty-state">
-                                        {searchTerm ? 'No accounts match your search' : 'No admin accounts added yet'}
-                                    </div>
-                                ) : (
-                                    filteredAccounts.map((account) => (
-                                        <div key={account} className="account-item">
-                                            <div className="account-info">
-                                                <span className={`account-badge ${account.startsWith('CR') ? 'real' : 'demo'}`}>
-                                                    {account.startsWith('CR') ? 'REAL' : 'DEMO'}
-                                                </span>
-                                                <span className="account-number">{account}</span>
-                                            </div>
-                                            <button
-                                                className="remove-btn"
-                                                onClick={() => removeAccount(account)}
-                                                title="Remove admin access"
-                                            >
-                                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                                                    <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" fill="currentColor"/>
-                                                </svg>
-                                            </button>
-                                        </div>
-                                    ))
-                                )}
-                            </div>
-                        </div>
-
-                        <div className="info-section">
-                            <div className="info-item">
-                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                                    <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-6h2v6zm0-8h-2V7h2v2z" fill="#3b82f6"/>
-                                </svg>
-                                <p>Admin accounts have full access to all features and settings.</p>
-                            </div>
-                            <div className="info-item">
-                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                                    <path d="M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z" fill="#f59e0b"/>
-                                </svg>
-                                <p>Changes take effect immediately after page refresh.</p>
-                            </div>
-                        </div>
-                    </div>
-                ) : (
-                    <div className="admin-panel-content">
-                        <div className="add-section">
-                            <h3>How to Add Premium Bot Access</h3>
-                            <div style={{ background: '#f3f4f6', padding: '1rem', borderRadius: '8px', marginBottom: '1rem' }}>
-                                <p style={{ margin: '0 0 0.5rem 0', color: '#1f2937', fontSize: '14px', fontWeight: '600' }}>
-                                    To whitelist a client for a specific bot:
-                                </p>
-                                <ol style={{ margin: '0', paddingLeft: '1.5rem', color: '#6b7280', fontSize: '13px' }}>
-                                    <li>Get client's Deriv account number (CR##### or VRTC#####)</li>
-                                    <li>Open <code style={{ background: '#e5e7eb', padding: '2px 6px', borderRadius: '4px' }}>public/premium-whitelist.json</code></li>
-                                    <li>Add their account to:
-                                        <ul style={{ marginTop: '0.25rem' }}>
-                                            <li><code style={{ background: '#e5e7eb', padding: '2px 6px', borderRadius: '4px' }}>novagrid2026</code> array for Novagrid 2026 ($1,099)</li>
-                                            <li><code style={{ background: '#e5e7eb', padding: '2px 6px', borderRadius: '4px' }}>novagridElite</code> array for Novagrid Elite ($499)</li>
-                                            <li>Or both arrays if they have access to both bots</li>
-                                        </ul>
-                                    </li>
-                                    <li>Run: <code style={{ background: '#e5e7eb', padding: '2px 6px', borderRadius: '4px' }}>git add . && git commit -m "feat: add client" && git push</code></li>
-                                    <li>Client can access immediately after deployment</li>
-                                </ol>
-                            </div>
-                        </div>
-
-                        <div className="list-section">
-                            <div className="list-header">
-                                <h3>Current Whitelist ({premiumAccounts.length})</h3>
-                                <input
-                                    type="text"
-                                    className="search-input"
-                                    placeholder="Search accounts..."
-                                    value={premiumSearchTerm}
-                                    onChange={(e) => setPremiumSearchTerm(e.target.value)}
-                                />
-                            </div>
-
-                            <div className="accounts-list">
-                                {isLoading ? (
-                                    <div className="empty-state">Loading...</div>
-                                ) : filteredPremiumAccounts.length === 0 ? (
-                                    <div className="empty-state">
-                                        {premiumSearchTerm ? 'No accounts match your search' : 'No premium accounts whitelisted yet'}
-                                    </div>
-                                ) : (
-                                    filteredPremiumAccounts.map((account) => (
-                                        <div key={account} className="account-item">
-                                            <div className="account-info">
-                                                <span className={`account-badge ${account.startsWith('CR') ? 'real' : 'demo'}`}>
-                                                    {account.startsWith('CR') ? 'REAL' : 'DEMO'}
-                                                </span>
-                                                <span className="account-number">{account}</span>
-                                            </div>
-                                            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                                                <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" fill="#10b981"/>
-                                            </svg>
-                                        </div>
-                                    ))
-                                )}
-                            </div>
-                        </div>
-
-                        <div className="info-section">
-                            <div className="info-item">
-                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                                    <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-6h2v6zm0-8h-2V7h2v2z" fill="#3b82f6"/>
-                                </svg>
-                                <p>Whitelist is stored in public/premium-whitelist.json file</p>
-                            </div>
-                            <div className="info-item">
-                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                                    <path d="M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z" fill="#f59e0b"/>
-                                </svg>
-                                <p>Changes require git commit and push to take effect</p>
-                            </div>
-                            <div className="info-item">
-                                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                                    <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" fill="#10b981"/>
-                                </svg>
-                                <p>Clients need password (6776) AND be whitelisted to access</p>
-                            </div>
-                        </div>
-                    </div>
-                )}
+                {renderContent()}
             </div>
         </div>
     );
@@ -1,7 +1,9 @@
 import React, { lazy, Suspense, useEffect, useState } from 'react';
+import { ProvenanceBadge } from '@/components/shared/ProvenanceBadge';
 import { useTickPointer } from '@/hooks/useTickPointer';
 import { analysisAIService } from '@/services/analysis-ai.service';
 import { patelBotLoaderService } from '@/services/patel-bot-loader.service';
+import { combineProvenance, DataProvenance } from '@/services/tick-source/tick-source';
 import './AnalysisTool.scss';
 
 // Lazy load the integrated components
@@ -20,6 +22,7 @@ interface AIPrediction {
     recommendedStrategy: string;
     riskLevel: 'low' | 'medium' | 'high';
     expectedWinRate: number;
+    provenance: DataProvenance;
 }
 
 // Removed demo data functionality for production trading environment
@@ -63,7 +66,8 @@ export const AnalysisTool: React.FC = () => {
     useEffect(() => {
         const lastDigits = effectiveGetLastDigits(50);
         if (lastDigits.length >= 20) {
-            const prediction = analysisAIService.analyzePrediction(lastDigits, selectedMarket);
+            const provenance = combineProvenance(tickHistory.slice(0, lastDigits.length).map(tick => tick.provenance));
+            const prediction = analysisAIService.analyzePrediction(lastDigits, selectedMarket, provenance);
             setAiPrediction(prediction);
         } else {
             // Generate a basic prediction when insufficient data is available
@@ -79,6 +83,7 @@ export const AnalysisTool: React.FC = () => {
                 recommendedStrategy: 'over',
                 riskLevel: 'high',
                 expectedWinRate: 50.0,
+                provenance: 'synthetic',
             };
             setAiPrediction(basicPrediction);
         }
@@ -381,6 +386,7 @@ export const AnalysisTool: React.FC = () => {
                                     <div className='dashboard-card predictor-card'>
                                         <div className='card-header'>
                                             <h3>🤖 Smart Digit Predictor</h3>
+                                            <ProvenanceBadge provenance={aiPrediction.provenance} />
                                             <span className={`risk-badge ${aiPrediction.riskLevel}`}>
                                                 {aiPrediction.riskLevel.toUpperCase()} RISK
                                             </span>
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { DIGIT_CONTRACT_TYPES } from '@/services/bot-manifest/bot-manifest';
+import type { BotCatalogueFilter, BotParameterDifference } from '@/services/bot-manifest/bot-catalogue';
+import { botCatalogueService, WorkspaceCatalogueStatus } from '@/services/bot-catalogue.service';
+import './BotCatalogue.scss';
+
+const CONTRACT_TYPE_LABELS: Record<string, string> = {
+    DIGITOVER: 'Over',
+    DIGITUNDER: 'Under',
+    DIGITMATCH: 'Matches',
+    DIGITDIFF: 'Differs',
+    DIGITEVEN: 'Even',
+    DIGITODD: 'Odd',
+};
+
+export const getContractTypeLabel = (contractType: string) => CONTRACT_TYPE_LABELS[contractType] ?? contractType;
+
+const getOpenWorkspace = (): { strategyId?: string; xml?: string } => {
+    const workspace = window.Blockly?.derivWorkspace;
+    if (!workspace) return {};
+
+    try {
+        return {
+            strategyId: workspace.current_strategy_id,
+            xml: window.Blockly.Xml.domToText(window.Blockly.Xml.workspaceToDom(workspace)),
+        };
+    } catch {
+        return { strategyId: workspace.current_strategy_id };
+    }
+};
+
+interface BotCatalogueFiltersProps {
+    filter: BotCatalogueFilter;
+    onChange: (filter: BotCatalogueFilter) => void;
+    shown: number;
+    total: number;
+}
+
+export const BotCatalogueFilters: React.FC<BotCatalogueFiltersProps> = ({ filter, onChange, shown, total }) => (
+    <div className='bot-catalogue-filters'>
+        <input
+            type='search'
+            className='catalogue-search'
+            placeholder='Search bots, markets or parameters'
+            value={filter.query}
+            onChange={e => onChange({ ...filter, query: e.target.value })}
+        />
+        <select
+            value={filter.contractType}
+            onChange={e => onChange({ ...filter, contractType: e.target.value as BotCatalogueFilter['contractType'] })}
+        >
+            <option value='all'>All contract types</option>
+            {DIGIT_CONTRACT_TYPES.map(contractType => (
+                <option key={contractType} value={contractType}>
+                    {getContractTypeLabel(contractType)}
+                </option>
+            ))}
+        </select>
+        <select
+            value={filter.source}
+            onChange={e => onChange({ ...filter, source: e.target.value as BotCatalogueFilter['source'] })}
+        >
+            <option value='all'>Free bots &amp; my strategies</option>
+            <option value='catalogue'>Free bots</option>
+            <option value='saved'>My strategies</option>
+        </select>
+        <span className='catalogue-count'>
+            {shown} of {total}
+        </span>
+    </div>
+);
+
+interface WorkspaceVersionBannerProps {
+    // Re-read the open workspace whenever this changes (e.g. the active tab)
+    refreshKey: unknown;
+    onLoadLatest: (file: string) => void;
+}
+
+export const WorkspaceVersionBanner: React.FC<WorkspaceVersionBannerProps> = ({ refreshKey, onLoadLatest }) => {
+    const [status, setStatus] = useState<WorkspaceCatalogueStatus>({ state: 'unknown', changes: [] });
+    const [differences, setDifferences] = useState<BotParameterDifference[] | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
+
+    useEffect(() => {
+        const { strategyId } = getOpenWorkspace();
+        setStatus(botCatalogueService.getWorkspaceStatus(strategyId));
+        setDifferences(null);
+        setIsComparing(false);
+    }, [refreshKey]);
+
+    const toggleCompare = async () => {
+        if (isComparing) {
+            setIsComparing(false);
+            return;
+        }
+
+        const { xml } = getOpenWorkspace();
+        if (status.entry && xml) {
+            try {
+                setDifferences(await botCatalogueService.compareWithCatalogue(status.entry.file, xml));
+            } catch (error) {
+                console.error('❌ Failed to compare workspace with catalogue:', error);
+                setDifferences(null);
+            }
+        }
+        setIsComparing(true);
+    };
+
+    const { entry, state, loadedVersion, changes } = status;
+    if (!entry || state === 'unknown') return null;
+
+    return (
+        <div className={`workspace-version-banner ${state}`}>
+            <div className='banner-summary'>
+                <span>
+                    {state === 'outdated' && (
+                        <>
+                            Your open workspace uses <strong>{entry.name}</strong> v{loadedVersion}; v{entry.version} is
+                            available.
+                        </>
+                    )}
+                    {state === 'current' && (
+                        <>
+                            Your open workspace uses the latest <strong>{entry.name}</strong> (v{entry.version}).
+                        </>
+                    )}
+                    {state === 'untracked' && (
+                        <>
+                            Your open workspace is based on <strong>{entry.name}</strong>, loaded before versions were
+                            tracked. The catalogue copy is v{entry.version}.
+                        </>
+                    )}
+                </span>
+                <div className='banner-actions'>
+                    <button className='compare-btn' onClick={toggleCompare}>
+                        {isComparing ? 'Hide comparison' : 'Compare'}
+                    </button>
+                    {state !== 'current' && (
+                        <button className='update-btn' onClick={() => onLoadLatest(entry.file)}>
+                            Load v{entry.version}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {isComparing && (
+                <div className='banner-comparison'>
+                    {changes.length > 0 && (
+                        <ul className='changelog'>
+                            {changes.map(change => (
+                                <li key={change.version}>
+                                    <strong>v{change.version}</strong> ({change.date}): {change.notes.join('; ')}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {differences === null && <p>The workspace could not be compared with the catalogue copy.</p>}
+                    {differences?.length === 0 && <p>Parameters match the catalogue copy.</p>}
+                    {differences && differences.length > 0 && (
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>Parameter</th>
+                                    <th>Your workspace</th>
+                                    <th>Catalogue v{entry.version}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {differences.map(difference => (
+                                    <tr key={difference.key}>
+                                        <td>{difference.label}</td>
+                                        <td>{difference.from ?? '—'}</td>
+                                        <td>{difference.to ?? '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -10,9 +10,10 @@ interface DigitFrequency {
 interface DigitFrequencyChartProps {
     frequencies: DigitFrequency[];
     currentDigit?: number;
+    sourceLabel?: string;
 }
 
-export const DigitFrequencyChart: React.FC<DigitFrequencyChartProps> = ({ frequencies, currentDigit }) => {
+export const DigitFrequencyChart: React.FC<DigitFrequencyChartProps> = ({ frequencies, currentDigit, sourceLabel }) => {
     const getDigitColor = (digit: number): string => {
         const colors = [
             '#ef4444',
@@ -48,6 +49,11 @@ export const DigitFrequencyChart: React.FC<DigitFrequencyChartProps> = ({ freque
             <div className='chart-header'>
                 <h3>📊 Last Digit Frequency Analysis</h3>
                 <div className='chart-stats'>
+                    {sourceLabel && (
+                        <div className='stat'>
+                            <span className='stat-value'>{sourceLabel}</span>
+                        </div>
+                    )}
                     <div className='stat'>
                         <span className='stat-label'>Avg:</span>
                         <span className='stat-value'>{averagePercentage.toFixed(1)}%</span>
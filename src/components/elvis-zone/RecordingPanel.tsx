@@ -0,0 +1,105 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TickRecording, tickRecorder } from '@/services/tick-recorder.service';
+import './RecordingPanel.scss';
+
+interface RecordingPanelProps {
+    symbol: string;
+    replayId: string | null;
+    onReplay: (recording: TickRecording | null) => void;
+}
+
+const formatDuration = (recording: TickRecording): string => {
+    if (recording.firstEpoch === undefined || recording.lastEpoch === undefined) return '0s';
+    const seconds = recording.lastEpoch - recording.firstEpoch;
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+export const RecordingPanel: React.FC<RecordingPanelProps> = ({ symbol, replayId, onReplay }) => {
+    const [recordings, setRecordings] = useState<TickRecording[]>([]);
+    const [isRecording, setIsRecording] = useState(tickRecorder.isRecording(symbol));
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        setRecordings(await tickRecorder.listRecordings());
+        setIsRecording(tickRecorder.isRecording(symbol));
+    }, [symbol]);
+
+    useEffect(() => {
+        refresh();
+        return tickRecorder.subscribe(refresh);
+    }, [refresh]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Recording action failed');
+        }
+    };
+
+    const handleDelete = (recording: TickRecording) =>
+        run(async () => {
+            if (replayId === recording.id) onReplay(null);
+            await tickRecorder.deleteRecording(recording.id);
+        });
+
+    return (
+        <div className='recording-panel'>
+            <div className='panel-header'>
+                <h3>📼 Tick Recorder</h3>
+                <button
+                    className={`record-button ${isRecording ? 'recording' : ''}`}
+                    onClick={() => run(() => tickRecorder.toggleRecording(symbol))}
+                >
+                    {isRecording ? `⏹ Stop ${symbol}` : `⏺ Record ${symbol}`}
+                </button>
+            </div>
+
+            {error && <div className='recording-error'>{error}</div>}
+
+            <div className='recording-list'>
+                {recordings.length === 0 ? (
+                    <div className='empty-state'>No recordings yet</div>
+                ) : (
+                    recordings.map(recording => {
+                        const isActive = tickRecorder.isRecording(recording.symbol) && !recording.stoppedAt;
+                        return (
+                            <div
+                                key={recording.id}
+                                className={`recording-item ${replayId === recording.id ? 'replaying' : ''}`}
+                            >
+                                <div className='recording-info'>
+                                    <span className='recording-symbol'>
+                                        {recording.symbol}
+                                        {isActive && <span className='live-dot' />}
+                                    </span>
+                                    <span className='recording-meta'>
+                                        {new Date(recording.startedAt).toLocaleString()} · {recording.tickCount} ticks ·{' '}
+                                        {formatDuration(recording)}
+                                    </span>
+                                </div>
+                                <div className='recording-actions'>
+                                    <button
+                                        disabled={recording.tickCount === 0}
+                                        onClick={() => onReplay(replayId === recording.id ? null : recording)}
+                                    >
+                                        {replayId === recording.id ? 'Stop Replay' : 'Replay'}
+                                    </button>
+                                    <button onClick={() => run(() => tickRecorder.downloadCsv(recording.id))}>
+                                        CSV
+                                    </button>
+                                    <button className='danger' onClick={() => handleDelete(recording)}>
+                                        Delete
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        </div>
+    );
+};
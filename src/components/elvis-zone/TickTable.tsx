@@ -12,9 +12,15 @@ interface TickTableProps {
     ticks: TickData[];
     maxRows: number;
     highlightDigit?: number;
+    title?: string;
 }
 
-export const TickTable: React.FC<TickTableProps> = ({ ticks, maxRows, highlightDigit }) => {
+export const TickTable: React.FC<TickTableProps> = ({
+    ticks,
+    maxRows,
+    highlightDigit,
+    title = '📊 Live Tick Data',
+}) => {
     const getDigitColor = (digit: number): string => {
         const colors = [
             '#ef4444',
@@ -47,7 +53,7 @@ export const TickTable: React.FC<TickTableProps> = ({ ticks, maxRows, highlightD
     return (
         <div className='tick-table'>
             <div className='table-header'>
-                <h3>📊 Live Tick Data</h3>
+                <h3>{title}</h3>
                 <div className='tick-count'>
                     {ticks.length}/{maxRows} ticks
                 </div>
@@ -53,6 +53,7 @@ export const FloatingSignalButton: React.FC = () => {
                         signalAnalysisService.addTick({
                             quote: tickData.tick.quote,
                             epoch: tickData.tick.epoch,
+                            provenance: 'live',
                         });
 
                         setIsConnected(true);
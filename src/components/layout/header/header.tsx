@@ -3,6 +3,7 @@ import clsx from 'clsx';
 import { observer } from 'mobx-react-lite';
 import { ApiTokenLogin } from '@/components/api-token-login/ApiTokenLogin';
 import { FakeRealModeIndicator } from '@/components/fake-real-account-toggle/FakeRealModeIndicator';
+import { RiskKillSwitch } from '@/components/risk-kill-switch';
 import { standalone_routes } from '@/components/shared';
 import Button from '@/components/shared_ui/button';
 import Modal from '@/components/shared_ui/modal'; // Import the modal component
@@ -200,6 +201,7 @@ const AppHeader = observer(() => {
                 <AppLogo />
                 <MobileMenu />
                 <FakeRealModeIndicator />
+                {activeLoginid && <RiskKillSwitch />}
                 {/* Theme Switcher Button */}
                 <button
                     className='theme-toggle-btn'
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { accountRiskGate, RiskGateStatus } from '@/services/account-risk-gate.service';
+import './RiskKillSwitch.scss';
+
+/**
+ * Header control for the account kill switch: halts every auto-trading engine at the risk gate
+ * until it is released
+ */
+export const RiskKillSwitch: React.FC = () => {
+    const [status, setStatus] = useState<RiskGateStatus>(() => accountRiskGate.getStatus());
+
+    useEffect(() => accountRiskGate.subscribe(setStatus), []);
+
+    const toggle = () => {
+        if (status.killSwitchActive) {
+            if (confirm('Resume trading? Every engine will be able to send buys again.')) {
+                accountRiskGate.releaseKillSwitch();
+            }
+            return;
+        }
+
+        const reason = prompt('Stop all auto-trading. Reason (optional):', 'Manual kill switch');
+        if (reason !== null) {
+            accountRiskGate.activateKillSwitch(reason.trim() || 'Manual kill switch');
+        }
+    };
+
+    const details = [
+        `Open contracts: ${status.openContracts}`,
+        `Open exposure: $${status.openExposure.toFixed(2)}`,
+        `Today: $${status.dailyProfit.toFixed(2)}`,
+        ...(status.unreconciledContracts
+            ? [`Unsettled contracts booked as losses: ${status.unreconciledContracts}`]
+            : []),
+    ].join('\n');
+
+    return (
+        <button
+            className={`risk-kill-switch ${status.killSwitchActive ? 'risk-kill-switch--active' : ''}`}
+            onClick={toggle}
+            title={status.killSwitchActive ? `${status.killSwitchReason}\n${details}` : details}
+        >
+            <span className='risk-kill-switch__dot' />
+            {status.killSwitchActive ? 'Trading halted · Resume' : 'Stop trading'}
+        </button>
+    );
+};
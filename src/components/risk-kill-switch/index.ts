@@ -0,0 +1 @@
+export { RiskKillSwitch } from './RiskKillSwitch';
@@ -9,6 +9,7 @@ import Modal from '@/components/shared_ui/modal';
 import Money from '@/components/shared_ui/money';
 import Tabs from '@/components/shared_ui/tabs';
 import Text from '@/components/shared_ui/text';
+import StrategyLintReport from '@/components/strategy-lint-report';
 import Summary from '@/components/summary';
 import TradeAnimation from '@/components/trade-animation';
 import Transactions from '@/components/transactions';
@@ -322,6 +323,7 @@ const RunPanel = observer(() => {
                 {!isDesktop && <MobileDrawerFooter />}
             </div>
             <SelfExclusion onRunButtonClick={onRunButtonClick} />
+            <StrategyLintReport />
             <StatisticsInfoModal
                 is_mobile={!isDesktop}
                 is_statistics_info_modal_open={is_statistics_info_modal_open}
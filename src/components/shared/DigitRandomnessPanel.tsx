@@ -0,0 +1,89 @@
+/**
+ * Digit Randomness Panel Component
+ * Shows whether the digit frequencies next to it differ from a fair RNG by more than chance
+ */
+
+import React, { useMemo } from 'react';
+import { analyseDigitRandomness, formatPValue, MIN_RELIABLE_SAMPLE_SIZE } from '@/utils/digit-statistics';
+import './DigitRandomnessPanel.scss';
+
+interface DigitRandomnessPanelProps {
+    digits: number[]; // Oldest first
+    alpha?: number;
+    className?: string;
+}
+
+export const DigitRandomnessPanel: React.FC<DigitRandomnessPanelProps> = ({ digits, alpha, className = '' }) => {
+    const report = useMemo(() => analyseDigitRandomness(digits, alpha), [digits, alpha]);
+    const flaggedDigits = report.digits.filter(test => test.significant);
+
+    const verdict = !report.reliable
+        ? { label: `Need ${MIN_RELIABLE_SAMPLE_SIZE}+ ticks`, className: 'pending' }
+        : report.significant
+          ? { label: 'Skew unlikely under a fair RNG', className: 'significant' }
+          : { label: 'Consistent with a fair RNG', className: 'fair' };
+
+    const rows = [
+        {
+            label: `χ² uniformity (df ${report.chiSquare.degreesOfFreedom})`,
+            value: report.chiSquare.statistic.toFixed(2),
+            pValue: report.chiSquare.pValue,
+        },
+        {
+            label: 'Runs even/odd',
+            value: `${report.runs.evenOdd.runs} vs ${report.runs.evenOdd.expectedRuns.toFixed(1)}`,
+            pValue: report.runs.evenOdd.pValue,
+        },
+        {
+            label: 'Runs high/low',
+            value: `${report.runs.highLow.runs} vs ${report.runs.highLow.expectedRuns.toFixed(1)}`,
+            pValue: report.runs.highLow.pValue,
+        },
+        {
+            label: 'Serial correlation (lag 1)',
+            value: report.serialCorrelation.coefficient.toFixed(3),
+            pValue: report.serialCorrelation.pValue,
+        },
+    ];
+
+    return (
+        <div className={`digit-randomness-panel ${className}`}>
+            <div className='randomness-header'>
+                <span className='randomness-title'>🧪 Randomness Test</span>
+                <span className={`randomness-verdict ${verdict.className}`}>{verdict.label}</span>
+            </div>
+
+            <div className='randomness-rows'>
+                {rows.map(row => (
+                    <div key={row.label} className='randomness-row'>
+                        <span className='row-label'>{row.label}</span>
+                        <span className='row-value'>{row.value}</span>
+                        <span className={`row-p ${report.reliable && row.pValue < report.alpha ? 'low' : ''}`}>
+                            {formatPValue(row.pValue)}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            <div className='randomness-footer'>
+                {flaggedDigits.length > 0 ? (
+                    <span>
+                        Deviating digits (Holm-corrected):{' '}
+                        {flaggedDigits
+                            .map(
+                                test =>
+                                    `${test.digit} ${test.zScore > 0 ? '↑' : '↓'} ${formatPValue(test.adjustedPValue)}`
+                            )
+                            .join(', ')}
+                    </span>
+                ) : (
+                    <span>
+                        No single digit deviates after correcting for 10 comparisons · {report.sampleSize} ticks
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DigitRandomnessPanel;
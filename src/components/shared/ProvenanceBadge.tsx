@@ -0,0 +1,33 @@
+/**
+ * Provenance Badge Component
+ * Flags signals and predictions built on replayed, generated or mixed ticks, which
+ * auto-trading refuses to act on
+ */
+
+import React from 'react';
+import { DataProvenance, isTradeableProvenance } from '@/services/tick-source/tick-source';
+import './ProvenanceBadge.scss';
+
+interface ProvenanceBadgeProps {
+    provenance?: DataProvenance;
+    className?: string;
+}
+
+const BADGES: Record<Exclude<DataProvenance, 'live' | 'historical'>, { label: string; title: string }> = {
+    recorded: { label: '📼 Replay', title: 'Built on a recorded session, not the current market' },
+    synthetic: { label: '🎲 Synthetic', title: 'Built on generated ticks, not Deriv market data' },
+    mixed: { label: '⚠️ Mixed data', title: 'Built on Deriv ticks combined with replayed or generated ones' },
+};
+
+export const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ provenance, className = '' }) => {
+    if (!provenance || isTradeableProvenance(provenance)) return null;
+
+    const badge = BADGES[provenance];
+    return (
+        <span className={`provenance-badge ${provenance} ${className}`} title={`${badge.title}; auto-trade is off`}>
+            {badge.label}
+        </span>
+    );
+};
+
+export default ProvenanceBadge;
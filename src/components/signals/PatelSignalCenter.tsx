@@ -10,6 +10,7 @@ import {
 } from '../../services/digit-distribution-scanner.service';
 import { razielBotLoaderService, CustomBotSettings } from '../../services/raziel-bot-loader.service';
 import { derivAPIService } from '../../services/deriv-api.service';
+import { ProvenanceBadge } from '../shared/ProvenanceBadge';
 import { EnhancedCountdownTimer } from './EnhancedCountdownTimer';
 import { ConnectionPoolStatus } from './ConnectionPoolStatus';
 import './PatelSignalCenter.scss';
@@ -42,6 +43,7 @@ interface SettingsState {
     martingale: number;
     autoScan: boolean;
     scanInterval: number; // minutes
+    significantOnly: boolean; // Drop signals whose distribution test is not significant
 }
 
 const DEFAULT_SETTINGS: SettingsState = {
@@ -49,6 +51,7 @@ const DEFAULT_SETTINGS: SettingsState = {
     martingale: 2.2,
     autoScan: false,
     scanInterval: 5,
+    significantOnly: false,
 };
 
 export const PatelSignalCenter: React.FC<PatelSignalCenterProps> = ({ className = '' }) => {
@@ -90,6 +93,11 @@ export const PatelSignalCenter: React.FC<PatelSignalCenterProps> = ({ className
         }
     }, [settings]);
 
+    // Keep the scanner's significance filter in step with the setting
+    useEffect(() => {
+        digitDistributionScannerService.setSignificanceFilter({ enabled: settings.significantOnly });
+    }, [settings.significantOnly]);
+
     // Auto-scan on component mount
     useEffect(() => {
         // Start auto-scan when component mounts
@@ -460,6 +468,7 @@ export const PatelSignalCenter: React.FC<PatelSignalCenterProps> = ({ className
                                     >
                                         {getQualityIndicator(signalState.signal.confidence).label}
                                     </span>
+                                    <ProvenanceBadge provenance={signalState.signal.provenance} />
                                 </div>
                             </div>
                             <button className='close-signal-btn' onClick={handleClearSignal} title='Clear Signal'>
@@ -620,6 +629,22 @@ export const PatelSignalCenter: React.FC<PatelSignalCenterProps> = ({ className
                                     />
                                 </div>
                             )}
+
+                            <div className='setting-group'>
+                                <label className='checkbox-label'>
+                                    <input
+                                        type='checkbox'
+                                        checked={settings.significantOnly}
+                                        onChange={e =>
+                                            setSettings(prev => ({
+                                                ...prev,
+                                                significantOnly: e.target.checked,
+                                            }))
+                                        }
+                                    />
+                                    <span>Only Statistically Significant Signals</span>
+                                </label>
+                            </div>
                         </div>
 
                         <div className='modal-actions'>
@@ -1,13 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { AUTH_CONFIG } from '@/config/auth.config';
 import { usePasswordProtection } from '@/hooks/usePasswordProtection';
-import { hasPremiumAccess } from '@/utils/premium-access-check';
+import { hasPremiumAccess, reportPremiumUsage } from '@/utils/premium-access-check';
 import SignalsCenter from './SignalsCenter';
 import { SignalsPasswordModal } from './SignalsPasswordModal';
 
 export const ProtectedSignalsCenter: React.FC = () => {
     const [isCheckingAccess, setIsCheckingAccess] = useState(false);
     const [accessError, setAccessError] = useState<string | null>(null);
+    const [hasEntitlement, setHasEntitlement] = useState<boolean | null>(null);
 
     const { isAuthenticated, isLoading, authenticate } = usePasswordProtection({
         correctPassword: AUTH_CONFIG.SIGNALS_PASSWORD,
@@ -15,7 +16,31 @@ export const ProtectedSignalsCenter: React.FC = () => {
         sessionTimeout: AUTH_CONFIG.SESSION_TIMEOUT,
     });
 
-    // Custom authentication handler that checks both password and whitelist
+    // A remembered access code is not enough on its own: the entitlement may have been revoked since
+    useEffect(() => {
+        if (!isAuthenticated) return;
+
+        let cancelled = false;
+        hasPremiumAccess('signals').then(hasAccess => {
+            if (cancelled) return;
+            setHasEntitlement(hasAccess);
+            if (!hasAccess) {
+                setAccessError('Access denied. Your account does not have signals access. Contact Elvis Trades for access.');
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [isAuthenticated]);
+
+    const isVerifying = isCheckingAccess || (isAuthenticated && hasEntitlement === null);
+
+    // Feeds the Admin Panel usage report each time the Signals Center is opened
+    useEffect(() => {
+        if (isAuthenticated && hasEntitlement) reportPremiumUsage('signals');
+    }, [isAuthenticated, hasEntitlement]);
+
+    // Custom authentication handler that checks both password and the signals entitlement
     const handleAuthentication = async (password: string): Promise<boolean> => {
         setIsCheckingAccess(true);
         setAccessError(null);
@@ -28,18 +53,19 @@ export const ProtectedSignalsCenter: React.FC = () => {
                 return false;
             }
 
-            // Step 2: Check whitelist access for "signals"
-            console.log('🔐 SIGNALS ACCESS: Checking whitelist for signals access...');
+            // Step 2: Check the account is entitled to "signals"
+            console.log('🔐 SIGNALS ACCESS: Checking signals entitlement...');
             const hasWhitelistAccess = await hasPremiumAccess('signals');
             
             if (!hasWhitelistAccess) {
-                console.error('❌ SIGNALS ACCESS DENIED: User not whitelisted for signals access');
-                setAccessError('Access denied. Your account is not whitelisted for signals access. Contact Elvis Trades for access.');
+                console.error('❌ SIGNALS ACCESS DENIED: Account has no signals entitlement');
+                setAccessError('Access denied. Your account does not have signals access. Contact Elvis Trades for access.');
                 setIsCheckingAccess(false);
                 return false;
             }
 
-            console.log('✅ SIGNALS ACCESS GRANTED: Password and whitelist verified');
+            console.log('✅ SIGNALS ACCESS GRANTED: Password and entitlement verified');
+            setHasEntitlement(true);
             setIsCheckingAccess(false);
             
             // Call the original authenticate function
@@ -57,7 +83,7 @@ export const ProtectedSignalsCenter: React.FC = () => {
     };
 
     // Show loading state
-    if (isLoading || isCheckingAccess) {
+    if (isLoading || isVerifying) {
         return (
             <div
                 style={{
@@ -80,14 +106,14 @@ export const ProtectedSignalsCenter: React.FC = () => {
                             animation: 'spin 1s linear infinite',
                         }}
                     ></div>
-                    {isCheckingAccess ? 'Verifying Access...' : 'Loading Signals Center...'}
+                    {isVerifying ? 'Verifying Access...' : 'Loading Signals Center...'}
                 </div>
             </div>
         );
     }
 
     // Show password protection modal if not authenticated
-    if (!isAuthenticated) {
+    if (!isAuthenticated || !hasEntitlement) {
         return (
             <SignalsPasswordModal
                 onAuthenticate={handleAuthentication}
@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    CalibrationReport,
+    HitRateStats,
+    SIGNAL_GENERATOR_LABELS,
+    SignalGeneratorId,
+    signalOutcomeTracker,
+} from '@/services/signal-outcome-tracker.service';
+import './SignalCalibrationDashboard.scss';
+
+const CHART_SIZE = 260;
+const CHART_PADDING = 32;
+
+// Below this many settled signals a hit rate says little either way
+const MIN_SETTLED_FOR_VERDICT = 30;
+
+const toChart = (value: number) => CHART_PADDING + (value / 100) * (CHART_SIZE - CHART_PADDING * 2);
+
+const getVerdict = (stats: HitRateStats): { label: string; className: string } => {
+    if (stats.settled < MIN_SETTLED_FOR_VERDICT) return { label: 'Not enough data', className: 'neutral' };
+    if (stats.calibrationGap > 10) return { label: 'Overconfident', className: 'bad' };
+    if (stats.calibrationGap < -10) return { label: 'Underconfident', className: 'warn' };
+    return { label: 'Calibrated', className: 'good' };
+};
+
+const CalibrationChart: React.FC<{ report: CalibrationReport }> = ({ report }) => {
+    const maxSettled = Math.max(1, ...report.buckets.map(bucket => bucket.settled));
+    const ticks = [0, 25, 50, 75, 100];
+
+    return (
+        <svg
+            className='calibration-chart'
+            viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`}
+            role='img'
+            aria-label='Claimed vs realised win probability'
+        >
+            {ticks.map(tick => (
+                <g key={tick}>
+                    <line
+                        className='grid-line'
+                        x1={toChart(0)}
+                        x2={toChart(100)}
+                        y1={CHART_SIZE - toChart(tick)}
+                        y2={CHART_SIZE - toChart(tick)}
+                    />
+                    <text className='axis-label' x={toChart(tick)} y={CHART_SIZE - 12} textAnchor='middle'>
+                        {tick}
+                    </text>
+                    <text
+                        className='axis-label'
+                        x={CHART_PADDING - 6}
+                        y={CHART_SIZE - toChart(tick) + 4}
+                        textAnchor='end'
+                    >
+                        {tick}
+                    </text>
+                </g>
+            ))}
+            <line
+                className='perfect-line'
+                x1={toChart(0)}
+                y1={CHART_SIZE - toChart(0)}
+                x2={toChart(100)}
+                y2={CHART_SIZE - toChart(100)}
+            />
+            <polyline
+                className='realised-line'
+                points={report.buckets
+                    .map(bucket => `${toChart(bucket.claimed)},${CHART_SIZE - toChart(bucket.realised)}`)
+                    .join(' ')}
+            />
+            {report.buckets.map(bucket => (
+                <circle
+                    key={bucket.from}
+                    className='bucket-point'
+                    cx={toChart(bucket.claimed)}
+                    cy={CHART_SIZE - toChart(bucket.realised)}
+                    r={3 + (bucket.settled / maxSettled) * 5}
+                >
+                    <title>
+                        {`${bucket.from}-${bucket.to}% claimed: ${bucket.realised.toFixed(1)}% realised over ${bucket.settled} signals`}
+                    </title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
+
+const StatsRow: React.FC<{ label: string; stats: HitRateStats }> = ({ label, stats }) => {
+    const verdict = getVerdict(stats);
+    return (
+        <tr>
+            <td>{label}</td>
+            <td>{stats.settled}</td>
+            <td>{stats.hitRate.toFixed(1)}%</td>
+            <td>{stats.avgClaimed.toFixed(1)}%</td>
+            <td className={stats.calibrationGap > 0 ? 'negative' : 'positive'}>
+                {stats.calibrationGap > 0 ? '+' : ''}
+                {stats.calibrationGap.toFixed(1)}
+            </td>
+            <td>{stats.brierScore.toFixed(3)}</td>
+            <td>
+                <span className={`verdict ${verdict.className}`}>{verdict.label}</span>
+            </td>
+        </tr>
+    );
+};
+
+const StatsTable: React.FC<{ title: string; rows: Array<[string, HitRateStats]> }> = ({ title, rows }) => (
+    <div className='stats-section'>
+        <h3>{title}</h3>
+        {rows.length === 0 ? (
+            <div className='empty-state'>No settled signals yet</div>
+        ) : (
+            <table className='calibration-table'>
+                <thead>
+                    <tr>
+                        <th>Source</th>
+                        <th>Settled</th>
+                        <th>Hit Rate</th>
+                        <th>Claimed</th>
+                        <th>Gap</th>
+                        <th>Brier</th>
+                        <th>Verdict</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(([label, stats]) => (
+                        <StatsRow key={label} label={label} stats={stats} />
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+);
+
+export const SignalCalibrationDashboard: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const [generator, setGenerator] = useState<SignalGeneratorId | ''>('');
+    const [report, setReport] = useState<CalibrationReport | null>(null);
+
+    const refresh = useCallback(async () => {
+        setReport(await signalOutcomeTracker.getReport(generator ? { generator } : {}));
+    }, [generator]);
+
+    useEffect(() => {
+        refresh();
+        return signalOutcomeTracker.subscribe(() => refresh());
+    }, [refresh]);
+
+    const handleReset = async () => {
+        if (!window.confirm('Clear all recorded signal outcomes? This cannot be undone.')) return;
+        await signalOutcomeTracker.clear();
+        refresh();
+    };
+
+    const generatorRows = Object.entries(report?.byGenerator ?? {}).map(
+        ([id, stats]) => [SIGNAL_GENERATOR_LABELS[id as SignalGeneratorId] ?? id, stats] as [string, HitRateStats]
+    );
+    const signalTypeRows = Object.entries(report?.bySignalType ?? {}).sort((a, b) => b[1].settled - a[1].settled);
+
+    return (
+        <div className='signal-calibration-overlay'>
+            <div className='signal-calibration'>
+                <div className='dashboard-header'>
+                    <h2>🎯 Signal Calibration</h2>
+                    <button className='close-btn' onClick={onClose}>
+                        ×
+                    </button>
+                </div>
+
+                <div className='dashboard-content'>
+                    <div className='toolbar'>
+                        <select
+                            value={generator}
+                            onChange={event => setGenerator(event.target.value as SignalGeneratorId | '')}
+                        >
+                            <option value=''>All generators</option>
+                            {Object.entries(SIGNAL_GENERATOR_LABELS).map(([id, label]) => (
+                                <option key={id} value={id}>
+                                    {label}
+                                </option>
+                            ))}
+                        </select>
+                        <span className='summary'>
+                            {report?.overall.settled ?? 0} settled · {report?.pending ?? 0} pending ·{' '}
+                            {report?.expired ?? 0} expired
+                        </span>
+                        <button className='reset-btn' onClick={handleReset}>
+                            🗑️ Reset
+                        </button>
+                    </div>
+
+                    {report && (
+                        <>
+                            <div className='chart-section'>
+                                <CalibrationChart report={report} />
+                                <div className='chart-legend'>
+                                    <p>
+                                        Each point is a 10% confidence bucket: how often signals claiming that
+                                        confidence actually won. Points below the dashed line are overconfident.
+                                    </p>
+                                    <p>
+                                        <strong>Overall:</strong> {report.overall.avgClaimed.toFixed(1)}% claimed vs{' '}
+                                        {report.overall.hitRate.toFixed(1)}% realised
+                                    </p>
+                                </div>
+                            </div>
+
+                            <StatsTable title='By Generator' rows={generatorRows} />
+                            <StatsTable title='By Signal Type' rows={signalTypeRows} />
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import { ProvenanceBadge } from '@/components/shared/ProvenanceBadge';
 import { DBOT_TABS } from '@/constants/bot-contents';
 import { useStore } from '@/hooks/useStore';
 import { derivAPIService } from '@/services/deriv-api.service';
@@ -7,11 +8,13 @@ import { patternPredictor } from '@/services/pattern-predictor.service';
 import { signalAnalysisService } from '@/services/signal-analysis.service';
 import { SignalTradeResult, signalTradingService } from '@/services/signal-trading.service';
 import { signalsCenterBridge, BridgedSignal } from '@/services/signals-center-bridge.service';
+import { DataProvenance, isTradeableProvenance, TickProvenance } from '@/services/tick-source/tick-source';
 import { EntryAnalysis, EvenOddEntrySuggester } from '@/utils/evenodd-entry-suggester';
 import { hasPremiumAccess } from '@/utils/premium-access-check';
 import { stakeManager } from '@/services/stake-manager.service';
 import { signalBotLoader } from '@/services/signal-bot-loader.service';
 import { adaptiveRecoveryStrategy } from '@/services/adaptive-recovery-strategy.service';
+import { assertValidBundledBotXml } from '@/services/bot-manifest/bot-xml-parameters';
 import { AutoTradeSettings } from './AutoTradeSettings';
 import { ConnectionPoolStatus } from './ConnectionPoolStatus';
 import { ConnectionStatus } from './ConnectionStatus';
@@ -19,6 +22,7 @@ import { DigitHackerSignals } from './DigitHackerSignals';
 import { DynamicSignals } from './DynamicSignals';
 import { PerformanceDashboard } from './PerformanceDashboard';
 import { RiskManagementSettings } from './RiskManagementSettings';
+import { SignalCalibrationDashboard } from './SignalCalibrationDashboard';
 import { StakeMartingaleModal } from './StakeMartingaleModal';
 import './SignalsCenter.scss';
 import './SignalsCenter-enhanced.scss';
@@ -63,6 +67,7 @@ interface SignalsCenterSignal {
     confidencePercentage?: number; // Actual percentage (60-95%)
     strategy: string;
     source: string;
+    provenance?: DataProvenance;
     status: 'ACTIVE' | 'WON' | 'LOST' | 'EXPIRED' | 'TRADING';
     result?: number;
     entryDigit?: number;
@@ -168,6 +173,9 @@ export const SignalsCenter: React.FC = () => {
     const [filterStrategy, setFilterStrategy] = useState<string>('all');
     const [filterTime, setFilterTime] = useState<'1m' | '2m' | '3m' | '5m' | '10m' | 'all'>('5m');
     const [showFilters, setShowFilters] = useState(false);
+    const [significantHotColdOnly, setSignificantHotColdOnly] = useState(
+        () => hotColdZoneScannerService.getSignificanceFilter().enabled
+    );
     const [showNotifications] = useState(true);
 
     // Signal Generator Toggles - Control which generators are active
@@ -179,6 +187,7 @@ export const SignalsCenter: React.FC = () => {
     const [latestSignal, setLatestSignal] = useState<SignalsCenterSignal | null>(null);
     const [, setTradeStats] = useState(signalTradingService.getStats());
     const [showDashboard, setShowDashboard] = useState(false);
+    const [showCalibration, setShowCalibration] = useState(false);
     const [showRiskSettings, setShowRiskSettings] = useState(false);
     const [showAutoTradeSettings, setShowAutoTradeSettings] = useState(false);
     const [autoTradeEnabled, setAutoTradeEnabled] = useState(signalTradingService.getAutoTradeConfig().enabled);
@@ -691,6 +700,7 @@ export const SignalsCenter: React.FC = () => {
                         signalAnalysisService.addTick({
                             quote: tickData.tick.quote,
                             epoch: tickData.tick.epoch,
+                            provenance: 'live',
                         });
 
                         // Update connection state
@@ -860,6 +870,7 @@ export const SignalsCenter: React.FC = () => {
                         : signalResult.strategy.includes('Pattern')
                           ? 'pattern'
                           : 'ai',
+                    provenance: signalAnalysisService.getProvenance(),
                     status: 'ACTIVE',
                     entryDigit: signalResult.entryDigit,
                     displayFirstDigit,
@@ -951,7 +962,9 @@ export const SignalsCenter: React.FC = () => {
             try {
                 const recentTicks = (
                     signalAnalysisService as unknown as {
-                        getRecentTicks: (count: number) => Array<{ quote: number; epoch: number }>;
+                        getRecentTicks: (
+                            count: number
+                        ) => Array<{ quote: number; epoch: number; provenance: TickProvenance }>;
                     }
                 ).getRecentTicks(20);
 
@@ -960,6 +973,7 @@ export const SignalsCenter: React.FC = () => {
                 const tickData = recentTicks.map((t, idx) => ({
                     value: t.quote,
                     timestamp: t.epoch * 1000 || Date.now() - (recentTicks.length - idx) * 2000,
+                    provenance: t.provenance,
                 }));
 
                 const prediction = patternPredictor.predict(tickData);
@@ -983,6 +997,7 @@ export const SignalsCenter: React.FC = () => {
                         confidence: prediction.confidence >= 70 ? 'HIGH' : 'MEDIUM',
                         strategy: `Multi-Market Scan: ${prediction.patternType}`,
                         source: 'multimarket',
+                        provenance: prediction.provenance,
                         status: 'ACTIVE',
                         reason: prediction.reasoning,
                     };
@@ -1040,6 +1055,7 @@ export const SignalsCenter: React.FC = () => {
                             hotColdSignal.confidence >= 80 ? 'HIGH' : hotColdSignal.confidence >= 60 ? 'MEDIUM' : 'LOW',
                         strategy: `Raziel: ${hotColdSignal.signalType}`,
                         source: 'hotcoldzone',
+                        provenance: hotColdSignal.provenance,
                         status: 'ACTIVE',
                         entryDigit: hotColdSignal.targetDigit,
                         reason: hotColdSignal.recommendation.reasoning,
@@ -2492,7 +2508,7 @@ export const SignalsCenter: React.FC = () => {
             });
 
             // Use centralized service to apply both stake and martingale settings
-            const updateResult = signalBotLoader.applyStakeManagerSettings(xmlDoc);
+            const updateResult = signalBotLoader.applyStakeManagerSettings(xmlDoc, 'NOVAGRID 2026.xml');
 
             console.log('✅ Centralized StakeManager Update Results:', {
                 fieldsUpdated: updateResult.fieldsUpdated,
@@ -2502,7 +2518,7 @@ export const SignalsCenter: React.FC = () => {
             });
 
             // Set Amount equal to Initial Stake
-            const amountResult = signalBotLoader.setAmountEqualToInitialStake(xmlDoc);
+            const amountResult = signalBotLoader.setAmountEqualToInitialStake(xmlDoc, 'NOVAGRID 2026.xml');
             console.log('✅ Amount = Initial Stake Update Results:', {
                 success: amountResult.success,
                 amountUpdated: amountResult.amountUpdated,
@@ -2521,6 +2537,9 @@ export const SignalsCenter: React.FC = () => {
             const serializer = new XMLSerializer();
             botXml = serializer.serializeToString(xmlDoc);
 
+            // Refuse to hand Blockly a workspace that no longer matches the bot's manifest
+            assertValidBundledBotXml('NOVAGRID 2026.xml', botXml);
+
             // Switch to Bot Builder tab
             setActiveTab(DBOT_TABS.BOT_BUILDER);
 
@@ -2924,6 +2943,13 @@ export const SignalsCenter: React.FC = () => {
                                             >
                                                 📊 Analytics
                                             </button>
+                                            <button
+                                                className='control-btn'
+                                                onClick={() => setShowCalibration(true)}
+                                                title='Compare claimed confidence with realised hit rates'
+                                            >
+                                                🎯 Calibration
+                                            </button>
                                             <button
                                                 className='control-btn'
                                                 onClick={() => setShowConnectionPool(true)}
@@ -3150,6 +3176,22 @@ export const SignalsCenter: React.FC = () => {
                                                     </button>
                                                 </div>
                                             </div>
+
+                                            <div className='filter-group'>
+                                                <label>
+                                                    <input
+                                                        type='checkbox'
+                                                        checked={significantHotColdOnly}
+                                                        onChange={e => {
+                                                            hotColdZoneScannerService.setSignificanceFilter({
+                                                                enabled: e.target.checked,
+                                                            });
+                                                            setSignificantHotColdOnly(e.target.checked);
+                                                        }}
+                                                    />{' '}
+                                                    Significant Hot/Cold only
+                                                </label>
+                                            </div>
                                         </div>
                                     )}
                                 </>
@@ -3446,10 +3488,14 @@ export const SignalsCenter: React.FC = () => {
                                     <h2 className='market-name'>{getMarketDisplayName(signal.market)}</h2>
                                     <div className='market-info'>
                                         <span className='market-code'>{getMarketCode(signal.market)}</span>
-                                        <span className='live-indicator'>
-                                            <span className='live-dot'></span>
-                                            Live
-                                        </span>
+                                        {signal.provenance && !isTradeableProvenance(signal.provenance) ? (
+                                            <ProvenanceBadge provenance={signal.provenance} />
+                                        ) : (
+                                            <span className='live-indicator'>
+                                                <span className='live-dot'></span>
+                                                Live
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
 
@@ -3528,6 +3574,7 @@ export const SignalsCenter: React.FC = () => {
 
             {/* Modal Components */}
             {showDashboard && <PerformanceDashboard onClose={() => setShowDashboard(false)} />}
+            {showCalibration && <SignalCalibrationDashboard onClose={() => setShowCalibration(false)} />}
 
             {showRiskSettings && <RiskManagementSettings onClose={() => setShowRiskSettings(false)} />}
 
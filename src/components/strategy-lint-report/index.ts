@@ -0,0 +1,4 @@
+import StrategyLintReport from './strategy-lint-report';
+import './strategy-lint-report.scss';
+
+export default StrategyLintReport;
@@ -0,0 +1,80 @@
+import classNames from 'classnames';
+import { observer } from 'mobx-react-lite';
+import Button from '@/components/shared_ui/button';
+import Modal from '@/components/shared_ui/modal';
+import Text from '@/components/shared_ui/text';
+import { useStore } from '@/hooks/useStore';
+import { Localize, localize } from '@deriv-com/translations';
+import { useDevice } from '@deriv-com/ui';
+import ThemedScrollbars from '../shared_ui/themed-scrollbars';
+
+const StrategyLintReport = observer(() => {
+    const { run_panel } = useStore();
+    const { lint_report, lint_report_source, closeLintReport, onLintIssueClick, onRunDespiteLintWarnings } = run_panel;
+    const { isDesktop } = useDevice();
+
+    if (!lint_report) return null;
+
+    const { issues, errorCount, warningCount, hasErrors } = lint_report;
+    const can_run_anyway = lint_report_source === 'run' && !hasErrors;
+
+    return (
+        <Modal
+            className={classNames('strategy-lint-report', { 'strategy-lint-report--mobile': !isDesktop })}
+            title={localize('Strategy check')}
+            is_open
+            toggleModal={closeLintReport}
+            width='520px'
+        >
+            <Modal.Body>
+                <Text as='p' size='xs' className='strategy-lint-report__summary'>
+                    {hasErrors ? (
+                        <Localize
+                            i18n_default_text='Found {{ errorCount }} error(s) and {{ warningCount }} warning(s). Fix the errors before running your bot.'
+                            values={{ errorCount, warningCount }}
+                        />
+                    ) : (
+                        <Localize
+                            i18n_default_text='Found {{ warningCount }} warning(s). Your bot can run, but review them first.'
+                            values={{ warningCount }}
+                        />
+                    )}
+                </Text>
+                <ThemedScrollbars className='strategy-lint-report__scrollbar'>
+                    <ul className='strategy-lint-report__issues'>
+                        {issues.map((issue, index) => (
+                            <li
+                                key={`${issue.ruleId}-${issue.blockId ?? index}`}
+                                className={classNames(
+                                    'strategy-lint-report__issue',
+                                    `strategy-lint-report__issue--${issue.severity}`
+                                )}
+                            >
+                                <Text size='xxs' weight='bold' className='strategy-lint-report__severity'>
+                                    {issue.severity === 'error' ? localize('Error') : localize('Warning')}
+                                </Text>
+                                <Text size='xs'>{issue.message}</Text>
+                                {issue.blockId && (
+                                    <button
+                                        className='strategy-lint-report__link'
+                                        onClick={() => onLintIssueClick(issue.blockId as string)}
+                                    >
+                                        <Localize i18n_default_text='Show block' />
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </ThemedScrollbars>
+            </Modal.Body>
+            <Modal.Footer has_separator>
+                <Button text={localize('Close')} onClick={closeLintReport} has_effect secondary large />
+                {can_run_anyway && (
+                    <Button text={localize('Run anyway')} onClick={onRunDespiteLintWarnings} has_effect primary large />
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+});
+
+export default StrategyLintReport;
@@ -9,15 +9,17 @@ import { useDevice } from '@deriv-com/ui';
 import ContractCardLoader from '../contract-card-loading';
 import { getCardLabels } from '../shared';
 import ContractCard from '../shared_ui/contract-card';
+import Money from '../shared_ui/money';
 import { TSummaryCardProps } from './summary-card.types';
 
 const SummaryCard = observer(({ contract_info, is_contract_loading, is_bot_running }: TSummaryCardProps) => {
-    const { summary_card, run_panel, ui, common } = useStore();
+    const { summary_card, run_panel, ui, common, transactions } = useStore();
     const { is_contract_completed, is_contract_inactive, is_multiplier, is_accumulator, setIsBotRunning } =
         summary_card;
     const { onClickSell, is_sell_requested, contract_stage } = run_panel;
     const { addToast, current_focus, removeToast, setCurrentFocus } = ui;
     const { server_time } = common;
+    const { market_statistics } = transactions;
 
     const { isDesktop } = useDevice();
 
@@ -105,6 +107,36 @@ const SummaryCard = observer(({ contract_info, is_contract_loading, is_bot_runni
                     </div>
                 </ContractCard>
             )}
+            {market_statistics.length > 1 && (
+                <div className='db-summary-card__markets'>
+                    {market_statistics.map(market => (
+                        <div key={market.symbol} className='db-summary-card__market'>
+                            <Text size='xxs' weight='bold'>
+                                {market.display_name}
+                            </Text>
+                            <Text size='xxs'>
+                                {localize('{{ won }} won / {{ lost }} lost', {
+                                    won: market.won_contracts,
+                                    lost: market.lost_contracts,
+                                })}
+                                {market.open_contracts > 0 && ` · ${localize('open')}`}
+                            </Text>
+                            <Text
+                                size='xxs'
+                                color={market.total_profit < 0 ? 'loss-danger' : 'profit-success'}
+                                weight='bold'
+                            >
+                                <Money
+                                    amount={market.total_profit}
+                                    currency={contract_info?.currency ?? ''}
+                                    has_sign
+                                    show_currency
+                                />
+                            </Text>
+                        </div>
+                    ))}
+                </div>
+            )}
             {!is_contract_loading && !contract_info && !is_bot_running && (
                 <Text as='p' align='center' lineHeight='s' size='xs'>
                     {localize('When you’re ready to trade, hit ')}
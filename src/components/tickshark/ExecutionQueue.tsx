@@ -0,0 +1,150 @@
+/**
+ * TickShark Execution Queue Component
+ * Intents waiting for approval, trades in flight and execution statistics
+ *
+ * CRITICAL: Human oversight for SEMI_AUTOMATED trading
+ * - Approve or reject each queued intent before its confirmation deadline
+ * - Countdown until an unanswered intent is rejected
+ * - Recent outcomes and ExecutionStatistics
+ */
+
+import React, { useEffect, useState } from 'react';
+import { executionService, ExecutionSnapshot } from '../../services/tickshark/execution.service';
+import { toDerivContractType } from '../../services/tickshark/simulation.service';
+import { TradeIntent } from '../../types/tickshark/execution.types';
+import './ExecutionQueue.scss';
+
+export interface ExecutionQueueProps {
+    compact?: boolean;
+    recentLimit?: number;
+}
+
+const describeIntent = (intent: TradeIntent) =>
+    `${intent.parameters.symbol} · ${toDerivContractType(intent.parameters)} · ${intent.parameters.duration}t`;
+
+export const ExecutionQueue: React.FC<ExecutionQueueProps> = ({ compact = false, recentLimit = 5 }) => {
+    const [snapshot, setSnapshot] = useState<ExecutionSnapshot>(() => executionService.getSnapshot());
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => executionService.subscribe(setSnapshot), []);
+
+    // Tick the countdowns only while something is waiting for approval
+    useEffect(() => {
+        if (snapshot.confirmations.length === 0) return;
+
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(timer);
+    }, [snapshot.confirmations.length]);
+
+    const { confirmations, queue, statistics } = snapshot;
+    const recent = [...queue.completed, ...queue.failed]
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(0, recentLimit);
+
+    return (
+        <div className={`execution-queue ${compact ? 'compact' : ''}`}>
+            <div className='execution-queue__section'>
+                <h4 className='execution-queue__title'>Awaiting confirmation ({confirmations.length})</h4>
+                {confirmations.length === 0 && <p className='execution-queue__empty'>No intents waiting</p>}
+                {confirmations.map(({ intent, requestedAt, expiresAt }) => {
+                    const remaining = Math.max(0, expiresAt - now);
+                    const share = expiresAt > requestedAt ? remaining / (expiresAt - requestedAt) : 0;
+
+                    return (
+                        <div key={intent.id} className='execution-queue__intent'>
+                            <div className='intent-summary'>
+                                <span className='intent-contract'>{describeIntent(intent)}</span>
+                                <span className='intent-stake'>Stake {intent.parameters.stake.toFixed(2)}</span>
+                                <span className='intent-scores'>
+                                    Confidence {(intent.confidence * 100).toFixed(0)}% · Risk{' '}
+                                    {(intent.riskScore * 100).toFixed(0)}%
+                                </span>
+                            </div>
+                            <div className='intent-countdown'>
+                                <div className='intent-countdown__bar' style={{ width: `${share * 100}%` }} />
+                                <span className='intent-countdown__label'>{Math.ceil(remaining / 1000)}s</span>
+                            </div>
+                            <div className='intent-actions'>
+                                <button
+                                    className='intent-btn intent-btn--approve'
+                                    onClick={() => executionService.approveIntent(intent.id)}
+                                >
+                                    Approve
+                                </button>
+                                <button
+                                    className='intent-btn intent-btn--reject'
+                                    onClick={() => executionService.rejectIntent(intent.id)}
+                                >
+                                    Reject
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {queue.executing.length > 0 && (
+                <div className='execution-queue__section'>
+                    <h4 className='execution-queue__title'>Executing ({queue.executing.length})</h4>
+                    {queue.executing.map(intent => (
+                        <div key={intent.id} className='execution-queue__row'>
+                            <span>{describeIntent(intent)}</span>
+                            <span>{intent.parameters.stake.toFixed(2)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {recent.length > 0 && (
+                <div className='execution-queue__section'>
+                    <h4 className='execution-queue__title'>Recent</h4>
+                    {recent.map(intent => {
+                        const profit = intent.execution?.profit;
+                        return (
+                            <div
+                                key={intent.id}
+                                className={`execution-queue__row status-${intent.status.toLowerCase()}`}
+                                title={intent.execution?.errorMessage}
+                            >
+                                <span>{describeIntent(intent)}</span>
+                                <span>
+                                    {intent.status === 'COMPLETED' && profit !== undefined
+                                        ? `${profit >= 0 ? '+' : ''}${profit.toFixed(2)}`
+                                        : intent.status}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className='execution-queue__stats'>
+                <div className='metric'>
+                    <span className='metric-label'>Trades</span>
+                    <span className='metric-value'>{statistics.totalTrades}</span>
+                </div>
+                <div className='metric'>
+                    <span className='metric-label'>Win rate</span>
+                    <span className='metric-value'>{(statistics.winRate * 100).toFixed(1)}%</span>
+                </div>
+                <div className='metric'>
+                    <span className='metric-label'>Net profit</span>
+                    <span className='metric-value'>{statistics.netProfit.toFixed(2)}</span>
+                </div>
+                <div className='metric'>
+                    <span className='metric-label'>Avg latency</span>
+                    <span className='metric-value'>{statistics.averageLatency.toFixed(0)}ms</span>
+                </div>
+                <div className='metric'>
+                    <span className='metric-label'>Cancelled / Rejected</span>
+                    <span className='metric-value'>
+                        {statistics.cancelledTrades} / {statistics.riskViolations}
+                    </span>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExecutionQueue;
@@ -10,6 +10,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { ProvenanceBadge } from '../shared/ProvenanceBadge';
 import { analysisEngineService } from '../../services/tickshark/analysis-engine.service';
 import { signalGeneratorService, AnalysisSignal } from '../../services/tickshark/signal-generator.service';
 import { tickListenerService } from '../../services/tickshark/tick-listener.service';
@@ -213,6 +214,7 @@ export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({
                     <span className="type-icon">📊</span>
                     <span className="type-name">{signal.type.replace('_', ' ')}</span>
                 </div>
+                <ProvenanceBadge provenance={signal.provenance} />
                 <div className={`signal-urgency urgency-${signal.urgency.toLowerCase()}`}>
                     {signal.urgency}
                 </div>
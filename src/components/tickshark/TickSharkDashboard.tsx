@@ -15,10 +15,22 @@ import { SessionControls } from './SessionControls';
 import { MarketAnalysis } from './MarketAnalysis';
 import { SettingsPanel } from './SettingsPanel';
 import { PerformanceAnalytics } from './PerformanceAnalytics';
+import { ExecutionQueue } from './ExecutionQueue';
 import { modeManagerService, TradingMode } from '../../services/tickshark/mode-manager.service';
 import { sessionManagerService } from '../../services/tickshark/session-manager.service';
+import { simulationService } from '../../services/tickshark/simulation.service';
+import { executionService } from '../../services/tickshark/execution.service';
+import { TickRecording, tickRecorder } from '../../services/tick-recorder.service';
+import { SimulationMode, SimulationState } from '../../types/tickshark/simulation.types';
 import './TickSharkDashboard.scss';
 
+const SIMULATION_MODE_LABELS: Record<SimulationMode, string> = {
+    HISTORICAL_REPLAY: 'Historical replay',
+    SYNTHETIC_DATA: 'Synthetic ticks',
+    HYBRID: 'Replay, then synthetic',
+    LIVE_SIMULATION: 'Live ticks',
+};
+
 export interface TickSharkDashboardProps {
     initialMode?: TradingMode;
     onModeChange?: (mode: TradingMode) => void;
@@ -38,6 +50,12 @@ export const TickSharkDashboard: React.FC<TickSharkDashboardProps> = ({
     const [isInitializing, setIsInitializing] = useState(true);
     const [systemStatus, setSystemStatus] = useState<'INITIALIZING' | 'READY' | 'ERROR'>('INITIALIZING');
     const [activePanel, setActivePanel] = useState<'overview' | 'session' | 'analysis' | 'analytics' | 'settings'>('overview');
+    const [simulationState, setSimulationState] = useState<SimulationState | null>(null);
+    const [simulationSettings, setSimulationSettings] = useState(() => {
+        const { mode, dataSource } = simulationService.getConfiguration();
+        return { mode, tickRate: dataSource.tickRate, recordingId: dataSource.recordingId || '' };
+    });
+    const [recordings, setRecordings] = useState<TickRecording[]>([]);
 
     // Initialize dashboard
     useEffect(() => {
@@ -72,10 +90,51 @@ export const TickSharkDashboard: React.FC<TickSharkDashboardProps> = ({
         initializeDashboard();
     }, [initialMode, onError]);
 
+    // Signals become trade intents while the dashboard is open; the current mode decides how they execute
+    useEffect(() => {
+        executionService.start();
+        return () => executionService.stop();
+    }, []);
+
+    // Poll simulation progress while in simulation mode
+    useEffect(() => {
+        if (currentMode !== 'SIMULATION') {
+            setSimulationState(null);
+            return;
+        }
+
+        setSimulationState(simulationService.getState());
+        const timer = setInterval(() => setSimulationState(simulationService.getState()), 1000);
+        return () => clearInterval(timer);
+    }, [currentMode]);
+
+    // Recordings of the simulated symbol that a replay can be pointed at
+    useEffect(() => {
+        if (currentMode !== 'SIMULATION') return;
+
+        const { symbol } = simulationService.getConfiguration().dataSource;
+        const refresh = () => tickRecorder.listRecordings(symbol).then(setRecordings).catch(() => setRecordings([]));
+        refresh();
+        return tickRecorder.subscribe(refresh);
+    }, [currentMode]);
+
     // Handle mode changes
     const handleModeChange = async (newMode: TradingMode) => {
         try {
-            const success = await modeManagerService.switchMode(newMode);
+            let success = await modeManagerService.switchMode(newMode);
+
+            // Modes that place trades wait for the switch to be confirmed
+            if (!success && modeManagerService.getModeStatus().pendingTransition) {
+                const confirmed = window.confirm(
+                    `Switch to ${getModeInfo(newMode).name}? Trades will be placed on your account.`
+                );
+                if (!confirmed) {
+                    modeManagerService.cancelModeSwitch();
+                    return;
+                }
+                success = await modeManagerService.confirmModeSwitch();
+            }
+
             if (success) {
                 setCurrentMode(newMode);
                 onModeChange?.(newMode);
@@ -90,6 +149,23 @@ export const TickSharkDashboard: React.FC<TickSharkDashboardProps> = ({
         }
     };
 
+    // Restart the simulation with the chosen tick source and replay speed
+    const handleRestartSimulation = async () => {
+        try {
+            await simulationService.start({
+                mode: simulationSettings.mode,
+                dataSource: {
+                    ...simulationService.getConfiguration().dataSource,
+                    tickRate: simulationSettings.tickRate,
+                    recordingId: simulationSettings.recordingId || undefined,
+                },
+            });
+        } catch (error) {
+            onError?.(error instanceof Error ? error.message : 'Simulation failed to start');
+        }
+        setSimulationState(simulationService.getState());
+    };
+
     // Handle session actions
     const handleSessionAction = (action: string, data?: any) => {
         console.log('🦈 Session action:', action, data);
@@ -281,6 +357,101 @@ export const TickSharkDashboard: React.FC<TickSharkDashboardProps> = ({
                                 </div>
                             </div>
 
+                            {simulationState && (
+                                <div className="overview-card">
+                                    <div className="card-header">
+                                        <span className="card-icon">🧪</span>
+                                        <h4>Simulation</h4>
+                                    </div>
+                                    <div className="card-content">
+                                        <div className="performance-metrics">
+                                            <div className="metric">
+                                                <span className="metric-label">Source</span>
+                                                <span className="metric-value">
+                                                    {SIMULATION_MODE_LABELS[simulationService.getConfiguration().mode]}
+                                                </span>
+                                            </div>
+                                            <div className="metric">
+                                                <span className="metric-label">Status</span>
+                                                <span className="metric-value">{simulationState.status}</span>
+                                            </div>
+                                            <div className="metric">
+                                                <span className="metric-label">Progress</span>
+                                                <span className="metric-value">{(simulationState.progress * 100).toFixed(0)}%</span>
+                                            </div>
+                                            <div className="metric">
+                                                <span className="metric-label">Ticks / Trades</span>
+                                                <span className="metric-value">
+                                                    {simulationState.ticksProcessed} / {simulationState.tradesExecuted}
+                                                </span>
+                                            </div>
+                                        </div>
+                                        {simulationState.errors.length > 0 && (
+                                            <p className="mode-description">{simulationState.errors[simulationState.errors.length - 1]}</p>
+                                        )}
+                                        <div className="simulation-controls">
+                                            <label className="simulation-control">
+                                                <span className="metric-label">Tick source</span>
+                                                <select
+                                                    value={simulationSettings.mode}
+                                                    onChange={(e) => setSimulationSettings({ ...simulationSettings, mode: e.target.value as SimulationMode })}
+                                                >
+                                                    {(Object.keys(SIMULATION_MODE_LABELS) as SimulationMode[]).map((mode) => (
+                                                        <option key={mode} value={mode}>{SIMULATION_MODE_LABELS[mode]}</option>
+                                                    ))}
+                                                </select>
+                                            </label>
+                                            <label className="simulation-control">
+                                                <span className="metric-label">Replay ticks from</span>
+                                                <select
+                                                    value={simulationSettings.recordingId}
+                                                    disabled={simulationSettings.mode === 'LIVE_SIMULATION' || simulationSettings.mode === 'SYNTHETIC_DATA'}
+                                                    onChange={(e) => setSimulationSettings({ ...simulationSettings, recordingId: e.target.value })}
+                                                >
+                                                    <option value="">Deriv history</option>
+                                                    {recordings.map((recording) => (
+                                                        <option key={recording.id} value={recording.id}>
+                                                            {new Date(recording.startedAt).toLocaleString()} · {recording.tickCount} ticks
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </label>
+                                            <label className="simulation-control">
+                                                <span className="metric-label">Ticks per second</span>
+                                                <input
+                                                    type="number"
+                                                    min="0.1"
+                                                    max="100"
+                                                    step="0.1"
+                                                    value={simulationSettings.tickRate}
+                                                    disabled={simulationSettings.mode === 'LIVE_SIMULATION'}
+                                                    onChange={(e) => setSimulationSettings({ ...simulationSettings, tickRate: Number(e.target.value) })}
+                                                />
+                                            </label>
+                                            <button
+                                                className="simulation-restart"
+                                                onClick={handleRestartSimulation}
+                                                disabled={!(simulationSettings.tickRate > 0)}
+                                            >
+                                                Restart Simulation
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {currentMode !== 'MANUAL_OBSERVATION' && (
+                                <div className="overview-card">
+                                    <div className="card-header">
+                                        <span className="card-icon">🎯</span>
+                                        <h4>Execution Queue</h4>
+                                    </div>
+                                    <div className="card-content">
+                                        <ExecutionQueue compact={compactMode} />
+                                    </div>
+                                </div>
+                            )}
+
                             <div className="overview-card">
                                 <div className="card-header">
                                     <span className="card-icon">⚡</span>
@@ -2,12 +2,12 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useStore } from '@/hooks/useStore';
 import { usePortfolio } from '@/hooks/useDerivAPI';
 import type { BotStats } from '@/services/flipping-tool.service';
+import type { DigitContractResult, ExecutionMode, ExecutionStats } from '@/services/digit-contract-executor.service';
 import { instantFillService } from '@/services/instant-fill.service';
 import { multipleStakesService } from '@/services/multiple-stakes.service';
 import { instantMatchesService } from '@/services/instant-matches.service';
+import type { InstantMatchesConfig } from '@/services/instant-matches.service';
 import { derivAPIService } from '@/services/deriv-api.service';
-import { signalTradingService } from '@/services/signal-trading.service';
-import type { SignalTradeConfig } from '@/services/signal-trading.service';
 import './TradingHub.scss';
 
 type TabType = 'instant-fill' | 'multiple-stakes' | 'flipa-switcher' | 'instant-matches';
@@ -20,6 +20,41 @@ interface ActiveStrategy {
     prediction: number;
 }
 
+interface ExecutionModeSwitchProps {
+    mode: ExecutionMode;
+    disabled: boolean;
+    onChange: (mode: ExecutionMode) => void;
+}
+
+// Live mode buys real contracts, so switching to it needs an explicit confirmation
+const confirmExecutionMode = (tool: string, mode: ExecutionMode): boolean =>
+    mode === 'paper' || window.confirm(`${tool} will buy real contracts on your Deriv account. Switch to live mode?`);
+
+// Paper trades settle against the ticks that follow them; live trades buy real contracts
+const ExecutionModeSwitch: React.FC<ExecutionModeSwitchProps> = ({ mode, disabled, onChange }) => (
+    <div className={`execution-mode-switch ${mode}`}>
+        <span className='execution-mode-switch__status'>
+            {mode === 'live' ? '💰 LIVE - real contracts are bought' : '📝 PAPER - settled on live ticks, nothing is bought'}
+        </span>
+        <div className='execution-mode-switch__buttons'>
+            <button
+                className={`execution-mode-switch__btn paper ${mode === 'paper' ? 'active' : ''}`}
+                onClick={() => onChange('paper')}
+                disabled={disabled}
+            >
+                Paper
+            </button>
+            <button
+                className={`execution-mode-switch__btn live ${mode === 'live' ? 'active' : ''}`}
+                onClick={() => onChange('live')}
+                disabled={disabled}
+            >
+                Live
+            </button>
+        </div>
+    </div>
+);
+
 export const TradingHub: React.FC = () => {
     
     // Tab state
@@ -110,9 +145,9 @@ export const TradingHub: React.FC = () => {
     });
 
     // Statistics for each tab
-    const [instantFillStats, setInstantFillStats] = useState({ totalPL: 0, totalRuns: 0, won: 0, lost: 0 });
-    const [multipleStakesStats, setMultipleStakesStats] = useState({ totalPL: 0, totalRuns: 0, won: 0, lost: 0 });
-    const [instantMatchesStats, setInstantMatchesStats] = useState({ totalPL: 0, totalRuns: 0, won: 0, lost: 0 });
+    const [instantFillStats, setInstantFillStats] = useState<ExecutionStats>(() => instantFillService.getStats());
+    const [multipleStakesStats, setMultipleStakesStats] = useState<ExecutionStats>(() => multipleStakesService.getStats());
+    const [instantMatchesStats, setInstantMatchesStats] = useState<ExecutionStats>(() => instantMatchesService.getStats());
     
     // Digit statistics for Multiple Stakes and Instant Matches
     const [digitStats, setDigitStats] = useState<Array<{ digit: number; percentage: number }>>([]);
@@ -148,46 +183,56 @@ export const TradingHub: React.FC = () => {
         return true;
     }, [client]);
 
-    // INSTANT FILL HANDLERS - Now executes REAL trades via Deriv API
+    // Surface the first failed trade of a run
+    const reportResults = useCallback((results: DigitContractResult[]) => {
+        const failed = results.find(result => !result.success);
+        if (failed) {
+            setTradeError(failed.error || 'Trade execution failed');
+        }
+    }, []);
+
+    // Balance only matters when real contracts are bought
+    const canAfford = useCallback((mode: ExecutionMode, requiredAmount: number): boolean => {
+        return mode === 'paper' || checkBalance(requiredAmount);
+    }, [checkBalance]);
+
+    const handleInstantFillExecutionMode = useCallback((mode: ExecutionMode) => {
+        if (!confirmExecutionMode('Instant Fill', mode)) return;
+        instantFillService.setExecutionMode(mode);
+        setInstantFillStats(instantFillService.getStats());
+    }, []);
+
+    const handleMultipleStakesExecutionMode = useCallback((mode: ExecutionMode) => {
+        if (!confirmExecutionMode('Multiple Stakes', mode)) return;
+        multipleStakesService.setExecutionMode(mode);
+        setMultipleStakesStats(multipleStakesService.getStats());
+    }, []);
+
+    const handleInstantMatchesExecutionMode = useCallback((mode: ExecutionMode) => {
+        if (!confirmExecutionMode('Instant Matches', mode)) return;
+        instantMatchesService.setExecutionMode(mode);
+        setInstantMatchesStats(instantMatchesService.getStats());
+    }, []);
+
+    // INSTANT FILL HANDLERS - live or paper, as selected in the panel
     const handleInstantFillTrade = useCallback(async (strategy: 'Even' | 'Odd') => {
-        if (!checkBalance(instantStake)) return;
+        if (!canAfford(instantFillService.getExecutionMode(), instantStake)) return;
         
         setIsTrading(true);
         setTradeError(null);
         
         try {
-            console.log('🎯 Executing REAL trade:', { market: instantMarket, strategy, stake: instantStake });
-            
-            // Map strategy to contract type
-            const contractType = strategy === 'Even' ? 'DIGITEVEN' : 'DIGITODD';
-            
-            // Execute real trade via signal trading service
-            const tradeConfig: SignalTradeConfig = {
-                signalId: `instant-fill-${Date.now()}`,
+            const result = await instantFillService.executeTrade({
                 market: instantMarket,
-                type: contractType,
+                strategy,
                 stake: instantStake,
                 duration: instantDuration,
-                durationUnit: 't', // ticks
-                barrier: instantPrediction.toString(),
-            };
-            
-            const result = await signalTradingService.executeSignalTrade(tradeConfig, (tradeResult) => {
-                console.log('✅ Trade completed:', tradeResult);
-                if (tradeResult.profit !== undefined) {
-                    setInstantFillStats(prev => ({
-                        totalPL: prev.totalPL + tradeResult.profit!,
-                        totalRuns: prev.totalRuns + 1,
-                        won: prev.won + (tradeResult.isWon ? 1 : 0),
-                        lost: prev.lost + (tradeResult.isWon ? 0 : 1),
-                    }));
-                }
+                prediction: instantPrediction,
+                both: instantBoth,
             });
             
-            if (!result.success) {
-                setTradeError(result.error || 'Trade execution failed');
-            }
-            
+            reportResults([result]);
+            setInstantFillStats(instantFillService.getStats());
             fetchPortfolio();
         } catch (error: any) {
             setTradeError(error.message || 'Trade failed');
@@ -195,52 +240,29 @@ export const TradingHub: React.FC = () => {
         } finally {
             setIsTrading(false);
         }
-    }, [instantMarket, instantStake, instantDuration, instantPrediction, instantBoth, checkBalance, fetchPortfolio]);
+    }, [instantMarket, instantStake, instantDuration, instantPrediction, instantBoth, canAfford, reportResults, fetchPortfolio]);
 
     const handleBulkInstantFill = useCallback(async (strategy: 'Even' | 'Odd') => {
-        if (!checkBalance(instantStake * instantBulkCount)) return;
+        if (!canAfford(instantFillService.getExecutionMode(), instantStake * instantBulkCount)) return;
         
         setIsTrading(true);
         setTradeError(null);
         
         try {
-            console.log(`🎯 Executing ${instantBulkCount} REAL trades:`, { market: instantMarket, strategy, stake: instantStake });
-            
-            const contractType = strategy === 'Even' ? 'DIGITEVEN' : 'DIGITODD';
-            
-            // Execute multiple real trades
-            for (let i = 0; i < instantBulkCount; i++) {
-                const tradeConfig: SignalTradeConfig = {
-                    signalId: `instant-fill-bulk-${Date.now()}-${i}`,
+            const results = await instantFillService.executeBulkTrades(
+                {
                     market: instantMarket,
-                    type: contractType,
+                    strategy,
                     stake: instantStake,
                     duration: instantDuration,
-                    durationUnit: 't',
-                    barrier: instantPrediction.toString(),
-                };
-                
-                const result = await signalTradingService.executeSignalTrade(tradeConfig, (tradeResult) => {
-                    if (tradeResult.profit !== undefined) {
-                        setInstantFillStats(prev => ({
-                            totalPL: prev.totalPL + tradeResult.profit!,
-                            totalRuns: prev.totalRuns + 1,
-                            won: prev.won + (tradeResult.isWon ? 1 : 0),
-                            lost: prev.lost + (tradeResult.isWon ? 0 : 1),
-                        }));
-                    }
-                });
-                
-                if (!result.success) {
-                    console.error(`Trade ${i + 1} failed:`, result.error);
-                }
-                
-                // Small delay between trades
-                if (i < instantBulkCount - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                }
-            }
+                    prediction: instantPrediction,
+                    both: instantBoth,
+                },
+                instantBulkCount
+            );
             
+            reportResults(results);
+            setInstantFillStats(instantFillService.getStats());
             fetchPortfolio();
         } catch (error: any) {
             setTradeError(error.message || 'Bulk trades failed');
@@ -248,59 +270,29 @@ export const TradingHub: React.FC = () => {
         } finally {
             setIsTrading(false);
         }
-    }, [instantMarket, instantStake, instantDuration, instantPrediction, instantBoth, instantBulkCount, checkBalance, fetchPortfolio]);
+    }, [instantMarket, instantStake, instantDuration, instantPrediction, instantBoth, instantBulkCount, canAfford, reportResults, fetchPortfolio]);
 
-    // MULTIPLE STAKES HANDLERS - Now executes REAL trades
+    // MULTIPLE STAKES HANDLERS - live or paper, as selected in the panel
     const handleMultipleStakes = useCallback(async (strategy: 'Over' | 'Under') => {
         const totalStake = digit2Stake + digit4Stake + digit6Stake;
-        if (!checkBalance(totalStake)) return;
+        if (!canAfford(multipleStakesService.getExecutionMode(), totalStake)) return;
         
         setIsTrading(true);
         setTradeError(null);
         
         try {
-            console.log('🎯 Executing REAL multiple stakes:', { market: multiMarket, strategy });
-            
-            const contractType = strategy === 'Over' ? 'DIGITOVER' : 'DIGITUNDER';
-            const digits = [
-                { digit: 2, stake: digit2Stake },
-                { digit: 4, stake: digit4Stake },
-                { digit: 6, stake: digit6Stake },
-            ];
-            
-            // Execute trade for each digit with stake > 0
-            for (const { digit, stake } of digits) {
-                if (stake > 0) {
-                    const tradeConfig: SignalTradeConfig = {
-                        signalId: `multiple-stakes-${Date.now()}-digit${digit}`,
-                        market: multiMarket,
-                        type: contractType,
-                        stake,
-                        duration: multiDuration,
-                        durationUnit: 't',
-                        barrier: digit.toString(),
-                    };
-                    
-                    const result = await signalTradingService.executeSignalTrade(tradeConfig, (tradeResult) => {
-                        if (tradeResult.profit !== undefined) {
-                            setMultipleStakesStats(prev => ({
-                                totalPL: prev.totalPL + tradeResult.profit!,
-                                totalRuns: prev.totalRuns + 1,
-                                won: prev.won + (tradeResult.isWon ? 1 : 0),
-                                lost: prev.lost + (tradeResult.isWon ? 0 : 1),
-                            }));
-                        }
-                    });
-                    
-                    if (!result.success) {
-                        console.error(`Trade for digit ${digit} failed:`, result.error);
-                    }
-                    
-                    // Small delay between trades
-                    await new Promise(resolve => setTimeout(resolve, 500));
-                }
-            }
+            const results = await multipleStakesService.executeMultipleStakes({
+                market: multiMarket,
+                strategy,
+                digit2Stake,
+                digit4Stake,
+                digit6Stake,
+                takeProfit: multiTakeProfit,
+                duration: multiDuration,
+            });
             
+            reportResults(results);
+            setMultipleStakesStats(multipleStakesService.getStats());
             fetchPortfolio();
         } catch (error: any) {
             setTradeError(error.message || 'Multiple stakes failed');
@@ -308,18 +300,18 @@ export const TradingHub: React.FC = () => {
         } finally {
             setIsTrading(false);
         }
-    }, [multiMarket, digit2Stake, digit4Stake, digit6Stake, multiTakeProfit, multiDuration, checkBalance, fetchPortfolio]);
+    }, [multiMarket, digit2Stake, digit4Stake, digit6Stake, multiTakeProfit, multiDuration, canAfford, reportResults, fetchPortfolio]);
 
     const handleBulkMultipleStakes = useCallback(async (strategy: 'Over' | 'Under') => {
         const totalStake = (digit2Stake + digit4Stake + digit6Stake) * multiBulkCount;
-        if (!checkBalance(totalStake)) return;
+        if (!canAfford(multipleStakesService.getExecutionMode(), totalStake)) return;
         
         setIsTrading(true);
         setTradeError(null);
         
         try {
-            for (let i = 0; i < multiBulkCount; i++) {
-                await multipleStakesService.executeMultipleStakes({
+            const results = await multipleStakesService.executeBulkStakes(
+                {
                     market: multiMarket,
                     strategy,
                     digit2Stake,
@@ -327,12 +319,12 @@ export const TradingHub: React.FC = () => {
                     digit6Stake,
                     takeProfit: multiTakeProfit,
                     duration: multiDuration,
-                });
-                await new Promise(resolve => setTimeout(resolve, 1000));
-            }
+                },
+                multiBulkCount
+            );
             
-            const stats = multipleStakesService.getStats();
-            setMultipleStakesStats(stats);
+            reportResults(results);
+            setMultipleStakesStats(multipleStakesService.getStats());
             fetchPortfolio();
         } catch (error: any) {
             setTradeError(error.message || 'Bulk multiple stakes failed');
@@ -340,46 +332,30 @@ export const TradingHub: React.FC = () => {
         } finally {
             setIsTrading(false);
         }
-    }, [multiMarket, digit2Stake, digit4Stake, digit6Stake, multiTakeProfit, multiDuration, multiBulkCount, checkBalance, fetchPortfolio]);
+    }, [multiMarket, digit2Stake, digit4Stake, digit6Stake, multiTakeProfit, multiDuration, multiBulkCount, canAfford, reportResults, fetchPortfolio]);
 
-    // INSTANT MATCHES HANDLERS - Now executes REAL trades
+    // INSTANT MATCHES HANDLERS - live or paper, as selected in the panel
     const handleMatchesTrade = useCallback(async (prediction?: number) => {
-        if (!checkBalance(matchesStake)) return;
+        if (!canAfford(instantMatchesService.getExecutionMode(), matchesStake)) return;
         
         setIsTrading(true);
         setTradeError(null);
         
         try {
-            console.log('🎯 Executing REAL matches trade:', { market: matchesMarket, strategy: matchesStrategy, prediction });
-            
-            // Use prediction if provided, otherwise use first selected digit
-            const targetDigit = prediction !== undefined ? prediction : matchesAnalysisDigits[0];
-            
-            const tradeConfig: SignalTradeConfig = {
-                signalId: `instant-matches-${Date.now()}`,
-                market: matchesMarket,
-                type: matchesStrategy === 'Matches' ? 'DIGITMATCH' : 'DIGITDIFF',
-                stake: matchesStake,
-                duration: matchesDuration,
-                durationUnit: 't',
-                barrier: targetDigit?.toString(),
-            };
-            
-            const result = await signalTradingService.executeSignalTrade(tradeConfig, (tradeResult) => {
-                if (tradeResult.profit !== undefined) {
-                    setInstantMatchesStats(prev => ({
-                        totalPL: prev.totalPL + tradeResult.profit!,
-                        totalRuns: prev.totalRuns + 1,
-                        won: prev.won + (tradeResult.isWon ? 1 : 0),
-                        lost: prev.lost + (tradeResult.isWon ? 0 : 1),
-                    }));
-                }
-            });
-            
-            if (!result.success) {
-                setTradeError(result.error || 'Trade execution failed');
-            }
+            const result = await instantMatchesService.executeTrade(
+                {
+                    market: matchesMarket,
+                    strategy: matchesStrategy as InstantMatchesConfig['strategy'],
+                    stake: matchesStake,
+                    takeProfit: matchesTakeProfit,
+                    duration: matchesDuration,
+                    selectedDigits: matchesAnalysisDigits,
+                },
+                prediction
+            );
             
+            reportResults([result]);
+            setInstantMatchesStats(instantMatchesService.getStats());
             fetchPortfolio();
         } catch (error: any) {
             setTradeError(error.message || 'Matches trade failed');
@@ -387,19 +363,19 @@ export const TradingHub: React.FC = () => {
         } finally {
             setIsTrading(false);
         }
-    }, [matchesMarket, matchesStrategy, matchesStake, matchesTakeProfit, matchesDuration, matchesAnalysisDigits, checkBalance, fetchPortfolio]);
+    }, [matchesMarket, matchesStrategy, matchesStake, matchesTakeProfit, matchesDuration, matchesAnalysisDigits, canAfford, reportResults, fetchPortfolio]);
 
     const handleBulkMatches = useCallback(async (prediction?: number) => {
-        if (!checkBalance(matchesStake * matchesBulkCount)) return;
+        if (!canAfford(instantMatchesService.getExecutionMode(), matchesStake * matchesBulkCount)) return;
         
         setIsTrading(true);
         setTradeError(null);
         
         try {
-            await instantMatchesService.executeBulkTrades(
+            const results = await instantMatchesService.executeBulkTrades(
                 {
                     market: matchesMarket,
-                    strategy: matchesStrategy as any,
+                    strategy: matchesStrategy as InstantMatchesConfig['strategy'],
                     stake: matchesStake,
                     takeProfit: matchesTakeProfit,
                     duration: matchesDuration,
@@ -409,8 +385,8 @@ export const TradingHub: React.FC = () => {
                 prediction
             );
             
-            const stats = instantMatchesService.getStats();
-            setInstantMatchesStats(stats);
+            reportResults(results);
+            setInstantMatchesStats(instantMatchesService.getStats());
             fetchPortfolio();
         } catch (error: any) {
             setTradeError(error.message || 'Bulk matches failed');
@@ -418,24 +394,24 @@ export const TradingHub: React.FC = () => {
         } finally {
             setIsTrading(false);
         }
-    }, [matchesMarket, matchesStrategy, matchesStake, matchesTakeProfit, matchesDuration, matchesAnalysisDigits, matchesBulkCount, checkBalance, fetchPortfolio]);
+    }, [matchesMarket, matchesStrategy, matchesStake, matchesTakeProfit, matchesDuration, matchesAnalysisDigits, matchesBulkCount, canAfford, reportResults, fetchPortfolio]);
 
     // RESET HANDLERS
     const handleResetInstantFill = useCallback(() => {
         instantFillService.resetStats();
-        setInstantFillStats({ totalPL: 0, totalRuns: 0, won: 0, lost: 0 });
+        setInstantFillStats(instantFillService.getStats());
         setAnalysisData([]);
     }, []);
 
     const handleResetMultipleStakes = useCallback(() => {
         multipleStakesService.resetStats();
-        setMultipleStakesStats({ totalPL: 0, totalRuns: 0, won: 0, lost: 0 });
+        setMultipleStakesStats(multipleStakesService.getStats());
         setDigitStats([]);
     }, []);
 
     const handleResetInstantMatches = useCallback(() => {
         instantMatchesService.resetStats();
-        setInstantMatchesStats({ totalPL: 0, totalRuns: 0, won: 0, lost: 0 });
+        setInstantMatchesStats(instantMatchesService.getStats());
         setMatchesAnalysisData([]);
     }, []);
 
@@ -606,8 +582,8 @@ export const TradingHub: React.FC = () => {
             <div className='demo-mode-notice'>
                 <span className='notice-icon'>🔄</span>
                 <span className='notice-text'>
-                    Trading Hub is in SIMULATION MODE - No real trades are executed. 
-                    Trades are simulated for testing purposes only.
+                    Instant Fill, Multiple Stakes and Instant Matches start in PAPER mode - trades settle against
+                    live ticks and nothing is bought. Switch a panel to LIVE to buy real contracts.
                 </span>
             </div>
 
@@ -676,6 +652,11 @@ export const TradingHub: React.FC = () => {
                     {/* Panel */}
                     <div className='instant-fill-panel'>
                         <div className='panel-header'>Panel</div>
+                        <ExecutionModeSwitch
+                            mode={instantFillStats.mode}
+                            disabled={isTrading}
+                            onChange={handleInstantFillExecutionMode}
+                        />
                         
                         {/* Execution Mode */}
                         <div className='execution-mode'>
@@ -834,7 +815,7 @@ export const TradingHub: React.FC = () => {
                         {/* Statistics */}
                         <div className='instant-stats'>
                             <div className='stat-box'>
-                                <span className='stat-label'>TOTAL P/L</span>
+                                <span className='stat-label'>TOTAL P/L ({instantFillStats.mode.toUpperCase()})</span>
                                 <span className={`stat-value ${instantFillStats.totalPL >= 0 ? 'profit' : 'loss'}`}>
                                     {instantFillStats.totalPL >= 0 ? '+' : ''}${instantFillStats.totalPL.toFixed(2)} USD
                                 </span>
@@ -989,6 +970,11 @@ export const TradingHub: React.FC = () => {
                     {/* Panel */}
                     <div className='multi-stakes-panel'>
                         <div className='panel-header'>Panel</div>
+                        <ExecutionModeSwitch
+                            mode={multipleStakesStats.mode}
+                            disabled={isTrading}
+                            onChange={handleMultipleStakesExecutionMode}
+                        />
                         
                         {/* Execution Mode */}
                         <div className='execution-mode'>
@@ -1133,7 +1119,7 @@ export const TradingHub: React.FC = () => {
                     {/* Statistics Footer */}
                     <div className='stats-footer'>
                         <div className='stat-item'>
-                            <span className='stat-label'>TOTAL P/L</span>
+                            <span className='stat-label'>TOTAL P/L ({multipleStakesStats.mode.toUpperCase()})</span>
                             <span className={`stat-value ${multipleStakesStats.totalPL >= 0 ? 'profit' : 'loss'}`}>
                                 {multipleStakesStats.totalPL >= 0 ? '+' : ''}${multipleStakesStats.totalPL.toFixed(2)} USD
                             </span>
@@ -1230,6 +1216,11 @@ export const TradingHub: React.FC = () => {
                     {/* Panel */}
                     <div className='matches-panel'>
                         <div className='panel-header'>Panel</div>
+                        <ExecutionModeSwitch
+                            mode={instantMatchesStats.mode}
+                            disabled={isTrading}
+                            onChange={handleInstantMatchesExecutionMode}
+                        />
                         
                         {/* Execution Mode */}
                         <div className='execution-mode'>
@@ -1384,7 +1375,7 @@ export const TradingHub: React.FC = () => {
                         {/* Statistics */}
                         <div className='matches-stats'>
                             <div className='stat-box'>
-                                <span className='stat-label'>TOTAL P/L</span>
+                                <span className='stat-label'>TOTAL P/L ({instantMatchesStats.mode.toUpperCase()})</span>
                                 <span className={`stat-value ${instantMatchesStats.totalPL >= 0 ? 'profit' : 'loss'}`}>
                                     {instantMatchesStats.totalPL >= 0 ? '+' : ''}${instantMatchesStats.totalPL.toFixed(2)} USD
                                 </span>
@@ -0,0 +1,176 @@
+/**
+ * Trade History Audit Component
+ * Exports and imports the trade ledger and shows how it reconciles with the Deriv profit table
+ */
+
+import React, { useRef, useState } from 'react';
+import { tradeHistoryTransfer } from '@/services/trade-history-transfer.service';
+import type { ReconciliationReport, TradeHistoryFormat } from '@/utils/trade-history';
+import './TradeHistoryAudit.scss';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ROWS = 50;
+
+const toDateInput = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+export const TradeHistoryAudit: React.FC = () => {
+    const [fromDate, setFromDate] = useState(toDateInput(Date.now() - 7 * DAY_MS));
+    const [toDate, setToDate] = useState(toDateInput(Date.now()));
+    const [isBusy, setIsBusy] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [report, setReport] = useState<ReconciliationReport | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const getRange = () => ({
+        from: new Date(`${fromDate}T00:00:00`).getTime(),
+        to: new Date(`${toDate}T23:59:59.999`).getTime(),
+    });
+
+    const run = async (task: () => Promise<void>) => {
+        setIsBusy(true);
+        setError(null);
+        setMessage(null);
+        try {
+            await task();
+        } catch (err) {
+            console.error('❌ Trade history audit failed:', err);
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleExport = (format: TradeHistoryFormat) =>
+        run(async () => {
+            const count = await tradeHistoryTransfer.exportHistory(getRange(), format);
+            setMessage(`Exported ${count} trades`);
+        });
+
+    const handleReconcile = () =>
+        run(async () => {
+            setReport(await tradeHistoryTransfer.reconcile(getRange()));
+        });
+
+    const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        run(async () => {
+            const result = await tradeHistoryTransfer.importHistory(await file.text());
+            setMessage(`Imported ${result.imported} trades, ${result.skipped} already present`);
+            setReport(result.report);
+        });
+    };
+
+    const formatProfit = (profit: number) => `${profit >= 0 ? '+' : ''}${profit.toFixed(2)}`;
+
+    return (
+        <div className='trade-history-audit'>
+            <div className='trade-history-audit__range'>
+                <label>
+                    From
+                    <input type='date' value={fromDate} max={toDate} onChange={e => setFromDate(e.target.value)} />
+                </label>
+                <label>
+                    To
+                    <input type='date' value={toDate} min={fromDate} onChange={e => setToDate(e.target.value)} />
+                </label>
+            </div>
+
+            <div className='trade-history-audit__actions'>
+                <button type='button' disabled={isBusy} onClick={() => handleExport('csv')}>
+                    Export CSV
+                </button>
+                <button type='button' disabled={isBusy} onClick={() => handleExport('json')}>
+                    Export JSON
+                </button>
+                <button type='button' disabled={isBusy} onClick={() => fileInputRef.current?.click()}>
+                    Import
+                </button>
+                <button type='button' disabled={isBusy} onClick={handleReconcile}>
+                    Reconcile
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type='file'
+                    accept='.csv,.json,text/csv,application/json'
+                    onChange={handleImport}
+                    hidden
+                />
+            </div>
+
+            {isBusy && <div className='trade-history-audit__status'>Working…</div>}
+            {message && <div className='trade-history-audit__status'>{message}</div>}
+            {error && <div className='trade-history-audit__status trade-history-audit__status--error'>{error}</div>}
+
+            {report && (
+                <div className='trade-history-audit__report'>
+                    <div className='trade-history-audit__counts'>
+                        <span>Matched: {report.matched.length}</span>
+                        <span className={report.profitMismatches.length ? 'trade-history-audit__flag' : ''}>
+                            Profit mismatches: {report.profitMismatches.length}
+                        </span>
+                        <span className={report.localOnly.length ? 'trade-history-audit__flag' : ''}>
+                            Local only: {report.localOnly.length}
+                        </span>
+                        <span className={report.serverOnly.length ? 'trade-history-audit__flag' : ''}>
+                            Server only: {report.serverOnly.length}
+                        </span>
+                        <span>Paper trades skipped: {report.skippedPaper}</span>
+                    </div>
+
+                    {report.localOnly.length > 0 && (
+                        <div className='trade-history-audit__section'>
+                            <h4>Recorded locally but missing on the server</h4>
+                            {report.localOnly.slice(0, MAX_ROWS).map(entry => (
+                                <div key={entry.id} className='trade-history-audit__row'>
+                                    <span>#{entry.contractId}</span>
+                                    <span>
+                                        {entry.engine} • {entry.symbol}
+                                    </span>
+                                    <span>{new Date(entry.settledAt).toLocaleString()}</span>
+                                    <span>{formatProfit(entry.profit)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {report.serverOnly.length > 0 && (
+                        <div className='trade-history-audit__section'>
+                            <h4>On the server but not recorded locally</h4>
+                            {report.serverOnly.slice(0, MAX_ROWS).map(transaction => (
+                                <div key={transaction.contract_id} className='trade-history-audit__row'>
+                                    <span>#{transaction.contract_id}</span>
+                                    <span>{transaction.shortcode}</span>
+                                    <span>{new Date(transaction.sell_time * 1000).toLocaleString()}</span>
+                                    <span>{formatProfit(transaction.sell_price - transaction.buy_price)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {report.profitMismatches.length > 0 && (
+                        <div className='trade-history-audit__section'>
+                            <h4>Profit differs from the server</h4>
+                            {report.profitMismatches.slice(0, MAX_ROWS).map(trade => (
+                                <div key={trade.contractId} className='trade-history-audit__row'>
+                                    <span>#{trade.contractId}</span>
+                                    <span>{trade.local.engine}</span>
+                                    <span>
+                                        Local {formatProfit(trade.local.profit)} / Server{' '}
+                                        {formatProfit(trade.serverProfit)}
+                                    </span>
+                                    <span>{formatProfit(trade.profitDifference)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TradeHistoryAudit;
@@ -4,6 +4,8 @@
  */
 
 import React, { useEffect,useState } from 'react';
+import { type ZenTradeConfig, zenTradingService } from '@/services/zen-trading.service';
+import { ZenOptimizerPanel } from './ZenOptimizerPanel';
 import './ZenAdvancedConfig.scss';
 
 interface ZenAdvancedConfigProps {
@@ -11,8 +13,26 @@ interface ZenAdvancedConfigProps {
     onClose: () => void;
     onConfigChange: (config: AdvancedZenConfig) => void;
     currentConfig: AdvancedZenConfig;
+    tradeConfig?: ZenTradeConfig;
+    onTradeConfigChange?: (config: ZenTradeConfig) => void;
 }
 
+// Used by the optimizer when no trading session has been configured yet
+const DEFAULT_TRADE_CONFIG: ZenTradeConfig = {
+    strategy: 'Even',
+    market: 'R_100',
+    stake: 1,
+    martingaleMultiplier: 2,
+    ticks: 1,
+    defaultDigit: 5,
+    switchOnLoss: false,
+    switchMarket: false,
+    mainMode: true,
+    lossesToSwitch: 3,
+    rounds: 0,
+    delay: false,
+};
+
 export interface AdvancedZenConfig {
     // Risk Management
     dynamicPositionSizing: boolean;
@@ -73,10 +93,12 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
     onClose,
     onConfigChange,
     currentConfig,
+    tradeConfig,
+    onTradeConfigChange,
 }) => {
     const [config, setConfig] = useState<AdvancedZenConfig>(currentConfig);
     const [activeTab, setActiveTab] = useState<
-        'risk' | 'strategy' | 'analysis' | 'execution' | 'performance' | 'advanced'
+        'risk' | 'strategy' | 'analysis' | 'execution' | 'performance' | 'advanced' | 'optimizer'
     >('risk');
 
     useEffect(() => {
@@ -97,6 +119,17 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
         handleConfigUpdate({ [key]: value });
     };
 
+    const handleApplyTradeConfig = (winningConfig: ZenTradeConfig) => {
+        if (onTradeConfigChange) {
+            onTradeConfigChange(winningConfig);
+        } else if (zenTradingService.getConfig()) {
+            zenTradingService.updateConfig(winningConfig);
+        } else {
+            zenTradingService.initialize(winningConfig);
+        }
+        console.log('🏆 Applied optimized Zen configuration:', winningConfig);
+    };
+
     if (!isVisible) return null;
 
     return (
@@ -147,6 +180,12 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
                     >
                         🔧 Advanced Features
                     </button>
+                    <button
+                        className={`zen-advanced-config__tab ${activeTab === 'optimizer' ? 'active' : ''}`}
+                        onClick={() => setActiveTab('optimizer')}
+                    >
+                        🧪 Optimizer
+                    </button>
                 </div>
 
                 <div className='zen-advanced-config__content'>
@@ -515,6 +554,13 @@ export const ZenAdvancedConfig: React.FC<ZenAdvancedConfigProps> = ({
                             </div>
                         </div>
                     )}
+
+                    {activeTab === 'optimizer' && (
+                        <ZenOptimizerPanel
+                            baseConfig={tradeConfig || zenTradingService.getConfig() || DEFAULT_TRADE_CONFIG}
+                            onApply={handleApplyTradeConfig}
+                        />
+                    )}
                 </div>
 
                 <div className='zen-advanced-config__footer'>
@@ -0,0 +1,292 @@
+/**
+ * Zen Optimizer Panel
+ * Walk-forward search over Zen strategy parameters on historical ticks
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { parseTickFile } from '@/engine/backtester';
+import { ZenOptimizationReport, ZenParameterGrid, ZenWalkForwardOptimizer } from '@/engine/zenOptimizer';
+import { historicalTickLoader, type HistoricalTickData } from '@/services/historical-tick-loader.service';
+import { TickRecording, tickRecorder } from '@/services/tick-recorder.service';
+import { ZEN_STRATEGIES, ZenStrategy } from '@/services/zen-strategy-rules';
+import type { ZenTradeConfig } from '@/services/zen-trading.service';
+import './ZenAdvancedConfig.scss';
+
+interface ZenOptimizerPanelProps {
+    baseConfig: ZenTradeConfig;
+    onApply: (config: ZenTradeConfig) => void;
+}
+
+type NumericField = Exclude<keyof ZenParameterGrid, 'strategy'>;
+
+const NUMERIC_FIELDS: Array<{ field: NumericField; label: string; hint: string }> = [
+    { field: 'martingaleMultiplier', label: 'Martingale Multiplier', hint: 'e.g. 1, 1.5, 2' },
+    { field: 'lossesToSwitch', label: 'Losses To Switch', hint: 'e.g. 2, 3, 4' },
+    { field: 'defaultDigit', label: 'Default Digit', hint: 'e.g. 3, 5, 7' },
+    { field: 'ticks', label: 'Ticks', hint: 'e.g. 1, 3, 5' },
+    { field: 'performanceWindow', label: 'Performance Window', hint: 'e.g. 5, 10, 20' },
+];
+
+const MAX_RESULTS = 20;
+
+const parseList = (text: string): number[] =>
+    text
+        .split(',')
+        .map(value => parseFloat(value.trim()))
+        .filter(value => Number.isFinite(value));
+
+export const ZenOptimizerPanel: React.FC<ZenOptimizerPanelProps> = ({ baseConfig, onApply }) => {
+    const [ticks, setTicks] = useState<HistoricalTickData[]>([]);
+    const [tickCount, setTickCount] = useState(5000);
+    const [gridText, setGridText] = useState<Record<NumericField, string>>({
+        martingaleMultiplier: '1, 1.5, 2',
+        lossesToSwitch: '2, 3',
+        defaultDigit: '',
+        ticks: '1, 3',
+        performanceWindow: '',
+    });
+    const [strategies, setStrategies] = useState<ZenStrategy[]>([baseConfig.strategy]);
+    const [folds, setFolds] = useState(5);
+    const [report, setReport] = useState<ZenOptimizationReport | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [recordings, setRecordings] = useState<TickRecording[]>([]);
+    const [recordingId, setRecordingId] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const refresh = () =>
+            tickRecorder
+                .listRecordings(baseConfig.market)
+                .then(setRecordings)
+                .catch(() => setRecordings([]));
+        refresh();
+        return tickRecorder.subscribe(refresh);
+    }, [baseConfig.market]);
+
+    const handleLoadTicks = async () => {
+        setIsBusy(true);
+        setStatus(`Loading ${tickCount} ticks for ${baseConfig.market}...`);
+        const result = await historicalTickLoader.loadHistoricalTicksWithRetry(baseConfig.market, tickCount);
+        setIsBusy(false);
+
+        if (!result.success) {
+            setStatus(result.error || 'Failed to load ticks');
+            return;
+        }
+        setTicks(result.ticks);
+        setStatus(`Loaded ${result.ticks.length} ticks for ${baseConfig.market}`);
+    };
+
+    const handleLoadRecording = async () => {
+        setIsBusy(true);
+        setStatus('Loading recorded ticks...');
+        const result = await historicalTickLoader.loadRecordedTicks(recordingId, tickCount);
+        setIsBusy(false);
+
+        if (!result.success) {
+            setStatus(result.error || 'Failed to load the recording');
+            return;
+        }
+        setTicks(result.ticks);
+        setStatus(`Loaded ${result.ticks.length} recorded ticks for ${result.symbol}`);
+    };
+
+    const handleImportTicks = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        try {
+            const imported = parseTickFile(await file.text());
+            setTicks(imported);
+            setStatus(`Imported ${imported.length} ticks from ${file.name}`);
+        } catch (error) {
+            setStatus(error instanceof Error ? error.message : 'Could not read the tick file');
+        }
+    };
+
+    const handleToggleStrategy = (strategy: ZenStrategy) => {
+        setStrategies(current =>
+            current.includes(strategy) ? current.filter(item => item !== strategy) : [...current, strategy]
+        );
+    };
+
+    const handleRun = () => {
+        const grid: ZenParameterGrid = {};
+        if (strategies.length > 0) grid.strategy = strategies;
+        NUMERIC_FIELDS.forEach(({ field }) => {
+            const values = parseList(gridText[field]);
+            if (values.length > 0) grid[field] = values;
+        });
+
+        setIsBusy(true);
+        // Let the busy state render before the synchronous search blocks the thread
+        setTimeout(() => {
+            try {
+                const optimizer = new ZenWalkForwardOptimizer({ folds });
+                const result = optimizer.run(baseConfig, grid, ticks);
+                setReport(result);
+                setStatus(
+                    `Evaluated ${result.combinations} configurations over ${result.folds.length} walk-forward windows`
+                );
+            } catch (error) {
+                setReport(null);
+                setStatus(error instanceof Error ? error.message : 'Optimization failed');
+            } finally {
+                setIsBusy(false);
+            }
+        }, 0);
+    };
+
+    return (
+        <div className='zen-advanced-config__section'>
+            <h3>Walk-Forward Optimizer</h3>
+
+            <div className='zen-advanced-config__group'>
+                <label>Historical Ticks ({baseConfig.market})</label>
+                <input
+                    type='number'
+                    value={tickCount}
+                    onChange={e => setTickCount(parseInt(e.target.value) || 0)}
+                    min='500'
+                    max='5000'
+                />
+                <div className='zen-optimizer__actions'>
+                    <button className='zen-advanced-config__btn' disabled={isBusy} onClick={handleLoadTicks}>
+                        Load From Deriv
+                    </button>
+                    <button
+                        className='zen-advanced-config__btn'
+                        disabled={isBusy}
+                        onClick={() => fileInputRef.current?.click()}
+                    >
+                        Import Tick File
+                    </button>
+                    <input ref={fileInputRef} type='file' accept='.csv,.json' onChange={handleImportTicks} hidden />
+                </div>
+                {recordings.length > 0 && (
+                    <div className='zen-optimizer__actions'>
+                        <select value={recordingId} onChange={e => setRecordingId(e.target.value)}>
+                            <option value=''>Choose a recording</option>
+                            {recordings.map(recording => (
+                                <option key={recording.id} value={recording.id}>
+                                    {new Date(recording.startedAt).toLocaleString()} · {recording.tickCount} ticks
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            className='zen-advanced-config__btn'
+                            disabled={isBusy || !recordingId}
+                            onClick={handleLoadRecording}
+                        >
+                            Load Recording
+                        </button>
+                    </div>
+                )}
+                <small>{ticks.length > 0 ? `${ticks.length} ticks ready` : 'No ticks loaded yet'}</small>
+            </div>
+
+            <div className='zen-advanced-config__group'>
+                <label>Strategies</label>
+                <div className='zen-optimizer__strategies'>
+                    {ZEN_STRATEGIES.map(strategy => (
+                        <label key={strategy} className='zen-advanced-config__toggle'>
+                            <input
+                                type='checkbox'
+                                checked={strategies.includes(strategy)}
+                                onChange={() => handleToggleStrategy(strategy)}
+                            />
+                            <span>{strategy}</span>
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {NUMERIC_FIELDS.map(({ field, label, hint }) => (
+                <div key={field} className='zen-advanced-config__group'>
+                    <label>{label}</label>
+                    <input
+                        type='text'
+                        value={gridText[field]}
+                        placeholder={hint}
+                        onChange={e => setGridText({ ...gridText, [field]: e.target.value })}
+                    />
+                    <small>Comma-separated values; leave empty to keep the current setting</small>
+                </div>
+            ))}
+
+            <div className='zen-advanced-config__group'>
+                <label>Walk-Forward Windows</label>
+                <input
+                    type='number'
+                    value={folds}
+                    onChange={e => setFolds(parseInt(e.target.value) || 1)}
+                    min='1'
+                    max='10'
+                />
+                <small>Each window tunes on 70% of its ticks and scores on the unseen 30% that follows</small>
+            </div>
+
+            <button
+                className='zen-advanced-config__btn zen-advanced-config__btn--primary'
+                disabled={isBusy || ticks.length === 0}
+                onClick={handleRun}
+            >
+                {isBusy ? 'Working...' : 'Run Optimizer'}
+            </button>
+
+            {status && <p className='zen-optimizer__status'>{status}</p>}
+
+            {report && (
+                <div className='zen-optimizer__results'>
+                    <p>
+                        Walk-forward profit (re-tuned each window):{' '}
+                        <span className='value'>{report.walkForwardProfit.toFixed(2)}</span>
+                    </p>
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>#</th>
+                                <th>Configuration</th>
+                                <th>Profit</th>
+                                <th>Drawdown</th>
+                                <th>Loss Streak</th>
+                                <th>Stability</th>
+                                <th>Trades</th>
+                                <th />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.results.slice(0, MAX_RESULTS).map(result => (
+                                <tr key={result.key}>
+                                    <td>{result.rank}</td>
+                                    <td>{result.key}</td>
+                                    <td className={result.profit >= 0 ? 'positive' : 'negative'}>
+                                        {result.profit.toFixed(2)}
+                                    </td>
+                                    <td>{result.maxDrawdown.toFixed(2)}</td>
+                                    <td>{result.longestLossStreak}</td>
+                                    <td title={`Std dev ${result.profitStdDev.toFixed(2)}`}>
+                                        {(result.stability * 100).toFixed(0)}%
+                                    </td>
+                                    <td>{result.trades}</td>
+                                    <td>
+                                        <button
+                                            className='zen-advanced-config__btn'
+                                            onClick={() => onApply(result.config)}
+                                        >
+                                            Apply
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ZenOptimizerPanel;
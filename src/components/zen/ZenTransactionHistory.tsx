@@ -4,6 +4,7 @@
  */
 
 import React, { useEffect, useRef, useState } from 'react';
+import { TradeHistoryAudit } from './TradeHistoryAudit';
 import './ZenTransactionHistory.scss';
 
 export interface ZenTransaction {
@@ -35,6 +36,7 @@ interface ZenTransactionHistoryProps {
 export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ transactions, onExport, onReset }) => {
     const [filter, setFilter] = useState<'all' | 'wins' | 'losses' | 'pending' | 'errors'>('all');
     const [isCollapsed, setIsCollapsed] = useState(false);
+    const [isAuditOpen, setIsAuditOpen] = useState(false);
     const listRef = useRef<HTMLDivElement>(null);
     const prevTransactionCountRef = useRef(transactions.length);
 
@@ -185,6 +187,21 @@ export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ tr
                             />
                         </svg>
                     </button>
+                    <button
+                        className={`zen-transaction-history__action-btn zen-transaction-history__action-btn--audit ${isAuditOpen ? 'zen-transaction-history__action-btn--active' : ''}`}
+                        onClick={() => setIsAuditOpen(!isAuditOpen)}
+                        title='Export, import and reconcile trade history'
+                    >
+                        <svg width='16' height='16' viewBox='0 0 16 16' fill='none'>
+                            <path
+                                d='M3 2h7l3 3v9H3V2zM6 8l1.5 1.5L10.5 6.5'
+                                stroke='currentColor'
+                                strokeWidth='2'
+                                strokeLinecap='round'
+                                strokeLinejoin='round'
+                            />
+                        </svg>
+                    </button>
                     <button
                         className='zen-transaction-history__action-btn zen-transaction-history__action-btn--reset'
                         onClick={() => {
@@ -229,6 +246,8 @@ export const ZenTransactionHistory: React.FC<ZenTransactionHistoryProps> = ({ tr
             <div
                 className={`zen-transaction-history__content ${isCollapsed ? 'zen-transaction-history__content--collapsed' : ''}`}
             >
+                {isAuditOpen && <TradeHistoryAudit />}
+
                 {/* Summary Card */}
                 <div className='zen-transaction-history__summary'>
                     <div className='zen-transaction-history__summary-item'>
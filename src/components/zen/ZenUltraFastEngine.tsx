@@ -124,12 +124,7 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
             console.log('🚀 Initializing tick-driven trading engine');
 
             // Initialize Deriv WebSocket service
-            derivSocketRef.current = new DerivSocketService({
-                symbol: settings.market,
-                appId: '110800', // Use existing app ID
-                reconnectInterval: 3000,
-                heartbeatInterval: 30000,
-            });
+            derivSocketRef.current = new DerivSocketService({ symbol: settings.market });
 
             // Initialize tick state manager
             tickStateManagerRef.current = new TickStateManager();
@@ -160,6 +155,7 @@ export const ZenUltraFastEngine = forwardRef<any, ZenUltraFastEngineProps>(
                 payoutMultiplier: 1.9, // 1.9x payout
                 executionDelay: { min: 50, max: 200 }, // 50-200ms execution delay
                 errorRate: 0.05, // 5% error rate
+                symbol: settings.market,
             });
 
             // Set up event handlers
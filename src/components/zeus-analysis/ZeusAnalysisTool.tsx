@@ -6,6 +6,7 @@ import { DEFAULT_NOTIFICATION_SETTINGS, NotificationManager } from '../../utils/
 import { PredictionStrategy, predictNextDigit, STRATEGY_INFO } from '../../utils/prediction-algorithms';
 import { getTopN } from '../../utils/probability-calculator';
 import { AlertNotificationPanel } from './AlertNotificationPanel';
+import { DigitRandomnessPanel } from '../shared/DigitRandomnessPanel';
 import { DigitCircle } from './DigitCircle';
 import { LoadingSkeleton } from './LoadingSkeleton';
 
@@ -677,6 +678,7 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
         .sort((a, b) => b.count - a.count);
 
     const currentDigit = ticks.length > 0 ? ticks[ticks.length - 1].lastDigit : null;
+    const tickDigits = React.useMemo(() => ticks.map(tick => tick.lastDigit), [ticks]);
 
     // Over/Under Analysis
     const overUnderAnalysis = (): AnalysisResult => {
@@ -1203,6 +1205,7 @@ export const ZeusAnalysisTool: React.FC<ZeusAnalysisToolProps> = ({ onNavigateTo
                         );
                     })}
                 </div>
+                <DigitRandomnessPanel digits={tickDigits} />
             </section>
 
             {/* Analysis Sections */}
@@ -22,6 +22,25 @@ export const API_CONFIG = {
     API_VERSION: 'v3',
 } as const;
 
+/**
+ * Default address of the local mock Deriv server (`npm run mock:deriv`)
+ */
+export const MOCK_SERVER_URL = 'localhost:8765';
+
+/**
+ * Local servers set from the endpoint page, such as the mock Deriv server
+ */
+export const isLocalServerURL = (server: string): boolean =>
+    /^(localhost|127\.0\.0\.1|0\.0\.0\.0)(:\d+)?$/i.test(server.trim());
+
+/**
+ * Plain ws:// endpoint when the endpoint page points at a local server, otherwise null
+ */
+export const getLocalServerEndpoint = (): string | null => {
+    const server = typeof window !== 'undefined' ? localStorage.getItem('config.server_url') : null;
+    return server && isLocalServerURL(server) ? `ws://${server.trim()}/websockets/${API_CONFIG.API_VERSION}` : null;
+};
+
 /**
  * Get the WebSocket URL with app_id and optional parameters
  */
@@ -39,7 +58,7 @@ export const getWebSocketURL = (
     const selectedEndpoint =
         (storedEndpoint as keyof typeof API_CONFIG.WEBSOCKET_ENDPOINTS) || endpoint || API_CONFIG.DEFAULT_ENDPOINT;
 
-    const baseUrl = API_CONFIG.WEBSOCKET_ENDPOINTS[selectedEndpoint];
+    const baseUrl = getLocalServerEndpoint() ?? API_CONFIG.WEBSOCKET_ENDPOINTS[selectedEndpoint];
     const appId = options?.app_id || API_CONFIG.APP_ID;
 
     const params = new URLSearchParams({
@@ -0,0 +1,131 @@
+import { localize } from '@deriv-com/translations';
+import { TDescriptionItem } from '../../pages/bot-builder/quick-strategy/types';
+
+export const FIBONACCI = (): TDescriptionItem[] => [
+    {
+        type: 'subtitle',
+        content: [localize('Exploring the Fibonacci strategy in Deriv Bot')],
+        expanded: true,
+        no_collapsible: false,
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The Fibonacci strategy sizes each stake by the Fibonacci sequence (1, 1, 2, 3, 5, 8 and so on), where every number is the sum of the two before it. The stake moves one step along the sequence after a losing trade and two steps back after a successful trade.'
+            ),
+            localize(
+                "This article explores the Fibonacci strategy integrated into Deriv Bot, a versatile trading bot designed to trade assets such as forex, commodities, and derived indices. We will delve into the strategy's core parameters, its application, and provide essential takeaways for traders looking to use the bot effectively."
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Key parameters')],
+    },
+    {
+        type: 'text',
+        content: [localize('These are the trade parameters used in Deriv Bot with Fibonacci strategy.')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Initial stake:</strong> The amount that you are willing to place as a stake to enter a trade. This is the starting point for any changes in stake depending on the dynamic of the strategy being used.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Profit threshold:</strong> The bot will stop trading if your total profit exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Loss threshold:</strong> The bot will stop trading if your total loss exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Maximum stake:</strong> The maximum amount you are willing to pay to enter a single trade. The stake for your next trade will reset to the initial stake if it exceeds this value. This is an optional risk management parameter.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('An example of Fibonacci strategy')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize('1. Start with the initial stake. Let’s say 1 USD.'),
+            localize(
+                '2. If the trade ends in a loss, the stake moves to the next number in the sequence. After three losing trades in a row, the stakes are 1, 1 and 2 USD and the next stake is 3 USD.'
+            ),
+            localize(
+                '3. If the next trade is successful, the stake moves two steps back in the sequence, from 3 USD to 1 USD.'
+            ),
+            localize('4. The stake never goes below the initial stake.'),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The objective of the Fibonacci strategy is to recover losses more gradually than the Martingale strategy. Because a successful trade moves the stake two steps back, a single win recovers the two trades before it. The stake still grows after every loss in a row, so it is important to set a maximum stake and a loss threshold.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Profit and loss thresholds')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'With Deriv Bot, traders can set the profit and loss thresholds to secure potential profits and limit potential losses. This means that the trading bot will automatically stop when either the profit or loss threshold is reached. This is a form of risk management that can potentially boost successful trades whilst limiting the impact of loss. For example, if a trader sets the profit threshold at 100 USD and the strategy exceeds 100 USD of profit from all trades, then the bot will stop running.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Summary')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                "The Fibonacci strategy in trading may help recover losses with a slower stake growth than Martingale, but it still comes with significant risks. With your selected strategy, Deriv Bot provides automated trading with risk management measures like setting initial stake, maximum stake, profit threshold and loss threshold. It's crucial for traders to assess their risk tolerance, practice in a demo account, and understand the strategy before trading with real money."
+            ),
+        ],
+    },
+    {
+        type: 'text_italic',
+        content: [localize('<strong>Disclaimer:</strong>')],
+    },
+    {
+        type: 'text_italic',
+        content: [
+            localize(
+                'Please be aware that while we may use rounded figures for illustration, a stake of a specific amount does not guarantee an exact amount in successful trades. For example, a 1 USD stake does not necessarily equate to a 1 USD profit in successful trades.'
+            ),
+        ],
+    },
+    {
+        type: 'text_italic',
+        content: [
+            localize(
+                'Trading inherently involves risks, and actual profits can fluctuate due to various factors, including market volatility and other unforeseen variables. As such, exercise caution and conduct thorough research before engaging in any trading activities.'
+            ),
+        ],
+    },
+];
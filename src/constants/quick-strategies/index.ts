@@ -1,6 +1,9 @@
 export { D_ALEMBERT } from './d_alembert';
+export { FIBONACCI } from './fibonacci';
+export { LABOUCHERE } from './labouchere';
 export { MARTINGALE } from './martingale';
 export { OSCARS_GRIND } from './oscars_grind';
+export { PAROLI } from './paroli';
 export { REVERSE_D_ALEMBERT } from './reverse_dalembert';
 export { REVERSE_MARTINGALE } from './reverse_martingale';
 export { STRATEGY_1_3_2_6 } from './strategy_1_3_2_6';
@@ -0,0 +1,144 @@
+import { localize } from '@deriv-com/translations';
+import { TDescriptionItem } from '../../pages/bot-builder/quick-strategy/types';
+
+export const LABOUCHERE = (): TDescriptionItem[] => [
+    {
+        type: 'subtitle',
+        content: [localize('Exploring the Labouchère strategy in Deriv Bot')],
+        expanded: true,
+        no_collapsible: false,
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The Labouchère strategy, also known as the cancellation system, works through a line of numbers. Each stake is the sum of the first and last numbers in the line, and the line is cleared one trade at a time as successful trades cross numbers off.'
+            ),
+            localize(
+                "This article explores the Labouchère strategy integrated into Deriv Bot, a versatile trading bot designed to trade assets such as forex, commodities, and derived indices. We will delve into the strategy's core parameters, its application, and provide essential takeaways for traders looking to use the bot effectively."
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Key parameters')],
+    },
+    {
+        type: 'text',
+        content: [localize('These are the trade parameters used in Deriv Bot with Labouchère strategy.')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Initial stake:</strong> The amount that you are willing to place as a stake to enter a trade. This is the starting point for any changes in stake depending on the dynamic of the strategy being used.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Line length:</strong> The number of units in a fresh line. One unit is equivalent to the amount of initial stake. The line starts over with this many units whenever it is cleared.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Profit threshold:</strong> The bot will stop trading if your total profit exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Loss threshold:</strong> The bot will stop trading if your total loss exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Maximum stake:</strong> The maximum amount you are willing to pay to enter a single trade. The stake for your next trade will reset to the initial stake if it exceeds this value. This is an optional risk management parameter.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('An example of Labouchère strategy')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '1. Start with the initial stake. Let’s say 1 USD, with a line length of 4, so the line is 1, 1, 1, 1.'
+            ),
+            localize(
+                '2. The stake for each trade is the first number plus the last number in the line, so the first stake is 2 USD.'
+            ),
+            localize(
+                '3. If the trade is successful, the first and last numbers are crossed off. The line becomes 1, 1 and the next stake is 2 USD.'
+            ),
+            localize(
+                '4. If the trade ends in a loss, the units just lost are added to the end of the line. The line becomes 1, 1, 1, 1, 2 and the next stake is 3 USD.'
+            ),
+            localize('5. When every number has been crossed off, the line starts over at 1, 1, 1, 1.'),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The objective of the Labouchère strategy is to end each line with a profit equal to the sum of its starting units. A successful trade removes two numbers while a losing trade adds only one, so a line can be cleared with fewer successful trades than losing ones. A long losing streak makes the line, and the stakes, grow quickly, so it is important to set a maximum stake and a loss threshold.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Profit and loss thresholds')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'With Deriv Bot, traders can set the profit and loss thresholds to secure potential profits and limit potential losses. This means that the trading bot will automatically stop when either the profit or loss threshold is reached. This is a form of risk management that can potentially boost successful trades whilst limiting the impact of loss. For example, if a trader sets the profit threshold at 100 USD and the strategy exceeds 100 USD of profit from all trades, then the bot will stop running.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Summary')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                "The Labouchère strategy in trading may help recover losses gradually, but a long losing streak can lead to large stakes. With your selected strategy, Deriv Bot provides automated trading with risk management measures like setting initial stake, line length, maximum stake, profit threshold and loss threshold. It's crucial for traders to assess their risk tolerance, practice in a demo account, and understand the strategy before trading with real money."
+            ),
+        ],
+    },
+    {
+        type: 'text_italic',
+        content: [localize('<strong>Disclaimer:</strong>')],
+    },
+    {
+        type: 'text_italic',
+        content: [
+            localize(
+                'Please be aware that while we may use rounded figures for illustration, a stake of a specific amount does not guarantee an exact amount in successful trades. For example, a 1 USD stake does not necessarily equate to a 1 USD profit in successful trades.'
+            ),
+        ],
+    },
+    {
+        type: 'text_italic',
+        content: [
+            localize(
+                'Trading inherently involves risks, and actual profits can fluctuate due to various factors, including market volatility and other unforeseen variables. As such, exercise caution and conduct thorough research before engaging in any trading activities.'
+            ),
+        ],
+    },
+];
@@ -0,0 +1,150 @@
+import { localize } from '@deriv-com/translations';
+import { TDescriptionItem } from '../../pages/bot-builder/quick-strategy/types';
+
+export const PAROLI = (): TDescriptionItem[] => [
+    {
+        type: 'subtitle',
+        content: [localize('Exploring the Paroli strategy in Deriv Bot')],
+        expanded: true,
+        no_collapsible: false,
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The Paroli strategy increases your stake after each successful trade and resets to the initial stake after a losing trade or once a set number of successful trades in a row is reached, so that the profits from a winning streak are locked in.'
+            ),
+            localize(
+                "This article explores the Paroli strategy integrated into Deriv Bot, a versatile trading bot designed to trade assets such as forex, commodities, and derived indices. We will delve into the strategy's core parameters, its application, and provide essential takeaways for traders looking to use the bot effectively."
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Key parameters')],
+    },
+    {
+        type: 'text',
+        content: [localize('These are the trade parameters used in Deriv Bot with Paroli strategy.')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Initial stake:</strong> The amount that you are willing to place as a stake to enter a trade. This is the starting point for any changes in stake depending on the dynamic of the strategy being used.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Multiplier:</strong> The multiplier used to increase your stake if your trade is successful. The value must be greater than 1.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Win streak:</strong> The number of successful trades in a row after which the stake resets to the initial stake.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Profit threshold:</strong> The bot will stop trading if your total profit exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Loss threshold:</strong> The bot will stop trading if your total loss exceeds this amount.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                '<strong>Maximum stake:</strong> The maximum amount you are willing to pay to enter a single trade. The stake for your next trade will reset to the initial stake if it exceeds this value. This is an optional risk management parameter.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('An example of Paroli strategy')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize('1. Start with the initial stake. Let’s say 1 USD.'),
+            localize('2. Select your multiplier. In this example, it is 2, with a win streak of 3.'),
+            localize(
+                '3. If the first trade is successful, Deriv Bot doubles your stake for the next trade to 2 USD, then to 4 USD after a second successful trade.'
+            ),
+            localize(
+                '4. After the third successful trade in a row, the win streak is complete and the stake resets to 1 USD.'
+            ),
+            localize(
+                '5. If a trade ends in a loss, the stake for the following trade is reset to the initial stake amount of 1 USD.'
+            ),
+        ],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'The objective of the Paroli strategy is to take advantage of consecutive successful trades while limiting what a winning streak can give back. Unlike the Reverse Martingale strategy, the stake resets once the win streak is reached, so only the initial stake is at risk at the start of every streak.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Profit and loss thresholds')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                'With Deriv Bot, traders can set the profit and loss thresholds to secure potential profits and limit potential losses. This means that the trading bot will automatically stop when either the profit or loss threshold is reached. This is a form of risk management that can potentially boost successful trades whilst limiting the impact of loss. For example, if a trader sets the profit threshold at 100 USD and the strategy exceeds 100 USD of profit from all trades, then the bot will stop running.'
+            ),
+        ],
+    },
+    {
+        type: 'subtitle',
+        content: [localize('Summary')],
+    },
+    {
+        type: 'text',
+        content: [
+            localize(
+                "The Paroli strategy in trading may offer gains from winning streaks while keeping the initial stake as the usual risk per trade. With your selected strategy, Deriv Bot provides automated trading with risk management measures like setting initial stake, multiplier, win streak, maximum stake, profit threshold and loss threshold. It's crucial for traders to assess their risk tolerance, practice in a demo account, and understand the strategy before trading with real money."
+            ),
+        ],
+    },
+    {
+        type: 'text_italic',
+        content: [localize('<strong>Disclaimer:</strong>')],
+    },
+    {
+        type: 'text_italic',
+        content: [
+            localize(
+                'Please be aware that while we may use rounded figures for illustration, a stake of a specific amount does not guarantee an exact amount in successful trades. For example, a 1 USD stake does not necessarily equate to a 1 USD profit in successful trades.'
+            ),
+        ],
+    },
+    {
+        type: 'text_italic',
+        content: [
+            localize(
+                'Trading inherently involves risks, and actual profits can fluctuate due to various factors, including market volatility and other unforeseen variables. As such, exercise caution and conduct thorough research before engaging in any trading activities.'
+            ),
+        ],
+    },
+];
@@ -0,0 +1,149 @@
+/**
+ * Historical Replay Backtester Tests
+ */
+
+import type { HistoricalTickData } from '../../services/historical-tick-loader.service';
+import { Backtester, isWinningContract, parseTickFile } from '../backtester';
+import type { TradeRule } from '../ruleEngine';
+
+jest.mock('../../services/deriv-connection-pool.service', () => ({
+    derivConnectionPool: { getConnection: jest.fn() },
+    ConnectionType: { SIGNALS: 'signals' },
+}));
+
+const buildTicks = (digits: number[]): HistoricalTickData[] =>
+    digits.map((digit, index) => ({
+        epoch: 1700000000 + index,
+        quote: 1000 + index / 10 + digit / 100,
+        lastDigit: digit,
+    }));
+
+const buildRule = (overrides: Partial<TradeRule> = {}): TradeRule => ({
+    id: 'rule_even',
+    name: 'Even after 3',
+    enabled: true,
+    triggerDigit: 3,
+    tradesPerTick: 1,
+    contractType: 'DIGITEVEN',
+    stake: 1,
+    ...overrides,
+});
+
+describe('Backtester', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    it('settles each intent against the tick that follows it', () => {
+        const report = new Backtester({ symbol: 'R_100', rules: [buildRule()] }).run(buildTicks([1, 3, 4, 3, 5]));
+
+        expect(report.totalTrades).toBe(2);
+        expect(report.trades.map(trade => trade.exitDigit)).toEqual([4, 5]);
+        expect(report.trades.map(trade => trade.outcome)).toEqual(['win', 'loss']);
+        expect(report.totalProfit).toBe(-0.1);
+        expect(report.winRate).toBe(0.5);
+    });
+
+    it('honours rule duration and barrier', () => {
+        const rule = buildRule({ contractType: 'DIGITOVER', barrier: 6, duration: 3 });
+        const report = new Backtester({ symbol: 'R_100', rules: [rule] }).run(buildTicks([3, 0, 1, 7, 2]));
+
+        expect(report.totalTrades).toBe(1);
+        expect(report.trades[0].exitTickIndex).toBe(3);
+        expect(report.trades[0].outcome).toBe('win');
+    });
+
+    it('prices digit payouts from the barrier unless overridden', () => {
+        const overZero = buildRule({ id: 'rule_over_0', contractType: 'DIGITOVER', barrier: 0 });
+        const overEight = buildRule({ id: 'rule_over_8', contractType: 'DIGITOVER', barrier: 8 });
+        const ticks = buildTicks([3, 9]);
+
+        const report = new Backtester({ symbol: 'R_100', rules: [overZero, overEight] }).run(ticks);
+        expect(report.trades.map(trade => trade.payout)).toEqual([1.06, 9.5]);
+
+        const overridden = new Backtester({
+            symbol: 'R_100',
+            rules: [overZero],
+            payoutMultipliers: { DIGITOVER: 1.2 },
+        }).run(ticks);
+        expect(overridden.trades[0].payout).toBe(1.2);
+    });
+
+    it('counts intents whose exit lies beyond the series as unsettled', () => {
+        const report = new Backtester({ symbol: 'R_100', rules: [buildRule({ duration: 5 })] }).run(
+            buildTicks([1, 3, 4])
+        );
+
+        expect(report.totalTrades).toBe(0);
+        expect(report.unsettledIntents).toBe(1);
+    });
+
+    it('reports per-rule stats, drawdown and an equity curve', () => {
+        const rules = [buildRule(), buildRule({ id: 'rule_odd', name: 'Odd after 3', contractType: 'DIGITODD' })];
+        const report = new Backtester({ symbol: 'R_100', rules, startingBalance: 100 }).run(
+            buildTicks([3, 4, 3, 6, 3, 8])
+        );
+
+        const even = report.ruleStats.find(stats => stats.ruleId === 'rule_even')!;
+        const odd = report.ruleStats.find(stats => stats.ruleId === 'rule_odd')!;
+
+        expect(even.wins).toBe(3);
+        expect(even.profit).toBe(2.7);
+        expect(odd.losses).toBe(3);
+        expect(odd.maxDrawdown).toBe(3);
+        expect(report.equityCurve).toHaveLength(6);
+        expect(report.endingBalance).toBe(99.7);
+        expect(report.maxDrawdown).toBeGreaterThan(0);
+    });
+
+    it('produces identical reports for identical input', () => {
+        const config = { symbol: 'R_100', rules: [buildRule({ conditions: { minInterval: 2000 } })] };
+        const ticks = buildTicks([3, 2, 3, 2, 3, 2, 3, 2]);
+
+        expect(new Backtester(config).run(ticks)).toEqual(new Backtester(config).run(ticks));
+    });
+
+    it('applies min interval conditions in tick time', () => {
+        const rule = buildRule({ conditions: { minInterval: 3000 } });
+        const report = new Backtester({ symbol: 'R_100', rules: [rule] }).run(buildTicks([3, 2, 3, 2, 3, 2]));
+
+        expect(report.trades.map(trade => trade.entryTickIndex)).toEqual([0, 4]);
+    });
+});
+
+describe('isWinningContract', () => {
+    const entry = { epoch: 1, quote: 100.1, lastDigit: 1 };
+    const exit = { epoch: 2, quote: 100.7, lastDigit: 7 };
+
+    it('settles digit contracts on the exit digit', () => {
+        expect(isWinningContract('DIGITMATCHES', 7, entry, exit)).toBe(true);
+        expect(isWinningContract('DIGITDIFFERS', 7, entry, exit)).toBe(false);
+        expect(isWinningContract('DIGITUNDER', 7, entry, exit)).toBe(false);
+    });
+
+    it('settles rise/fall contracts on the quote move', () => {
+        expect(isWinningContract('CALL', 0, entry, exit)).toBe(true);
+        expect(isWinningContract('PUT', 0, entry, exit)).toBe(false);
+    });
+});
+
+describe('parseTickFile', () => {
+    it('parses CSV keeping trailing zero digits', () => {
+        const ticks = parseTickFile('epoch,quote\n1700000000,1234.50\n1700000001,1234.57');
+        expect(ticks).toEqual([
+            { epoch: 1700000000, quote: 1234.5, lastDigit: 0 },
+            { epoch: 1700000001, quote: 1234.57, lastDigit: 7 },
+        ]);
+    });
+
+    it('parses a ticks_history response', () => {
+        const ticks = parseTickFile(
+            JSON.stringify({ pip_size: 2, ticks_history: { prices: [1234.5, 1234.57], times: [1, 2] } })
+        );
+        expect(ticks.map(tick => tick.lastDigit)).toEqual([0, 7]);
+    });
+
+    it('rejects CSV without the required columns', () => {
+        expect(() => parseTickFile('time,price\n1,2')).toThrow('epoch');
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * Zen Walk-Forward Optimizer Tests
+ */
+
+import type { HistoricalTickData } from '../../services/historical-tick-loader.service';
+import type { ZenTradeConfig } from '../../services/zen-trading.service';
+import { applyParameterSet, expandParameterGrid, simulateZenStrategy, ZenWalkForwardOptimizer } from '../zenOptimizer';
+
+jest.mock('../../services/deriv-connection-pool.service', () => ({
+    derivConnectionPool: { getConnection: jest.fn() },
+    ConnectionType: { SIGNALS: 'signals' },
+}));
+
+const buildTicks = (digits: number[]): HistoricalTickData[] =>
+    digits.map((digit, index) => ({
+        epoch: 1700000000 + index,
+        quote: 1000 + index / 10 + digit / 100,
+        lastDigit: digit,
+    }));
+
+const baseConfig: ZenTradeConfig = {
+    strategy: 'Even',
+    market: 'R_100',
+    stake: 1,
+    martingaleMultiplier: 1,
+    ticks: 1,
+    defaultDigit: 5,
+    switchOnLoss: false,
+    switchMarket: false,
+    mainMode: true,
+    lossesToSwitch: 3,
+    rounds: 0,
+    delay: false,
+};
+
+describe('simulateZenStrategy', () => {
+    it('trades back to back and settles on the digit of the exit tick', () => {
+        const result = simulateZenStrategy(baseConfig, buildTicks([0, 2, 3, 4]));
+
+        expect(result).toMatchObject({ trades: 3, wins: 2, losses: 1, profit: 0.8, longestLossStreak: 1 });
+    });
+
+    it('doubles the stake after losses and resets after a win', () => {
+        const result = simulateZenStrategy({ ...baseConfig, martingaleMultiplier: 2 }, buildTicks([0, 1, 1, 2]));
+
+        // Stakes 1, 2, 4: -1 - 2 + 3.6
+        expect(result).toMatchObject({ trades: 3, totalStaked: 7, profit: 0.6, maxDrawdown: 3, longestLossStreak: 2 });
+    });
+
+    it('rotates to the next strategy after the configured losses', () => {
+        const result = simulateZenStrategy(
+            { ...baseConfig, switchOnLoss: true, lossesToSwitch: 2 },
+            buildTicks([0, 1, 1, 1, 1])
+        );
+
+        // Two losses on Even, then Odd wins twice
+        expect(result).toMatchObject({ switches: 1, wins: 2, losses: 2 });
+    });
+
+    it('pays Over and Under contracts by their barrier', () => {
+        const ticks = buildTicks([0, 9]);
+        const overZero = simulateZenStrategy({ ...baseConfig, strategy: 'Over', defaultDigit: 0 }, ticks);
+        const overEight = simulateZenStrategy({ ...baseConfig, strategy: 'Over', defaultDigit: 8 }, ticks);
+
+        expect(overZero.profit).toBe(0.06);
+        expect(overEight.profit).toBe(8.5);
+    });
+
+    it('stops at the stop loss', () => {
+        const result = simulateZenStrategy({ ...baseConfig, stopLoss: 2 }, buildTicks([0, 1, 1, 1, 1]));
+
+        expect(result).toMatchObject({ trades: 2, stoppedBy: 'STOP_LOSS' });
+    });
+});
+
+describe('ZenWalkForwardOptimizer', () => {
+    it('expands lists and ranges into every combination', () => {
+        const combinations = expandParameterGrid({
+            strategy: ['Even', 'Odd'],
+            martingaleMultiplier: { min: 1, max: 1.2, step: 0.1 },
+        });
+
+        expect(combinations).toHaveLength(6);
+        expect(combinations[5]).toEqual({ strategy: 'Odd', martingaleMultiplier: 1.2 });
+        expect(() => expandParameterGrid({ ticks: { min: 1, max: 10, step: 1 } }, 5)).toThrow('10 combinations');
+    });
+
+    it('enables performance switching when tuning the performance window', () => {
+        const config = applyParameterSet(baseConfig, { performanceWindow: 20, lossesToSwitch: 4 });
+
+        expect(config.lossesToSwitch).toBe(4);
+        expect(config.contractSwitching).toMatchObject({ enabled: true, mode: 'performance', performanceWindow: 20 });
+    });
+
+    it('ranks the configuration that wins out of sample first', () => {
+        // Even digits throughout, so Even always wins and Odd always loses
+        const ticks = buildTicks(Array.from({ length: 400 }, (_, index) => (index % 5) * 2));
+
+        const report = new ZenWalkForwardOptimizer({ folds: 4 }).run(
+            baseConfig,
+            { strategy: ['Odd', 'Even'], martingaleMultiplier: [1, 2] },
+            ticks
+        );
+
+        expect(report.combinations).toBe(4);
+        expect(report.folds).toHaveLength(4);
+        expect(report.results[0]).toMatchObject({ rank: 1, stability: 1, longestLossStreak: 0, timesSelected: 4 });
+        expect(report.results[0].params.strategy).toBe('Even');
+        expect(report.results[3].params.strategy).toBe('Odd');
+        expect(report.walkForwardProfit).toBe(report.results[0].profit);
+    });
+
+    it('refuses series too short for the requested windows', () => {
+        expect(() => new ZenWalkForwardOptimizer({ folds: 5 }).run(baseConfig, {}, buildTicks([1, 2, 3]))).toThrow(
+            'Not enough ticks'
+        );
+    });
+});
@@ -0,0 +1,398 @@
+/**
+ * Historical Replay Backtester
+ * Feeds a recorded tick series through TickStateManager + RuleEngine and settles
+ * every trade intent against the real outcome of the following ticks
+ *
+ * The replay is fully deterministic: rule timing follows tick time, and no random
+ * outcome or execution delay is involved
+ */
+
+import { historicalTickLoader, type HistoricalTickData } from '../services/historical-tick-loader.service';
+import type { TickData } from '../services/tick-driven/derivSocket';
+import { getPayoutMultiplier } from '../utils/profit-calculator';
+import { RuleEngine, type TradeIntent, type TradeRule } from './ruleEngine';
+import { type DigitChangeEvent, TickStateManager } from './tickState';
+
+export interface BacktestConfig {
+    symbol: string;
+    rules: TradeRule[];
+    startingBalance?: number;
+    defaultDuration?: number; // Ticks, used when a rule has no duration
+    defaultBarrier?: number; // Used when a rule needs a prediction but has none
+    payoutMultipliers?: Record<string, number>; // Overrides the payouts priced from each barrier
+}
+
+export interface BacktestTrade {
+    intentId: string;
+    ruleId: string;
+    ruleName: string;
+    contractType: string;
+    barrier: number;
+    stake: number;
+    entryTickIndex: number;
+    exitTickIndex: number;
+    entryEpoch: number;
+    exitEpoch: number;
+    entryQuote: number;
+    exitQuote: number;
+    exitDigit: number;
+    outcome: 'win' | 'loss';
+    payout: number;
+    profit: number;
+    equity: number;
+}
+
+export interface RuleBacktestStats {
+    ruleId: string;
+    ruleName: string;
+    contractType: string;
+    trades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    totalStaked: number;
+    profit: number;
+    maxDrawdown: number;
+}
+
+export interface EquityPoint {
+    tickIndex: number;
+    epoch: number;
+    equity: number;
+}
+
+export interface BacktestReport {
+    symbol: string;
+    tickCount: number;
+    startEpoch: number;
+    endEpoch: number;
+    startingBalance: number;
+    endingBalance: number;
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    totalProfit: number;
+    maxDrawdown: number;
+    unsettledIntents: number; // Intents whose exit tick lies beyond the end of the series
+    ruleStats: RuleBacktestStats[];
+    equityCurve: EquityPoint[];
+    trades: BacktestTrade[];
+}
+
+interface PendingIntent {
+    intent: TradeIntent;
+    entryTickIndex: number;
+    exitTickIndex: number;
+}
+
+const DEFAULT_DURATION = 1;
+const DEFAULT_BARRIER = 5;
+
+/**
+ * Map the contract type names used by trade rules onto Deriv's canonical names
+ */
+const normalizeContractType = (contractType: string): string => {
+    const aliases: Record<string, string> = {
+        DIGITMATCHES: 'DIGITMATCH',
+        DIGITDIFFERS: 'DIGITDIFF',
+    };
+    return aliases[contractType] ?? contractType;
+};
+
+/**
+ * Decide a contract outcome from the entry and exit ticks
+ */
+export function isWinningContract(
+    contractType: string,
+    barrier: number,
+    entry: HistoricalTickData,
+    exit: HistoricalTickData
+): boolean {
+    const digit = exit.lastDigit;
+
+    switch (normalizeContractType(contractType)) {
+        case 'DIGITEVEN':
+            return digit % 2 === 0;
+        case 'DIGITODD':
+            return digit % 2 === 1;
+        case 'DIGITMATCH':
+            return digit === barrier;
+        case 'DIGITDIFF':
+            return digit !== barrier;
+        case 'DIGITOVER':
+            return digit > barrier;
+        case 'DIGITUNDER':
+            return digit < barrier;
+        case 'CALL':
+            return exit.quote > entry.quote;
+        case 'PUT':
+            return exit.quote < entry.quote;
+        default:
+            console.warn(`⚠️ Unsupported contract type in replay: ${contractType}`);
+            return false;
+    }
+}
+
+/**
+ * Largest peak-to-trough fall of an equity series
+ */
+const calculateMaxDrawdown = (equity: number[]): number => {
+    let peak = equity.length > 0 ? equity[0] : 0;
+    let maxDrawdown = 0;
+
+    for (const value of equity) {
+        peak = Math.max(peak, value);
+        maxDrawdown = Math.max(maxDrawdown, peak - value);
+    }
+
+    return round(maxDrawdown);
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class Backtester {
+    private config: BacktestConfig;
+
+    constructor(config: BacktestConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Replay a tick series and build the report
+     * Each intent raised on tick i settles on tick i + duration
+     */
+    public run(ticks: HistoricalTickData[]): BacktestReport {
+        const startingBalance = this.config.startingBalance ?? 0;
+        const tickStateManager = new TickStateManager();
+        const ruleEngine = new RuleEngine();
+
+        // Rules are copied so the replay never mutates live rule objects
+        this.config.rules.forEach(rule => ruleEngine.addRule({ ...rule }));
+
+        let pending: PendingIntent[] = [];
+        const trades: BacktestTrade[] = [];
+        const equityCurve: EquityPoint[] = [];
+        let equity = startingBalance;
+
+        ticks.forEach((tick, tickIndex) => {
+            // Settle first so an intent raised on this tick cannot see its own exit
+            pending
+                .filter(item => item.exitTickIndex === tickIndex)
+                .forEach(item => {
+                    const trade = this.settle(item, ticks, equity);
+                    equity = trade.equity;
+                    trades.push(trade);
+                });
+            pending = pending.filter(item => item.exitTickIndex !== tickIndex);
+
+            const tickData: TickData = {
+                price: tick.quote,
+                lastDigit: tick.lastDigit,
+                timestamp: tick.epoch * 1000,
+                symbol: this.config.symbol,
+            };
+
+            if (tickStateManager.processTick(tickData)) {
+                const stats = tickStateManager.getStats();
+                const event: DigitChangeEvent = {
+                    previousDigit: stats.previousDigit,
+                    currentDigit: stats.currentDigit,
+                    price: tick.quote,
+                    timestamp: tickData.timestamp,
+                    tickCount: stats.totalTicks,
+                    digitChangeCount: stats.digitChanges,
+                };
+
+                const intents = ruleEngine.processDigitChange(event, tickData.timestamp);
+                intents.forEach(intent => {
+                    pending.push({
+                        intent,
+                        entryTickIndex: tickIndex,
+                        exitTickIndex: tickIndex + (intent.duration ?? this.config.defaultDuration ?? DEFAULT_DURATION),
+                    });
+                });
+            }
+
+            equityCurve.push({ tickIndex, epoch: tick.epoch, equity: round(equity) });
+        });
+
+        return this.buildReport(ticks, trades, equityCurve, pending.length, startingBalance, equity);
+    }
+
+    /**
+     * Settle one intent against its exit tick
+     */
+    private settle(pendingIntent: PendingIntent, ticks: HistoricalTickData[], equity: number): BacktestTrade {
+        const { intent, entryTickIndex, exitTickIndex } = pendingIntent;
+        const entry = ticks[entryTickIndex];
+        const exit = ticks[exitTickIndex];
+        const barrier = intent.barrier ?? this.config.defaultBarrier ?? DEFAULT_BARRIER;
+        const contractType = normalizeContractType(intent.contractType);
+
+        const isWin = isWinningContract(contractType, barrier, entry, exit);
+        const multiplier = this.config.payoutMultipliers?.[contractType] ?? getPayoutMultiplier(contractType, barrier);
+        const payout = isWin ? round(intent.stake * multiplier) : 0;
+        const profit = round(payout - intent.stake);
+
+        return {
+            intentId: intent.id,
+            ruleId: intent.ruleId,
+            ruleName: intent.metadata.ruleName,
+            contractType: intent.contractType,
+            barrier,
+            stake: intent.stake,
+            entryTickIndex,
+            exitTickIndex,
+            entryEpoch: entry.epoch,
+            exitEpoch: exit.epoch,
+            entryQuote: entry.quote,
+            exitQuote: exit.quote,
+            exitDigit: exit.lastDigit,
+            outcome: isWin ? 'win' : 'loss',
+            payout,
+            profit,
+            equity: round(equity + profit),
+        };
+    }
+
+    /**
+     * Aggregate settled trades into the overall and per-rule report
+     */
+    private buildReport(
+        ticks: HistoricalTickData[],
+        trades: BacktestTrade[],
+        equityCurve: EquityPoint[],
+        unsettledIntents: number,
+        startingBalance: number,
+        endingBalance: number
+    ): BacktestReport {
+        const wins = trades.filter(trade => trade.outcome === 'win').length;
+
+        const ruleStats: RuleBacktestStats[] = this.config.rules.map(rule => {
+            const ruleTrades = trades.filter(trade => trade.ruleId === rule.id);
+            const ruleWins = ruleTrades.filter(trade => trade.outcome === 'win').length;
+
+            let ruleEquity = 0;
+            const ruleEquitySeries = [0];
+            ruleTrades.forEach(trade => {
+                ruleEquity += trade.profit;
+                ruleEquitySeries.push(ruleEquity);
+            });
+
+            return {
+                ruleId: rule.id,
+                ruleName: rule.name,
+                contractType: rule.contractType,
+                trades: ruleTrades.length,
+                wins: ruleWins,
+                losses: ruleTrades.length - ruleWins,
+                winRate: ruleTrades.length > 0 ? ruleWins / ruleTrades.length : 0,
+                totalStaked: round(ruleTrades.reduce((sum, trade) => sum + trade.stake, 0)),
+                profit: round(ruleEquity),
+                maxDrawdown: calculateMaxDrawdown(ruleEquitySeries),
+            };
+        });
+
+        return {
+            symbol: this.config.symbol,
+            tickCount: ticks.length,
+            startEpoch: ticks.length > 0 ? ticks[0].epoch : 0,
+            endEpoch: ticks.length > 0 ? ticks[ticks.length - 1].epoch : 0,
+            startingBalance,
+            endingBalance: round(endingBalance),
+            totalTrades: trades.length,
+            wins,
+            losses: trades.length - wins,
+            winRate: trades.length > 0 ? wins / trades.length : 0,
+            totalProfit: round(endingBalance - startingBalance),
+            maxDrawdown: calculateMaxDrawdown([startingBalance, ...equityCurve.map(point => point.equity)]),
+            unsettledIntents,
+            ruleStats,
+            equityCurve,
+            trades,
+        };
+    }
+}
+
+/**
+ * Extract the last digit from a quote, honouring the pip size when it is known
+ */
+const getLastDigit = (quote: number, pipSize?: number): number => {
+    const quoteStr = pipSize !== undefined ? quote.toFixed(pipSize) : quote.toString();
+    return parseInt(quoteStr.slice(-1), 10);
+};
+
+/**
+ * Parse an imported tick file
+ * Accepts a JSON array of ticks, a ticks_history response or a CSV with epoch and quote columns
+ */
+export function parseTickFile(content: string): HistoricalTickData[] {
+    const trimmed = content.trim();
+    if (!trimmed) return [];
+
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        const parsed = JSON.parse(trimmed);
+
+        const history = parsed.history ?? parsed.ticks_history;
+        if (history?.prices) {
+            const { prices, times } = history;
+            return prices.map((price: number | string, index: number) => {
+                const quote = Number(price);
+                return { epoch: Number(times[index]), quote, lastDigit: getLastDigit(quote, parsed.pip_size) };
+            });
+        }
+
+        const rows: Array<Record<string, unknown>> = Array.isArray(parsed) ? parsed : (parsed.ticks ?? []);
+        return rows.map(row => {
+            const quote = Number(row.quote);
+            const lastDigit = row.lastDigit ?? row.last_digit;
+            return {
+                epoch: Number(row.epoch),
+                quote,
+                lastDigit: lastDigit !== undefined ? Number(lastDigit) : getLastDigit(quote, row.pip_size as number),
+            };
+        });
+    }
+
+    const [headerLine, ...lines] = trimmed.split(/\r?\n/);
+    const headers = headerLine.split(',').map(header => header.trim().toLowerCase());
+    const epochIndex = headers.indexOf('epoch');
+    const quoteIndex = headers.indexOf('quote');
+    const digitIndex = headers.findIndex(header => header === 'last_digit' || header === 'lastdigit');
+
+    if (epochIndex === -1 || quoteIndex === -1) {
+        throw new Error('Tick CSV must have "epoch" and "quote" columns');
+    }
+
+    return lines
+        .filter(line => line.trim() !== '')
+        .map(line => {
+            const columns = line.split(',');
+            const quoteText = columns[quoteIndex].trim();
+            return {
+                epoch: Number(columns[epochIndex]),
+                quote: Number(quoteText),
+                lastDigit: digitIndex !== -1 ? Number(columns[digitIndex]) : parseInt(quoteText.slice(-1), 10),
+            };
+        });
+}
+
+/**
+ * Load a tick series from the Deriv API, or from a stored recording when one is given, and replay it
+ */
+export async function runHistoricalBacktest(
+    config: BacktestConfig,
+    count = 1000,
+    recordingId?: string
+): Promise<BacktestReport> {
+    const result = recordingId
+        ? await historicalTickLoader.loadRecordedTicks(recordingId, count)
+        : await historicalTickLoader.loadHistoricalTicksWithRetry(config.symbol, count);
+
+    if (!result.success) {
+        throw new Error(result.error || `Failed to load ticks for ${config.symbol}`);
+    }
+
+    return new Backtester(config).run(result.ticks);
+}
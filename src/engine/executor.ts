@@ -8,6 +8,7 @@
  * DO NOT place actual trades
  */
 
+import { tradeLedger } from '../services/trade-ledger.service';
 import type { TradeIntent } from './ruleEngine';
 
 export interface SimulatedTradeResult {
@@ -28,6 +29,7 @@ export interface ExecutorConfig {
     payoutMultiplier: number; // Simulated payout multiplier
     executionDelay: { min: number; max: number }; // Simulated execution delay
     errorRate: number; // Simulated error rate (0-1)
+    symbol?: string; // Market the intents are raised on, recorded in the trade ledger
 }
 
 export class TradeExecutor {
@@ -102,6 +104,18 @@ export class TradeExecutor {
 
         // Store result
         this.executedTrades.push(result);
+        tradeLedger.record({
+            contractId: intent.id,
+            engine: 'TICK_ENGINE',
+            strategy: intent.metadata.ruleName,
+            symbol: this.config.symbol || '',
+            contractType: intent.contractType,
+            stake: intent.stake,
+            payout: payout,
+            profit: pnl,
+            settledAt: result.timestamp,
+            isPaper: true,
+        });
 
         // Keep history manageable
         if (this.executedTrades.length > 1000) {
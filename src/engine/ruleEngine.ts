@@ -14,6 +14,8 @@ export interface TradeRule {
     tradesPerTick: number;
     contractType: string;
     stake: number;
+    barrier?: number; // Digit prediction for OVER/UNDER/MATCHES/DIFFERS contracts
+    duration?: number; // Contract duration in ticks
     conditions?: {
         minInterval?: number; // Minimum ms between triggers
         maxPerMinute?: number; // Max trades per minute for this rule
@@ -30,6 +32,8 @@ export interface TradeIntent {
     contractType: string;
     stake: number;
     price: number;
+    barrier?: number;
+    duration?: number;
     metadata: {
         ruleName: string;
         digitChangeCount: number;
@@ -86,10 +90,10 @@ export class RuleEngine {
 
     /**
      * Process digit change and generate trade intents
+     * `now` can be supplied by replay callers so time-based conditions follow tick time
      */
-    public processDigitChange(event: DigitChangeEvent): TradeIntent[] {
+    public processDigitChange(event: DigitChangeEvent, now: number = Date.now()): TradeIntent[] {
         const intents: TradeIntent[] = [];
-        const now = Date.now();
 
         console.log('🎯 Processing digit change for rules:', {
             digit: event.currentDigit,
@@ -193,6 +197,8 @@ export class RuleEngine {
                 contractType: rule.contractType,
                 stake: rule.stake,
                 price: event.price,
+                barrier: rule.barrier,
+                duration: rule.duration,
                 metadata: {
                     ruleName: rule.name,
                     digitChangeCount: event.digitChangeCount,
@@ -0,0 +1,437 @@
+/**
+ * Zen Walk-Forward Optimizer
+ * Replays the Zen strategy logic (martingale staking, contract switching, take profit / stop loss)
+ * over a recorded tick series and ranks parameter combinations by out-of-sample performance
+ *
+ * Each walk-forward fold picks the best configuration on an in-sample window and then
+ * scores every configuration on the following, unseen window
+ */
+
+import type { HistoricalTickData } from '../services/historical-tick-loader.service';
+import type { ContractTypePerformance, ZenTradeConfig } from '../services/zen-trading.service';
+import {
+    getAvailableZenStrategies,
+    getMartingaleStake,
+    getNextZenStrategy,
+    getZenContractType,
+    getZenMarketTrend,
+    getZenMarketVolatility,
+    limitZenStake,
+    recordZenContractPerformance,
+    selectAdaptiveZenStrategy,
+    selectBestPerformingZenStrategy,
+    STRADDLE_BARRIER,
+    ZenStrategy,
+} from '../services/zen-strategy-rules';
+import { getPayoutMultiplier } from '../utils/profit-calculator';
+import { isWinningContract } from './backtester';
+
+export interface ZenSimulationResult {
+    trades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    totalStaked: number;
+    profit: number;
+    maxDrawdown: number;
+    longestLossStreak: number;
+    switches: number;
+    stoppedBy?: 'TAKE_PROFIT' | 'STOP_LOSS';
+}
+
+export type ZenParameterRange = { min: number; max: number; step: number };
+
+export interface ZenParameterGrid {
+    strategy?: ZenStrategy[];
+    martingaleMultiplier?: number[] | ZenParameterRange;
+    lossesToSwitch?: number[] | ZenParameterRange;
+    defaultDigit?: number[] | ZenParameterRange;
+    ticks?: number[] | ZenParameterRange;
+    performanceWindow?: number[] | ZenParameterRange;
+}
+
+export type ZenParameterSet = Partial<Record<keyof ZenParameterGrid, number | string>>;
+
+export interface WalkForwardOptions {
+    folds?: number;
+    trainRatio?: number; // Share of each fold used in-sample
+    maxCombinations?: number;
+}
+
+export interface WalkForwardFold {
+    index: number;
+    trainStart: number;
+    trainEnd: number;
+    testStart: number;
+    testEnd: number;
+    selectedKey: string; // Best in-sample configuration
+    selectedTestProfit: number;
+}
+
+export interface ZenOptimizationResult {
+    rank: number;
+    key: string;
+    params: ZenParameterSet;
+    config: ZenTradeConfig;
+    profit: number; // Summed over the out-of-sample windows
+    maxDrawdown: number; // Worst out-of-sample window
+    longestLossStreak: number;
+    trades: number;
+    winRate: number;
+    windowProfits: number[];
+    stability: number; // Share of out-of-sample windows that ended in profit (0-1)
+    profitStdDev: number;
+    timesSelected: number; // Folds in which it was the best in-sample configuration
+}
+
+export interface ZenOptimizationReport {
+    tickCount: number;
+    combinations: number;
+    folds: WalkForwardFold[];
+    walkForwardProfit: number; // Profit from trading each fold's in-sample winner out-of-sample
+    results: ZenOptimizationResult[];
+}
+
+const DEFAULT_FOLDS = 5;
+const DEFAULT_TRAIN_RATIO = 0.7;
+const DEFAULT_MAX_COMBINATIONS = 500;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Last digit of a quote as the live service reads it for adaptive switching
+ */
+const getServiceLastDigit = (quote: number): number => Math.floor((quote * 10000) % 10);
+
+/**
+ * Settle one Zen contract between two ticks
+ */
+const settleZenContract = (
+    strategy: string,
+    stake: number,
+    defaultDigit: number,
+    entry: HistoricalTickData,
+    exit: HistoricalTickData
+): number => {
+    const settle = (contractType: string, legStake: number, barrier: number) =>
+        isWinningContract(contractType, barrier, entry, exit)
+            ? legStake * getPayoutMultiplier(contractType, barrier) - legStake
+            : -legStake;
+
+    // Straddle6 splits the stake between Over 6 and Under 6
+    if (strategy === 'Straddle6') {
+        return round(
+            settle('DIGITOVER', stake / 2, STRADDLE_BARRIER) + settle('DIGITUNDER', stake / 2, STRADDLE_BARRIER)
+        );
+    }
+
+    return round(settle(getZenContractType(strategy), stake, defaultDigit));
+};
+
+/**
+ * Replay a Zen configuration over a tick series
+ * Contracts are traded back to back: each one enters on the exit tick of the previous one
+ */
+export function simulateZenStrategy(config: ZenTradeConfig, ticks: HistoricalTickData[]): ZenSimulationResult {
+    const duration = Math.max(1, config.ticks);
+    const switching = config.contractSwitching;
+    const performance = new Map<string, ContractTypePerformance>();
+
+    let strategy: string = config.strategy;
+    let consecutiveLosses = 0;
+    let lossStreak = 0;
+    let switches = 0;
+    let lastSwitchEpoch = -Infinity;
+    let equity = 0;
+    let peak = 0;
+
+    const result: ZenSimulationResult = {
+        trades: 0,
+        wins: 0,
+        losses: 0,
+        winRate: 0,
+        totalStaked: 0,
+        profit: 0,
+        maxDrawdown: 0,
+        longestLossStreak: 0,
+        switches: 0,
+    };
+
+    const switchStrategy = (to: string, epoch: number) => {
+        strategy = to;
+        // Consecutive losses reset on a switch unless resetOnWin is explicitly disabled
+        if (switching?.resetOnWin !== false) consecutiveLosses = 0;
+        lastSwitchEpoch = epoch;
+        switches++;
+    };
+
+    // The live service waits for `ticks` ticks of history before its first trade
+    for (let index = duration - 1; index + duration < ticks.length; index += duration) {
+        const entry = ticks[index];
+        const exit = ticks[index + duration];
+
+        const stake = limitZenStake(
+            getMartingaleStake(config.stake, config.martingaleMultiplier, consecutiveLosses),
+            config.stake
+        );
+        const profit = settleZenContract(strategy, stake, config.defaultDigit, entry, exit);
+        const isWin = profit > 0;
+
+        recordZenContractPerformance(performance, strategy, getZenContractType(strategy), isWin, profit, exit.epoch);
+        result.trades++;
+        result.totalStaked += stake;
+        equity += profit;
+        peak = Math.max(peak, equity);
+        result.maxDrawdown = Math.max(result.maxDrawdown, peak - equity);
+
+        if (isWin) {
+            result.wins++;
+            consecutiveLosses = 0;
+            lossStreak = 0;
+            if (switching?.resetOnWin && strategy !== config.strategy) {
+                switchStrategy(config.strategy, exit.epoch);
+            }
+        } else {
+            result.losses++;
+            consecutiveLosses++;
+            lossStreak++;
+            result.longestLossStreak = Math.max(result.longestLossStreak, lossStreak);
+        }
+
+        if (config.takeProfit && equity >= config.takeProfit) {
+            result.stoppedBy = 'TAKE_PROFIT';
+            break;
+        }
+        if (config.stopLoss && equity <= -config.stopLoss) {
+            result.stoppedBy = 'STOP_LOSS';
+            break;
+        }
+
+        const shouldSwitch = switching?.enabled
+            ? consecutiveLosses >= config.lossesToSwitch
+            : config.switchOnLoss && consecutiveLosses >= config.lossesToSwitch;
+        const inCooldown = !!switching?.cooldownPeriod && exit.epoch - lastSwitchEpoch < switching.cooldownPeriod * 60;
+        const maxedOut = !!switching?.maxSwitches && switches >= switching.maxSwitches;
+
+        if (shouldSwitch && !inCooldown && !maxedOut) {
+            const strategies = getAvailableZenStrategies(switching?.excludeStrategies);
+
+            if (switching?.mode === 'performance') {
+                const window = switching.performanceWindow || 10;
+                switchStrategy(selectBestPerformingZenStrategy(strategies, performance, window).strategy, exit.epoch);
+            } else if (switching?.mode === 'adaptive') {
+                const history = ticks.slice(Math.max(0, index + duration - 99), index + duration + 1).map(t => t.quote);
+                const next = selectAdaptiveZenStrategy(
+                    getZenMarketVolatility(history),
+                    getZenMarketTrend(history),
+                    getServiceLastDigit(exit.quote)
+                );
+                switchStrategy(next, exit.epoch);
+            } else if (switching?.mode === 'custom' && switching.customSequence?.length) {
+                switchStrategy(getNextZenStrategy(strategy, switching.customSequence), exit.epoch);
+            } else {
+                switchStrategy(getNextZenStrategy(strategy, strategies), exit.epoch);
+            }
+        }
+    }
+
+    result.profit = round(equity);
+    result.maxDrawdown = round(result.maxDrawdown);
+    result.totalStaked = round(result.totalStaked);
+    result.winRate = result.trades > 0 ? (result.wins / result.trades) * 100 : 0;
+    result.switches = switches;
+    return result;
+}
+
+/**
+ * Expand a parameter grid into every combination
+ */
+export function expandParameterGrid(
+    grid: ZenParameterGrid,
+    maxCombinations = DEFAULT_MAX_COMBINATIONS
+): ZenParameterSet[] {
+    const axes = (Object.keys(grid) as Array<keyof ZenParameterGrid>)
+        .map(field => ({ field, values: toValues(grid[field]) }))
+        .filter(axis => axis.values.length > 0);
+
+    const total = axes.reduce((count, axis) => count * axis.values.length, 1);
+    if (total > maxCombinations) {
+        throw new Error(`The grid has ${total} combinations; narrow it to at most ${maxCombinations}`);
+    }
+
+    return axes.reduce<ZenParameterSet[]>(
+        (combinations, axis) =>
+            combinations.flatMap(combination => axis.values.map(value => ({ ...combination, [axis.field]: value }))),
+        [{}]
+    );
+}
+
+/**
+ * Apply a parameter set on top of a base configuration
+ */
+export function applyParameterSet(base: ZenTradeConfig, params: ZenParameterSet): ZenTradeConfig {
+    const { performanceWindow, ...fields } = params;
+    const config = { ...base, ...fields } as ZenTradeConfig;
+
+    if (performanceWindow !== undefined) {
+        config.contractSwitching = {
+            enabled: true,
+            mode: 'performance',
+            resetOnWin: true,
+            maxSwitches: 0,
+            cooldownPeriod: 0,
+            ...base.contractSwitching,
+            performanceWindow: Number(performanceWindow),
+        };
+    }
+
+    return config;
+}
+
+export class ZenWalkForwardOptimizer {
+    private options: Required<WalkForwardOptions>;
+
+    constructor(options: WalkForwardOptions = {}) {
+        this.options = {
+            folds: options.folds ?? DEFAULT_FOLDS,
+            trainRatio: options.trainRatio ?? DEFAULT_TRAIN_RATIO,
+            maxCombinations: options.maxCombinations ?? DEFAULT_MAX_COMBINATIONS,
+        };
+    }
+
+    /**
+     * Evaluate every combination of the grid with walk-forward windows and rank them
+     * by out-of-sample profit, then drawdown
+     */
+    public run(base: ZenTradeConfig, grid: ZenParameterGrid, ticks: HistoricalTickData[]): ZenOptimizationReport {
+        const combinations = expandParameterGrid(grid, this.options.maxCombinations);
+        const candidates = combinations.map(params => ({
+            params,
+            key: this.describe(params),
+            config: applyParameterSet(base, params),
+        }));
+
+        const windows = this.buildWindows(ticks.length);
+        const testResults = candidates.map(() => [] as ZenSimulationResult[]);
+        const timesSelected = candidates.map(() => 0);
+        const folds: WalkForwardFold[] = [];
+
+        windows.forEach((window, foldIndex) => {
+            const train = ticks.slice(window.trainStart, window.trainEnd);
+            const test = ticks.slice(window.testStart, window.testEnd);
+
+            let bestIndex = 0;
+            let bestScore = -Infinity;
+            candidates.forEach((candidate, candidateIndex) => {
+                const inSample = simulateZenStrategy(candidate.config, train);
+                const score = inSample.profit - inSample.maxDrawdown * 0.5;
+                if (score > bestScore) {
+                    bestScore = score;
+                    bestIndex = candidateIndex;
+                }
+                testResults[candidateIndex].push(simulateZenStrategy(candidate.config, test));
+            });
+
+            timesSelected[bestIndex]++;
+            folds.push({
+                index: foldIndex,
+                ...window,
+                selectedKey: candidates[bestIndex].key,
+                selectedTestProfit: testResults[bestIndex][foldIndex].profit,
+            });
+        });
+
+        const results = candidates
+            .map((candidate, index) => this.summarise(candidate, testResults[index], timesSelected[index]))
+            .sort((a, b) => b.profit - a.profit || a.maxDrawdown - b.maxDrawdown || b.stability - a.stability)
+            .map((result, index) => ({ ...result, rank: index + 1 }));
+
+        return {
+            tickCount: ticks.length,
+            combinations: candidates.length,
+            folds,
+            walkForwardProfit: round(folds.reduce((sum, fold) => sum + fold.selectedTestProfit, 0)),
+            results,
+        };
+    }
+
+    // Private helper methods
+
+    private buildWindows(
+        tickCount: number
+    ): Array<Omit<WalkForwardFold, 'index' | 'selectedKey' | 'selectedTestProfit'>> {
+        const { folds, trainRatio } = this.options;
+        // Folds overlap so every fold's test window follows its own training window
+        const testSize = Math.floor((tickCount * (1 - trainRatio)) / (folds * (1 - trainRatio) + trainRatio));
+        const trainSize = Math.floor((testSize * trainRatio) / (1 - trainRatio));
+
+        if (testSize < 10 || trainSize < 10) {
+            throw new Error(`Not enough ticks (${tickCount}) for ${folds} walk-forward windows`);
+        }
+
+        return Array.from({ length: folds }, (_, fold) => {
+            const trainStart = fold * testSize;
+            return {
+                trainStart,
+                trainEnd: trainStart + trainSize,
+                testStart: trainStart + trainSize,
+                testEnd: Math.min(tickCount, trainStart + trainSize + testSize),
+            };
+        });
+    }
+
+    private summarise(
+        candidate: { params: ZenParameterSet; key: string; config: ZenTradeConfig },
+        windows: ZenSimulationResult[],
+        timesSelected: number
+    ): ZenOptimizationResult {
+        const windowProfits = windows.map(window => window.profit);
+        const profit = windowProfits.reduce((sum, value) => sum + value, 0);
+        const mean = windowProfits.length > 0 ? profit / windowProfits.length : 0;
+        const variance =
+            windowProfits.length > 0
+                ? windowProfits.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / windowProfits.length
+                : 0;
+        const trades = windows.reduce((sum, window) => sum + window.trades, 0);
+        const wins = windows.reduce((sum, window) => sum + window.wins, 0);
+
+        return {
+            rank: 0,
+            key: candidate.key,
+            params: candidate.params,
+            config: candidate.config,
+            profit: round(profit),
+            maxDrawdown: Math.max(0, ...windows.map(window => window.maxDrawdown)),
+            longestLossStreak: Math.max(0, ...windows.map(window => window.longestLossStreak)),
+            trades,
+            winRate: trades > 0 ? (wins / trades) * 100 : 0,
+            windowProfits,
+            stability: windows.length > 0 ? windowProfits.filter(value => value > 0).length / windows.length : 0,
+            profitStdDev: round(Math.sqrt(variance)),
+            timesSelected,
+        };
+    }
+
+    private describe(params: ZenParameterSet): string {
+        const parts = Object.entries(params).map(([field, value]) => `${field}=${value}`);
+        return parts.length > 0 ? parts.join(', ') : 'base';
+    }
+}
+
+/**
+ * Turn a list or range of grid values into a list
+ */
+function toValues(values: ZenParameterGrid[keyof ZenParameterGrid]): Array<number | string> {
+    if (!values) return [];
+    if (Array.isArray(values)) return values;
+
+    const { min, max, step } = values;
+    if (step <= 0) throw new Error('Range step must be greater than zero');
+
+    const list: number[] = [];
+    // Rounded so floating point steps such as 0.1 land on exact values
+    for (let value = min; value <= max + step / 1e6; value = Math.round((value + step) * 1e6) / 1e6) {
+        list.push(value);
+    }
+    return list;
+}
@@ -50,6 +50,22 @@ export const config = () => ({
             [localize('Severe error'), 'severe-error'],
         ],
         CURRENCY: ['USD', 'EUR', 'GBP', 'AUD', ...CRYPTO_CURRENCIES],
+        DIGIT_ZONE: [
+            [localize('Hot'), 'hot'],
+            [localize('Cold'), 'cold'],
+        ],
+        DIGIT_PARITY: [
+            [localize('even'), 'even'],
+            [localize('odd'), 'odd'],
+        ],
+        DIGIT_DIRECTION: [
+            [localize('over'), 'over'],
+            [localize('under'), 'under'],
+        ],
+        MARKET_GROUPS: [
+            [localize('Volatility indices'), 'volatility'],
+            [localize('Volatility (1s) indices'), 'volatility_1s'],
+        ],
     },
     opposites: {
         ACCUMULATOR: [
@@ -178,6 +194,10 @@ export const config = () => ({
             },
         ],
     },
+    market_groups: {
+        volatility: ['R_10', 'R_25', 'R_50', 'R_75', 'R_100'],
+        volatility_1s: ['1HZ10V', '1HZ25V', '1HZ50V', '1HZ75V', '1HZ100V'],
+    },
     BARRIER_TYPES: [
         ['Offset +', '+'],
         ['Offset -', '-'],
@@ -274,6 +294,20 @@ export const config = () => ({
         [localize('MACD'), '1'],
         [localize('Signal'), '2'],
     ],
+    stochasticFields: [
+        [localize('%K'), '0'],
+        [localize('%D'), '1'],
+    ],
+    adxFields: [
+        [localize('ADX'), '0'],
+        [localize('+DI'), '1'],
+        [localize('-DI'), '2'],
+    ],
+    channelResult: [
+        [localize('upper'), '1'],
+        [localize('middle'), '0'],
+        [localize('lower'), '2'],
+    ],
     GOOGLE_DRIVE: {
         SCOPE: 'https://www.googleapis.com/auth/drive.file',
         DISCOVERY_DOCS: 'https://www.googleapis.com/discovery/v1/apis/drive/v3/rest',
@@ -331,6 +365,8 @@ export const config = () => ({
             size: 1,
             unit: 1,
             prediction: 0,
+            win_streak: 3,
+            line_length: 4,
         },
     },
 });
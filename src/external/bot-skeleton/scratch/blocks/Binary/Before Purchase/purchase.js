@@ -19,11 +19,21 @@ window.Blockly.Blocks.purchase = {
                     options: [['', '']],
                 },
             ],
+            message1: localize('on market {{ market }}', { market: '%1' }),
+            args1: [
+                {
+                    type: 'input_value',
+                    name: 'MARKET',
+                    check: 'String',
+                },
+            ],
             previousStatement: null,
             colour: window.Blockly.Colours.Special1.colour,
             colourSecondary: window.Blockly.Colours.Special1.colourSecondary,
             colourTertiary: window.Blockly.Colours.Special1.colourTertiary,
-            tooltip: localize('This block purchases contract of a specified type.'),
+            tooltip: localize(
+                "This block purchases contract of a specified type. Leave the market empty to trade the bot's own market."
+            ),
             category: window.Blockly.Categories.Before_Purchase,
         };
     },
@@ -31,7 +41,7 @@ window.Blockly.Blocks.purchase = {
         return {
             display_name: localize('Purchase'),
             description: localize(
-                'Use this block to purchase the specific contract you want. You may add multiple Purchase blocks together with conditional blocks to define your purchase conditions. This block can only be used within the Purchase conditions block.'
+                'Use this block to purchase the specific contract you want. You may add multiple Purchase blocks together with conditional blocks to define your purchase conditions. Give it a market symbol, such as R_50, to buy on another market than the one in your trade parameters. This block can only be used within the Purchase conditions block.'
             ),
             key_words: localize('buy'),
         };
@@ -85,7 +95,12 @@ window.Blockly.Blocks.purchase = {
 
 window.Blockly.JavaScript.javascriptGenerator.forBlock.purchase = block => {
     const purchaseList = block.getFieldValue('PURCHASE_LIST');
+    const market = window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+        block,
+        'MARKET',
+        window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+    );
 
-    const code = `Bot.purchase('${purchaseList}');\n`;
+    const code = market ? `Bot.purchase('${purchaseList}', ${market});\n` : `Bot.purchase('${purchaseList}');\n`;
     return code;
 };
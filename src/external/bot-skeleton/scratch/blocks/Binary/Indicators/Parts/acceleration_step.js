@@ -0,0 +1,37 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../../utils';
+
+window.Blockly.Blocks.acceleration_step = {
+    init() {
+        this.jsonInit({
+            message0: localize('Acceleration Step {{ input_number }}', { input_number: '%1' }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'ACCELERATION_STEP',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            previousStatement: null,
+            nextStatement: null,
+        });
+
+        this.setMovable(false);
+        this.setDeletable(false);
+    },
+    onchange: window.Blockly.Blocks.input_list.onchange,
+    allowed_parents: ['psar_statement', 'psara_statement'],
+    getRequiredValueInputs() {
+        return {
+            ACCELERATION_STEP: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.acceleration_step = () => {};
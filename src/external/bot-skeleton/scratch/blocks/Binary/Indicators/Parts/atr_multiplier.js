@@ -0,0 +1,37 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../../utils';
+
+window.Blockly.Blocks.atr_multiplier = {
+    init() {
+        this.jsonInit({
+            message0: localize('ATR Multiplier {{ input_number }}', { input_number: '%1' }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'ATR_MULTIPLIER',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            previousStatement: null,
+            nextStatement: null,
+        });
+
+        this.setMovable(false);
+        this.setDeletable(false);
+    },
+    onchange: window.Blockly.Blocks.input_list.onchange,
+    allowed_parents: ['keltner_statement', 'keltnera_statement'],
+    getRequiredValueInputs() {
+        return {
+            ATR_MULTIPLIER: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.atr_multiplier = () => {};
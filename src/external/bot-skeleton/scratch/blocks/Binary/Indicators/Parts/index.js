@@ -5,3 +5,8 @@ import './std_dev_multiplier_down';
 import './fast_ema_period';
 import './slow_ema_period';
 import './signal_ema_period';
+import './d_period';
+import './atr_period';
+import './atr_multiplier';
+import './acceleration_step';
+import './acceleration_max';
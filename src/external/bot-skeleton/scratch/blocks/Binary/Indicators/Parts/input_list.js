@@ -71,6 +71,22 @@ window.Blockly.Blocks.input_list = {
         'rsia_statement',
         'sma_statement',
         'smaa_statement',
+        'atr_statement',
+        'atra_statement',
+        'stoch_statement',
+        'stocha_statement',
+        'cci_statement',
+        'ccia_statement',
+        'willr_statement',
+        'willra_statement',
+        'adx_statement',
+        'adxa_statement',
+        'donchian_statement',
+        'donchiana_statement',
+        'keltner_statement',
+        'keltnera_statement',
+        'psar_statement',
+        'psara_statement',
     ],
     getRequiredValueInputs() {
         return {
@@ -36,6 +36,20 @@ window.Blockly.Blocks.period = {
         'rsia_statement',
         'sma_statement',
         'smaa_statement',
+        'atr_statement',
+        'atra_statement',
+        'stoch_statement',
+        'stocha_statement',
+        'cci_statement',
+        'ccia_statement',
+        'willr_statement',
+        'willra_statement',
+        'adx_statement',
+        'adxa_statement',
+        'donchian_statement',
+        'donchiana_statement',
+        'keltner_statement',
+        'keltnera_statement',
     ],
     getRequiredValueInputs() {
         return {
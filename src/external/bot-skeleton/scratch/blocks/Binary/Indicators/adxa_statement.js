@@ -0,0 +1,78 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.adxa_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'period'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Average Directional Index Array {{ line }} {{ dummy }}', {
+                variable: '%1',
+                line: '%2',
+                dummy: '%3',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'adxa',
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'ADXFIELDS_LIST',
+                    options: config().adxFields,
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize(
+                'Calculates Average Directional Index (ADX) and the directional indicators (+DI, -DI) list from a list of candles with a period'
+            ),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Average Directional Index Array (ADXA)'),
+            description: localize(
+                'This block is similar to ADX, except that it gives you the entire ADX, +DI or -DI line based on the input list and the given period.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.adxa_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const field = block.getFieldValue('ADXFIELDS_LIST');
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const period = block.childValueToCode('period', 'PERIOD');
+    const code = `${var_name} = Bot.adxa(${input}, ${period}, ${field});\n`;
+
+    return code;
+};
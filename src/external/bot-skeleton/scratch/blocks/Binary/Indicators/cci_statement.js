@@ -0,0 +1,68 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.cci_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'period'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Commodity Channel Index {{ dummy }}', {
+                variable: '%1',
+                dummy: '%2',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'cci',
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Calculates Commodity Channel Index (CCI) from a list of candles with a period'),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Commodity Channel Index (CCI)'),
+            description: localize(
+                'CCI measures how far the typical price, the average of high, low and close, is from its moving average relative to its usual deviation. Values above 100 suggest a strong upward move and values below -100 a strong downward move.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.cci_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const period = block.childValueToCode('period', 'PERIOD');
+    const code = `${var_name} = Bot.cci(${input}, ${period});\n`;
+
+    return code;
+};
@@ -0,0 +1,76 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.donchian_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'period'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Donchian Channels {{ band_type }} {{ dummy }}', {
+                variable: '%1',
+                band_type: '%2',
+                dummy: '%3',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'donchian',
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'CHANNELRESULT_LIST',
+                    options: config().channelResult,
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Calculates Donchian Channels from a list of candles with a period'),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Donchian Channels'),
+            description: localize(
+                'Donchian Channels mark the highest high (upper) and lowest low (lower) of the period, with the middle line halfway between them. A close outside the previous channel is often read as a breakout.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.donchian_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const field = block.getFieldValue('CHANNELRESULT_LIST');
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const period = block.childValueToCode('period', 'PERIOD');
+    const code = `${var_name} = Bot.donchian(${input}, ${period}, ${field});\n`;
+
+    return code;
+};
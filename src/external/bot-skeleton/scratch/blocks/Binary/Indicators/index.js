@@ -7,4 +7,20 @@ import './rsia_statement';
 import './sma_statement';
 import './smaa_statement';
 import './macda_statement';
+import './atr_statement';
+import './atra_statement';
+import './stoch_statement';
+import './stocha_statement';
+import './cci_statement';
+import './ccia_statement';
+import './willr_statement';
+import './willra_statement';
+import './adx_statement';
+import './adxa_statement';
+import './donchian_statement';
+import './donchiana_statement';
+import './keltner_statement';
+import './keltnera_statement';
+import './psar_statement';
+import './psara_statement';
 import './Parts';
@@ -0,0 +1,82 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.keltner_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'period', 'atr_period', 'atr_multiplier'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Keltner Channels {{ band_type }} {{ dummy }}', {
+                variable: '%1',
+                band_type: '%2',
+                dummy: '%3',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'keltner',
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'CHANNELRESULT_LIST',
+                    options: config().channelResult,
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Calculates Keltner Channels from a list of candles with a period'),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Keltner Channels'),
+            description: localize(
+                'Keltner Channels place bands a multiple of the Average True Range above and below an exponential moving average of the close. Prices outside the bands suggest an unusually strong move.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.keltner_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const field = block.getFieldValue('CHANNELRESULT_LIST');
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const period = block.childValueToCode('period', 'PERIOD');
+    const atr_period = block.childValueToCode('atr_period', 'ATR_PERIOD');
+    const multiplier = block.childValueToCode('atr_multiplier', 'ATR_MULTIPLIER');
+    const code = `${var_name} = Bot.keltner(${input}, { 
+        periods: ${period}, 
+        atrPeriods: ${atr_period}, 
+        multiplier: ${multiplier} 
+    }, ${field});\n`;
+
+    return code;
+};
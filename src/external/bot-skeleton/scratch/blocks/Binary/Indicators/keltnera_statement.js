@@ -0,0 +1,82 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.keltnera_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'period', 'atr_period', 'atr_multiplier'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Keltner Channels Array {{ band_type }} {{ dummy }}', {
+                variable: '%1',
+                band_type: '%2',
+                dummy: '%3',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'keltnera',
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'CHANNELRESULT_LIST',
+                    options: config().channelResult,
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Calculates Keltner Channels list from a list of candles with a period'),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Keltner Channels Array'),
+            description: localize(
+                'This block is similar to Keltner Channels, except that it gives you the entire upper, middle or lower line based on the input list and the given periods.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.keltnera_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const field = block.getFieldValue('CHANNELRESULT_LIST');
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const period = block.childValueToCode('period', 'PERIOD');
+    const atr_period = block.childValueToCode('atr_period', 'ATR_PERIOD');
+    const multiplier = block.childValueToCode('atr_multiplier', 'ATR_MULTIPLIER');
+    const code = `${var_name} = Bot.keltnera(${input}, { 
+        periods: ${period}, 
+        atrPeriods: ${atr_period}, 
+        multiplier: ${multiplier} 
+    }, ${field});\n`;
+
+    return code;
+};
@@ -0,0 +1,72 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.psar_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'acceleration_step', 'acceleration_max'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Parabolic SAR {{ dummy }}', {
+                variable: '%1',
+                dummy: '%2',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'psar',
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Calculates Parabolic SAR from a list of candles'),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Parabolic SAR'),
+            description: localize(
+                'Parabolic SAR trails the price with a stop that speeds up as the trend extends. When the price crosses it, the SAR flips to the other side, signalling a possible trend reversal.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.psar_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const step = block.childValueToCode('acceleration_step', 'ACCELERATION_STEP');
+    const max = block.childValueToCode('acceleration_max', 'ACCELERATION_MAX');
+    const code = `${var_name} = Bot.psar(${input}, { 
+        step: ${step}, 
+        max: ${max} 
+    });\n`;
+
+    return code;
+};
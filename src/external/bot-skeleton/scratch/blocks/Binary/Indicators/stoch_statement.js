@@ -0,0 +1,80 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.stoch_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'period', 'd_period'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Stochastic Oscillator {{ line }} {{ dummy }}', {
+                variable: '%1',
+                line: '%2',
+                dummy: '%3',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'stoch',
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'STOCHFIELDS_LIST',
+                    options: config().stochasticFields,
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Calculates the Stochastic Oscillator (%K and %D) from a list of candles with a period'),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Stochastic Oscillator'),
+            description: localize(
+                'The Stochastic Oscillator compares the latest close with the highest high and lowest low over the period. %K is that position as a percentage and %D is its moving average. Readings above 80 suggest the market is overbought and readings below 20 that it is oversold.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.stoch_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const field = block.getFieldValue('STOCHFIELDS_LIST');
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const period = block.childValueToCode('period', 'PERIOD');
+    const d_period = block.childValueToCode('d_period', 'D_PERIOD');
+    const code = `${var_name} = Bot.stoch(${input}, { 
+        periods: ${period},
+        dPeriods: ${d_period}
+    }, ${field});\n`;
+
+    return code;
+};
@@ -0,0 +1,82 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.stocha_statement = {
+    protected_statements: ['STATEMENT'],
+    required_child_blocks: ['input_list', 'period', 'd_period'],
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('set {{ variable }} to Stochastic Oscillator Array {{ line }} {{ dummy }}', {
+                variable: '%1',
+                line: '%2',
+                dummy: '%3',
+            }),
+            message1: '%1',
+            args0: [
+                {
+                    type: 'field_variable',
+                    name: 'VARIABLE',
+                    variable: 'stocha',
+                },
+                {
+                    type: 'field_dropdown',
+                    name: 'STOCHFIELDS_LIST',
+                    options: config().stochasticFields,
+                },
+                {
+                    type: 'input_dummy',
+                },
+            ],
+            args1: [
+                {
+                    type: 'input_statement',
+                    name: 'STATEMENT',
+                    check: null,
+                },
+            ],
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize(
+                'Calculates the Stochastic Oscillator (%K and %D) list from a list of candles with a period'
+            ),
+            previousStatement: null,
+            nextStatement: null,
+            category: window.Blockly.Categories.Indicators,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Stochastic Oscillator Array'),
+            description: localize(
+                'This block is similar to the Stochastic Oscillator, except that it gives you the entire %K or %D line based on the input list and the given periods.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+    onchange: window.Blockly.Blocks.bb_statement.onchange,
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.stocha_statement = block => {
+    // eslint-disable-next-line no-underscore-dangle
+    const var_name = window.Blockly.JavaScript.variableDB_.getName(
+        block.getFieldValue('VARIABLE'),
+        window.Blockly.Variables.CATEGORY_NAME
+    );
+    const field = block.getFieldValue('STOCHFIELDS_LIST');
+    const input = block.childValueToCode('input_list', 'INPUT_LIST');
+    const period = block.childValueToCode('period', 'PERIOD');
+    const d_period = block.childValueToCode('d_period', 'D_PERIOD');
+    const code = `${var_name} = Bot.stocha(${input}, { 
+        periods: ${period},
+        dPeriods: ${d_period}
+    }, ${field});\n`;
+
+    return code;
+};
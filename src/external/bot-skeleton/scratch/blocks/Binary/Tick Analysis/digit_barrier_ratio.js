@@ -0,0 +1,83 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.digit_barrier_ratio = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize(
+                'Percentage of digits {{ direction }} {{ barrier }} in the last {{ tick_count }} ticks',
+                {
+                    direction: '%1',
+                    barrier: '%2',
+                    tick_count: '%3',
+                }
+            ),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'DIGIT_DIRECTION',
+                    options: config().lists.DIGIT_DIRECTION,
+                },
+                {
+                    type: 'input_value',
+                    name: 'BARRIER',
+                    check: 'Number',
+                },
+                {
+                    type: 'input_value',
+                    name: 'COUNT',
+                    check: 'Number',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize(
+                'Returns the share of recent ticks whose last digit is over or under a barrier, in percent'
+            ),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Over/under ratio'),
+            description: localize(
+                'This block gives you the percentage of recent ticks (up to 1000) whose last digit is strictly over or under the barrier, the way Over/Under contracts are settled.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            BARRIER: null,
+            COUNT: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.digit_barrier_ratio = block => {
+    const direction = block.getFieldValue('DIGIT_DIRECTION');
+    const barrier =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'BARRIER',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '5';
+    const count =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'COUNT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.getDigitBarrierRatio({ direction: '${direction}', barrier: ${barrier}, count: ${count} })`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
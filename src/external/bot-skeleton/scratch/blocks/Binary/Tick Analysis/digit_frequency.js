@@ -0,0 +1,70 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.digit_frequency = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Percentage of last digit {{ digit }} in the last {{ tick_count }} ticks', {
+                digit: '%1',
+                tick_count: '%2',
+            }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'DIGIT',
+                    check: 'Number',
+                },
+                {
+                    type: 'input_value',
+                    name: 'COUNT',
+                    check: 'Number',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns how often a digit appeared as the last digit of recent ticks, in percent'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Digit frequency'),
+            description: localize(
+                'This block gives you the percentage of recent ticks (up to 1000) whose last digit is the given digit.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            DIGIT: null,
+            COUNT: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.digit_frequency = block => {
+    const digit =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'DIGIT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '0';
+    const count =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'COUNT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.getDigitFrequency({ digit: ${digit}, count: ${count} })`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -0,0 +1,65 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.digit_parity_ratio = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Percentage of {{ parity }} digits in the last {{ tick_count }} ticks', {
+                parity: '%1',
+                tick_count: '%2',
+            }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'DIGIT_PARITY',
+                    options: config().lists.DIGIT_PARITY,
+                },
+                {
+                    type: 'input_value',
+                    name: 'COUNT',
+                    check: 'Number',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the share of recent ticks with an even or odd last digit, in percent'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Even/odd ratio'),
+            description: localize(
+                'This block gives you the percentage of recent ticks (up to 1000) whose last digit is even or odd.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            COUNT: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.digit_parity_ratio = block => {
+    const parity = block.getFieldValue('DIGIT_PARITY');
+    const count =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'COUNT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.getDigitParityRatio({ parity: '${parity}', count: ${count} })`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
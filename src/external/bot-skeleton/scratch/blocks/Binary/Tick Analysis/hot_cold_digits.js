@@ -0,0 +1,67 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.hot_cold_digits = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('{{ zone }} digits in the last {{ tick_count }} ticks', {
+                zone: '%1',
+                tick_count: '%2',
+            }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'DIGIT_ZONE',
+                    options: config().lists.DIGIT_ZONE,
+                },
+                {
+                    type: 'input_value',
+                    name: 'COUNT',
+                    check: 'Number',
+                },
+            ],
+            output: 'Array',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize(
+                'Returns the digits appearing in at least 15% (hot) or at most 5% (cold) of recent ticks'
+            ),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Hot/cold digits'),
+            description: localize(
+                'This block gives you a list of hot digits (15% of recent ticks or more, most frequent first) or cold digits (5% or less, least frequent first). The list is empty when no digit qualifies.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            COUNT: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.hot_cold_digits = block => {
+    const zone = block.getFieldValue('DIGIT_ZONE');
+    const count =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'COUNT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '100';
+
+    const code = `Bot.getHotColdDigits({ zone: '${zone}', count: ${count} })`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
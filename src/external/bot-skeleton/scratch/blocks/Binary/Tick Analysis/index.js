@@ -10,3 +10,13 @@ import './last_digit';
 import './lastDigitList';
 import './stat';
 import './stat_list';
+import './digit_frequency';
+import './hot_cold_digits';
+import './digit_streak';
+import './ticks_since_digit';
+import './digit_parity_ratio';
+import './digit_barrier_ratio';
+import './market_tick';
+import './market_last_digit';
+import './market_last_digit_list';
+import './market_list';
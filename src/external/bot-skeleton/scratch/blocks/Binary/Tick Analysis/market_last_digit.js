@@ -0,0 +1,55 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.market_last_digit = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Last digit of {{ market }}', { market: '%1' }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'MARKET',
+                    check: 'String',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the last digit of the latest tick of a market'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Last digit of market'),
+            description: localize(
+                'This block gives you the last digit of the latest tick value of the given market, such as R_50, whichever market the bot trades.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            MARKET: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.market_last_digit = block => {
+    const market =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'MARKET',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || 'undefined';
+
+    const code = `Bot.getLastDigit(${market})`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
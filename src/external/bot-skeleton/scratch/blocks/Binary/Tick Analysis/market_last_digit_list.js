@@ -0,0 +1,55 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.market_last_digit_list = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Last digits list of {{ market }}', { market: '%1' }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'MARKET',
+                    check: 'String',
+                },
+            ],
+            output: 'Array',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the list of last digits of 1000 recent tick values of a market'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Last digits list of market'),
+            description: localize(
+                'This block gives you a list of the last digits of the last 1000 tick values of the given market, such as R_50.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            MARKET: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.market_last_digit_list = block => {
+    const market =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'MARKET',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || 'undefined';
+
+    const code = `Bot.getLastDigitList(${market})`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
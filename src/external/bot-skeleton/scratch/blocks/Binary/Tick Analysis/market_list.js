@@ -0,0 +1,47 @@
+import { localize } from '@deriv-com/translations';
+import { config } from '../../../../constants/config';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.market_list = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Markets: {{ market_group }}', { market_group: '%1' }),
+            args0: [
+                {
+                    type: 'field_dropdown',
+                    name: 'MARKET_GROUP',
+                    options: config().lists.MARKET_GROUPS,
+                },
+            ],
+            output: 'Array',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the list of market symbols in a group'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Market list'),
+            description: localize(
+                'This block gives you the symbols of a group of markets, such as R_10 to R_100, to loop over with the market tick blocks and the Purchase block.'
+            ),
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.market_list = block => {
+    const market_group = block.getFieldValue('MARKET_GROUP');
+    const symbols = config().market_groups[market_group] ?? [];
+
+    const code = `[${symbols.map(symbol => `'${symbol}'`).join(', ')}]`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -0,0 +1,55 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.market_tick = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Last tick of {{ market }}', { market: '%1' }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'MARKET',
+                    check: 'String',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns the latest tick value of a market'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Last tick of market'),
+            description: localize(
+                'This block gives you the latest tick value of the given market, such as R_50, whichever market the bot trades.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            MARKET: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.market_tick = block => {
+    const market =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'MARKET',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || 'undefined';
+
+    const code = `Bot.getLastTick(false, false, ${market})`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
@@ -0,0 +1,55 @@
+import { localize } from '@deriv-com/translations';
+import { modifyContextMenu } from '../../../utils';
+
+window.Blockly.Blocks.ticks_since_digit = {
+    init() {
+        this.jsonInit(this.definition());
+    },
+    definition() {
+        return {
+            message0: localize('Ticks since last digit {{ digit }}', { digit: '%1' }),
+            args0: [
+                {
+                    type: 'input_value',
+                    name: 'DIGIT',
+                    check: 'Number',
+                },
+            ],
+            output: 'Number',
+            outputShape: window.Blockly.OUTPUT_SHAPE_ROUND,
+            colour: window.Blockly.Colours.Base.colour,
+            colourSecondary: window.Blockly.Colours.Base.colourSecondary,
+            colourTertiary: window.Blockly.Colours.Base.colourTertiary,
+            tooltip: localize('Returns how many ticks ago a digit was last seen as the last digit'),
+            category: window.Blockly.Categories.Tick_Analysis,
+        };
+    },
+    meta() {
+        return {
+            display_name: localize('Ticks since digit'),
+            description: localize(
+                'This block gives you the number of ticks since the given digit was last seen as the last digit: 0 when the latest tick ends with it, and -1 when it is not among the last 1000 ticks.'
+            ),
+        };
+    },
+    getRequiredValueInputs() {
+        return {
+            DIGIT: null,
+        };
+    },
+    customContextMenu(menu) {
+        modifyContextMenu(menu);
+    },
+};
+
+window.Blockly.JavaScript.javascriptGenerator.forBlock.ticks_since_digit = block => {
+    const digit =
+        window.Blockly.JavaScript.javascriptGenerator.valueToCode(
+            block,
+            'DIGIT',
+            window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC
+        ) || '0';
+
+    const code = `Bot.getTicksSinceDigit({ digit: ${digit} })`;
+    return [code, window.Blockly.JavaScript.javascriptGenerator.ORDER_ATOMIC];
+};
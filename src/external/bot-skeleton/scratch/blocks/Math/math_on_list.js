@@ -62,6 +62,9 @@ window.Blockly.Blocks.math_on_list = {
             'ticks',
             'lists_repeat',
             'lastDigitList',
+            'hot_cold_digits',
+            'market_last_digit_list',
+            'market_list',
             'ohlc_values_in_list',
             'procedures_callreturn',
         ];
@@ -232,6 +232,7 @@ export const load = async ({
         });
         if (workspace === window.Blockly.derivWorkspace) {
             globalObserver.emit('ui.log.success', { log_type: LogTypes.LOAD_BLOCK });
+            globalObserver.emit('bot.strategy_loaded');
         }
     } catch (e) {
         console.error(e); // eslint-disable-line
@@ -76,6 +76,9 @@ export default class TicksService {
 
             if (style === 'ticks' && this.ticks.has(symbol)) {
                 resolve(this.ticks.get(symbol));
+                // A live stream keeps the cache current, and requesting it again would resubscribe
+                // whenever a bot reads several markets in turn
+                if (this.subscriptions.hasIn(['tick', symbol])) return;
             }
 
             if (style === 'candles' && this.candles.hasIn([symbol, Number(granularity)])) {
@@ -326,6 +329,7 @@ export default class TicksService {
                 })
                 .catch(reject);
             this.ticks_history_promise = null;
+            this.subscriptions = this.subscriptions.delete('tick');
         });
     }
 }
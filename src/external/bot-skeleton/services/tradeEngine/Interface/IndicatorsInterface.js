@@ -1,13 +1,29 @@
 import {
+    averageDirectionalIndex as adx,
+    averageDirectionalIndexArray as adxa,
+    averageTrueRange as atr,
+    averageTrueRangeArray as atra,
     bollingerBands as bb,
     bollingerBandsArray as bba,
+    commodityChannelIndex as cci,
+    commodityChannelIndexArray as ccia,
+    donchianChannels as donchian,
+    donchianChannelsArray as donchiana,
     exponentialMovingAverage as ema,
     exponentialMovingAverageArray as emaa,
+    keltnerChannels as keltner,
+    keltnerChannelsArray as keltnera,
     macdArray as macda,
+    parabolicSar as psar,
+    parabolicSarArray as psara,
     relativeStrengthIndex as rsi,
     relativeStrengthIndexArray as rsia,
     simpleMovingAverage as sma,
     simpleMovingAverageArray as smaa,
+    stochasticOscillator as stoch,
+    stochasticOscillatorArray as stocha,
+    williamsPercentRange as willr,
+    williamsPercentRangeArray as willra,
 } from '@/external/indicators/index';
 
 const decorate = (f, input, tradeEngine, config, ...args) => {
@@ -26,6 +42,22 @@ const getIndicatorsInterface = tradeEngine => {
         bb: (input, config, field) => decorate(bb, input, tradeEngine, config)[field],
         bba: (input, config, field) => decorate(bba, input, tradeEngine, config).map(r => r[field]),
         macda: (input, config, field) => decorate(macda, input, tradeEngine, config).map(r => r[field]),
+        atr: (input, periods) => decorate(atr, input, tradeEngine, { periods }),
+        atra: (input, periods) => decorate(atra, input, tradeEngine, { periods }),
+        stoch: (input, config, field) => decorate(stoch, input, tradeEngine, config)[field],
+        stocha: (input, config, field) => decorate(stocha, input, tradeEngine, config).map(r => r[field]),
+        cci: (input, periods) => decorate(cci, input, tradeEngine, { periods }),
+        ccia: (input, periods) => decorate(ccia, input, tradeEngine, { periods }),
+        willr: (input, periods) => decorate(willr, input, tradeEngine, { periods }),
+        willra: (input, periods) => decorate(willra, input, tradeEngine, { periods }),
+        adx: (input, periods, field) => decorate(adx, input, tradeEngine, { periods })[field],
+        adxa: (input, periods, field) => decorate(adxa, input, tradeEngine, { periods }).map(r => r[field]),
+        donchian: (input, periods, field) => decorate(donchian, input, tradeEngine, { periods })[field],
+        donchiana: (input, periods, field) => decorate(donchiana, input, tradeEngine, { periods }).map(r => r[field]),
+        keltner: (input, config, field) => decorate(keltner, input, tradeEngine, config)[field],
+        keltnera: (input, config, field) => decorate(keltnera, input, tradeEngine, config).map(r => r[field]),
+        psar: (input, config) => decorate(psar, input, tradeEngine, config),
+        psara: (input, config) => decorate(psara, input, tradeEngine, config),
     };
 };
 
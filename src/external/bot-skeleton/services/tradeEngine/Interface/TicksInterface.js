@@ -10,6 +10,12 @@ const getTicksInterface = tradeEngine => {
         getOhlcFromEnd: (...args) => tradeEngine.getOhlcFromEnd(...args),
         getOhlc: (...args) => tradeEngine.getOhlc(...args),
         getLastDigitList: (...args) => tradeEngine.getLastDigitList(...args),
+        getDigitFrequency: (...args) => tradeEngine.getDigitFrequency(...args),
+        getHotColdDigits: (...args) => tradeEngine.getHotColdDigits(...args),
+        getDigitStreak: (...args) => tradeEngine.getDigitStreak(...args),
+        getTicksSinceDigit: (...args) => tradeEngine.getTicksSinceDigit(...args),
+        getDigitParityRatio: (...args) => tradeEngine.getDigitParityRatio(...args),
+        getDigitBarrierRatio: (...args) => tradeEngine.getDigitBarrierRatio(...args),
     };
 };
 
@@ -10,12 +10,23 @@ let purchase_reference;
 
 export default Engine =>
     class Purchase extends Engine {
-        purchase(contract_type) {
+        purchase(contract_type, market) {
             // Prevent calling purchase twice
             if (this.store.getState().scope !== BEFORE_PURCHASE) {
                 return Promise.resolve();
             }
 
+            // Proposals are only subscribed for the bot's own market, so other markets are bought directly
+            let symbol = this.tradeOptions.symbol;
+            if (market) {
+                try {
+                    symbol = this.resolveSymbol(market);
+                } catch (error) {
+                    return Promise.reject(error);
+                }
+            }
+            const is_trade_market = symbol === this.tradeOptions.symbol;
+
             const onSuccess = response => {
                 // Don't unnecessarily send a forget request for a purchased contract.
                 const { buy } = response;
@@ -41,10 +52,11 @@ export default Engine =>
                     transaction_ids: { buy: buy.transaction_id },
                     contract_type,
                     buy_price: buy.buy_price,
+                    symbol,
                 });
             };
 
-            if (this.is_proposal_subscription_required) {
+            if (this.is_proposal_subscription_required && is_trade_market) {
                 const { id, askPrice } = this.selectProposal(contract_type);
 
                 const action = () => api_base.api.send({ buy: id, price: askPrice });
@@ -82,7 +94,7 @@ export default Engine =>
                     delayIndex++
                 ).then(onSuccess);
             }
-            const trade_option = tradeOptionToBuy(contract_type, this.tradeOptions);
+            const trade_option = tradeOptionToBuy(contract_type, { ...this.tradeOptions, symbol });
             const action = () => api_base.api.send(trade_option);
 
             this.isSold = false;
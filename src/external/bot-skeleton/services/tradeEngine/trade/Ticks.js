@@ -1,7 +1,18 @@
 /* eslint-disable no-promise-executor-return */
 import debounce from 'lodash.debounce';
+import {
+    getBarrierPercentage,
+    getColdDigits,
+    getCurrentStreak,
+    getDigitPercentages,
+    getHotDigits,
+    getParityPercentage,
+    getTicksSinceDigit,
+    takeRecentDigits,
+} from '@/utils/digit-distribution';
 import { localize } from '@deriv-com/translations';
 import { getLast } from '../../../utils/binary-utils';
+import { createError } from '../../../utils/error';
 import { observer as globalObserver } from '../../../utils/observer';
 import { api_base } from '../../api/api-base';
 import { getDirection, getLastDigit } from '../utils/helpers';
@@ -39,12 +50,26 @@ export default Engine =>
             return this.$scope.ticksService.ticks_history_promise;
         }
 
-        getTicks(toString = false) {
+        // Tick blocks read the bot's own market unless they're given another one
+        resolveSymbol(symbol) {
+            if (!symbol || symbol === this.symbol) {
+                return this.symbol;
+            }
+
+            const { pipSizes } = this.$scope.ticksService;
+            if (pipSizes && !(symbol in pipSizes)) {
+                throw createError('InvalidSymbol', localize('Unknown market: {{ symbol }}', { symbol }));
+            }
+            return symbol;
+        }
+
+        getTicks(toString = false, symbol) {
             return new Promise(resolve => {
-                this.$scope.ticksService.request({ symbol: this.symbol }).then(ticks => {
+                const ticks_symbol = this.resolveSymbol(symbol);
+                this.$scope.ticksService.request({ symbol: ticks_symbol }).then(ticks => {
                     const ticks_list = ticks.map(tick => {
                         if (toString) {
-                            return tick.quote.toFixed(this.getPipSize());
+                            return tick.quote.toFixed(this.getPipSize(ticks_symbol));
                         }
                         return tick.quote;
                     });
@@ -54,14 +79,15 @@ export default Engine =>
             });
         }
 
-        getLastTick(raw, toString = false) {
-            return new Promise(resolve =>
+        getLastTick(raw, toString = false, symbol) {
+            return new Promise(resolve => {
+                const ticks_symbol = this.resolveSymbol(symbol);
                 this.$scope.ticksService
-                    .request({ symbol: this.symbol })
+                    .request({ symbol: ticks_symbol })
                     .then(ticks => {
                         let last_tick = raw ? getLast(ticks) : getLast(ticks).quote;
                         if (!raw && toString) {
-                            last_tick = last_tick.toFixed(this.getPipSize());
+                            last_tick = last_tick.toFixed(this.getPipSize(ticks_symbol));
                         }
                         resolve(last_tick);
                     })
@@ -70,24 +96,79 @@ export default Engine =>
                             globalObserver.emit('Error', e);
                             resolve(e.code);
                         }
-                    })
-            );
+                    });
+            });
         }
 
-        getLastDigit() {
-            return new Promise(resolve => this.getLastTick(false, true).then(tick => resolve(getLastDigit(tick))));
+        getLastDigit(symbol) {
+            return new Promise((resolve, reject) =>
+                this.getLastTick(false, true, symbol)
+                    .then(tick => resolve(getLastDigit(tick)))
+                    .catch(reject)
+            );
         }
 
-        getLastDigitList() {
-            return new Promise(resolve => this.getTicks().then(ticks => resolve(this.getLastDigitsFromList(ticks))));
+        getLastDigitList(symbol) {
+            return new Promise((resolve, reject) =>
+                this.getTicks(false, symbol)
+                    .then(ticks => resolve(this.getLastDigitsFromList(ticks, this.resolveSymbol(symbol))))
+                    .catch(reject)
+            );
         }
-        getLastDigitsFromList(ticks) {
+        getLastDigitsFromList(ticks, symbol) {
             const digits = ticks.map(tick => {
-                return getLastDigit(tick.toFixed(this.getPipSize()));
+                return getLastDigit(tick.toFixed(this.getPipSize(symbol)));
             });
             return digits;
         }
 
+        async getRecentDigits(count, symbol) {
+            const digits = await this.getLastDigitList(symbol);
+            if (count === undefined) return digits;
+
+            const tick_count = expectPositiveInteger(
+                Number(count),
+                localize('Number of ticks must be a positive integer')
+            );
+            return takeRecentDigits(digits, tick_count);
+        }
+
+        async getDigitFrequency(args) {
+            const { digit, count, symbol } = args || {};
+            const digits = await this.getRecentDigits(count, symbol);
+            return getDigitPercentages(digits)[Number(digit)] ?? 0;
+        }
+
+        async getHotColdDigits(args) {
+            const { zone = 'hot', count, symbol } = args || {};
+            const digits = await this.getRecentDigits(count, symbol);
+            return zone === 'cold' ? getColdDigits(digits) : getHotDigits(digits);
+        }
+
+        async getDigitStreak(args) {
+            const { symbol } = args || {};
+            const digits = await this.getLastDigitList(symbol);
+            return getCurrentStreak(digits).length;
+        }
+
+        async getTicksSinceDigit(args) {
+            const { digit, symbol } = args || {};
+            const digits = await this.getLastDigitList(symbol);
+            return getTicksSinceDigit(digits, Number(digit));
+        }
+
+        async getDigitParityRatio(args) {
+            const { parity = 'even', count, symbol } = args || {};
+            const digits = await this.getRecentDigits(count, symbol);
+            return getParityPercentage(digits, parity);
+        }
+
+        async getDigitBarrierRatio(args) {
+            const { direction = 'over', barrier, count, symbol } = args || {};
+            const digits = await this.getRecentDigits(count, symbol);
+            return getBarrierPercentage(digits, direction, Number(barrier));
+        }
+
         checkDirection(dir) {
             return new Promise(resolve =>
                 this.$scope.ticksService
@@ -114,8 +195,8 @@ export default Engine =>
             return new Promise(resolve => this.getOhlc(args).then(ohlc => resolve(ohlc.slice(-index)[0])));
         }
 
-        getPipSize() {
-            return this.$scope.ticksService.pipSizes[this.symbol];
+        getPipSize(symbol = this.symbol) {
+            return this.$scope.ticksService.pipSizes[symbol];
         }
 
         async requestAccumulatorStats() {
@@ -0,0 +1,80 @@
+import { api_base } from '../../../api/api-base';
+import Purchase from '../Purchase';
+import { BEFORE_PURCHASE } from '../state/constants';
+import Ticks from '../Ticks';
+
+jest.mock('../../../api/api-base', () => ({
+    api_base: { api: { send: jest.fn() } },
+}));
+
+const PurchaseEngine = Purchase(Ticks(class {}));
+
+const buy = { contract_id: 1, transaction_id: 2, longcode: 'Win payout', buy_price: 1 };
+
+const createEngine = () => {
+    const engine = new PurchaseEngine();
+    engine.symbol = 'R_100';
+    engine.$scope = { ticksService: { pipSizes: { R_100: 2, R_10: 3 } } };
+    engine.store = { getState: () => ({ scope: BEFORE_PURCHASE }), dispatch: jest.fn(), subscribe: jest.fn() };
+    engine.options = { timeMachineEnabled: false };
+    engine.accountInfo = { loginid: 'CR1' };
+    engine.tradeOptions = {
+        symbol: 'R_100',
+        amount: 1,
+        basis: 'stake',
+        currency: 'USD',
+        duration: 1,
+        duration_unit: 't',
+        prediction: 5,
+    };
+    engine.is_proposal_subscription_required = true;
+    engine.selectProposal = jest.fn(() => ({ id: 'proposal_1', askPrice: 1 }));
+    engine.renewProposalsOnPurchase = jest.fn();
+    engine.updateAndReturnTotalRuns = jest.fn(() => 1);
+    return engine;
+};
+
+describe('Purchase markets', () => {
+    beforeEach(() => {
+        api_base.api.send.mockResolvedValue({ buy });
+    });
+
+    it("buys the bot's own market from its proposal", async () => {
+        const engine = createEngine();
+
+        await engine.purchase('DIGITOVER');
+
+        expect(api_base.api.send).toHaveBeenCalledWith({ buy: 'proposal_1', price: 1 });
+        expect(engine.contractId).toBe(1);
+    });
+
+    it('buys another market directly with the trade options', async () => {
+        const engine = createEngine();
+
+        await engine.purchase('DIGITOVER', 'R_10');
+
+        expect(engine.selectProposal).not.toHaveBeenCalled();
+        expect(api_base.api.send).toHaveBeenCalledWith({
+            buy: '1',
+            price: 1,
+            parameters: expect.objectContaining({
+                amount: 1,
+                basis: 'stake',
+                contract_type: 'DIGITOVER',
+                currency: 'USD',
+                duration: 1,
+                duration_unit: 't',
+                symbol: 'R_10',
+                barrier: 5,
+            }),
+        });
+        expect(engine.contractId).toBe(1);
+    });
+
+    it('rejects an unknown market without buying', async () => {
+        const engine = createEngine();
+
+        await expect(engine.purchase('DIGITOVER', 'NOT_A_MARKET')).rejects.toMatchObject({ code: 'InvalidSymbol' });
+        expect(api_base.api.send).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,48 @@
+import Ticks from '../Ticks';
+
+jest.mock('../../../api/api-base', () => ({
+    api_base: { api: { send: jest.fn() } },
+}));
+
+const TicksEngine = Ticks(class {});
+
+const createEngine = () => {
+    const engine = new TicksEngine();
+    engine.symbol = 'R_100';
+    engine.$scope = {
+        ticksService: {
+            pipSizes: { R_100: 2, R_10: 3 },
+            request: jest.fn(({ symbol }) =>
+                Promise.resolve(symbol === 'R_10' ? [{ quote: 6123.45 }, { quote: 6123.457 }] : [{ quote: 801.2 }])
+            ),
+        },
+    };
+    return engine;
+};
+
+describe('Ticks markets', () => {
+    it("falls back to the bot's own market", () => {
+        const engine = createEngine();
+
+        expect(engine.resolveSymbol()).toBe('R_100');
+        expect(engine.resolveSymbol('R_100')).toBe('R_100');
+    });
+
+    it('resolves another known market', () => {
+        expect(createEngine().resolveSymbol('R_10')).toBe('R_10');
+    });
+
+    it('rejects a market without a pip size', () => {
+        expect(() => createEngine().resolveSymbol('NOT_A_MARKET')).toThrow(
+            expect.objectContaining({ code: 'InvalidSymbol' })
+        );
+    });
+
+    it('reads digits from the requested market at its pip size', async () => {
+        const engine = createEngine();
+
+        await expect(engine.getLastDigitList('R_10')).resolves.toEqual([0, 7]);
+        await expect(engine.getLastDigit()).resolves.toBe(0);
+        expect(engine.$scope.ticksService.request.mock.calls.map(([{ symbol }]) => symbol)).toEqual(['R_10', 'R_100']);
+    });
+});
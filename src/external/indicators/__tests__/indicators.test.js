@@ -0,0 +1,188 @@
+import {
+    averageDirectionalIndex,
+    averageDirectionalIndexArray,
+    averageTrueRange,
+    averageTrueRangeArray,
+    commodityChannelIndex,
+    commodityChannelIndexArray,
+    donchianChannels,
+    donchianChannelsArray,
+    keltnerChannels,
+    keltnerChannelsArray,
+    parabolicSar,
+    parabolicSarArray,
+    stochasticOscillator,
+    stochasticOscillatorArray,
+    williamsPercentRange,
+    williamsPercentRangeArray,
+} from '../index';
+
+// Reference values below were produced independently from the textbook definitions
+// (Wilder smoothing for ATR/ADX/SAR, 0.015 constant for CCI, SMA of %K for %D)
+const candles = [
+    [99.6, 100.3, 99.35, 100.0],
+    [100.0, 101.2, 99.65, 100.8],
+    [100.8, 101.8, 100.35, 101.3],
+    [101.3, 101.6, 100.35, 100.9],
+    [100.9, 102.1, 100.65, 101.7],
+    [101.7, 102.9, 101.35, 102.4],
+    [102.4, 102.7, 101.65, 102.1],
+    [102.1, 103.4, 101.55, 103.0],
+    [103.0, 104.1, 102.75, 103.6],
+    [103.6, 103.9, 102.85, 103.2],
+    [103.2, 103.6, 102.05, 102.5],
+    [102.5, 103.0, 101.35, 101.9],
+    [101.9, 102.9, 101.65, 102.6],
+    [102.6, 103.8, 102.25, 103.4],
+    [103.4, 104.6, 102.95, 104.1],
+    [104.1, 105.1, 103.55, 104.8],
+    [104.8, 105.2, 104.05, 104.3],
+    [104.3, 104.8, 103.35, 103.7],
+    [103.7, 104.0, 102.65, 103.1],
+    [103.1, 103.5, 101.85, 102.4],
+    [102.4, 102.9, 101.55, 101.8],
+    [101.8, 102.6, 101.45, 102.3],
+    [102.3, 103.4, 101.85, 103.0],
+    [103.0, 104.0, 102.45, 103.5],
+    [103.5, 104.5, 103.25, 104.2],
+    [104.2, 105.3, 103.85, 104.9],
+    [104.9, 105.8, 104.45, 105.3],
+    [105.3, 105.6, 104.15, 104.7],
+    [104.7, 106.0, 104.45, 105.6],
+    [105.6, 106.7, 105.25, 106.2],
+].map(([open, high, low, close], i) => ({ open, high, low, close, epoch: 1700000000 + i * 60 }));
+
+const ticks = [5, 6, 8, 7, 9, 12, 11, 10, 13, 12];
+
+describe('Average True Range', () => {
+    test('matches reference values', () => {
+        const atr = averageTrueRangeArray(candles, { periods: 14, pipSize: 4 });
+
+        expect(atr).toHaveLength(candles.length - 14);
+        expect(atr.slice(0, 3)).toEqual([1.4429, 1.4505, 1.429]);
+        expect(atr.slice(-2)).toEqual([1.4285, 1.43]);
+        expect(averageTrueRange(candles, { periods: 14, pipSize: 4 })).toBe(1.43);
+    });
+
+    test('uses tick-to-tick moves for a plain list of values', () => {
+        // |6-5|, |8-6|, |7-8| -> 4/3, then (4/3 * 2 + |9-7|) / 3
+        expect(averageTrueRangeArray(ticks.slice(0, 5), { periods: 3, pipSize: 4 })).toEqual([1.3333, 1.5556]);
+    });
+
+    test('needs one more candle than its period', () => {
+        expect(() => averageTrueRange(candles.slice(0, 14), { periods: 14 })).toThrow(
+            'Periods longer than data length'
+        );
+    });
+});
+
+describe('Stochastic Oscillator', () => {
+    test('matches reference %K and %D', () => {
+        const stoch = stochasticOscillatorArray(candles, { periods: 14, dPeriods: 3, pipSize: 4 });
+
+        expect(stoch).toHaveLength(candles.length - 15);
+        expect(stoch.slice(-3)).toEqual([
+            [74.7126, 84.2763],
+            [91.2088, 84.8091],
+            [90.4762, 85.4659],
+        ]);
+        expect(stochasticOscillator(candles, { periods: 14, dPeriods: 3, pipSize: 4 })).toEqual([90.4762, 85.4659]);
+    });
+
+    test('reads a list of values as closes', () => {
+        // Last 5 ticks: 12, 11, 10, 13, 12 -> (12 - 10) / (13 - 10)
+        expect(stochasticOscillator(ticks, { periods: 5, dPeriods: 1, pipSize: 4 })[0]).toBe(66.6667);
+        expect(stochasticOscillator([3, 3, 3], { periods: 3, dPeriods: 1 })).toEqual([50, 50]);
+    });
+});
+
+describe('Commodity Channel Index', () => {
+    test('matches reference values', () => {
+        const cci = commodityChannelIndexArray(candles, { periods: 20, pipSize: 4 });
+
+        expect(cci).toEqual([
+            2.7709, -42.6437, -49.9051, -5.2957, 37.0106, 91.1765, 141.471, 164.0141, 114.2384, 133.627, 155.266,
+        ]);
+        expect(commodityChannelIndex(candles, { periods: 20, pipSize: 4 })).toBe(155.266);
+        expect(commodityChannelIndex([4, 4, 4, 4], { periods: 4 })).toBe(0);
+    });
+});
+
+describe('Williams %R', () => {
+    test('matches reference values', () => {
+        const willr = williamsPercentRangeArray(candles, { periods: 14, pipSize: 4 });
+
+        expect(willr).toHaveLength(candles.length - 13);
+        expect(willr.slice(-3)).toEqual([-25.2874, -8.7912, -9.5238]);
+        expect(williamsPercentRange(candles, { periods: 14, pipSize: 4 })).toBe(-9.5238);
+    });
+
+    test('spans -100 to 0 for a list of values', () => {
+        expect(williamsPercentRange([1, 3, 2], { periods: 3 })).toBe(-50);
+        expect(williamsPercentRange([1, 3, 1], { periods: 3 })).toBe(-100);
+        expect(williamsPercentRange([1, 2, 3], { periods: 3 })).toBe(0);
+    });
+});
+
+describe('Average Directional Index', () => {
+    test('matches reference ADX, +DI and -DI', () => {
+        const adx = averageDirectionalIndexArray(candles, { periods: 14, pipSize: 4 });
+
+        expect(adx).toEqual([
+            [36.8693, 25.4375, 11.3256],
+            [37.2228, 25.4661, 10.4478],
+            [37.9457, 27.1181, 9.6911],
+        ]);
+        expect(averageDirectionalIndex(candles, { periods: 14, pipSize: 4 })).toEqual([37.9457, 27.1181, 9.6911]);
+    });
+
+    test('needs twice its period in candles', () => {
+        expect(() => averageDirectionalIndex(candles.slice(0, 27), { periods: 14 })).toThrow();
+        expect(averageDirectionalIndexArray(candles.slice(0, 28), { periods: 14 })).toHaveLength(1);
+    });
+});
+
+describe('Donchian Channels', () => {
+    test('returns middle, upper and lower like Bollinger Bands', () => {
+        expect(donchianChannels(candles, { periods: 20, pipSize: 4 })).toEqual([104.025, 106.7, 101.35]);
+        expect(donchianChannelsArray(candles, { periods: 20 })).toHaveLength(11);
+        expect(donchianChannels(ticks, { periods: 4 })).toEqual([11.5, 13, 10]);
+    });
+});
+
+describe('Keltner Channels', () => {
+    test('matches reference values', () => {
+        const config = { periods: 20, atrPeriods: 10, multiplier: 2, pipSize: 4 };
+
+        expect(keltnerChannelsArray(candles, config)).toHaveLength(11);
+        expect(keltnerChannels(candles, config)).toEqual([103.8132, 106.677, 100.9493]);
+    });
+
+    test('can centre on another OHLC field', () => {
+        const config = { periods: 3, atrPeriods: 2, multiplier: 1, pipSize: 4 };
+        const [close_middle] = keltnerChannels(candles, config);
+        const [high_middle, upper, lower] = keltnerChannels(candles, { ...config, field: 'high' });
+
+        expect(high_middle).toBeGreaterThan(close_middle);
+        expect(upper - high_middle).toBeCloseTo(high_middle - lower, 3);
+    });
+});
+
+describe('Parabolic SAR', () => {
+    test('matches reference values', () => {
+        const sar = parabolicSarArray(candles, { step: 0.02, max: 0.2, pipSize: 4 });
+
+        expect(sar).toHaveLength(candles.length - 1);
+        expect(sar.slice(0, 5)).toEqual([99.35, 99.35, 99.497, 99.6352, 99.8324]);
+        // Reversals: below price until candle 11, above it until candle 14, below again after
+        expect(sar.slice(9, 14)).toEqual([101.6396, 104.1, 104.045, 103.9911, 101.35]);
+        expect(parabolicSar(candles, { step: 0.02, max: 0.2, pipSize: 4 })).toBe(102.4526);
+    });
+
+    test('trails a rising list of values', () => {
+        const sar = parabolicSarArray([1, 2, 3, 4, 5], { step: 0.1, max: 0.2, pipSize: 4 });
+
+        sar.forEach((value, i) => expect(value).toBeLessThanOrEqual(i + 1));
+        expect(sar).toEqual([1, 1, 1.4, 1.92]);
+    });
+});
@@ -1,5 +1,13 @@
+export * from './indicators/average-directional-index';
+export * from './indicators/average-true-range';
 export * from './indicators/bollinger-bands';
+export * from './indicators/commodity-channel-index';
+export * from './indicators/donchian-channels';
 export * from './indicators/exponential-moving-average';
+export * from './indicators/keltner-channels';
 export * from './indicators/macd';
+export * from './indicators/parabolic-sar';
 export * from './indicators/relative-strength-index';
 export * from './indicators/simple-moving-average';
+export * from './indicators/stochastic-oscillator';
+export * from './indicators/williams-percent-range';
@@ -0,0 +1,60 @@
+import { sum, takeOhlc, wilderSmoothing } from '../utils/math';
+import { trueRanges } from './average-true-range';
+
+// Wilder's running total: starts as the sum of the first `periods` values
+const runningTotal = (data, periods) => {
+    let total = sum(data.slice(0, periods));
+    return [total, ...data.slice(periods).map(x => (total = total - total / periods + x))];
+};
+
+/**
+ * Rows of [ADX, +DI, -DI]; the first row needs 2 * periods candles
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const averageDirectionalIndexArray = (data, config) => {
+    const { periods = 14, pipSize = 2 } = config;
+
+    if (data.length < periods * 2) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const { high, low } = takeOhlc(data);
+    const up_moves = high.slice(1).map((h, i) => h - high[i]);
+    const down_moves = low.slice(1).map((l, i) => low[i] - l);
+    const plus_dm = up_moves.map((up, i) => (up > down_moves[i] && up > 0 ? up : 0));
+    const minus_dm = down_moves.map((down, i) => (down > up_moves[i] && down > 0 ? down : 0));
+
+    const tr_totals = runningTotal(trueRanges(data), periods);
+    const plus_dm_totals = runningTotal(plus_dm, periods);
+    const minus_dm_totals = runningTotal(minus_dm, periods);
+
+    const directional = tr_totals.map((tr, i) => {
+        const plus_di = tr === 0 ? 0 : (100 * plus_dm_totals[i]) / tr;
+        const minus_di = tr === 0 ? 0 : (100 * minus_dm_totals[i]) / tr;
+        const di_sum = plus_di + minus_di;
+        return { plus_di, minus_di, dx: di_sum === 0 ? 0 : (100 * Math.abs(plus_di - minus_di)) / di_sum };
+    });
+
+    return wilderSmoothing(
+        directional.map(x => x.dx),
+        periods
+    ).map((adx, i) => {
+        const { plus_di, minus_di } = directional[i + periods - 1];
+        return [+adx.toFixed(pipSize), +plus_di.toFixed(pipSize), +minus_di.toFixed(pipSize)];
+    });
+};
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const averageDirectionalIndex = (data, config) => averageDirectionalIndexArray(data, config).slice(-1)[0];
@@ -0,0 +1,41 @@
+import { takeOhlc, wilderSmoothing } from '../utils/math';
+
+/**
+ * True range of every candle after the first:
+ * max(high - low, |high - previous close|, |low - previous close|)
+ * @param {Array} data
+ */
+export const trueRanges = data => {
+    const { high, low, close } = takeOhlc(data);
+    return high
+        .slice(1)
+        .map((h, i) => Math.max(h - low[i + 1], Math.abs(h - close[i]), Math.abs(low[i + 1] - close[i])));
+};
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const averageTrueRangeArray = (data, config) => {
+    const { periods = 14, pipSize = 2 } = config;
+
+    if (data.length <= periods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    return wilderSmoothing(trueRanges(data), periods).map(x => +x.toFixed(pipSize));
+};
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const averageTrueRange = (data, config) => averageTrueRangeArray(data, config).slice(-1)[0];
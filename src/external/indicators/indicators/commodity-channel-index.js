@@ -0,0 +1,37 @@
+import { mean, takeOhlc } from '../utils/math';
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const commodityChannelIndexArray = (data, config) => {
+    const { periods = 20, pipSize = 2 } = config;
+
+    if (data.length < periods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const { high, low, close } = takeOhlc(data);
+    const typical_prices = close.map((c, i) => (high[i] + low[i] + c) / 3);
+
+    return typical_prices.slice(periods - 1).map((typical_price, i) => {
+        const window = typical_prices.slice(i, i + periods);
+        const average = mean(window);
+        const mean_deviation = mean(window.map(x => Math.abs(x - average)));
+        return mean_deviation === 0 ? 0 : +((typical_price - average) / (0.015 * mean_deviation)).toFixed(pipSize);
+    });
+};
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const commodityChannelIndex = (data, config) => commodityChannelIndexArray(data, config).slice(-1)[0];
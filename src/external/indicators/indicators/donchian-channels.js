@@ -0,0 +1,36 @@
+import { highest, lowest, takeOhlc } from '../utils/math';
+
+/**
+ * Rows of [middle, upper, lower], in the same order as Bollinger Bands
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const donchianChannelsArray = (data, config) => {
+    const { periods = 20, pipSize = 2 } = config;
+
+    if (data.length < periods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const { high, low } = takeOhlc(data);
+
+    return high.slice(periods - 1).map((h, i) => {
+        const upper = highest(high.slice(i, i + periods));
+        const lower = lowest(low.slice(i, i + periods));
+        return [+((upper + lower) / 2).toFixed(pipSize), +upper.toFixed(pipSize), +lower.toFixed(pipSize)];
+    });
+};
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const donchianChannels = (data, config) => donchianChannelsArray(data, config).slice(-1)[0];
@@ -0,0 +1,50 @@
+import { takeField, takeOhlc, wilderSmoothing } from '../utils/math';
+import { trueRanges } from './average-true-range';
+import { exponentialMovingAverageArray } from './exponential-moving-average';
+
+/**
+ * Rows of [middle, upper, lower], in the same order as Bollinger Bands. The middle line is an
+ * EMA of the close (or `field`), the bands sit `multiplier` ATRs away from it.
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  atrPeriods: number,
+ *  multiplier: number,
+ *  field?: 'open' | 'high' | 'low' | 'close',
+ *  pipSize: number,
+ * }
+ */
+export const keltnerChannelsArray = (data, config) => {
+    const { periods = 20, atrPeriods = 10, multiplier = 2, field, pipSize = 2 } = config;
+
+    if (data.length < periods || data.length <= atrPeriods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const source = field ? takeField(data, field) : takeOhlc(data).close;
+    const middle_line = exponentialMovingAverageArray(source, { periods, pipSize: 20 });
+    const atr_line = wilderSmoothing(trueRanges(data), atrPeriods);
+
+    // middle_line starts at candle periods - 1, atr_line at candle atrPeriods
+    const first = Math.max(periods - 1, atrPeriods);
+
+    return source.slice(first).map((x, i) => {
+        const middle = middle_line[first + i - (periods - 1)];
+        const band = multiplier * atr_line[first + i - atrPeriods];
+        return [+middle.toFixed(pipSize), +(middle + band).toFixed(pipSize), +(middle - band).toFixed(pipSize)];
+    });
+};
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  atrPeriods: number,
+ *  multiplier: number,
+ *  field?: 'open' | 'high' | 'low' | 'close',
+ *  pipSize: number,
+ * }
+ */
+export const keltnerChannels = (data, config) => keltnerChannelsArray(data, config).slice(-1)[0];
@@ -0,0 +1,74 @@
+import { takeOhlc } from '../utils/math';
+
+/**
+ * The stop-and-reverse level for every candle after the first. The initial trend is up when the
+ * second close is not below the first.
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  step: number,
+ *  max: number,
+ *  pipSize: number,
+ * }
+ */
+export const parabolicSarArray = (data, config) => {
+    const { step = 0.02, max = 0.2, pipSize = 2 } = config;
+
+    if (data.length < 2) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const { high, low, close } = takeOhlc(data);
+
+    let is_rising = close[1] >= close[0];
+    let sar = is_rising ? low[0] : high[0];
+    let extreme_point = is_rising ? high[0] : low[0];
+    let acceleration = step;
+
+    return high.slice(1).map((h, index) => {
+        const i = index + 1;
+        const l = low[i];
+
+        sar += acceleration * (extreme_point - sar);
+
+        if (is_rising) {
+            // The SAR may not move into the previous two candles' range
+            sar = Math.min(sar, low[i - 1], low[Math.max(i - 2, 0)]);
+
+            if (l < sar) {
+                is_rising = false;
+                sar = extreme_point;
+                extreme_point = l;
+                acceleration = step;
+            } else if (h > extreme_point) {
+                extreme_point = h;
+                acceleration = Math.min(acceleration + step, max);
+            }
+        } else {
+            sar = Math.max(sar, high[i - 1], high[Math.max(i - 2, 0)]);
+
+            if (h > sar) {
+                is_rising = true;
+                sar = extreme_point;
+                extreme_point = h;
+                acceleration = step;
+            } else if (l < extreme_point) {
+                extreme_point = l;
+                acceleration = Math.min(acceleration + step, max);
+            }
+        }
+
+        return +sar.toFixed(pipSize);
+    });
+};
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  step: number,
+ *  max: number,
+ *  pipSize: number,
+ * }
+ */
+export const parabolicSar = (data, config) => parabolicSarArray(data, config).slice(-1)[0];
@@ -0,0 +1,41 @@
+import { highest, lowest, mean, takeOhlc } from '../utils/math';
+
+/**
+ * Rows of [%K, %D]. A flat range (highest high equal to lowest low) gives a %K of 50.
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  dPeriods: number,
+ *  pipSize: number,
+ * }
+ */
+export const stochasticOscillatorArray = (data, config) => {
+    const { periods = 14, dPeriods = 3, pipSize = 2 } = config;
+
+    if (data.length < periods + dPeriods - 1) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const { high, low, close } = takeOhlc(data);
+    const k_values = close.slice(periods - 1).map((c, i) => {
+        const highest_high = highest(high.slice(i, i + periods));
+        const lowest_low = lowest(low.slice(i, i + periods));
+        return highest_high === lowest_low ? 50 : (100 * (c - lowest_low)) / (highest_high - lowest_low);
+    });
+
+    return k_values
+        .slice(dPeriods - 1)
+        .map((k, i) => [+k.toFixed(pipSize), +mean(k_values.slice(i, i + dPeriods)).toFixed(pipSize)]);
+};
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  dPeriods: number,
+ *  pipSize: number,
+ * }
+ */
+export const stochasticOscillator = (data, config) => stochasticOscillatorArray(data, config).slice(-1)[0];
@@ -0,0 +1,39 @@
+import { highest, lowest, takeOhlc } from '../utils/math';
+
+/**
+ * Values run from -100 (close at the lowest low) to 0 (close at the highest high); a flat
+ * range gives -50.
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const williamsPercentRangeArray = (data, config) => {
+    const { periods = 14, pipSize = 2 } = config;
+
+    if (data.length < periods) {
+        throw new Error('Periods longer than data length');
+    }
+
+    const { high, low, close } = takeOhlc(data);
+
+    return close.slice(periods - 1).map((c, i) => {
+        const highest_high = highest(high.slice(i, i + periods));
+        const lowest_low = lowest(low.slice(i, i + periods));
+        return highest_high === lowest_low
+            ? -50
+            : +((-100 * (highest_high - c)) / (highest_high - lowest_low)).toFixed(pipSize);
+    });
+};
+
+/**
+ * @param {Array} data candles, or a list of values
+ * @param {Object} config of type
+ * {
+ *  periods: number,
+ *  pipSize: number,
+ * }
+ */
+export const williamsPercentRange = (data, config) => williamsPercentRangeArray(data, config).slice(-1)[0];
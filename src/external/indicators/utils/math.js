@@ -13,3 +13,32 @@ export const stddev = data => {
     const avg_sq_diff = mean(sq_diff);
     return Math.sqrt(avg_sq_diff);
 };
+
+export const highest = data => Math.max(...data);
+
+export const lowest = data => Math.min(...data);
+
+/**
+ * High, low and close series from candles; a plain list of values (e.g. ticks) is treated as
+ * candles whose high, low and close are all that value
+ * @param {Array} data
+ */
+export const takeOhlc = data => {
+    const has_fields = data.length > 0 && typeof data[0] === 'object';
+    return {
+        high: takeField(data, has_fields && 'high'),
+        low: takeField(data, has_fields && 'low'),
+        close: takeField(data, has_fields && 'close'),
+    };
+};
+
+/**
+ * Wilder's smoothing: the first value is the mean of the first `periods` values, each later one
+ * is (previous * (periods - 1) + value) / periods
+ * @param {Array} data
+ * @param {Number} periods
+ */
+export const wilderSmoothing = (data, periods) => {
+    let prev = mean(data.slice(0, periods));
+    return [prev, ...data.slice(periods).map(x => (prev = (prev * (periods - 1) + x) / periods))];
+};
@@ -1,7 +1,5 @@
 import { useCallback,useEffect, useState } from 'react';
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore - No types available for this package
-import DerivAPIBasic from '@deriv/deriv-api/dist/DerivAPIBasic';
+import { tickFeed } from '@/services/tick-feed.service';
 
 interface LiveTickData {
     tick: number;
@@ -90,54 +88,37 @@ export const useLiveTickData = (market: string, enabled: boolean = true) => {
     useEffect(() => {
         if (!enabled) return;
 
-        const connection = new DerivAPIBasic({ app_id: 1089 });
-        let subscriptionId: string | null = null;
-
-        const connectAndSubscribe = async () => {
-            try {
-                const tickStream = await connection.subscribe({
-                    ticks: market,
-                    subscribe: 1,
-                });
-
-                setIsConnected(true);
-
-                tickStream.subscribe((response: { tick?: { id: number; quote: number; epoch: number } }) => {
-                    if (response.tick) {
-                        const newTick: LiveTickData = {
-                            tick: response.tick.id,
-                            digit: parseInt(response.tick.quote.toString().slice(-1)),
-                            timestamp: response.tick.epoch * 1000,
-                            quote: response.tick.quote,
-                        };
-
-                        setTicks(prev => {
-                            const updated = [...prev, newTick].slice(-50); // Keep last 50 ticks
-                            analyzePattern(updated);
-                            return updated;
-                        });
-
-                        setCurrentPattern(prev => {
-                            const pattern = [...prev, newTick.digit % 2 === 0 ? 'E' : 'O'].slice(-18);
-                            return pattern;
-                        });
-                    }
-                });
-
-                subscriptionId = tickStream.subscription?.id || null;
-            } catch (error) {
-                console.error('WebSocket connection error:', error);
-                setIsConnected(false);
-            }
-        };
+        const unsubscribe = tickFeed.subscribe(market, tick => {
+            const newTick: LiveTickData = {
+                tick: tick.epoch,
+                digit: tick.lastDigit,
+                timestamp: tick.epoch * 1000,
+                quote: tick.quote,
+            };
+
+            setTicks(prev => {
+                const updated = [...prev, newTick].slice(-50); // Keep last 50 ticks
+                analyzePattern(updated);
+                return updated;
+            });
 
-        connectAndSubscribe();
+            setCurrentPattern(prev => {
+                const pattern = [...prev, newTick.digit % 2 === 0 ? 'E' : 'O'].slice(-18);
+                return pattern;
+            });
+        });
+
+        // Start a fresh window when the feed is switched to a replay or back to live
+        const unsubscribeSource = tickFeed.onSourceChange(() => {
+            setTicks([]);
+            setCurrentPattern([]);
+        });
+
+        setIsConnected(true);
 
         return () => {
-            if (subscriptionId) {
-                connection.unsubscribe(subscriptionId);
-            }
-            connection.disconnect();
+            unsubscribe();
+            unsubscribeSource();
             setIsConnected(false);
         };
     }, [market, enabled, analyzePattern]);
@@ -2,8 +2,11 @@ import { config as qs_config } from '@/external/bot-skeleton';
 import { localize } from '@deriv-com/translations';
 import {
     D_ALEMBERT,
+    FIBONACCI,
+    LABOUCHERE,
     MARTINGALE,
     OSCARS_GRIND,
+    PAROLI,
     REVERSE_D_ALEMBERT,
     REVERSE_MARTINGALE,
     STRATEGY_1_3_2_6,
@@ -230,6 +233,42 @@ const UNIT = (): TConfigItem => ({
     validation: ['number', 'required', 'ceil', NUMBER_DEFAULT_VALIDATION()],
 });
 
+const LABEL_WIN_STREAK = (): TConfigItem => ({
+    type: 'label',
+    label: localize('Win streak'),
+    description: localize('Number of successful trades in a row after which the stake resets to the initial stake.'),
+});
+
+const WIN_STREAK = (): TConfigItem => ({
+    type: 'number',
+    name: 'win_streak',
+    validation: [
+        'number',
+        'required',
+        'floor',
+        {
+            type: 'min',
+            value: 2,
+            getMessage: (min: string | number) =>
+                localize('The value must be equal or greater than {{ min }}', { min }),
+        },
+    ],
+});
+
+const LABEL_LINE_LENGTH = (): TConfigItem => ({
+    type: 'label',
+    label: localize('Line length'),
+    description: localize(
+        'Number of units in a fresh Labouchère line. One unit is equivalent to the amount of initial stake.'
+    ),
+});
+
+const LINE_LENGTH = (): TConfigItem => ({
+    type: 'number',
+    name: 'line_length',
+    validation: ['number', 'required', 'floor', NUMBER_DEFAULT_VALIDATION(), 'max'],
+});
+
 const CHECKBOX_MAX_STAKE = (): TConfigItem => ({
     type: 'checkbox',
     name: 'boolean_max_stake',
@@ -446,6 +485,98 @@ export const STRATEGIES = (): TStrategies => ({
             [LABEL_PROFIT(), PROFIT(), LABEL_LOSS(), LOSS()],
         ],
     },
+    LABOUCHERE: {
+        name: 'labouchere',
+        label: localize('Labouchère'),
+        rs_strategy_name: 'labouchere',
+        description: LABOUCHERE(),
+        fields: [
+            [
+                LABEL_SYMBOL(),
+                SYMBOL(),
+                LABEL_TRADETYPE(),
+                TRADETYPE(),
+                LABEL_PURCHASE_TYPE(),
+                PURCHASE_TYPE(),
+                LABEL_LAST_DIGIT_PREDICTION(),
+                LAST_DIGIT_PREDICTION(),
+                LABEL_STAKE(),
+                STAKE(),
+                LABEL_DURATION(),
+                DURATION_TYPE(),
+                DURATION(),
+            ],
+            [
+                LABEL_PROFIT(),
+                PROFIT(),
+                LABEL_LOSS(),
+                LOSS(),
+                LABEL_LINE_LENGTH(),
+                LINE_LENGTH(),
+                CHECKBOX_MAX_STAKE(),
+                MAX_STAKE(),
+            ],
+        ],
+    },
+    FIBONACCI: {
+        name: 'fibonacci',
+        label: localize('Fibonacci'),
+        rs_strategy_name: 'fibonacci',
+        description: FIBONACCI(),
+        fields: [
+            [
+                LABEL_SYMBOL(),
+                SYMBOL(),
+                LABEL_TRADETYPE(),
+                TRADETYPE(),
+                LABEL_PURCHASE_TYPE(),
+                PURCHASE_TYPE(),
+                LABEL_LAST_DIGIT_PREDICTION(),
+                LAST_DIGIT_PREDICTION(),
+                LABEL_STAKE(),
+                STAKE(),
+                LABEL_DURATION(),
+                DURATION_TYPE(),
+                DURATION(),
+            ],
+            [LABEL_PROFIT(), PROFIT(), LABEL_LOSS(), LOSS(), CHECKBOX_MAX_STAKE(), MAX_STAKE()],
+        ],
+    },
+    PAROLI: {
+        name: 'paroli',
+        label: localize('Paroli'),
+        rs_strategy_name: 'paroli',
+        description: PAROLI(),
+        fields: [
+            [
+                LABEL_SYMBOL(),
+                SYMBOL(),
+                LABEL_TRADETYPE(),
+                TRADETYPE(),
+                LABEL_PURCHASE_TYPE(),
+                PURCHASE_TYPE(),
+                LABEL_LAST_DIGIT_PREDICTION(),
+                LAST_DIGIT_PREDICTION(),
+                LABEL_STAKE(),
+                STAKE(),
+                LABEL_DURATION(),
+                DURATION_TYPE(),
+                DURATION(),
+            ],
+            [
+                LABEL_PROFIT(),
+                PROFIT(),
+                LABEL_LOSS(),
+                LOSS(),
+                LABEL_REVERSE_MARTINGALE_SIZE(),
+                SIZE(),
+                LABEL_WIN_STREAK(),
+                WIN_STREAK(),
+                CHECKBOX_MAX_STAKE(),
+                MAX_STAKE(),
+            ],
+        ],
+    },
     ACCUMULATORS_MARTINGALE: {
         name: 'accumulators_martingale',
         label: localize('Martingale'),
@@ -630,4 +761,73 @@ export const STRATEGIES = (): TStrategies => ({
             ],
         ],
     },
+    ACCUMULATORS_LABOUCHERE: {
+        name: 'accumulators_labouchere',
+        label: localize('Labouchère'),
+        rs_strategy_name: 'accumulators_labouchere',
+        description: [],
+        fields: [
+            [LABEL_SYMBOL(), SYMBOL(), LABEL_STAKE(), STAKE(), GROWTH_RATE(), GROWTH_RATE_VALUE()],
+            [
+                LABEL_PROFIT(),
+                PROFIT(),
+                LABEL_LOSS(),
+                LOSS(),
+                LABEL_LINE_LENGTH(),
+                LINE_LENGTH(),
+                SELL_CONDITIONS_TYPE_INFO(),
+                SELL_CONDITIONS_TYPE(),
+                TAKE_PROFIT(),
+                TICK_COUNT(),
+                CHECKBOX_MAX_STAKE(),
+                MAX_STAKE(),
+            ],
+        ],
+    },
+    ACCUMULATORS_FIBONACCI: {
+        name: 'accumulators_fibonacci',
+        label: localize('Fibonacci'),
+        rs_strategy_name: 'accumulators_fibonacci',
+        description: [],
+        fields: [
+            [LABEL_SYMBOL(), SYMBOL(), LABEL_STAKE(), STAKE(), GROWTH_RATE(), GROWTH_RATE_VALUE()],
+            [
+                LABEL_PROFIT(),
+                PROFIT(),
+                LABEL_LOSS(),
+                LOSS(),
+                SELL_CONDITIONS_TYPE_INFO(),
+                SELL_CONDITIONS_TYPE(),
+                TAKE_PROFIT(),
+                TICK_COUNT(),
+                CHECKBOX_MAX_STAKE(),
+                MAX_STAKE(),
+            ],
+        ],
+    },
+    ACCUMULATORS_PAROLI: {
+        name: 'accumulators_paroli',
+        label: localize('Paroli'),
+        rs_strategy_name: 'accumulators_paroli',
+        description: [],
+        fields: [
+            [LABEL_SYMBOL(), SYMBOL(), LABEL_STAKE(), STAKE(), GROWTH_RATE(), GROWTH_RATE_VALUE()],
+            [
+                LABEL_PROFIT(),
+                PROFIT(),
+                LABEL_LOSS(),
+                LOSS(),
+                LABEL_ACCUMULAORTS_SIZE(),
+                SIZE(),
+                LABEL_WIN_STREAK(),
+                WIN_STREAK(),
+                SELL_CONDITIONS_TYPE_INFO(),
+                SELL_CONDITIONS_TYPE(),
+                TAKE_PROFIT(),
+                TICK_COUNT(),
+                CHECKBOX_MAX_STAKE(),
+                MAX_STAKE(),
+            ],
+        ],
+    },
 });
@@ -9,6 +9,7 @@ import { LegacyClose1pxIcon } from '@deriv/quill-icons/Legacy';
 import { localize } from '@deriv-com/translations';
 import { rudderStackSendQsEditStrategyEvent } from '../../../../analytics/rudderstack-quick-strategy';
 import { STRATEGIES } from '../config';
+import ExposureSimulator from '../parts/exposure-simulator';
 import { TFormData, TFormValues } from '../types';
 import QSStepper from './qs-stepper';
 import StrategyTabContent from './strategy-tab-content';
@@ -49,7 +50,10 @@ const QuickSelectionPanel = ({
                 </Text>
             </div>
         </div>
-        <StrategyTabContent formfields={children} active_tab={'TRADE_PARAMETERS'} />
+        <div className='qs__body__content__parameters'>
+            <StrategyTabContent formfields={children} active_tab={'TRADE_PARAMETERS'} />
+            <ExposureSimulator />
+        </div>
     </>
 );
 
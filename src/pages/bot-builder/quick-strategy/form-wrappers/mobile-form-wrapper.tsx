@@ -7,6 +7,7 @@ import ThemedScrollbars from '@/components/shared_ui/themed-scrollbars';
 import { useStore } from '@/hooks/useStore';
 import { localize } from '@deriv-com/translations';
 import { STRATEGIES } from '../config';
+import ExposureSimulator from '../parts/exposure-simulator';
 import { TFormValues } from '../types';
 import QSStepper from './qs-stepper';
 import StrategyTabContent from './strategy-tab-content';
@@ -87,6 +88,7 @@ const MobileFormWrapper = observer(
                                         </div>
                                     </div>
                                     <StrategyTabContent formfields={children} active_tab={'TRADE_PARAMETERS'} />
+                                    <ExposureSimulator />
                                 </>
                             )}
                         </ThemedScrollbars>
@@ -115,4 +115,40 @@ export const STRATEGY_TRADE_ASSOCIATIONS: TStrategyTradeAssociations = [
         id: 13,
         parent: [localize('Accumulators')],
     },
+    {
+        name: 'LABOUCHERE',
+        display_name: STRATEGIES().LABOUCHERE.label,
+        id: 14,
+        parent: [localize('Options')],
+    },
+    {
+        name: 'FIBONACCI',
+        display_name: STRATEGIES().FIBONACCI.label,
+        id: 15,
+        parent: [localize('Options')],
+    },
+    {
+        name: 'PAROLI',
+        display_name: STRATEGIES().PAROLI.label,
+        id: 16,
+        parent: [localize('Options')],
+    },
+    {
+        name: 'ACCUMULATORS_LABOUCHERE',
+        display_name: STRATEGIES().ACCUMULATORS_LABOUCHERE.label,
+        id: 17,
+        parent: [localize('Accumulators')],
+    },
+    {
+        name: 'ACCUMULATORS_FIBONACCI',
+        display_name: STRATEGIES().ACCUMULATORS_FIBONACCI.label,
+        id: 18,
+        parent: [localize('Accumulators')],
+    },
+    {
+        name: 'ACCUMULATORS_PAROLI',
+        display_name: STRATEGIES().ACCUMULATORS_PAROLI.label,
+        id: 19,
+        parent: [localize('Accumulators')],
+    },
 ];
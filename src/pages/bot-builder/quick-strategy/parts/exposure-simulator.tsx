@@ -0,0 +1,311 @@
+import React from 'react';
+import classNames from 'classnames';
+import debounce from 'debounce';
+import { useFormikContext } from 'formik';
+import { observer } from 'mobx-react-lite';
+import Input from '@/components/shared_ui/input';
+import Text from '@/components/shared_ui/text';
+import { api_base } from '@/external/bot-skeleton';
+import { useStore } from '@/hooks/useStore';
+import { historicalTickLoader } from '@/services/historical-tick-loader.service';
+import { createSeededRandom } from '@/utils/seeded-random';
+import {
+    getLossStreakLimits,
+    getMeasuredWinProbability,
+    getStakeLadder,
+    getStreakProbability,
+    simulateSessionPnl,
+} from '@/utils/stake-exposure';
+import { isStakeProgression, type StakeProgressionParams } from '@/utils/stake-progression';
+import { Localize, localize } from '@deriv-com/translations';
+import { TFormValues } from '../types';
+import './exposure-simulator.scss';
+
+const base_classname = 'qs-exposure';
+
+const SIMULATED_SESSIONS = 1000;
+const SIMULATION_SEED = 1; // Fixed so the histogram only changes when the inputs do
+const MAX_RUNS = 1000;
+const MEASURED_TICK_COUNT = 1000;
+const DEFAULT_PAYOUT_PERCENT = 95;
+const BARRIER_CONTRACTS = ['DIGITOVER', 'DIGITUNDER', 'DIGITMATCH', 'DIGITDIFF'];
+
+type TWinProbabilitySource = 'measured' | 'break_even' | 'manual';
+
+const toNumber = (value: unknown) => {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : 0;
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(value > 0 && value < 0.01 ? 2 : 1)}%`;
+
+const ExposureSimulator = observer(() => {
+    const { quick_strategy, client } = useStore();
+    const { selected_strategy } = quick_strategy;
+    const { values } = useFormikContext<TFormValues>();
+    const currency = client?.currency ?? '';
+
+    const [payout_percent, setPayoutPercent] = React.useState(String(DEFAULT_PAYOUT_PERCENT));
+    const [win_percent, setWinPercent] = React.useState('');
+    const [win_source, setWinSource] = React.useState<TWinProbabilitySource>('break_even');
+    const [measured_win, setMeasuredWin] = React.useState<number | null>(null);
+    const [runs, setRuns] = React.useState('100');
+
+    const stake = toNumber(values.stake);
+    const contract_type = values.type ?? '';
+    const prediction = toNumber(values.last_digit_prediction);
+    const is_supported = isStakeProgression(selected_strategy);
+
+    const requestPayout = React.useMemo(
+        () =>
+            debounce(async (request: Record<string, unknown>) => {
+                try {
+                    const response = await api_base.api?.send(request);
+                    const payout = toNumber(response?.proposal?.payout);
+                    const amount = toNumber(request.amount);
+                    if (payout > amount && amount > 0) {
+                        setPayoutPercent(((payout / amount - 1) * 100).toFixed(2));
+                    }
+                } catch (error) {
+                    console.error('❌ Failed to get payout for exposure simulator:', error);
+                }
+            }, 500),
+        []
+    );
+
+    React.useEffect(() => {
+        if (!is_supported || !values.symbol || !contract_type || stake <= 0) return;
+
+        requestPayout({
+            proposal: 1,
+            amount: stake,
+            basis: 'stake',
+            contract_type,
+            currency,
+            duration: toNumber(values.duration),
+            duration_unit: values.durationtype,
+            symbol: values.symbol,
+            ...(BARRIER_CONTRACTS.includes(contract_type) && { barrier: String(prediction) }),
+        });
+    }, [is_supported, values.symbol, contract_type, stake, values.duration, values.durationtype, prediction]);
+
+    React.useEffect(() => () => requestPayout.clear(), [requestPayout]);
+
+    React.useEffect(() => {
+        let is_current = true;
+        setMeasuredWin(null);
+        if (!is_supported || !values.symbol || !contract_type.startsWith('DIGIT')) return undefined;
+
+        historicalTickLoader.loadHistoricalTicks(values.symbol, MEASURED_TICK_COUNT).then(result => {
+            if (!is_current || !result.success) return;
+            const digits = result.ticks.map(tick => tick.lastDigit);
+            setMeasuredWin(getMeasuredWinProbability(contract_type, digits, prediction));
+        });
+
+        return () => {
+            is_current = false;
+        };
+    }, [is_supported, values.symbol, contract_type, prediction]);
+
+    const payout_ratio = Math.max(0, toNumber(payout_percent) / 100);
+
+    // Keep a manually entered probability; otherwise follow the measured or break-even value
+    React.useEffect(() => {
+        if (win_source === 'manual') return;
+        if (measured_win !== null) {
+            setWinSource('measured');
+            setWinPercent((measured_win * 100).toFixed(1));
+        } else {
+            setWinSource('break_even');
+            setWinPercent(payout_ratio > 0 ? ((1 / (1 + payout_ratio)) * 100).toFixed(1) : '');
+        }
+    }, [measured_win, payout_ratio, win_source]);
+
+    const win_probability = Math.min(1, Math.max(0, toNumber(win_percent) / 100));
+    const run_count = Math.min(MAX_RUNS, Math.max(1, Math.floor(toNumber(runs))));
+    const loss_threshold = toNumber(values.loss) || undefined;
+    const profit_threshold = toNumber(values.profit) || undefined;
+
+    const params: StakeProgressionParams = React.useMemo(
+        () => ({
+            stake,
+            size: toNumber(values.size) || undefined,
+            unit: toNumber(values.unit) || undefined,
+            winStreakTarget: toNumber(values.win_streak) || undefined,
+            lineLength: toNumber(values.line_length) || undefined,
+            maxStake: values.boolean_max_stake ? toNumber(values.max_stake) || undefined : undefined,
+            payoutRatio: payout_ratio,
+        }),
+        [
+            stake,
+            values.size,
+            values.unit,
+            values.win_streak,
+            values.line_length,
+            values.boolean_max_stake,
+            values.max_stake,
+            payout_ratio,
+        ]
+    );
+
+    const exposure = React.useMemo(() => {
+        if (!is_supported || stake <= 0) return null;
+
+        const ladder = getStakeLadder(selected_strategy, params, loss_threshold);
+        const limits = getLossStreakLimits(ladder, loss_threshold);
+        const streakProbability = (streak: number | null) =>
+            streak === null ? null : getStreakProbability(1 - win_probability, streak, run_count);
+        const simulation = simulateSessionPnl(selected_strategy, params, {
+            winProbability: win_probability,
+            runs: run_count,
+            sessions: SIMULATED_SESSIONS,
+            profitThreshold: profit_threshold,
+            lossThreshold: loss_threshold,
+            random: createSeededRandom(SIMULATION_SEED),
+        });
+
+        return {
+            ladder,
+            limits,
+            max_stake_probability: streakProbability(limits.toMaxStake),
+            loss_threshold_probability: streakProbability(limits.toLossThreshold),
+            simulation,
+        };
+    }, [is_supported, selected_strategy, params, stake, win_probability, run_count, loss_threshold, profit_threshold]);
+
+    if (!is_supported || !exposure) return null;
+
+    const { ladder, limits, max_stake_probability, loss_threshold_probability, simulation } = exposure;
+    const highest_bucket = Math.max(1, ...simulation.histogram.map(bucket => bucket.count));
+    const formatAmount = (amount: number) => `${amount.toFixed(2)} ${currency}`;
+
+    const win_hint = {
+        measured: localize('Measured from the last {{count}} ticks', { count: MEASURED_TICK_COUNT }),
+        break_even: localize('Assumed break-even for this payout'),
+        manual: localize('Entered manually'),
+    }[win_source];
+
+    return (
+        <div className={base_classname} data-testid='dt_qs_exposure_simulator'>
+            <Text as='h3' size='xs' weight='bold' lineHeight='l'>
+                {localize('Exposure')}
+            </Text>
+            <div className={`${base_classname}__inputs`}>
+                <Input
+                    type='number'
+                    label={localize('Payout (%)')}
+                    value={payout_percent}
+                    onChange={e => setPayoutPercent(e.target.value)}
+                />
+                <Input
+                    type='number'
+                    label={localize('Win probability (%)')}
+                    value={win_percent}
+                    hint={win_hint}
+                    onChange={e => {
+                        setWinSource('manual');
+                        setWinPercent(e.target.value);
+                    }}
+                />
+                <Input type='number' label={localize('Runs')} value={runs} onChange={e => setRuns(e.target.value)} />
+            </div>
+
+            <div className={`${base_classname}__section`}>
+                <Text size='xxs' weight='bold'>
+                    {localize('Stake ladder on a losing streak')}
+                </Text>
+                <table className={`${base_classname}__ladder`}>
+                    <thead>
+                        <tr>
+                            <th>{localize('Loss')}</th>
+                            <th>{localize('Stake')}</th>
+                            <th>{localize('Total loss')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {ladder.map(step => (
+                            <tr
+                                key={step.loss}
+                                className={classNames({
+                                    [`${base_classname}__ladder--max-stake`]: step.loss === limits.toMaxStake,
+                                    [`${base_classname}__ladder--loss-threshold`]: step.loss === limits.toLossThreshold,
+                                })}
+                            >
+                                <td>{step.loss}</td>
+                                <td>{formatAmount(step.stake)}</td>
+                                <td>{formatAmount(step.totalLoss)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className={`${base_classname}__section`}>
+                <Text size='xxs'>
+                    {limits.toMaxStake !== null && max_stake_probability !== null ? (
+                        <Localize
+                            i18n_default_text='{{streak}} losses in a row reach the max stake and reset it: {{probability}} chance within {{runs}} runs.'
+                            values={{
+                                streak: limits.toMaxStake,
+                                probability: formatPercent(max_stake_probability),
+                                runs: run_count,
+                            }}
+                        />
+                    ) : (
+                        localize('The stake does not reach a max stake within the ladder above.')
+                    )}
+                </Text>
+                <Text size='xxs'>
+                    {limits.toLossThreshold !== null && loss_threshold_probability !== null ? (
+                        <Localize
+                            i18n_default_text='{{streak}} losses in a row reach the loss threshold: {{probability}} chance within {{runs}} runs.'
+                            values={{
+                                streak: limits.toLossThreshold,
+                                probability: formatPercent(loss_threshold_probability),
+                                runs: run_count,
+                            }}
+                        />
+                    ) : (
+                        localize('A losing streak in the ladder above does not reach the loss threshold.')
+                    )}
+                </Text>
+            </div>
+
+            <div className={`${base_classname}__section`}>
+                <Text size='xxs' weight='bold'>
+                    {localize('Session P&L over {{sessions}} simulated sessions', {
+                        sessions: SIMULATED_SESSIONS,
+                    })}
+                </Text>
+                <div className={`${base_classname}__histogram`}>
+                    {simulation.histogram.map(bucket => (
+                        <div
+                            key={bucket.from}
+                            className={classNames(`${base_classname}__histogram__bar`, {
+                                [`${base_classname}__histogram__bar--loss`]: bucket.to <= 0,
+                            })}
+                            style={{ height: `${(bucket.count / highest_bucket) * 100}%` }}
+                            title={`${formatAmount(bucket.from)} – ${formatAmount(bucket.to)}: ${bucket.count}`}
+                        />
+                    ))}
+                </div>
+                <dl className={`${base_classname}__stats`}>
+                    <dt>{localize('Average')}</dt>
+                    <dd>{formatAmount(simulation.mean)}</dd>
+                    <dt>{localize('Median')}</dt>
+                    <dd>{formatAmount(simulation.median)}</dd>
+                    <dt>{localize('Worst 5%')}</dt>
+                    <dd>{formatAmount(simulation.percentile5)}</dd>
+                    <dt>{localize('Best 5%')}</dt>
+                    <dd>{formatAmount(simulation.percentile95)}</dd>
+                    <dt>{localize('Stopped by loss threshold')}</dt>
+                    <dd>{formatPercent(simulation.lossThresholdRate)}</dd>
+                    <dt>{localize('Stopped by profit threshold')}</dt>
+                    <dd>{formatPercent(simulation.profitThresholdRate)}</dd>
+                </dl>
+            </div>
+        </div>
+    );
+});
+
+export default ExposureSimulator;
@@ -74,6 +74,8 @@ const FormikWrapper: React.FC<TFormikWrapper> = observer(({ children }) => {
             profit: data?.profit ?? '',
             size: data?.size ?? String(qs_config().QUICK_STRATEGY.DEFAULT.size),
             unit: data?.unit ?? String(qs_config().QUICK_STRATEGY.DEFAULT.unit),
+            win_streak: data?.win_streak ?? String(qs_config().QUICK_STRATEGY.DEFAULT.win_streak),
+            line_length: data?.line_length ?? String(qs_config().QUICK_STRATEGY.DEFAULT.line_length),
             action: data?.action ?? 'RUN',
             max_stake: data?.max_stake ?? 10,
             boolean_max_stake: data?.boolean_max_stake ?? false,
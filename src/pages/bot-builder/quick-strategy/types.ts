@@ -127,7 +127,13 @@ export type TRsStrategyName =
     | `accumulators_reverse_martingale`
     | `accumulators_reverse_martingale_on_stat_reset`
     | `accumulators_reverse_dalembert`
-    | `accumulators_reverse_dalembert_on_stat_reset`;
+    | `accumulators_reverse_dalembert_on_stat_reset`
+    | `labouchere`
+    | `fibonacci`
+    | `paroli`
+    | `accumulators_labouchere`
+    | `accumulators_fibonacci`
+    | `accumulators_paroli`;
 
 export type TDurationType = 't' | 's' | 'm' | 'h' | 'd';
 
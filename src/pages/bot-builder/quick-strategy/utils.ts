@@ -7,4 +7,7 @@ export const V2_QS_STRATEGIES = [
     'ACCUMULATORS_REVERSE_MARTINGALE_ON_STAT_RESET',
     'ACCUMULATORS_REVERSE_DALEMBERT',
     'ACCUMULATORS_REVERSE_DALEMBERT_ON_STAT_RESET',
+    'ACCUMULATORS_LABOUCHERE',
+    'ACCUMULATORS_FIBONACCI',
+    'ACCUMULATORS_PAROLI',
 ];
@@ -373,6 +373,342 @@ export const ToolboxItems = () =>
                             </Block>
                         </Statement>
                     </Block>
+                    <Block type='atr_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='atra_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='stoch_statement'>
+                        <Field name='STOCHFIELDS_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='d_period' deletable='false' movable='false'>
+                                                <Value name='D_PERIOD'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>3</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='stocha_statement'>
+                        <Field name='STOCHFIELDS_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='d_period' deletable='false' movable='false'>
+                                                <Value name='D_PERIOD'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>3</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='cci_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='ccia_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='willr_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='willra_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='adx_statement'>
+                        <Field name='ADXFIELDS_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='adxa_statement'>
+                        <Field name='ADXFIELDS_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>14</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='donchian_statement'>
+                        <Field name='CHANNELRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='donchiana_statement'>
+                        <Field name='CHANNELRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='keltner_statement'>
+                        <Field name='CHANNELRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='atr_period' deletable='false' movable='false'>
+                                                <Value name='ATR_PERIOD'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>10</Field>
+                                                    </Shadow>
+                                                </Value>
+                                                <Next>
+                                                    <Block type='atr_multiplier' deletable='false' movable='false'>
+                                                        <Value name='ATR_MULTIPLIER'>
+                                                            <Shadow type='math_number'>
+                                                                <Field name='NUM'>2</Field>
+                                                            </Shadow>
+                                                        </Value>
+                                                    </Block>
+                                                </Next>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='keltnera_statement'>
+                        <Field name='CHANNELRESULT_LIST'>0</Field>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='period' deletable='false' movable='false'>
+                                        <Value name='PERIOD'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>20</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='atr_period' deletable='false' movable='false'>
+                                                <Value name='ATR_PERIOD'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>10</Field>
+                                                    </Shadow>
+                                                </Value>
+                                                <Next>
+                                                    <Block type='atr_multiplier' deletable='false' movable='false'>
+                                                        <Value name='ATR_MULTIPLIER'>
+                                                            <Shadow type='math_number'>
+                                                                <Field name='NUM'>2</Field>
+                                                            </Shadow>
+                                                        </Value>
+                                                    </Block>
+                                                </Next>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='psar_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='acceleration_step' deletable='false' movable='false'>
+                                        <Value name='ACCELERATION_STEP'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>0.02</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='acceleration_max' deletable='false' movable='false'>
+                                                <Value name='ACCELERATION_MAX'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>0.2</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
+                    <Block type='psara_statement'>
+                        <Statement name='STATEMENT'>
+                            <Block type='input_list' deletable='false' movable='false'>
+                                <Value name='INPUT_LIST' />
+                                <Next>
+                                    <Block type='acceleration_step' deletable='false' movable='false'>
+                                        <Value name='ACCELERATION_STEP'>
+                                            <Shadow type='math_number'>
+                                                <Field name='NUM'>0.02</Field>
+                                            </Shadow>
+                                        </Value>
+                                        <Next>
+                                            <Block type='acceleration_max' deletable='false' movable='false'>
+                                                <Value name='ACCELERATION_MAX'>
+                                                    <Shadow type='math_number'>
+                                                        <Field name='NUM'>0.2</Field>
+                                                    </Shadow>
+                                                </Value>
+                                            </Block>
+                                        </Next>
+                                    </Block>
+                                </Next>
+                            </Block>
+                        </Statement>
+                    </Block>
                 </Category>
 
                 <Category name={localize('Tick and candle analysis')} id='tick_analysis'>
@@ -383,6 +719,79 @@ export const ToolboxItems = () =>
                     <Block type='stat_list' />
                     <Block type='ticks' />
                     <Block type='lastDigitList' />
+                    <Block type='digit_frequency'>
+                        <Value name='DIGIT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>0</Field>
+                            </Shadow>
+                        </Value>
+                        <Value name='COUNT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='hot_cold_digits'>
+                        <Field name='DIGIT_ZONE'>hot</Field>
+                        <Value name='COUNT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='digit_streak' />
+                    <Block type='ticks_since_digit'>
+                        <Value name='DIGIT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>0</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='digit_parity_ratio'>
+                        <Field name='DIGIT_PARITY'>even</Field>
+                        <Value name='COUNT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='digit_barrier_ratio'>
+                        <Field name='DIGIT_DIRECTION'>over</Field>
+                        <Value name='BARRIER'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>5</Field>
+                            </Shadow>
+                        </Value>
+                        <Value name='COUNT'>
+                            <Shadow type='math_number'>
+                                <Field name='NUM'>100</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='market_list'>
+                        <Field name='MARKET_GROUP'>volatility</Field>
+                    </Block>
+                    <Block type='market_tick'>
+                        <Value name='MARKET'>
+                            <Shadow type='text'>
+                                <Field name='TEXT'>R_50</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='market_last_digit'>
+                        <Value name='MARKET'>
+                            <Shadow type='text'>
+                                <Field name='TEXT'>R_50</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
+                    <Block type='market_last_digit_list'>
+                        <Value name='MARKET'>
+                            <Shadow type='text'>
+                                <Field name='TEXT'>R_50</Field>
+                            </Shadow>
+                        </Value>
+                    </Block>
                     <Block type='check_direction' />
                     <Block type='is_candle_black' />
                     <Block type='read_ohlc'>
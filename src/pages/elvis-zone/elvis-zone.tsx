@@ -1,11 +1,14 @@
-import React, { useCallback,useEffect, useRef, useState } from 'react';
+import React, { useCallback,useEffect, useMemo, useRef, useState } from 'react';
 import { AnalyticsPanel } from '@/components/elvis-zone/AnalyticsPanel';
 import { DigitFrequencyChart } from '@/components/elvis-zone/DigitFrequencyChart';
 import { MarketSelector } from '@/components/elvis-zone/MarketSelector';
+import { RecordingPanel } from '@/components/elvis-zone/RecordingPanel';
 import { SimulationPanel } from '@/components/elvis-zone/SimulationPanel';
 import { StreakHeatmap } from '@/components/elvis-zone/StreakHeatmap';
 import { TickTable } from '@/components/elvis-zone/TickTable';
-import { ConnectionType,derivConnectionPool } from '@/services/deriv-connection-pool.service';
+import { DigitRandomnessPanel } from '@/components/shared/DigitRandomnessPanel';
+import { tickFeed } from '@/services/tick-feed.service';
+import { TickRecording, tickRecorder } from '@/services/tick-recorder.service';
 import './elvis-zone.scss';
 
 interface TickData {
@@ -38,11 +41,15 @@ const ElvisZone: React.FC = () => {
     const [simulationMode, setSimulationMode] = useState(false);
     const [matchesProbability, setMatchesProbability] = useState(0);
     const [differsProbability, setDiffersProbability] = useState(0);
+    const [replay, setReplay] = useState<TickRecording | null>(null);
 
     // Refs
     const unsubscribeRef = useRef<(() => void) | null>(null);
     const tickBufferSize = 50;
 
+    // Buffer is newest first; the runs and serial correlation tests need time order
+    const bufferedDigits = useMemo(() => ticks.map(tick => tick.lastDigit).reverse(), [ticks]);
+
     // Available markets - All Volatility Markets
     const availableMarkets = [
         // Standard Volatility Indices
@@ -171,11 +178,8 @@ const ElvisZone: React.FC = () => {
 
     // Handle new tick data
     const handleNewTick = useCallback(
-        (tickData: { tick?: { quote: string; epoch: number }; quote?: string; epoch?: number }) => {
+        (quote: number, epoch: number) => {
             try {
-                const quote = parseFloat(tickData.tick?.quote || tickData.quote);
-                const epoch = tickData.tick?.epoch || tickData.epoch || Math.floor(Date.now() / 1000);
-
                 if (isNaN(quote) || quote <= 0) return;
 
                 const lastDigit = extractLastDigit(quote);
@@ -225,16 +229,10 @@ const ElvisZone: React.FC = () => {
 
                 console.log(`🔌 [ElvisZone] Subscribing to ${symbol}...`);
 
-                const unsubscribe = await derivConnectionPool.subscribeToTicks(
-                    symbol,
-                    handleNewTick,
-                    ConnectionType.ANALYSIS
-                );
-
-                unsubscribeRef.current = unsubscribe;
+                unsubscribeRef.current = tickFeed.subscribe(symbol, tick => handleNewTick(tick.quote, tick.epoch));
                 setIsConnected(true);
 
-                console.log(`✅ [ElvisZone] Connected to ${symbol}`);
+                console.log(`✅ [ElvisZone] Connected to ${symbol} (${tickFeed.getSource().name})`);
             } catch (error) {
                 console.error(`❌ [ElvisZone] Failed to subscribe to ${symbol}:`, error);
                 setIsConnected(false);
@@ -243,16 +241,38 @@ const ElvisZone: React.FC = () => {
         [handleNewTick]
     );
 
-    // Handle market change
-    const handleMarketChange = (symbol: string) => {
-        setSelectedSymbol(symbol);
-        setTicks([]); // Clear existing data
+    const clearTickData = () => {
+        setTicks([]);
         setDigitFrequencies([]);
         setCurrentStreak({ digit: -1, count: 0, isActive: false });
         setStreakHistory([]);
-        subscribeToMarket(symbol);
     };
 
+    // Handle market change
+    const handleMarketChange = (symbol: string) => {
+        setReplay(null);
+        setSelectedSymbol(symbol);
+        clearTickData(); // Clear existing data
+    };
+
+    // Switch between a recorded session and the live feed
+    const handleReplay = (recording: TickRecording | null) => {
+        setReplay(recording);
+        if (recording) {
+            setSelectedSymbol(recording.symbol);
+        }
+        clearTickData();
+    };
+
+    // A selected recording replays through the shared tick feed, so every screen follows it;
+    // stopping the replay or leaving the page returns the feed to live ticks
+    useEffect(() => {
+        if (!replay) return;
+
+        tickFeed.setSource(tickRecorder.createReplaySource(replay.id));
+        return () => tickFeed.useLiveSource();
+    }, [replay]);
+
     // Initialize connection
     useEffect(() => {
         subscribeToMarket(selectedSymbol);
@@ -284,7 +304,7 @@ const ElvisZone: React.FC = () => {
                     <div className='connection-status'>
                         <div className={`status-indicator ${isConnected ? 'connected' : 'disconnected'}`}>
                             <span className='status-dot'></span>
-                            <span className='status-text'>{isConnected ? 'LIVE' : 'OFFLINE'}</span>
+                            <span className='status-text'>{isConnected ? (replay ? 'REPLAY' : 'LIVE') : 'OFFLINE'}</span>
                         </div>
                     </div>
                 </div>
@@ -316,12 +336,19 @@ const ElvisZone: React.FC = () => {
                         differsProbability={differsProbability}
                         lastDigit={ticks[0]?.lastDigit}
                     />
+
+                    <RecordingPanel symbol={selectedSymbol} replayId={replay?.id ?? null} onReplay={handleReplay} />
                 </div>
 
                 {/* Center Panel - Visualizations */}
                 <div className='center-panel'>
                     <div className='chart-container'>
-                        <DigitFrequencyChart frequencies={digitFrequencies} currentDigit={ticks[0]?.lastDigit} />
+                        <DigitFrequencyChart
+                            frequencies={digitFrequencies}
+                            currentDigit={ticks[0]?.lastDigit}
+                            sourceLabel={replay ? `Replay of ${replay.symbol} recording` : undefined}
+                        />
+                        <DigitRandomnessPanel digits={bufferedDigits} />
                     </div>
 
                     <div className='heatmap-container'>
@@ -335,7 +362,12 @@ const ElvisZone: React.FC = () => {
 
                 {/* Right Panel - Tick Data */}
                 <div className='right-panel'>
-                    <TickTable ticks={ticks} maxRows={tickBufferSize} highlightDigit={ticks[0]?.lastDigit} />
+                    <TickTable
+                        ticks={ticks}
+                        maxRows={tickBufferSize}
+                        highlightDigit={ticks[0]?.lastDigit}
+                        title={replay ? '📼 Replayed Tick Data' : undefined}
+                    />
                 </div>
             </div>
         </div>
@@ -52,4 +52,13 @@ describe('<Endpoint />', () => {
     expect(localStorage.getItem('config.server_url') ?? '').toBe(server_url);
     expect(localStorage.getItem('config.app_id') ?? '').toBe(app_id.toString());
     });
+
+    it('should fill in the local mock server when user clicks on the mock server button', async () => {
+        render(<Endpoint />);
+
+        await userEvent.click(screen.getByRole('button', { name: 'Use local mock server' }));
+        await userEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+        expect(localStorage.getItem('config.server_url') ?? '').toBe('localhost:8765');
+    });
 });
@@ -3,6 +3,7 @@ import { useFormik } from 'formik';
 import { getAppId, getDefaultAppIdAndUrl, getSocketURL } from '@/components/shared';
 import { Button, Input, Text } from '@deriv-com/ui';
 import { LocalStorageConstants } from '@deriv-com/utils';
+import { MOCK_SERVER_URL } from '../../config/api-config';
 import './endpoint.scss';
 const Endpoint = () => {
     const formik = useFormik({
@@ -78,6 +79,15 @@ const Endpoint = () => {
                     >
                         Reset to original settings
                     </Button>
+                    <Button
+                        className='endpoint__button'
+                        color='black'
+                        onClick={() => formik.setFieldValue('serverUrl', MOCK_SERVER_URL)}
+                        variant='outlined'
+                        type='button'
+                    >
+                        Use local mock server
+                    </Button>
                 </div>
             </form>
         </div>
@@ -17,9 +17,22 @@ import { useStore } from '@/hooks/useStore';
 import { Localize, localize } from '@deriv-com/translations';
 import { useDevice } from '@deriv-com/ui';
 import { BotLoadingErrorHandler, withBotLoadingErrorHandling } from '@/utils/bot-loading-error-handler';
+import { assertValidBundledBotXml, configureBundledBotXml } from '@/services/bot-manifest/bot-xml-parameters';
+import {
+    BotCatalogueFilter,
+    BotCatalogueItem,
+    DEFAULT_CATALOGUE_FILTER,
+    filterBotCatalogue,
+} from '@/services/bot-manifest/bot-catalogue';
+import { botCatalogueService } from '@/services/bot-catalogue.service';
+import {
+    BotCatalogueFilters,
+    getContractTypeLabel,
+    WorkspaceVersionBanner,
+} from '@/components/bot-catalogue/BotCatalogue';
 import { adminPanelAccess } from '@/utils/admin-panel-access';
 import { AdminPanel } from '@/components/admin-panel/AdminPanel';
-import { hasPremiumAccess, isSignalsAuthenticated } from '@/utils/premium-access-check';
+import { hasPremiumAccess, isSignalsAuthenticated, reportPremiumUsage } from '@/utils/premium-access-check';
 import RunPanel from '../../components/run-panel';
 import ChartModal from '../chart/chart-modal';
 import Dashboard from '../dashboard';
@@ -986,8 +999,10 @@ const AppWrapper = observer(() => {
         image: string;
         filePath: string;
         xmlContent: string;
+        item: BotCatalogueItem;
     };
     const [bots, setBots] = useState<BotType[]>([]);
+    const [catalogueFilter, setCatalogueFilter] = useState<BotCatalogueFilter>(DEFAULT_CATALOGUE_FILTER);
     const [analysisToolUrl, setAnalysisToolUrl] = useState('ai');
     const [premiumBotModal, setPremiumBotModal] = useState({ isOpen: false, botName: '', xmlFile: '' });
     const [premiumPassword, setPremiumPassword] = useState('');
@@ -1013,42 +1028,33 @@ const AppWrapper = observer(() => {
 
     useEffect(() => {
         const fetchBots = async () => {
-            const botFiles = [
-                // All Available Bots
-                'D strike 2.xml',
-                'Magic Recovery.xml',
-                'Over 2 Rec Over 4.xml',
-                'UNDER 7,UNDER 5.xml',
-                'UNDER 8,UNDER 6.xml',
-                'PATEL (with Entry).xml',
-                'Raziel Over Under.xml',
-            ];
-            const botPromises = botFiles.map(async file => {
-                try {
-                    const response = await fetch(file);
-                    if (!response.ok) {
-                        throw new Error(`Failed to fetch ${file}: ${response.statusText}`);
-                    }
-                    const text = await response.text();
-                    const parser = new DOMParser();
-                    const xml = parser.parseFromString(text, 'application/xml');
-                    return {
-                        title: file.split('/').pop(),
-                        image: xml.getElementsByTagName('image')[0]?.textContent || 'default_image_path',
-                        filePath: file,
-                        xmlContent: text,
-                    };
-                } catch (error) {
-                    console.error(error);
-                    return null;
-                }
-            });
-            const bots = (await Promise.all(botPromises)).filter(Boolean);
-            setBots(bots);
+            const items = await botCatalogueService.loadCatalogue();
+            setBots(
+                items.map(item => ({
+                    title: item.id,
+                    image: item.image || 'default_image_path',
+                    filePath: item.id,
+                    xmlContent: item.xml,
+                    item,
+                }))
+            );
         };
         fetchBots();
     }, []);
 
+    // Saved strategies appear in the catalogue alongside the free bots
+    useEffect(() => {
+        if (active_tab === DBOT_TABS.FREE_BOTS) {
+            load_modal.getDashboardStrategies();
+        }
+    }, [active_tab, load_modal]);
+
+    const catalogueItems = [
+        ...bots.map(bot => bot.item),
+        ...botCatalogueService.getSavedStrategyItems(load_modal.dashboard_strategies),
+    ];
+    const visibleCatalogueItems = filterBotCatalogue(catalogueItems, catalogueFilter);
+
     const handleBotClick = useCallback(
         withBotLoadingErrorHandling(async bot => {
             // Validate bot object first
@@ -1059,6 +1065,11 @@ const AppWrapper = observer(() => {
                 throw new Error(errorMessage);
             }
 
+            // Bundled bots must still match their parameter manifest after any patching
+            if (bot.filePath) {
+                assertValidBundledBotXml(bot.filePath, bot.xmlContent);
+            }
+
             console.log('🤖 Loading bot:', bot.title);
 
             setActiveTab(DBOT_TABS.DASHBOARD);
@@ -1089,6 +1100,9 @@ const AppWrapper = observer(() => {
 
             // Load the strategy with error handling
             await load_modal.loadStrategyToBuilder(strategyToLoad);
+            if (bot.filePath) {
+                botCatalogueService.recordLoad(strategyToLoad.id, bot.filePath);
+            }
 
             console.log('✅ Bot loaded successfully');
 
@@ -1102,6 +1116,24 @@ const AppWrapper = observer(() => {
         [setActiveTab, load_modal]
     );
 
+    const handleCatalogueItemClick = useCallback(
+        async (item: BotCatalogueItem) => {
+            if (item.source === 'catalogue') {
+                const bot = bots.find(candidate => candidate.item.id === item.id);
+                if (bot) await handleBotClick(bot);
+                return;
+            }
+
+            const strategy = load_modal.dashboard_strategies.find(candidate => candidate.id === item.id);
+            if (!strategy) return;
+
+            setActiveTab(DBOT_TABS.DASHBOARD);
+            await load_modal.loadStrategyToBuilder(strategy);
+            updateWorkspaceName();
+        },
+        [bots, handleBotClick, load_modal, setActiveTab]
+    );
+
     const handleOpen = useCallback(async () => {
         await load_modal.loadFileFromRecent();
         setActiveTab(DBOT_TABS.DASHBOARD);
@@ -1117,7 +1149,7 @@ const AppWrapper = observer(() => {
             const hasAccess = await hasPremiumAccess(bot.name);
             if (!hasAccess) {
                 alert(
-                    `Access denied. Your account is not whitelisted for ${bot.name}. Please contact admin for access.`
+                    `Access denied. Your account does not have access to ${bot.name}. Please contact admin for access.`
                 );
                 return;
             }
@@ -1141,6 +1173,7 @@ const AppWrapper = observer(() => {
 
                 // Load the bot into workspace
                 await load_modal.loadStrategyToBuilder(strategyToLoad);
+                reportPremiumUsage(bot.name);
 
                 // Switch to dashboard tab
                 setActiveTab(DBOT_TABS.DASHBOARD);
@@ -1634,91 +1667,28 @@ const AppWrapper = observer(() => {
             if (bot) {
                 console.log('✅ Found PATEL bot, configuring with adaptive recovery logic...');
 
-                // Parse and configure the XML with proper OVER/UNDER handling
-                const parser = new DOMParser();
-                const xmlDoc = parser.parseFromString(bot.xmlContent, 'text/xml');
-
-                // Update market (SYMBOL_LIST)
-                const symbolFields = xmlDoc.querySelectorAll('field[name="SYMBOL_LIST"]');
-                symbolFields.forEach(field => {
-                    field.textContent = signal.market;
-                    console.log(`📊 Market set to: ${signal.market}`);
-                });
-
-                // Update contract type based on signal type
+                // Configure through the PATEL manifest. PATEL keeps its entry point detection logic, so
+                // only the market, direction, recovery predictions and search number are set.
                 const contractType = signal.prediction.includes('OVER') ? 'DIGITOVER' : 'DIGITUNDER';
-                const typeFields = xmlDoc.querySelectorAll('field[name="TYPE_LIST"]');
-                typeFields.forEach(field => {
-                    field.textContent = contractType;
-                    console.log(`📝 Contract type set to: ${contractType}`);
-                });
 
-                // Also update PURCHASE_LIST fields (in purchase blocks)
-                const purchaseFields = xmlDoc.querySelectorAll('field[name="PURCHASE_LIST"]');
-                purchaseFields.forEach(field => {
-                    field.textContent = contractType;
-                    console.log(`💰 Purchase type set to: ${contractType}`);
-                });
-
-                // Set the barrier value
-                if (barrier) {
-                    const barrierFields = xmlDoc.querySelectorAll('field[name="BARRIER"]');
-                    barrierFields.forEach(field => {
-                        field.textContent = barrier.toString();
-                        console.log(`🎯 Barrier set to: ${barrier}`);
+                let configuredXml: string;
+                try {
+                    const { xml, applied } = configureBundledBotXml(bot.filePath, bot.xmlContent, {
+                        market: signal.market,
+                        allowedContractTypes: contractType,
+                        contractType,
+                        predictionBeforeLoss: recoveryStrategy?.predictionBeforeLoss,
+                        predictionAfterLoss: recoveryStrategy?.predictionAfterLoss,
+                        entryDigit: signal.entryDigit ?? undefined,
                     });
+                    configuredXml = xml;
+                    console.log(`🎯 PATEL parameters applied: ${applied.join(', ')}`);
+                } catch (error) {
+                    console.error('❌ Enhanced PATEL bot configuration rejected:', error);
+                    return;
                 }
 
-                // Configure Adaptive Recovery Strategy - Prediction Before/After Loss
                 if (recoveryStrategy) {
-                    console.log('🧠 Configuring Adaptive Recovery Strategy...');
-
-                    // Find and update prediction before loss
-                    const variableFields = xmlDoc.querySelectorAll('block[type="variables_set"] field[name="VAR"]');
-                    variableFields.forEach(field => {
-                        const varName = field.textContent;
-                        const block = field.closest('block[type="variables_set"]');
-
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-
-                            if (varName === 'Prediction Before Loss' || varName === 'Initial Prediction') {
-                                if (numField) {
-                                    numField.textContent = recoveryStrategy.predictionBeforeLoss.toString();
-                                    console.log(
-                                        `🎯 Prediction Before Loss set to: ${recoveryStrategy.predictionBeforeLoss}`
-                                    );
-                                }
-                            } else if (varName === 'Prediction After Loss' || varName === 'Recovery Prediction') {
-                                if (numField) {
-                                    numField.textContent = recoveryStrategy.predictionAfterLoss.toString();
-                                    console.log(
-                                        `🔄 Prediction After Loss set to: ${recoveryStrategy.predictionAfterLoss}`
-                                    );
-                                }
-                            }
-                        }
-                    });
-
-                    // Also look for direct prediction fields in the bot logic
-                    const predictionFields = xmlDoc.querySelectorAll('field[name="NUM"]');
-                    predictionFields.forEach(field => {
-                        const parentBlock = field.closest('block');
-                        if (parentBlock) {
-                            const blockType = parentBlock.getAttribute('type');
-                            const blockId = parentBlock.getAttribute('id');
-
-                            // Look for prediction-related blocks
-                            if (blockId && (blockId.includes('prediction') || blockId.includes('digit'))) {
-                                // This might be a prediction field - we'll set it to the before loss value
-                                field.textContent = recoveryStrategy.predictionBeforeLoss.toString();
-                                console.log(
-                                    `🎯 Prediction field set to: ${recoveryStrategy.predictionBeforeLoss} (before loss)`
-                                );
-                            }
-                        }
-                    });
-
                     console.log(`✅ Adaptive Recovery configured:`, {
                         predictionBeforeLoss: recoveryStrategy.predictionBeforeLoss,
                         predictionAfterLoss: recoveryStrategy.predictionAfterLoss,
@@ -1728,31 +1698,6 @@ const AppWrapper = observer(() => {
                     });
                 }
 
-                // For PATEL bot, we should NOT set hardcoded prediction digits
-                // Instead, let the bot use its entry point detection logic
-                console.log('ℹ️ PATEL bot will use entry point detection with adaptive recovery');
-
-                // Update Search Number (entry point digit) if provided
-                if (signal.entryDigit) {
-                    const variableFields = xmlDoc.querySelectorAll('block[type="variables_set"] field[name="VAR"]');
-                    variableFields.forEach(field => {
-                        if (field.textContent === 'Search Number') {
-                            const block = field.closest('block[type="variables_set"]');
-                            if (block) {
-                                const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                                if (numField) {
-                                    numField.textContent = signal.entryDigit.toString();
-                                    console.log(`🔍 Search Number set to: ${signal.entryDigit}`);
-                                }
-                            }
-                        }
-                    });
-                }
-
-                // Serialize back to XML
-                const serializer = new XMLSerializer();
-                const configuredXml = serializer.serializeToString(xmlDoc);
-
                 // Create a configured bot object
                 const configuredBot = {
                     ...bot,
@@ -1860,106 +1805,24 @@ const AppWrapper = observer(() => {
             if (bot) {
                 console.log('✅ Found Raziel Over Under bot, configuring with Zeus parameters...');
 
-                // Parse and configure the XML with Zeus parameters
-                const parser = new DOMParser();
-                const xmlDoc = parser.parseFromString(bot.xmlContent, 'text/xml');
-
-                // Update market (SYMBOL_LIST)
-                const symbolFields = xmlDoc.querySelectorAll('field[name="SYMBOL_LIST"]');
-                symbolFields.forEach(field => {
-                    field.textContent = market;
-                    console.log(`📊 Market set to: ${market}`);
-                });
-
-                // Update contract type (TYPE_LIST and PURCHASE_LIST)
-                const typeFields = xmlDoc.querySelectorAll('field[name="TYPE_LIST"]');
-                typeFields.forEach(field => {
-                    field.textContent = contractType;
-                    console.log(`📝 Contract type set to: ${contractType}`);
-                });
-
-                const purchaseFields = xmlDoc.querySelectorAll('field[name="PURCHASE_LIST"]');
-                purchaseFields.forEach(field => {
-                    field.textContent = contractType;
-                    console.log(`💰 Purchase type set to: ${contractType}`);
-                });
-
-                // Update prediction before loss
-                const predictionBeforeLossFields = xmlDoc.querySelectorAll(
-                    'block[type="variables_set"] field[name="VAR"]'
-                );
-                predictionBeforeLossFields.forEach(field => {
-                    if (field.textContent === 'Prediction before loss') {
-                        const block = field.closest('block[type="variables_set"]');
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                            if (numField) {
-                                numField.textContent = predictionBeforeLoss.toString();
-                                console.log(`🎯 Prediction before loss set to: ${predictionBeforeLoss}`);
-                            }
-                        }
-                    }
-                });
-
-                // Update prediction after loss
-                predictionBeforeLossFields.forEach(field => {
-                    if (field.textContent === 'prediction after l oss') {
-                        // Note: there's a space in the XML
-                        const block = field.closest('block[type="variables_set"]');
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                            if (numField) {
-                                numField.textContent = predictionAfterLoss.toString();
-                                console.log(`🎯 Prediction after loss set to: ${predictionAfterLoss}`);
-                            }
-                        }
-                    }
-                });
-
-                // Update entry point digit
-                predictionBeforeLossFields.forEach(field => {
-                    if (field.textContent === 'Entry Point Digit') {
-                        const block = field.closest('block[type="variables_set"]');
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                            if (numField) {
-                                numField.textContent = entryPointDigit.toString();
-                                console.log(`🎯 Entry Point Digit set to: ${entryPointDigit}`);
-                            }
-                        }
-                    }
-                });
-
-                // Update stake using StakeManager
+                // Configure through the Raziel manifest, with the stake from StakeManager
                 const { stakeManager } = await import('@/services/stake-manager.service');
-                const currentStake = stakeManager.getStake();
 
-                const stakeFields = xmlDoc.querySelectorAll('field[name="NUM"]');
-                let stakeUpdatesCount = 0;
-
-                stakeFields.forEach(field => {
-                    const parentBlock = field.closest('block');
-                    if (parentBlock && parentBlock.getAttribute('type') === 'math_number') {
-                        // Look for stake-related fields
-                        const prevSibling = field.parentElement?.previousElementSibling;
-                        if (prevSibling && prevSibling.textContent === 'Stake') {
-                            field.textContent = currentStake.toString();
-                            stakeUpdatesCount++;
-                            console.log(`💰 Updated stake to ${currentStake} (from StakeManager)`);
-                        }
-                        if (prevSibling && prevSibling.textContent === 'initalStake') {
-                            field.textContent = currentStake.toString();
-                            stakeUpdatesCount++;
-                            console.log(`💰 Updated initial stake to ${currentStake} (from StakeManager)`);
-                        }
-                    }
-                });
-
-                console.log(`💰 Total Raziel stake fields updated: ${stakeUpdatesCount}`);
-
-                // Serialize back to XML
-                const serializer = new XMLSerializer();
-                const configuredXml = serializer.serializeToString(xmlDoc);
+                let configuredXml: string;
+                try {
+                    const { xml, applied } = configureBundledBotXml(bot.filePath, bot.xmlContent, {
+                        market,
+                        contractType,
+                        stake: stakeManager.getStake(),
+                        predictionBeforeLoss,
+                        predictionAfterLoss,
+                    });
+                    configuredXml = xml;
+                    console.log(`🎯 Raziel parameters applied: ${applied.join(', ')}`);
+                } catch (error) {
+                    console.error('❌ Raziel Over Under bot configuration rejected:', error);
+                    return;
+                }
 
                 // Create a configured bot object
                 const configuredBot = {
@@ -2052,76 +1915,23 @@ const AppWrapper = observer(() => {
             if (bot) {
                 console.log('✅ Found PATEL bot, configuring with digit parameters...');
 
-                // Parse and configure the XML with digit parameters
-                const parser = new DOMParser();
-                const xmlDoc = parser.parseFromString(bot.xmlContent, 'text/xml');
-
-                // Update market (SYMBOL_LIST)
-                const symbolFields = xmlDoc.querySelectorAll('field[name="SYMBOL_LIST"]');
-                symbolFields.forEach(field => {
-                    field.textContent = market;
-                    console.log(`📊 Market set to: ${market}`);
-                });
-
-                // Update contract type (TYPE_LIST and PURCHASE_LIST)
-                const typeFields = xmlDoc.querySelectorAll('field[name="TYPE_LIST"]');
-                typeFields.forEach(field => {
-                    field.textContent = contractType;
-                    console.log(`📝 Contract type set to: ${contractType}`);
-                });
-
-                const purchaseFields = xmlDoc.querySelectorAll('field[name="PURCHASE_LIST"]');
-                purchaseFields.forEach(field => {
-                    field.textContent = contractType;
-                    console.log(`💰 Purchase type set to: ${contractType}`);
-                });
-
-                // Update prediction before loss (exact variable name from PATEL bot)
-                const variableFields = xmlDoc.querySelectorAll('block[type="variables_set"] field[name="VAR"]');
-                variableFields.forEach(field => {
-                    if (field.textContent === 'prediction before loss') {
-                        const block = field.closest('block[type="variables_set"]');
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                            if (numField) {
-                                numField.textContent = predictionBeforeLoss.toString();
-                                console.log(`🎯 Prediction before loss set to: ${predictionBeforeLoss}`);
-                            }
-                        }
-                    }
-                });
-
-                // Update prediction after loss (exact variable name from PATEL bot)
-                variableFields.forEach(field => {
-                    if (field.textContent === 'prediction after loss') {
-                        const block = field.closest('block[type="variables_set"]');
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                            if (numField) {
-                                numField.textContent = predictionAfterLoss.toString();
-                                console.log(`🎯 Prediction after loss set to: ${predictionAfterLoss}`);
-                            }
-                        }
-                    }
-                });
-
-                // Update Search Number (entry point digit - exact variable name from PATEL bot)
-                variableFields.forEach(field => {
-                    if (field.textContent === 'Search Number') {
-                        const block = field.closest('block[type="variables_set"]');
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                            if (numField) {
-                                numField.textContent = entryPointDigit.toString();
-                                console.log(`🎯 Search Number (Entry Point) set to: ${entryPointDigit}`);
-                            }
-                        }
-                    }
-                });
-
-                // Serialize the updated XML
-                const serializer = new XMLSerializer();
-                const updatedXmlContent = serializer.serializeToString(xmlDoc);
+                // Configure through the PATEL manifest; 'both' keeps the bot's own purchase direction
+                let updatedXmlContent: string;
+                try {
+                    const { xml, applied } = configureBundledBotXml(bot.filePath, bot.xmlContent, {
+                        market,
+                        allowedContractTypes: contractType,
+                        contractType: contractType === 'both' ? undefined : contractType,
+                        predictionBeforeLoss,
+                        predictionAfterLoss,
+                        entryDigit: entryPointDigit,
+                    });
+                    updatedXmlContent = xml;
+                    console.log(`🎯 PATEL parameters applied: ${applied.join(', ')}`);
+                } catch (error) {
+                    console.error('❌ PATEL bot configuration rejected:', error);
+                    return;
+                }
 
                 // Update the bot object with new XML content
                 const updatedBot = {
@@ -2209,83 +2019,24 @@ const AppWrapper = observer(() => {
             if (templateBot) {
                 console.log('✅ Found PATEL template, configuring for MATCHES mode...');
 
-                // Parse and configure the XML for MATCHES mode
-                const parser = new DOMParser();
-                const xmlDoc = parser.parseFromString(templateBot.xmlContent, 'text/xml');
-
-                // Update market (SYMBOL_LIST)
-                const symbolFields = xmlDoc.querySelectorAll('field[name="SYMBOL_LIST"]');
-                symbolFields.forEach(field => {
-                    field.textContent = market;
-                    console.log(`📊 Market set to: ${market}`);
-                });
-
-                // Update trade type to "matches"
-                const tradeTypeFields = xmlDoc.querySelectorAll('field[name="TRADETYPE_LIST"]');
-                tradeTypeFields.forEach(field => {
-                    field.textContent = 'matches';
-                    console.log(`🎲 Trade type set to: matches`);
-                });
-
-                // Update contract type to DIGITMATCHES
-                const typeFields = xmlDoc.querySelectorAll('field[name="TYPE_LIST"]');
-                typeFields.forEach(field => {
-                    field.textContent = 'DIGITMATCHES';
-                    console.log(`📝 Contract type set to: DIGITMATCHES`);
-                });
-
-                const purchaseFields = xmlDoc.querySelectorAll('field[name="PURCHASE_LIST"]');
-                purchaseFields.forEach(field => {
-                    field.textContent = 'DIGITMATCHES';
-                    console.log(`💰 Purchase type set to: DIGITMATCHES`);
-                });
-
-                // Update prediction before loss (should equal target digit)
-                const variableFields = xmlDoc.querySelectorAll('block[type="variables_set"] field[name="VAR"]');
-                variableFields.forEach(field => {
-                    if (field.textContent === 'prediction before loss') {
-                        const block = field.closest('block[type="variables_set"]');
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                            if (numField) {
-                                numField.textContent = targetDigit.toString();
-                                console.log(`🎯 Prediction before loss set to: ${targetDigit}`);
-                            }
-                        }
-                    }
-                });
-
-                // Update prediction after loss (should equal target digit)
-                variableFields.forEach(field => {
-                    if (field.textContent === 'prediction after loss') {
-                        const block = field.closest('block[type="variables_set"]');
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                            if (numField) {
-                                numField.textContent = targetDigit.toString();
-                                console.log(`🎯 Prediction after loss set to: ${targetDigit}`);
-                            }
-                        }
-                    }
-                });
-
-                // Update search number (entry point digit - same as target for matches)
-                variableFields.forEach(field => {
-                    if (field.textContent === 'Search Number') {
-                        const block = field.closest('block[type="variables_set"]');
-                        if (block) {
-                            const numField = block.querySelector('block[type="math_number"] field[name="NUM"]');
-                            if (numField) {
-                                numField.textContent = targetDigit.toString();
-                                console.log(`🎯 Entry Point Digit set to: ${targetDigit}`);
-                            }
-                        }
-                    }
-                });
-
-                // Serialize the updated XML
-                const serializer = new XMLSerializer();
-                const updatedXmlContent = serializer.serializeToString(xmlDoc);
+                // Configure the PATEL template for MATCHES mode through its manifest
+                let updatedXmlContent: string;
+                try {
+                    const { xml, applied } = configureBundledBotXml(templateBot.filePath, templateBot.xmlContent, {
+                        market,
+                        tradeType: 'matchesdiffers',
+                        allowedContractTypes: 'DIGITMATCH',
+                        contractType: 'DIGITMATCH',
+                        predictionBeforeLoss: targetDigit,
+                        predictionAfterLoss: targetDigit,
+                        entryDigit: targetDigit,
+                    });
+                    updatedXmlContent = xml;
+                    console.log(`🎲 MATCHES parameters applied: ${applied.join(', ')}`);
+                } catch (error) {
+                    console.error('❌ MATCHES bot configuration rejected:', error);
+                    return;
+                }
 
                 // Create a new bot object for MATCHES mode
                 const matchesBot = {
@@ -3519,6 +3270,19 @@ const AppWrapper = observer(() => {
                                 >
                                     Premium bots and advanced trading strategies
                                 </p>
+                                <WorkspaceVersionBanner
+                                    refreshKey={active_tab}
+                                    onLoadLatest={file => {
+                                        const bot = bots.find(candidate => candidate.filePath === file);
+                                        if (bot) handleBotClick(bot);
+                                    }}
+                                />
+                                <BotCatalogueFilters
+                                    filter={catalogueFilter}
+                                    onChange={setCatalogueFilter}
+                                    shown={visibleCatalogueItems.length}
+                                    total={catalogueItems.length}
+                                />
                                 <div
                                     className='free-bots-grid'
                                     style={{
@@ -3528,9 +3292,9 @@ const AppWrapper = observer(() => {
                                         marginBottom: '2rem',
                                     }}
                                 >
-                                    {bots
-                                        .filter(bot => !bot.title.includes('PREMIUM'))
-                                        .map((bot, index) => {
+                                    {visibleCatalogueItems
+                                        .filter(item => !item.name.includes('PREMIUM'))
+                                        .map((item, index) => {
                                             // Function to get animated SVG icon based on bot name
                                             const getBotIcon = name => {
                                                 const lowerName = name.toLowerCase();
@@ -4902,34 +4666,7 @@ const AppWrapper = observer(() => {
                                                 );
                                             };
 
-                                            // Function to get description based on bot name
-                                            const getBotDescription = name => {
-                                                const lowerName = name.toLowerCase();
-
-                                                if (lowerName.includes('patel')) {
-                                                    return 'Professional trading strategy with precise entry points and risk management';
-                                                } else if (lowerName.includes('game changer')) {
-                                                    return 'Revolutionary AI-powered strategy that adapts to market conditions';
-                                                } else if (lowerName.includes('cfx')) {
-                                                    return 'High-speed CFX trading with advanced pattern recognition';
-                                                } else if (lowerName.includes('over') || lowerName.includes('under')) {
-                                                    return 'Over/Under prediction strategy with statistical analysis';
-                                                } else if (lowerName.includes('raziel')) {
-                                                    return 'Divine trading strategy with heavenly accuracy';
-                                                } else if (lowerName.includes('strike')) {
-                                                    return 'Precision strike strategy with advanced targeting';
-                                                } else if (
-                                                    lowerName.includes('magic') ||
-                                                    lowerName.includes('recovery')
-                                                ) {
-                                                    return 'Magic recovery system with loss prevention';
-                                                }
-
-                                                return 'Advanced automated trading strategy with optimized entry and exit points';
-                                            };
-
-                                            const botIcon = getBotIcon(bot.title);
-                                            const description = getBotDescription(bot.title);
+                                            const botIcon = getBotIcon(item.name);
                                             // Generate a random success rate for demo
                                             const successRate = Math.floor(Math.random() * 20) + 80;
                                             // Determine if featured (random for demo)
@@ -4937,8 +4674,9 @@ const AppWrapper = observer(() => {
 
                                             return (
                                                 <div
-                                                    key={index}
-                                                    onClick={() => handleBotClick(bot)}
+                                                    key={`${item.source}-${item.id}`}
+                                                    title={item.description}
+                                                    onClick={() => handleCatalogueItemClick(item)}
                                                     style={{
                                                         background: '#ffffff',
                                                         borderRadius: '10px',
@@ -4989,9 +4727,56 @@ const AppWrapper = observer(() => {
                                                             textAlign: 'center',
                                                         }}
                                                     >
-                                                        {bot.title.replace('.xml', '')}
+                                                        {item.name}
                                                     </h3>
 
+                                                    {/* Catalogue metadata */}
+                                                    <div
+                                                        style={{
+                                                            display: 'flex',
+                                                            flexWrap: 'wrap',
+                                                            justifyContent: 'center',
+                                                            gap: '0.3rem',
+                                                            fontSize: '11px',
+                                                            color: '#4b5563',
+                                                        }}
+                                                    >
+                                                        {item.source === 'saved' ? (
+                                                            <span
+                                                                style={{
+                                                                    background: '#eef2ff',
+                                                                    color: '#4338ca',
+                                                                    borderRadius: '4px',
+                                                                    padding: '1px 6px',
+                                                                }}
+                                                            >
+                                                                My strategy
+                                                            </span>
+                                                        ) : (
+                                                            <span
+                                                                style={{
+                                                                    background: '#f3f4f6',
+                                                                    borderRadius: '4px',
+                                                                    padding: '1px 6px',
+                                                                }}
+                                                            >
+                                                                v{item.version}
+                                                            </span>
+                                                        )}
+                                                        {item.contractTypes.map(contractType => (
+                                                            <span
+                                                                key={contractType}
+                                                                style={{
+                                                                    background: '#f3f4f6',
+                                                                    borderRadius: '4px',
+                                                                    padding: '1px 6px',
+                                                                }}
+                                                            >
+                                                                {getContractTypeLabel(contractType)}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+
                                                     {/* Combined Load Bot Bar with Success Rate */}
                                                     <div
                                                         style={{
@@ -5910,13 +5695,13 @@ const AppWrapper = observer(() => {
                                                 onBlur={e => (e.currentTarget.style.borderColor = '#e5e7eb')}
                                                 onKeyPress={async e => {
                                                     if (e.key === 'Enter' && (premiumPassword === '6776' || isSignalsAuthenticated())) {
-                                                        // Check if user is whitelisted for this specific bot OR authenticated in signals
+                                                        // Check the account is entitled to this specific bot
                                                         const hasAccess = await hasPremiumAccess(
                                                             premiumBotModal.botName
                                                         );
                                                         if (!hasAccess) {
                                                             alert(
-                                                                `Access denied. Your account is not whitelisted for ${premiumBotModal.botName}. Please contact admin for access.`
+                                                                `Access denied. Your account does not have access to ${premiumBotModal.botName}. Please contact admin for access.`
                                                             );
                                                             return;
                                                         }
@@ -5940,6 +5725,7 @@ const AppWrapper = observer(() => {
 
                                                             // Load the bot into workspace
                                                             await load_modal.loadStrategyToBuilder(strategyToLoad);
+                                                            reportPremiumUsage(premiumBotModal.botName);
 
                                                             // Switch to dashboard tab
                                                             setActiveTab(DBOT_TABS.DASHBOARD);
@@ -5964,13 +5750,13 @@ const AppWrapper = observer(() => {
                                             <button
                                                 onClick={async () => {
                                                     if (premiumPassword === '6776' || isSignalsAuthenticated()) {
-                                                        // Check if user is whitelisted for this specific bot OR authenticated in signals
+                                                        // Check the account is entitled to this specific bot
                                                         const hasAccess = await hasPremiumAccess(
                                                             premiumBotModal.botName
                                                         );
                                                         if (!hasAccess) {
                                                             alert(
-                                                                `Access denied. Your account is not whitelisted for ${premiumBotModal.botName}. Please contact admin for access.`
+                                                                `Access denied. Your account does not have access to ${premiumBotModal.botName}. Please contact admin for access.`
                                                             );
                                                             return;
                                                         }
@@ -5994,6 +5780,7 @@ const AppWrapper = observer(() => {
 
                                                             // Load the bot into workspace
                                                             await load_modal.loadStrategyToBuilder(strategyToLoad);
+                                                            reportPremiumUsage(premiumBotModal.botName);
 
                                                             // Switch to dashboard tab
                                                             setActiveTab(DBOT_TABS.DASHBOARD);
@@ -0,0 +1,60 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Zen from '..';
+
+jest.mock('@/hooks/useApiBase', () => ({
+    useApiBase: () => ({ isAuthorized: false }),
+}));
+
+jest.mock('@/hooks/useHighFrequencyTrading', () => ({
+    useHighFrequencyTrading: () => ({
+        isRunning: false,
+        start: jest.fn(),
+        stop: jest.fn(),
+        reset: jest.fn(),
+        getStatus: () => ({ status: 'idle', message: 'Idle' }),
+    }),
+}));
+
+jest.mock('@/components/zen/ZenDigitFrequency', () => ({
+    ZenDigitFrequency: () => null,
+}));
+
+jest.mock('@/components/zen/ZenTransactionHistory', () => ({
+    ZenTransactionHistory: () => null,
+}));
+
+jest.mock(
+    '@/services/zen-trading-controller.service',
+    () => ({ zenTradingController: { registerController: jest.fn(), unregisterController: jest.fn() } }),
+    { virtual: true }
+);
+
+jest.mock('@/services/historical-tick-loader.service', () => ({ historicalTickLoader: {} }), { virtual: true });
+
+jest.mock(
+    '@/services/zen-strategy-rules',
+    () => ({ ZEN_STRATEGIES: ['Even', 'Odd', 'Rise', 'Fall', 'Over', 'Under', 'Matches', 'Differs', 'Straddle6'] }),
+    { virtual: true }
+);
+
+jest.mock('@/engine/backtester', () => ({ parseTickFile: jest.fn() }), { virtual: true });
+
+jest.mock('@/engine/zenOptimizer', () => ({ ZenWalkForwardOptimizer: jest.fn() }), { virtual: true });
+
+describe('<Zen />', () => {
+    it('should open the walk-forward optimizer from the Zen screen', async () => {
+        render(<Zen />);
+
+        expect(screen.queryByText('Walk-Forward Optimizer')).not.toBeInTheDocument();
+
+        await userEvent.click(screen.getByRole('button', { name: 'OPTIMIZE' }));
+
+        expect(screen.getByText('Walk-Forward Optimizer')).toBeInTheDocument();
+        expect(screen.getByText('Historical Ticks (R_50)')).toBeInTheDocument();
+
+        await userEvent.click(screen.getByRole('button', { name: 'HIDE OPTIMIZER' }));
+
+        expect(screen.queryByText('Walk-Forward Optimizer')).not.toBeInTheDocument();
+    });
+});
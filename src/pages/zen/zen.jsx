@@ -1,11 +1,26 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { ZenDigitFrequency } from '@/components/zen/ZenDigitFrequency';
+import { ZenOptimizerPanel } from '@/components/zen/ZenOptimizerPanel';
 import { ZenTransactionHistory } from '@/components/zen/ZenTransactionHistory';
 import { useApiBase } from '@/hooks/useApiBase';
 import { useHighFrequencyTrading } from '@/hooks/useHighFrequencyTrading';
 import { zenTradingController } from '@/services/zen-trading-controller.service';
 import './zen.scss';
 
+// Optimizer strategy for each trade type on this screen; Straddle6 has no trade type here
+const TRADE_TYPE_STRATEGIES = {
+    DIGITEVEN: 'Even',
+    DIGITODD: 'Odd',
+    CALL: 'Rise',
+    PUT: 'Fall',
+    DIGITOVER: 'Over',
+    DIGITUNDER: 'Under',
+    DIGITMATCH: 'Matches',
+    DIGITDIFF: 'Differs',
+};
+
+const usesPrediction = tradeType => tradeType === 'DIGITMATCH' || tradeType === 'DIGITDIFF';
+
 const Zen = () => {
     // Essential hooks and refs
     const { isAuthorized } = useApiBase();
@@ -52,6 +67,7 @@ const Zen = () => {
 
     const [isAutoTrading, setIsAutoTrading] = useState(false);
     const [showDigitFrequency, setShowDigitFrequency] = useState(false);
+    const [showOptimizer, setShowOptimizer] = useState(false);
     const [transactions, setTransactions] = useState([]);
     const [completedRuns, setCompletedRuns] = useState(0);
     const [profitableRuns, setProfitableRuns] = useState(0);
@@ -110,6 +126,51 @@ const Zen = () => {
         }
     };
 
+    // The optimizer searches from the current settings and applies its winner back to them
+    const getOptimizerConfig = () => ({
+        strategy: TRADE_TYPE_STRATEGIES[settings.tradeType] || 'Even',
+        market: settings.market,
+        stake: settings.stake,
+        martingaleMultiplier: settings.enableMartingale ? settings.martingaleMultiplier : 1,
+        ticks: settings.duration,
+        defaultDigit: Number(usesPrediction(settings.tradeType) ? settings.prediction : settings.barrier),
+        switchOnLoss: settings.switchOnLoss,
+        switchMarket: settings.switchMarket,
+        mainMode: settings.oneTradePerGesture,
+        lossesToSwitch: settings.lossesToSwitch,
+        rounds: settings.rounds,
+        takeProfit: settings.takeProfit,
+        stopLoss: settings.stopLoss,
+        delay: false,
+    });
+
+    const handleApplyOptimizedConfig = config => {
+        const tradeType =
+            Object.keys(TRADE_TYPE_STRATEGIES).find(key => TRADE_TYPE_STRATEGIES[key] === config.strategy) ||
+            settings.tradeType;
+        const digitSetting = usesPrediction(tradeType)
+            ? { prediction: config.defaultDigit }
+            : { barrier: String(config.defaultDigit) };
+
+        setSettings(prev => ({
+            ...prev,
+            ...digitSetting,
+            tradeType,
+            market: config.market,
+            stake: config.stake,
+            enableMartingale: config.martingaleMultiplier > 1,
+            martingaleMultiplier: config.martingaleMultiplier,
+            duration: config.ticks,
+            lossesToSwitch: config.lossesToSwitch,
+        }));
+        setMartingaleState(prev => ({
+            ...prev,
+            originalStake: config.stake,
+            currentStake: prev.isInMartingale ? prev.currentStake : config.stake,
+        }));
+        console.log('🏆 Applied optimized Zen settings:', config);
+    };
+
     // Multi-selection handlers (for future use when needed)
     // Removed for simplification
 
@@ -1107,6 +1168,13 @@ const Zen = () => {
                             <div className='zen__status-icon'>📈</div>
                             <div className='zen__status-label'>Advanced Features</div>
                             <div className='zen__status-description'>Access performance trading tools</div>
+                            <button
+                                className={`zen__btn zen__btn--analysis ${showOptimizer ? 'zen__btn--active' : ''}`}
+                                onClick={() => setShowOptimizer(!showOptimizer)}
+                                title={showOptimizer ? 'Hide optimizer' : 'Optimize settings on historical ticks'}
+                            >
+                                {showOptimizer ? 'HIDE OPTIMIZER' : 'OPTIMIZE'}
+                            </button>
                         </div>
 
                         <div className='zen__status-card'>
@@ -1145,9 +1213,16 @@ const Zen = () => {
                     </div>
                 </div>
 
+                {/* Walk-Forward Optimizer */}
+                {showOptimizer && (
+                    <div className='zen__optimizer-section'>
+                        <ZenOptimizerPanel baseConfig={getOptimizerConfig()} onApply={handleApplyOptimizedConfig} />
+                    </div>
+                )}
+
                 {/* Transaction History */}
                 <div className='zen__transactions-section'>
-                    <TransactionHistory transactions={transactions} onExport={handleExport} onReset={handleReset} />
+                    <ZenTransactionHistory transactions={transactions} onExport={handleExport} onReset={handleReset} />
                 </div>
 
                 {/* Tick Analysis Component */}
@@ -0,0 +1,136 @@
+/**
+ * Account Risk Gate Service Tests
+ */
+
+import { accountRiskGate } from '../account-risk-gate.service';
+
+describe('AccountRiskGateService', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        accountRiskGate.reset();
+        accountRiskGate.setLimits({ maxDailyLoss: 10, maxOpenContracts: 2, maxTradesPerMinute: 3 });
+    });
+
+    it('counts open contracts across all engines', () => {
+        expect(accountRiskGate.requestApproval({ engine: 'ZEN', stake: 1 }).allowed).toBe(true);
+        expect(accountRiskGate.requestApproval({ engine: 'SPEED_BOT', stake: 1 }).allowed).toBe(true);
+
+        const decision = accountRiskGate.requestApproval({ engine: 'SIGNALS', stake: 1 });
+
+        expect(decision.allowed).toBe(false);
+        expect(decision.reason).toBe('MAX_OPEN_CONTRACTS');
+        expect(accountRiskGate.getStatus().openByEngine).toEqual({ ZEN: 1, SPEED_BOT: 1 });
+    });
+
+    it('frees a slot when a contract settles or a buy is released', () => {
+        const first = accountRiskGate.requestApproval({ engine: 'ZEN', stake: 1 });
+        const second = accountRiskGate.requestApproval({ engine: 'FAST_LANE', stake: 1 });
+        accountRiskGate.attachContract(first.ticketId!, 12345);
+
+        accountRiskGate.recordSettlement(12345, 0.95);
+        accountRiskGate.recordSettlement('12345', 0.95);
+        accountRiskGate.releaseTicket(second.ticketId!);
+
+        const status = accountRiskGate.getStatus();
+        expect(status.openContracts).toBe(0);
+        expect(status.dailyProfit).toBe(0.95);
+    });
+
+    it('counts open stakes against the daily loss limit', () => {
+        accountRiskGate.setLimits({ maxOpenContracts: 10 });
+        const ticket = accountRiskGate.requestApproval({ engine: 'ZEN', stake: 4 }).ticketId!;
+        accountRiskGate.recordSettlement(ticket, -4);
+        accountRiskGate.requestApproval({ engine: 'SPEED_BOT', stake: 4 });
+
+        const decision = accountRiskGate.requestApproval({ engine: 'ACCUMULATOR', stake: 3 });
+
+        expect(decision.allowed).toBe(false);
+        expect(decision.reason).toBe('DAILY_LOSS_LIMIT');
+        expect(accountRiskGate.requestApproval({ engine: 'ACCUMULATOR', stake: 2 }).allowed).toBe(true);
+    });
+
+    it('limits the combined trade rate per minute', () => {
+        accountRiskGate.setLimits({ maxOpenContracts: 10 });
+        const now = 1_700_000_000_000;
+        ['ZEN', 'SPEED_BOT', 'SIGNALS'].forEach(engine => {
+            const ticket = accountRiskGate.requestApproval({ engine: engine as 'ZEN', stake: 1 }, now).ticketId!;
+            accountRiskGate.recordSettlement(ticket, 0.9);
+        });
+
+        expect(accountRiskGate.requestApproval({ engine: 'FAST_LANE', stake: 1 }, now + 1000).reason).toBe(
+            'TRADE_RATE_LIMIT'
+        );
+        expect(accountRiskGate.requestApproval({ engine: 'FAST_LANE', stake: 1 }, now + 61000).allowed).toBe(true);
+    });
+
+    it('books a stale unsettled contract as a full loss until it settles', () => {
+        accountRiskGate.setLimits({ maxOpenContracts: 10, staleContractTimeout: 10 });
+        const now = Date.now();
+        const ticket = accountRiskGate.requestApproval({ engine: 'TICKSHARK', stake: 4 }, now).ticketId!;
+        accountRiskGate.attachContract(ticket, 777);
+
+        const stale = accountRiskGate.getStatus(now + 11 * 60 * 1000);
+        expect(stale).toMatchObject({ openContracts: 0, dailyProfit: -4, unreconciledContracts: 1 });
+        expect(accountRiskGate.requestApproval({ engine: 'ZEN', stake: 7 }, now + 11 * 60 * 1000).reason).toBe(
+            'DAILY_LOSS_LIMIT'
+        );
+
+        // The real settlement replaces the worst-case booking
+        accountRiskGate.recordSettlement(777, 3.8);
+        expect(accountRiskGate.getStatus()).toMatchObject({ dailyProfit: 3.8, unreconciledContracts: 0 });
+    });
+
+    it('charges settlements to the day their ticket was opened', () => {
+        accountRiskGate.setLimits({ maxOpenContracts: 10, staleContractTimeout: 10 });
+        const yesterday = new Date();
+        yesterday.setDate(yesterday.getDate() - 1);
+        yesterday.setHours(12, 0, 0, 0);
+        const opened = yesterday.getTime();
+
+        const stale = accountRiskGate.requestApproval({ engine: 'SIGNALS', stake: 4 }, opened).ticketId!;
+        accountRiskGate.attachContract(stale, 888);
+        expect(accountRiskGate.getStatus(opened + 11 * 60 * 1000)).toMatchObject({ dailyProfit: -4 });
+        const late = accountRiskGate.requestApproval({ engine: 'ZEN', stake: 4 }, opened + 12 * 60 * 1000).ticketId!;
+
+        accountRiskGate.recordSettlement(888, 3.8);
+        accountRiskGate.recordSettlement(late, -4);
+        const today = accountRiskGate.requestApproval({ engine: 'ZEN', stake: 2 }).ticketId!;
+        accountRiskGate.recordSettlement(today, 1.9);
+
+        expect(accountRiskGate.getStatus()).toMatchObject({
+            dailyProfit: 1.9,
+            tradesToday: 1,
+            unreconciledContracts: 0,
+        });
+    });
+
+    it('blocks every engine while the kill switch is active', () => {
+        accountRiskGate.activateKillSwitch('Manual stop');
+
+        expect(accountRiskGate.requestApproval({ engine: 'ZEN', stake: 1 }).reason).toBe('KILL_SWITCH');
+
+        accountRiskGate.releaseKillSwitch();
+        expect(accountRiskGate.requestApproval({ engine: 'ZEN', stake: 1 }).allowed).toBe(true);
+    });
+
+    it('writes an audit record for each rejection', () => {
+        accountRiskGate.activateKillSwitch('Manual stop');
+        accountRiskGate.requestApproval({ engine: 'SIGNALS', stake: 2, symbol: 'R_100', contractType: 'DIGITEVEN' });
+        accountRiskGate.requestApproval({ engine: 'ZEN', stake: 0 });
+
+        const [latest, earliest] = accountRiskGate.getAuditLog();
+        expect(earliest).toMatchObject({
+            engine: 'SIGNALS',
+            stake: 2,
+            symbol: 'R_100',
+            reason: 'KILL_SWITCH',
+            message: 'Kill switch active: Manual stop',
+            snapshot: expect.objectContaining({ killSwitchActive: true }),
+        });
+        expect(latest.engine).toBe('ZEN');
+        expect(accountRiskGate.getAuditLog('SIGNALS')).toHaveLength(1);
+        expect(JSON.parse(localStorage.getItem('accountRiskGate_audit')!)).toHaveLength(2);
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * Accumulator Analysis Service Tests
+ */
+
+import { api_base } from '../../external/bot-skeleton/services/api/api-base';
+import type { AccumulatorConfig } from '../../types/accumulator/accumulator.types';
+import { accountRiskGate } from '../account-risk-gate.service';
+import { accumulatorAnalysisService } from '../accumulator/accumulator-analysis.service';
+import { derivConnectionPool } from '../deriv-connection-pool.service';
+
+jest.mock('../../external/bot-skeleton/services/api/api-base', () => ({
+    api_base: { api: undefined, is_authorized: true, account_info: { balance: 100, currency: 'USD' } },
+}));
+
+jest.mock('../deriv-connection-pool.service', () => ({
+    derivConnectionPool: { subscribeToTicks: jest.fn() },
+}));
+
+jest.mock('../historical-tick-loader.service', () => ({
+    historicalTickLoader: { loadHistoricalTicksWithRetry: jest.fn(async () => ({ ticks: [] })) },
+}));
+
+type MessageHandler = (message: { data: Record<string, unknown> }) => void;
+
+// Kept real for the test that fakes the settlement timers
+const realSetTimeout = setTimeout;
+const flush = () => new Promise(resolve => realSetTimeout(resolve, 0));
+
+const config: AccumulatorConfig = {
+    growthRate: 1,
+    takeProfit: 50,
+    stopLoss: 50,
+    maxTicks: 3,
+    minTicks: 1,
+    market: 'R_100',
+    initialStake: 1,
+    strategy: 'TICK_BASED_EXIT',
+};
+
+/**
+ * Deriv API double with a 1% barrier: each `buy` opens the next contract id, `sell` answers with the
+ * queued responses, and contracts sell through the message stream, and any later poll, once the
+ * test calls settle().
+ */
+const mockApi = (sellResponses: (Record<string, unknown> | Error)[] = []) => {
+    const handlers: MessageHandler[] = [];
+    const sold = new Map<string, Record<string, unknown>>();
+    let nextContractId = 1;
+    const send = jest.fn(async (request: Record<string, unknown>) => {
+        if (request.proposal) return { proposal: { contract_details: { tick_size_barrier: 0.01 } } };
+        if (request.buy) return { buy: { contract_id: nextContractId++, buy_price: 1 } };
+        if (request.sell) {
+            const response = sellResponses.shift();
+            if (response instanceof Error) throw response;
+            return response;
+        }
+        if (request.forget) return { forget: 1 };
+        const settled = sold.get(String(request.contract_id));
+        if (settled) return { proposal_open_contract: settled };
+        return {
+            proposal_open_contract: { contract_id: request.contract_id, is_sold: 0 },
+            subscription: { id: `sub_${request.contract_id}` },
+        };
+    });
+
+    api_base.api = {
+        send,
+        onMessage: () => ({
+            subscribe: (handler: MessageHandler) => {
+                handlers.push(handler);
+                return { unsubscribe: () => handlers.splice(handlers.indexOf(handler), 1) };
+            },
+        }),
+    } as unknown as typeof api_base.api;
+
+    const settle = (contractId: number, profit: number, sellPrice: number) => {
+        const contract = {
+            contract_id: contractId,
+            is_sold: 1,
+            buy_price: 1,
+            profit,
+            sell_price: sellPrice,
+            exit_tick: 1000,
+        };
+        sold.set(String(contractId), contract);
+        [...handlers].forEach(handler => handler({ data: { proposal_open_contract: contract } }));
+    };
+    const buys = () => send.mock.calls.filter(([request]) => request.buy).length;
+
+    return { send, settle, buys };
+};
+
+describe('Accumulator analysis service', () => {
+    let tick: (quote: number) => Promise<void>;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    beforeEach(() => {
+        accountRiskGate.reset();
+        (derivConnectionPool.subscribeToTicks as jest.Mock).mockImplementation(
+            async (_symbol: string, callback: (tickData: unknown) => void) => {
+                tick = async (quote: number) => {
+                    callback({ tick: { quote, epoch: Math.floor(Date.now() / 1000) } });
+                    await flush();
+                    await flush();
+                };
+                return () => undefined;
+            }
+        );
+    });
+
+    afterEach(() => {
+        accumulatorAnalysisService.stopAnalysis();
+        jest.useRealTimers();
+        (api_base.account_info as { currency?: string }).currency = 'USD';
+    });
+
+    it('books a live knock-out from the settled contract and only then buys the next one', async () => {
+        const { settle, buys } = mockApi();
+        const session = await accumulatorAnalysisService.startTickBot(config);
+
+        await tick(1000);
+        expect(buys()).toBe(1);
+
+        // The local barrier check says knocked out, but Deriv has not settled the contract yet
+        await tick(1100);
+        await tick(1100);
+        expect(session.trades).toEqual([]);
+        expect(buys()).toBe(1);
+
+        settle(1, -1, 0);
+        expect(session.trades).toEqual([expect.objectContaining({ action: 'KNOCK_OUT', profit: -1 })]);
+        expect(session.knockOuts).toBe(1);
+        expect(accountRiskGate.getStatus().openContracts).toBe(0);
+
+        await tick(1100);
+        expect(buys()).toBe(2);
+        settle(2, -1, 0);
+    });
+
+    it('keeps a live contract open when its sell fails and books the profit Deriv reports', async () => {
+        const { send, settle, buys } = mockApi([new Error('Socket closed'), { sell: { sold_for: 1.02 } }]);
+        const session = await accumulatorAnalysisService.startTickBot(config);
+
+        await tick(1000);
+        await tick(1001);
+        await tick(1002);
+        await tick(1003);
+        expect(send).toHaveBeenCalledWith({ sell: 1, price: 0 });
+        expect(session.trades).toEqual([]);
+
+        // The failed sell leaves the contract open, so the next tick sells it again rather than buying
+        await tick(1004);
+        expect(send.mock.calls.filter(([request]) => request.sell)).toHaveLength(2);
+        expect(session.trades).toEqual([]);
+        expect(buys()).toBe(1);
+
+        settle(1, 0.04, 1.04);
+        expect(session.trades).toEqual([expect.objectContaining({ action: 'EXIT', profit: 0.04, value: 1.04 })]);
+        expect(session.profit).toBe(0.04);
+    });
+
+    it('buys in the account currency and stops waiting for a contract that never settles', async () => {
+        jest.useFakeTimers();
+        (api_base.account_info as { currency?: string }).currency = 'EUR';
+        const { send, settle, buys } = mockApi();
+        const session = await accumulatorAnalysisService.startTickBot(config);
+
+        await tick(1000);
+        expect(send).toHaveBeenCalledWith(
+            expect.objectContaining({ buy: 1, parameters: expect.objectContaining({ currency: 'EUR' }) })
+        );
+
+        // The bot gives up on the contract and ends the session instead of stalling on it
+        jest.advanceTimersByTime(10 * 60 * 1000);
+        await flush();
+        expect(session.status).toBe('COMPLETED');
+        expect(accountRiskGate.getStatus().openContracts).toBe(1);
+
+        await tick(1001);
+        expect(buys()).toBe(1);
+
+        // A late settlement is still picked up by polling, booked and closes the risk gate ticket
+        settle(1, 0.5, 1.5);
+        jest.advanceTimersByTime(30 * 1000);
+        await flush();
+        expect(session.trades).toEqual([expect.objectContaining({ action: 'EXIT', profit: 0.5 })]);
+        expect(accountRiskGate.getStatus().openContracts).toBe(0);
+    });
+});
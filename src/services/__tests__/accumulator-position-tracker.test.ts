@@ -0,0 +1,72 @@
+/**
+ * Accumulator Position Tracker Tests
+ */
+
+import {
+    AccumulatorPositionTracker,
+    estimateBarrierFromReturns,
+    getAccumulatorValue,
+    getTakeProfitTicks,
+    isKnockOut,
+} from '../accumulator/accumulator-position-tracker';
+
+describe('AccumulatorPositionTracker', () => {
+    it('grows the contract value on every tick inside the barrier range', () => {
+        const tracker = new AccumulatorPositionTracker(2, 0.001);
+        tracker.open(10, 1000);
+
+        tracker.processTick(1000.5);
+        const outcome = tracker.processTick(1000.1);
+
+        expect(outcome?.type).toBe('SURVIVED');
+        expect(outcome?.position.ticksHeld).toBe(2);
+        expect(outcome?.position.currentValue).toBe(10.4);
+    });
+
+    it('knocks the contract out when the spot touches the barrier of the previous tick', () => {
+        const tracker = new AccumulatorPositionTracker(2, 0.001);
+        tracker.open(10, 1000);
+        tracker.processTick(1000.5);
+
+        const outcome = tracker.processTick(1001.5005);
+
+        expect(outcome).toMatchObject({ type: 'KNOCK_OUT', profit: -10 });
+        expect(tracker.getPosition()).toBeNull();
+    });
+
+    it('closes at the current value', () => {
+        const tracker = new AccumulatorPositionTracker(5, 0.01);
+        tracker.open(1, 100);
+        tracker.processTick(100.2);
+        tracker.processTick(100.4);
+
+        expect(tracker.close()?.profit).toBe(0.1);
+        expect(tracker.close()).toBeNull();
+    });
+});
+
+describe('accumulator helpers', () => {
+    it('detects barrier breaches in either direction', () => {
+        expect(isKnockOut(100, 100.09, 0.001)).toBe(false);
+        expect(isKnockOut(100, 99.9, 0.001)).toBe(true);
+    });
+
+    it('compounds the growth rate per tick', () => {
+        expect(getAccumulatorValue(1, 3, 10)).toBe(1.34);
+    });
+
+    it('derives the ticks needed for a take-profit percentage', () => {
+        expect(getTakeProfitTicks(2, 25)).toBe(12);
+        expect(getTakeProfitTicks(5, 1)).toBe(1);
+    });
+
+    it('estimates a wider barrier for lower growth rates', () => {
+        const returns = Array.from({ length: 100 }, (_, index) => (index % 2 ? 1 : -1) * (index + 1) * 0.00001);
+
+        const low = estimateBarrierFromReturns(returns, 1)!;
+        const high = estimateBarrierFromReturns(returns, 5)!;
+
+        expect(low).toBeGreaterThan(high);
+        expect(estimateBarrierFromReturns(returns.slice(0, 5), 1)).toBeNull();
+    });
+});
@@ -33,6 +33,7 @@ describe('AutoTraderService', () => {
         supportingFactors: ['Factor 1'],
         riskLevel: 'LOW',
         recommendedAction: 'TRADE',
+        provenance: 'live',
     };
 
     const mockEntryPoint: EntryPointAnalysis = {
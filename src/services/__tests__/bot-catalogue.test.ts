@@ -0,0 +1,185 @@
+/**
+ * Bot Catalogue Tests
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { botCatalogueService } from '../bot-catalogue.service';
+import {
+    BOT_CATALOGUE,
+    catalogueItemFromEntry,
+    catalogueItemFromStrategy,
+    compareVersions,
+    DEFAULT_CATALOGUE_FILTER,
+    filterBotCatalogue,
+    getCatalogueEntry,
+    getChangesBetween,
+} from '../bot-manifest/bot-catalogue';
+import { configureBundledBotXml } from '../bot-manifest/bot-xml-parameters';
+
+const loadBundledBot = (file: string) => readFileSync(join(__dirname, '../../../public', file), 'utf8');
+
+const razielXml = loadBundledBot('Raziel Over Under.xml');
+
+const fetchMock = jest.fn(async (file: string) => ({
+    ok: true,
+    statusText: 'OK',
+    text: async () => loadBundledBot(decodeURIComponent(file)),
+}));
+
+describe('catalogue data', () => {
+    test('every catalogued bot has a manifest and a changelog entry for its version', () => {
+        BOT_CATALOGUE.forEach(entry => {
+            const item = catalogueItemFromEntry(entry, '');
+
+            expect(item.parameters.length).toBeGreaterThan(0);
+            expect(entry.changelog.map(change => change.version)).toContain(entry.version);
+        });
+    });
+
+    test('every catalogued bot matches its XML file in public', () => {
+        BOT_CATALOGUE.forEach(entry => {
+            const xml = readFileSync(join(__dirname, '../../../public', entry.file));
+
+            expect({
+                file: entry.file,
+                contentHash: createHash('sha256').update(xml).digest('hex').slice(0, 16),
+            }).toEqual({ file: entry.file, contentHash: entry.contentHash });
+        });
+    });
+
+    test('compares versions numerically', () => {
+        expect(compareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+        expect(compareVersions('1.0', '1.0.0')).toBe(0);
+        expect(compareVersions('0.9.9', '1.0.0')).toBeLessThan(0);
+    });
+
+    test('lists the changes between two versions, newest first', () => {
+        const entry = {
+            ...BOT_CATALOGUE[0],
+            version: '1.2.0',
+            changelog: [
+                { version: '1.0.0', date: '2026-01-01', notes: ['First'] },
+                { version: '1.1.0', date: '2026-02-01', notes: ['Second'] },
+                { version: '1.2.0', date: '2026-03-01', notes: ['Third'] },
+            ],
+        };
+
+        expect(getChangesBetween(entry, '1.0.0').map(change => change.version)).toEqual(['1.2.0', '1.1.0']);
+        expect(getChangesBetween(entry, '1.0.0', '1.1.0').map(change => change.version)).toEqual(['1.1.0']);
+        expect(getChangesBetween(entry, '1.2.0')).toEqual([]);
+    });
+});
+
+describe('searching the catalogue', () => {
+    const items = [
+        ...BOT_CATALOGUE.map(entry => catalogueItemFromEntry(entry, '')),
+        catalogueItemFromStrategy({
+            id: 'Raziel Over Under.xml',
+            name: 'My Raziel',
+            xml: configureBundledBotXml('Raziel Over Under.xml', razielXml, { contractType: 'DIGITUNDER' }).xml,
+            timestamp: 1,
+            save_type: 'local',
+        }),
+    ];
+    const names = (filter: Partial<typeof DEFAULT_CATALOGUE_FILTER>) =>
+        filterBotCatalogue(items, { ...DEFAULT_CATALOGUE_FILTER, ...filter }).map(item => item.name);
+
+    test('matches every search term against names, descriptions and parameters', () => {
+        expect(names({ query: 'raziel' })).toEqual(['Raziel Over Under', 'My Raziel']);
+        expect(names({ query: 'entry digit' })).toEqual(['PATEL (with Entry)']);
+        expect(names({ query: 'search number' })).toEqual(['PATEL (with Entry)']);
+        expect(names({ query: 'nothing like this' })).toEqual([]);
+    });
+
+    test('filters by contract type and source', () => {
+        expect(names({ contractType: 'DIGITMATCH' })).toEqual(['PATEL (with Entry)']);
+        expect(names({ contractType: 'DIGITOVER', source: 'catalogue' })).not.toContain('UNDER 7, UNDER 5');
+        expect(names({ source: 'saved' })).toEqual(['My Raziel']);
+    });
+
+    test('describes saved strategies from their XML and links them to the bot they came from', () => {
+        const saved = items[items.length - 1];
+
+        expect(saved).toMatchObject({
+            source: 'saved',
+            basedOn: 'Raziel Over Under.xml',
+            markets: ['1HZ50V'],
+            contractTypes: ['DIGITUNDER'],
+        });
+        expect(catalogueItemFromStrategy({ ...saved, id: 'abc', timestamp: 1, save_type: 'local' }).basedOn).toBe(
+            undefined
+        );
+    });
+});
+
+describe('BotCatalogueService', () => {
+    const raziel = getCatalogueEntry('Raziel Over Under.xml')!;
+    const original = { version: raziel.version, contentHash: raziel.contentHash, changelog: raziel.changelog };
+
+    beforeAll(() => {
+        global.fetch = fetchMock as unknown as typeof fetch;
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        Object.assign(raziel, original);
+        localStorage.removeItem('pipnova_bot_catalogue_loads');
+    });
+
+    test('fetches each bot once per content hash', async () => {
+        const first = await botCatalogueService.loadCatalogue();
+        const fetched = fetchMock.mock.calls.length;
+        const second = await botCatalogueService.loadCatalogue();
+
+        expect(first).toHaveLength(BOT_CATALOGUE.length);
+        expect(fetched).toBe(BOT_CATALOGUE.length);
+        expect(fetchMock).toHaveBeenCalledTimes(fetched);
+        expect(second.map(item => item.xml)).toEqual(first.map(item => item.xml));
+    });
+
+    test('fetches a bot again when its content hash changes', async () => {
+        await botCatalogueService.loadCatalogue();
+        fetchMock.mockClear();
+
+        raziel.contentHash = 'changed';
+        await botCatalogueService.loadCatalogue();
+
+        expect(fetchMock.mock.calls.map(([file]) => file)).toEqual(['Raziel Over Under.xml']);
+        expect(await botCatalogueService.getCachedVersions('Raziel Over Under.xml')).toEqual(['1.0.0']);
+    });
+
+    test('flags workspaces loaded from an older catalogue version', () => {
+        botCatalogueService.recordLoad('Raziel Over Under.xml', 'Raziel Over Under.xml');
+        expect(botCatalogueService.getWorkspaceStatus('Raziel Over Under.xml').state).toBe('current');
+
+        Object.assign(raziel, {
+            version: '1.1.0',
+            changelog: [...original.changelog, { version: '1.1.0', date: '2026-11-01', notes: ['Safer recovery'] }],
+        });
+        const status = botCatalogueService.getWorkspaceStatus('Raziel Over Under.xml');
+
+        expect(status).toMatchObject({ state: 'outdated', loadedVersion: '1.0.0' });
+        expect(status.changes.map(change => change.notes)).toEqual([['Safer recovery']]);
+        expect(botCatalogueService.getWorkspaceStatus('D strike 2.xml').state).toBe('untracked');
+        expect(botCatalogueService.getWorkspaceStatus('my-own-strategy').state).toBe('unknown');
+    });
+
+    test('compares an open workspace with the catalogue copy', async () => {
+        const edited = configureBundledBotXml('Raziel Over Under.xml', razielXml, { stake: 4, market: 'R_100' }).xml;
+
+        expect(await botCatalogueService.compareWithCatalogue('Raziel Over Under.xml', edited)).toEqual([
+            { key: 'market', label: 'Market', from: 'R_100', to: '1HZ50V' },
+            { key: 'stake', label: 'Stake', from: 4, to: 2 },
+        ]);
+    });
+
+    test('compares cached versions by changelog and parameters', async () => {
+        const comparison = await botCatalogueService.compareBotVersions('Raziel Over Under.xml', '1.0.0');
+
+        expect(comparison).toMatchObject({ fromVersion: '1.0.0', toVersion: '1.0.0', changes: [], parameters: [] });
+        expect(await botCatalogueService.getCachedVersions('Raziel Over Under.xml')).toEqual(['1.0.0']);
+        expect((await botCatalogueService.compareBotVersions('Raziel Over Under.xml', '0.9.0')).parameters).toBeNull();
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Bot XML Parameters Tests
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BOT_MANIFESTS, getBotManifest } from '../bot-manifest/bot-manifest';
+import {
+    BotParameterError,
+    configureBotXml,
+    parseBotXml,
+    readBotParameters,
+    validateBotXml,
+    writeBotParameters,
+} from '../bot-manifest/bot-xml-parameters';
+
+const loadBundledBot = (file: string) => readFileSync(join(__dirname, '../../../public', file), 'utf8');
+
+describe('bundled bot manifests', () => {
+    test.each(BOT_MANIFESTS.map(manifest => [manifest.file, manifest]))(
+        '%s declares only parameters that exist and are valid',
+        (_file, manifest) => {
+            const validation = validateBotXml(loadBundledBot(manifest.file), manifest);
+
+            expect(validation.errors).toEqual([]);
+            expect(Object.keys(validation.values)).toHaveLength(manifest.parameters.length);
+        }
+    );
+
+    test('looks manifests up by fetch path', () => {
+        expect(getBotManifest('/NOVAGRID 2026.xml')?.name).toBe('NOVAGRID 2026');
+        expect(getBotManifest('PATEL%20(with%20Entry).xml')?.name).toBe('PATEL (with Entry)');
+        expect(getBotManifest('CFX-EvenOdd.xml')).toBeUndefined();
+    });
+});
+
+describe('reading and writing parameters', () => {
+    const raziel = getBotManifest('Raziel Over Under.xml')!;
+
+    test('reads the values the bot ships with', () => {
+        const values = readBotParameters(parseBotXml(loadBundledBot(raziel.file)), raziel);
+
+        expect(values).toEqual({
+            market: '1HZ50V',
+            contractType: 'DIGITOVER',
+            stake: 2,
+            martingale: 2,
+            predictionBeforeLoss: 2,
+            predictionAfterLoss: 3,
+        });
+    });
+
+    test('writes every target of a parameter and only that parameter', () => {
+        const { xml, applied, missing, values } = configureBotXml(loadBundledBot(raziel.file), raziel, {
+            market: 'R_100',
+            contractType: 'DIGITUNDER',
+            stake: 1.5,
+            predictionAfterLoss: 6,
+        });
+
+        expect(applied).toEqual(['market', 'contractType', 'stake', 'predictionAfterLoss']);
+        expect(missing).toEqual([]);
+        expect(values).toMatchObject({ stake: 1.5, martingale: 2, predictionBeforeLoss: 2, predictionAfterLoss: 6 });
+        expect(xml.match(/<field name="PURCHASE_LIST">DIGITUNDER<\/field>/g)).toHaveLength(3);
+        expect(xml).not.toContain('DIGITOVER');
+    });
+
+    test('leaves look-alike variables alone', () => {
+        const novagrid = getBotManifest('NOVAGRID 2026.xml')!;
+        const xmlDoc = parseBotXml(loadBundledBot(novagrid.file));
+
+        writeBotParameters(xmlDoc, novagrid, { stake: 3 });
+
+        expect(readBotParameters(xmlDoc, novagrid)).toMatchObject({
+            stake: 3,
+            minimumStake: 15,
+            winPercentPerStake: 80,
+        });
+    });
+
+    test('rejects unknown keys and out-of-range values without writing anything', () => {
+        const xmlDoc = parseBotXml(loadBundledBot(raziel.file));
+        const before = readBotParameters(xmlDoc, raziel);
+
+        expect(() => writeBotParameters(xmlDoc, raziel, { stake: 5, predictionBeforeLoss: 12 })).toThrow(
+            BotParameterError
+        );
+        expect(() => writeBotParameters(xmlDoc, raziel, { contractType: 'DIGITMATCH' })).toThrow(/not one of/);
+        expect(() => writeBotParameters(xmlDoc, raziel, { entryDigit: 4 })).toThrow(/no parameter "entryDigit"/);
+        expect(readBotParameters(xmlDoc, raziel)).toEqual(before);
+    });
+
+    test('validation catches XML that no longer matches the manifest', () => {
+        const xml = loadBundledBot(raziel.file).replace(
+            '<field name="PURCHASE_LIST">DIGITOVER',
+            '<field name="PURCHASE_LIST">DIGITUNDER'
+        );
+
+        expect(validateBotXml(xml, raziel).errors).toEqual([expect.stringContaining('conflicting values')]);
+        expect(validateBotXml('<xml><block', raziel).valid).toBe(false);
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Data Provenance Tests
+ */
+
+import { analysisAIService } from '../analysis-ai.service';
+import { autoTrader } from '../auto-trader.service';
+import { historicalTickLoader } from '../historical-tick-loader.service';
+import type { PredictionResult } from '../pattern-predictor.service';
+import { SignalAnalysisService } from '../signal-analysis.service';
+import { signalTradingService } from '../signal-trading.service';
+import { RecordedTickSource } from '../tick-source/recorded-tick-source';
+import { SyntheticTickSource } from '../tick-source/synthetic-tick-source';
+import { combineProvenance, createSourceTick, isTradeableProvenance } from '../tick-source/tick-source';
+
+jest.mock('../../external/bot-skeleton/services/api/api-base', () => ({
+    api_base: { api: undefined, is_authorized: true, account_info: { balance: 100, currency: 'USD' } },
+}));
+
+jest.mock('../deriv-connection-pool.service', () => ({
+    derivConnectionPool: { getConnection: jest.fn(), getOptimalAnalysisConnection: jest.fn() },
+    ConnectionType: { SIGNALS: 'signals' },
+}));
+
+describe('Data provenance', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    test('combines provenances, treating Deriv history and live ticks as real market data', () => {
+        expect(combineProvenance(['recorded', 'recorded'])).toBe('recorded');
+        expect(combineProvenance(['historical', 'live', 'historical'])).toBe('live');
+        expect(combineProvenance(['live', 'synthetic'])).toBe('mixed');
+        expect(combineProvenance([])).toBe('mixed');
+
+        expect(isTradeableProvenance('live')).toBe(true);
+        expect(isTradeableProvenance('historical')).toBe(true);
+        expect(isTradeableProvenance('recorded')).toBe(false);
+        expect(isTradeableProvenance('mixed')).toBe(false);
+    });
+
+    test('tick sources stamp the ticks they produce', async () => {
+        const recorded = new RecordedTickSource(
+            {
+                R_75: [
+                    { epoch: 1, quote: 10.1 },
+                    { epoch: 2, quote: 10.2 },
+                ],
+            },
+            { speed: 0, startIndex: 1 }
+        );
+        const synthetic = new SyntheticTickSource({ seed: 42 });
+
+        expect(createSourceTick('R_100', 1000.12, 1).provenance).toBe('live');
+        expect((await recorded.getHistory('R_75', 1))[0].provenance).toBe('recorded');
+        expect(new Set((await synthetic.getHistory('R_100', 20)).map(tick => tick.provenance))).toEqual(
+            new Set(['synthetic'])
+        );
+        expect(historicalTickLoader.generateSampleHistoricalData('R_100', 10).provenance).toBe('synthetic');
+    });
+
+    test('AI predictions that fall back to random digits are no longer reported as live', () => {
+        const steady = analysisAIService.analyzePrediction(new Array(20).fill(2), 'R_100', 'live');
+        const sparse = analysisAIService.analyzePrediction([1, 2, 3], 'R_100', 'live');
+
+        expect(steady.provenance).toBe('live');
+        expect(sparse.provenance).toBe('mixed');
+        expect(analysisAIService.analyzePrediction([1, 2, 3], 'R_100', 'synthetic').provenance).toBe('synthetic');
+    });
+
+    test('tags signal analysis with the provenance of its ticks', () => {
+        const analysis = new SignalAnalysisService();
+        expect(analysis.getProvenance()).toBe('mixed');
+
+        analysis.addTick({ quote: 1000.12, epoch: 1, provenance: 'live' });
+        expect(analysis.getProvenance()).toBe('live');
+
+        analysis.addTick({ quote: 1000.14, epoch: 2, provenance: 'synthetic' });
+        expect(analysis.getProvenance()).toBe('mixed');
+        expect(analysis.getProvenance(1)).toBe('synthetic');
+    });
+
+    test('auto-traders refuse signals and predictions that do not say where their ticks came from', () => {
+        autoTrader.enable();
+        const decision = autoTrader.shouldExecuteTrade({
+            prediction: 'RISE',
+            confidence: 90,
+            patternType: 'STRONG_STREAK',
+            reasoning: 'Test reasoning',
+            supportingFactors: [],
+            riskLevel: 'LOW',
+            recommendedAction: 'TRADE',
+        });
+        autoTrader.disable();
+
+        expect(decision).toEqual({ shouldTrade: false, reason: 'Prediction is based on untagged data' });
+
+        const signal = { confidence: 'HIGH', market: 'R_100', type: 'RISE', status: 'ACTIVE' };
+        signalTradingService.setAutoTradeConfig({ enabled: true });
+        expect(signalTradingService.shouldAutoTrade(signal)).toBe(false);
+        expect(signalTradingService.shouldAutoTrade({ ...signal, provenance: 'live' })).toBe(true);
+        signalTradingService.setAutoTradeConfig({ enabled: false });
+    });
+
+    test('auto-trader refuses predictions built on synthetic ticks', () => {
+        const prediction: PredictionResult = {
+            prediction: 'RISE',
+            confidence: 90,
+            patternType: 'STRONG_STREAK',
+            reasoning: 'Test reasoning',
+            supportingFactors: [],
+            riskLevel: 'LOW',
+            recommendedAction: 'TRADE',
+            provenance: 'synthetic',
+        };
+
+        autoTrader.enable();
+        const decision = autoTrader.shouldExecuteTrade(prediction);
+        autoTrader.disable();
+
+        expect(decision.shouldTrade).toBe(false);
+        expect(decision.reason).toBe('Prediction is based on synthetic data');
+    });
+});
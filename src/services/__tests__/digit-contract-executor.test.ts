@@ -0,0 +1,194 @@
+/**
+ * Digit Contract Executor Tests
+ */
+
+import { api_base } from '../../external/bot-skeleton/services/api/api-base';
+import { accountRiskGate } from '../account-risk-gate.service';
+import { DigitContractExecutor } from '../digit-contract-executor.service';
+import { tickFeed } from '../tick-feed.service';
+import { RecordedTickSource } from '../tick-source/recorded-tick-source';
+import { tradeLedger } from '../trade-ledger.service';
+
+jest.mock('../../external/bot-skeleton/services/api/api-base', () => ({
+    api_base: { api: undefined, is_authorized: false, account_info: { currency: 'USD' } },
+}));
+
+describe('DigitContractExecutor', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(tradeLedger, 'record').mockResolvedValue(null);
+    });
+
+    beforeEach(() => {
+        accountRiskGate.reset();
+        api_base.api = undefined as unknown as typeof api_base.api;
+        api_base.is_authorized = false;
+    });
+
+    afterAll(() => {
+        tickFeed.useLiveSource();
+    });
+
+    test('paper trades settle on the tick `duration` ticks after the entry tick', async () => {
+        tickFeed.setSource(
+            new RecordedTickSource(
+                {
+                    R_50: [
+                        { epoch: 1, quote: 100.11, pipSize: 2 },
+                        { epoch: 2, quote: 100.12, pipSize: 2 },
+                        { epoch: 3, quote: 100.17, pipSize: 2 },
+                        { epoch: 4, quote: 100.13, pipSize: 2 },
+                    ],
+                },
+                { speed: 0 }
+            )
+        );
+        const executor = new DigitContractExecutor('Test');
+
+        const result = await executor.execute({
+            symbol: 'R_50',
+            contractType: 'DIGITOVER',
+            stake: 10,
+            duration: 2,
+            barrier: 4,
+        });
+
+        expect(result).toEqual(
+            expect.objectContaining({
+                mode: 'paper',
+                success: true,
+                entrySpot: 100.11,
+                exitSpot: 100.17,
+                exitDigit: 7,
+                isWon: true,
+                payout: 19,
+                profit: 9,
+                provenance: 'recorded',
+            })
+        );
+        expect(executor.getStats()).toEqual({ mode: 'paper', totalPL: 9, totalRuns: 1, won: 1, lost: 0 });
+    });
+
+    test('paper trades pay by the barrier', async () => {
+        tickFeed.setSource(
+            new RecordedTickSource(
+                {
+                    R_50: [
+                        { epoch: 1, quote: 100.11, pipSize: 2 },
+                        { epoch: 2, quote: 100.19, pipSize: 2 },
+                    ],
+                },
+                { speed: 0 }
+            )
+        );
+        const executor = new DigitContractExecutor('Test');
+
+        const result = await executor.execute({
+            symbol: 'R_50',
+            contractType: 'DIGITOVER',
+            stake: 10,
+            duration: 1,
+            barrier: 7,
+        });
+
+        // Over 7 wins on 8 or 9: 10 * 0.95 / 0.2
+        expect(result).toEqual(expect.objectContaining({ exitDigit: 9, isWon: true, payout: 47.5, profit: 37.5 }));
+    });
+
+    test('live trades buy through proposal and buy, then settle from proposal_open_contract', async () => {
+        const send = jest.fn(async (request: Record<string, unknown>) => {
+            if (request.proposal) return { proposal: { id: 'p1' } };
+            if (request.buy) return { buy: { contract_id: 55, buy_price: 1 } };
+            return {
+                proposal_open_contract: { contract_id: 55, is_sold: 1, buy_price: 1, payout: 9.5, profit: 8.5 },
+            };
+        });
+        api_base.api = {
+            send,
+            onMessage: () => ({ subscribe: () => ({ unsubscribe: jest.fn() }) }),
+        } as unknown as typeof api_base.api;
+        api_base.is_authorized = true;
+
+        const executor = new DigitContractExecutor('Test', 'live');
+        const result = await executor.execute({
+            symbol: 'R_100',
+            contractType: 'DIGITMATCH',
+            stake: 1,
+            duration: 1,
+            barrier: 3,
+        });
+
+        expect(send).toHaveBeenCalledWith(
+            expect.objectContaining({ proposal: 1, contract_type: 'DIGITMATCH', barrier: '3', duration_unit: 't' })
+        );
+        expect(send).toHaveBeenCalledWith({ buy: 'p1', price: 1 });
+        expect(result).toEqual(
+            expect.objectContaining({ mode: 'live', success: true, contractId: 55, profit: 8.5, isWon: true })
+        );
+        expect(tradeLedger.record).toHaveBeenCalledWith(
+            expect.objectContaining({ contractId: 55, engine: 'TRADING_HUB', strategy: 'Test', profit: 8.5 })
+        );
+    });
+
+    test('looks up a buy whose response was lost instead of buying again', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const send = jest.fn(async (request: Record<string, unknown>) => {
+            if (request.proposal) return { proposal: { id: 'p1' } };
+            if (request.buy) throw new Error('Socket closed');
+            if (request.portfolio) return { portfolio: { contracts: [] } };
+            if (request.profit_table) {
+                return {
+                    profit_table: {
+                        transactions: [
+                            {
+                                contract_id: 56,
+                                contract_type: 'DIGITDIFF',
+                                underlying_symbol: 'R_100',
+                                buy_price: 1,
+                                purchase_time: Math.floor(Date.now() / 1000),
+                            },
+                        ],
+                    },
+                };
+            }
+            return { proposal_open_contract: { contract_id: 56, is_sold: 1, buy_price: 1, payout: 1.1, profit: 0.1 } };
+        });
+        api_base.api = {
+            send,
+            onMessage: () => ({ subscribe: () => ({ unsubscribe: jest.fn() }) }),
+        } as unknown as typeof api_base.api;
+        api_base.is_authorized = true;
+
+        const result = await new DigitContractExecutor('Test', 'live').execute({
+            symbol: 'R_100',
+            contractType: 'DIGITDIFF',
+            stake: 1,
+            duration: 1,
+            barrier: 3,
+        });
+
+        expect(send.mock.calls.filter(([request]) => request.buy)).toHaveLength(1);
+        expect(result).toEqual(expect.objectContaining({ success: true, contractId: 56, profit: 0.1 }));
+        expect(accountRiskGate.getStatus()).toEqual(expect.objectContaining({ openContracts: 0, dailyProfit: 0.1 }));
+    });
+
+    test('keeps live and paper stats apart and refuses live trades when logged out', async () => {
+        const executor = new DigitContractExecutor('Test', 'live');
+
+        const result = await executor.execute({ symbol: 'R_100', contractType: 'DIGITEVEN', stake: 1, duration: 1 });
+        expect(result).toEqual(expect.objectContaining({ success: false, mode: 'live' }));
+        expect(executor.getStats()).toEqual({ mode: 'live', totalPL: 0, totalRuns: 0, won: 0, lost: 0 });
+
+        const tooSmall = await executor.execute({
+            symbol: 'R_100',
+            contractType: 'DIGITEVEN',
+            stake: 0.1,
+            duration: 1,
+        });
+        expect(tooSmall.error).toBe('Stake must be at least $0.35');
+
+        executor.setMode('paper');
+        expect(executor.getStats().mode).toBe('paper');
+    });
+});
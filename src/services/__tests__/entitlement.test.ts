@@ -0,0 +1,260 @@
+/**
+ * Entitlement Tests
+ */
+
+import { generateKeyPairSync, webcrypto } from 'crypto';
+import { EntitlementRegistry } from '../../../api/_lib/entitlement-registry';
+import { MemoryEntitlementAdapter, RedisRestEntitlementAdapter } from '../../../api/_lib/entitlement-store';
+import { signEntitlementToken } from '../../../api/_lib/entitlement-token';
+import { entitlementService, verifyEntitlementToken } from '../entitlement.service';
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+describe('Entitlements', () => {
+    const originalCrypto = globalThis.crypto;
+
+    beforeAll(() => {
+        // The shared jest polyfill only implements crypto.subtle.digest
+        Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterAll(() => {
+        Object.defineProperty(globalThis, 'crypto', { value: originalCrypto, configurable: true });
+    });
+
+    test('grants features per account, records the audit log and protects bootstrap admins', async () => {
+        const registry = new EntitlementRegistry(new MemoryEntitlementAdapter(), ['cr100']);
+
+        await registry.grant({ account: 'vrtc200', feature: 'bot:novagrid2026' }, 'CR100');
+        await registry.grant({ account: 'CR300', feature: 'signals' }, 'CR100');
+        await expect(registry.grant({ account: 'not-an-account', feature: 'signals' }, 'CR100')).rejects.toMatchObject({
+            status: 400,
+        });
+        await expect(registry.grant({ account: 'CR300', feature: 'everything' }, 'CR100')).rejects.toMatchObject({
+            status: 400,
+        });
+
+        expect((await registry.resolve(['CR100', 'VRTC200'])).features).toEqual(['bot:novagrid2026', 'admin']);
+
+        await registry.revoke('CR300', 'signals', 'CR100');
+        await expect(registry.revoke('CR100', 'admin', 'CR100')).rejects.toMatchObject({ status: 409 });
+        expect((await registry.resolve(['CR300'])).features).toEqual([]);
+
+        expect((await registry.listAudit()).map(entry => [entry.action, entry.account, entry.feature])).toEqual([
+            ['revoke', 'CR300', 'signals'],
+            ['grant', 'CR300', 'signals'],
+            ['grant', 'VRTC200', 'bot:novagrid2026'],
+        ]);
+        expect(await registry.listGrants()).toEqual([
+            expect.objectContaining({ account: 'CR100', feature: 'admin', bootstrap: true }),
+            expect.objectContaining({ account: 'VRTC200', feature: 'bot:novagrid2026', grantedBy: 'CR100' }),
+        ]);
+    });
+
+    test('time-boxed grants start, renew and expire on their dates and usage is reported', async () => {
+        const registry = new EntitlementRegistry(new MemoryEntitlementAdapter());
+        const day = 24 * 60 * 60 * 1000;
+        const now = Date.parse('2026-10-01T00:00:00Z');
+
+        await registry.grant(
+            { account: 'CR300', feature: 'signals', expiresAt: new Date(now + 7 * day).toISOString() },
+            'CR100',
+            now
+        );
+        await registry.grant(
+            { account: 'CR300', feature: 'bot:novagridElite', startsAt: new Date(now + 3 * day).toISOString() },
+            'CR100',
+            now
+        );
+        await expect(
+            registry.grant({ account: 'CR300', feature: 'signals', expiresAt: '2026-09-01' }, 'CR100', now)
+        ).rejects.toMatchObject({ status: 400 });
+
+        // Tokens are cut short at the next grant boundary
+        expect(await registry.resolve(['CR300'], now)).toEqual({ features: ['signals'], refreshAt: now + 3 * day });
+        expect((await registry.resolve(['CR300'], now + 5 * day)).features).toEqual(['signals', 'bot:novagridElite']);
+
+        // Renewing replaces the dates instead of failing
+        const renewal = await registry.grant(
+            { account: 'CR300', feature: 'signals', expiresAt: new Date(now + 30 * day).toISOString() },
+            'CR100',
+            now + 6 * day
+        );
+        expect(renewal.status).toBe('updated');
+        expect((await registry.resolve(['CR300'], now + 8 * day)).features).toContain('signals');
+
+        const results = await registry.grantMany(
+            [
+                { account: 'VRTC200', feature: 'signals', expiresAt: new Date(now + 7 * day).toISOString() },
+                { account: 'VRTC200', feature: 'bot:unknown' },
+            ],
+            'CR100',
+            now
+        );
+        expect(results.map(result => result.status)).toEqual(['created', 'failed']);
+
+        // Any resolve past the expiry removes the grant, without waiting for an admin to list grants
+        expect((await registry.resolve(['CR300'], now + 10 * day)).features).toEqual(['signals', 'bot:novagridElite']);
+        expect((await registry.listAudit())[0]).toMatchObject({
+            action: 'expire',
+            account: 'VRTC200',
+            actor: 'system',
+        });
+        expect((await registry.listGrants(now + 10 * day)).map(grant => grant.account + ' ' + grant.feature)).toEqual([
+            'CR300 bot:novagridElite',
+            'CR300 signals',
+        ]);
+
+        await registry.recordUsage('CR300', 'signals', now + day);
+        await registry.recordUsage('CR300', 'signals', now + 2 * day);
+        await registry.recordUsage('CR300', 'bot:novagridElite', now + 4 * day);
+        const report = await registry.usageReport();
+        expect(report.summary).toEqual([
+            expect.objectContaining({ feature: 'bot:novagridElite', count: 1 }),
+            {
+                account: 'CR300',
+                feature: 'signals',
+                count: 2,
+                firstUsedAt: new Date(now + day).toISOString(),
+                lastUsedAt: new Date(now + 2 * day).toISOString(),
+            },
+        ]);
+        expect(report.events).toHaveLength(3);
+    });
+
+    test('expiry never deletes a grant renewed after the expired one was read', async () => {
+        const adapter = new MemoryEntitlementAdapter();
+        const registry = new EntitlementRegistry(adapter);
+        const now = Date.parse('2026-10-01T00:00:00Z');
+
+        await registry.grant({ account: 'CR300', feature: 'signals', expiresAt: '2026-10-02' }, 'CR100', now);
+        const stale = await adapter.getGrants();
+        await registry.grant({ account: 'CR300', feature: 'signals', expiresAt: '2026-12-01' }, 'CR100', now);
+
+        // The expiry pass read the grants before the renewal landed
+        jest.spyOn(adapter, 'getGrants').mockResolvedValueOnce(stale);
+        expect(await registry.expireGrants(Date.parse('2026-10-03T00:00:00Z'))).toBe(0);
+        expect(await adapter.getGrants()).toEqual([expect.objectContaining({ expiresAt: '2026-12-01T00:00:00.000Z' })]);
+        expect((await registry.listAudit()).map(entry => entry.action)).toEqual(['update', 'grant']);
+    });
+
+    test('the Redis store deletes an expired grant only while it is unchanged', async () => {
+        const adapter = new RedisRestEntitlementAdapter('https://kv.example', 'token');
+        const grant = {
+            account: 'CR300',
+            feature: 'signals',
+            grantedBy: 'CR100',
+            grantedAt: '2026-10-01T00:00:00.000Z',
+            expiresAt: '2026-10-02T00:00:00.000Z',
+        };
+        const fetchMock = jest
+            .spyOn(global, 'fetch')
+            .mockResolvedValue({ ok: true, json: async () => ({ result: 0 }) } as Response);
+
+        expect(await adapter.deleteGrant('CR300', 'signals', grant)).toBe(false);
+        const [command, script, keyCount, ...args] = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+        expect([command, keyCount, ...args]).toEqual([
+            'EVAL',
+            '1',
+            'entitlements:grants',
+            'CR300:signals',
+            JSON.stringify(grant),
+        ]);
+        expect(script).toContain("redis.call('HDEL'");
+
+        fetchMock.mockRestore();
+    });
+
+    test('the Redis store trims the audit log to its newest entries', async () => {
+        const adapter = new RedisRestEntitlementAdapter('https://kv.example', 'token');
+        const fetchMock = jest
+            .spyOn(global, 'fetch')
+            .mockResolvedValue({ ok: true, json: async () => ({ result: 1 }) } as Response);
+        const entry = {
+            id: 'audit-1',
+            action: 'grant' as const,
+            account: 'CR300',
+            feature: 'signals' as const,
+            actor: 'CR100',
+            at: '2026-10-01T00:00:00.000Z',
+        };
+
+        await adapter.appendAudit(entry, 3);
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect([0, 1].map(index => JSON.parse(fetchMock.mock.calls[index][1]!.body as string))).toEqual([
+            ['LPUSH', 'entitlements:audit', JSON.stringify(entry)],
+            ['LTRIM', 'entitlements:audit', '0', '2'],
+        ]);
+
+        fetchMock.mockRestore();
+    });
+
+    test('client accepts tokens signed by the server and rejects forged or expired ones', async () => {
+        const now = Date.now();
+        const { token } = signEntitlementToken(
+            { loginid: 'CR100', accounts: ['CR100', 'VRTC200'] },
+            ['signals'],
+            privateKey,
+            now
+        );
+
+        expect(await verifyEntitlementToken(token, publicKeyPem, now)).toEqual(
+            expect.objectContaining({ sub: 'CR100', features: ['signals'] })
+        );
+
+        const [header, , signature] = token.split('.');
+        const forgedPayload = Buffer.from(
+            JSON.stringify({ sub: 'CR100', accounts: ['CR100'], features: ['admin'], iat: 0, exp: 9999999999 })
+        ).toString('base64url');
+        expect(await verifyEntitlementToken(`${header}.${forgedPayload}.${signature}`, publicKeyPem, now)).toBeNull();
+
+        const otherKey = generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey;
+        expect(
+            await verifyEntitlementToken(token, otherKey.export({ type: 'spki', format: 'pem' }).toString(), now)
+        ).toBeNull();
+        expect(await verifyEntitlementToken(token, publicKeyPem, now + 60 * 60 * 1000)).toBeNull();
+
+        const { claims } = signEntitlementToken(
+            { loginid: 'CR100', accounts: ['CR100'] },
+            ['signals'],
+            privateKey,
+            now,
+            now + 2 * 60 * 1000
+        );
+        expect(claims.exp - claims.iat).toBeLessThanOrEqual(120);
+    });
+
+    test('service exchanges the Deriv token for verified entitlements', async () => {
+        process.env.ENTITLEMENT_PUBLIC_KEY = publicKeyPem;
+        localStorage.setItem('authToken', 'deriv-token');
+        localStorage.setItem('active_loginid', 'VRTC200');
+        const { token } = signEntitlementToken(
+            { loginid: 'VRTC200', accounts: ['CR100', 'VRTC200'] },
+            ['bot:novagridElite'],
+            privateKey
+        );
+        const fetchMock = jest
+            .spyOn(global, 'fetch')
+            .mockResolvedValue({ ok: true, json: async () => ({ token }) } as Response);
+
+        expect(await entitlementService.hasFeature('bot:novagridElite')).toBe(true);
+        expect(await entitlementService.hasFeature('signals')).toBe(false);
+        expect(entitlementService.hasCachedFeature('bot:novagridElite')).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock).toHaveBeenCalledWith(
+            '/api/entitlements',
+            expect.objectContaining({ method: 'POST', body: JSON.stringify({ derivToken: 'deriv-token' }) })
+        );
+
+        // Switching to an account the token was not issued for drops the cached entitlements
+        localStorage.setItem('active_loginid', 'CR999');
+        expect(entitlementService.hasCachedFeature('bot:novagridElite')).toBe(false);
+
+        fetchMock.mockRestore();
+        entitlementService.clear();
+    });
+});
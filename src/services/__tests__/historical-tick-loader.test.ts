@@ -0,0 +1,62 @@
+/**
+ * Historical Tick Loader Tests
+ */
+
+import { api_base } from '../../external/bot-skeleton/services/api/api-base';
+import { historicalTickLoader } from '../historical-tick-loader.service';
+
+jest.mock('../../external/bot-skeleton/services/api/api-base', () => ({
+    api_base: { api: undefined },
+}));
+
+jest.mock('../deriv-connection-pool.service', () => ({
+    derivConnectionPool: { getConnection: () => ({ isConnectionActive: () => true }) },
+    ConnectionType: { SIGNALS: 'signals' },
+}));
+
+describe('Historical tick loader', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    test('reads the history block of a ticks_history response and keeps trailing zero digits', async () => {
+        const send = jest.fn(async () => ({
+            echo_req: { ticks_history: 'R_50', count: 3, end: 'latest', style: 'ticks' },
+            history: { prices: [245.1, 245.23, 245.2], times: [1700000000, 1700000002, 1700000004] },
+            msg_type: 'history',
+            pip_size: 4,
+        }));
+        api_base.api = { send } as unknown as typeof api_base.api;
+
+        const result = await historicalTickLoader.loadHistoricalTicks('R_50', 3);
+
+        expect(send).toHaveBeenCalledWith(expect.objectContaining({ ticks_history: 'R_50', count: 3 }));
+        expect(result).toMatchObject({ success: true, count: 3, provenance: 'historical' });
+        expect(result.ticks).toEqual([
+            { quote: 245.1, epoch: 1700000000, lastDigit: 0, provenance: 'historical' },
+            { quote: 245.23, epoch: 1700000002, lastDigit: 0, provenance: 'historical' },
+            { quote: 245.2, epoch: 1700000004, lastDigit: 0, provenance: 'historical' },
+        ]);
+    });
+
+    test('uses the last quoted digit at the pip size', async () => {
+        api_base.api = {
+            send: async () => ({ history: { prices: [1234.57, 1234.5], times: [1, 2] }, pip_size: 2 }),
+        } as unknown as typeof api_base.api;
+
+        const result = await historicalTickLoader.loadHistoricalTicks('R_100', 2);
+
+        expect(result.ticks.map(tick => tick.lastDigit)).toEqual([7, 0]);
+    });
+
+    test('fails when the API answers with an error', async () => {
+        api_base.api = {
+            send: async () => ({ error: { code: 'InvalidSymbol', message: 'Symbol R_0 is invalid.' } }),
+        } as unknown as typeof api_base.api;
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const result = await historicalTickLoader.loadHistoricalTicks('R_0', 2);
+
+        expect(result).toMatchObject({ success: false, error: 'Symbol R_0 is invalid.' });
+    });
+});
@@ -0,0 +1,179 @@
+/**
+ * Mock Deriv Server Tests
+ */
+
+import { getLocalServerEndpoint, getWebSocketURL } from '../../config/api-config';
+import { getWinProbability, priceContract } from '../mock-deriv/mock-contracts';
+import { MockDerivResponse, MockDerivServer } from '../mock-deriv/mock-deriv-server';
+
+const connect = (server: MockDerivServer) => {
+    const messages: MockDerivResponse[] = [];
+    const session = server.connect(message => messages.push(message));
+    const byType = (msgType: string) => messages.filter(message => message.msg_type === msgType);
+    const last = (msgType: string) => byType(msgType)[byType(msgType).length - 1];
+    return { session, messages, byType, last };
+};
+
+const DIGIT_EVEN = {
+    contract_type: 'DIGITEVEN',
+    symbol: 'R_100',
+    amount: 10,
+    basis: 'stake',
+    duration: 2,
+    duration_unit: 't',
+    currency: 'USD',
+};
+
+describe('MockDerivServer', () => {
+    test('streams the same seeded ticks for the same scenario', () => {
+        const run = (seed: number) => {
+            const server = new MockDerivServer({ seed, historySize: 20 });
+            const client = connect(server);
+            client.session.receive(JSON.stringify({ ticks_history: 'R_50', count: 5, end: 'latest', req_id: 7 }));
+            client.session.receive({ ticks: 'R_50', subscribe: 1 });
+            server.advance(3);
+            return client;
+        };
+
+        const first = run(11);
+        const again = run(11);
+        const history = first.last('history');
+
+        expect(history).toMatchObject({ req_id: 7, pip_size: 4 });
+        expect((history.history as { times: number[] }).times).toEqual([
+            1_699_999_996, 1_699_999_997, 1_699_999_998, 1_699_999_999, 1_700_000_000,
+        ]);
+        expect(first.byType('tick')).toHaveLength(4);
+        expect(first.byType('tick')).toEqual(again.byType('tick'));
+        expect(first.byType('tick')).not.toEqual(run(12).byType('tick'));
+        expect(first.last('tick').subscription?.id).toBeDefined();
+    });
+
+    test('prices proposals and settles bought contracts on scripted digits', () => {
+        const server = new MockDerivServer({ startEpoch: 1000 });
+        const client = connect(server);
+
+        client.session.receive({ proposal: 1, ...DIGIT_EVEN });
+        client.session.receive({ buy: 'unknown', price: 10 });
+        expect(client.last('buy').error?.code).toBe('AuthorizationRequired');
+
+        client.session.receive({ authorize: 'mock-demo-token' });
+        client.session.receive({ balance: 1, subscribe: 1 });
+        const proposal = client.last('proposal').proposal as { id: string; ask_price: number; payout: number };
+        expect(proposal).toMatchObject({ ask_price: 10, payout: 19 });
+
+        client.session.receive({ buy: proposal.id, price: 10, subscribe: 1 });
+        const { contract_id } = client.last('buy').buy as { contract_id: number };
+        expect(server.getAccount('VRTC1000001')?.balance).toBe(9990);
+
+        // Entry tick lands on 3, the second (exit) tick on 4
+        server.scriptDigits('R_100', [3, 4]);
+        server.advance();
+        expect(client.last('proposal_open_contract').proposal_open_contract).toMatchObject({
+            status: 'open',
+            is_sold: 0,
+            is_valid_to_sell: 0,
+        });
+
+        server.advance();
+        expect(client.last('proposal_open_contract').proposal_open_contract).toMatchObject({
+            contract_id,
+            status: 'won',
+            is_sold: 1,
+            sell_price: 19,
+            profit: 9,
+        });
+        expect(client.last('balance').balance).toMatchObject({ balance: 10009 });
+
+        // Settled contracts stop streaming
+        const streamed = client.byType('proposal_open_contract').length;
+        server.advance();
+        expect(client.byType('proposal_open_contract')).toHaveLength(streamed);
+        expect(server.getStats().openContracts).toBe(0);
+    });
+
+    test('sells rise/fall contracts at their intrinsic value and rejects invalid requests', () => {
+        const server = new MockDerivServer();
+        const client = connect(server);
+        client.session.receive({ authorize: 'mock-real-token' });
+
+        client.session.receive({
+            buy: 1,
+            price: 100,
+            parameters: { ...DIGIT_EVEN, contract_type: 'CALL', amount: 100, duration: 5 },
+        });
+        const { contract_id } = client.last('buy').buy as { contract_id: number };
+
+        server.scriptQuotes('R_100', [1200.5, 1201.5]);
+        server.advance(2);
+        client.session.receive({ sell: contract_id, price: 0 });
+
+        expect(client.last('sell').sell).toMatchObject({ contract_id, sold_for: 180.5 });
+        expect(server.getContract(contract_id)).toMatchObject({ status: 'sold', entry_tick: 1200.5 });
+        expect(server.getAccount('CR1000001')?.balance).toBe(1080.5);
+
+        client.session.receive({ sell: contract_id });
+        expect(client.last('sell').error?.code).toBe('InvalidSellContractProposal');
+
+        client.session.receive({ proposal: 1, ...DIGIT_EVEN, contract_type: 'DIGITOVER', barrier: 9 });
+        expect(client.last('proposal').error).toMatchObject({ code: 'ContractCreationFailure' });
+
+        client.session.receive({ buy: 1, price: 5000, parameters: { ...DIGIT_EVEN, amount: 5000 } });
+        expect(client.last('buy').error?.code).toBe('InsufficientBalance');
+
+        server.failNext('ticks', { code: 'RateLimit', message: 'Too many requests.' });
+        client.session.receive({ ticks: 'R_10' });
+        client.session.receive({ ticks: 'R_10' });
+        expect(client.byType('tick').map(message => message.error?.code)).toEqual(['RateLimit', undefined]);
+
+        client.session.receive('{not json');
+        client.session.receive({ cashier: 'deposit' });
+        expect(client.messages.slice(-2).map(message => message.error?.code)).toEqual([
+            'InputValidationFailed',
+            'UnrecognisedRequest',
+        ]);
+    });
+
+    test('forgets subscriptions by id and by type', () => {
+        const server = new MockDerivServer();
+        const client = connect(server);
+
+        client.session.receive({ ticks: 'R_10', subscribe: 1 });
+        client.session.receive({ ticks: 'R_25', subscribe: 1 });
+        const id = client.byType('tick')[0].subscription?.id;
+
+        client.session.receive({ forget: id });
+        expect(client.last('forget').forget).toBe(1);
+
+        client.session.receive({ forget_all: ['ticks'] });
+        expect(client.last('forget_all').forget_all).toHaveLength(1);
+
+        const count = client.messages.length;
+        server.advance(2);
+        expect(client.messages).toHaveLength(count);
+    });
+
+    test('contract pricing follows the digit win probability', () => {
+        expect(getWinProbability('DIGITOVER', 6)).toBeCloseTo(0.3);
+        expect(getWinProbability('DIGITUNDER', 6)).toBeCloseTo(0.6);
+        expect(
+            priceContract(
+                { ...DIGIT_EVEN, contract_type: 'DIGITMATCH', barrier: 5, basis: 'payout', amount: 95 } as never,
+                0.05
+            )
+        ).toEqual({ askPrice: 10, payout: 95 });
+    });
+});
+
+describe('Local server endpoint', () => {
+    afterEach(() => localStorage.removeItem('config.server_url'));
+
+    test('points socket URLs at a local server set from the endpoint page', () => {
+        localStorage.setItem('config.server_url', 'blue.derivws.com');
+        expect(getLocalServerEndpoint()).toBeNull();
+
+        localStorage.setItem('config.server_url', 'localhost:8765');
+        expect(getLocalServerEndpoint()).toBe('ws://localhost:8765/websockets/v3');
+        expect(getWebSocketURL('production', { app_id: '1' })).toBe('ws://localhost:8765/websockets/v3?app_id=1');
+    });
+});
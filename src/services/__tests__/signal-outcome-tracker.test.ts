@@ -0,0 +1,244 @@
+/**
+ * Signal Outcome Tracker Tests
+ */
+
+import {
+    buildCalibrationBuckets,
+    evaluatePrediction,
+    fromAnalysisSignal,
+    fromRealSignal,
+    fromScannerSignal,
+    SignalOutcome,
+    signalOutcomeTracker,
+    summariseOutcomes,
+} from '../signal-outcome-tracker.service';
+import { tickFeed } from '../tick-feed.service';
+import { createSourceTick, SourceTick, TickSource } from '../tick-source/tick-source';
+
+jest.mock('../deriv-connection-pool.service', () => ({
+    derivConnectionPool: { subscribeToTicks: jest.fn() },
+    ConnectionType: { SIGNALS: 'signals' },
+}));
+
+jest.mock('../deriv-api.service', () => ({
+    derivAPIService: { getTicksHistory: jest.fn() },
+}));
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const createManualSource = () => {
+    const emitters = new Map<string, (tick: SourceTick) => void>();
+    const unsubscribes: string[] = [];
+
+    const source: TickSource = {
+        kind: 'synthetic',
+        name: 'Manual',
+        subscribe: async (symbol, onTick) => {
+            emitters.set(symbol, onTick);
+            return () => unsubscribes.push(symbol);
+        },
+        getHistory: async () => [],
+    };
+
+    let epoch = 1;
+    const emitDigits = (symbol: string, digits: number[]) =>
+        digits.forEach(digit => emitters.get(symbol)?.(createSourceTick(symbol, 1000 + digit / 100, epoch++, 2)));
+
+    return { source, emitDigits, unsubscribes };
+};
+
+const outcome = (confidence: number, status: SignalOutcome['status']): SignalOutcome => ({
+    id: `${confidence}-${status}-${Math.random()}`,
+    generator: 'PATEL',
+    signalType: 'OVER_UNDER',
+    symbol: 'R_10',
+    confidence,
+    prediction: { contract: 'OVER', barrier: 4, durationTicks: 1 },
+    emittedAt: 0,
+    status,
+});
+
+describe('signal outcome evaluation', () => {
+    const ticks = [1000.13, 1000.27, 1000.05].map((quote, index) => createSourceTick('R_10', quote, index, 2));
+
+    test('settles digit contracts on the last tick of the duration', () => {
+        expect(evaluatePrediction({ contract: 'OVER', barrier: 5, durationTicks: 2 }, ticks)).toBe(true);
+        expect(evaluatePrediction({ contract: 'UNDER', barrier: 6, durationTicks: 3 }, ticks)).toBe(true);
+        expect(evaluatePrediction({ contract: 'ODD', durationTicks: 1 }, ticks)).toBe(true);
+        expect(evaluatePrediction({ contract: 'MATCHES', barrier: 7, durationTicks: 3 }, ticks)).toBe(false);
+        expect(evaluatePrediction({ contract: 'EVEN', durationTicks: 4 }, ticks)).toBeNull();
+    });
+
+    test('settles rise/fall against the entry tick', () => {
+        expect(evaluatePrediction({ contract: 'RISE', durationTicks: 1 }, ticks)).toBe(true);
+        expect(evaluatePrediction({ contract: 'FALL', durationTicks: 2 }, ticks)).toBe(true);
+        expect(evaluatePrediction({ contract: 'RISE', durationTicks: 3 }, ticks)).toBeNull();
+    });
+
+    test('compares claimed confidence with realised hit rate', () => {
+        const outcomes = [
+            outcome(80, 'WON'),
+            outcome(80, 'LOST'),
+            outcome(84, 'LOST'),
+            outcome(86, 'WON'),
+            outcome(55, 'WON'),
+            outcome(90, 'EXPIRED'),
+        ];
+
+        const stats = summariseOutcomes(outcomes);
+        expect(stats).toMatchObject({ settled: 5, wins: 3, losses: 2, hitRate: 60 });
+        expect(stats.avgClaimed).toBeCloseTo(77);
+        expect(stats.calibrationGap).toBeCloseTo(17);
+        expect(stats.brierScore).toBeCloseTo((0.04 + 0.64 + 0.7056 + 0.0196 + 0.2025) / 5);
+
+        expect(buildCalibrationBuckets(outcomes)).toEqual([
+            { from: 50, to: 60, settled: 1, wins: 1, claimed: 55, realised: 100 },
+            { from: 80, to: 90, settled: 4, wins: 2, claimed: 82.5, realised: 50 },
+        ]);
+    });
+
+    test('adapts generator signal shapes', () => {
+        expect(
+            fromRealSignal({
+                id: 'a1',
+                market: 'R_50',
+                signalType: 'HOT_DIGIT',
+                prediction: 'OVER3',
+                confidence: 72,
+                timestamp: 5,
+            } as never)
+        ).toMatchObject({
+            generator: 'ADVANCED_ALGO',
+            symbol: 'R_50',
+            prediction: { contract: 'OVER', barrier: 3, durationTicks: 5 },
+        });
+
+        expect(
+            fromScannerSignal('FIBONACCI_RANGING', {
+                market: 'R_25',
+                confidence: 60,
+                recommendation: { action: 'UNDER', barrier: 6, confidence: 68 },
+            })
+        ).toMatchObject({ signalType: 'UNDER_6', confidence: 68, prediction: { contract: 'UNDER', barrier: 6 } });
+
+        expect(fromAnalysisSignal({ type: 'MATCHES_DIFFERS', confidence: 0.4 } as never)).toBeNull();
+        expect(
+            fromAnalysisSignal({
+                id: 't1',
+                type: 'EVEN_ODD',
+                source: 'PATTERN',
+                symbol: 'R_75',
+                confidence: 0.65,
+                recommendedDuration: 3,
+                timestamp: 9,
+            } as never)
+        ).toMatchObject({ confidence: 65, signalType: 'PATTERN:EVEN_ODD', prediction: { contract: 'EVEN' } });
+    });
+});
+
+describe('SignalOutcomeTracker', () => {
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        await signalOutcomeTracker.clear();
+    });
+
+    test('settles tracked signals from the tick feed and reports per generator', async () => {
+        const { source, emitDigits, unsubscribes } = createManualSource();
+        tickFeed.setSource(source);
+
+        const settled: SignalOutcome[] = [];
+        const stop = signalOutcomeTracker.subscribe(result => settled.push(result));
+
+        signalOutcomeTracker.track({
+            generator: 'HOT_COLD_ZONE',
+            signalId: 'hc-1',
+            signalType: 'OVER_4',
+            symbol: 'R_10',
+            confidence: 70,
+            prediction: { contract: 'OVER', barrier: 4, durationTicks: 2 },
+        });
+        signalOutcomeTracker.track({
+            generator: 'PATEL',
+            signalType: 'EVEN',
+            symbol: 'R_10',
+            confidence: 60,
+            prediction: { contract: 'EVEN', durationTicks: 1 },
+        });
+        await flush();
+
+        emitDigits('R_10', [3]);
+        expect(settled.map(result => [result.generator, result.status])).toEqual([['PATEL', 'LOST']]);
+
+        emitDigits('R_10', [8]);
+        expect(settled[1]).toMatchObject({ generator: 'HOT_COLD_ZONE', status: 'WON', exitDigit: 8 });
+        expect(signalOutcomeTracker.getPending()).toHaveLength(0);
+        expect(unsubscribes).toEqual(['R_10']);
+
+        await flush();
+        const report = await signalOutcomeTracker.getReport();
+        expect(report.overall).toMatchObject({ settled: 2, wins: 1, hitRate: 50 });
+        expect(report.byGenerator.HOT_COLD_ZONE).toMatchObject({ settled: 1, hitRate: 100 });
+        expect(report.bySignalType.EVEN).toMatchObject({ settled: 1, hitRate: 0 });
+
+        const patelOnly = await signalOutcomeTracker.getReport({ generator: 'PATEL' });
+        expect(patelOnly.overall.settled).toBe(1);
+
+        stop();
+    });
+
+    test('tracks re-published signals once and rejects invalid barriers', async () => {
+        const { source } = createManualSource();
+        tickFeed.setSource(source);
+
+        const signal = {
+            generator: 'REALTIME_OVER' as const,
+            signalId: 'r-1',
+            signalType: 'OVER',
+            symbol: 'R_100',
+            confidence: 75,
+            prediction: { contract: 'OVER' as const, barrier: 2, durationTicks: 1 },
+        };
+
+        expect(signalOutcomeTracker.trackMany([signal, signal, null])).toHaveLength(1);
+        expect(
+            signalOutcomeTracker.track({
+                ...signal,
+                signalId: 'r-2',
+                prediction: { contract: 'OVER', barrier: 12, durationTicks: 1 },
+            })
+        ).toBeNull();
+        expect(signalOutcomeTracker.getPending()).toHaveLength(1);
+    });
+
+    test('forgets settled ids once their signals are too old to be re-published', async () => {
+        const { source, emitDigits } = createManualSource();
+        tickFeed.setSource(source);
+        const trackedIds = (signalOutcomeTracker as unknown as { trackedIds: Map<string, number> }).trackedIds;
+        const now = Date.now();
+        const signal = {
+            generator: 'REALTIME_OVER' as const,
+            signalId: 'r-1',
+            signalType: 'OVER',
+            symbol: 'R_100',
+            confidence: 75,
+            prediction: { contract: 'OVER' as const, barrier: 2, durationTicks: 1 },
+            emittedAt: now,
+        };
+
+        signalOutcomeTracker.track(signal);
+        await flush();
+        emitDigits('R_100', [5]);
+        expect(signalOutcomeTracker.track(signal)).toBeNull();
+
+        const later = jest.spyOn(Date, 'now').mockReturnValue(now + 6 * 60 * 1000);
+        expect(signalOutcomeTracker.track(signal)).toBeNull();
+
+        signalOutcomeTracker.track({ ...signal, signalId: 'r-2', emittedAt: undefined });
+        await flush();
+        emitDigits('R_100', [7]);
+        expect([...trackedIds.keys()]).toEqual(['REALTIME_OVER:r-2']);
+
+        later.mockRestore();
+    });
+});
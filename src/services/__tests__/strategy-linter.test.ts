@@ -0,0 +1,134 @@
+/**
+ * Strategy Linter Tests
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { strategyLinterService } from '../strategy-linter.service';
+
+const loadStrategy = (file: string) => readFileSync(join(__dirname, '../../xml', file), 'utf8');
+
+const workspace = (blocks: string, variables = '') =>
+    `<xml xmlns="https://developers.google.com/blockly/xml"><variables>${variables}</variables>${blocks}</xml>`;
+
+const tradeDefinition = (tradeType = 'evenodd', contractType = 'both') => `
+    <block type="trade_definition" id="trade">
+        <statement name="TRADE_OPTIONS">
+            <block type="trade_definition_tradetype" id="tradetype">
+                <field name="TRADETYPE_LIST">${tradeType}</field>
+                <next>
+                    <block type="trade_definition_contracttype" id="contracttype">
+                        <field name="TYPE_LIST">${contractType}</field>
+                    </block>
+                </next>
+            </block>
+        </statement>
+    </block>`;
+
+const beforePurchase = (contractType = 'DIGITEVEN') => `
+    <block type="before_purchase" id="before">
+        <statement name="BEFOREPURCHASE_STACK">
+            <block type="purchase" id="purchase"><field name="PURCHASE_LIST">${contractType}</field></block>
+        </statement>
+    </block>`;
+
+const ruleIds = (xml: string) => strategyLinterService.lint(xml).issues.map(issue => issue.ruleId);
+
+describe('StrategyLinterService', () => {
+    test('accepts a bounded martingale and flags the unbounded one', () => {
+        const bounded = strategyLinterService.lint(loadStrategy('martingale_max-stake.xml'));
+        const unbounded = strategyLinterService.lint(loadStrategy('martingale.xml'));
+
+        expect(bounded.issues).toEqual([]);
+        expect(unbounded.hasErrors).toBe(false);
+        expect(unbounded.issues).toEqual([
+            expect.objectContaining({
+                ruleId: 'unbounded-stake-growth',
+                severity: 'warning',
+                message: expect.stringContaining('martingale:multiplier'),
+            }),
+        ]);
+    });
+
+    test.each(['labouchere', 'fibonacci', 'paroli'])('accepts the %s templates', name => {
+        [`${name}.xml`, `accumulators_${name}.xml`].forEach(file => {
+            const xml = loadStrategy(file);
+
+            expect(strategyLinterService.lint(xml).issues).toEqual([]);
+            expect(xml).toContain('strategy_value="max_stake"');
+        });
+    });
+
+    test('reports a missing trade definition and a purchase the trade parameters do not allow', () => {
+        expect(strategyLinterService.lint(workspace(beforePurchase()))).toMatchObject({
+            hasErrors: true,
+            issues: [{ ruleId: 'missing-required-block', message: expect.stringContaining('Trade parameters') }],
+        });
+
+        const report = strategyLinterService.lint(
+            workspace(tradeDefinition('overunder', 'DIGITOVER') + beforePurchase('DIGITUNDER'))
+        );
+        expect(report.issues).toEqual([
+            expect.objectContaining({ ruleId: 'purchase-contract-type', severity: 'error', blockId: 'purchase' }),
+        ]);
+    });
+
+    test('reports stray blocks, undefined and unassigned variables, errors first', () => {
+        const report = strategyLinterService.lint(
+            workspace(
+                `${tradeDefinition()}${beforePurchase()}
+                <block type="text_print" id="stray">
+                    <value name="TEXT"><block type="variables_get" id="read"><field name="VAR" id="v1">stake</field></block></value>
+                </block>
+                <block type="tick_analysis" id="analysis">
+                    <statement name="TICKANALYSIS_STACK">
+                        <block type="variables_set" id="set"><field name="VAR" id="missing">ghost</field></block>
+                    </statement>
+                </block>`,
+                '<variable id="v1">stake</variable>'
+            )
+        );
+
+        expect(report.issues.map(issue => [issue.ruleId, issue.blockId])).toEqual([
+            ['undefined-variable', 'set'],
+            ['unreachable-block', 'stray'],
+            ['unassigned-variable', 'read'],
+        ]);
+        expect(report).toMatchObject({ errorCount: 1, warningCount: 2 });
+    });
+
+    test('reports trade again with no stop condition and blocks after it', () => {
+        const afterPurchase = `
+            <block type="after_purchase" id="after">
+                <statement name="AFTERPURCHASE_STACK">
+                    <block type="trade_again" id="again">
+                        <next><block type="text_print" id="dead"></block></next>
+                    </block>
+                </statement>
+            </block>`;
+
+        expect(ruleIds(workspace(tradeDefinition() + beforePurchase() + afterPurchase))).toEqual([
+            'unreachable-block',
+            'missing-profit-limits',
+            'trade-again-without-stop',
+        ]);
+    });
+
+    test('ignores disabled blocks and runs registered rules', () => {
+        const xml = workspace(
+            `${tradeDefinition()}${beforePurchase()}<block type="text_print" id="off" disabled="true"></block>`
+        );
+        expect(ruleIds(xml)).toEqual([]);
+
+        strategyLinterService.registerRule({
+            id: 'no-print',
+            severity: 'warning',
+            description: 'Test rule',
+            check: context => context.getBlocksOfType('purchase').map(() => ({ message: 'Found a purchase' })),
+        });
+        expect(ruleIds(xml)).toEqual(['no-print']);
+
+        strategyLinterService.unregisterRule('no-print');
+        expect(ruleIds(xml)).toEqual([]);
+    });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tick Feed Service Tests
+ */
+
+import { tickFeed } from '../tick-feed.service';
+import { RecordedTickSource } from '../tick-source/recorded-tick-source';
+import { SyntheticTickSource } from '../tick-source/synthetic-tick-source';
+import { createSourceTick, SourceTick, TickSource } from '../tick-source/tick-source';
+
+jest.mock('../deriv-connection-pool.service', () => ({
+    derivConnectionPool: { subscribeToTicks: jest.fn() },
+    ConnectionType: { SIGNALS: 'signals' },
+}));
+
+jest.mock('../deriv-api.service', () => ({
+    derivAPIService: { getTicksHistory: jest.fn() },
+}));
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Source whose ticks are pushed by the test
+ */
+const createManualSource = (history: SourceTick[] = []) => {
+    const emitters = new Map<string, (tick: SourceTick) => void>();
+    const unsubscribes: string[] = [];
+
+    const source: TickSource & { subscribe: jest.Mock; getHistory: jest.Mock } = {
+        kind: 'synthetic',
+        name: 'Manual',
+        subscribe: jest.fn(async (symbol: string, onTick: (tick: SourceTick) => void) => {
+            emitters.set(symbol, onTick);
+            return () => unsubscribes.push(symbol);
+        }),
+        getHistory: jest.fn(async () => history),
+    };
+
+    const emit = (symbol: string, quote: number, epoch: number) =>
+        emitters.get(symbol)?.(createSourceTick(symbol, quote, epoch, 2));
+
+    return { source, emit, unsubscribes };
+};
+
+describe('TickFeedService', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    test('shares one upstream subscription per symbol between all listeners', async () => {
+        const { source, emit, unsubscribes } = createManualSource();
+        tickFeed.setSource(source);
+
+        const first = jest.fn();
+        const second = jest.fn();
+        const stopFirst = tickFeed.subscribe('R_10', first);
+        const stopSecond = tickFeed.subscribe('R_10', second);
+        await flush();
+
+        emit('R_10', 1000.12, 1);
+
+        expect(source.subscribe).toHaveBeenCalledTimes(1);
+        expect(first).toHaveBeenCalledWith(expect.objectContaining({ quote: 1000.12, lastDigit: 2 }));
+        expect(second).toHaveBeenCalledTimes(1);
+        expect(tickFeed.getStats().symbols.find(symbol => symbol.symbol === 'R_10')).toMatchObject({
+            listeners: 2,
+            ticksReceived: 1,
+        });
+
+        stopFirst();
+        expect(unsubscribes).toEqual([]);
+        stopSecond();
+        expect(unsubscribes).toEqual(['R_10']);
+    });
+
+    test('serves history from the stream buffer once enough ticks have arrived', async () => {
+        const history = [createSourceTick('R_25', 500.1, 1, 2), createSourceTick('R_25', 500.2, 2, 2)];
+        const { source, emit } = createManualSource(history);
+        tickFeed.setSource(source);
+
+        expect(await tickFeed.getHistory('R_25', 2)).toEqual(history);
+        expect(source.getHistory).toHaveBeenCalledTimes(1);
+
+        const stop = tickFeed.subscribe('R_25', jest.fn());
+        await flush();
+        emit('R_25', 500.3, 3);
+
+        // One streamed tick is not enough, so history is fetched and placed in front of it
+        await tickFeed.getHistory('R_25', 2);
+        expect(source.getHistory).toHaveBeenCalledTimes(2);
+
+        const buffered = await tickFeed.getHistory('R_25', 3);
+        expect(source.getHistory).toHaveBeenCalledTimes(2);
+        expect(buffered.map(tick => tick.epoch)).toEqual([1, 2, 3]);
+        expect(tickFeed.getLatest('R_25')?.quote).toBe(500.3);
+
+        stop();
+    });
+
+    test('re-subscribes active symbols when the source changes', async () => {
+        const first = createManualSource();
+        const second = createManualSource();
+        const onSourceChange = jest.fn();
+        const stopWatching = tickFeed.onSourceChange(onSourceChange);
+
+        tickFeed.setSource(first.source);
+        const listener = jest.fn();
+        const stop = tickFeed.subscribe('R_50', listener);
+        await flush();
+
+        tickFeed.setSource(second.source);
+        await flush();
+        second.emit('R_50', 200.55, 10);
+
+        expect(first.unsubscribes).toEqual(['R_50']);
+        expect(second.source.subscribe).toHaveBeenCalledWith('R_50', expect.any(Function));
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ epoch: 10 }));
+        expect(onSourceChange).toHaveBeenLastCalledWith(second.source);
+        expect(tickFeed.getSource()).toBe(second.source);
+
+        stop();
+        stopWatching();
+    });
+});
+
+describe('Tick sources', () => {
+    test('recorded source replays ticks in epoch order and exposes what has been played', async () => {
+        const source = new RecordedTickSource(
+            {
+                R_75: [
+                    { epoch: 3, quote: 10.3 },
+                    { epoch: 1, quote: 10.1 },
+                    { epoch: 2, quote: 10.2 },
+                ],
+            },
+            { speed: 0 }
+        );
+
+        const played: number[] = [];
+        const stop = await source.subscribe('R_75', tick => played.push(tick.epoch));
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(played).toEqual([1, 2, 3]);
+        expect((await source.getHistory('R_75', 2)).map(tick => tick.quote)).toEqual([10.2, 10.3]);
+        expect(await source.getHistory('R_100', 5)).toEqual([]);
+
+        stop();
+    });
+
+    test('synthetic source is repeatable for a seed and keeps pip-size digits', async () => {
+        const history = await new SyntheticTickSource({ seed: 42, pipSize: 2 }).getHistory('R_100', 50);
+        const again = await new SyntheticTickSource({ seed: 42, pipSize: 2 }).getHistory('R_100', 50);
+        const other = await new SyntheticTickSource({ seed: 7, pipSize: 2 }).getHistory('R_100', 50);
+
+        expect(history).toHaveLength(50);
+        expect(history).toEqual(again);
+        expect(history).not.toEqual(other);
+        expect(history[1].epoch - history[0].epoch).toBe(1);
+        history.forEach(tick => {
+            expect(tick.lastDigit).toBe(Number(tick.quote.toFixed(2).slice(-1)));
+        });
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tick Recorder Service Tests
+ */
+
+import { historicalTickLoader } from '../historical-tick-loader.service';
+import { tickFeed } from '../tick-feed.service';
+import { tickRecorder } from '../tick-recorder.service';
+import { createSourceTick, SourceTick, TickSource } from '../tick-source/tick-source';
+
+jest.mock('../deriv-connection-pool.service', () => ({
+    derivConnectionPool: { subscribeToTicks: jest.fn(), getConnection: jest.fn() },
+    ConnectionType: { SIGNALS: 'signals' },
+}));
+
+jest.mock('../deriv-api.service', () => ({
+    derivAPIService: { getTicksHistory: jest.fn() },
+}));
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const emitters = new Map<string, (tick: SourceTick) => void>();
+
+const liveSource: TickSource = {
+    kind: 'live',
+    name: 'Test Live',
+    subscribe: async (symbol, onTick) => {
+        emitters.set(symbol, onTick);
+        return () => emitters.delete(symbol);
+    },
+    getHistory: async () => [],
+};
+
+const emit = (symbol: string, count: number, firstEpoch = 1_700_000_000) => {
+    for (let i = 0; i < count; i++) {
+        emitters.get(symbol)?.(createSourceTick(symbol, 100 + i / 100, firstEpoch + i, 2));
+    }
+};
+
+describe('TickRecorderService', () => {
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        tickFeed.setSource(liveSource);
+        for (const recording of await tickRecorder.listRecordings()) {
+            await tickRecorder.deleteRecording(recording.id);
+        }
+    });
+
+    test('records live ticks per symbol and stops on toggle', async () => {
+        expect(await tickRecorder.toggleRecording('R_10')).toBe(true);
+        await flush();
+        emit('R_10', 3);
+        // Duplicate epochs are ignored
+        emit('R_10', 1);
+
+        expect(await tickRecorder.toggleRecording('R_10')).toBe(false);
+        emit('R_10', 2, 1_800_000_000);
+
+        const [recording] = await tickRecorder.listRecordings('R_10');
+        expect(recording).toMatchObject({ symbol: 'R_10', tickCount: 3, pipSize: 2, firstEpoch: 1_700_000_000 });
+        expect(recording.stoppedAt).toBeDefined();
+
+        const ticks = await tickRecorder.getTicks(recording.id);
+        expect(ticks.map(tick => tick.lastDigit)).toEqual([0, 1, 2]);
+        expect(ticks[1]).toEqual({ epoch: 1_700_000_001, quote: 100.01, pipSize: 2, lastDigit: 1 });
+    });
+
+    test('drops the oldest chunks once over the tick limit', async () => {
+        const recording = await tickRecorder.startRecording('R_25', { maxTicks: 600 });
+        await flush();
+        emit('R_25', 1600);
+        await tickRecorder.stopRecording('R_25');
+
+        const stored = await tickRecorder.getRecording(recording.id);
+        const ticks = await tickRecorder.getTicks(recording.id);
+
+        // 500-tick chunks: the two oldest are pruned, leaving 1000-1599
+        expect(stored).toMatchObject({ tickCount: 600, firstEpoch: 1_700_001_000 });
+        expect(ticks).toHaveLength(600);
+        expect(ticks[0].epoch).toBe(1_700_001_000);
+    });
+
+    test('exports CSV and serves the recording to replays and the historical loader', async () => {
+        const recording = await tickRecorder.startRecording('R_50');
+        await flush();
+        emit('R_50', 5);
+        await tickRecorder.stopRecording('R_50');
+
+        const csv = (await tickRecorder.exportCsv(recording.id)).split('\n');
+        expect(csv[0]).toBe('symbol,epoch,quote,pip_size,last_digit');
+        expect(csv[1]).toBe('R_50,1700000000,100.00,2,0');
+
+        // Replays go through the shared feed, so screens already listening follow them
+        const replayed: SourceTick[] = [];
+        const stop = tickFeed.subscribe('R_50', tick => replayed.push(tick));
+        tickFeed.setSource(tickRecorder.createReplaySource(recording.id, { speed: 0 }));
+        await new Promise(resolve => setTimeout(resolve, 20));
+        stop();
+        expect(replayed.map(tick => tick.lastDigit)).toEqual([0, 1, 2, 3, 4]);
+        expect(replayed.every(tick => tick.provenance === 'recorded')).toBe(true);
+
+        const result = await historicalTickLoader.loadRecordedTicks(recording.id, 2);
+
+        expect(result).toMatchObject({ success: true, count: 2, symbol: 'R_50', provenance: 'recorded' });
+        expect(result.ticks.map(tick => tick.lastDigit)).toEqual([3, 4]);
+    });
+});
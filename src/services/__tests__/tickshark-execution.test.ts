@@ -0,0 +1,288 @@
+/**
+ * TickShark Execution Service Tests
+ */
+
+import { api_base } from '../../external/bot-skeleton/services/api/api-base';
+import type { TradeIntent } from '../../types/tickshark/execution.types';
+import { accountRiskGate } from '../account-risk-gate.service';
+import { createIntentFromSignal, executionService, toBuyParameters } from '../tickshark/execution.service';
+import { modeManagerService } from '../tickshark/mode-manager.service';
+import type { AnalysisSignal } from '../tickshark/signal-generator.service';
+import { tradeLedger } from '../trade-ledger.service';
+
+jest.mock('../../external/bot-skeleton/services/api/api-base', () => ({
+    api_base: { api: undefined, is_authorized: true, account_info: { balance: 100, currency: 'USD' } },
+}));
+
+jest.mock('../deriv-connection-pool.service', () => ({
+    derivConnectionPool: { getConnection: jest.fn(), getOptimalAnalysisConnection: jest.fn() },
+    ConnectionType: { SIGNALS: 'signals' },
+}));
+
+jest.mock('../unified-tick-data.service', () => ({
+    unifiedTickData: { subscribe: jest.fn() },
+}));
+
+type MessageHandler = (message: { data: Record<string, unknown> }) => void;
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const buildIntent = (overrides: Partial<TradeIntent['parameters']> = {}): TradeIntent => ({
+    id: `intent_${Math.random()}`,
+    type: 'EVEN_ODD',
+    status: 'CREATED',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    parameters: { symbol: 'R_100', contractType: 'EVEN_ODD', stake: 1, duration: 1, ...overrides },
+    confidence: 0.8,
+    riskScore: 0.2,
+    validationChecks: [],
+    metadata: { source: 'SIGNAL', priority: 'MEDIUM', tags: [] },
+});
+
+const soldContract = (contractId: number, profit: number) => ({
+    contract_id: contractId,
+    is_sold: 1,
+    buy_price: 1,
+    payout: 1.95,
+    profit,
+    entry_spot: 1000.12,
+    exit_tick: 1000.14,
+});
+
+/**
+ * Deriv API double: `buy` answers with the queued responses (an Error is thrown, like a dropped socket),
+ * and each bought contract sells through the message stream once the test calls settle().
+ * `portfolio` lists the given open contracts; a polled `proposal_open_contract` returns the sold contract
+ * once the test calls settleQuietly().
+ */
+const mockApi = (buyResponses: (Record<string, unknown> | Error)[], openContracts: Record<string, unknown>[] = []) => {
+    const handlers: MessageHandler[] = [];
+    const sold = new Map<unknown, Record<string, unknown>>();
+    const send = jest.fn(async (request: Record<string, unknown>) => {
+        if (request.buy) {
+            const response = buyResponses.shift();
+            if (response instanceof Error) throw response;
+            return response;
+        }
+        if (request.portfolio) return { portfolio: { contracts: openContracts } };
+        if (request.profit_table) return { profit_table: { transactions: [] } };
+        if (request.forget) return { forget: 1 };
+        return {
+            proposal_open_contract: sold.get(request.contract_id) ?? { contract_id: request.contract_id, is_sold: 0 },
+            ...(request.subscribe ? { subscription: { id: `sub_${request.contract_id}` } } : {}),
+        };
+    });
+
+    api_base.api = {
+        send,
+        onMessage: () => ({
+            subscribe: (handler: MessageHandler) => {
+                handlers.push(handler);
+                return { unsubscribe: () => handlers.splice(handlers.indexOf(handler), 1) };
+            },
+        }),
+    } as unknown as typeof api_base.api;
+
+    const settle = (contractId: number, profit: number) =>
+        [...handlers].forEach(handler =>
+            handler({ data: { proposal_open_contract: soldContract(contractId, profit) } })
+        );
+    const settleQuietly = (contractId: number, profit: number) =>
+        sold.set(contractId, soldContract(contractId, profit));
+
+    return { send, settle, settleQuietly, handlers };
+};
+
+const switchMode = async (mode: 'SEMI_AUTOMATED' | 'FULLY_AUTOMATED') => {
+    if (!(await modeManagerService.switchMode(mode))) {
+        await modeManagerService.confirmModeSwitch();
+    }
+};
+
+describe('TickShark execution service', () => {
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        await modeManagerService.initialize();
+    });
+
+    beforeEach(() => {
+        accountRiskGate.reset();
+        executionService.reset();
+        executionService.updateConfiguration({ executionDelay: 0, retryDelay: 0, confirmationTimeout: 10000 });
+    });
+
+    afterEach(() => {
+        executionService.start();
+        executionService.stop();
+        jest.useRealTimers();
+    });
+
+    it('builds intents and buy parameters from signals', () => {
+        const intent = createIntentFromSignal({
+            id: 'sig_1',
+            analysisId: 'analysis_1',
+            type: 'HIGHER_LOWER',
+            symbol: 'R_100',
+            confidence: 0.7,
+            riskScore: 0.3,
+            recommendedStake: 2,
+            recommendedDuration: 5,
+            barrier: 999.5,
+            currentPrice: 1000,
+            expectedPrice: 999,
+            priority: 'HIGH',
+            tags: ['latency'],
+        } as AnalysisSignal);
+
+        expect(intent.parameters).toEqual(
+            expect.objectContaining({ side: 'LOWER', stake: 2, entrySpot: 1000, barrier: 999.5 })
+        );
+        expect(toBuyParameters(intent.parameters, 'USD')).toEqual(
+            expect.objectContaining({ contract_type: 'PUT', duration: 5, duration_unit: 't', barrier: '-0.5' })
+        );
+        expect(
+            toBuyParameters({ symbol: 'R_50', contractType: 'OVER_UNDER', stake: 1, duration: 1, prediction: 3 }, 'USD')
+        ).toEqual(expect.objectContaining({ contract_type: 'DIGITOVER', barrier: '3' }));
+    });
+
+    it('waits for approval in semi-automated mode, then buys and settles through the API', async () => {
+        await switchMode('SEMI_AUTOMATED');
+        const { send, settle } = mockApi([{ buy: { contract_id: 42, buy_price: 1 } }]);
+        const intent = executionService.submitIntent(buildIntent());
+
+        expect(intent.status).toBe('QUEUED');
+        expect(executionService.getSnapshot().confirmations.map(request => request.intent.id)).toEqual([intent.id]);
+        expect(send).not.toHaveBeenCalled();
+
+        expect(executionService.approveIntent(intent.id)).toBe(true);
+        await flush();
+        await flush();
+
+        expect(intent.status).toBe('EXECUTING');
+        expect(send).toHaveBeenCalledWith(
+            expect.objectContaining({
+                buy: 1,
+                price: 1,
+                parameters: expect.objectContaining({ contract_type: 'DIGITEVEN' }),
+            })
+        );
+
+        settle(42, 0.95);
+        await flush();
+
+        const statistics = executionService.getStatistics();
+        expect(intent.status).toBe('COMPLETED');
+        expect(intent.execution).toEqual(
+            expect.objectContaining({ success: true, contractId: '42', profit: 0.95, payout: 1.95 })
+        );
+        expect(statistics).toEqual(
+            expect.objectContaining({ totalTrades: 1, successfulTrades: 1, netProfit: 0.95, winRate: 1 })
+        );
+    });
+
+    it('rejects an intent that is not confirmed before the countdown ends', async () => {
+        await switchMode('SEMI_AUTOMATED');
+        jest.useFakeTimers();
+
+        const intent = executionService.submitIntent(buildIntent());
+        const rejected = executionService.submitIntent(buildIntent());
+
+        expect(executionService.rejectIntent(rejected.id)).toBe(true);
+        jest.advanceTimersByTime(10000);
+
+        expect(intent.status).toBe('CANCELLED');
+        expect(rejected.status).toBe('CANCELLED');
+        expect(executionService.getSnapshot().confirmations).toEqual([]);
+        expect(executionService.getStatistics().cancelledTrades).toBe(2);
+    });
+
+    it('fails intents outside the ExecutionConfig limits without queueing them', async () => {
+        await switchMode('SEMI_AUTOMATED');
+        executionService.updateConfiguration({ maxStakePerTrade: 5 });
+
+        const intent = executionService.submitIntent(buildIntent({ stake: 10 }));
+
+        expect(intent.status).toBe('FAILED');
+        expect(intent.validationChecks).toContainEqual(
+            expect.objectContaining({ type: 'STAKE_LIMIT', status: 'FAILED' })
+        );
+        expect(executionService.getSnapshot().queue.pending).toEqual([]);
+        expect(executionService.getStatistics().riskViolations).toBe(1);
+
+        executionService.updateConfiguration({ maxStakePerTrade: 50 });
+    });
+
+    it('executes without confirmation in fully automated mode and retries a failed buy', async () => {
+        await switchMode('FULLY_AUTOMATED');
+        const { send, settle } = mockApi([
+            { error: { message: 'Temporary error' } },
+            { buy: { contract_id: 7, buy_price: 1 } },
+        ]);
+
+        const intent = executionService.submitIntent(buildIntent());
+        for (let i = 0; i < 5; i++) await flush();
+
+        expect(executionService.getSnapshot().confirmations).toEqual([]);
+        expect(send.mock.calls.filter(([request]) => request.buy)).toHaveLength(2);
+
+        settle(7, -1);
+        await flush();
+
+        expect(intent.status).toBe('COMPLETED');
+        expect(executionService.getStatistics()).toEqual(
+            expect.objectContaining({ totalTrades: 1, netProfit: -1, winRate: 0 })
+        );
+    });
+
+    it('never resends a buy whose response was lost after the contract was bought', async () => {
+        await switchMode('FULLY_AUTOMATED');
+        const { send, settle } = mockApi(
+            [new Error('Socket closed'), { buy: { contract_id: 8, buy_price: 1 } }],
+            [{ contract_id: 9, contract_type: 'DIGITEVEN', symbol: 'R_100', buy_price: 1, purchase_time: 1e10 }]
+        );
+
+        const intent = executionService.submitIntent(buildIntent());
+        for (let i = 0; i < 5; i++) await flush();
+
+        expect(send.mock.calls.filter(([request]) => request.buy)).toHaveLength(1);
+        expect(send).toHaveBeenCalledWith({ proposal_open_contract: 1, contract_id: 9, subscribe: 1 });
+
+        settle(9, 0.95);
+        await flush();
+
+        expect(intent.status).toBe('COMPLETED');
+        expect(intent.execution?.contractId).toBe('9');
+        expect(accountRiskGate.getStatus().openContracts).toBe(0);
+    });
+
+    it('keeps reconciling a contract after settlement times out and books it when it closes', async () => {
+        await switchMode('FULLY_AUTOMATED');
+        jest.useFakeTimers();
+        const record = jest.spyOn(tradeLedger, 'record').mockResolvedValue(null);
+        const { send, settleQuietly, handlers } = mockApi([{ buy: { contract_id: 11, buy_price: 1 } }]);
+        executionService.updateConfiguration({ executionTimeoutMs: 1000 });
+
+        const intent = executionService.submitIntent(buildIntent());
+        await jest.advanceTimersByTimeAsync(0);
+        expect(accountRiskGate.getStatus().openContracts).toBe(1);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(intent.status).toBe('FAILED');
+        expect(handlers).toHaveLength(0);
+        expect(send).toHaveBeenCalledWith({ forget: 'sub_11' });
+        expect(accountRiskGate.getStatus().openContracts).toBe(1);
+        expect(record).not.toHaveBeenCalled();
+
+        settleQuietly(11, -1);
+        await jest.advanceTimersByTimeAsync(30 * 1000);
+
+        expect(record).toHaveBeenCalledWith(
+            expect.objectContaining({ contractId: 11, engine: 'TICKSHARK', profit: -1 })
+        );
+        expect(accountRiskGate.getStatus()).toEqual(expect.objectContaining({ openContracts: 0, dailyProfit: -1 }));
+
+        executionService.updateConfiguration({ executionTimeoutMs: 60000 });
+        record.mockRestore();
+    });
+});
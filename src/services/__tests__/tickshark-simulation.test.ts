@@ -0,0 +1,205 @@
+/**
+ * TickShark Simulation Service Tests
+ */
+
+import { historicalTickLoader } from '../historical-tick-loader.service';
+import { simulationService, toDerivContractType } from '../tickshark/simulation.service';
+import { tickListenerService } from '../tickshark/tick-listener.service';
+import type { TradeIntent } from '../../types/tickshark/execution.types';
+
+jest.mock('../deriv-connection-pool.service', () => ({
+    derivConnectionPool: { getConnection: jest.fn(), getOptimalAnalysisConnection: jest.fn() },
+    ConnectionType: { SIGNALS: 'signals' },
+}));
+
+jest.mock('../unified-tick-data.service', () => ({
+    unifiedTickData: { subscribe: jest.fn() },
+}));
+
+const buildIntent = (overrides: Partial<TradeIntent['parameters']> = {}): TradeIntent => ({
+    id: `intent_${Math.random()}`,
+    type: 'EVEN_ODD',
+    status: 'QUEUED',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    parameters: { symbol: 'R_100', contractType: 'EVEN_ODD', stake: 1, duration: 1, ...overrides },
+    confidence: 0.8,
+    riskScore: 0.2,
+    validationChecks: [],
+    metadata: { source: 'SIGNAL', priority: 'MEDIUM', tags: [] },
+});
+
+const replayTicks = [1, 2, 3, 4, 5, 6].map(digit => ({
+    epoch: 1700000000 + digit,
+    quote: Number(`1000.${digit}`),
+    lastDigit: digit,
+}));
+
+describe('SimulationService', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        tickListenerService.updateConfiguration({ enableAnalysisEngine: false });
+        simulationService.loadTicks(replayTicks);
+        simulationService.updateConfiguration({
+            mode: 'HISTORICAL_REPLAY',
+            dataSource: { type: 'HISTORICAL_FILE', symbol: 'R_100', timeRange: [0, 0], tickRate: 10 },
+            executionSimulation: {
+                latencyRange: [0, 0],
+                slippageRange: [0, 0],
+                rejectionRate: 0,
+                partialFillRate: 0,
+                networkJitter: 0,
+            },
+        });
+    });
+
+    afterEach(() => {
+        simulationService.stop();
+        jest.useRealTimers();
+    });
+
+    it('replays ticks through the tick listener at the configured rate', async () => {
+        await simulationService.start();
+
+        jest.advanceTimersByTime(350);
+
+        expect(simulationService.getState().ticksProcessed).toBe(3);
+        expect(tickListenerService.getRecentTicks('R_100', 10).map(tick => tick.bid)).toEqual([1000.1, 1000.2, 1000.3]);
+    });
+
+    it('completes when the replay data runs out', async () => {
+        await simulationService.start();
+
+        jest.advanceTimersByTime(1000);
+
+        const result = simulationService.getLastResult();
+        expect(simulationService.getState().status).toBe('COMPLETED');
+        expect(result?.ticksProcessed).toBe(6);
+    });
+
+    it('replays the configured recording instead of Deriv history', async () => {
+        const loadRecorded = jest.spyOn(historicalTickLoader, 'loadRecordedTicks').mockResolvedValue({
+            success: true,
+            ticks: replayTicks.slice(0, 2),
+            count: 2,
+            symbol: 'R_100',
+            provenance: 'recorded',
+        });
+        const loadHistory = jest.spyOn(historicalTickLoader, 'loadHistoricalTicksWithRetry');
+        simulationService.loadTicks(null);
+        simulationService.updateConfiguration({
+            dataSource: {
+                type: 'HISTORICAL_FILE',
+                symbol: 'R_100',
+                timeRange: [0, 0],
+                tickRate: 10,
+                recordingId: 'rec_1',
+            },
+        });
+
+        await simulationService.start();
+        jest.advanceTimersByTime(1000);
+
+        expect(loadRecorded).toHaveBeenCalledWith('rec_1', expect.any(Number));
+        expect(loadHistory).not.toHaveBeenCalled();
+        expect(simulationService.getLastResult()?.ticksProcessed).toBe(2);
+
+        loadRecorded.mockRestore();
+        loadHistory.mockRestore();
+    });
+
+    it('settles executions against the following simulated tick', async () => {
+        await simulationService.start();
+        jest.advanceTimersByTime(100);
+
+        const settled = simulationService.simulateExecution(buildIntent());
+        jest.advanceTimersByTime(100);
+
+        const intent = await settled;
+        expect(intent.status).toBe('COMPLETED');
+        expect(intent.execution?.exitSpot).toBe(1000.2);
+        expect(intent.execution?.profit).toBe(0.9);
+    });
+
+    it('pays Over contracts by their barrier', async () => {
+        await simulationService.start();
+        jest.advanceTimersByTime(100);
+
+        const settled = simulationService.simulateExecution(
+            buildIntent({ contractType: 'OVER_UNDER', side: 'OVER', prediction: 1 })
+        );
+        jest.advanceTimersByTime(100);
+
+        // Over 1 wins on 2-9: 1 * 0.95 / 0.8 - 1
+        expect((await settled).execution?.profit).toBe(0.19);
+    });
+
+    it('reads live digits at the pip size so trailing zeros count', async () => {
+        await simulationService.start({ mode: 'LIVE_SIMULATION' });
+
+        const now = Date.now();
+        tickListenerService.injectTick({
+            symbol: 'R_100',
+            timestamp: now,
+            bid: 1000.1,
+            ask: 1000.11,
+            spread: 0.01,
+            pipSize: 2,
+            receiveTime: now,
+            processTime: now,
+            latency: 0,
+            quality: 'HIGH',
+            source: 'deriv-api',
+            provenance: 'live',
+            sequenceNumber: 1,
+            isValid: true,
+        });
+
+        expect(simulationService.getRecentTicks(1)).toEqual([
+            expect.objectContaining({ quote: 1000.1, lastDigit: 0, origin: 'LIVE' }),
+        ]);
+    });
+
+    it('rejects executions at the configured rejection rate', async () => {
+        simulationService.updateConfiguration({
+            executionSimulation: {
+                latencyRange: [0, 0],
+                slippageRange: [0, 0],
+                rejectionRate: 1,
+                partialFillRate: 0,
+                networkJitter: 0,
+            },
+        });
+        await simulationService.start();
+        jest.advanceTimersByTime(100);
+
+        const settled = simulationService.simulateExecution(buildIntent());
+        jest.advanceTimersByTime(0);
+
+        const intent = await settled;
+        expect(intent.status).toBe('FAILED');
+        expect(intent.execution?.errorMessage).toBe('Rejected by simulated broker');
+    });
+
+    it('generates synthetic ticks beyond the replay in hybrid mode', async () => {
+        await simulationService.start({ mode: 'HYBRID' });
+
+        jest.advanceTimersByTime(1000);
+
+        const ticks = simulationService.getRecentTicks(10);
+        expect(ticks).toHaveLength(10);
+        expect(ticks[ticks.length - 1].origin).toBe('SYNTHETIC');
+    });
+});
+
+describe('toDerivContractType', () => {
+    it('maps contract sides onto Deriv contract types', () => {
+        expect(toDerivContractType({ symbol: 'R_100', contractType: 'EVEN_ODD', stake: 1, duration: 1 })).toBe(
+            'DIGITEVEN'
+        );
+        expect(
+            toDerivContractType({ symbol: 'R_100', contractType: 'OVER_UNDER', stake: 1, duration: 1, side: 'UNDER' })
+        ).toBe('DIGITUNDER');
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * Trade Ledger Service Tests
+ */
+
+import { tradeLedger } from '../trade-ledger.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = 1_700_000_000_000;
+
+describe('TradeLedgerService', () => {
+    beforeEach(async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        await tradeLedger.clear();
+
+        await tradeLedger.record({
+            contractId: 1,
+            engine: 'ZEN',
+            strategy: 'Even Odd',
+            symbol: 'R_100',
+            stake: 1,
+            payout: 1.95,
+            profit: 0.95,
+            settledAt: START,
+        });
+        await tradeLedger.record({
+            contractId: 2,
+            engine: 'SPEED_BOT',
+            strategy: 'Over Under',
+            symbol: 'R_50',
+            stake: 2,
+            payout: 0,
+            profit: -2,
+            settledAt: START + DAY,
+        });
+        await tradeLedger.record({
+            contractId: 3,
+            engine: 'ZEN',
+            strategy: 'Even Odd',
+            symbol: 'R_50',
+            stake: 1,
+            payout: 1.95,
+            profit: 0.95,
+            settledAt: START + 2 * DAY,
+        });
+    });
+
+    it('ignores a repeated settlement of the same contract', async () => {
+        const duplicate = {
+            contractId: '1',
+            engine: 'ZEN' as const,
+            strategy: 'x',
+            symbol: 'R_100',
+            stake: 1,
+            payout: 0,
+            profit: -1,
+        };
+
+        const [first, second] = await Promise.all([tradeLedger.record(duplicate), tradeLedger.record(duplicate)]);
+
+        expect(first).toBeNull();
+        expect(second).toBeNull();
+        expect(await tradeLedger.query()).toHaveLength(3);
+    });
+
+    it('keeps the same contract id from different engines apart', async () => {
+        await tradeLedger.record({
+            contractId: 1,
+            engine: 'SIGNALS',
+            strategy: 's',
+            symbol: 'R_100',
+            stake: 1,
+            payout: 0,
+            profit: -1,
+        });
+
+        expect(await tradeLedger.query({ engine: 'SIGNALS' })).toHaveLength(1);
+    });
+
+    it('filters by date range, engine and symbol', async () => {
+        const range = await tradeLedger.query({ from: START + DAY, to: START + 2 * DAY });
+        expect(range.map(entry => entry.contractId)).toEqual(['2', '3']);
+
+        const zen = await tradeLedger.query({ engine: 'ZEN', symbol: 'R_50' });
+        expect(zen.map(entry => entry.contractId)).toEqual(['3']);
+
+        const engines = await tradeLedger.query({ engine: ['ZEN', 'SPEED_BOT'], limit: 2 });
+        expect(engines.map(entry => entry.contractId)).toEqual(['2', '3']);
+    });
+
+    it('excludes paper trades unless asked for them', async () => {
+        await tradeLedger.record({
+            contractId: 'sim_1',
+            engine: 'TICK_ENGINE',
+            strategy: 'rule',
+            symbol: 'R_100',
+            stake: 1,
+            payout: 0,
+            profit: -1,
+            isPaper: true,
+        });
+
+        expect(await tradeLedger.query({ engine: 'TICK_ENGINE' })).toHaveLength(0);
+        expect(await tradeLedger.query({ engine: 'TICK_ENGINE', includePaper: true })).toHaveLength(1);
+    });
+
+    it('summarises profit by engine and symbol', async () => {
+        const summary = await tradeLedger.getSummary();
+
+        expect(summary).toMatchObject({ totalTrades: 3, wins: 2, losses: 1, totalStake: 4, totalProfit: -0.1 });
+        expect(summary.byEngine.ZEN).toEqual({ trades: 2, profit: 1.9 });
+        expect(summary.bySymbol.R_50).toEqual({ trades: 2, profit: -1.05 });
+    });
+});
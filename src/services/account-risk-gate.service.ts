@@ -0,0 +1,467 @@
+/**
+ * Account Risk Gate Service
+ * Single account-level gate that every auto-trading engine must pass before sending a `buy`.
+ * Limits are counted across all engines combined; each rejection is written to an audit log.
+ */
+
+export type TradingEngine = 'ZEN' | 'SPEED_BOT' | 'FAST_LANE' | 'SIGNALS' | 'ACCUMULATOR' | 'TICKSHARK' | 'TRADING_HUB';
+
+export type RiskRejectionReason =
+    | 'KILL_SWITCH'
+    | 'INVALID_STAKE'
+    | 'DAILY_LOSS_LIMIT'
+    | 'MAX_OPEN_CONTRACTS'
+    | 'TRADE_RATE_LIMIT';
+
+export interface AccountRiskLimits {
+    maxDailyLoss: number;
+    maxOpenContracts: number;
+    maxTradesPerMinute: number;
+    staleContractTimeout: number; // minutes before an unsettled contract is booked as a full loss
+}
+
+export interface RiskGateRequest {
+    engine: TradingEngine;
+    stake: number;
+    symbol?: string;
+    contractType?: string;
+}
+
+export interface RiskGateDecision {
+    allowed: boolean;
+    ticketId?: string;
+    reason?: RiskRejectionReason;
+    message?: string;
+}
+
+export interface RiskGateSnapshot {
+    dailyProfit: number;
+    openContracts: number;
+    openExposure: number;
+    tradesLastMinute: number;
+    killSwitchActive: boolean;
+    unreconciledContracts: number;
+}
+
+export interface RiskAuditRecord {
+    id: string;
+    timestamp: number;
+    engine: TradingEngine;
+    stake: number;
+    symbol?: string;
+    contractType?: string;
+    reason: RiskRejectionReason;
+    message: string;
+    snapshot: RiskGateSnapshot;
+}
+
+export interface RiskGateStatus extends RiskGateSnapshot {
+    date: string;
+    killSwitchReason?: string;
+    limits: AccountRiskLimits;
+    tradesToday: number;
+    openByEngine: Partial<Record<TradingEngine, number>>;
+}
+
+interface OpenPosition {
+    ticketId: string;
+    engine: TradingEngine;
+    stake: number;
+    symbol?: string;
+    contractId?: string;
+    openedAt: number;
+}
+
+const STORAGE_KEYS = {
+    LIMITS: 'accountRiskGate_limits',
+    DAILY: 'accountRiskGate_daily',
+    KILL_SWITCH: 'accountRiskGate_killSwitch',
+    AUDIT: 'accountRiskGate_audit',
+};
+
+const MAX_AUDIT_RECORDS = 500;
+const RATE_WINDOW_MS = 60 * 1000;
+
+export class AccountRiskGateService {
+    private static instance: AccountRiskGateService;
+    private limits: AccountRiskLimits = {
+        maxDailyLoss: 100,
+        maxOpenContracts: 5,
+        maxTradesPerMinute: 30,
+        staleContractTimeout: 10,
+    };
+    private dailyStats = {
+        date: new Date().toDateString(),
+        profit: 0,
+        tradeCount: 0,
+    };
+    private openPositions: Map<string, OpenPosition> = new Map();
+    // Stale contracts booked as a full loss, kept until their real settlement corrects the booking
+    private unreconciledPositions: Map<string, OpenPosition> = new Map();
+    private recentTradeTimes: number[] = [];
+    private killSwitch: { active: boolean; reason?: string } = { active: false };
+    private auditLog: RiskAuditRecord[] = [];
+    private listeners: Set<(status: RiskGateStatus) => void> = new Set();
+    private ticketCounter = 0;
+
+    static getInstance(): AccountRiskGateService {
+        if (!AccountRiskGateService.instance) {
+            AccountRiskGateService.instance = new AccountRiskGateService();
+        }
+        return AccountRiskGateService.instance;
+    }
+
+    constructor() {
+        this.loadStoredData();
+    }
+
+    /**
+     * Ask the gate for permission to send a buy.
+     * An approved request reserves an open-contract slot until it is settled or released.
+     */
+    requestApproval(request: RiskGateRequest, now: number = Date.now()): RiskGateDecision {
+        this.rollDailyStats(now);
+        this.pruneState(now);
+
+        const rejection = this.evaluate(request);
+        if (rejection) {
+            this.recordRejection(request, rejection.reason, rejection.message, now);
+            return { allowed: false, ...rejection };
+        }
+
+        const ticketId = `risk_${now}_${++this.ticketCounter}`;
+        this.openPositions.set(ticketId, {
+            ticketId,
+            engine: request.engine,
+            stake: request.stake,
+            symbol: request.symbol,
+            openedAt: now,
+        });
+        this.recentTradeTimes.push(now);
+        this.dailyStats.tradeCount++;
+        this.saveDailyStats();
+        this.notifyListeners();
+
+        return { allowed: true, ticketId };
+    }
+
+    /**
+     * Link an approved ticket to the contract the broker returned
+     */
+    attachContract(ticketId: string, contractId: string | number): void {
+        const position = this.openPositions.get(ticketId) || this.unreconciledPositions.get(ticketId);
+        if (position) {
+            position.contractId = String(contractId);
+        }
+    }
+
+    /**
+     * Release a ticket whose buy was never filled.
+     * Tickets already linked to a contract stay open until settled.
+     */
+    releaseTicket(ticketId: string): void {
+        const unreconciled = this.unreconciledPositions.get(ticketId);
+        if (unreconciled && !unreconciled.contractId) {
+            // The stale booking was for a buy that never filled
+            this.unreconciledPositions.delete(ticketId);
+            this.rollDailyStats(Date.now());
+            if (this.isOpenedToday(unreconciled)) this.addDailyProfit(unreconciled.stake);
+            this.saveDailyStats();
+            this.notifyListeners();
+            return;
+        }
+
+        const position = this.openPositions.get(ticketId);
+        if (!position || position.contractId) return;
+
+        this.openPositions.delete(ticketId);
+        this.notifyListeners();
+    }
+
+    /**
+     * Record the settled profit of a contract, by contract ID or ticket ID.
+     * Repeated settlements of the same contract are ignored. A contract already booked as a stale
+     * full loss has that booking replaced by its real profit. Profit belongs to the day the ticket
+     * was opened, so a contract opened before the daily rollover does not count towards today.
+     */
+    recordSettlement(reference: string | number, profit: number): void {
+        const position = this.findPosition(this.openPositions, String(reference));
+        const unreconciled = position ? undefined : this.findPosition(this.unreconciledPositions, String(reference));
+        if (!position && !unreconciled) return;
+
+        this.rollDailyStats(Date.now());
+        if (position) {
+            this.openPositions.delete(position.ticketId);
+            if (this.isOpenedToday(position)) this.addDailyProfit(Number(profit) || 0);
+        } else if (unreconciled) {
+            this.unreconciledPositions.delete(unreconciled.ticketId);
+            if (this.isOpenedToday(unreconciled)) this.addDailyProfit((Number(profit) || 0) + unreconciled.stake);
+        }
+        this.saveDailyStats();
+        this.notifyListeners();
+    }
+
+    /**
+     * Halt every engine until the switch is released
+     */
+    activateKillSwitch(reason: string = 'Manual kill switch'): void {
+        this.killSwitch = { active: true, reason };
+        localStorage.setItem(STORAGE_KEYS.KILL_SWITCH, JSON.stringify(this.killSwitch));
+        console.error(`🛑 Account kill switch activated: ${reason}`);
+        this.notifyListeners();
+    }
+
+    /**
+     * Release the kill switch
+     */
+    releaseKillSwitch(): void {
+        this.killSwitch = { active: false };
+        localStorage.removeItem(STORAGE_KEYS.KILL_SWITCH);
+        console.log('✅ Account kill switch released');
+        this.notifyListeners();
+    }
+
+    /**
+     * Configure limits
+     */
+    setLimits(limits: Partial<AccountRiskLimits>): void {
+        this.limits = { ...this.limits, ...limits };
+        localStorage.setItem(STORAGE_KEYS.LIMITS, JSON.stringify(this.limits));
+        this.notifyListeners();
+    }
+
+    /**
+     * Get current limits
+     */
+    getLimits(): AccountRiskLimits {
+        return { ...this.limits };
+    }
+
+    /**
+     * Get the combined status across all engines
+     */
+    getStatus(now: number = Date.now()): RiskGateStatus {
+        this.rollDailyStats(now);
+        this.pruneState(now);
+
+        const openByEngine: Partial<Record<TradingEngine, number>> = {};
+        this.openPositions.forEach(position => {
+            openByEngine[position.engine] = (openByEngine[position.engine] || 0) + 1;
+        });
+
+        return {
+            ...this.getSnapshot(),
+            date: this.dailyStats.date,
+            killSwitchReason: this.killSwitch.reason,
+            limits: this.getLimits(),
+            tradesToday: this.dailyStats.tradeCount,
+            openByEngine,
+        };
+    }
+
+    /**
+     * Get rejection records, newest first
+     */
+    getAuditLog(engine?: TradingEngine): RiskAuditRecord[] {
+        const records = engine ? this.auditLog.filter(record => record.engine === engine) : this.auditLog;
+        return [...records].reverse();
+    }
+
+    /**
+     * Clear the rejection audit log
+     */
+    clearAuditLog(): void {
+        this.auditLog = [];
+        localStorage.removeItem(STORAGE_KEYS.AUDIT);
+    }
+
+    /**
+     * Subscribe to status changes
+     */
+    subscribe(listener: (status: RiskGateStatus) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Reset all gate state (use with caution)
+     */
+    reset(): void {
+        this.openPositions.clear();
+        this.unreconciledPositions.clear();
+        this.recentTradeTimes = [];
+        this.auditLog = [];
+        this.killSwitch = { active: false };
+        this.dailyStats = { date: new Date().toDateString(), profit: 0, tradeCount: 0 };
+        Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+        this.notifyListeners();
+    }
+
+    // Private helper methods
+
+    private evaluate(request: RiskGateRequest): { reason: RiskRejectionReason; message: string } | null {
+        if (this.killSwitch.active) {
+            return { reason: 'KILL_SWITCH', message: `Kill switch active: ${this.killSwitch.reason}` };
+        }
+
+        if (!Number.isFinite(request.stake) || request.stake <= 0) {
+            return { reason: 'INVALID_STAKE', message: `Invalid stake: ${request.stake}` };
+        }
+
+        // Open stakes are counted as already lost so concurrent engines cannot overshoot the limit together
+        const realisedLoss = Math.max(0, -this.dailyStats.profit);
+        const worstCaseLoss = realisedLoss + this.getOpenExposure() + request.stake;
+        if (worstCaseLoss > this.limits.maxDailyLoss) {
+            return {
+                reason: 'DAILY_LOSS_LIMIT',
+                message: `Daily loss limit of $${this.limits.maxDailyLoss} would be exceeded (realised $${realisedLoss.toFixed(2)}, open $${this.getOpenExposure().toFixed(2)}, stake $${request.stake.toFixed(2)})`,
+            };
+        }
+
+        if (this.openPositions.size >= this.limits.maxOpenContracts) {
+            return {
+                reason: 'MAX_OPEN_CONTRACTS',
+                message: `Maximum open contracts (${this.limits.maxOpenContracts}) reached across all engines`,
+            };
+        }
+
+        if (this.recentTradeTimes.length >= this.limits.maxTradesPerMinute) {
+            return {
+                reason: 'TRADE_RATE_LIMIT',
+                message: `Trade rate limit of ${this.limits.maxTradesPerMinute} per minute reached across all engines`,
+            };
+        }
+
+        return null;
+    }
+
+    private recordRejection(request: RiskGateRequest, reason: RiskRejectionReason, message: string, now: number): void {
+        const record: RiskAuditRecord = {
+            id: `audit_${now}_${Math.random().toString(36).slice(2, 8)}`,
+            timestamp: now,
+            engine: request.engine,
+            stake: request.stake,
+            symbol: request.symbol,
+            contractType: request.contractType,
+            reason,
+            message,
+            snapshot: this.getSnapshot(),
+        };
+
+        this.auditLog.push(record);
+        if (this.auditLog.length > MAX_AUDIT_RECORDS) {
+            this.auditLog = this.auditLog.slice(-MAX_AUDIT_RECORDS);
+        }
+        localStorage.setItem(STORAGE_KEYS.AUDIT, JSON.stringify(this.auditLog));
+
+        console.warn(`🛑 Risk gate rejected ${request.engine} trade: ${message}`);
+    }
+
+    private getSnapshot(): RiskGateSnapshot {
+        return {
+            dailyProfit: this.dailyStats.profit,
+            openContracts: this.openPositions.size,
+            openExposure: this.getOpenExposure(),
+            tradesLastMinute: this.recentTradeTimes.length,
+            killSwitchActive: this.killSwitch.active,
+            unreconciledContracts: this.unreconciledPositions.size,
+        };
+    }
+
+    private getOpenExposure(): number {
+        let exposure = 0;
+        this.openPositions.forEach(position => {
+            exposure += position.stake;
+        });
+        return Math.round(exposure * 100) / 100;
+    }
+
+    private findPosition(positions: Map<string, OpenPosition>, reference: string): OpenPosition | undefined {
+        const byTicket = positions.get(reference);
+        if (byTicket) return byTicket;
+
+        for (const position of positions.values()) {
+            if (position.contractId === reference) return position;
+        }
+        return undefined;
+    }
+
+    private isOpenedToday(position: OpenPosition): boolean {
+        return new Date(position.openedAt).toDateString() === this.dailyStats.date;
+    }
+
+    private addDailyProfit(profit: number): void {
+        this.dailyStats.profit = Math.round((this.dailyStats.profit + profit) * 100) / 100;
+    }
+
+    private pruneState(now: number): void {
+        this.recentTradeTimes = this.recentTradeTimes.filter(time => now - time < RATE_WINDOW_MS);
+
+        // The contract may still be live, so its stake is booked as lost rather than dropped
+        const staleBefore = now - this.limits.staleContractTimeout * 60 * 1000;
+        this.openPositions.forEach((position, ticketId) => {
+            if (position.openedAt < staleBefore) {
+                console.warn(
+                    `⚠️ Risk gate booking unsettled ${position.engine} contract ${position.contractId || ticketId} as a $${position.stake} loss until it settles`
+                );
+                this.openPositions.delete(ticketId);
+                this.unreconciledPositions.set(ticketId, position);
+                if (this.isOpenedToday(position)) {
+                    this.addDailyProfit(-position.stake);
+                    this.saveDailyStats();
+                }
+            }
+        });
+    }
+
+    private rollDailyStats(now: number): void {
+        const today = new Date(now).toDateString();
+        if (this.dailyStats.date !== today) {
+            this.dailyStats = { date: today, profit: 0, tradeCount: 0 };
+            this.saveDailyStats();
+        }
+    }
+
+    private notifyListeners(): void {
+        if (this.listeners.size === 0) return;
+        const status = this.getStatus();
+        this.listeners.forEach(listener => listener(status));
+    }
+
+    private saveDailyStats(): void {
+        localStorage.setItem(STORAGE_KEYS.DAILY, JSON.stringify(this.dailyStats));
+    }
+
+    private loadStoredData(): void {
+        try {
+            const storedLimits = localStorage.getItem(STORAGE_KEYS.LIMITS);
+            if (storedLimits) {
+                this.limits = { ...this.limits, ...JSON.parse(storedLimits) };
+            }
+
+            const storedDaily = localStorage.getItem(STORAGE_KEYS.DAILY);
+            if (storedDaily) {
+                const daily = JSON.parse(storedDaily);
+                if (daily.date === this.dailyStats.date) {
+                    this.dailyStats = daily;
+                }
+            }
+
+            const storedKillSwitch = localStorage.getItem(STORAGE_KEYS.KILL_SWITCH);
+            if (storedKillSwitch) {
+                this.killSwitch = JSON.parse(storedKillSwitch);
+            }
+
+            const storedAudit = localStorage.getItem(STORAGE_KEYS.AUDIT);
+            if (storedAudit) {
+                this.auditLog = JSON.parse(storedAudit);
+            }
+        } catch (error) {
+            console.error('Error loading account risk gate data:', error);
+        }
+    }
+}
+
+export const accountRiskGate = AccountRiskGateService.getInstance();
@@ -3,11 +3,14 @@
  * Advanced tick-based analysis engine for accumulator trading
  */
 
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
 import {
     AccumulatorConfig,
     AccumulatorAnalysis,
+    AccumulatorPosition,
     AccumulatorSession,
     AccumulatorSignal,
+    AccumulatorTrade,
     TickAnalysis,
     VolatilityAnalysis,
     ProfitProbability,
@@ -16,11 +19,42 @@ import {
     TickData,
     TickPattern,
 } from '../../types/accumulator/accumulator.types';
+import { accountRiskGate } from '../account-risk-gate.service';
+import { SettledContract, sendBuy, watchContractSettlement } from '../contract-settlement';
+import { derivConnectionPool } from '../deriv-connection-pool.service';
+import { historicalTickLoader } from '../historical-tick-loader.service';
+import { tradeLedger } from '../trade-ledger.service';
+import {
+    AccumulatorPositionTracker,
+    estimateBarrierFromReturns,
+    getAccumulatorValue,
+    getTakeProfitTicks,
+} from './accumulator-position-tracker';
+
+const MAX_BUFFERED_TICKS = 1000;
+const SETTLEMENT_TIMEOUT_MS = 10 * 60 * 1000;
+
+interface LiveContract {
+    contractId: string;
+    session: AccumulatorSession;
+    position: AccumulatorPosition;
+    selling: boolean;
+    closeAction?: AccumulatorTrade['action'];
+    closeReason?: string;
+}
 
 class AccumulatorAnalysisService {
     private tickHistory: TickData[] = [];
+    private tickMarket: string | null = null;
+    private tickUnsubscribe: (() => void) | null = null;
     private currentSession: AccumulatorSession | null = null;
     private analysisInterval: NodeJS.Timeout | null = null;
+    private tracker: AccumulatorPositionTracker | null = null;
+    private tradingEnabled = false;
+    private pendingEntry = false;
+    private liveContract: LiveContract | null = null;
+    private barrierCache: Map<string, number> = new Map();
+    private sessionListeners: Set<(session: AccumulatorSession) => void> = new Set();
 
     /**
      * Start real-time accumulator analysis
@@ -41,21 +75,61 @@ class AccumulatorAnalysisService {
             maxValue: config.initialStake,
             minValue: config.initialStake,
             trades: [],
+            paperMode: config.paperMode ?? false,
+            knockOuts: 0,
         };
 
         this.currentSession = session;
+        await this.subscribeToTicks(config.market);
         this.startTickAnalysis();
 
         return session;
     }
 
+    /**
+     * Get the current session
+     */
+    getCurrentSession(): AccumulatorSession | null {
+        return this.currentSession;
+    }
+
+    /**
+     * Subscribe to session updates, emitted on every live tick
+     */
+    onSessionUpdate(listener: (session: AccumulatorSession) => void): () => void {
+        this.sessionListeners.add(listener);
+        return () => {
+            this.sessionListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Close the open contract of the current session. A live contract is sold here and booked
+     * once Deriv reports it sold.
+     */
+    async closePosition(action: AccumulatorTrade['action'] = 'EXIT', reason?: string): Promise<void> {
+        const session = this.currentSession;
+        if (!session) return;
+
+        if (this.liveContract) {
+            await this.sellLiveContract(action, reason);
+            return;
+        }
+
+        const closed = this.tracker?.close();
+        if (!closed) return;
+
+        this.recordTrade(session, action, closed.position, closed.profit, reason);
+        this.notifySessionListeners();
+    }
+
     /**
      * Perform comprehensive accumulator analysis
      */
     async analyzeAccumulator(config: AccumulatorConfig, tickData: TickData[]): Promise<AccumulatorAnalysis> {
         const tickAnalysis = this.analyzeTickData(tickData);
         const volatilityAnalysis = this.analyzeVolatility(tickData);
-        const profitProbability = this.calculateProfitProbability(config, tickAnalysis, volatilityAnalysis);
+        const profitProbability = this.calculateProfitProbability(config, tickData, tickAnalysis);
         const riskAssessment = this.assessRisk(config, tickAnalysis, volatilityAnalysis);
         const recommendations = this.generateRecommendations(
             config,
@@ -128,23 +202,28 @@ class AccumulatorAnalysisService {
     }
 
     /**
-     * Calculate profit probability using Monte Carlo simulation
+     * Calculate profit probability using Monte Carlo simulation over the observed tick moves
      */
     private calculateProfitProbability(
         config: AccumulatorConfig,
-        tickAnalysis: TickAnalysis,
-        volatilityAnalysis: VolatilityAnalysis
+        tickData: TickData[],
+        tickAnalysis: TickAnalysis
     ): ProfitProbability {
         const simulations = 1000;
         let takeProfitCount = 0;
         let stopLossCount = 0;
         let totalExpectedValue = 0;
 
-        for (let i = 0; i < simulations; i++) {
-            const result = this.simulateAccumulatorTrade(config, tickAnalysis, volatilityAnalysis);
+        const returns = this.calculateReturns(tickData.map(tick => tick.value));
+        const barrier =
+            this.barrierCache.get(this.getBarrierKey(config.market, config.growthRate)) ??
+            estimateBarrierFromReturns(returns, config.growthRate);
+
+        for (let i = 0; i < simulations && barrier !== null; i++) {
+            const result = this.simulateAccumulatorTrade(config, returns, barrier);
 
             if (result.outcome === 'TAKE_PROFIT') takeProfitCount++;
-            if (result.outcome === 'STOP_LOSS') stopLossCount++;
+            if (result.outcome === 'KNOCK_OUT') stopLossCount++;
 
             totalExpectedValue += result.finalValue - config.initialStake;
         }
@@ -279,17 +358,25 @@ class AccumulatorAnalysisService {
     }
 
     /**
-     * Start tick-based bot execution
+     * Start tick-based bot execution.
+     * Contracts are opened on live ticks and knocked out against the broker's barrier for the growth rate;
+     * in paper mode they settle without buying.
      */
-    async startTickBot(config: AccumulatorConfig): Promise<string> {
+    async startTickBot(config: AccumulatorConfig): Promise<AccumulatorSession> {
         console.log('🤖 Starting Tick-Based Accumulator Bot...', config);
 
-        const botId = this.generateBotId();
+        const session = await this.startAnalysis(config);
+        const barrier = await this.resolveBarrier(config.market, config.growthRate);
 
-        // Start real-time tick monitoring
-        this.startTickMonitoring(botId, config);
+        session.barrier = barrier;
+        this.tracker = new AccumulatorPositionTracker(config.growthRate, barrier);
+        this.tradingEnabled = true;
 
-        return botId;
+        console.log(
+            `🎯 Accumulator ${session.paperMode ? 'paper' : 'live'} trading on ${config.market}: ${config.growthRate}% growth, barrier ±${(barrier * 100).toFixed(4)}%`
+        );
+
+        return session;
     }
 
     /**
@@ -303,60 +390,327 @@ class AccumulatorAnalysisService {
                 const tickData = await this.getRecentTickData(this.currentSession.config.market, 50);
                 const analysis = await this.analyzeAccumulator(this.currentSession.config, tickData);
 
-                // Update session based on analysis
-                this.updateSession(analysis);
-
-                // Check exit conditions
-                this.checkExitConditions(analysis);
+                // Trading sessions exit through the bot's rules
+                if (!this.tradingEnabled) {
+                    this.checkExitConditions(analysis);
+                }
             } catch (error) {
                 console.error('❌ Error in tick analysis:', error);
             }
         }, 1000); // Analyze every second
     }
 
-    private async startTickMonitoring(botId: string, config: AccumulatorConfig): Promise<void> {
-        // Implementation for real-time tick monitoring and bot execution
-        console.log(`🔄 Monitoring ticks for bot ${botId} with ${config.growthRate}% growth rate`);
+    private async subscribeToTicks(market: string): Promise<void> {
+        if (this.tickMarket === market && this.tickUnsubscribe) return;
 
-        // This would integrate with your existing tick data services
-        // and execute trades based on the configured strategy
+        this.unsubscribeFromTicks();
+        this.tickMarket = market;
+        this.tickHistory = [];
+        this.tickUnsubscribe = await derivConnectionPool.subscribeToTicks(market, (tickData: unknown) => {
+            this.handleTick(tickData as { tick?: { quote?: number | string; epoch?: number } });
+        });
+    }
+
+    private unsubscribeFromTicks(): void {
+        this.tickUnsubscribe?.();
+        this.tickUnsubscribe = null;
+        this.tickMarket = null;
+    }
+
+    private handleTick(tickData: { tick?: { quote?: number | string; epoch?: number } }): void {
+        const quote = Number(tickData.tick?.quote);
+        if (!tickData.tick || isNaN(quote)) return;
+
+        const epoch = Number(tickData.tick.epoch) || Math.floor(Date.now() / 1000);
+        this.tickHistory.push({ timestamp: new Date(epoch * 1000), value: quote });
+        if (this.tickHistory.length > MAX_BUFFERED_TICKS) {
+            this.tickHistory = this.tickHistory.slice(-MAX_BUFFERED_TICKS);
+        }
+
+        const session = this.currentSession;
+        if (!session || session.status !== 'ACTIVE') return;
+
+        session.tickCount++;
+        if (this.tradingEnabled) {
+            this.processTradingTick(session, quote);
+        }
+        this.notifySessionListeners();
+    }
+
+    private processTradingTick(session: AccumulatorSession, quote: number): void {
+        if (!this.tracker) return;
+
+        const outcome = this.tracker.processTick(quote);
+        if (this.liveContract) {
+            // Live contracts settle from Deriv; the tracker only mirrors them for display
+            if (outcome?.type === 'KNOCK_OUT') {
+                console.log(`💥 Accumulator contract ${this.liveContract.contractId} knocked out, awaiting settlement`);
+            } else if (outcome && outcome.position.ticksHeld >= session.config.maxTicks) {
+                void this.sellLiveContract('EXIT', 'Max ticks reached');
+            }
+        } else if (outcome?.type === 'KNOCK_OUT') {
+            session.knockOuts++;
+            this.recordTrade(session, 'KNOCK_OUT', outcome.position, outcome.profit, 'Spot left the barrier range');
+        } else if (outcome && outcome.position.ticksHeld >= session.config.maxTicks) {
+            void this.closePosition('EXIT', 'Max ticks reached');
+        } else if (!outcome && !this.pendingEntry) {
+            void this.openPosition(session, quote);
+        }
+
+        session.openPosition = this.tracker.getPosition() ?? undefined;
+    }
+
+    private async openPosition(session: AccumulatorSession, quote: number): Promise<void> {
+        const stake = session.config.initialStake;
+
+        if (session.paperMode) {
+            this.tracker?.open(stake, quote);
+            return;
+        }
+
+        const decision = accountRiskGate.requestApproval({
+            engine: 'ACCUMULATOR',
+            stake,
+            symbol: session.config.market,
+            contractType: 'ACCU',
+        });
+        if (!decision.allowed) {
+            this.exitCurrentSession(`Blocked by risk gate: ${decision.message}`);
+            return;
+        }
+
+        this.pendingEntry = true;
+        const currency = (api_base.account_info as { currency?: string }).currency || 'USD';
+        try {
+            const outcome = await sendBuy(
+                {
+                    buy: 1,
+                    price: stake,
+                    parameters: {
+                        contract_type: 'ACCU',
+                        symbol: session.config.market,
+                        growth_rate: session.config.growthRate / 100,
+                        amount: stake,
+                        basis: 'stake',
+                        currency,
+                    },
+                },
+                { symbol: session.config.market, contractType: 'ACCU', stake, sentAt: Date.now() }
+            );
+
+            if (outcome.status !== 'bought') {
+                // An unknown outcome keeps the ticket so the stake stays counted until the contract is found
+                if (outcome.status === 'rejected') accountRiskGate.releaseTicket(decision.ticketId!);
+                console.error('❌ Failed to buy accumulator contract:', outcome.error);
+                this.exitCurrentSession(`Buy failed: ${outcome.error}`);
+                return;
+            }
+
+            const contractId = String(outcome.buy.contract_id);
+            accountRiskGate.attachContract(decision.ticketId!, contractId);
+            const lastTick = this.tickHistory[this.tickHistory.length - 1];
+            const position = this.tracker!.open(stake, lastTick?.value ?? quote, contractId);
+            const live: LiveContract = { contractId, session, position, selling: false };
+            this.liveContract = live;
+
+            void watchContractSettlement(contractId, {
+                timeoutMs: SETTLEMENT_TIMEOUT_MS,
+                onSettled: contract => this.settleLiveContract(live, contract),
+            }).then(contract => {
+                if (!contract) this.releaseUnsettledContract(live);
+            });
+        } finally {
+            this.pendingEntry = false;
+        }
+    }
+
+    /**
+     * Sell the live contract. It stays open, and no new contract is bought, until Deriv settles it.
+     */
+    private async sellLiveContract(action: AccumulatorTrade['action'], reason?: string): Promise<void> {
+        const live = this.liveContract;
+        if (!live || live.selling) return;
+
+        live.selling = true;
+        live.closeAction = action;
+        live.closeReason = reason;
+        try {
+            const response = await api_base.api?.send({ sell: Number(live.contractId), price: 0 });
+            if (!response?.sell) throw new Error(response?.error?.message || 'Invalid sell response');
+        } catch (error) {
+            console.error(`❌ Failed to sell accumulator contract ${live.contractId}:`, error);
+            live.closeAction = undefined;
+            live.closeReason = undefined;
+        } finally {
+            live.selling = false;
+        }
+    }
+
+    /**
+     * Stop waiting for a contract Deriv has not settled in time so the bot does not stall on it.
+     * The session ends; the contract is still booked, and its risk gate ticket closed, once it settles.
+     */
+    private releaseUnsettledContract(live: LiveContract): void {
+        if (this.liveContract !== live) return;
+
+        this.liveContract = null;
+        if (this.tracker?.getPosition()?.contractId === live.contractId) this.tracker.close();
+        live.session.openPosition = undefined;
+
+        if (this.currentSession === live.session) {
+            this.exitCurrentSession(
+                `Contract ${live.contractId} did not settle in time; it is booked when Deriv settles it`
+            );
+        }
+    }
+
+    private settleLiveContract(live: LiveContract, contract: SettledContract): void {
+        if (live.contractId !== String(contract.contract_id)) return;
+
+        if (this.liveContract === live) {
+            this.liveContract = null;
+            if (this.tracker?.getPosition()?.contractId === live.contractId) this.tracker.close();
+        }
+
+        const profit = Number(contract.profit) || 0;
+        const sellPrice = Number(contract.sell_price) || 0;
+        const exitSpot = Number(contract.exit_tick ?? contract.sell_spot);
+        const position: AccumulatorPosition = {
+            ...live.position,
+            currentValue: sellPrice,
+            previousSpot: isNaN(exitSpot) ? live.position.previousSpot : exitSpot,
+        };
+
+        if (sellPrice === 0) {
+            live.session.knockOuts++;
+            this.recordTrade(live.session, 'KNOCK_OUT', position, profit, 'Spot left the barrier range');
+        } else {
+            this.recordTrade(live.session, live.closeAction ?? 'EXIT', position, profit, live.closeReason);
+        }
+        this.notifySessionListeners();
+    }
+
+    private recordTrade(
+        session: AccumulatorSession,
+        action: AccumulatorTrade['action'],
+        position: AccumulatorPosition,
+        profit: number,
+        reason?: string
+    ): void {
+        session.trades.push({
+            id: position.id,
+            timestamp: new Date(),
+            action,
+            value: position.currentValue,
+            profit,
+            profitPercentage: (profit / position.stake) * 100,
+            tickNumber: position.ticksHeld,
+            reason,
+        });
+
+        session.profit = Math.round((session.profit + profit) * 100) / 100;
+        session.currentValue = session.initialStake + session.profit;
+        session.profitPercentage = (session.profit / session.initialStake) * 100;
+        session.maxValue = Math.max(session.maxValue, session.currentValue);
+        session.minValue = Math.min(session.minValue, session.currentValue);
+        session.openPosition = this.tracker?.getPosition() ?? undefined;
+
+        if (!session.paperMode && position.contractId) {
+            accountRiskGate.recordSettlement(position.contractId, profit);
+        }
+
+        tradeLedger.record({
+            contractId: position.contractId ?? position.id,
+            engine: 'ACCUMULATOR',
+            strategy: session.config.strategy,
+            symbol: session.config.market,
+            contractType: 'ACCU',
+            stake: position.stake,
+            payout: position.currentValue,
+            profit,
+            entrySpot: position.entrySpot,
+            exitSpot: position.previousSpot,
+            isPaper: session.paperMode,
+        });
+
+        console.log(
+            `${profit >= 0 ? '💰' : '💥'} Accumulator ${action} after ${position.ticksHeld} ticks: ${profit >= 0 ? '+' : ''}${profit.toFixed(2)}`
+        );
+    }
+
+    private notifySessionListeners(): void {
+        const session = this.currentSession;
+        if (!session) return;
+        this.sessionListeners.forEach(listener => listener(session));
+    }
+
+    private async resolveBarrier(market: string, growthRate: number): Promise<number> {
+        const key = this.getBarrierKey(market, growthRate);
+        const cached = this.barrierCache.get(key);
+        if (cached) return cached;
+
+        let barrier: number | null = null;
+        try {
+            const response = await api_base.api?.send({
+                proposal: 1,
+                contract_type: 'ACCU',
+                symbol: market,
+                growth_rate: growthRate / 100,
+                amount: 1,
+                basis: 'stake',
+                currency: (api_base.account_info as { currency?: string }).currency || 'USD',
+            });
+            const tickSizeBarrier = Number(response?.proposal?.contract_details?.tick_size_barrier);
+            if (tickSizeBarrier > 0) barrier = tickSizeBarrier;
+        } catch (error) {
+            console.warn('⚠️ Accumulator proposal unavailable, estimating barrier from ticks:', error);
+        }
+
+        if (barrier === null) {
+            const tickData = await this.getRecentTickData(market, 500);
+            barrier = estimateBarrierFromReturns(this.calculateReturns(tickData.map(tick => tick.value)), growthRate);
+        }
+
+        if (barrier === null) {
+            throw new Error(`Unable to determine accumulator barrier for ${market}`);
+        }
+
+        this.barrierCache.set(key, barrier);
+        return barrier;
+    }
+
+    private getBarrierKey(market: string, growthRate: number): string {
+        return `${market}_${growthRate}`;
     }
 
     private simulateAccumulatorTrade(
         config: AccumulatorConfig,
-        tickAnalysis: TickAnalysis,
-        volatilityAnalysis: VolatilityAnalysis
+        returns: number[],
+        barrier: number
     ): { outcome: string; finalValue: number; ticks: number } {
         let currentValue = config.initialStake;
         let ticks = 0;
         const maxTicks = config.maxTicks || 1000;
+        const takeProfitTicks = config.takeProfitTicks ?? getTakeProfitTicks(config.growthRate, config.takeProfit);
 
-        const takeProfitTarget = config.initialStake * (1 + config.takeProfit / 100);
-        const stopLossTarget = config.initialStake * (1 - config.stopLoss / 100);
+        while (ticks < maxTicks && returns.length > 0) {
+            // Resample an observed tick move and test it against the barrier range
+            const move = returns[Math.floor(Math.random() * returns.length)];
+            if (Math.abs(move) >= barrier) {
+                return { outcome: 'KNOCK_OUT', finalValue: 0, ticks };
+            }
 
-        while (ticks < maxTicks) {
-            // Simulate tick movement based on volatility
-            const tickChange = this.generateRandomTick(volatilityAnalysis.currentVolatility);
-            currentValue *= 1 + config.growthRate / 100 + tickChange;
             ticks++;
+            currentValue = getAccumulatorValue(config.initialStake, config.growthRate, ticks);
 
-            if (currentValue >= takeProfitTarget) {
+            if (ticks >= takeProfitTicks) {
                 return { outcome: 'TAKE_PROFIT', finalValue: currentValue, ticks };
             }
-
-            if (currentValue <= stopLossTarget) {
-                return { outcome: 'STOP_LOSS', finalValue: currentValue, ticks };
-            }
         }
 
         return { outcome: 'MAX_TICKS', finalValue: currentValue, ticks };
     }
 
-    private generateRandomTick(volatility: number): number {
-        // Generate random tick movement based on volatility
-        return (Math.random() - 0.5) * volatility * 0.01;
-    }
-
     private calculateStandardDeviation(values: number[]): number {
         const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
         const squaredDiffs = values.map(val => Math.pow(val - mean, 2));
@@ -600,14 +954,6 @@ class AccumulatorAnalysisService {
         return Math.min(10, strength);
     }
 
-    private updateSession(analysis: AccumulatorAnalysis): void {
-        // Update current session with analysis results
-        if (this.currentSession) {
-            this.currentSession.tickCount++;
-            // Additional session updates based on analysis
-        }
-    }
-
     private checkExitConditions(analysis: AccumulatorAnalysis): void {
         // Check if any exit conditions are met
         const exitRecommendation = analysis.recommendations.find(r => r.type === 'EXIT');
@@ -618,26 +964,27 @@ class AccumulatorAnalysisService {
 
     private exitCurrentSession(reason: string): void {
         if (this.currentSession) {
+            this.tradingEnabled = false;
             this.currentSession.status = 'COMPLETED';
             this.currentSession.endTime = new Date();
             console.log(`🏁 Session ended: ${reason}`);
+            this.notifySessionListeners();
         }
     }
 
     private async getRecentTickData(market: string, count: number): Promise<TickData[]> {
-        // This would integrate with your existing tick data services
-        // For now, return mock data
-        const mockData: TickData[] = [];
-        const now = new Date();
-
-        for (let i = 0; i < count; i++) {
-            mockData.push({
-                timestamp: new Date(now.getTime() - (count - i) * 1000),
-                value: 100 + Math.random() * 10 - 5,
-            });
+        if (this.tickMarket === market && this.tickHistory.length >= count) {
+            return this.tickHistory.slice(-count);
         }
 
-        return mockData;
+        // Backfill from history until the live buffer has enough ticks
+        const result = await historicalTickLoader.loadHistoricalTicksWithRetry(market, count);
+        const historical = result.ticks.map(tick => ({ timestamp: new Date(tick.epoch * 1000), value: tick.quote }));
+        const lastEpoch = historical.length > 0 ? historical[historical.length - 1].timestamp.getTime() : 0;
+        const live =
+            this.tickMarket === market ? this.tickHistory.filter(tick => tick.timestamp.getTime() > lastEpoch) : [];
+
+        return [...historical, ...live].slice(-count);
     }
 
     // ID generators
@@ -649,10 +996,6 @@ class AccumulatorAnalysisService {
         return `acc_signal_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
     }
 
-    private generateBotId(): string {
-        return `acc_bot_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
-    }
-
     /**
      * Stop current analysis
      */
@@ -662,6 +1005,12 @@ class AccumulatorAnalysisService {
             this.analysisInterval = null;
         }
 
+        if (this.liveContract || this.tracker?.getPosition()) {
+            void this.closePosition('EXIT', 'Session stopped');
+        }
+        this.tradingEnabled = false;
+        this.unsubscribeFromTicks();
+
         if (this.currentSession) {
             this.currentSession.status = 'STOPPED';
             this.currentSession.endTime = new Date();
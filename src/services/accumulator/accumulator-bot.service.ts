@@ -8,12 +8,15 @@ import {
     AccumulatorBot,
     AccumulatorSession,
     BotPerformance,
+    BotRule,
 } from '../../types/accumulator/accumulator.types';
 import { accumulatorAnalysisService } from './accumulator-analysis.service';
+import { getTakeProfitTicks } from './accumulator-position-tracker';
 
 class AccumulatorBotService {
     private activeBots: Map<string, AccumulatorBot> = new Map();
     private botSessions: Map<string, AccumulatorSession> = new Map();
+    private sessionUnsubscribers: Map<string, () => void> = new Map();
 
     /**
      * Create and start a new accumulator bot
@@ -52,8 +55,8 @@ class AccumulatorBotService {
         try {
             bot.status = 'RUNNING';
 
-            // Start analysis session
-            const session = await accumulatorAnalysisService.startAnalysis(bot.config);
+            // Start live tick session; live buys pass the account risk gate, paper mode settles without buying
+            const session = await accumulatorAnalysisService.startTickBot(bot.config);
             this.botSessions.set(botId, session);
 
             // Start bot monitoring
@@ -78,10 +81,14 @@ class AccumulatorBotService {
 
         bot.status = 'IDLE';
 
+        this.sessionUnsubscribers.get(botId)?.();
+        this.sessionUnsubscribers.delete(botId);
+
         // Stop analysis session
         const session = this.botSessions.get(botId);
         if (session) {
             accumulatorAnalysisService.stopAnalysis();
+            this.updateBotPerformance(bot, session);
             this.botSessions.delete(botId);
         }
 
@@ -213,12 +220,11 @@ class AccumulatorBotService {
      * Private helper methods
      */
     private startBotMonitoring(botId: string): void {
-        const monitoringInterval = setInterval(async () => {
+        // Rules run on every live tick so contract exits are not delayed
+        const unsubscribe = accumulatorAnalysisService.onSessionUpdate(async session => {
             const bot = this.activeBots.get(botId);
-            const session = this.botSessions.get(botId);
 
-            if (!bot || !session || bot.status !== 'RUNNING') {
-                clearInterval(monitoringInterval);
+            if (!bot || session !== this.botSessions.get(botId) || bot.status !== 'RUNNING') {
                 return;
             }
 
@@ -226,14 +232,22 @@ class AccumulatorBotService {
                 // Update bot performance based on session
                 this.updateBotPerformance(bot, session);
 
+                if (session.status !== 'ACTIVE') {
+                    console.log(`🛑 Bot ${bot.id} session ended`);
+                    await this.stopBot(bot.id);
+                    return;
+                }
+
                 // Check for exit conditions
                 await this.checkBotExitConditions(bot, session);
             } catch (error) {
                 console.error(`❌ Error monitoring bot ${botId}:`, error);
                 bot.status = 'ERROR';
-                clearInterval(monitoringInterval);
+                unsubscribe();
             }
-        }, 1000); // Monitor every second
+        });
+
+        this.sessionUnsubscribers.set(botId, unsubscribe);
     }
 
     private updateBotPerformance(bot: AccumulatorBot, session: AccumulatorSession): void {
@@ -281,10 +295,15 @@ class AccumulatorBotService {
 
     private async checkBotExitConditions(bot: AccumulatorBot, session: AccumulatorSession): Promise<void> {
         // Check if session should be stopped based on bot rules
-        for (const rule of bot.rules) {
+        for (const rule of [...bot.rules].sort((a, b) => a.priority - b.priority)) {
             if (!rule.enabled) continue;
 
             if (rule.type === 'EXIT' && this.evaluateRule(rule, session)) {
+                if (rule.action === 'CLOSE_CONTRACT') {
+                    await accumulatorAnalysisService.closePosition('TAKE_PROFIT', rule.condition);
+                    continue;
+                }
+
                 console.log(`🛑 Bot ${bot.id} triggered exit rule: ${rule.condition}`);
                 await this.stopBot(bot.id);
                 break;
@@ -292,7 +311,7 @@ class AccumulatorBotService {
         }
     }
 
-    private evaluateRule(rule: any, session: AccumulatorSession): boolean {
+    private evaluateRule(rule: BotRule, session: AccumulatorSession): boolean {
         // Simplified rule evaluation - could be more sophisticated
         switch (rule.condition) {
             case 'MAX_LOSS_REACHED':
@@ -301,6 +320,15 @@ class AccumulatorBotService {
                 return session.profitPercentage >= session.config.takeProfit;
             case 'MAX_TICKS_REACHED':
                 return session.tickCount >= session.config.maxTicks;
+            case 'TAKE_PROFIT_TICKS':
+                return (
+                    !!session.openPosition &&
+                    session.openPosition.ticksHeld >=
+                        (session.config.takeProfitTicks ??
+                            getTakeProfitTicks(session.config.growthRate, session.config.takeProfit))
+                );
+            case 'MAX_KNOCK_OUTS_REACHED':
+                return session.config.maxKnockOuts !== undefined && session.knockOuts >= session.config.maxKnockOuts;
             default:
                 return false;
         }
@@ -318,8 +346,24 @@ class AccumulatorBotService {
         };
     }
 
-    private getDefaultRules(config: AccumulatorConfig): any[] {
+    private getDefaultRules(config: AccumulatorConfig): BotRule[] {
         return [
+            {
+                id: 'exit_take_profit_ticks',
+                type: 'EXIT',
+                condition: 'TAKE_PROFIT_TICKS',
+                action: 'CLOSE_CONTRACT',
+                priority: 0,
+                enabled: true,
+            },
+            {
+                id: 'exit_max_knock_outs',
+                type: 'EXIT',
+                condition: 'MAX_KNOCK_OUTS_REACHED',
+                action: 'STOP_BOT',
+                priority: 1,
+                enabled: true,
+            },
             {
                 id: 'exit_take_profit',
                 type: 'EXIT',
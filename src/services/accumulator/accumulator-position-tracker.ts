@@ -0,0 +1,114 @@
+/**
+ * Accumulator Position Tracker
+ * Settles accumulator contracts tick by tick against the barrier range of the chosen growth rate
+ */
+
+import { AccumulatorPosition } from '../../types/accumulator/accumulator.types';
+
+export type AccumulatorTickOutcome =
+    | { type: 'SURVIVED'; position: AccumulatorPosition }
+    | { type: 'KNOCK_OUT'; position: AccumulatorPosition; profit: number };
+
+// Tolerance so a spot exactly on the barrier counts as touching despite floating point error
+const BARRIER_EPSILON = 1e-9;
+
+/**
+ * A contract is knocked out when the spot touches or leaves previous spot ± barrier
+ */
+export const isKnockOut = (previousSpot: number, spot: number, barrier: number): boolean =>
+    Math.abs(spot - previousSpot) >= previousSpot * barrier * (1 - BARRIER_EPSILON);
+
+/**
+ * Contract value after surviving the given number of ticks
+ */
+export const getAccumulatorValue = (stake: number, growthRate: number, ticks: number): number =>
+    Math.round(stake * Math.pow(1 + growthRate / 100, ticks) * 100) / 100;
+
+/**
+ * Ticks a contract must survive to reach a take-profit percentage
+ */
+export const getTakeProfitTicks = (growthRate: number, takeProfit: number): number =>
+    Math.max(1, Math.ceil(Math.log(1 + takeProfit / 100) / Math.log(1 + growthRate / 100)));
+
+/**
+ * Estimate the barrier from observed relative tick moves when the broker's value is unavailable.
+ * The barrier is set so a tick survives with probability 1 / (1 + growth rate).
+ */
+export const estimateBarrierFromReturns = (returns: number[], growthRate: number): number | null => {
+    if (returns.length < 10) return null;
+
+    const moves = returns.map(Math.abs).sort((a, b) => a - b);
+    const survival = 1 / (1 + growthRate / 100);
+    return moves[Math.min(moves.length - 1, Math.floor(survival * moves.length))];
+};
+
+export class AccumulatorPositionTracker {
+    private position: AccumulatorPosition | null = null;
+
+    constructor(
+        private growthRate: number,
+        private barrier: number
+    ) {}
+
+    /**
+     * Open a contract at the given entry spot
+     */
+    open(stake: number, spot: number, contractId?: string): AccumulatorPosition {
+        this.position = {
+            id: `acc_pos_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+            stake,
+            entrySpot: spot,
+            previousSpot: spot,
+            ticksHeld: 0,
+            currentValue: stake,
+            openedAt: new Date(),
+            contractId,
+        };
+        return this.position;
+    }
+
+    /**
+     * Apply a tick to the open contract
+     */
+    processTick(spot: number): AccumulatorTickOutcome | null {
+        const position = this.position;
+        if (!position) return null;
+
+        if (isKnockOut(position.previousSpot, spot, this.barrier)) {
+            this.position = null;
+            return {
+                type: 'KNOCK_OUT',
+                position: { ...position, previousSpot: spot, currentValue: 0 },
+                profit: -position.stake,
+            };
+        }
+
+        position.previousSpot = spot;
+        position.ticksHeld++;
+        position.currentValue = getAccumulatorValue(position.stake, this.growthRate, position.ticksHeld);
+        return { type: 'SURVIVED', position };
+    }
+
+    /**
+     * Close the open contract at its current value
+     */
+    close(): { position: AccumulatorPosition; profit: number } | null {
+        const position = this.position;
+        if (!position) return null;
+
+        this.position = null;
+        return { position, profit: Math.round((position.currentValue - position.stake) * 100) / 100 };
+    }
+
+    getPosition(): AccumulatorPosition | null {
+        return this.position;
+    }
+
+    getBarrier(): number {
+        return this.barrier;
+    }
+
+    setBarrier(barrier: number): void {
+        this.barrier = barrier;
+    }
+}
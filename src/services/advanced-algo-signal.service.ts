@@ -7,6 +7,7 @@
 import { derivConnectionPool } from './deriv-connection-pool.service';
 import { entryPointDetector } from './entry-point-detector.service';
 import { patternPredictor } from './pattern-predictor.service';
+import { fromRealSignal, signalOutcomeTracker } from './signal-outcome-tracker.service';
 
 export interface BarrierSuggestion {
     level: number;
@@ -1090,6 +1091,9 @@ class AdvancedAlgoSignalService {
         this.stats.lastSignalTime = signal.timestamp;
         this.stats.avgConfidence = this.calculateAverageConfidence();
 
+        // Settle the prediction on the following ticks for calibration
+        signalOutcomeTracker.track(fromRealSignal(signal));
+
         // Notify listeners
         this.listeners.forEach(listener => {
             try {
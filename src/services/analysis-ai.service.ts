@@ -3,6 +3,8 @@
  * Provides pattern recognition, predictions, and trading insights
  */
 
+import { combineProvenance, DataProvenance } from './tick-source/tick-source';
+
 export interface AIPrediction {
     nextDigit: number;
     confidence: number;
@@ -11,6 +13,14 @@ export interface AIPrediction {
     recommendedStrategy: 'over' | 'under' | 'even' | 'odd' | 'specific' | 'matches' | 'differs';
     riskLevel: 'low' | 'medium' | 'high';
     expectedWinRate: number;
+    provenance: DataProvenance; // Synthetic or mixed once a random fallback fed into the prediction
+}
+
+interface PartialPrediction {
+    digit: number;
+    confidence: number;
+    alternatives: Array<{ digit: number; probability: number }>;
+    random?: boolean; // Made up because the digits gave nothing to go on
 }
 
 export interface PatternMatch {
@@ -34,9 +44,10 @@ class AnalysisAIService {
     private predictionHistory: AIPrediction[] = [];
 
     /**
-     * Analyze digit sequence and generate AI prediction
+     * Analyze digit sequence and generate AI prediction; provenance describes where the
+     * digits came from
      */
-    public analyzePrediction(digits: number[], currentMarket: string): AIPrediction {
+    public analyzePrediction(digits: number[], currentMarket: string, provenance: DataProvenance): AIPrediction {
         const recentDigits = digits.slice(0, 20);
         
         // Pattern-based prediction
@@ -75,6 +86,9 @@ class AnalysisAIService {
             recommendedStrategy,
             riskLevel,
             expectedWinRate,
+            provenance: [patternPrediction, trendPrediction].some(part => part.random)
+                ? combineProvenance([provenance, 'synthetic'])
+                : provenance,
         };
 
         this.predictionHistory.push(prediction);
@@ -84,7 +98,7 @@ class AnalysisAIService {
     /**
      * Predict based on recurring patterns
      */
-    private predictFromPatterns(digits: number[]): { digit: number; confidence: number; alternatives: Array<{ digit: number; probability: number }> } {
+    private predictFromPatterns(digits: number[]): PartialPrediction {
         const patternLength = 3;
         const patterns: Map<string, number[]> = new Map();
 
@@ -109,6 +123,7 @@ class AnalysisAIService {
                 digit: Math.floor(Math.random() * 10),
                 confidence: 0.1,
                 alternatives: this.generateRandomAlternatives(),
+                random: true,
             };
         }
 
@@ -140,7 +155,7 @@ class AnalysisAIService {
     /**
      * Predict based on overall frequency distribution
      */
-    private predictFromFrequency(digits: number[]): { digit: number; confidence: number; alternatives: Array<{ digit: number; probability: number }> } {
+    private predictFromFrequency(digits: number[]): PartialPrediction {
         const counts = new Array(10).fill(0);
         digits.forEach(d => counts[d]++);
 
@@ -170,12 +185,13 @@ class AnalysisAIService {
     /**
      * Predict based on recent trends
      */
-    private predictFromTrend(digits: number[]): { digit: number; confidence: number; alternatives: Array<{ digit: number; probability: number }> } {
+    private predictFromTrend(digits: number[]): PartialPrediction {
         if (digits.length < 5) {
             return {
                 digit: Math.floor(Math.random() * 10),
                 confidence: 0.1,
                 alternatives: this.generateRandomAlternatives(),
+                random: true,
             };
         }
 
@@ -192,6 +208,7 @@ class AnalysisAIService {
         // Predict reversal if strong trend
         let predictedDigit: number;
         let confidence: number;
+        let random = false;
 
         if (evenCount >= 4) {
             // Strong even trend, predict odd
@@ -213,19 +230,21 @@ class AnalysisAIService {
             // No strong trend
             predictedDigit = Math.floor(Math.random() * 10);
             confidence = 0.3;
+            random = true;
         }
 
         return {
             digit: predictedDigit,
             confidence,
             alternatives: this.generateRandomAlternatives(),
+            random,
         };
     }
 
     /**
      * Combine multiple predictions with weights
      */
-    private combinePredictions(predictions: Array<{ prediction: any; weight: number }>): { digit: number; confidence: number; alternatives: Array<{ digit: number; probability: number }> } {
+    private combinePredictions(predictions: Array<{ prediction: PartialPrediction; weight: number }>): PartialPrediction {
         const digitScores = new Map<number, number>();
 
         predictions.forEach(({ prediction, weight }) => {
@@ -6,6 +6,7 @@
 
 import type { EntryPointAnalysis } from './entry-point-detector.service';
 import type { PredictionResult } from './pattern-predictor.service';
+import { isTradeableProvenance } from './tick-source/tick-source';
 
 export interface AutoTradeConfig {
     enabled: boolean;
@@ -122,6 +123,14 @@ class AutoTraderService {
             return { shouldTrade: false, reason: 'Auto-trading is disabled' };
         }
 
+        // Predictions built on replayed, generated, mixed or untagged ticks are never traded automatically
+        if (!prediction.provenance || !isTradeableProvenance(prediction.provenance)) {
+            return {
+                shouldTrade: false,
+                reason: `Prediction is based on ${prediction.provenance ?? 'untagged'} data`,
+            };
+        }
+
         // Check confidence threshold
         if (prediction.confidence < this.config.minConfidence) {
             return {
@@ -0,0 +1,244 @@
+/**
+ * Bot Catalogue Service
+ * Loads the free-bot catalogue, caching each bot's XML in IndexedDB by content hash so it is only
+ * fetched again when the bot file changes. Remembers which version of a bot each workspace was
+ * loaded from, so an open workspace can be flagged as outdated.
+ */
+
+import localForage from 'localforage';
+import {
+    BOT_CATALOGUE,
+    type BotCatalogueEntry,
+    type BotCatalogueItem,
+    type BotChangelogEntry,
+    type BotParameterDifference,
+    catalogueItemFromEntry,
+    catalogueItemFromStrategy,
+    compareVersions,
+    diffBotParameters,
+    getCatalogueEntry,
+    getChangesBetween,
+    type SavedStrategyLike,
+} from './bot-manifest/bot-catalogue';
+
+interface BotSnapshot {
+    file: string;
+    version: string;
+    contentHash: string;
+    xml: string;
+    image?: string;
+    fetchedAt: number;
+}
+
+export interface BotLoadRecord {
+    file: string;
+    version: string;
+    loadedAt: number;
+}
+
+export type WorkspaceCatalogueState = 'current' | 'outdated' | 'untracked' | 'unknown';
+
+export interface WorkspaceCatalogueStatus {
+    state: WorkspaceCatalogueState;
+    entry?: BotCatalogueEntry;
+    loadedVersion?: string;
+    changes: BotChangelogEntry[];
+}
+
+export interface BotVersionComparison {
+    file: string;
+    fromVersion: string;
+    toVersion: string;
+    changes: BotChangelogEntry[];
+    // Null when the older copy is no longer cached
+    parameters: BotParameterDifference[] | null;
+}
+
+class BotCatalogueService {
+    private snapshots = localForage.createInstance({ name: 'pipnova', storeName: 'bot_catalogue' });
+
+    private readonly LOADS_KEY = 'pipnova_bot_catalogue_loads';
+    private readonly MAX_SNAPSHOTS_PER_BOT = 5;
+
+    /**
+     * Catalogue items for every bundled bot; bots that fail to load are left out
+     */
+    async loadCatalogue(): Promise<BotCatalogueItem[]> {
+        const items = await Promise.all(
+            BOT_CATALOGUE.map(async entry => {
+                try {
+                    const snapshot = await this.getSnapshot(entry);
+                    return catalogueItemFromEntry(entry, snapshot.xml, snapshot.image);
+                } catch (error) {
+                    console.error(`❌ Failed to load ${entry.file}:`, error);
+                    return null;
+                }
+            })
+        );
+
+        return items.filter((item): item is BotCatalogueItem => item !== null);
+    }
+
+    /**
+     * Describe saved workspaces (load_modal.dashboard_strategies) as catalogue items
+     */
+    getSavedStrategyItems(strategies: SavedStrategyLike[] = []): BotCatalogueItem[] {
+        return strategies.map(strategy => {
+            const item = catalogueItemFromStrategy(strategy);
+            const record = this.getLoadRecord(strategy.id);
+            return record ? { ...item, version: record.version } : item;
+        });
+    }
+
+    /**
+     * Remember the catalogue version a workspace was loaded from
+     */
+    recordLoad(strategyId: string, file: string): void {
+        const entry = getCatalogueEntry(file);
+        if (!entry) return;
+
+        const records = this.readLoadRecords();
+        records[strategyId] = { file: entry.file, version: entry.version, loadedAt: Date.now() };
+        localStorage.setItem(this.LOADS_KEY, JSON.stringify(records));
+    }
+
+    getLoadRecord(strategyId: string): BotLoadRecord | undefined {
+        return this.readLoadRecords()[strategyId];
+    }
+
+    /**
+     * Whether a workspace was loaded from an older catalogue version than the current one.
+     * Workspaces that match a catalogue bot but predate load tracking are 'untracked'.
+     */
+    getWorkspaceStatus(strategyId?: string | null): WorkspaceCatalogueStatus {
+        if (!strategyId) return { state: 'unknown', changes: [] };
+
+        const record = this.getLoadRecord(strategyId);
+        const entry = getCatalogueEntry(record?.file ?? strategyId);
+        if (!entry) return { state: 'unknown', changes: [] };
+        if (!record) return { state: 'untracked', entry, changes: [] };
+
+        const outdated = compareVersions(record.version, entry.version) < 0;
+        return {
+            state: outdated ? 'outdated' : 'current',
+            entry,
+            loadedVersion: record.version,
+            changes: getChangesBetween(entry, record.version),
+        };
+    }
+
+    /**
+     * Changelog and parameter differences between two versions of a bot; parameters are only
+     * compared when both versions have been cached on this device
+     */
+    async compareBotVersions(file: string, fromVersion: string, toVersion?: string): Promise<BotVersionComparison> {
+        const entry = getCatalogueEntry(file);
+        if (!entry) {
+            throw new Error(`${file} is not in the bot catalogue`);
+        }
+
+        const target = toVersion ?? entry.version;
+        const snapshots = await this.getCachedSnapshots(entry.file);
+        // The newest copy stands for a version whose XML changed without a version bump
+        const findVersion = (version: string) => snapshots.filter(snapshot => snapshot.version === version).pop();
+        const from = findVersion(fromVersion);
+        const to = findVersion(target);
+
+        return {
+            file: entry.file,
+            fromVersion,
+            toVersion: target,
+            changes: getChangesBetween(entry, fromVersion, target),
+            parameters: from && to ? diffBotParameters(entry.file, from.xml, to.xml) : null,
+        };
+    }
+
+    /**
+     * Parameter values in an open workspace that differ from the catalogue copy of its bot
+     */
+    async compareWithCatalogue(file: string, workspaceXml: string): Promise<BotParameterDifference[]> {
+        const entry = getCatalogueEntry(file);
+        if (!entry) return [];
+
+        const snapshot = await this.getSnapshot(entry);
+        return diffBotParameters(entry.file, workspaceXml, snapshot.xml);
+    }
+
+    /**
+     * Cached versions of a bot, oldest first
+     */
+    async getCachedVersions(file: string): Promise<string[]> {
+        const versions = (await this.getCachedSnapshots(file)).map(snapshot => snapshot.version);
+        return Array.from(new Set(versions)).sort(compareVersions);
+    }
+
+    // Private helper methods
+
+    private snapshotKey(file: string, contentHash: string): string {
+        return `${file}#${contentHash}`;
+    }
+
+    /**
+     * Cached copies of a bot, oldest first
+     */
+    private async getCachedSnapshots(file: string): Promise<BotSnapshot[]> {
+        const prefix = `${file}#`;
+        const keys = (await this.snapshots.keys()).filter(key => key.startsWith(prefix));
+        const snapshots = await Promise.all(keys.map(key => this.snapshots.getItem<BotSnapshot>(key)));
+
+        return snapshots
+            .filter((snapshot): snapshot is BotSnapshot => snapshot !== null)
+            .sort((a, b) => a.fetchedAt - b.fetchedAt);
+    }
+
+    private async getSnapshot(entry: BotCatalogueEntry): Promise<BotSnapshot> {
+        const key = this.snapshotKey(entry.file, entry.contentHash);
+        const cached = await this.snapshots.getItem<BotSnapshot>(key);
+        if (cached) return cached;
+
+        const response = await fetch(entry.file);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch ${entry.file}: ${response.statusText}`);
+        }
+
+        const xml = await response.text();
+        const image =
+            new DOMParser().parseFromString(xml, 'application/xml').getElementsByTagName('image')[0]?.textContent ??
+            undefined;
+        const snapshot: BotSnapshot = {
+            file: entry.file,
+            version: entry.version,
+            contentHash: entry.contentHash,
+            xml,
+            image,
+            fetchedAt: Date.now(),
+        };
+
+        await this.snapshots.setItem(key, snapshot);
+        await this.pruneSnapshots(entry.file);
+        console.log(`📚 Cached ${entry.name} v${entry.version}`);
+        return snapshot;
+    }
+
+    private async pruneSnapshots(file: string): Promise<void> {
+        const snapshots = await this.getCachedSnapshots(file);
+        const stale = snapshots.slice(0, Math.max(0, snapshots.length - this.MAX_SNAPSHOTS_PER_BOT));
+        // Copies cached per version before snapshots were keyed by content hash
+        const legacyKeys = (await this.snapshots.keys()).filter(key => key.startsWith(`${file}@`));
+
+        await Promise.all([
+            ...stale.map(snapshot => this.snapshots.removeItem(this.snapshotKey(file, snapshot.contentHash))),
+            ...legacyKeys.map(key => this.snapshots.removeItem(key)),
+        ]);
+    }
+
+    private readLoadRecords(): Record<string, BotLoadRecord> {
+        try {
+            return JSON.parse(localStorage.getItem(this.LOADS_KEY) ?? '{}');
+        } catch {
+            return {};
+        }
+    }
+}
+
+export const botCatalogueService = new BotCatalogueService();
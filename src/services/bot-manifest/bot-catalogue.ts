@@ -0,0 +1,292 @@
+/**
+ * Bot Catalogue
+ * Describes the free bots offered in the Free Bots tab: what they trade, which parameters they
+ * expose, and their version history. Users' saved strategies are described with the same shape
+ * so both can be searched and filtered together.
+ */
+
+import { type BotParameterDefinition, DIGIT_CONTRACT_TYPES, getBotManifest } from './bot-manifest';
+import { parseBotXml, readBotParameters } from './bot-xml-parameters';
+
+export type BotContractType = (typeof DIGIT_CONTRACT_TYPES)[number];
+
+export type BotCatalogueSource = 'catalogue' | 'saved';
+
+export interface BotChangelogEntry {
+    version: string;
+    date: string;
+    notes: string[];
+}
+
+export interface BotCatalogueEntry {
+    file: string;
+    name: string;
+    description: string;
+    markets: string[];
+    contractTypes: BotContractType[];
+    version: string;
+    // First 16 hex characters of the SHA-256 of the bot's XML file
+    contentHash: string;
+    changelog: BotChangelogEntry[];
+}
+
+export interface BotCatalogueItem {
+    id: string;
+    source: BotCatalogueSource;
+    name: string;
+    description: string;
+    markets: string[];
+    contractTypes: string[];
+    parameters: BotParameterDefinition[];
+    xml: string;
+    version?: string;
+    changelog: BotChangelogEntry[];
+    image?: string;
+    savedAt?: number;
+    saveType?: string;
+    // Catalogue bot a saved strategy was started from
+    basedOn?: string;
+}
+
+export interface BotCatalogueFilter {
+    query: string;
+    contractType: BotContractType | 'all';
+    source: BotCatalogueSource | 'all';
+}
+
+export interface BotParameterDifference {
+    key: string;
+    label: string;
+    from?: string | number;
+    to?: string | number;
+}
+
+export interface SavedStrategyLike {
+    id: string;
+    name: string;
+    xml: string;
+    timestamp: number;
+    save_type: string;
+}
+
+export const DEFAULT_CATALOGUE_FILTER: BotCatalogueFilter = { query: '', contractType: 'all', source: 'all' };
+
+// Digit contracts are offered on every volatility index, continuous or not
+const VOLATILITY_INDICES = ['1HZ10V', '1HZ25V', '1HZ50V', '1HZ75V', '1HZ100V', 'R_10', 'R_25', 'R_50', 'R_75', 'R_100'];
+
+const INITIAL_RELEASE: BotChangelogEntry[] = [
+    { version: '1.0.0', date: '2026-10-19', notes: ['Added to the catalogue'] },
+];
+
+// Bot XML is cached by contentHash, which the catalogue tests check against each file in public/.
+// Whenever a bot's XML changes, update its hash, bump its version and add a changelog entry
+export const BOT_CATALOGUE: BotCatalogueEntry[] = [
+    {
+        file: 'D strike 2.xml',
+        name: 'D strike 2',
+        description: 'Single-digit Over/Under strike with a fixed prediction and martingale recovery',
+        markets: VOLATILITY_INDICES,
+        contractTypes: ['DIGITOVER', 'DIGITUNDER'],
+        version: '1.0.0',
+        contentHash: 'da7a7b5d95c90e06',
+        changelog: INITIAL_RELEASE,
+    },
+    {
+        file: 'Magic Recovery.xml',
+        name: 'Magic Recovery',
+        description: 'Trades Over and switches to Under predictions to recover after consecutive losses',
+        markets: VOLATILITY_INDICES,
+        contractTypes: ['DIGITOVER', 'DIGITUNDER'],
+        version: '1.0.0',
+        contentHash: 'f70479988c275e86',
+        changelog: INITIAL_RELEASE,
+    },
+    {
+        file: 'Over 2 Rec Over 4.xml',
+        name: 'Over 2 Rec Over 4',
+        description: 'Trades Over 2 and recovers losses with Over 4',
+        markets: VOLATILITY_INDICES,
+        contractTypes: ['DIGITOVER'],
+        version: '1.0.0',
+        contentHash: '2e98e5211754639a',
+        changelog: INITIAL_RELEASE,
+    },
+    {
+        file: 'UNDER 7,UNDER 5.xml',
+        name: 'UNDER 7, UNDER 5',
+        description: 'Trades Under 7 and recovers losses with Under 5',
+        markets: VOLATILITY_INDICES,
+        contractTypes: ['DIGITUNDER'],
+        version: '1.0.0',
+        contentHash: 'c7a40ebea176048a',
+        changelog: INITIAL_RELEASE,
+    },
+    {
+        file: 'UNDER 8,UNDER 6.xml',
+        name: 'UNDER 8, UNDER 6',
+        description: 'Trades Under 8 and recovers losses with Under 6',
+        markets: VOLATILITY_INDICES,
+        contractTypes: ['DIGITUNDER'],
+        version: '1.0.0',
+        contentHash: 'e40f02f8ca992e3f',
+        changelog: INITIAL_RELEASE,
+    },
+    {
+        file: 'PATEL (with Entry).xml',
+        name: 'PATEL (with Entry)',
+        description: 'Waits for an entry digit before trading, with separate predictions before and after a loss',
+        markets: VOLATILITY_INDICES,
+        contractTypes: [...DIGIT_CONTRACT_TYPES],
+        version: '1.0.0',
+        contentHash: 'f8543b51f902fc8a',
+        changelog: INITIAL_RELEASE,
+    },
+    {
+        file: 'Raziel Over Under.xml',
+        name: 'Raziel Over Under',
+        description: 'Over/Under strategy that moves to a safer prediction after a loss',
+        markets: VOLATILITY_INDICES,
+        contractTypes: ['DIGITOVER', 'DIGITUNDER'],
+        version: '1.0.0',
+        contentHash: 'a85b2bd68a9425e0',
+        changelog: INITIAL_RELEASE,
+    },
+];
+
+/**
+ * Find the catalogue entry for a bot file; accepts the same paths as getBotManifest
+ */
+export const getCatalogueEntry = (filePath: string): BotCatalogueEntry | undefined => {
+    const manifest = getBotManifest(filePath);
+    const fileName = manifest?.file ?? filePath.split('/').pop();
+    return BOT_CATALOGUE.find(entry => entry.file === fileName);
+};
+
+/**
+ * Compare dotted version strings numerically; negative when a is older than b
+ */
+export const compareVersions = (a: string, b: string): number => {
+    const left = a.split('.').map(part => parseInt(part, 10) || 0);
+    const right = b.split('.').map(part => parseInt(part, 10) || 0);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] ?? 0) - (right[i] ?? 0);
+        if (difference !== 0) return difference;
+    }
+    return 0;
+};
+
+/**
+ * Changelog entries released after fromVersion, up to and including toVersion, newest first
+ */
+export const getChangesBetween = (
+    entry: BotCatalogueEntry,
+    fromVersion: string,
+    toVersion: string = entry.version
+): BotChangelogEntry[] =>
+    entry.changelog
+        .filter(change => compareVersions(change.version, fromVersion) > 0)
+        .filter(change => compareVersions(change.version, toVersion) <= 0)
+        .sort((a, b) => compareVersions(b.version, a.version));
+
+/**
+ * Read the markets and contract types a workspace actually trades
+ */
+export const describeStrategyXml = (xml: string): Pick<BotCatalogueItem, 'markets' | 'contractTypes'> => {
+    try {
+        const fields = Array.from(parseBotXml(xml).getElementsByTagName('field'));
+        const valuesOf = (name: string) =>
+            Array.from(
+                new Set(
+                    fields
+                        .filter(element => element.getAttribute('name') === name)
+                        .map(element => element.textContent?.trim() ?? '')
+                        .filter(value => value !== '' && value !== 'both')
+                )
+            );
+
+        return { markets: valuesOf('SYMBOL_LIST'), contractTypes: valuesOf('PURCHASE_LIST') };
+    } catch {
+        return { markets: [], contractTypes: [] };
+    }
+};
+
+export const catalogueItemFromEntry = (entry: BotCatalogueEntry, xml: string, image?: string): BotCatalogueItem => ({
+    id: entry.file,
+    source: 'catalogue',
+    name: entry.name,
+    description: entry.description,
+    markets: entry.markets,
+    contractTypes: entry.contractTypes,
+    parameters: getBotManifest(entry.file)?.parameters ?? [],
+    xml,
+    version: entry.version,
+    changelog: entry.changelog,
+    image,
+});
+
+/**
+ * Describe a saved workspace; strategies saved from a loaded free bot keep the bot's file name
+ * as their id, which links them back to the catalogue entry
+ */
+export const catalogueItemFromStrategy = (strategy: SavedStrategyLike): BotCatalogueItem => {
+    const entry = getCatalogueEntry(strategy.id);
+
+    return {
+        id: strategy.id,
+        source: 'saved',
+        name: strategy.name,
+        description: entry ? `Saved copy of ${entry.name}` : 'Saved strategy',
+        ...describeStrategyXml(strategy.xml),
+        parameters: entry ? (getBotManifest(entry.file)?.parameters ?? []) : [],
+        xml: strategy.xml,
+        changelog: [],
+        savedAt: strategy.timestamp,
+        saveType: strategy.save_type,
+        basedOn: entry?.file,
+    };
+};
+
+/**
+ * Search by name, description, market, contract type or parameter label
+ */
+export const filterBotCatalogue = (items: BotCatalogueItem[], filter: BotCatalogueFilter): BotCatalogueItem[] => {
+    const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    return items.filter(item => {
+        if (filter.source !== 'all' && item.source !== filter.source) return false;
+        if (filter.contractType !== 'all' && !item.contractTypes.includes(filter.contractType)) return false;
+
+        const haystack = [
+            item.name,
+            item.description,
+            ...item.markets,
+            ...item.contractTypes,
+            ...item.parameters.map(parameter => parameter.label),
+        ]
+            .join(' ')
+            .toLowerCase();
+
+        return terms.every(term => haystack.includes(term));
+    });
+};
+
+/**
+ * Parameter values that differ between two copies of the same bot
+ */
+export const diffBotParameters = (file: string, fromXml: string, toXml: string): BotParameterDifference[] => {
+    const manifest = getBotManifest(file);
+    if (!manifest) return [];
+
+    const from = readBotParameters(parseBotXml(fromXml), manifest);
+    const to = readBotParameters(parseBotXml(toXml), manifest);
+
+    return manifest.parameters
+        .filter(parameter => from[parameter.key] !== to[parameter.key])
+        .map(parameter => ({
+            key: parameter.key,
+            label: parameter.label,
+            from: from[parameter.key],
+            to: to[parameter.key],
+        }));
+};
@@ -0,0 +1,282 @@
+/**
+ * Bot Manifests
+ * Declares the tunable parameters of every bundled free bot and where each one lives in the
+ * Blockly workspace XML, so loaders configure bots by parameter key instead of guessing names
+ */
+
+export type BotParameterType = 'number' | 'integer' | 'digit' | 'symbol' | 'option';
+
+export type BotParameterValue = number | string;
+
+export type BotParameterValues = Record<string, BotParameterValue>;
+
+/**
+ * Where a parameter is stored in the workspace XML
+ * - variable: the first `variables_set` of that variable initialised with a number literal
+ * - field: every field with that name (e.g. SYMBOL_LIST, PURCHASE_LIST)
+ * - block: a field of the block (or shadow) with that id, NUM by default
+ */
+export type BotParameterTarget =
+    | { kind: 'variable'; name: string }
+    | { kind: 'field'; name: string }
+    | { kind: 'block'; id: string; field?: string };
+
+export interface BotParameterDefinition {
+    key: string;
+    label: string;
+    type: BotParameterType;
+    targets: BotParameterTarget[];
+    min?: number;
+    max?: number;
+    options?: readonly string[];
+}
+
+export interface BotManifest {
+    file: string;
+    name: string;
+    parameters: BotParameterDefinition[];
+}
+
+export const DIGIT_CONTRACT_TYPES = [
+    'DIGITOVER',
+    'DIGITUNDER',
+    'DIGITMATCH',
+    'DIGITDIFF',
+    'DIGITEVEN',
+    'DIGITODD',
+] as const;
+
+export const DIGIT_TRADE_TYPES = ['overunder', 'matchesdiffers', 'evenodd'] as const;
+
+const MIN_STAKE = 0.35;
+const MAX_STAKE = 50000;
+
+const variable = (name: string): BotParameterTarget => ({ kind: 'variable', name });
+const field = (name: string): BotParameterTarget => ({ kind: 'field', name });
+const block = (id: string): BotParameterTarget => ({ kind: 'block', id });
+
+const marketParameter = (): BotParameterDefinition => ({
+    key: 'market',
+    label: 'Market',
+    type: 'symbol',
+    targets: [field('SYMBOL_LIST')],
+});
+
+const stakeParameter = (...targets: BotParameterTarget[]): BotParameterDefinition => ({
+    key: 'stake',
+    label: 'Stake',
+    type: 'number',
+    targets,
+    min: MIN_STAKE,
+    max: MAX_STAKE,
+});
+
+const digitParameter = (key: string, label: string, ...targets: BotParameterTarget[]): BotParameterDefinition => ({
+    key,
+    label,
+    type: 'digit',
+    targets,
+    min: 0,
+    max: 9,
+});
+
+const amountParameter = (key: string, label: string, ...targets: BotParameterTarget[]): BotParameterDefinition => ({
+    key,
+    label,
+    type: 'number',
+    targets,
+    min: 0,
+});
+
+// Magic Recovery, Over 2 Rec Over 4 and the UNDER bots share one template: the purchase
+// prediction is a ternary on the Loss counter with a literal per recovery step
+const recoveryTemplateParameters = (): BotParameterDefinition[] => [
+    marketParameter(),
+    stakeParameter(variable('Stake'), variable('Win Stake')),
+    digitParameter('predictionBeforeLoss', 'Prediction before loss', block('[|J@meltA;wTb[yP!sx^')),
+    digitParameter('predictionAfterLoss', 'Prediction after 1 loss', block('`;i|75F=]1jp)HYvEx|z')),
+    digitParameter('predictionAfterTwoLosses', 'Prediction after 2 losses', block('ndu4rb::}wHJa;+L[Psz')),
+    digitParameter('predictionAfterFourLosses', 'Prediction after 4 losses', block('X[9fpB)~tv#4ZKfqp5Qf')),
+    digitParameter('predictionDeepRecovery', 'Prediction in deep recovery', block(']3h_;[#d3YcV0o.i|sgZ')),
+    amountParameter('takeProfit', 'Expected profit', variable('Expected Profit')),
+    amountParameter('stopLoss', 'Stop loss', variable('Stop Loss')),
+    { key: 'runs', label: 'Runs', type: 'integer', targets: [variable('runs')], min: 1 },
+];
+
+export const BOT_MANIFESTS: BotManifest[] = [
+    {
+        file: 'Raziel Over Under.xml',
+        name: 'Raziel Over Under',
+        parameters: [
+            marketParameter(),
+            {
+                key: 'contractType',
+                label: 'Contract type',
+                type: 'option',
+                targets: [field('TYPE_LIST'), field('PURCHASE_LIST')],
+                options: ['DIGITOVER', 'DIGITUNDER'],
+            },
+            stakeParameter(variable('Stake'), variable('initalStake')),
+            {
+                key: 'martingale',
+                label: 'Martingale split',
+                type: 'number',
+                targets: [variable('Martingale split')],
+                min: 1,
+                max: 20,
+            },
+            digitParameter('predictionBeforeLoss', 'Prediction before loss', variable('Prediction before loss')),
+            digitParameter('predictionAfterLoss', 'Prediction after loss', variable('prediction after loss')),
+        ],
+    },
+    {
+        file: 'NOVAGRID 2026.xml',
+        name: 'NOVAGRID 2026',
+        parameters: [
+            marketParameter(),
+            stakeParameter(variable('Amount')),
+            {
+                key: 'minimumStake',
+                label: 'Minimum initial stake',
+                type: 'number',
+                targets: [block('(^R~P]j.S6U!DrtC;xR`'), block('6pOSo??TpVnajBu|`*Ss')],
+                min: MIN_STAKE,
+                max: MAX_STAKE,
+            },
+            {
+                key: 'martingale',
+                label: 'Mart splits',
+                type: 'number',
+                targets: [variable('Mart Splits')],
+                min: 1,
+                max: 20,
+            },
+            {
+                key: 'martingaleLevel',
+                label: 'Martingale level',
+                type: 'integer',
+                targets: [variable('Martingale Level')],
+                min: 1,
+                max: 20,
+            },
+            digitParameter('predictionBeforeLoss', '1st digit', variable('1st Digit')),
+            digitParameter('predictionAfterLoss', '2nd digit', variable('2nd Digit')),
+            amountParameter('takeProfit', 'Profit target', variable('Profit')),
+            {
+                key: 'ticksToAnalyze',
+                label: 'Ticks to analyze',
+                type: 'integer',
+                targets: [variable('Ticks to analyze')],
+                min: 1,
+                max: 1000,
+            },
+            {
+                key: 'winPercentPerStake',
+                label: '% win per stake',
+                type: 'number',
+                targets: [variable('% Win Per Stake')],
+                min: 0,
+                max: 100,
+            },
+        ],
+    },
+    {
+        file: 'PATEL (with Entry).xml',
+        name: 'PATEL (with Entry)',
+        parameters: [
+            marketParameter(),
+            {
+                key: 'tradeType',
+                label: 'Trade type',
+                type: 'option',
+                targets: [field('TRADETYPE_LIST')],
+                options: DIGIT_TRADE_TYPES,
+            },
+            {
+                key: 'allowedContractTypes',
+                label: 'Trade options contract type',
+                type: 'option',
+                targets: [field('TYPE_LIST')],
+                options: ['both', ...DIGIT_CONTRACT_TYPES],
+            },
+            {
+                key: 'contractType',
+                label: 'Contract type',
+                type: 'option',
+                targets: [field('PURCHASE_LIST')],
+                options: DIGIT_CONTRACT_TYPES,
+            },
+            stakeParameter(variable('Stake'), variable('Initial Stake')),
+            {
+                key: 'martingale',
+                label: 'Martingale',
+                type: 'number',
+                targets: [variable('Martangle')],
+                min: 1,
+                max: 20,
+            },
+            {
+                key: 'martingaleLevel',
+                label: 'Martingale level',
+                type: 'integer',
+                targets: [variable('Martangle Level')],
+                min: 1,
+                max: 50,
+            },
+            digitParameter('entryDigit', 'Search number', variable('Search Number')),
+            digitParameter('predictionBeforeLoss', 'Prediction before loss', variable('prediction before loss')),
+            digitParameter('predictionAfterLoss', 'Prediction after loss', variable('prediction after loss')),
+            amountParameter('takeProfit', 'Take profit', variable('Take Profit')),
+            amountParameter('stopLoss', 'Stop loss', variable('Stop Loss')),
+        ],
+    },
+    {
+        file: 'D strike 2.xml',
+        name: 'D strike 2',
+        parameters: [
+            marketParameter(),
+            {
+                key: 'contractType',
+                label: 'Contract type',
+                type: 'option',
+                targets: [field('PURCHASE_LIST')],
+                options: ['DIGITOVER', 'DIGITUNDER'],
+            },
+            stakeParameter(variable('Stake')),
+            digitParameter('prediction', 'Prediction', block('IcAO3O7f1%4.[!E||RN+')),
+        ],
+    },
+    { file: 'Magic Recovery.xml', name: 'Magic Recovery', parameters: recoveryTemplateParameters() },
+    { file: 'Over 2 Rec Over 4.xml', name: 'Over 2 Rec Over 4', parameters: recoveryTemplateParameters() },
+    { file: 'UNDER 7,UNDER 5.xml', name: 'UNDER 7, UNDER 5', parameters: recoveryTemplateParameters() },
+    { file: 'UNDER 8,UNDER 6.xml', name: 'UNDER 8, UNDER 6', parameters: recoveryTemplateParameters() },
+    {
+        file: '🖤⚜️ 𝓣𝓱𝓮 𝓓𝓪𝓻𝓴 𝓓𝔂𝓷𝓪𝓼𝓽𝔂 ⚜️🖤2.xml',
+        name: 'The Dark Dynasty',
+        parameters: [
+            marketParameter(),
+            stakeParameter(variable('Stake'), variable('Win Stake')),
+            digitParameter('underPredictionBeforeLoss', 'Under prediction before loss', block('HqhnF9I]7OZYlrK$?@Eo')),
+            digitParameter('underPredictionAfterLoss', 'Under prediction after loss', block('`DW}[sAUV6krC9*K79Lc')),
+            digitParameter('overPredictionBeforeLoss', 'Over prediction before loss', block('qN:b8jzq]}A,x4oVi*@K')),
+            digitParameter('overPredictionAfterLoss', 'Over prediction after loss', block('AZdH@$~T@5NNO9h#=wBz')),
+            amountParameter('takeProfit', 'Expected profit', variable('Expected Profit')),
+            amountParameter('stopLoss', 'Stop loss', variable('Stop Loss')),
+            { key: 'runs', label: 'Runs', type: 'integer', targets: [variable('runs')], min: 1 },
+            { key: 'maxLosses', label: 'Max losses', type: 'integer', targets: [variable('maxLosses')], min: 1 },
+        ],
+    },
+];
+
+/**
+ * Find the manifest for a bot file; accepts fetch paths like '/NOVAGRID 2026.xml' or URL-encoded names
+ */
+export const getBotManifest = (filePath: string): BotManifest | undefined => {
+    let fileName = filePath.split('/').pop() ?? filePath;
+    try {
+        fileName = decodeURIComponent(fileName);
+    } catch {
+        // Not URL-encoded
+    }
+    return BOT_MANIFESTS.find(manifest => manifest.file === fileName);
+};
@@ -0,0 +1,293 @@
+/**
+ * Bot XML Parameters
+ * Typed read/write access to the parameters a bot manifest declares, plus validation of the
+ * resulting workspace XML before it is handed to Blockly
+ */
+
+import {
+    type BotManifest,
+    type BotParameterDefinition,
+    type BotParameterTarget,
+    type BotParameterValue,
+    type BotParameterValues,
+    getBotManifest,
+} from './bot-manifest';
+
+export class BotParameterError extends Error {
+    constructor(
+        message: string,
+        public readonly issues: string[] = []
+    ) {
+        super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+        this.name = 'BotParameterError';
+    }
+}
+
+export interface BotParameterWriteResult {
+    applied: string[];
+    missing: string[];
+}
+
+export interface BotXmlValidationResult {
+    valid: boolean;
+    errors: string[];
+    values: BotParameterValues;
+}
+
+export interface ConfiguredBotXml extends BotParameterWriteResult {
+    xml: string;
+    values: BotParameterValues;
+}
+
+/**
+ * Parse workspace XML, throwing BotParameterError when it is not well-formed Blockly XML
+ */
+export const parseBotXml = (xmlContent: string): Document => {
+    const xmlDoc = new DOMParser().parseFromString(xmlContent, 'text/xml');
+    const parseError = xmlDoc.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+        throw new BotParameterError('Bot XML is not well-formed', [parseError.textContent?.trim() ?? '']);
+    }
+    if (xmlDoc.documentElement.localName !== 'xml') {
+        throw new BotParameterError(`Expected a Blockly <xml> root, found <${xmlDoc.documentElement.localName}>`);
+    }
+    return xmlDoc;
+};
+
+export const serializeBotXml = (xmlDoc: Document): string => new XMLSerializer().serializeToString(xmlDoc);
+
+/**
+ * Check a value against a parameter definition; returns the problem or null when it is valid
+ */
+export const validateParameterValue = (
+    definition: BotParameterDefinition,
+    value: BotParameterValue | undefined
+): string | null => {
+    if (value === undefined || value === '') {
+        return `${definition.label} has no value`;
+    }
+
+    if (definition.type === 'symbol') {
+        return typeof value === 'string' && /^[A-Za-z0-9_]+$/.test(value)
+            ? null
+            : `${definition.label} "${value}" is not a market symbol`;
+    }
+
+    if (definition.type === 'option') {
+        return definition.options?.includes(String(value))
+            ? null
+            : `${definition.label} "${value}" is not one of ${definition.options?.join(', ')}`;
+    }
+
+    const numeric = typeof value === 'number' ? value : Number(value);
+    if (!Number.isFinite(numeric)) {
+        return `${definition.label} "${value}" is not a number`;
+    }
+    if ((definition.type === 'integer' || definition.type === 'digit') && !Number.isInteger(numeric)) {
+        return `${definition.label} ${numeric} is not a whole number`;
+    }
+    if (definition.min !== undefined && numeric < definition.min) {
+        return `${definition.label} ${numeric} is below the minimum of ${definition.min}`;
+    }
+    if (definition.max !== undefined && numeric > definition.max) {
+        return `${definition.label} ${numeric} is above the maximum of ${definition.max}`;
+    }
+    return null;
+};
+
+/**
+ * Read every declared parameter from the workspace; parameters whose target is missing are omitted
+ */
+export const readBotParameters = (xmlDoc: Document, manifest: BotManifest): BotParameterValues => {
+    const values: BotParameterValues = {};
+
+    manifest.parameters.forEach(definition => {
+        const [element] = resolveParameter(xmlDoc, definition);
+        const text = element?.textContent?.trim();
+        if (text === undefined) return;
+
+        values[definition.key] = isNumericType(definition) ? Number(text) : text;
+    });
+
+    return values;
+};
+
+/**
+ * Write parameter values into the workspace in place. Values are validated first, so an
+ * unknown key or out-of-range value throws without touching the document.
+ */
+export const writeBotParameters = (
+    xmlDoc: Document,
+    manifest: BotManifest,
+    values: Partial<BotParameterValues>
+): BotParameterWriteResult => {
+    const entries = Object.entries(values).filter((entry): entry is [string, BotParameterValue] => {
+        return entry[1] !== undefined;
+    });
+
+    const issues: string[] = [];
+    const definitions = entries.map(([key, value]) => {
+        const definition = manifest.parameters.find(parameter => parameter.key === key);
+        if (!definition) {
+            issues.push(`${manifest.name} has no parameter "${key}"`);
+            return null;
+        }
+        const problem = validateParameterValue(definition, value);
+        if (problem) issues.push(problem);
+        return definition;
+    });
+
+    if (issues.length > 0) {
+        throw new BotParameterError(`Invalid parameters for ${manifest.name}`, issues);
+    }
+
+    const result: BotParameterWriteResult = { applied: [], missing: [] };
+
+    entries.forEach(([key, value], index) => {
+        const definition = definitions[index] as BotParameterDefinition;
+        const elements = resolveParameter(xmlDoc, definition);
+
+        if (elements.length === 0) {
+            result.missing.push(key);
+            return;
+        }
+
+        elements.forEach(element => {
+            element.textContent = String(value);
+        });
+        result.applied.push(key);
+    });
+
+    return result;
+};
+
+/**
+ * Confirm the workspace still holds every declared parameter with a valid value
+ */
+export const validateBotXml = (xmlContent: string, manifest: BotManifest): BotXmlValidationResult => {
+    let xmlDoc: Document;
+    try {
+        xmlDoc = parseBotXml(xmlContent);
+    } catch (error) {
+        return { valid: false, errors: [(error as Error).message], values: {} };
+    }
+
+    const values = readBotParameters(xmlDoc, manifest);
+    const errors: string[] = [];
+
+    manifest.parameters.forEach(definition => {
+        const elements = resolveParameter(xmlDoc, definition);
+        if (elements.length === 0) {
+            errors.push(`${definition.label} not found in ${manifest.file}`);
+            return;
+        }
+
+        // Every copy of a parameter (e.g. each PURCHASE_LIST) must hold the same valid value
+        const distinct = new Set(elements.map(element => element.textContent?.trim()));
+        if (distinct.size > 1) {
+            errors.push(`${definition.label} has conflicting values: ${Array.from(distinct).join(', ')}`);
+        }
+
+        const problem = validateParameterValue(definition, values[definition.key]);
+        if (problem) errors.push(problem);
+    });
+
+    return { valid: errors.length === 0, errors, values };
+};
+
+/**
+ * Parse, write, validate and serialize in one step; throws BotParameterError if the result
+ * would not load cleanly
+ */
+export const configureBotXml = (
+    xmlContent: string,
+    manifest: BotManifest,
+    values: Partial<BotParameterValues>
+): ConfiguredBotXml => {
+    const xmlDoc = parseBotXml(xmlContent);
+    const result = writeBotParameters(xmlDoc, manifest, values);
+    const xml = serializeBotXml(xmlDoc);
+
+    const validation = validateBotXml(xml, manifest);
+    if (!validation.valid) {
+        throw new BotParameterError(`${manifest.name} failed validation`, validation.errors);
+    }
+
+    return { ...result, xml, values: validation.values };
+};
+
+/**
+ * configureBotXml for a bot identified by file name
+ */
+export const configureBundledBotXml = (
+    filePath: string,
+    xmlContent: string,
+    values: Partial<BotParameterValues>
+): ConfiguredBotXml => {
+    const manifest = getBotManifest(filePath);
+    if (!manifest) {
+        throw new BotParameterError(`No parameter manifest for ${filePath}`);
+    }
+    return configureBotXml(xmlContent, manifest, values);
+};
+
+/**
+ * Throw BotParameterError if a bundled bot's XML no longer matches its manifest; bots without
+ * a manifest pass through unchecked
+ */
+export const assertValidBundledBotXml = (filePath: string, xmlContent: string): void => {
+    const manifest = getBotManifest(filePath);
+    if (!manifest) return;
+
+    const validation = validateBotXml(xmlContent, manifest);
+    if (!validation.valid) {
+        throw new BotParameterError(`${manifest.name} failed validation`, validation.errors);
+    }
+};
+
+// Private helper methods
+
+const isNumericType = (definition: BotParameterDefinition): boolean =>
+    definition.type === 'number' || definition.type === 'integer' || definition.type === 'digit';
+
+const childElement = (parent: Element, localName: string, name?: string): Element | undefined =>
+    Array.from(parent.children).find(
+        child => child.localName === localName && (name === undefined || child.getAttribute('name') === name)
+    );
+
+const resolveParameter = (xmlDoc: Document, definition: BotParameterDefinition): Element[] =>
+    definition.targets.flatMap(target => resolveTarget(xmlDoc, target));
+
+const resolveTarget = (xmlDoc: Document, target: BotParameterTarget): Element[] => {
+    const blocks = Array.from(xmlDoc.getElementsByTagName('block'));
+
+    switch (target.kind) {
+        case 'field':
+            return Array.from(xmlDoc.getElementsByTagName('field')).filter(
+                element => element.getAttribute('name') === target.name
+            );
+
+        case 'block': {
+            // Literals left in an input's default slot are <shadow> elements rather than <block>
+            const candidates = [...blocks, ...Array.from(xmlDoc.getElementsByTagName('shadow'))];
+            const match = candidates.find(element => element.getAttribute('id') === target.id);
+            const numField = match && childElement(match, 'field', target.field ?? 'NUM');
+            return numField ? [numField] : [];
+        }
+
+        case 'variable': {
+            for (const element of blocks) {
+                if (element.getAttribute('type') !== 'variables_set') continue;
+                if (childElement(element, 'field', 'VAR')?.textContent !== target.name) continue;
+
+                const valueBlock = childElement(element, 'value', 'VALUE');
+                const literal = valueBlock && childElement(valueBlock, 'block');
+                if (literal?.getAttribute('type') !== 'math_number') continue;
+
+                const numField = childElement(literal, 'field', 'NUM');
+                if (numField) return [numField];
+            }
+            return [];
+        }
+    }
+};
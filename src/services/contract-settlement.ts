@@ -0,0 +1,206 @@
+/**
+ * Contract Settlement
+ * Shared live-contract handling for the engines that buy through the Deriv API:
+ * - a `buy` whose response is lost may still have gone through, so it is looked up before anything is resent
+ * - a bought contract is followed on `proposal_open_contract` until it is sold; if that takes longer than
+ *   the caller waits, it keeps being reconciled so the risk gate and the ledger are always booked
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+
+export interface SettledContract {
+    contract_id: number | string;
+    buy_price?: number | string;
+    payout?: number | string;
+    profit?: number | string;
+    entry_spot?: number | string;
+    exit_tick?: number | string;
+    sell_spot?: number | string;
+    sell_price?: number | string;
+    sell_time?: number;
+    underlying?: string;
+    contract_type?: string;
+    is_sold?: number | boolean;
+}
+
+export interface BoughtContract {
+    contract_id: number | string;
+    buy_price?: number | string;
+}
+
+/**
+ * - bought: the contract exists, whether or not the buy response arrived
+ * - rejected: Deriv refused the buy or has no such contract; it is safe to try again
+ * - unknown: the buy may have gone through; never resend it
+ */
+export type BuyOutcome =
+    | { status: 'bought'; buy: BoughtContract }
+    | { status: 'rejected'; error: string }
+    | { status: 'unknown'; error: string };
+
+export interface BuyMatch {
+    symbol: string;
+    contractType: string;
+    stake: number;
+    sentAt: number; // ms
+}
+
+export interface SettlementOptions {
+    timeoutMs: number; // how long the returned promise waits before resolving with null
+    onSettled: (contract: SettledContract) => void; // runs once when the contract is sold, even after the timeout
+}
+
+interface LookupContract {
+    contract_id?: number | string;
+    contract_type?: string;
+    buy_price?: number | string;
+    purchase_time?: number | string;
+    symbol?: string;
+    underlying_symbol?: string;
+}
+
+const RECONCILE_INTERVAL_MS = 30 * 1000;
+const MAX_RECONCILE_ATTEMPTS = 120;
+
+const getErrorMessage = (error: unknown): string =>
+    (error as { error?: { message?: string } })?.error?.message || (error as Error)?.message || 'Unknown error';
+
+/**
+ * Find a contract bought by a `buy` whose response was lost: open contracts first, then the profit table.
+ * Resolves with null if there is none; rejects if the lookup itself fails.
+ */
+export const findUnconfirmedBuy = async (match: BuyMatch): Promise<BoughtContract | null> => {
+    const since = Math.floor(match.sentAt / 1000) - 1;
+    const isMatch = (contract: LookupContract, symbol?: string) =>
+        !!contract.contract_id &&
+        contract.contract_type === match.contractType &&
+        symbol === match.symbol &&
+        Number(contract.purchase_time) >= since &&
+        Math.abs(Number(contract.buy_price) - match.stake) < 0.005;
+
+    const portfolio = await api_base.api?.send({ portfolio: 1 });
+    const open = (portfolio?.portfolio?.contracts as LookupContract[] | undefined)?.find(contract =>
+        isMatch(contract, contract.symbol)
+    );
+    if (open) return { contract_id: open.contract_id!, buy_price: open.buy_price };
+
+    const profitTable = await api_base.api?.send({
+        profit_table: 1,
+        description: 1,
+        date_from: String(since),
+        sort: 'DESC',
+        limit: 50,
+    });
+    const closed = (profitTable?.profit_table?.transactions as LookupContract[] | undefined)?.find(contract =>
+        isMatch(contract, contract.underlying_symbol)
+    );
+    return closed ? { contract_id: closed.contract_id!, buy_price: closed.buy_price } : null;
+};
+
+/**
+ * Send one `buy`. Only an error answer from Deriv counts as a rejection; a thrown request or a dropped
+ * socket is checked against the account's contracts before the caller may try again.
+ */
+export const sendBuy = async (request: Record<string, unknown>, match: BuyMatch): Promise<BuyOutcome> => {
+    let uncertainError: string;
+    try {
+        const response = await api_base.api?.send(request);
+        if (response?.buy?.contract_id) return { status: 'bought', buy: response.buy };
+        if (response?.error) return { status: 'rejected', error: response.error.message || 'Buy rejected' };
+        uncertainError = 'Invalid buy response';
+    } catch (error) {
+        // The API rejects with the response when Deriv answers with an error
+        if ((error as { error?: unknown })?.error) return { status: 'rejected', error: getErrorMessage(error) };
+        uncertainError = getErrorMessage(error);
+    }
+
+    try {
+        const buy = await findUnconfirmedBuy(match);
+        if (buy) {
+            console.warn(`⚠️ Buy response lost (${uncertainError}); found contract ${buy.contract_id}`);
+            return { status: 'bought', buy };
+        }
+        return { status: 'rejected', error: `${uncertainError}; no contract was bought` };
+    } catch (error) {
+        return {
+            status: 'unknown',
+            error: `${uncertainError}; could not check whether the contract was bought (${getErrorMessage(error)})`,
+        };
+    }
+};
+
+/**
+ * Resolve with the sold contract, or null once timeoutMs passes. The `proposal_open_contract` stream is
+ * forgotten either way; after a timeout the contract is polled until it is sold and then handed to onSettled.
+ */
+export const watchContractSettlement = (
+    contractId: number | string,
+    { timeoutMs, onSettled }: SettlementOptions
+): Promise<SettledContract | null> =>
+    new Promise(resolve => {
+        const id = String(contractId);
+        let subscriptionId: string | undefined;
+        let streaming = true;
+        let settled = false;
+
+        const settle = (contract: SettledContract) => {
+            if (settled) return;
+            settled = true;
+            onSettled(contract);
+            resolve(contract);
+        };
+        const forget = () => {
+            if (!subscriptionId) return;
+            api_base.api?.send({ forget: subscriptionId }).catch(() => undefined);
+            subscriptionId = undefined;
+        };
+        const stopStream = () => {
+            streaming = false;
+            clearTimeout(timeout);
+            messages?.unsubscribe();
+            forget();
+        };
+        const handleContract = (contract?: SettledContract, subscription?: { id?: string }) => {
+            if (!contract || String(contract.contract_id) !== id) return;
+            subscriptionId = subscriptionId ?? subscription?.id;
+            // The subscription id can arrive after the stream was stopped
+            if (!streaming) return forget();
+            if (contract.is_sold) {
+                stopStream();
+                settle(contract);
+            }
+        };
+        const reconcile = async (attempt: number) => {
+            try {
+                const response = await api_base.api?.send({ proposal_open_contract: 1, contract_id: contractId });
+                if (response?.proposal_open_contract?.is_sold) return settle(response.proposal_open_contract);
+            } catch (error) {
+                console.warn(`⚠️ Could not check contract ${id}:`, error);
+            }
+            if (attempt < MAX_RECONCILE_ATTEMPTS) {
+                setTimeout(() => reconcile(attempt + 1), RECONCILE_INTERVAL_MS);
+            } else {
+                console.error(`❌ Contract ${id} is still unsettled; check it in Reports`);
+            }
+        };
+
+        const timeout = setTimeout(() => {
+            stopStream();
+            resolve(null);
+            setTimeout(() => reconcile(1), RECONCILE_INTERVAL_MS);
+        }, timeoutMs);
+
+        const messages = api_base.api
+            ?.onMessage()
+            .subscribe(
+                ({ data }: { data?: { proposal_open_contract?: SettledContract; subscription?: { id?: string } } }) =>
+                    handleContract(data?.proposal_open_contract, data?.subscription)
+            );
+
+        api_base.api
+            ?.send({ proposal_open_contract: 1, contract_id: contractId, subscribe: 1 })
+            .then((response: { proposal_open_contract?: SettledContract; subscription?: { id?: string } }) =>
+                handleContract(response?.proposal_open_contract, response?.subscription)
+            )
+            .catch((error: unknown) => console.error(`❌ Contract ${id} subscription failed:`, error));
+    });
@@ -0,0 +1,313 @@
+/**
+ * Digit Contract Executor
+ * Shared execution path for the Trading Hub tools (Instant Fill, Multiple Stakes, Instant Matches).
+ * Every trade runs in one of two explicit modes:
+ * - live: `proposal` then `buy` through the Deriv API, settled from `proposal_open_contract`
+ * - paper: no contract is bought; the trade settles against the ticks that follow it on the tick feed
+ */
+
+import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+import { isWinningContract } from '../engine/backtester';
+import { getPayoutMultiplier } from '../utils/profit-calculator';
+import { accountRiskGate } from './account-risk-gate.service';
+import { BoughtContract, SettledContract, sendBuy, watchContractSettlement } from './contract-settlement';
+import { tickFeed } from './tick-feed.service';
+import type { SourceTick, TickProvenance } from './tick-source/tick-source';
+import { tradeLedger } from './trade-ledger.service';
+
+export type ExecutionMode = 'live' | 'paper';
+
+export type DigitContractType = 'DIGITEVEN' | 'DIGITODD' | 'DIGITMATCH' | 'DIGITDIFF' | 'DIGITOVER' | 'DIGITUNDER';
+
+export interface DigitContractRequest {
+    symbol: string;
+    contractType: DigitContractType;
+    stake: number;
+    duration: number; // ticks
+    barrier?: number;
+}
+
+export interface DigitContractResult {
+    mode: ExecutionMode;
+    success: boolean;
+    contractType: DigitContractType;
+    symbol: string;
+    stake: number;
+    barrier?: number;
+    contractId?: number | string; // live trades only
+    entrySpot?: number;
+    exitSpot?: number;
+    exitDigit?: number; // paper trades only
+    payout: number;
+    profit: number;
+    isWon: boolean;
+    provenance?: TickProvenance; // paper trades: where the settling tick came from
+    error?: string;
+}
+
+export interface ExecutionStats {
+    mode: ExecutionMode;
+    totalPL: number;
+    totalRuns: number;
+    won: number;
+    lost: number;
+}
+
+const MIN_STAKE = 0.35;
+const SETTLEMENT_TIMEOUT_MS = 60 * 1000;
+const PAPER_TICK_TIMEOUT_MS = 30 * 1000;
+
+const createEmptyStats = (mode: ExecutionMode): ExecutionStats => ({ mode, totalPL: 0, totalRuns: 0, won: 0, lost: 0 });
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const getErrorMessage = (error: unknown): string =>
+    (error as { error?: { message?: string } })?.error?.message || (error as Error)?.message || 'Unknown error';
+
+/**
+ * Executes digit contracts for one tool and keeps that tool's stats separately per mode,
+ * so paper results never mix with real P/L
+ */
+export class DigitContractExecutor {
+    private mode: ExecutionMode;
+    private stats: Record<ExecutionMode, ExecutionStats> = {
+        live: createEmptyStats('live'),
+        paper: createEmptyStats('paper'),
+    };
+
+    constructor(
+        private readonly toolName: string,
+        mode: ExecutionMode = 'paper'
+    ) {
+        this.mode = mode;
+    }
+
+    getMode(): ExecutionMode {
+        return this.mode;
+    }
+
+    setMode(mode: ExecutionMode): void {
+        if (mode === this.mode) return;
+        console.log(`🔀 ${this.toolName} switched to ${mode} execution`);
+        this.mode = mode;
+    }
+
+    /**
+     * Stats for the active mode
+     */
+    getStats(): ExecutionStats {
+        return { ...this.stats[this.mode] };
+    }
+
+    resetStats(): void {
+        this.stats = { live: createEmptyStats('live'), paper: createEmptyStats('paper') };
+    }
+
+    /**
+     * Buy (live) or paper-trade one contract and resolve once it settles
+     */
+    async execute(request: DigitContractRequest): Promise<DigitContractResult> {
+        const mode = this.mode;
+
+        if (!request.stake || isNaN(request.stake) || request.stake < MIN_STAKE) {
+            return this.failedResult(request, mode, `Stake must be at least $${MIN_STAKE}`);
+        }
+
+        const result = mode === 'live' ? await this.executeLive(request) : await this.executePaper(request);
+
+        if (result.success) {
+            const stats = this.stats[mode];
+            stats.totalRuns++;
+            stats.totalPL = round(stats.totalPL + result.profit);
+            if (result.isWon) {
+                stats.won++;
+            } else {
+                stats.lost++;
+            }
+        }
+
+        console.log(`${mode === 'live' ? '💰' : '📝'} ${this.toolName} ${mode} trade settled:`, result);
+        return result;
+    }
+
+    private async executeLive(request: DigitContractRequest): Promise<DigitContractResult> {
+        if (!api_base.api || !api_base.is_authorized) {
+            return this.failedResult(request, 'live', 'Log in to your Deriv account to trade live');
+        }
+
+        const decision = accountRiskGate.requestApproval({
+            engine: 'TRADING_HUB',
+            stake: request.stake,
+            symbol: request.symbol,
+            contractType: request.contractType,
+        });
+        if (!decision.allowed) {
+            return this.failedResult(request, 'live', `Blocked by risk gate: ${decision.message}`);
+        }
+
+        const currency = (api_base.account_info as { currency?: string }).currency || 'USD';
+        let proposalId: string;
+
+        try {
+            const proposal = await api_base.api.send({
+                proposal: 1,
+                amount: request.stake,
+                basis: 'stake',
+                contract_type: request.contractType,
+                currency,
+                duration: request.duration,
+                duration_unit: 't',
+                symbol: request.symbol,
+                ...(request.barrier !== undefined ? { barrier: String(request.barrier) } : {}),
+            });
+            if (!proposal?.proposal?.id) {
+                throw proposal?.error ? { error: proposal.error } : new Error('Invalid proposal response');
+            }
+            proposalId = proposal.proposal.id;
+        } catch (error) {
+            accountRiskGate.releaseTicket(decision.ticketId!);
+            return this.failedResult(request, 'live', getErrorMessage(error));
+        }
+
+        const outcome = await sendBuy(
+            { buy: proposalId, price: request.stake },
+            { symbol: request.symbol, contractType: request.contractType, stake: request.stake, sentAt: Date.now() }
+        );
+        if (outcome.status === 'rejected') {
+            accountRiskGate.releaseTicket(decision.ticketId!);
+            return this.failedResult(request, 'live', outcome.error);
+        }
+        if (outcome.status === 'unknown') {
+            // The ticket stays open so the risk gate keeps counting the stake
+            return this.failedResult(request, 'live', `${outcome.error}; check Reports before trading again`);
+        }
+
+        const { buy } = outcome;
+        const contractId = buy.contract_id;
+        accountRiskGate.attachContract(decision.ticketId!, contractId);
+
+        const contract = await watchContractSettlement(contractId, {
+            timeoutMs: SETTLEMENT_TIMEOUT_MS,
+            onSettled: settled => this.bookSettlement(request, buy, settled),
+        });
+        if (!contract) {
+            return {
+                ...this.failedResult(request, 'live', 'Settlement timed out; it is booked when the contract closes'),
+                contractId,
+            };
+        }
+
+        const profit = Number(contract.profit) || 0;
+
+        return {
+            mode: 'live',
+            success: true,
+            contractType: request.contractType,
+            symbol: request.symbol,
+            stake: request.stake,
+            barrier: request.barrier,
+            contractId,
+            entrySpot: Number(contract.entry_spot) || undefined,
+            exitSpot: Number(contract.exit_tick ?? contract.sell_spot) || undefined,
+            payout: profit > 0 ? Number(contract.payout) || 0 : 0,
+            profit,
+            isWon: profit > 0,
+        };
+    }
+
+    /**
+     * Book a sold contract with the risk gate and the ledger
+     */
+    private bookSettlement(request: DigitContractRequest, buy: BoughtContract, contract: SettledContract): void {
+        const profit = Number(contract.profit) || 0;
+
+        accountRiskGate.recordSettlement(buy.contract_id, profit);
+        tradeLedger.record({
+            contractId: buy.contract_id,
+            engine: 'TRADING_HUB',
+            strategy: this.toolName,
+            symbol: request.symbol,
+            contractType: request.contractType,
+            stake: Number(contract.buy_price ?? buy.buy_price) || request.stake,
+            payout: profit > 0 ? Number(contract.payout) || 0 : 0,
+            profit,
+            entrySpot: Number(contract.entry_spot) || undefined,
+            exitSpot: Number(contract.exit_tick ?? contract.sell_spot) || undefined,
+            settledAt: Number(contract.sell_time) * 1000 || undefined,
+        });
+    }
+
+    /**
+     * Settle against the feed the way Deriv does: the first tick after the trade is the entry
+     * spot and the tick `duration` ticks later decides the outcome
+     */
+    private executePaper(request: DigitContractRequest): Promise<DigitContractResult> {
+        const duration = Math.max(1, Math.round(request.duration));
+
+        return new Promise(resolve => {
+            const ticks: SourceTick[] = [];
+            // Filled in once subscribed; the feed may settle the trade before subscribe() returns
+            const subscription: { unsubscribe?: () => void } = {};
+            let settled = false;
+
+            const finish = (result: DigitContractResult) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timeout);
+                subscription.unsubscribe?.();
+                resolve(result);
+            };
+            const timeout = setTimeout(
+                () => finish(this.failedResult(request, 'paper', `No ticks received for ${request.symbol}`)),
+                PAPER_TICK_TIMEOUT_MS
+            );
+
+            subscription.unsubscribe = tickFeed.subscribe(request.symbol, tick => {
+                ticks.push(tick);
+                if (ticks.length <= duration) return;
+
+                const entry = ticks[0];
+                const exit = ticks[duration];
+                const barrier = request.barrier ?? 0;
+                const isWon = isWinningContract(request.contractType, barrier, entry, exit);
+                // Priced from the barrier's win probability, as Deriv prices the contract
+                const payout = isWon ? round(request.stake * getPayoutMultiplier(request.contractType, barrier)) : 0;
+
+                finish({
+                    mode: 'paper',
+                    success: true,
+                    contractType: request.contractType,
+                    symbol: request.symbol,
+                    stake: request.stake,
+                    barrier: request.barrier,
+                    entrySpot: entry.quote,
+                    exitSpot: exit.quote,
+                    exitDigit: exit.lastDigit,
+                    payout,
+                    profit: round(payout - request.stake),
+                    isWon,
+                    provenance: exit.provenance,
+                });
+            });
+
+            // The feed can deliver synchronously; drop the subscription if that already settled the trade
+            if (settled) subscription.unsubscribe();
+        });
+    }
+
+    private failedResult(request: DigitContractRequest, mode: ExecutionMode, error: string): DigitContractResult {
+        console.error(`❌ ${this.toolName} ${mode} trade failed:`, error);
+        return {
+            mode,
+            success: false,
+            contractType: request.contractType,
+            symbol: request.symbol,
+            stake: request.stake,
+            barrier: request.barrier,
+            payout: 0,
+            profit: 0,
+            isWon: false,
+            error,
+        };
+    }
+}
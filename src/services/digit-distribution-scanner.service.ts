@@ -4,8 +4,21 @@
  * Focuses on mathematical probability corrections and statistical arbitrage
  */
 
+import { DIGIT_EXPECTED_FREQUENCY, tallyDigits } from '../utils/digit-distribution';
+import {
+    analyseDigitRandomness,
+    correctAcrossMarkets,
+    DEFAULT_SIGNIFICANCE_FILTER,
+    DigitRandomnessReport,
+    formatPValue,
+    getSignalSignificance,
+    SignalSignificance,
+    SignificanceFilter,
+} from '../utils/digit-statistics';
 import { ensembleStrategy } from '../utils/prediction-algorithms';
-import { derivAPIService } from './deriv-api.service';
+import { fromScannerSignal, signalOutcomeTracker } from './signal-outcome-tracker.service';
+import { tickFeed } from './tick-feed.service';
+import { combineProvenance, DataProvenance, TickProvenance } from './tick-source/tick-source';
 import { api_base } from '@/external/bot-skeleton/services/api/api-base';
 
 export interface DigitDistributionAnalysis {
@@ -60,13 +73,18 @@ export interface DigitDistributionSignal {
         underrepresentedDigits: DigitDistributionAnalysis[];
         overrepresentedDigits: DigitDistributionAnalysis[];
     };
+    statistics?: SignalSignificance; // Corrected across the digits and markets of the scan
+    provenance: DataProvenance; // Of the ticks the distribution was measured on
 }
 
+type DistributionSignalDraft = Omit<DigitDistributionSignal, 'provenance'>;
+
 interface TickData {
     epoch: number;
     quote: number;
     lastDigit: number;
     source: 'historical' | 'live';
+    provenance: TickProvenance;
     localTime: string;
 }
 
@@ -94,7 +112,7 @@ class DigitDistributionScannerService {
     ];
 
     private readonly ANALYSIS_WINDOW = 200; // Increased from 100 for better statistics
-    private readonly EXPECTED_FREQUENCY = 0.1; // 10% expected for each digit
+    private readonly EXPECTED_FREQUENCY = DIGIT_EXPECTED_FREQUENCY; // 10% expected for each digit
     private readonly MIN_DEVIATION_THRESHOLD = 0.04; // Increased from 3% to 4%
     private readonly HIGH_DEVIATION_THRESHOLD = 0.08; // Increased from 6% to 8%
     private readonly MIN_CONFIDENCE_THRESHOLD = 45; // Reduced from 65% to 45% for more signals
@@ -103,6 +121,20 @@ class DigitDistributionScannerService {
     private readonly MIN_Z_SCORE = 1.5; // Reduced from 1.96 to 1.5 for more flexibility
     private readonly MIN_SAMPLE_SIZE = 50; // Reduced from 100 to 50 for more market coverage
 
+    private significanceFilter: SignificanceFilter = { ...DEFAULT_SIGNIFICANCE_FILTER };
+    private scanStatistics: Map<string, DigitRandomnessReport> = new Map();
+
+    /**
+     * Optionally drop signals whose skew is not distinguishable from a fair RNG
+     */
+    public setSignificanceFilter(filter: Partial<SignificanceFilter>): void {
+        this.significanceFilter = { ...this.significanceFilter, ...filter };
+    }
+
+    public getSignificanceFilter(): SignificanceFilter {
+        return { ...this.significanceFilter };
+    }
+
     /**
      * Analyze market state for filtering signals
      */
@@ -271,7 +303,8 @@ class DigitDistributionScannerService {
 
         console.log('📊 [PATEL DISTRIBUTION] Markets to scan:', this.MARKETS_TO_SCAN.length);
 
-        const signals: Array<{ signal: DigitDistributionSignal; score: number }> = [];
+        let signals: Array<{ signal: DigitDistributionSignal; score: number }> = [];
+        this.scanStatistics.clear();
 
         for (const market of this.MARKETS_TO_SCAN) {
             try {
@@ -322,6 +355,8 @@ class DigitDistributionScannerService {
             }
         }
 
+        signals = this.applySignificance(signals);
+
         // Sort by intelligent score instead of simple confidence
         signals.sort((a, b) => b.score - a.score);
 
@@ -349,6 +384,7 @@ class DigitDistributionScannerService {
                 `🎯 [PATEL DISTRIBUTION] Recommendation: ${bestSignal.recommendation.action} ${bestSignal.recommendation.barrier}`
             );
             console.log(`🎯 [PATEL DISTRIBUTION] Reasoning: ${bestSignal.recommendation.reasoning}`);
+            signalOutcomeTracker.track(fromScannerSignal('DIGIT_DISTRIBUTION', bestSignal));
         } else {
             console.log(
                 '❌ [PATEL DISTRIBUTION] No suitable Distribution Deviation opportunities found (enhanced filtering applied)'
@@ -376,6 +412,13 @@ class DigitDistributionScannerService {
             }
 
             const currentPrice = tickData[tickData.length - 1].quote;
+            this.scanStatistics.set(
+                symbol,
+                analyseDigitRandomness(
+                    tickData.map(tick => tick.lastDigit),
+                    this.significanceFilter.alpha
+                )
+            );
 
             // Perform digit distribution analysis
             const distributionAnalysis = this.analyzeDigitDistribution(tickData);
@@ -427,7 +470,7 @@ class DigitDistributionScannerService {
             console.log(`  ✅ [${name}] Significant deviations found - generating signal...`);
 
             // Generate signal based on strongest deviation pattern
-            let signal: DigitDistributionSignal | null = null;
+            let signal: DistributionSignalDraft | null = null;
 
             // Priority 1: Statistical Reversion (underrepresented digits)
             if (underrepresentedDigits.length > 0 && correctionPotential > 0.7) {
@@ -483,13 +526,40 @@ class DigitDistributionScannerService {
                 console.log(`  ℹ️ [${name}] No strategy matched criteria`);
             }
 
-            return signal;
+            return signal && { ...signal, provenance: combineProvenance(tickData.map(tick => tick.provenance)) };
         } catch (error) {
             console.error(`  ❌ [${name}] Error analyzing:`, error);
             return null;
         }
     }
 
+    /**
+     * Attach corrected p-values to the scan's signals and drop insignificant ones when filtering
+     */
+    private applySignificance(
+        signals: Array<{ signal: DigitDistributionSignal; score: number }>
+    ): Array<{ signal: DigitDistributionSignal; score: number }> {
+        const symbols = [...this.scanStatistics.keys()];
+        const corrected = correctAcrossMarkets([...this.scanStatistics.values()]);
+        const comparisons = corrected.length * 10;
+
+        return signals.filter(({ signal }) => {
+            const report = corrected[symbols.indexOf(signal.market)];
+            if (!report) return !this.significanceFilter.enabled;
+
+            signal.statistics = getSignalSignificance(report, signal.targetDigit, comparisons);
+            signal.recommendation.reasoning += ` Distribution test: ${formatPValue(signal.statistics.pValue)} (corrected over ${comparisons} tests).`;
+
+            if (this.significanceFilter.enabled && !signal.statistics.significant) {
+                console.log(
+                    `⚠️ [PATEL DISTRIBUTION] Signal for ${signal.marketName} suppressed - not significant (${formatPValue(signal.statistics.pValue)})`
+                );
+                return false;
+            }
+            return true;
+        });
+    }
+
     /**
      * Get tick history and extract last digits
      */
@@ -500,28 +570,23 @@ class DigitDistributionScannerService {
             // Add delay between requests to avoid overwhelming the API
             await new Promise(resolve => setTimeout(resolve, 500));
 
-            const response = await derivAPIService.getTicksHistory({
-                symbol: symbol,
-                count: count,
-                end: 'latest',
-                style: 'ticks',
-            });
+            // Served from the shared feed's buffer when the symbol is already streaming
+            const feedTicks = await tickFeed.getHistory(symbol, count);
 
-            if (response.history && response.history.prices && response.history.times) {
-                const ticks = response.history.prices.map((price: number, index: number) => ({
-                    epoch: response.history!.times[index],
-                    quote: price,
-                    lastDigit: this.extractLastDigit(price),
-                    source: 'historical' as const,
-                    localTime: new Date(response.history!.times[index] * 1000).toLocaleTimeString(),
-                }));
-                console.log(`  ✅ [${symbol}] Received ${ticks.length} ticks from Deriv API`);
-                return ticks;
-            } else if (response.error) {
-                throw new Error(`API Error: ${response.error.message || 'Unknown error'}`);
-            } else {
+            if (feedTicks.length === 0) {
                 throw new Error('No history data received');
             }
+
+            const ticks = feedTicks.map(tick => ({
+                epoch: tick.epoch,
+                quote: tick.quote,
+                lastDigit: tick.lastDigit,
+                source: 'historical' as const,
+                provenance: tick.provenance,
+                localTime: new Date(tick.epoch * 1000).toLocaleTimeString(),
+            }));
+            console.log(`  ✅ [${symbol}] Received ${ticks.length} ticks from ${tickFeed.getSource().name}`);
+            return ticks;
         } catch (error: any) {
             const errorMsg = error?.error?.message || error?.message || 'Unknown error';
             console.error(`  ❌ [${symbol}] Failed to get tick history: ${errorMsg}`);
@@ -529,66 +594,18 @@ class DigitDistributionScannerService {
         }
     }
 
-    /**
-     * Extract last digit from price
-     */
-    private extractLastDigit(price: number): number {
-        const priceStr = Math.abs(price).toString();
-        const lastChar = priceStr.charAt(priceStr.length - 1);
-        return parseInt(lastChar, 10);
-    }
-
     /**
      * Analyze digit distribution with statistical metrics
      */
     private analyzeDigitDistribution(ticks: TickData[]): DigitDistributionAnalysis[] {
-        const digitCounts: Record<number, number> = {};
-        const digitLastSeen: Record<number, number> = {};
-        const digitStreaks: Record<number, number> = {};
-
-        // Initialize counters
-        for (let i = 0; i < 10; i++) {
-            digitCounts[i] = 0;
-            digitLastSeen[i] = -1;
-            digitStreaks[i] = 0;
-        }
-
-        // Count occurrences and track patterns
-        let currentStreak = 0;
-        let lastDigit = -1;
-
-        ticks.forEach((tick, index) => {
-            const digit = tick.lastDigit;
-            digitCounts[digit]++;
-
-            // Track last seen (from end of array)
-            if (digitLastSeen[digit] === -1) {
-                digitLastSeen[digit] = ticks.length - 1 - index;
-            }
-
-            // Track streaks
-            if (digit === lastDigit) {
-                currentStreak++;
-            } else {
-                if (lastDigit !== -1) {
-                    digitStreaks[lastDigit] = Math.max(digitStreaks[lastDigit], currentStreak);
-                }
-                currentStreak = 1;
-                lastDigit = digit;
-            }
-        });
-
-        // Finalize last streak
-        if (lastDigit !== -1) {
-            digitStreaks[lastDigit] = Math.max(digitStreaks[lastDigit], currentStreak);
-        }
+        const tallies = tallyDigits(ticks.map(tick => tick.lastDigit));
 
         // Create distribution analysis with statistical metrics
         const analysis: DigitDistributionAnalysis[] = [];
         const totalTicks = ticks.length;
 
         for (let digit = 0; digit < 10; digit++) {
-            const frequency = digitCounts[digit] / totalTicks;
+            const { frequency, count: actualCount, lastSeen, longestStreak } = tallies[digit];
             const percentage = frequency * 100;
             const expectedPercentage = this.EXPECTED_FREQUENCY * 100;
             const deviation = Math.abs(frequency - this.EXPECTED_FREQUENCY);
@@ -602,7 +619,6 @@ class DigitDistributionScannerService {
 
             // Calculate z-score for statistical significance
             const expectedCount = totalTicks * this.EXPECTED_FREQUENCY;
-            const actualCount = digitCounts[digit];
             const variance = totalTicks * this.EXPECTED_FREQUENCY * (1 - this.EXPECTED_FREQUENCY);
             const standardDeviation = Math.sqrt(variance);
             const zScore = standardDeviation > 0 ? (actualCount - expectedCount) / standardDeviation : 0;
@@ -615,8 +631,8 @@ class DigitDistributionScannerService {
                 deviation,
                 deviationScore,
                 probabilityCorrection,
-                lastSeen: digitLastSeen[digit],
-                streak: digitStreaks[digit],
+                lastSeen,
+                streak: longestStreak,
                 zScore,
             });
         }
@@ -672,7 +688,7 @@ class DigitDistributionScannerService {
         currentPrice: number,
         underrepresentedDigit: DigitDistributionAnalysis,
         analysis: DigitDistributionSignal['analysis']
-    ): DigitDistributionSignal {
+    ): DistributionSignalDraft {
         const targetDigit = underrepresentedDigit.digit;
         const confidence = Math.min(95, underrepresentedDigit.probabilityCorrection * 100 + 20);
 
@@ -729,7 +745,7 @@ class DigitDistributionScannerService {
         currentPrice: number,
         deviatedDigit: DigitDistributionAnalysis,
         analysis: DigitDistributionSignal['analysis']
-    ): DigitDistributionSignal {
+    ): DistributionSignalDraft {
         const targetDigit = deviatedDigit.digit;
         const confidence = Math.min(95, deviatedDigit.deviationScore * 80 + 15);
 
@@ -787,7 +803,7 @@ class DigitDistributionScannerService {
         currentPrice: number,
         distributionAnalysis: DigitDistributionAnalysis[],
         analysis: DigitDistributionSignal['analysis']
-    ): DigitDistributionSignal {
+    ): DistributionSignalDraft {
         // Use ensemble strategy for best prediction
         const tickData = distributionAnalysis.map(d => ({
             epoch: Date.now(),
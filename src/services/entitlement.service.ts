@@ -0,0 +1,253 @@
+/**
+ * Entitlement Service
+ * Client side of `/api/entitlements`. Premium and admin access comes from a short-lived token the
+ * server signs after checking the user's Deriv token against the entitlement store; the token is
+ * verified here with the public key built into the bundle, so editing localStorage grants nothing.
+ */
+
+import type {
+    EntitlementAuditEntry,
+    EntitlementClaims,
+    EntitlementFeature,
+    EntitlementGrant,
+    EntitlementGrantRequest,
+    EntitlementGrantResult,
+    EntitlementUsageReport,
+} from '../types/entitlement.types';
+
+const API_URL = '/api/entitlements';
+const TOKEN_STORAGE_KEY = 'entitlement_token';
+const REFRESH_MARGIN_MS = 60 * 1000; // refresh a minute before expiry so admin calls never race it
+const USAGE_REPORT_INTERVAL_MS = 5 * 60 * 1000; // one usage event per feature per 5 minutes is enough for reporting
+
+type EntitlementListener = (claims: EntitlementClaims | null) => void;
+
+const decodeBase64Url = (value: string) => {
+    const base64 = value
+        .replace(/-/g, '+')
+        .replace(/_/g, '/')
+        .padEnd(Math.ceil(value.length / 4) * 4, '=');
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+/**
+ * Verify an ES256 entitlement token against an SPKI public key (PEM or bare base64).
+ * Returns the claims, or null if the token is malformed, forged or expired.
+ */
+export const verifyEntitlementToken = async (
+    token: string,
+    publicKey: string | undefined = process.env.ENTITLEMENT_PUBLIC_KEY,
+    now = Date.now()
+): Promise<EntitlementClaims | null> => {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) return null;
+    if (!publicKey) {
+        console.error('❌ ENTITLEMENT_PUBLIC_KEY is not configured; premium access is disabled');
+        return null;
+    }
+
+    try {
+        const key = await crypto.subtle.importKey(
+            'spki',
+            decodeBase64Url(publicKey.replace(/-----[^-]+-----|\\n|\s/g, '')),
+            { name: 'ECDSA', namedCurve: 'P-256' },
+            false,
+            ['verify']
+        );
+        const valid = await crypto.subtle.verify(
+            { name: 'ECDSA', hash: 'SHA-256' },
+            key,
+            decodeBase64Url(signature),
+            new TextEncoder().encode(`${header}.${payload}`)
+        );
+        if (!valid) return null;
+
+        const claims = JSON.parse(new TextDecoder().decode(decodeBase64Url(payload))) as EntitlementClaims;
+        return claims.exp * 1000 > now ? claims : null;
+    } catch (error) {
+        console.error('❌ Entitlement token verification failed:', error);
+        return null;
+    }
+};
+
+class EntitlementService {
+    private token: string | null = null;
+    private claims: EntitlementClaims | null = null;
+    private restored = false;
+    private pending: Promise<EntitlementClaims | null> | null = null;
+    private listeners = new Set<EntitlementListener>();
+    private lastUsageReport = new Map<EntitlementFeature, number>();
+
+    /**
+     * Verified claims for the active account, or null if there is no unexpired token for it
+     */
+    getClaims(): EntitlementClaims | null {
+        if (!this.claims) return null;
+
+        // Tokens cut short by a grant starting or expiring can be shorter than the usual margin
+        const margin = Math.min(REFRESH_MARGIN_MS, ((this.claims.exp - this.claims.iat) * 1000) / 2);
+        if (this.claims.exp * 1000 - margin <= Date.now()) return null;
+
+        const activeLoginId = localStorage.getItem('active_loginid');
+        if (activeLoginId && !this.claims.accounts.includes(activeLoginId)) return null;
+
+        return this.claims;
+    }
+
+    /**
+     * Synchronous check against the cached token; use hasFeature when a refresh is acceptable
+     */
+    hasCachedFeature(feature: EntitlementFeature): boolean {
+        return !!this.getClaims()?.features.includes(feature);
+    }
+
+    async hasFeature(feature: EntitlementFeature): Promise<boolean> {
+        return !!(await this.getEntitlements())?.features.includes(feature);
+    }
+
+    /**
+     * Cached claims if still valid, otherwise a fresh token from the server
+     */
+    async getEntitlements(forceRefresh = false): Promise<EntitlementClaims | null> {
+        if (!forceRefresh) {
+            if (!this.restored) await this.restore();
+            const claims = this.getClaims();
+            if (claims) return claims;
+        }
+
+        this.pending ??= this.refresh().finally(() => {
+            this.pending = null;
+        });
+        return this.pending;
+    }
+
+    subscribe(listener: EntitlementListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    clear(): void {
+        this.setToken(null, null);
+    }
+
+    async listGrants(): Promise<EntitlementGrant[]> {
+        return (await this.adminRequest<{ grants: EntitlementGrant[] }>('GET', undefined, '?view=grants')).grants;
+    }
+
+    async listAudit(): Promise<EntitlementAuditEntry[]> {
+        return (await this.adminRequest<{ audit: EntitlementAuditEntry[] }>('GET', undefined, '?view=audit')).audit;
+    }
+
+    async listUsage(): Promise<EntitlementUsageReport> {
+        return this.adminRequest<EntitlementUsageReport>('GET', undefined, '?view=usage');
+    }
+
+    /**
+     * Grant a feature, optionally between startsAt and expiresAt; granting it again replaces the dates
+     */
+    async grant(request: EntitlementGrantRequest): Promise<{ grant: EntitlementGrant; status: 'created' | 'updated' }> {
+        return this.adminRequest('PUT', request);
+    }
+
+    async grantMany(requests: EntitlementGrantRequest[]): Promise<EntitlementGrantResult[]> {
+        return (await this.adminRequest<{ results: EntitlementGrantResult[] }>('PUT', { grants: requests })).results;
+    }
+
+    async revoke(account: string, feature: EntitlementFeature): Promise<void> {
+        await this.adminRequest('DELETE', { account, feature });
+    }
+
+    /**
+     * Record that the user opened a premium feature, for the usage report in the Admin Panel.
+     * Fire-and-forget: reporting never blocks or breaks the feature itself.
+     */
+    reportUsage(feature: EntitlementFeature): void {
+        const claims = this.getClaims();
+        const lastReport = this.lastUsageReport.get(feature) || 0;
+        if (!claims?.features.includes(feature) || Date.now() - lastReport < USAGE_REPORT_INTERVAL_MS) return;
+
+        this.lastUsageReport.set(feature, Date.now());
+        fetch(`${API_URL}?action=usage`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.token}` },
+            body: JSON.stringify({ feature }),
+        }).catch(error => console.error('❌ Error reporting entitlement usage:', error));
+    }
+
+    private async restore(): Promise<void> {
+        this.restored = true;
+        const stored = localStorage.getItem(TOKEN_STORAGE_KEY);
+        if (!stored) return;
+
+        const claims = await verifyEntitlementToken(stored);
+        if (claims) {
+            this.setToken(stored, claims);
+        } else {
+            localStorage.removeItem(TOKEN_STORAGE_KEY);
+        }
+    }
+
+    private async refresh(): Promise<EntitlementClaims | null> {
+        const derivToken = localStorage.getItem('authToken');
+        if (!derivToken) {
+            this.setToken(null, null);
+            return null;
+        }
+
+        try {
+            const response = await fetch(API_URL, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ derivToken }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || `Entitlement request failed (${response.status})`);
+            }
+
+            const claims = await verifyEntitlementToken(data.token);
+            if (!claims) {
+                throw new Error('Entitlement token failed verification');
+            }
+
+            console.log(`🔐 Entitlements for ${claims.sub}:`, claims.features);
+            this.setToken(data.token, claims);
+            return claims;
+        } catch (error) {
+            console.error('❌ Error refreshing entitlements:', error);
+            this.setToken(null, null);
+            return null;
+        }
+    }
+
+    private async adminRequest<T>(method: string, body?: object, query = ''): Promise<T> {
+        const claims = await this.getEntitlements();
+        if (!claims?.features.includes('admin')) {
+            throw new Error('Admin access required');
+        }
+
+        const response = await fetch(`${API_URL}${query}`, {
+            method,
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.token}` },
+            body: body ? JSON.stringify(body) : undefined,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || `Entitlement request failed (${response.status})`);
+        }
+        return data as T;
+    }
+
+    private setToken(token: string | null, claims: EntitlementClaims | null): void {
+        this.token = token;
+        this.claims = claims;
+        if (token) {
+            localStorage.setItem(TOKEN_STORAGE_KEY, token);
+        } else {
+            localStorage.removeItem(TOKEN_STORAGE_KEY);
+        }
+        this.listeners.forEach(listener => listener(claims));
+    }
+}
+
+export const entitlementService = new EntitlementService();
@@ -1,6 +1,8 @@
 import { makeAutoObservable } from 'mobx';
 import { FastLaneStore } from '@/stores/fast-lane-store';
 import type { BuyRequest, ProposalRequest, StrategyDecision } from '@/types/fast-lane.types';
+import { accountRiskGate } from './account-risk-gate.service';
+import { tradeLedger } from './trade-ledger.service';
 import { FastLaneStateMachine } from './fast-lane-state-machine.service';
 import { FastLaneWebSocketService } from './fast-lane-websocket.service';
 
@@ -14,6 +16,7 @@ export class FastLaneExecutor {
     private wsService: FastLaneWebSocketService;
     private stateMachine: FastLaneStateMachine;
     private currentProposalId: string | null = null;
+    private riskTicketId: string | null = null;
 
     constructor(store: FastLaneStore, wsService: FastLaneWebSocketService, stateMachine: FastLaneStateMachine) {
         this.store = store;
@@ -119,6 +122,19 @@ export class FastLaneExecutor {
      */
     async buyContract(proposalId: string, price: number): Promise<void> {
         try {
+            // Account-level risk gate shared with the other auto-trading engines
+            const decision = accountRiskGate.requestApproval({
+                engine: 'FAST_LANE',
+                stake: price,
+                symbol: this.store.config.symbol,
+            });
+            if (!decision.allowed) {
+                this.store.addLog('error', `Buy blocked by risk gate: ${decision.message}`);
+                this.stateMachine.transitionTo('ERROR');
+                return;
+            }
+            this.riskTicketId = decision.ticketId!;
+
             // Transition to BUYING state
             this.stateMachine.transitionTo('BUYING');
 
@@ -133,6 +149,7 @@ export class FastLaneExecutor {
             this.wsService.send(buyRequest);
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            this.releaseRiskTicket();
             this.store.addLog('error', `Buy failed: ${errorMsg}`);
             this.stateMachine.transitionTo('ERROR');
             throw error;
@@ -147,6 +164,7 @@ export class FastLaneExecutor {
         // eslint-disable-line @typescript-eslint/no-explicit-any
         try {
             if (buy.error) {
+                this.releaseRiskTicket();
                 this.store.addLog('error', `Buy error: ${buy.error.message}`);
                 this.stateMachine.transitionTo('ERROR');
                 return;
@@ -155,6 +173,11 @@ export class FastLaneExecutor {
             const buyData = buy.buy;
             const contractId = buyData.contract_id;
 
+            if (this.riskTicketId) {
+                accountRiskGate.attachContract(this.riskTicketId, contractId);
+                this.riskTicketId = null;
+            }
+
             this.store.addLog('success', `Contract purchased: ID=${contractId}, Buy Price=${buyData.buy_price}`);
 
             // Transition to TRADE_ACTIVE
@@ -220,6 +243,20 @@ export class FastLaneExecutor {
 
             // If contract is settled, return to IDLE
             if (status === 'sold' || status === 'lost' || status === 'won') {
+                accountRiskGate.recordSettlement(contractId, profit || 0);
+                tradeLedger.record({
+                    contractId,
+                    engine: 'FAST_LANE',
+                    strategy: this.store.config.strategy.type,
+                    symbol: contractData.underlying || this.store.config.symbol,
+                    contractType: contractData.contract_type,
+                    stake: Number(contractData.buy_price) || 0,
+                    payout: Number(contractData.payout) || 0,
+                    profit: profit || 0,
+                    entrySpot: Number(contractData.entry_spot) || undefined,
+                    exitSpot: Number(contractData.exit_tick ?? contractData.sell_spot) || undefined,
+                    settledAt: Number(contractData.sell_time) * 1000 || undefined,
+                });
                 this.store.addLog(profit >= 0 ? 'success' : 'error', `Contract settled: Profit=${profit}`);
 
                 // Unsubscribe from contract updates
@@ -249,6 +286,16 @@ export class FastLaneExecutor {
         }
     }
 
+    /**
+     * Release the pending risk gate ticket when a buy does not go through
+     */
+    private releaseRiskTicket(): void {
+        if (this.riskTicketId) {
+            accountRiskGate.releaseTicket(this.riskTicketId);
+            this.riskTicketId = null;
+        }
+    }
+
     /**
      * Get current proposal ID
      */
@@ -12,7 +12,9 @@ import {
     TradingMode,
     TradingState,
 } from '@/types/fast-lane.types';
+import { getLocalServerEndpoint } from '@/config/api-config';
 import { fastLaneStateMachine } from './fast-lane-state-machine.service';
+import { tickFeed } from './tick-feed.service';
 
 export class FastLaneWebSocketService {
     private ws: WebSocket | null = null;
@@ -20,7 +22,7 @@ export class FastLaneWebSocketService {
     private maxReconnectAttempts = 5;
     private reconnectDelay = 3000;
     private pingInterval: NodeJS.Timeout | null = null;
-    private subscriptions: Map<string, string> = new Map(); // subscription_id -> type
+    private tickUnsubscribe: (() => void) | null = null;
     private store: FastLaneStore;
     // private messageHandlers: Map<string, (data: any) => void> = new Map(); // eslint-disable-line @typescript-eslint/no-explicit-any
 
@@ -33,11 +35,13 @@ export class FastLaneWebSocketService {
      */
     async connect(apiToken: string): Promise<boolean> {
         try {
-            // Determine endpoint based on mode
-            const endpoint =
-                this.store.mode === TradingMode.DEMO
-                    ? 'wss://ws.derivws.com/websockets/v3?app_id=1089'
-                    : 'wss://ws.derivws.com/websockets/v3?app_id=1089';
+            // Determine endpoint based on mode; a local server from the endpoint page wins
+            const localEndpoint = getLocalServerEndpoint();
+            const endpoint = localEndpoint
+                ? `${localEndpoint}?app_id=1089`
+                : this.store.mode === TradingMode.DEMO
+                  ? 'wss://ws.derivws.com/websockets/v3?app_id=1089'
+                  : 'wss://ws.derivws.com/websockets/v3?app_id=1089';
 
             this.store.addLog('info', `Connecting to ${this.store.mode.toUpperCase()} server...`);
 
@@ -124,43 +128,21 @@ export class FastLaneWebSocketService {
     }
 
     /**
-     * Subscribe to tick stream
+     * Subscribe to tick stream on the shared tick feed
      */
     async subscribeTicks(symbol: string): Promise<boolean> {
-        return new Promise((resolve, reject) => {
-            if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-                reject(new Error('WebSocket not connected'));
-                return;
-            }
-
-            const ticksRequest = {
-                ticks: symbol,
-                subscribe: 1,
-            };
-
-            const messageHandler = (event: MessageEvent) => {
-                const data = JSON.parse(event.data);
-
-                if (data.msg_type === 'tick') {
-                    // Store subscription ID
-                    if (data.subscription) {
-                        this.subscriptions.set(data.subscription.id, 'ticks');
-                    }
-
-                    this.store.addLog('success', `Subscribed to ${symbol} ticks`);
-                    fastLaneStateMachine.transition(TradingState.SUBSCRIBED);
-                    this.ws?.removeEventListener('message', messageHandler);
-                    resolve(true);
-                } else if (data.error) {
-                    this.store.addError('SUBSCRIBE_ERROR', data.error.message);
-                    this.ws?.removeEventListener('message', messageHandler);
-                    reject(new Error(data.error.message));
-                }
-            };
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+            throw new Error('WebSocket not connected');
+        }
 
-            this.ws.addEventListener('message', messageHandler);
-            this.send(ticksRequest);
+        this.tickUnsubscribe?.();
+        this.tickUnsubscribe = tickFeed.subscribe(symbol, tick => {
+            this.handleTick({ tick: { epoch: tick.epoch, quote: tick.quote, symbol: tick.symbol } });
         });
+
+        this.store.addLog('success', `Subscribed to ${symbol} ticks`);
+        fastLaneStateMachine.transition(TradingState.SUBSCRIBED);
+        return true;
     }
 
     /**
@@ -362,6 +344,9 @@ export class FastLaneWebSocketService {
      * Disconnect
      */
     disconnect(): void {
+        this.tickUnsubscribe?.();
+        this.tickUnsubscribe = null;
+
         if (this.ws) {
             this.stopPing();
             this.ws.close();
@@ -4,6 +4,8 @@
  */
 
 import { derivAPIService } from './deriv-api.service';
+import { fromScannerSignal, signalOutcomeTracker } from './signal-outcome-tracker.service';
+import { combineProvenance, DataProvenance } from './tick-source/tick-source';
 
 export interface FibonacciLevel {
     level: number;
@@ -31,6 +33,7 @@ export interface RangingMarketSignal {
         rangingScore: number;
         fibonacciAlignment: number;
     };
+    provenance: DataProvenance; // Of the ticks the range was measured on
 }
 
 class FibonacciRangingScannerService {
@@ -104,6 +107,7 @@ class FibonacciRangingScannerService {
             console.log(
                 `🎯 Best ranging market found: ${bestSignal.marketName} (${bestSignal.confidence.toFixed(1)}% confidence)`
             );
+            signalOutcomeTracker.track(fromScannerSignal('FIBONACCI_RANGING', bestSignal));
         } else {
             console.log('❌ No suitable ranging markets found');
         }
@@ -179,6 +183,7 @@ class FibonacciRangingScannerService {
                     rangingScore,
                     fibonacciAlignment: this.calculateFibonacciAlignment(currentPrice, fibonacciLevels),
                 },
+                provenance: combineProvenance(tickData.map(tick => tick.provenance)),
             };
         } catch (error) {
             console.error(`Error analyzing ${name}:`, error);
@@ -202,6 +207,7 @@ class FibonacciRangingScannerService {
                 const ticks = response.history.prices.map((price: number, index: number) => ({
                     quote: price,
                     epoch: response.history!.times[index],
+                    provenance: 'historical',
                 }));
                 return ticks;
             } else {
@@ -4,18 +4,21 @@
  */
 
 import { derivConnectionPool, ConnectionType } from './deriv-connection-pool.service';
+import { getLastDigit, type TickProvenance } from './tick-source/tick-source';
 
-interface HistoricalTickData {
+export interface HistoricalTickData {
     quote: number;
     epoch: number;
     lastDigit: number;
+    provenance?: TickProvenance; // Unset for ticks imported from files
 }
 
-interface HistoricalLoadResult {
+export interface HistoricalLoadResult {
     success: boolean;
     ticks: HistoricalTickData[];
     count: number;
     symbol: string;
+    provenance: TickProvenance;
     error?: string;
 }
 
@@ -51,20 +54,21 @@ export class HistoricalTickLoaderService {
             // Request historical tick data using ticks_history API
             const response = await this.requestTicksHistory(symbol, count);
             
-            if (!response || !response.ticks_history) {
+            if (!response || !response.history?.prices) {
                 throw new Error('Invalid response from ticks_history API');
             }
 
-            // Process the historical data
-            const ticks: HistoricalTickData[] = response.ticks_history.prices.map((price: number, index: number) => {
+            // Process the historical data; the pip size keeps trailing zero digits
+            const ticks: HistoricalTickData[] = response.history.prices.map((price: number, index: number) => {
                 const quote = parseFloat(price.toString());
-                const epoch = response.ticks_history.times[index];
-                const lastDigit = this.extractLastDigit(quote);
+                const epoch = response.history.times[index];
+                const lastDigit = getLastDigit(quote, response.pip_size);
                 
                 return {
                     quote,
                     epoch,
-                    lastDigit
+                    lastDigit,
+                    provenance: 'historical' as const
                 };
             });
 
@@ -74,7 +78,8 @@ export class HistoricalTickLoaderService {
                 success: true,
                 ticks,
                 count: ticks.length,
-                symbol
+                symbol,
+                provenance: 'historical'
             };
 
         } catch (error) {
@@ -85,6 +90,50 @@ export class HistoricalTickLoaderService {
                 ticks: [],
                 count: 0,
                 symbol,
+                provenance: 'historical',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Load ticks from a stored recording
+     */
+    public async loadRecordedTicks(recordingId: string, count?: number): Promise<HistoricalLoadResult> {
+        // Loaded on demand so plain Deriv loads don't pull in the live tick feed
+        const { tickRecorder } = await import('./tick-recorder.service');
+        const recording = await tickRecorder.getRecording(recordingId);
+        const symbol = recording?.symbol || '';
+
+        try {
+            if (!recording) {
+                throw new Error(`Recording ${recordingId} not found`);
+            }
+
+            const ticks: HistoricalTickData[] = (await tickRecorder.getTicks(recordingId, count)).map(tick => ({
+                quote: tick.quote,
+                epoch: tick.epoch,
+                lastDigit: tick.lastDigit,
+                provenance: 'recorded' as const
+            }));
+
+            console.log(`✅ Loaded ${ticks.length} recorded ticks for ${symbol}`);
+
+            return {
+                success: ticks.length > 0,
+                ticks,
+                count: ticks.length,
+                symbol,
+                provenance: 'recorded',
+                error: ticks.length > 0 ? undefined : 'Recording has no ticks'
+            };
+        } catch (error) {
+            return {
+                success: false,
+                ticks: [],
+                count: 0,
+                symbol,
+                provenance: 'recorded',
                 error: error instanceof Error ? error.message : 'Unknown error'
             };
         }
@@ -94,9 +143,12 @@ export class HistoricalTickLoaderService {
      * Request ticks history from Deriv API
      */
     private async requestTicksHistory(symbol: string, count: number): Promise<any> {
+        // Loaded on demand like the tick recorder, so replays and imports don't need the Deriv API
+        const { api_base } = await import('../external/bot-skeleton/services/api/api-base');
+
         return new Promise((resolve, reject) => {
             // Use the bot-skeleton API to request historical data
-            const api = (window as any).api_base?.api;
+            const api = api_base.api;
             
             if (!api) {
                 reject(new Error('Deriv API not available'));
@@ -134,15 +186,6 @@ export class HistoricalTickLoaderService {
         });
     }
 
-    /**
-     * Extract last digit from quote using the same method as live data
-     */
-    private extractLastDigit(quote: number): number {
-        const quoteStr = quote.toFixed(5);
-        const digitsOnly = quoteStr.replace('.', '');
-        return parseInt(digitsOnly.slice(-1));
-    }
-
     /**
      * Wait for connection to be established
      */
@@ -167,6 +210,7 @@ export class HistoricalTickLoaderService {
         maxRetries: number = 3
     ): Promise<HistoricalLoadResult> {
         let lastError: string = '';
+        let provenance: TickProvenance = 'historical';
         
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
             console.log(`🔄 Historical data loading attempt ${attempt}/${maxRetries} for ${symbol}`);
@@ -178,6 +222,7 @@ export class HistoricalTickLoaderService {
                     return result;
                 }
                 
+                provenance = result.provenance;
                 lastError = result.error || 'No data received';
                 
             } catch (error) {
@@ -198,12 +243,14 @@ export class HistoricalTickLoaderService {
             ticks: [],
             count: 0,
             symbol,
+            provenance,
             error: `Failed after ${maxRetries} attempts. Last error: ${lastError}`
         };
     }
 
     /**
-     * Generate sample historical data for testing (fallback)
+     * Generate sample historical data for testing (fallback); the ticks are random, so the
+     * result is tagged synthetic and nothing derived from it can auto-trade
      */
     public generateSampleHistoricalData(symbol: string, count: number = 1000): HistoricalLoadResult {
         console.log(`🎲 Generating ${count} sample historical ticks for ${symbol} (fallback mode)`);
@@ -218,12 +265,13 @@ export class HistoricalTickLoaderService {
             const randomChange = (Math.random() - 0.5) * volatility;
             const quote = basePrice + randomChange + (Math.random() * 0.1);
             const epoch = Math.floor((now - (count - i) * 1000) / 1000); // 1 second intervals
-            const lastDigit = this.extractLastDigit(quote);
+            const lastDigit = getLastDigit(quote, 5);
             
             ticks.push({
                 quote: parseFloat(quote.toFixed(5)),
                 epoch,
-                lastDigit
+                lastDigit,
+                provenance: 'synthetic'
             });
         }
         
@@ -233,7 +281,8 @@ export class HistoricalTickLoaderService {
             success: true,
             ticks,
             count: ticks.length,
-            symbol
+            symbol,
+            provenance: 'synthetic'
         };
     }
 
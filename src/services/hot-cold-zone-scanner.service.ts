@@ -4,8 +4,26 @@
  * Superior to Fibonacci analysis for digit-based trading
  */
 
+import {
+    COLD_DIGIT_THRESHOLD,
+    DIGIT_EXPECTED_FREQUENCY,
+    HOT_DIGIT_THRESHOLD,
+    tallyDigits,
+} from '../utils/digit-distribution';
+import {
+    analyseDigitRandomness,
+    correctAcrossMarkets,
+    DEFAULT_SIGNIFICANCE_FILTER,
+    DigitRandomnessReport,
+    formatPValue,
+    getSignalSignificance,
+    SignalSignificance,
+    SignificanceFilter,
+} from '../utils/digit-statistics';
 import { ensembleStrategy } from '../utils/prediction-algorithms';
-import { derivAPIService } from './deriv-api.service';
+import { fromScannerSignal, signalOutcomeTracker } from './signal-outcome-tracker.service';
+import { tickFeed } from './tick-feed.service';
+import { combineProvenance, DataProvenance, TickProvenance } from './tick-source/tick-source';
 
 export interface DigitZoneAnalysis {
     digit: number;
@@ -39,13 +57,18 @@ export interface HotColdZoneSignal {
         meanReversionPotential: number;
         momentumStrength: number;
     };
+    statistics?: SignalSignificance; // Corrected across the digits and markets of the scan
+    provenance: DataProvenance; // Of the ticks the zones were measured on
 }
 
+type ZoneSignalDraft = Omit<HotColdZoneSignal, 'provenance'>;
+
 interface TickData {
     epoch: number;
     quote: number;
     lastDigit: number;
     source: 'historical' | 'live';
+    provenance: TickProvenance;
     localTime: string;
 }
 
@@ -72,8 +95,8 @@ class HotColdZoneScannerService {
         { symbol: 'STEPINDEX', name: 'Step Index' },
     ];
 
-    private readonly HOT_ZONE_THRESHOLD = 0.15; // 15% frequency = hot
-    private readonly COLD_ZONE_THRESHOLD = 0.05; // 5% frequency = cold
+    private readonly HOT_ZONE_THRESHOLD = HOT_DIGIT_THRESHOLD; // 15% frequency = hot
+    private readonly COLD_ZONE_THRESHOLD = COLD_DIGIT_THRESHOLD; // 5% frequency = cold
     private readonly ANALYSIS_WINDOW = 100; // Reduced from 200 for faster analysis
     private readonly MIN_CONFIDENCE_THRESHOLD = 45; // Reduced from 65% to 45% for more signals
     private readonly MEDIUM_CONFIDENCE_THRESHOLD = 65; // Medium quality signals
@@ -84,11 +107,26 @@ class HotColdZoneScannerService {
     private tickCache: Map<string, { data: TickData[]; timestamp: number }> = new Map();
     private readonly CACHE_DURATION = 3000; // Cache for 3 seconds
 
+    private significanceFilter: SignificanceFilter = { ...DEFAULT_SIGNIFICANCE_FILTER };
+    private scanStatistics: Map<string, DigitRandomnessReport> = new Map();
+
+    /**
+     * Optionally drop signals whose skew is not distinguishable from a fair RNG
+     */
+    public setSignificanceFilter(filter: Partial<SignificanceFilter>): void {
+        this.significanceFilter = { ...this.significanceFilter, ...filter };
+    }
+
+    public getSignificanceFilter(): SignificanceFilter {
+        return { ...this.significanceFilter };
+    }
+
     /**
      * Scan all markets for hot/cold zone opportunities (parallel processing)
      */
     public async scanForHotColdZones(): Promise<HotColdZoneSignal | null> {
         console.log('🔥❄️ Scanning markets for Hot/Cold Zone opportunities...');
+        this.scanStatistics.clear();
 
         // Analyze markets in parallel for faster results
         const signalPromises = this.MARKETS_TO_SCAN.map(async (market) => {
@@ -107,7 +145,9 @@ class HotColdZoneScannerService {
 
         // Wait for all analyses to complete
         const results = await Promise.all(signalPromises);
-        const signals = results.filter((r): r is { signal: HotColdZoneSignal; score: number } => r !== null);
+        const signals = this.applySignificance(
+            results.filter((r): r is { signal: HotColdZoneSignal; score: number } => r !== null)
+        );
 
         // Sort by intelligent score instead of simple confidence
         signals.sort((a, b) => b.score - a.score);
@@ -130,6 +170,7 @@ class HotColdZoneScannerService {
             console.log(
                 `🎯 Best Hot/Cold Zone signal found: ${bestSignal.marketName} - ${bestSignal.signalType} (${bestSignal.confidence.toFixed(1)}% confidence, Score: ${signals[0].score.toFixed(3)}) ${qualityIndicator}`
             );
+            signalOutcomeTracker.track(fromScannerSignal('HOT_COLD_ZONE', bestSignal));
         } else {
             console.log('❌ No suitable Hot/Cold Zone opportunities found (enhanced filtering applied)');
         }
@@ -173,6 +214,10 @@ class HotColdZoneScannerService {
             }
 
             const currentPrice = tickData[tickData.length - 1].quote;
+            this.scanStatistics.set(
+                symbol,
+                analyseDigitRandomness(tickData.map(tick => tick.lastDigit), this.significanceFilter.alpha)
+            );
 
             // Perform digit zone analysis
             const zoneAnalysis = this.analyzeDigitZones(tickData);
@@ -187,7 +232,7 @@ class HotColdZoneScannerService {
             const momentumStrength = this.calculateMomentumStrength(hotDigits);
 
             // Generate signal based on strongest opportunity
-            let signal: HotColdZoneSignal | null = null;
+            let signal: ZoneSignalDraft | null = null;
 
             // Priority 1: Strong cold zone reversion (highest probability)
             if (coldDigits.length > 0 && meanReversionPotential > 0.7) {
@@ -227,13 +272,40 @@ class HotColdZoneScannerService {
                 );
             }
 
-            return signal;
+            return signal && { ...signal, provenance: combineProvenance(tickData.map(tick => tick.provenance)) };
         } catch (error) {
             console.error(`Error analyzing ${name}:`, error);
             return null;
         }
     }
 
+    /**
+     * Attach corrected p-values to the scan's signals and drop insignificant ones when filtering
+     */
+    private applySignificance(
+        signals: Array<{ signal: HotColdZoneSignal; score: number }>
+    ): Array<{ signal: HotColdZoneSignal; score: number }> {
+        const symbols = [...this.scanStatistics.keys()];
+        const corrected = correctAcrossMarkets([...this.scanStatistics.values()]);
+        const comparisons = corrected.length * 10;
+
+        return signals.filter(({ signal }) => {
+            const report = corrected[symbols.indexOf(signal.market)];
+            if (!report) return !this.significanceFilter.enabled;
+
+            signal.statistics = getSignalSignificance(report, signal.targetDigit, comparisons);
+            signal.recommendation.reasoning += ` Distribution test: ${formatPValue(signal.statistics.pValue)} (corrected over ${comparisons} tests).`;
+
+            if (this.significanceFilter.enabled && !signal.statistics.significant) {
+                console.log(
+                    `⚠️ Hot/Cold signal for ${signal.marketName} suppressed - not significant (${formatPValue(signal.statistics.pValue)})`
+                );
+                return false;
+            }
+            return true;
+        });
+    }
+
     /**
      * Get tick history and extract last digits (with caching)
      */
@@ -248,98 +320,45 @@ class HotColdZoneScannerService {
         }
         
         try {
-            const response = await derivAPIService.getTicksHistory({
-                symbol: symbol,
-                count: count,
-                end: 'latest',
-                style: 'ticks',
-            });
+            // Served from the shared feed's buffer when the symbol is already streaming
+            const feedTicks = await tickFeed.getHistory(symbol, count);
 
-            if (response.history && response.history.prices && response.history.times) {
-                const ticks = response.history.prices.map((price: number, index: number) => ({
-                    epoch: response.history!.times[index],
-                    quote: price,
-                    lastDigit: this.extractLastDigit(price),
-                    source: 'historical' as const,
-                    localTime: new Date(response.history!.times[index] * 1000).toLocaleTimeString(),
-                }));
-                
-                // Cache the result
-                this.tickCache.set(symbol, { data: ticks, timestamp: now });
-                
-                return ticks;
-            } else {
+            if (feedTicks.length === 0) {
                 throw new Error('No history data received');
             }
+
+            const ticks = feedTicks.map(tick => ({
+                epoch: tick.epoch,
+                quote: tick.quote,
+                lastDigit: tick.lastDigit,
+                source: 'historical' as const,
+                provenance: tick.provenance,
+                localTime: new Date(tick.epoch * 1000).toLocaleTimeString(),
+            }));
+            
+            // Cache the result
+            this.tickCache.set(symbol, { data: ticks, timestamp: now });
+            
+            return ticks;
         } catch (error) {
             console.error(`Failed to get tick history for ${symbol}:`, error);
             throw error;
         }
     }
 
-    /**
-     * Extract last digit from price
-     */
-    private extractLastDigit(price: number): number {
-        const priceStr = Math.abs(price).toString();
-        const lastChar = priceStr.charAt(priceStr.length - 1);
-        return parseInt(lastChar, 10);
-    }
-
     /**
      * Analyze digit zones (hot/cold/neutral)
      */
     private analyzeDigitZones(ticks: TickData[]): DigitZoneAnalysis[] {
-        const digitCounts: Record<number, number> = {};
-        const digitLastSeen: Record<number, number> = {};
-        const digitStreaks: Record<number, number> = {};
-
-        // Initialize counters
-        for (let i = 0; i < 10; i++) {
-            digitCounts[i] = 0;
-            digitLastSeen[i] = -1;
-            digitStreaks[i] = 0;
-        }
-
-        // Count occurrences and track streaks
-        let currentStreak = 0;
-        let lastDigit = -1;
-
-        ticks.forEach((tick, index) => {
-            const digit = tick.lastDigit;
-            digitCounts[digit]++;
-
-            // Track last seen
-            if (digitLastSeen[digit] === -1) {
-                digitLastSeen[digit] = ticks.length - 1 - index;
-            }
-
-            // Track streaks
-            if (digit === lastDigit) {
-                currentStreak++;
-            } else {
-                if (lastDigit !== -1) {
-                    digitStreaks[lastDigit] = Math.max(digitStreaks[lastDigit], currentStreak);
-                }
-                currentStreak = 1;
-                lastDigit = digit;
-            }
-        });
-
-        // Finalize last streak
-        if (lastDigit !== -1) {
-            digitStreaks[lastDigit] = Math.max(digitStreaks[lastDigit], currentStreak);
-        }
+        const tallies = tallyDigits(ticks.map(tick => tick.lastDigit));
 
         // Create zone analysis
         const analysis: DigitZoneAnalysis[] = [];
-        const totalTicks = ticks.length;
-        const expectedFrequency = 0.1; // 10% expected for each digit
 
         for (let digit = 0; digit < 10; digit++) {
-            const frequency = digitCounts[digit] / totalTicks;
+            const { frequency, lastSeen, longestStreak } = tallies[digit];
             const percentage = frequency * 100;
-            const deviation = Math.abs(frequency - expectedFrequency);
+            const deviation = Math.abs(frequency - DIGIT_EXPECTED_FREQUENCY);
 
             let zone: 'HOT' | 'COLD' | 'NEUTRAL';
             let confidence: number;
@@ -362,8 +381,8 @@ class HotColdZoneScannerService {
                 zone,
                 deviation,
                 confidence,
-                lastSeen: digitLastSeen[digit],
-                streak: digitStreaks[digit],
+                lastSeen,
+                streak: longestStreak,
             });
         }
 
@@ -414,7 +433,7 @@ class HotColdZoneScannerService {
         currentPrice: number,
         coldDigit: DigitZoneAnalysis,
         analysis: HotColdZoneSignal['analysis']
-    ): HotColdZoneSignal {
+    ): ZoneSignalDraft {
         const targetDigit = coldDigit.digit;
 
         // Enhanced confidence calculation with minimum threshold enforcement
@@ -481,7 +500,7 @@ class HotColdZoneScannerService {
         currentPrice: number,
         hotDigit: DigitZoneAnalysis,
         analysis: HotColdZoneSignal['analysis']
-    ): HotColdZoneSignal {
+    ): ZoneSignalDraft {
         const targetDigit = hotDigit.digit;
 
         // Enhanced confidence calculation with minimum threshold enforcement
@@ -547,7 +566,7 @@ class HotColdZoneScannerService {
         currentPrice: number,
         zoneAnalysis: DigitZoneAnalysis[],
         analysis: HotColdZoneSignal['analysis']
-    ): HotColdZoneSignal {
+    ): ZoneSignalDraft {
         // Find the most deviated digit
         const mostDeviated = zoneAnalysis[0];
 
@@ -1,4 +1,10 @@
 import { derivAPIService } from './deriv-api.service';
+import {
+    DigitContractExecutor,
+    DigitContractResult,
+    ExecutionMode,
+    ExecutionStats,
+} from './digit-contract-executor.service';
 
 export interface InstantFillConfig {
     market: string;
@@ -9,69 +15,42 @@ export interface InstantFillConfig {
     both: boolean;
 }
 
-export interface TradeStats {
-    totalPL: number;
-    totalRuns: number;
-    won: number;
-    lost: number;
-}
+export type TradeStats = ExecutionStats;
 
 class InstantFillService {
     private isRunning = false;
-    private stats: TradeStats = {
-        totalPL: 0,
-        totalRuns: 0,
-        won: 0,
-        lost: 0,
-    };
+    private executor = new DigitContractExecutor('Instant Fill');
     private tickSubscription: any = null;
     private analysisData: string[] = [];
 
-    async executeTrade(config: InstantFillConfig): Promise<void> {
-        try {
-            // Simulate trade execution
-            console.log('Executing trade:', config);
-            
-            // Simulate delay
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            // Simulate random win/loss
-            const won = Math.random() > 0.5;
-            const profit = won ? config.stake * 0.95 : -config.stake;
-            
-            this.stats.totalRuns++;
-            if (won) {
-                this.stats.won++;
-            } else {
-                this.stats.lost++;
-            }
-            this.stats.totalPL += profit;
-            
-            console.log('Trade completed:', { won, profit, stats: this.stats });
-        } catch (error) {
-            console.error('Trade execution failed:', error);
-            throw error;
-        }
+    async executeTrade(config: InstantFillConfig): Promise<DigitContractResult> {
+        return this.executor.execute({
+            symbol: config.market,
+            contractType: config.strategy === 'Even' ? 'DIGITEVEN' : 'DIGITODD',
+            stake: config.stake,
+            duration: config.duration,
+        });
     }
 
-    async executeBulkTrades(config: InstantFillConfig, count: number): Promise<void> {
+    async executeBulkTrades(config: InstantFillConfig, count: number): Promise<DigitContractResult[]> {
+        const results: DigitContractResult[] = [];
         this.isRunning = true;
         
         for (let i = 0; i < count && this.isRunning; i++) {
-            try {
-                await this.executeTrade(config);
-                // Small delay between trades
-                await new Promise(resolve => setTimeout(resolve, 1000));
-            } catch (error) {
-                console.error(`Bulk trade ${i + 1} failed:`, error);
+            const result = await this.executeTrade(config);
+            results.push(result);
+            if (!result.success) {
+                console.error(`Bulk trade ${i + 1} failed, stopping:`, result.error);
+                break;
             }
+            // Small delay between trades
+            await new Promise(resolve => setTimeout(resolve, 1000));
         }
         
         this.isRunning = false;
+        return results;
     }
 
-
-
     async subscribeToTicks(symbol: string, callback: (tick: any) => void): Promise<void> {
         try {
             await derivAPIService.subscribeToTicks(symbol, (response: any) => {
@@ -99,7 +78,15 @@ class InstantFillService {
     }
 
     getStats(): TradeStats {
-        return { ...this.stats };
+        return this.executor.getStats();
+    }
+
+    getExecutionMode(): ExecutionMode {
+        return this.executor.getMode();
+    }
+
+    setExecutionMode(mode: ExecutionMode): void {
+        this.executor.setMode(mode);
     }
 
     getAnalysisData(): string[] {
@@ -107,12 +94,7 @@ class InstantFillService {
     }
 
     resetStats(): void {
-        this.stats = {
-            totalPL: 0,
-            totalRuns: 0,
-            won: 0,
-            lost: 0,
-        };
+        this.executor.resetStats();
     }
 
     stop(): void {
@@ -1,4 +1,11 @@
 import { derivAPIService } from './deriv-api.service';
+import {
+    DigitContractExecutor,
+    DigitContractResult,
+    DigitContractType,
+    ExecutionMode,
+    ExecutionStats,
+} from './digit-contract-executor.service';
 
 export interface InstantMatchesConfig {
     market: string;
@@ -9,61 +16,53 @@ export interface InstantMatchesConfig {
     selectedDigits: number[];
 }
 
+const CONTRACT_TYPES: Record<InstantMatchesConfig['strategy'], DigitContractType> = {
+    Matches: 'DIGITMATCH',
+    Differs: 'DIGITDIFF',
+    Over: 'DIGITOVER',
+    Under: 'DIGITUNDER',
+};
+
 class InstantMatchesService {
     private isRunning = false;
-    private stats = {
-        totalPL: 0,
-        totalRuns: 0,
-        won: 0,
-        lost: 0,
-    };
+    private executor = new DigitContractExecutor('Instant Matches');
     private digitCounts: number[] = Array(10).fill(0);
     private totalTicks = 0;
     private analysisData: number[] = [];
 
-    async executeTrade(config: InstantMatchesConfig, prediction?: number): Promise<void> {
-        try {
-            console.log('Executing trade:', { config, prediction });
-            
-            // Simulate delay
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            // Simulate random win/loss
-            const won = Math.random() > 0.5;
-            const profit = won ? config.stake * 0.95 : -config.stake;
-            
-            this.stats.totalRuns++;
-            if (won) {
-                this.stats.won++;
-            } else {
-                this.stats.lost++;
-            }
-            this.stats.totalPL += profit;
-            
-            console.log('Trade completed:', { won, profit, stats: this.stats });
-        } catch (error) {
-            console.error('Trade execution failed:', error);
-            throw error;
-        }
+    /**
+     * Trade the prediction digit, or the first selected digit, in the active execution mode
+     */
+    async executeTrade(config: InstantMatchesConfig, prediction?: number): Promise<DigitContractResult> {
+        return this.executor.execute({
+            symbol: config.market,
+            contractType: CONTRACT_TYPES[config.strategy],
+            stake: config.stake,
+            duration: config.duration,
+            barrier: prediction ?? config.selectedDigits[0],
+        });
     }
 
     async executeBulkTrades(
         config: InstantMatchesConfig,
         count: number,
         prediction?: number
-    ): Promise<void> {
+    ): Promise<DigitContractResult[]> {
+        const results: DigitContractResult[] = [];
         this.isRunning = true;
         
         for (let i = 0; i < count && this.isRunning; i++) {
-            try {
-                await this.executeTrade(config, prediction);
-                await new Promise(resolve => setTimeout(resolve, 1000));
-            } catch (error) {
-                console.error(`Bulk trade ${i + 1} failed:`, error);
+            const result = await this.executeTrade(config, prediction);
+            results.push(result);
+            if (!result.success) {
+                console.error(`Bulk trade ${i + 1} failed, stopping:`, result.error);
+                break;
             }
+            await new Promise(resolve => setTimeout(resolve, 1000));
         }
         
         this.isRunning = false;
+        return results;
     }
 
     async subscribeToTicks(symbol: string, callback: (data: any) => void): Promise<void> {
@@ -108,17 +107,20 @@ class InstantMatchesService {
         return [...this.analysisData];
     }
 
-    getStats() {
-        return { ...this.stats };
+    getStats(): ExecutionStats {
+        return this.executor.getStats();
+    }
+
+    getExecutionMode(): ExecutionMode {
+        return this.executor.getMode();
+    }
+
+    setExecutionMode(mode: ExecutionMode): void {
+        this.executor.setMode(mode);
     }
 
     resetStats(): void {
-        this.stats = {
-            totalPL: 0,
-            totalRuns: 0,
-            won: 0,
-            lost: 0,
-        };
+        this.executor.resetStats();
         this.digitCounts = Array(10).fill(0);
         this.totalTicks = 0;
         this.analysisData = [];
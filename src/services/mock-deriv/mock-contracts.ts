@@ -0,0 +1,176 @@
+/**
+ * Mock Contracts
+ * Pricing and settlement rules for the tick contracts the mock Deriv server accepts
+ */
+
+import { getDigitWinProbability } from '../../utils/profit-calculator';
+
+export type MockContractType =
+    | 'CALL'
+    | 'PUT'
+    | 'DIGITMATCH'
+    | 'DIGITDIFF'
+    | 'DIGITOVER'
+    | 'DIGITUNDER'
+    | 'DIGITEVEN'
+    | 'DIGITODD';
+
+export interface MockContractParameters {
+    contract_type: MockContractType;
+    symbol: string;
+    amount: number;
+    basis: 'stake' | 'payout';
+    duration: number;
+    duration_unit: 't';
+    currency: string;
+    barrier?: string | number;
+}
+
+export interface MockTick {
+    epoch: number;
+    quote: number;
+    pipSize: number;
+    lastDigit: number;
+}
+
+export interface MockContractPrice {
+    askPrice: number;
+    payout: number;
+}
+
+export const MOCK_CONTRACT_TYPES: MockContractType[] = [
+    'CALL',
+    'PUT',
+    'DIGITMATCH',
+    'DIGITDIFF',
+    'DIGITOVER',
+    'DIGITUNDER',
+    'DIGITEVEN',
+    'DIGITODD',
+];
+
+const MAX_TICK_DURATION = 10;
+
+const DIGIT_BARRIER_RANGES: Partial<Record<MockContractType, [number, number]>> = {
+    DIGITMATCH: [0, 9],
+    DIGITDIFF: [0, 9],
+    DIGITOVER: [0, 8],
+    DIGITUNDER: [1, 9],
+};
+
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export const isDigitContract = (type: MockContractType): boolean => type.startsWith('DIGIT');
+
+/**
+ * Check a buy/proposal request; returns the error message or null when it can be priced
+ */
+export const validateContractParameters = (params: Partial<MockContractParameters>): string | null => {
+    const type = params.contract_type as MockContractType;
+    if (!MOCK_CONTRACT_TYPES.includes(type)) {
+        return `Contract type ${params.contract_type ?? '(none)'} is not offered by the mock server.`;
+    }
+    if (!(Number(params.amount) > 0)) return 'Please enter a stake amount greater than zero.';
+    if (params.duration_unit !== 't') return 'Only tick durations are supported.';
+
+    const duration = Number(params.duration);
+    if (!Number.isInteger(duration) || duration < 1 || duration > MAX_TICK_DURATION) {
+        return `Duration must be between 1 and ${MAX_TICK_DURATION} ticks.`;
+    }
+
+    const range = DIGIT_BARRIER_RANGES[type];
+    if (range) {
+        const barrier = Number(params.barrier);
+        if (!Number.isInteger(barrier) || barrier < range[0] || barrier > range[1]) {
+            return `Barrier must be a digit between ${range[0]} and ${range[1]}.`;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Chance of winning with a uniformly distributed last digit (or a fair up/down move)
+ */
+export const getWinProbability = (type: MockContractType, barrier?: string | number): number =>
+    isDigitContract(type) ? getDigitWinProbability(type, Number(barrier)) : 0.5;
+
+/**
+ * Price a contract from its win probability, keeping `commission` of the fair payout
+ */
+export const priceContract = (params: MockContractParameters, commission: number): MockContractPrice => {
+    const probability = getWinProbability(params.contract_type, params.barrier);
+    const payoutPerStake = (1 - commission) / probability;
+
+    if (params.basis === 'payout') {
+        return { askPrice: roundMoney(params.amount / payoutPerStake), payout: roundMoney(params.amount) };
+    }
+    return { askPrice: roundMoney(params.amount), payout: roundMoney(params.amount * payoutPerStake) };
+};
+
+/**
+ * Ticks needed after purchase before the contract settles. The first tick after purchase
+ * is the entry tick; digit contracts count it as their first tick, CALL/PUT start after it.
+ */
+export const getRequiredTicks = (params: MockContractParameters): number =>
+    isDigitContract(params.contract_type) ? params.duration : params.duration + 1;
+
+export const isWinningOutcome = (params: MockContractParameters, entry: MockTick, exit: MockTick): boolean => {
+    const digit = exit.lastDigit;
+    const barrier = Number(params.barrier);
+
+    switch (params.contract_type) {
+        case 'CALL':
+            return exit.quote > entry.quote;
+        case 'PUT':
+            return exit.quote < entry.quote;
+        case 'DIGITMATCH':
+            return digit === barrier;
+        case 'DIGITDIFF':
+            return digit !== barrier;
+        case 'DIGITOVER':
+            return digit > barrier;
+        case 'DIGITUNDER':
+            return digit < barrier;
+        case 'DIGITEVEN':
+            return digit % 2 === 0;
+        case 'DIGITODD':
+            return digit % 2 === 1;
+        default:
+            return false;
+    }
+};
+
+export const getLongcode = (params: MockContractParameters, payout: number): string => {
+    const ticks = `${params.duration} tick${params.duration === 1 ? '' : 's'}`;
+    const prefix = `Win payout ${payout.toFixed(2)} ${params.currency} if`;
+
+    switch (params.contract_type) {
+        case 'CALL':
+            return `${prefix} ${params.symbol} after ${ticks} is strictly higher than entry spot.`;
+        case 'PUT':
+            return `${prefix} ${params.symbol} after ${ticks} is strictly lower than entry spot.`;
+        case 'DIGITMATCH':
+            return `${prefix} the last digit of ${params.symbol} after ${ticks} is ${params.barrier}.`;
+        case 'DIGITDIFF':
+            return `${prefix} the last digit of ${params.symbol} after ${ticks} is not ${params.barrier}.`;
+        case 'DIGITOVER':
+            return `${prefix} the last digit of ${params.symbol} after ${ticks} is strictly higher than ${params.barrier}.`;
+        case 'DIGITUNDER':
+            return `${prefix} the last digit of ${params.symbol} after ${ticks} is strictly lower than ${params.barrier}.`;
+        case 'DIGITEVEN':
+            return `${prefix} the last digit of ${params.symbol} after ${ticks} is even.`;
+        default:
+            return `${prefix} the last digit of ${params.symbol} after ${ticks} is odd.`;
+    }
+};
+
+export const getShortcode = (params: MockContractParameters, payout: number, purchaseTime: number): string =>
+    [
+        params.contract_type,
+        params.symbol,
+        payout.toFixed(2),
+        purchaseTime,
+        `${params.duration}t`,
+        params.barrier !== undefined ? params.barrier : 'S0P',
+    ].join('_');
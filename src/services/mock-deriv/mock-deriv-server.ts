@@ -0,0 +1,1025 @@
+/**
+ * Mock Deriv Server
+ * Scriptable in-process stand-in for the Deriv WebSocket API. Ticks come from a seeded
+ * random walk and only move when the server is advanced, so whole sessions - including
+ * contract settlement - are repeatable. `scripts/mock-deriv-server.ts` serves it over ws://
+ */
+
+import { createSeededRandom } from '../../utils/seeded-random';
+import { hashSymbol } from '../tick-source/synthetic-tick-source';
+import { getLastDigit } from '../tick-source/tick-source';
+import {
+    getLongcode,
+    getRequiredTicks,
+    getShortcode,
+    isDigitContract,
+    isWinningOutcome,
+    MockContractParameters,
+    MockContractType,
+    MockTick,
+    priceContract,
+    roundMoney,
+    validateContractParameters,
+} from './mock-contracts';
+
+export interface MockAccount {
+    loginid: string;
+    token: string;
+    currency: string;
+    balance: number;
+    is_virtual?: boolean;
+}
+
+export interface MockSymbol {
+    symbol: string;
+    display_name?: string;
+    pipSize?: number;
+    startQuote?: number;
+    volatility?: number; // relative standard deviation per tick
+    digits?: number[]; // scripted last digits for the next ticks
+    quotes?: number[]; // scripted quotes for the next ticks, used before digits
+}
+
+export interface MockDerivScenario {
+    seed?: number;
+    startEpoch?: number;
+    historySize?: number;
+    commission?: number;
+    accounts?: MockAccount[];
+    symbols?: MockSymbol[];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type MockDerivRequest = Record<string, any>;
+
+export interface MockDerivError {
+    code: string;
+    message: string;
+}
+
+export interface MockDerivResponse {
+    msg_type: string;
+    echo_req: MockDerivRequest;
+    req_id?: number;
+    passthrough?: unknown;
+    subscription?: { id: string };
+    error?: MockDerivError;
+    [key: string]: unknown;
+}
+
+export type MockDerivSend = (response: MockDerivResponse) => void;
+
+type SubscriptionType = 'ticks' | 'proposal' | 'proposal_open_contract' | 'balance' | 'transaction';
+
+interface Subscription {
+    id: string;
+    type: SubscriptionType;
+    request: MockDerivRequest;
+    symbol?: string;
+    contractId?: number;
+    proposalId?: string;
+}
+
+interface SymbolState {
+    config: Required<Omit<MockSymbol, 'digits' | 'quotes'>>;
+    random: () => number;
+    ticks: MockTick[];
+    digits: number[];
+    quotes: number[];
+}
+
+interface MockContract {
+    id: number;
+    loginid: string;
+    params: MockContractParameters;
+    buyPrice: number;
+    payout: number;
+    purchaseTime: number;
+    buyTransactionId: number;
+    ticks: MockTick[];
+    status: 'open' | 'won' | 'lost' | 'sold';
+    sellPrice?: number;
+    sellTime?: number;
+    sellTransactionId?: number;
+}
+
+interface Proposal {
+    params: MockContractParameters;
+    askPrice: number;
+    payout: number;
+}
+
+export const DEFAULT_MOCK_ACCOUNTS: MockAccount[] = [
+    { loginid: 'VRTC1000001', token: 'mock-demo-token', currency: 'USD', balance: 10000, is_virtual: true },
+    { loginid: 'CR1000001', token: 'mock-real-token', currency: 'USD', balance: 1000, is_virtual: false },
+];
+
+export const DEFAULT_MOCK_SYMBOLS: MockSymbol[] = [
+    { symbol: 'R_10', display_name: 'Volatility 10 Index', pipSize: 3, startQuote: 6000 },
+    { symbol: 'R_25', display_name: 'Volatility 25 Index', pipSize: 3, startQuote: 2500 },
+    { symbol: 'R_50', display_name: 'Volatility 50 Index', pipSize: 4, startQuote: 250 },
+    { symbol: 'R_75', display_name: 'Volatility 75 Index', pipSize: 4, startQuote: 90000 },
+    { symbol: 'R_100', display_name: 'Volatility 100 Index', pipSize: 2, startQuote: 1200 },
+];
+
+const MAX_HISTORY = 5000;
+
+// Requests whose responses use a different msg_type than the request name
+const RESPONSE_MSG_TYPES: Record<string, string> = { ticks: 'tick', ticks_history: 'history' };
+
+export class MockDerivRequestError extends Error {
+    constructor(
+        public readonly code: string,
+        message: string
+    ) {
+        super(message);
+        this.name = 'MockDerivRequestError';
+    }
+}
+
+/**
+ * One client connection: holds the login, live subscriptions and priced proposals
+ */
+export class MockDerivSession {
+    public loginid: string | null = null;
+    public readonly subscriptions = new Map<string, Subscription>();
+    public readonly proposals = new Map<string, Proposal>();
+
+    constructor(
+        public readonly send: MockDerivSend,
+        private readonly onRequest: (session: MockDerivSession, request: MockDerivRequest | string) => void,
+        private readonly onClose: (session: MockDerivSession) => void
+    ) {}
+
+    /**
+     * Handle a raw client message (JSON string or already parsed request)
+     */
+    public receive(request: MockDerivRequest | string): void {
+        this.onRequest(this, request);
+    }
+
+    public close(): void {
+        this.subscriptions.clear();
+        this.onClose(this);
+    }
+}
+
+export class MockDerivServer {
+    private readonly commission: number;
+    private readonly accounts = new Map<string, MockAccount>();
+    private readonly symbols = new Map<string, SymbolState>();
+    private readonly contracts = new Map<number, MockContract>();
+    private readonly sessions = new Set<MockDerivSession>();
+    private readonly failures = new Map<string, MockDerivError>();
+    private epoch: number;
+    private nextSubscriptionId = 1;
+    private nextProposalId = 1;
+    private nextContractId = 100001;
+    private nextTransactionId = 200001;
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    private readonly handlers: Record<string, (session: MockDerivSession, request: MockDerivRequest) => void> = {
+        authorize: (session, request) => this.handleAuthorize(session, request),
+        balance: (session, request) => this.handleBalance(session, request),
+        ticks: (session, request) => this.handleTicks(session, request),
+        ticks_history: (session, request) => this.handleTicksHistory(session, request),
+        proposal: (session, request) => this.handleProposal(session, request),
+        buy: (session, request) => this.handleBuy(session, request),
+        proposal_open_contract: (session, request) => this.handleOpenContract(session, request),
+        sell: (session, request) => this.handleSell(session, request),
+        transaction: (session, request) => this.handleTransaction(session, request),
+        forget: (session, request) => this.handleForget(session, request),
+        forget_all: (session, request) => this.handleForgetAll(session, request),
+        active_symbols: (session, request) => this.handleActiveSymbols(session, request),
+        ping: (session, request) => this.reply(session, request, 'ping', { ping: 'pong' }),
+        time: (session, request) => this.reply(session, request, 'time', { time: this.epoch }),
+        mock_advance: (session, request) => this.handleMockAdvance(session, request),
+        mock_script: (session, request) => this.handleMockScript(session, request),
+    };
+
+    constructor(scenario: MockDerivScenario = {}) {
+        const seed = scenario.seed ?? 1;
+        const historySize = Math.min(scenario.historySize ?? 1000, MAX_HISTORY);
+
+        this.commission = scenario.commission ?? 0.05;
+        this.epoch = scenario.startEpoch ?? 1_700_000_000;
+
+        (scenario.accounts ?? DEFAULT_MOCK_ACCOUNTS).forEach(account => {
+            this.accounts.set(account.loginid, { ...account });
+        });
+
+        (scenario.symbols ?? DEFAULT_MOCK_SYMBOLS).forEach(symbol => {
+            const state: SymbolState = {
+                config: {
+                    symbol: symbol.symbol,
+                    display_name: symbol.display_name ?? symbol.symbol,
+                    pipSize: symbol.pipSize ?? 2,
+                    startQuote: symbol.startQuote ?? 1000,
+                    volatility: symbol.volatility ?? 0.0005,
+                },
+                random: createSeededRandom(seed ^ hashSymbol(symbol.symbol)),
+                ticks: [],
+                digits: [...(symbol.digits ?? [])],
+                quotes: [...(symbol.quotes ?? [])],
+            };
+
+            // Warm-up history ending at the start epoch; scripted ticks only apply to live ticks
+            for (let i = historySize - 1; i >= 0; i--) {
+                state.ticks.push(this.walk(state, this.epoch - i));
+            }
+            this.symbols.set(symbol.symbol, state);
+        });
+    }
+
+    /**
+     * Open a client connection; every response and stream message goes through `send`
+     */
+    public connect(send: MockDerivSend): MockDerivSession {
+        const session = new MockDerivSession(
+            send,
+            (client, request) => this.handleRequest(client, request),
+            client => this.sessions.delete(client)
+        );
+        this.sessions.add(session);
+        return session;
+    }
+
+    /**
+     * Move the clock forward one second per step: every symbol ticks, streams are pushed
+     * and contracts that reached their last tick are settled
+     */
+    public advance(steps = 1): void {
+        for (let step = 0; step < steps; step++) {
+            this.epoch += 1;
+            this.symbols.forEach((state, symbol) => {
+                const tick = this.nextTick(state);
+                this.publishTick(symbol, tick);
+                this.updateContracts(symbol, tick);
+            });
+        }
+    }
+
+    /**
+     * Advance automatically, one step per interval, until stopped
+     */
+    public start(intervalMs = 1000): void {
+        this.stop();
+        this.timer = setInterval(() => this.advance(), intervalMs);
+    }
+
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Queue last digits for the next ticks of a symbol
+     */
+    public scriptDigits(symbol: string, digits: number[]): void {
+        this.getSymbol(symbol).digits.push(...digits);
+    }
+
+    /**
+     * Queue exact quotes for the next ticks of a symbol
+     */
+    public scriptQuotes(symbol: string, quotes: number[]): void {
+        this.getSymbol(symbol).quotes.push(...quotes);
+    }
+
+    /**
+     * Make the next request of a type fail with the given error
+     */
+    public failNext(msgType: string, error: MockDerivError): void {
+        this.failures.set(msgType, error);
+    }
+
+    public getEpoch(): number {
+        return this.epoch;
+    }
+
+    public getAccount(loginid: string): MockAccount | undefined {
+        const account = this.accounts.get(loginid);
+        return account ? { ...account } : undefined;
+    }
+
+    /**
+     * Contract as `proposal_open_contract` would report it
+     */
+    public getContract(contractId: number): Record<string, unknown> | undefined {
+        const contract = this.contracts.get(contractId);
+        return contract ? this.toOpenContract(contract) : undefined;
+    }
+
+    public getStats() {
+        return {
+            epoch: this.epoch,
+            sessions: this.sessions.size,
+            contracts: this.contracts.size,
+            openContracts: [...this.contracts.values()].filter(contract => contract.status === 'open').length,
+            subscriptions: [...this.sessions].reduce((total, session) => total + session.subscriptions.size, 0),
+        };
+    }
+
+    // Request handlers
+
+    private handleAuthorize(session: MockDerivSession, request: MockDerivRequest): void {
+        const account = [...this.accounts.values()].find(candidate => candidate.token === request.authorize);
+        if (!account) throw new MockDerivRequestError('InvalidToken', 'The token is invalid.');
+
+        session.loginid = account.loginid;
+        this.reply(session, request, 'authorize', {
+            authorize: {
+                loginid: account.loginid,
+                currency: account.currency,
+                balance: account.balance,
+                is_virtual: account.is_virtual ? 1 : 0,
+                email: 'mock.trader@example.com',
+                fullname: 'Mock Trader',
+                landing_company_name: account.is_virtual ? 'virtual' : 'svg',
+                scopes: ['read', 'trade', 'payments', 'admin'],
+                user_id: 1,
+                account_list: [...this.accounts.values()].map(item => ({
+                    loginid: item.loginid,
+                    currency: item.currency,
+                    is_virtual: item.is_virtual ? 1 : 0,
+                    is_disabled: 0,
+                    account_category: 'trading',
+                })),
+            },
+        });
+    }
+
+    private handleBalance(session: MockDerivSession, request: MockDerivRequest): void {
+        const account = this.requireAccount(session);
+        const subscriptionId = request.subscribe ? this.subscribe(session, 'balance', request).id : undefined;
+        this.reply(session, request, 'balance', { balance: this.toBalance(account, request) }, subscriptionId);
+    }
+
+    private handleTicks(session: MockDerivSession, request: MockDerivRequest): void {
+        const state = this.getSymbol(request.ticks);
+        const subscription = request.subscribe
+            ? this.subscribe(session, 'ticks', request, { symbol: request.ticks })
+            : undefined;
+        const latest = state.ticks[state.ticks.length - 1];
+
+        this.reply(
+            session,
+            request,
+            'tick',
+            { tick: this.toTick(request.ticks, latest, subscription?.id) },
+            subscription?.id
+        );
+    }
+
+    private handleTicksHistory(session: MockDerivSession, request: MockDerivRequest): void {
+        const state = this.getSymbol(request.ticks_history);
+        if (request.style && request.style !== 'ticks') {
+            throw new MockDerivRequestError('InvalidStyle', 'Only tick history is available from the mock server.');
+        }
+
+        const end = request.end && request.end !== 'latest' ? Number(request.end) : this.epoch;
+        const start = request.start ? Number(request.start) : 0;
+        const count = Math.min(Number(request.count) || MAX_HISTORY, MAX_HISTORY);
+        const ticks = state.ticks.filter(tick => tick.epoch >= start && tick.epoch <= end).slice(-count);
+        const subscriptionId = request.subscribe
+            ? this.subscribe(session, 'ticks', request, { symbol: request.ticks_history }).id
+            : undefined;
+
+        this.reply(
+            session,
+            request,
+            'history',
+            {
+                history: { prices: ticks.map(tick => tick.quote), times: ticks.map(tick => tick.epoch) },
+                pip_size: state.config.pipSize,
+            },
+            subscriptionId
+        );
+    }
+
+    private handleProposal(session: MockDerivSession, request: MockDerivRequest): void {
+        const params = this.toContractParameters(session, request, 'ContractCreationFailure');
+        const price = priceContract(params, this.commission);
+        const id = `mock-proposal-${this.nextProposalId++}`;
+        session.proposals.set(id, { params, ...price });
+
+        const subscriptionId = request.subscribe
+            ? this.subscribe(session, 'proposal', request, { symbol: params.symbol, proposalId: id }).id
+            : undefined;
+        this.reply(session, request, 'proposal', { proposal: this.toProposal(id, params) }, subscriptionId);
+    }
+
+    private handleBuy(session: MockDerivSession, request: MockDerivRequest): void {
+        const account = this.requireAccount(session);
+        let params: MockContractParameters;
+        let askPrice: number;
+        let payout: number;
+
+        if (request.parameters) {
+            params = this.toContractParameters(session, request.parameters, 'ContractBuyValidationError');
+            ({ askPrice, payout } = priceContract(params, this.commission));
+        } else {
+            const proposal = session.proposals.get(String(request.buy));
+            if (!proposal) {
+                throw new MockDerivRequestError('InvalidContractProposal', 'Unknown contract proposal.');
+            }
+            ({ params, askPrice, payout } = proposal);
+        }
+
+        if (request.price !== undefined && Number(request.price) < askPrice) {
+            throw new MockDerivRequestError(
+                'PriceMoved',
+                `The contract price has moved to ${askPrice.toFixed(2)}, above your limit of ${request.price}.`
+            );
+        }
+        if (account.balance < askPrice) {
+            throw new MockDerivRequestError(
+                'InsufficientBalance',
+                'Your account balance is insufficient to buy this contract.'
+            );
+        }
+
+        account.balance = roundMoney(account.balance - askPrice);
+        const contract: MockContract = {
+            id: this.nextContractId++,
+            loginid: account.loginid,
+            params,
+            buyPrice: askPrice,
+            payout,
+            purchaseTime: this.epoch,
+            buyTransactionId: this.nextTransactionId++,
+            ticks: [],
+            status: 'open',
+        };
+        this.contracts.set(contract.id, contract);
+
+        const subscriptionId = request.subscribe
+            ? this.subscribe(session, 'proposal_open_contract', request, { contractId: contract.id }).id
+            : undefined;
+
+        this.reply(
+            session,
+            request,
+            'buy',
+            {
+                buy: {
+                    balance_after: account.balance,
+                    buy_price: askPrice,
+                    contract_id: contract.id,
+                    longcode: getLongcode(params, payout),
+                    payout,
+                    purchase_time: contract.purchaseTime,
+                    shortcode: getShortcode(params, payout, contract.purchaseTime),
+                    start_time: contract.purchaseTime,
+                    transaction_id: contract.buyTransactionId,
+                },
+            },
+            subscriptionId
+        );
+
+        this.publishTransaction(contract, 'buy');
+        this.publishBalance(account);
+        this.publishContract(contract);
+    }
+
+    private handleOpenContract(session: MockDerivSession, request: MockDerivRequest): void {
+        this.requireAccount(session);
+
+        if (request.contract_id === undefined) {
+            // All open contracts of the account; an empty object when there are none
+            const subscriptionId = request.subscribe
+                ? this.subscribe(session, 'proposal_open_contract', request).id
+                : undefined;
+            const open = [...this.contracts.values()].filter(
+                contract => contract.loginid === session.loginid && contract.status === 'open'
+            );
+
+            if (open.length === 0) {
+                this.reply(session, request, 'proposal_open_contract', { proposal_open_contract: {} }, subscriptionId);
+            }
+            open.forEach(contract =>
+                this.reply(
+                    session,
+                    request,
+                    'proposal_open_contract',
+                    { proposal_open_contract: this.toOpenContract(contract) },
+                    subscriptionId
+                )
+            );
+            return;
+        }
+
+        const contract = this.requireContract(session, request.contract_id);
+        const subscriptionId =
+            request.subscribe && contract.status === 'open'
+                ? this.subscribe(session, 'proposal_open_contract', request, { contractId: contract.id }).id
+                : undefined;
+
+        this.reply(
+            session,
+            request,
+            'proposal_open_contract',
+            { proposal_open_contract: this.toOpenContract(contract) },
+            subscriptionId
+        );
+    }
+
+    private handleSell(session: MockDerivSession, request: MockDerivRequest): void {
+        const account = this.requireAccount(session);
+        const contract = this.requireContract(session, request.sell);
+
+        if (contract.status !== 'open') {
+            throw new MockDerivRequestError('InvalidSellContractProposal', 'This contract has been sold.');
+        }
+        if (!this.isValidToSell(contract)) {
+            throw new MockDerivRequestError('InvalidSellContractProposal', 'Resale of this contract is not offered.');
+        }
+
+        const bidPrice = this.getBidPrice(contract);
+        if (request.price !== undefined && Number(request.price) > bidPrice) {
+            throw new MockDerivRequestError(
+                'PriceMoved',
+                `The contract sell price has moved to ${bidPrice.toFixed(2)}, below your limit of ${request.price}.`
+            );
+        }
+
+        this.closeContract(contract, 'sold', bidPrice);
+        this.reply(session, request, 'sell', {
+            sell: {
+                balance_after: account.balance,
+                contract_id: contract.id,
+                reference_id: contract.buyTransactionId,
+                sold_for: bidPrice,
+                transaction_id: contract.sellTransactionId,
+            },
+        });
+    }
+
+    private handleTransaction(session: MockDerivSession, request: MockDerivRequest): void {
+        this.requireAccount(session);
+        const subscriptionId = request.subscribe ? this.subscribe(session, 'transaction', request).id : undefined;
+        this.reply(session, request, 'transaction', { transaction: {} }, subscriptionId);
+    }
+
+    private handleForget(session: MockDerivSession, request: MockDerivRequest): void {
+        const removed = session.subscriptions.delete(String(request.forget));
+        this.reply(session, request, 'forget', { forget: removed ? 1 : 0 });
+    }
+
+    private handleForgetAll(session: MockDerivSession, request: MockDerivRequest): void {
+        const types: string[] = Array.isArray(request.forget_all) ? request.forget_all : [request.forget_all];
+        const removed: string[] = [];
+
+        session.subscriptions.forEach((subscription, id) => {
+            if (types.includes(subscription.type)) {
+                session.subscriptions.delete(id);
+                removed.push(id);
+            }
+        });
+        this.reply(session, request, 'forget_all', { forget_all: removed });
+    }
+
+    private handleActiveSymbols(session: MockDerivSession, request: MockDerivRequest): void {
+        this.reply(session, request, 'active_symbols', {
+            active_symbols: [...this.symbols.values()].map(({ config }) => ({
+                symbol: config.symbol,
+                display_name: config.display_name,
+                market: 'synthetic_index',
+                market_display_name: 'Derived',
+                submarket: 'random_index',
+                submarket_display_name: 'Continuous Indices',
+                symbol_type: 'stockindex',
+                pip: Math.pow(10, -config.pipSize),
+                exchange_is_open: 1,
+                is_trading_suspended: 0,
+            })),
+        });
+    }
+
+    /**
+     * Test-only: `{ mock_advance: 3 }` moves the clock from the client side
+     */
+    private handleMockAdvance(session: MockDerivSession, request: MockDerivRequest): void {
+        this.advance(Math.max(1, Number(request.mock_advance) || 1));
+        this.reply(session, request, 'mock_advance', { mock_advance: { epoch: this.epoch } });
+    }
+
+    /**
+     * Test-only: `{ mock_script: 'R_100', digits: [7, 7] }` queues upcoming ticks
+     */
+    private handleMockScript(session: MockDerivSession, request: MockDerivRequest): void {
+        if (request.quotes) this.scriptQuotes(request.mock_script, request.quotes);
+        if (request.digits) this.scriptDigits(request.mock_script, request.digits);
+
+        const state = this.getSymbol(request.mock_script);
+        this.reply(session, request, 'mock_script', {
+            mock_script: { symbol: request.mock_script, digits: state.digits.length, quotes: state.quotes.length },
+        });
+    }
+
+    // Private helper methods
+
+    private handleRequest(session: MockDerivSession, raw: MockDerivRequest | string): void {
+        let request: MockDerivRequest;
+        try {
+            request = typeof raw === 'string' ? JSON.parse(raw) : raw;
+        } catch {
+            session.send({
+                msg_type: 'error',
+                echo_req: {},
+                error: { code: 'InputValidationFailed', message: 'Input validation failed: malformed JSON.' },
+            });
+            return;
+        }
+
+        const msgType = Object.keys(this.handlers).find(key => key in request);
+        if (!msgType) {
+            this.replyError(session, request, Object.keys(request)[0] ?? 'error', {
+                code: 'UnrecognisedRequest',
+                message: 'Unrecognised request.',
+            });
+            return;
+        }
+
+        const responseType = RESPONSE_MSG_TYPES[msgType] ?? msgType;
+        const failure = this.failures.get(msgType);
+        if (failure) {
+            this.failures.delete(msgType);
+            this.replyError(session, request, responseType, failure);
+            return;
+        }
+
+        try {
+            this.handlers[msgType](session, request);
+        } catch (error) {
+            if (!(error instanceof MockDerivRequestError)) throw error;
+            this.replyError(session, request, responseType, { code: error.code, message: error.message });
+        }
+    }
+
+    private reply(
+        session: MockDerivSession,
+        request: MockDerivRequest,
+        msgType: string,
+        fields: Record<string, unknown>,
+        subscriptionId?: string
+    ): void {
+        session.send({
+            echo_req: request,
+            msg_type: msgType,
+            ...fields,
+            ...(request.req_id !== undefined ? { req_id: request.req_id } : {}),
+            ...(request.passthrough !== undefined ? { passthrough: request.passthrough } : {}),
+            ...(subscriptionId ? { subscription: { id: subscriptionId } } : {}),
+        });
+    }
+
+    private replyError(session: MockDerivSession, request: MockDerivRequest, msgType: string, error: MockDerivError) {
+        this.reply(session, request, msgType, { error });
+    }
+
+    private subscribe(
+        session: MockDerivSession,
+        type: SubscriptionType,
+        request: MockDerivRequest,
+        target: Pick<Subscription, 'symbol' | 'contractId' | 'proposalId'> = {}
+    ): Subscription {
+        const subscription: Subscription = {
+            id: `mock-sub-${(this.nextSubscriptionId++).toString().padStart(6, '0')}`,
+            type,
+            request,
+            ...target,
+        };
+        session.subscriptions.set(subscription.id, subscription);
+        return subscription;
+    }
+
+    private forEachSubscription(
+        type: SubscriptionType,
+        callback: (session: MockDerivSession, subscription: Subscription) => void
+    ): void {
+        this.sessions.forEach(session => {
+            session.subscriptions.forEach(subscription => {
+                if (subscription.type === type) callback(session, subscription);
+            });
+        });
+    }
+
+    private requireAccount(session: MockDerivSession): MockAccount {
+        const account = session.loginid ? this.accounts.get(session.loginid) : undefined;
+        if (!account) throw new MockDerivRequestError('AuthorizationRequired', 'Please log in.');
+        return account;
+    }
+
+    private requireContract(session: MockDerivSession, contractId: unknown): MockContract {
+        const contract = this.contracts.get(Number(contractId));
+        if (!contract || contract.loginid !== session.loginid) {
+            throw new MockDerivRequestError(
+                'ContractNotFound',
+                'This contract was not found among your open positions.'
+            );
+        }
+        return contract;
+    }
+
+    private getSymbol(symbol: string): SymbolState {
+        const state = this.symbols.get(symbol);
+        if (!state) throw new MockDerivRequestError('InvalidSymbol', `Symbol ${symbol} is invalid.`);
+        return state;
+    }
+
+    private toContractParameters(
+        session: MockDerivSession,
+        request: MockDerivRequest,
+        errorCode: string
+    ): MockContractParameters {
+        const account = session.loginid ? this.accounts.get(session.loginid) : undefined;
+        const params = {
+            contract_type: request.contract_type as MockContractType,
+            symbol: request.symbol ?? request.underlying_symbol,
+            amount: Number(request.amount),
+            basis: request.basis === 'payout' ? 'payout' : 'stake',
+            duration: Number(request.duration),
+            duration_unit: request.duration_unit,
+            currency: request.currency ?? account?.currency ?? 'USD',
+            ...(request.barrier !== undefined ? { barrier: request.barrier } : {}),
+        } as MockContractParameters;
+
+        this.getSymbol(params.symbol);
+        const validationError = validateContractParameters(params);
+        if (validationError) throw new MockDerivRequestError(errorCode, validationError);
+        return params;
+    }
+
+    /**
+     * Next live tick: scripted quotes first, then the random walk with any scripted last digit
+     */
+    private nextTick(state: SymbolState): MockTick {
+        const { pipSize } = state.config;
+        let tick = state.quotes.length
+            ? this.createTick(state.quotes.shift() as number, this.epoch, pipSize)
+            : this.walk(state, this.epoch);
+
+        if (!state.quotes.length && state.digits.length) {
+            const quote = tick.quote.toFixed(pipSize);
+            tick = this.createTick(Number(`${quote.slice(0, -1)}${state.digits.shift()}`), this.epoch, pipSize);
+        }
+
+        state.ticks.push(tick);
+        if (state.ticks.length > MAX_HISTORY) state.ticks.shift();
+        return tick;
+    }
+
+    private walk(state: SymbolState, epoch: number): MockTick {
+        const { pipSize, startQuote, volatility } = state.config;
+        const from = state.ticks[state.ticks.length - 1]?.quote ?? startQuote;
+
+        // Box-Muller transform for a normally distributed step
+        const u = Math.max(state.random(), Number.EPSILON);
+        const v = state.random();
+        const step = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+        const quote = Math.max(from * (1 + step * volatility), Math.pow(10, -pipSize));
+
+        return this.createTick(Number(quote.toFixed(pipSize)), epoch, pipSize);
+    }
+
+    private createTick(quote: number, epoch: number, pipSize: number): MockTick {
+        return { epoch, quote, pipSize, lastDigit: getLastDigit(quote, pipSize) };
+    }
+
+    private publishTick(symbol: string, tick: MockTick): void {
+        this.forEachSubscription('ticks', (session, subscription) => {
+            if (subscription.symbol !== symbol) return;
+            this.reply(
+                session,
+                subscription.request,
+                'tick',
+                { tick: this.toTick(symbol, tick, subscription.id) },
+                subscription.id
+            );
+        });
+
+        this.forEachSubscription('proposal', (session, subscription) => {
+            const proposal = subscription.proposalId ? session.proposals.get(subscription.proposalId) : undefined;
+            if (subscription.symbol !== symbol || !proposal) return;
+            this.reply(
+                session,
+                subscription.request,
+                'proposal',
+                { proposal: this.toProposal(subscription.proposalId as string, proposal.params) },
+                subscription.id
+            );
+        });
+    }
+
+    private updateContracts(symbol: string, tick: MockTick): void {
+        this.contracts.forEach(contract => {
+            if (contract.status !== 'open' || contract.params.symbol !== symbol) return;
+
+            contract.ticks.push(tick);
+            const required = getRequiredTicks(contract.params);
+            if (contract.ticks.length < required) {
+                this.publishContract(contract);
+                return;
+            }
+
+            const won = isWinningOutcome(contract.params, contract.ticks[0], contract.ticks[required - 1]);
+            this.closeContract(contract, won ? 'won' : 'lost', won ? contract.payout : 0);
+        });
+    }
+
+    private closeContract(contract: MockContract, status: MockContract['status'], sellPrice: number): void {
+        const account = this.accounts.get(contract.loginid) as MockAccount;
+
+        contract.status = status;
+        contract.sellPrice = sellPrice;
+        contract.sellTime = this.epoch;
+        contract.sellTransactionId = this.nextTransactionId++;
+        account.balance = roundMoney(account.balance + sellPrice);
+
+        this.publishContract(contract);
+        this.publishTransaction(contract, 'sell');
+        this.publishBalance(account);
+
+        // Finished contracts no longer stream
+        this.sessions.forEach(session => {
+            session.subscriptions.forEach((subscription, id) => {
+                if (subscription.contractId === contract.id) session.subscriptions.delete(id);
+            });
+        });
+    }
+
+    private publishContract(contract: MockContract): void {
+        this.forEachSubscription('proposal_open_contract', (session, subscription) => {
+            if (session.loginid !== contract.loginid) return;
+            if (subscription.contractId !== undefined && subscription.contractId !== contract.id) return;
+            this.reply(
+                session,
+                subscription.request,
+                'proposal_open_contract',
+                { proposal_open_contract: this.toOpenContract(contract) },
+                subscription.id
+            );
+        });
+    }
+
+    private publishBalance(account: MockAccount): void {
+        this.forEachSubscription('balance', (session, subscription) => {
+            if (session.loginid !== account.loginid && subscription.request.account !== 'all') return;
+            this.reply(
+                session,
+                subscription.request,
+                'balance',
+                { balance: this.toBalance(this.requireAccount(session), subscription.request) },
+                subscription.id
+            );
+        });
+    }
+
+    private publishTransaction(contract: MockContract, action: 'buy' | 'sell'): void {
+        const account = this.accounts.get(contract.loginid) as MockAccount;
+        const transaction = {
+            action,
+            amount: action === 'buy' ? -contract.buyPrice : (contract.sellPrice ?? 0),
+            balance: account.balance,
+            contract_id: contract.id,
+            currency: contract.params.currency,
+            longcode: getLongcode(contract.params, contract.payout),
+            symbol: contract.params.symbol,
+            transaction_id: action === 'buy' ? contract.buyTransactionId : contract.sellTransactionId,
+            transaction_time: action === 'buy' ? contract.purchaseTime : contract.sellTime,
+        };
+
+        this.forEachSubscription('transaction', (session, subscription) => {
+            if (session.loginid !== contract.loginid) return;
+            this.reply(session, subscription.request, 'transaction', { transaction }, subscription.id);
+        });
+    }
+
+    private isValidToSell(contract: MockContract): boolean {
+        return (
+            contract.status === 'open' && contract.ticks.length > 0 && !isDigitContract(contract.params.contract_type)
+        );
+    }
+
+    /**
+     * Intrinsic value less commission: the payout if the contract would win on the latest tick
+     */
+    private getBidPrice(contract: MockContract): number {
+        const entry = contract.ticks[0];
+        const latest = contract.ticks[contract.ticks.length - 1];
+        if (!entry || !isWinningOutcome(contract.params, entry, latest)) return 0;
+        return roundMoney(contract.payout * (1 - this.commission));
+    }
+
+    private toTick(symbol: string, tick: MockTick, subscriptionId?: string) {
+        return {
+            ask: tick.quote,
+            bid: tick.quote,
+            epoch: tick.epoch,
+            quote: tick.quote,
+            pip_size: tick.pipSize,
+            symbol,
+            ...(subscriptionId ? { id: subscriptionId } : {}),
+        };
+    }
+
+    private toProposal(id: string, params: MockContractParameters) {
+        const { askPrice, payout } = priceContract(params, this.commission);
+        const state = this.getSymbol(params.symbol);
+        const spot = state.ticks[state.ticks.length - 1];
+
+        return {
+            id,
+            ask_price: askPrice,
+            display_value: askPrice.toFixed(2),
+            payout,
+            spot: spot.quote,
+            spot_time: spot.epoch,
+            date_start: this.epoch,
+            longcode: getLongcode(params, payout),
+        };
+    }
+
+    private toBalance(account: MockAccount, request: MockDerivRequest) {
+        return {
+            balance: account.balance,
+            currency: account.currency,
+            loginid: account.loginid,
+            ...(request.account === 'all'
+                ? {
+                      accounts: Object.fromEntries(
+                          [...this.accounts.values()].map(item => [
+                              item.loginid,
+                              {
+                                  balance: item.balance,
+                                  currency: item.currency,
+                                  demo_account: item.is_virtual ? 1 : 0,
+                                  status: 1,
+                                  type: 'deriv',
+                              },
+                          ])
+                      ),
+                  }
+                : {}),
+        };
+    }
+
+    private toOpenContract(contract: MockContract): Record<string, unknown> {
+        const { params } = contract;
+        const entry = contract.ticks[0];
+        const latest = contract.ticks[contract.ticks.length - 1];
+        const isOpen = contract.status === 'open';
+        const isExpired = contract.status === 'won' || contract.status === 'lost';
+        const exit = isExpired ? contract.ticks[getRequiredTicks(params) - 1] : undefined;
+        const bidPrice = isOpen ? this.getBidPrice(contract) : (contract.sellPrice ?? 0);
+        const profit = roundMoney(bidPrice - contract.buyPrice);
+
+        return {
+            contract_id: contract.id,
+            contract_type: params.contract_type,
+            underlying: params.symbol,
+            display_name: this.symbols.get(params.symbol)?.config.display_name,
+            currency: params.currency,
+            barrier: params.barrier !== undefined ? String(params.barrier) : entry?.quote.toFixed(entry.pipSize),
+            buy_price: contract.buyPrice,
+            payout: contract.payout,
+            bid_price: bidPrice,
+            profit,
+            profit_percentage: roundMoney((profit / contract.buyPrice) * 100),
+            status: contract.status,
+            is_sold: isOpen ? 0 : 1,
+            is_expired: isExpired ? 1 : 0,
+            is_settleable: isExpired ? 1 : 0,
+            is_valid_to_sell: this.isValidToSell(contract) ? 1 : 0,
+            ...(isOpen && !this.isValidToSell(contract)
+                ? { validation_error: 'Resale of this contract is not offered.' }
+                : {}),
+            date_start: contract.purchaseTime,
+            purchase_time: contract.purchaseTime,
+            tick_count: params.duration,
+            entry_tick: entry?.quote,
+            entry_tick_time: entry?.epoch,
+            entry_spot: entry?.quote,
+            exit_tick: exit?.quote,
+            exit_tick_time: exit?.epoch,
+            current_spot: latest?.quote,
+            current_spot_time: latest?.epoch,
+            tick_stream: contract.ticks.map(tick => ({
+                epoch: tick.epoch,
+                tick: tick.quote,
+                tick_display_value: tick.quote.toFixed(tick.pipSize),
+            })),
+            longcode: getLongcode(params, contract.payout),
+            shortcode: getShortcode(params, contract.payout, contract.purchaseTime),
+            sell_price: contract.sellPrice,
+            sell_time: contract.sellTime,
+            transaction_ids: {
+                buy: contract.buyTransactionId,
+                ...(contract.sellTransactionId ? { sell: contract.sellTransactionId } : {}),
+            },
+        };
+    }
+}
@@ -1,4 +1,10 @@
 import { derivAPIService } from './deriv-api.service';
+import {
+    DigitContractExecutor,
+    DigitContractResult,
+    ExecutionMode,
+    ExecutionStats,
+} from './digit-contract-executor.service';
 
 export interface MultipleStakesConfig {
     market: string;
@@ -18,59 +24,52 @@ export interface DigitStats {
 
 class MultipleStakesService {
     private isRunning = false;
-    private stats = {
-        totalPL: 0,
-        totalRuns: 0,
-        won: 0,
-        lost: 0,
-    };
+    private executor = new DigitContractExecutor('Multiple Stakes');
     private digitCounts: number[] = Array(10).fill(0);
     private totalTicks = 0;
 
-    async executeMultipleStakes(config: MultipleStakesConfig): Promise<void> {
+    /**
+     * Place the digit 2, 4 and 6 contracts side by side; a zero stake skips that digit
+     */
+    async executeMultipleStakes(config: MultipleStakesConfig): Promise<DigitContractResult[]> {
         const stakes = [
             { digit: 2, stake: config.digit2Stake },
             { digit: 4, stake: config.digit4Stake },
             { digit: 6, stake: config.digit6Stake },
         ];
 
-        const promises = stakes.map(({ digit, stake }) => {
-            if (stake > 0) {
-                return this.executeSingleTrade(config, digit, stake);
-            }
-            return Promise.resolve();
-        });
-
-        await Promise.all(promises);
+        return Promise.all(
+            stakes
+                .filter(({ stake }) => stake > 0)
+                .map(({ digit, stake }) =>
+                    this.executor.execute({
+                        symbol: config.market,
+                        contractType: config.strategy === 'Over' ? 'DIGITOVER' : 'DIGITUNDER',
+                        stake,
+                        duration: config.duration,
+                        barrier: digit,
+                    })
+                )
+        );
     }
 
-    private async executeSingleTrade(
-        config: MultipleStakesConfig,
-        digit: number,
-        stake: number
-    ): Promise<void> {
-        try {
-            console.log(`Executing trade for digit ${digit}:`, { config, stake });
-            
-            // Simulate delay
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            // Simulate random win/loss
-            const won = Math.random() > 0.5;
-            const profit = won ? stake * 0.95 : -stake;
-            
-            this.stats.totalRuns++;
-            if (won) {
-                this.stats.won++;
-            } else {
-                this.stats.lost++;
+    async executeBulkStakes(config: MultipleStakesConfig, count: number): Promise<DigitContractResult[]> {
+        const results: DigitContractResult[] = [];
+        this.isRunning = true;
+
+        for (let i = 0; i < count && this.isRunning; i++) {
+            const round = await this.executeMultipleStakes(config);
+            results.push(...round);
+            const failed = round.find(result => !result.success);
+            if (failed) {
+                console.error(`Bulk round ${i + 1} failed, stopping:`, failed.error);
+                break;
             }
-            this.stats.totalPL += profit;
-            
-            console.log(`Trade completed for digit ${digit}:`, { won, profit });
-        } catch (error) {
-            console.error(`Trade execution failed for digit ${digit}:`, error);
+            await new Promise(resolve => setTimeout(resolve, 1000));
         }
+
+        this.isRunning = false;
+        return results;
     }
 
     async subscribeToTicks(symbol: string, callback: (stats: DigitStats[]) => void): Promise<void> {
@@ -102,17 +101,20 @@ class MultipleStakesService {
         }));
     }
 
-    getStats() {
-        return { ...this.stats };
+    getStats(): ExecutionStats {
+        return this.executor.getStats();
+    }
+
+    getExecutionMode(): ExecutionMode {
+        return this.executor.getMode();
+    }
+
+    setExecutionMode(mode: ExecutionMode): void {
+        this.executor.setMode(mode);
     }
 
     resetStats(): void {
-        this.stats = {
-            totalPL: 0,
-            totalRuns: 0,
-            won: 0,
-            lost: 0,
-        };
+        this.executor.resetStats();
         this.digitCounts = Array(10).fill(0);
         this.totalTicks = 0;
     }
@@ -9,6 +9,7 @@ import type {
   EntryPattern,
   PatelMetrics,
 } from '../types/patel-signals';
+import { fromPatelSignal, signalOutcomeTracker } from './signal-outcome-tracker.service';
 
 class PatelSignalGeneratorService {
   private static instance: PatelSignalGeneratorService;
@@ -125,6 +126,7 @@ class PatelSignalGeneratorService {
       .sort((a, b) => b.confidencePercentage - a.confidencePercentage)
       .slice(0, this.config.maxSignalsPerHour);
 
+    signalOutcomeTracker.trackMany(this.signals.map((signal) => fromPatelSignal('PATEL', signal)));
     this.notifyListeners();
   }
 
@@ -4,6 +4,8 @@
  * Uses pattern recognition and statistical analysis
  */
 
+import { combineProvenance, DataProvenance, TickProvenance } from './tick-source/tick-source';
+
 export type PredictionOutcome = 'RISE' | 'FALL' | 'UNCERTAIN';
 
 export type PatternType =
@@ -22,12 +24,14 @@ export interface PredictionResult {
     supportingFactors: string[];
     riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
     recommendedAction: 'TRADE' | 'WAIT' | 'AVOID';
+    provenance?: DataProvenance; // Unset when none of the ticks said where they came from
 }
 
 export interface TickData {
     value: number;
     timestamp: number;
     direction?: 'RISE' | 'FALL';
+    provenance?: TickProvenance;
 }
 
 class PatternPredictorService {
@@ -55,13 +59,22 @@ class PatternPredictorService {
         const volatilityAnalysis = this.analyzeVolatility(recentTicks);
 
         // Combine analyses to make prediction
-        return this.combinePredictions(
+        const result = this.combinePredictions(
             directions,
             streakAnalysis,
             alternatingAnalysis,
             momentumAnalysis,
             volatilityAnalysis
         );
+        return { ...result, provenance: this.getProvenance(recentTicks) };
+    }
+
+    /**
+     * Provenance of the analysed ticks; an untagged tick among tagged ones makes it mixed
+     */
+    private getProvenance(ticks: TickData[]): DataProvenance | undefined {
+        if (ticks.every(tick => tick.provenance === undefined)) return undefined;
+        return combineProvenance(ticks.map(tick => tick.provenance ?? 'mixed'));
     }
 
     /**
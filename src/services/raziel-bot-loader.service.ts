@@ -6,6 +6,8 @@
 import { DigitDistributionSignal } from './digit-distribution-scanner.service';
 import { HotColdZoneSignal } from './hot-cold-zone-scanner.service';
 import { botLoadingDebugger } from '../utils/bot-loading-debugger';
+import type { BotParameterValues } from './bot-manifest/bot-manifest';
+import { configureBundledBotXml } from './bot-manifest/bot-xml-parameters';
 
 // Legacy signal interface for backward compatibility
 interface LegacyRangingMarketSignal {
@@ -836,425 +838,52 @@ class RazielBotLoaderService {
     }
 
     /**
-     * Configure bot XML with signal parameters
+     * Configure Raziel Over Under bot XML with signal parameters
      */
     private configureBotXML(xmlContent: string, config: RazielBotConfiguration): string {
-        let configuredXML = xmlContent;
-
-        try {
-            console.log('🔧 Configuring Raziel Over Under bot XML with parameters:', {
-                stake: config.stake,
-                martingale: config.parameters.martingaleSplit,
-                contractType: config.contractType,
-                market: config.market,
-                predictionBeforeLoss: config.parameters.predictionBeforeLoss,
-                predictionAfterLoss: config.parameters.predictionAfterLoss,
-            });
-
-            // Parse XML to modify parameters
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
-
-            // Check for parsing errors
-            const parseError = xmlDoc.querySelector('parsererror');
-            if (parseError) {
-                throw new Error(`XML parsing failed: ${parseError.textContent}`);
-            }
-
-            // Track configuration success
-            const configResults = {
-                market: false,
-                contractType: false,
-                initialStake: false,
-                martingaleSplit: false,
-                predictionBeforeLoss: false,
-                predictionAfterLoss: false,
-                purchaseType: false,
-            };
-
-            // Update market symbol (SYMBOL_LIST field)
-            const symbolField = xmlDoc.querySelector('field[name="SYMBOL_LIST"]');
-            if (symbolField) {
-                symbolField.textContent = config.market;
-                configResults.market = true;
-                console.log(`✅ Updated market symbol to: ${config.market}`);
-            } else {
-                console.warn('❌ Could not find SYMBOL_LIST field');
-            }
-
-            // Update contract type (TYPE_LIST field)
-            const contractField = xmlDoc.querySelector('field[name="TYPE_LIST"]');
-            if (contractField) {
-                contractField.textContent = config.contractType;
-                configResults.contractType = true;
-                console.log(`✅ Updated contract type to: ${config.contractType}`);
-            } else {
-                console.warn('❌ Could not find TYPE_LIST field');
-            }
-
-            // Update initial stake - Raziel Over Under uses specific block IDs
-            const initialStakeBlock = xmlDoc.querySelector('block[id="TDv/W;dNI84TFbp}8X8="] field[name="NUM"]');
-            if (initialStakeBlock) {
-                initialStakeBlock.textContent = config.stake.toString();
-                configResults.initialStake = true;
-                console.log(`✅ Updated initial stake (Stake variable) to: ${config.stake}`);
-            } else {
-                console.warn('❌ Could not find initial stake block');
-                // Try alternative method
-                this.updateStakeWithFallback(xmlDoc, config.stake);
-            }
-
-            // Update initial stake variable (initalStake) - CRITICAL: Both stakes must match!
-            const initalStakeBlock = xmlDoc.querySelector('block[id="9Z%4%dmqCp;/sSt8wGv#"] field[name="NUM"]');
-            if (initalStakeBlock) {
-                initalStakeBlock.textContent = config.stake.toString();
-                console.log(`✅ Updated initalStake variable to: ${config.stake}`);
-            } else {
-                console.warn('❌ Could not find initalStake variable block');
-            }
-
-            // Update martingale split - Raziel Over Under uses specific block ID
-            const martingaleBlock = xmlDoc.querySelector('block[id="Ib,Krc`nUJzn1KMo9)`A"] field[name="NUM"]');
-            if (martingaleBlock) {
-                const martingaleValue =
-                    typeof config.parameters.martingaleSplit === 'number' ? config.parameters.martingaleSplit : 2.2;
-                martingaleBlock.textContent = martingaleValue.toString();
-                configResults.martingaleSplit = true;
-                console.log(`✅ Updated martingale split to: ${martingaleValue}`);
-            } else {
-                console.warn('❌ Could not find martingale split block');
-                // Try fallback method
-                const martingaleValue =
-                    typeof config.parameters.martingaleSplit === 'number' ? config.parameters.martingaleSplit : 2.2;
-                this.updateMartingaleWithFallback(xmlDoc, martingaleValue);
-            }
-
-            // Update prediction before loss
-            const predictionBeforeLossBlock = xmlDoc.querySelector(
-                'block[id="~]Q~lGg)3FCGB95VKA`b"] field[name="NUM"]'
-            );
-            if (predictionBeforeLossBlock) {
-                const predictionValue =
-                    typeof config.parameters.predictionBeforeLoss === 'number'
-                        ? config.parameters.predictionBeforeLoss
-                        : 2;
-                predictionBeforeLossBlock.textContent = predictionValue.toString();
-                configResults.predictionBeforeLoss = true;
-                console.log(`✅ Updated prediction before loss to: ${predictionValue}`);
-            } else {
-                console.warn('❌ Could not find prediction before loss block');
-            }
-
-            // Update prediction after loss
-            const predictionAfterLossBlock = xmlDoc.querySelector('block[id="(6)D~Nlfu/PCG*s5!9Qy"] field[name="NUM"]');
-            if (predictionAfterLossBlock) {
-                const predictionValue =
-                    typeof config.parameters.predictionAfterLoss === 'number'
-                        ? config.parameters.predictionAfterLoss
-                        : 3;
-                predictionAfterLossBlock.textContent = predictionValue.toString();
-                configResults.predictionAfterLoss = true;
-                console.log(`✅ Updated prediction after loss to: ${predictionValue}`);
-            } else {
-                console.warn('❌ Could not find prediction after loss block');
-            }
-
-            // Update purchase type in before_purchase block
-            const purchaseFields = xmlDoc.querySelectorAll('field[name="PURCHASE_LIST"]');
-            purchaseFields.forEach(field => {
-                field.textContent = config.contractType;
-                configResults.purchaseType = true;
-                console.log(`✅ Updated purchase type to: ${config.contractType}`);
-            });
-
-            // Serialize back to string
-            const serializer = new XMLSerializer();
-            configuredXML = serializer.serializeToString(xmlDoc);
-
-            // Log configuration results
-            const successCount = Object.values(configResults).filter(Boolean).length;
-            const totalCount = Object.keys(configResults).length;
-
-            console.log(
-                `🔧 Raziel Over Under Configuration Results: ${successCount}/${totalCount} successful`,
-                configResults
-            );
-
-            if (successCount < totalCount) {
-                console.warn('⚠️ Some XML configurations failed - using string replacement fallback');
-                configuredXML = this.configureXMLWithStringReplacement(configuredXML, config);
-            } else {
-                console.log('✅ Raziel Over Under XML configuration completed successfully');
-            }
-
-            // Validate the configuration
-            this.validateXMLConfiguration(configuredXML, config);
-        } catch (error) {
-            console.warn('Failed to parse/modify Raziel Over Under XML, using string replacement fallback:', error);
-            // Fall back to string replacement if XML parsing fails
-            configuredXML = this.configureXMLWithStringReplacement(xmlContent, config);
-        }
-
-        return configuredXML;
+        return this.applyBotManifest(xmlContent, config, {
+            market: config.market,
+            contractType: config.contractType,
+            stake: config.stake,
+            martingale: this.getNumericParameter(config, 'martingaleSplit', 2.2),
+            predictionBeforeLoss: this.getNumericParameter(config, 'predictionBeforeLoss', 2),
+            predictionAfterLoss: this.getNumericParameter(config, 'predictionAfterLoss', 3),
+        });
     }
 
     /**
      * Configure NOVAGRID 2026 bot XML with signal parameters
+     * NOVAGRID trades both directions from its 1st/2nd digit variables, so the contract type is left alone
      */
     private configureNovagridBotXML(xmlContent: string, config: RazielBotConfiguration): string {
-        let configuredXML = xmlContent;
-
-        try {
-            console.log('🔧 Configuring NOVAGRID 2026 bot XML with parameters:', {
-                stake: config.stake,
-                martingale: config.parameters.martingaleSplit,
-                contractType: config.contractType,
-                market: config.market,
-                predictionBeforeLoss: config.parameters.predictionBeforeLoss,
-                predictionAfterLoss: config.parameters.predictionAfterLoss,
-            });
-
-            // Parse XML to modify parameters
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
-
-            // Check for parsing errors
-            const parseError = xmlDoc.querySelector('parsererror');
-            if (parseError) {
-                throw new Error(`XML parsing failed: ${parseError.textContent}`);
-            }
-
-            // Track configuration success
-            const configResults = {
-                market: false,
-                contractType: false,
-                initialStake: false,
-                martingaleSplit: false,
-                predictionBeforeLoss: false,
-                predictionAfterLoss: false,
-                purchaseType: false,
-            };
-
-            // Update market symbol (SYMBOL_LIST field)
-            const symbolField = xmlDoc.querySelector('field[name="SYMBOL_LIST"]');
-            if (symbolField) {
-                symbolField.textContent = config.market;
-                configResults.market = true;
-                console.log(`✅ Updated market symbol to: ${config.market}`);
-            } else {
-                console.warn('❌ Could not find SYMBOL_LIST field');
-            }
-
-            // Update contract type (TYPE_LIST field) - NOVAGRID uses "both" but we need to set purchase type
-            const contractField = xmlDoc.querySelector('field[name="TYPE_LIST"]');
-            if (contractField) {
-                contractField.textContent = 'both'; // NOVAGRID uses both
-                configResults.contractType = true;
-                console.log(`✅ Updated contract type to: both`);
-            } else {
-                console.warn('❌ Could not find TYPE_LIST field');
-            }
-
-            // Update Amount variable (initial stake) - NOVAGRID uses "Amount" variable
-            const amountBlocks = xmlDoc.querySelectorAll('variable[id="iR9MIP@+P-(|!EWdy:H4"]');
-            if (amountBlocks.length > 0) {
-                // Find the block that sets the Amount variable
-                const amountSetBlock = xmlDoc.querySelector('block[id="su?Hn*_+v4I%{vk7;+i="] field[name="NUM"]');
-                if (amountSetBlock) {
-                    amountSetBlock.textContent = config.stake.toString();
-                    configResults.initialStake = true;
-                    console.log(`✅ Updated Amount (initial stake) to: ${config.stake}`);
-                }
-            } else {
-                console.warn('❌ Could not find Amount variable');
-            }
-
-            // Update Mart Splits variable (martingale) - NOVAGRID uses "Mart Splits" variable
-            const martSplitsBlock = xmlDoc.querySelector('block[id="I}GOH4k1J7J}d]Z-B+9$"] field[name="NUM"]');
-            if (martSplitsBlock) {
-                const martingaleValue =
-                    typeof config.parameters.martingaleSplit === 'number' ? config.parameters.martingaleSplit : 2;
-                martSplitsBlock.textContent = martingaleValue.toString();
-                configResults.martingaleSplit = true;
-                console.log(`✅ Updated Mart Splits (martingale) to: ${martingaleValue}`);
-            } else {
-                console.warn('❌ Could not find Mart Splits block');
-            }
-
-            // Update 1st Digit (prediction before loss) - NOVAGRID uses "1st Digit" variable
-            const firstDigitBlock = xmlDoc.querySelector('block[id=":%]KJOpvj`cH,.2P^?,F"] field[name="NUM"]');
-            if (firstDigitBlock) {
-                const predictionValue =
-                    typeof config.parameters.predictionBeforeLoss === 'number'
-                        ? config.parameters.predictionBeforeLoss
-                        : 2;
-                firstDigitBlock.textContent = predictionValue.toString();
-                configResults.predictionBeforeLoss = true;
-                console.log(`✅ Updated 1st Digit (prediction before loss) to: ${predictionValue}`);
-            } else {
-                console.warn('❌ Could not find 1st Digit block');
-            }
-
-            // Update 2nd Digit (prediction after loss) - NOVAGRID uses "2nd Digit" variable
-            const secondDigitBlock = xmlDoc.querySelector('block[id="q[Kk~w1yxxze1*{e9Y6a"] field[name="NUM"]');
-            if (secondDigitBlock) {
-                const predictionValue =
-                    typeof config.parameters.predictionAfterLoss === 'number'
-                        ? config.parameters.predictionAfterLoss
-                        : 4;
-                secondDigitBlock.textContent = predictionValue.toString();
-                configResults.predictionAfterLoss = true;
-                console.log(`✅ Updated 2nd Digit (prediction after loss) to: ${predictionValue}`);
-            } else {
-                console.warn('❌ Could not find 2nd Digit block');
-            }
-
-            // Update purchase type in purchase blocks - NOVAGRID uses PREDICTION field
-            const predictionFields = xmlDoc.querySelectorAll('field[name="PREDICTION"]');
-            if (predictionFields.length > 0) {
-                // NOVAGRID uses variables for prediction, so we don't need to update PREDICTION fields directly
-                configResults.purchaseType = true;
-                console.log(`✅ Purchase type will use variable-based predictions`);
-            }
-
-            // Serialize back to string
-            const serializer = new XMLSerializer();
-            configuredXML = serializer.serializeToString(xmlDoc);
-
-            // Log configuration results
-            const successCount = Object.values(configResults).filter(Boolean).length;
-            const totalCount = Object.keys(configResults).length;
-
-            console.log(
-                `🔧 NOVAGRID 2026 Configuration Results: ${successCount}/${totalCount} successful`,
-                configResults
-            );
-
-            if (successCount < totalCount) {
-                console.warn('⚠️ Some XML configurations failed - using string replacement fallback');
-                configuredXML = this.configureXMLWithStringReplacement(configuredXML, config);
-            } else {
-                console.log('✅ NOVAGRID 2026 XML configuration completed successfully');
-            }
-
-            // Validate the configuration
-            this.validateXMLConfiguration(configuredXML, config);
-        } catch (error) {
-            console.warn('Failed to parse/modify NOVAGRID 2026 XML, using string replacement fallback:', error);
-            // Fall back to string replacement if XML parsing fails
-            configuredXML = this.configureXMLWithStringReplacement(xmlContent, config);
-        }
-
-        return configuredXML;
+        return this.applyBotManifest(xmlContent, config, {
+            market: config.market,
+            stake: config.stake,
+            martingale: this.getNumericParameter(config, 'martingaleSplit', 2),
+            predictionBeforeLoss: this.getNumericParameter(config, 'predictionBeforeLoss', 2),
+            predictionAfterLoss: this.getNumericParameter(config, 'predictionAfterLoss', 4),
+        });
     }
 
     /**
-     * Validate that XML configuration was applied correctly
+     * Write parameters through the bot's manifest; throws BotParameterError if the result fails validation
      */
-    private validateXMLConfiguration(xmlContent: string, config: RazielBotConfiguration): void {
-        try {
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
-
-            // Check stake values
-            const stakeFields = xmlDoc.querySelectorAll('field[name="NUM"]');
-            let stakeFound = false;
-            let martingaleFound = false;
-
-            stakeFields.forEach((field, index) => {
-                const value = field.textContent;
-                if (value === config.stake.toString()) {
-                    stakeFound = true;
-                    console.log(`✅ Stake validation: Found ${value} at position ${index}`);
-                }
-                if (value === config.parameters.martingaleSplit?.toString()) {
-                    martingaleFound = true;
-                    console.log(`✅ Martingale validation: Found ${value} at position ${index}`);
-                }
-            });
+    private applyBotManifest(xmlContent: string, config: RazielBotConfiguration, values: BotParameterValues): string {
+        console.log(`🔧 Configuring ${config.botFile} with parameters:`, values);
 
-            if (!stakeFound) {
-                console.warn(`❌ Stake validation failed: ${config.stake} not found in XML`);
-            }
-            if (!martingaleFound) {
-                console.warn(`❌ Martingale validation failed: ${config.parameters.martingaleSplit} not found in XML`);
-            }
+        const { xml, applied, missing } = configureBundledBotXml(config.botFile, xmlContent, values);
 
-            console.log('🔍 XML Validation Summary:', {
-                stakeConfigured: stakeFound,
-                martingaleConfigured: martingaleFound,
-                expectedStake: config.stake,
-                expectedMartingale: config.parameters.martingaleSplit,
-            });
-        } catch (error) {
-            console.warn('XML validation failed:', error);
+        if (missing.length > 0) {
+            console.warn(`⚠️ ${config.botFile} has no blocks for: ${missing.join(', ')}`);
         }
-    }
-
-    /**
-     * Fallback method to configure XML using string replacement
-     */
-    private configureXMLWithStringReplacement(xmlContent: string, config: RazielBotConfiguration): string {
-        let configuredXML = xmlContent;
+        console.log(`✅ ${config.botFile} configured and validated (${applied.join(', ')})`);
 
-        try {
-            console.log('🔄 Using string replacement fallback for XML configuration');
-
-            // Replace market symbol
-            configuredXML = configuredXML.replace(
-                /<field name="SYMBOL_LIST">[^<]*<\/field>/,
-                `<field name="SYMBOL_LIST">${config.market}</field>`
-            );
-
-            // Replace stake values - target the specific blocks
-            // Update initial stake (first occurrence with value 2)
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="TDv\/W;dNI84TFbp}8X8=">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${config.stake}$2`
-            );
-
-            // Update initial stake variable (second occurrence with value 2) - CRITICAL: Both stakes must match!
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="9Z%4%dmqCp;\/sSt8wGv#">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${config.stake}$2`
-            );
-
-            // Update martingale split value
-            const martingaleValue =
-                typeof config.parameters.martingaleSplit === 'number' ? config.parameters.martingaleSplit : 2.2;
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="Ib,Krc`nUJzn1KMo9\)`A">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${martingaleValue}$2`
-            );
-
-            // Update prediction before loss
-            const predictionBeforeLoss =
-                typeof config.parameters.predictionBeforeLoss === 'number' ? config.parameters.predictionBeforeLoss : 2;
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="~\]Q~lGg\)3FCGB95VKA`b">[\s]*<field name="NUM">)2(<\/field>)/,
-                `$1${predictionBeforeLoss}$2`
-            );
-
-            // Update prediction after loss
-            const predictionAfterLoss =
-                typeof config.parameters.predictionAfterLoss === 'number' ? config.parameters.predictionAfterLoss : 3;
-            configuredXML = configuredXML.replace(
-                /(<block type="math_number" id="\(6\)D~Nlfu\/PCG\*s5!9Qy">[\s]*<field name="NUM">)3(<\/field>)/,
-                `$1${predictionAfterLoss}$2`
-            );
-
-            console.log('✅ String replacement configuration completed with values:', {
-                stake: config.stake,
-                initalStake: config.stake, // Both stakes now match
-                martingale: martingaleValue,
-                predictionBeforeLoss,
-                predictionAfterLoss,
-            });
-        } catch (error) {
-            console.warn('String replacement also failed:', error);
-        }
+        return xml;
+    }
 
-        return configuredXML;
+    private getNumericParameter(config: RazielBotConfiguration, key: string, fallback: number): number {
+        const value = config.parameters[key];
+        return typeof value === 'number' ? value : fallback;
     }
 
     /**
@@ -1575,49 +1204,6 @@ class RazielBotLoaderService {
             'Raziel-Over-Under-Step4.xml',
         ];
     }
-
-    /**
-     * Fallback method to update stake using alternative selectors
-     */
-    private updateStakeWithFallback(xmlDoc: Document, stake: number): void {
-        // Try to find stake blocks by variable name
-        const stakeVariableBlocks = xmlDoc.querySelectorAll('field[name="VAR"]');
-
-        stakeVariableBlocks.forEach(varField => {
-            if (varField.textContent === 'Stake' || varField.getAttribute('id') === 'y)BE|l7At6oT)ur0Dsw?') {
-                const block = varField.closest('block');
-                const numField = block?.querySelector(
-                    'value[name="VALUE"] block[type="math_number"] field[name="NUM"]'
-                );
-                if (numField) {
-                    numField.textContent = stake.toString();
-                    console.log(`✅ Updated stake via fallback method: ${stake}`);
-                }
-            }
-        });
-    }
-
-    /**
-     * Fallback method to update martingale using alternative selectors
-     */
-    private updateMartingaleWithFallback(xmlDoc: Document, martingale: number): void {
-        // Try to find martingale blocks by variable name
-        const martingaleVariableBlocks = xmlDoc.querySelectorAll('field[name="VAR"]');
-
-        martingaleVariableBlocks.forEach(varField => {
-            if (varField.textContent === 'Martingale split' || varField.getAttribute('id') === '.5ELQ4[J.e4czk,qPqKM') {
-                const block = varField.closest('block');
-                const numField = block?.querySelector(
-                    'value[name="VALUE"] block[type="math_number"] field[name="NUM"]'
-                );
-                if (numField) {
-                    const martingaleValue = typeof martingale === 'number' ? martingale : 2.2;
-                    numField.textContent = martingaleValue.toString();
-                    console.log(`✅ Updated martingale via fallback method: ${martingaleValue}`);
-                }
-            }
-        });
-    }
 }
 
 export const razielBotLoaderService = new RazielBotLoaderService();
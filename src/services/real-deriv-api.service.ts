@@ -3,6 +3,8 @@
  * Handles live connection to Deriv's WebSocket API for real trading
  */
 
+import { getLocalServerEndpoint } from '../config/api-config';
+
 export interface DerivAPIConfig {
     apiToken: string;
     appId: string;
@@ -71,7 +73,7 @@ export class RealDerivAPIService {
      */
     async connect(config: DerivAPIConfig): Promise<void> {
         this.config = config;
-        const endpoint = config.endpoint || 'wss://ws.derivws.com/websockets/v3';
+        const endpoint = config.endpoint || getLocalServerEndpoint() || 'wss://ws.derivws.com/websockets/v3';
 
         return new Promise((resolve, reject) => {
             try {
@@ -5,6 +5,7 @@
 
 import { derivAPIService } from './deriv-api.service';
 import type { PatelSignal } from '@/types/patel-signals';
+import { fromPatelSignal, signalOutcomeTracker } from './signal-outcome-tracker.service';
 
 interface TickData {
     epoch: number;
@@ -192,6 +193,9 @@ class RealtimeOverSignalGeneratorService {
             .sort((a, b) => b.confidencePercentage - a.confidencePercentage)
             .slice(0, this.MAX_SIGNALS);
 
+        // Settle each signal on the following ticks for calibration
+        signalOutcomeTracker.trackMany(topSignals.map(signal => fromPatelSignal('REALTIME_OVER', signal)));
+
         // Notify listeners
         this.notifyListeners(topSignals);
     }
@@ -3,9 +3,12 @@
  * Analyzes real tick data to generate trading signals
  */
 
+import { combineProvenance, DataProvenance, TickProvenance } from './tick-source/tick-source';
+
 interface TickData {
     quote: number;
     epoch: number;
+    provenance: TickProvenance;
 }
 
 interface DigitAnalysis {
@@ -589,6 +592,13 @@ export class SignalAnalysisService {
         return this.tickHistory.slice(-count);
     }
 
+    /**
+     * Provenance of the most recent ticks, which signals are generated from
+     */
+    getProvenance(count: number = this.MAX_HISTORY): DataProvenance {
+        return combineProvenance(this.getRecentTicks(count).map(tick => tick.provenance));
+    }
+
     /**
      * Get current tick statistics
      */
@@ -7,6 +7,8 @@
 import { DBOT_TABS } from '@/constants/bot-contents';
 import type { RealSignal } from './advanced-algo-signal.service';
 import { adaptiveRecoveryStrategy } from './adaptive-recovery-strategy.service';
+import { type BotManifest, getBotManifest } from './bot-manifest/bot-manifest';
+import { writeBotParameters } from './bot-manifest/bot-xml-parameters';
 import { stakeManager } from './stake-manager.service';
 
 export interface BotConfiguration {
@@ -723,10 +725,23 @@ class SignalBotLoaderService {
 
     /**
      * Update martingale fields in bot XML - CENTRALIZED METHOD
-     * This is the main method that should be used by all bot loading functions
+     * This is the main method that should be used by all bot loading functions.
+     * Bundled bots are updated through their manifest; other bots fall back to matching variable names.
      */
-    public updateMartingaleInXML(xmlDoc: Document, targetMartingale?: number): MartingaleUpdateResult {
+    public updateMartingaleInXML(
+        xmlDoc: Document,
+        targetMartingale?: number,
+        botFile?: string
+    ): MartingaleUpdateResult {
         const martingaleValue = targetMartingale || stakeManager.getMartingale();
+
+        console.log(`🎯 [SignalBotLoader] Updating martingale to: ${martingaleValue}`);
+
+        const manifest = botFile ? getBotManifest(botFile) : undefined;
+        if (manifest) {
+            return this.updateManifestParameter(xmlDoc, manifest, 'martingale', martingaleValue);
+        }
+
         const result: MartingaleUpdateResult = {
             success: false,
             fieldsUpdated: 0,
@@ -734,8 +749,6 @@ class SignalBotLoaderService {
             errors: [],
         };
 
-        console.log(`🎯 [SignalBotLoader] Updating martingale to: ${martingaleValue}`);
-
         try {
             // Method 1: Update by specific block ID
             const martingaleBlock = xmlDoc.querySelector('block[id="multiplier_value"] field[name="NUM"]');
@@ -820,8 +833,16 @@ class SignalBotLoaderService {
     /**
      * Update stake fields in bot XML - CENTRALIZED METHOD
      */
-    public updateStakeInXML(xmlDoc: Document, targetStake?: number): MartingaleUpdateResult {
+    public updateStakeInXML(xmlDoc: Document, targetStake?: number, botFile?: string): MartingaleUpdateResult {
         const stakeValue = targetStake || stakeManager.getStake();
+
+        console.log(`💰 [SignalBotLoader] Updating stake to: ${stakeValue}`);
+
+        const manifest = botFile ? getBotManifest(botFile) : undefined;
+        if (manifest) {
+            return this.updateManifestParameter(xmlDoc, manifest, 'stake', stakeValue);
+        }
+
         const result: MartingaleUpdateResult = {
             success: false,
             fieldsUpdated: 0,
@@ -829,8 +850,6 @@ class SignalBotLoaderService {
             errors: [],
         };
 
-        console.log(`💰 [SignalBotLoader] Updating stake to: ${stakeValue}`);
-
         try {
             // Update stake fields
             const stakeFields = xmlDoc.querySelectorAll('field[name="NUM"]');
@@ -875,7 +894,10 @@ class SignalBotLoaderService {
      * Apply StakeManager settings to bot XML - COMPREHENSIVE METHOD
      * This method updates both stake and martingale using StakeManager values
      */
-    public applyStakeManagerSettings(xmlDoc: Document): {
+    public applyStakeManagerSettings(
+        xmlDoc: Document,
+        botFile?: string
+    ): {
         fieldsUpdated: number;
         stakeUpdated: boolean;
         martingaleUpdated: boolean;
@@ -883,8 +905,8 @@ class SignalBotLoaderService {
     } {
         console.log('🎯 [SignalBotLoader] Applying StakeManager settings to bot XML...');
 
-        const stakeResult = this.updateStakeInXML(xmlDoc);
-        const martingaleResult = this.updateMartingaleInXML(xmlDoc);
+        const stakeResult = this.updateStakeInXML(xmlDoc, undefined, botFile);
+        const martingaleResult = this.updateMartingaleInXML(xmlDoc, undefined, botFile);
 
         // Combine results into expected format
         const combinedResult = {
@@ -924,9 +946,13 @@ class SignalBotLoaderService {
 
     /**
      * Set "Amount" variable equal to "Initial Stake" variable in bot XML
-     * This ensures both variables have the same value for consistent stake management
+     * This ensures both variables have the same value for consistent stake management.
+     * Bundled bots are skipped: their manifest already maps the stake to the right variable.
      */
-    public setAmountEqualToInitialStake(xmlDoc: Document): {
+    public setAmountEqualToInitialStake(
+        xmlDoc: Document,
+        botFile?: string
+    ): {
         success: boolean;
         amountUpdated: boolean;
         initialStakeValue: number | null;
@@ -941,6 +967,13 @@ class SignalBotLoaderService {
             details: [] as string[],
         };
 
+        const manifest = botFile ? getBotManifest(botFile) : undefined;
+        if (manifest) {
+            result.success = true;
+            result.details.push(`${manifest.name} stake is set through its manifest; nothing to sync`);
+            return result;
+        }
+
         try {
             // Step 1: Find the "Initial Stake" variable value
             const allVariableFields = xmlDoc.querySelectorAll('block[type="variables_set"] field[name="VAR"]');
@@ -998,6 +1031,36 @@ class SignalBotLoaderService {
 
         return result;
     }
+
+    // Private helper methods
+
+    private updateManifestParameter(
+        xmlDoc: Document,
+        manifest: BotManifest,
+        key: string,
+        value: number
+    ): MartingaleUpdateResult {
+        const result: MartingaleUpdateResult = {
+            success: false,
+            fieldsUpdated: 0,
+            updatedFields: [],
+            errors: [],
+        };
+
+        try {
+            const { applied, missing } = writeBotParameters(xmlDoc, manifest, { [key]: value });
+            result.success = applied.length > 0;
+            result.fieldsUpdated = applied.length;
+            result.updatedFields = applied.map(parameter => `${manifest.name} ${parameter}: ${value}`);
+            result.errors = missing.map(parameter => `${manifest.name} has no blocks for ${parameter}`);
+            console.log(`✅ ${manifest.name} ${key} set to ${value} via manifest`);
+        } catch (error) {
+            result.errors.push(`Error updating ${key}: ${error}`);
+            console.error(`❌ Error updating ${key} in ${manifest.name}:`, error);
+        }
+
+        return result;
+    }
 }
 
 export const signalBotLoader = new SignalBotLoaderService();
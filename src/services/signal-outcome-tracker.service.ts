@@ -0,0 +1,563 @@
+/**
+ * Signal Outcome Tracker Service
+ * Settles every emitted signal against the ticks that follow it and keeps hit rates per
+ * generator, signal type and confidence bucket, so claimed confidence can be compared
+ * with how often the recommendation actually came true.
+ */
+
+import localForage from 'localforage';
+import type { PatelSignal } from '../types/patel-signals';
+import type { RealSignal } from './advanced-algo-signal.service';
+import { tickFeed } from './tick-feed.service';
+import type { SourceTick } from './tick-source/tick-source';
+import type { AnalysisSignal } from './tickshark/signal-generator.service';
+
+export type SignalGeneratorId =
+    | 'ADVANCED_ALGO'
+    | 'HOT_COLD_ZONE'
+    | 'DIGIT_DISTRIBUTION'
+    | 'FIBONACCI_RANGING'
+    | 'PATEL'
+    | 'REALTIME_OVER'
+    | 'TICKSHARK';
+
+export const SIGNAL_GENERATOR_LABELS: Record<SignalGeneratorId, string> = {
+    ADVANCED_ALGO: 'Advanced Algo',
+    HOT_COLD_ZONE: 'Hot/Cold Zone',
+    DIGIT_DISTRIBUTION: 'Digit Distribution',
+    FIBONACCI_RANGING: 'Fibonacci Ranging',
+    PATEL: 'Patel Engine',
+    REALTIME_OVER: 'Realtime Over',
+    TICKSHARK: 'TickShark',
+};
+
+export type PredictedContract = 'OVER' | 'UNDER' | 'MATCHES' | 'DIFFERS' | 'EVEN' | 'ODD' | 'RISE' | 'FALL';
+
+export interface SignalPrediction {
+    contract: PredictedContract;
+    barrier?: number; // digit for OVER/UNDER/MATCHES/DIFFERS
+    durationTicks: number;
+}
+
+export interface TrackedSignalInput {
+    generator: SignalGeneratorId;
+    signalId?: string;
+    signalType: string;
+    symbol: string;
+    confidence: number; // 0-100, the generator's claimed probability
+    prediction: SignalPrediction;
+    emittedAt?: number;
+}
+
+export type SignalOutcomeStatus = 'PENDING' | 'WON' | 'LOST' | 'EXPIRED';
+
+export interface SignalOutcome extends TrackedSignalInput {
+    id: string;
+    emittedAt: number;
+    status: SignalOutcomeStatus;
+    entryQuote?: number;
+    exitQuote?: number;
+    exitDigit?: number;
+    settledAt?: number;
+}
+
+export interface HitRateStats {
+    settled: number;
+    wins: number;
+    losses: number;
+    hitRate: number; // 0-100
+    avgClaimed: number; // 0-100
+    calibrationGap: number; // avgClaimed - hitRate; positive means overconfident
+    brierScore: number; // 0 (perfect) - 1
+}
+
+export interface CalibrationBucket {
+    from: number;
+    to: number;
+    settled: number;
+    wins: number;
+    claimed: number; // average claimed confidence in the bucket, 0-100
+    realised: number; // hit rate in the bucket, 0-100
+}
+
+export interface CalibrationReport {
+    overall: HitRateStats;
+    byGenerator: Partial<Record<SignalGeneratorId, HitRateStats>>;
+    bySignalType: Record<string, HitRateStats>;
+    buckets: CalibrationBucket[];
+    expired: number;
+    pending: number;
+}
+
+export interface CalibrationQuery {
+    generator?: SignalGeneratorId;
+    signalType?: string;
+    from?: number;
+}
+
+interface PendingSignal {
+    outcome: SignalOutcome;
+    ticks: SourceTick[];
+    expiryTimer: ReturnType<typeof setTimeout>;
+}
+
+const BUCKET_WIDTH = 10;
+const MAX_STORED_OUTCOMES = 10000;
+const PRUNE_EVERY_WRITES = 200;
+const PENDING_EXPIRY_MS = 5 * 60 * 1000;
+const MAX_PENDING_PER_SYMBOL = 200;
+const DEFAULT_DURATION_TICKS = 5;
+
+const DIGIT_BARRIER_CONTRACTS: PredictedContract[] = ['OVER', 'UNDER', 'MATCHES', 'DIFFERS'];
+
+/**
+ * Ticks needed after the signal before it settles. As on Deriv, the first tick after the
+ * signal is the entry tick; digit contracts count it as their first tick, RISE/FALL start after it.
+ */
+export const getRequiredTicks = (prediction: SignalPrediction): number =>
+    prediction.contract === 'RISE' || prediction.contract === 'FALL'
+        ? prediction.durationTicks + 1
+        : prediction.durationTicks;
+
+/**
+ * Whether the recommended contract won; null until enough ticks have arrived
+ */
+export const evaluatePrediction = (prediction: SignalPrediction, ticks: SourceTick[]): boolean | null => {
+    const required = getRequiredTicks(prediction);
+    if (ticks.length < required) return null;
+
+    const entry = ticks[0];
+    const exit = ticks[required - 1];
+    const barrier = prediction.barrier ?? 0;
+
+    switch (prediction.contract) {
+        case 'OVER':
+            return exit.lastDigit > barrier;
+        case 'UNDER':
+            return exit.lastDigit < barrier;
+        case 'MATCHES':
+            return exit.lastDigit === barrier;
+        case 'DIFFERS':
+            return exit.lastDigit !== barrier;
+        case 'EVEN':
+            return exit.lastDigit % 2 === 0;
+        case 'ODD':
+            return exit.lastDigit % 2 === 1;
+        case 'RISE':
+            return exit.quote > entry.quote;
+        case 'FALL':
+            return exit.quote < entry.quote;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Hit rate, calibration gap and Brier score of settled outcomes
+ */
+export const summariseOutcomes = (outcomes: SignalOutcome[]): HitRateStats => {
+    const settled = outcomes.filter(outcome => outcome.status === 'WON' || outcome.status === 'LOST');
+    const wins = settled.filter(outcome => outcome.status === 'WON').length;
+    const hitRate = settled.length ? (wins / settled.length) * 100 : 0;
+    const avgClaimed = settled.length
+        ? settled.reduce((sum, outcome) => sum + outcome.confidence, 0) / settled.length
+        : 0;
+    const brierScore = settled.length
+        ? settled.reduce((sum, outcome) => {
+              const error = outcome.confidence / 100 - (outcome.status === 'WON' ? 1 : 0);
+              return sum + error * error;
+          }, 0) / settled.length
+        : 0;
+
+    return {
+        settled: settled.length,
+        wins,
+        losses: settled.length - wins,
+        hitRate,
+        avgClaimed,
+        calibrationGap: settled.length ? avgClaimed - hitRate : 0,
+        brierScore,
+    };
+};
+
+/**
+ * Claimed vs realised probability in 10-point confidence buckets; empty buckets are left out
+ */
+export const buildCalibrationBuckets = (outcomes: SignalOutcome[]): CalibrationBucket[] => {
+    const buckets: CalibrationBucket[] = [];
+
+    for (let from = 0; from < 100; from += BUCKET_WIDTH) {
+        const to = from + BUCKET_WIDTH;
+        const inBucket = outcomes.filter(outcome => {
+            const confidence = Math.min(Math.max(outcome.confidence, 0), 99.999);
+            return confidence >= from && confidence < to;
+        });
+        const stats = summariseOutcomes(inBucket);
+        if (stats.settled === 0) continue;
+
+        buckets.push({
+            from,
+            to,
+            settled: stats.settled,
+            wins: stats.wins,
+            claimed: stats.avgClaimed,
+            realised: stats.hitRate,
+        });
+    }
+
+    return buckets;
+};
+
+// Adapters from each generator's signal shape
+
+const parseDurationTicks = (duration?: string | number): number => {
+    const ticks = typeof duration === 'number' ? duration : parseInt(duration ?? '', 10);
+    return Number.isInteger(ticks) && ticks > 0 ? Math.min(ticks, 10) : DEFAULT_DURATION_TICKS;
+};
+
+/**
+ * Advanced Algo `RealSignal`; predictions look like 'OVER5', 'UNDER3', 'EVEN' or 'RISE'
+ */
+export const fromRealSignal = (
+    signal: RealSignal,
+    durationTicks = DEFAULT_DURATION_TICKS
+): TrackedSignalInput | null => {
+    const match = /^(OVER|UNDER|MATCHES|DIFFERS|EVEN|ODD|RISE|FALL)(\d)?$/.exec(signal.prediction);
+    if (!match) return null;
+
+    return {
+        generator: 'ADVANCED_ALGO',
+        signalId: signal.id,
+        signalType: signal.signalType,
+        symbol: signal.market,
+        confidence: signal.confidence,
+        prediction: {
+            contract: match[1] as PredictedContract,
+            barrier: match[2] !== undefined ? Number(match[2]) : (signal.targetDigit ?? undefined),
+            durationTicks,
+        },
+        emittedAt: signal.timestamp,
+    };
+};
+
+/**
+ * Hot/Cold Zone, Digit Distribution and Fibonacci Ranging scanner signals share an
+ * OVER/UNDER `recommendation`
+ */
+export const fromScannerSignal = (
+    generator: SignalGeneratorId,
+    signal: {
+        market: string;
+        signalType?: string;
+        confidence: number;
+        recommendation: { action: 'OVER' | 'UNDER'; barrier: number; confidence: number };
+    },
+    durationTicks = DEFAULT_DURATION_TICKS
+): TrackedSignalInput => ({
+    generator,
+    signalType: signal.signalType ?? `${signal.recommendation.action}_${signal.recommendation.barrier}`,
+    symbol: signal.market,
+    confidence: signal.recommendation.confidence || signal.confidence,
+    prediction: { contract: signal.recommendation.action, barrier: signal.recommendation.barrier, durationTicks },
+});
+
+/**
+ * Patel engine and realtime over generator signals
+ */
+export const fromPatelSignal = (generator: SignalGeneratorId, signal: PatelSignal): TrackedSignalInput => {
+    const contract = signal.type as PredictedContract;
+    const barrier = contract === 'OVER' || contract === 'UNDER' ? (signal.barrier ?? signal.digit) : signal.digit;
+
+    return {
+        generator,
+        signalId: signal.id,
+        signalType: signal.strategy || signal.type,
+        symbol: signal.market,
+        confidence: signal.confidencePercentage,
+        prediction: { contract, barrier, durationTicks: parseDurationTicks(signal.duration) },
+        emittedAt: signal.timestamp,
+    };
+};
+
+/**
+ * TickShark `AnalysisSignal`; only contracts that settle on digits or direction are tracked,
+ * buying the first side of the pair as the execution layer does by default
+ */
+export const fromAnalysisSignal = (signal: AnalysisSignal): TrackedSignalInput | null => {
+    const contracts: Partial<Record<AnalysisSignal['type'], PredictedContract>> = {
+        RISE_FALL: 'RISE',
+        EVEN_ODD: 'EVEN',
+        MATCHES_DIFFERS: 'MATCHES',
+    };
+    const contract = contracts[signal.type];
+    if (!contract || (contract === 'MATCHES' && signal.prediction === undefined)) return null;
+
+    return {
+        generator: 'TICKSHARK',
+        signalId: signal.id,
+        signalType: `${signal.source}:${signal.type}`,
+        symbol: signal.symbol,
+        confidence: signal.confidence * 100,
+        prediction: {
+            contract,
+            barrier: contract === 'MATCHES' ? signal.prediction : undefined,
+            durationTicks: parseDurationTicks(signal.recommendedDuration),
+        },
+        emittedAt: signal.timestamp,
+    };
+};
+
+class SignalOutcomeTrackerService {
+    private store = localForage.createInstance({ name: 'pipnova', storeName: 'signal_outcomes' });
+    private pending: Map<string, PendingSignal[]> = new Map();
+    private feedUnsubscribers: Map<string, () => void> = new Map();
+    // Keyed signal ids and when they were emitted, kept until the signal is too old to be tracked again
+    private trackedIds: Map<string, number> = new Map();
+    private listeners: Set<(outcome: SignalOutcome) => void> = new Set();
+    private writesSincePrune = 0;
+    private nextId = 1;
+
+    /**
+     * Start watching the ticks after a signal. Signals with an id are tracked once, so
+     * generators that re-publish their whole list can hand it over every time; signals with an
+     * id that are older than the pending expiry are ignored, since their id may have been pruned.
+     */
+    track(input: TrackedSignalInput | null): SignalOutcome | null {
+        if (!input || !this.isValidPrediction(input.prediction)) return null;
+
+        const emittedAt = input.emittedAt ?? Date.now();
+        const key = input.signalId ? `${input.generator}:${input.signalId}` : null;
+        if (key) {
+            if (this.trackedIds.has(key) || this.isStale(emittedAt)) return null;
+            this.trackedIds.set(key, emittedAt);
+        }
+
+        const outcome: SignalOutcome = {
+            ...input,
+            id: key ?? `${input.generator}:${Date.now()}-${this.nextId++}`,
+            emittedAt,
+            status: 'PENDING',
+        };
+
+        const queue = this.pending.get(input.symbol) ?? [];
+        queue.push({
+            outcome,
+            ticks: [],
+            expiryTimer: setTimeout(() => this.expire(outcome.symbol, outcome.id), PENDING_EXPIRY_MS),
+        });
+        this.pending.set(input.symbol, queue);
+
+        // Keep a runaway generator from piling up unsettled signals
+        if (queue.length > MAX_PENDING_PER_SYMBOL) {
+            this.expire(input.symbol, queue[0].outcome.id);
+        }
+
+        this.ensureFeed(input.symbol);
+        return outcome;
+    }
+
+    trackMany(inputs: Array<TrackedSignalInput | null>): SignalOutcome[] {
+        return inputs.map(input => this.track(input)).filter((outcome): outcome is SignalOutcome => !!outcome);
+    }
+
+    /**
+     * Signals still waiting for their ticks
+     */
+    getPending(): SignalOutcome[] {
+        return [...this.pending.values()].flat().map(entry => ({ ...entry.outcome }));
+    }
+
+    /**
+     * Settled and expired outcomes, oldest first
+     */
+    async getOutcomes(query: CalibrationQuery = {}): Promise<SignalOutcome[]> {
+        const outcomes: SignalOutcome[] = [];
+
+        try {
+            await this.store.iterate<SignalOutcome, void>(outcome => {
+                if (query.generator && outcome.generator !== query.generator) return;
+                if (query.signalType && outcome.signalType !== query.signalType) return;
+                if (query.from !== undefined && outcome.emittedAt < query.from) return;
+                outcomes.push(outcome);
+            });
+        } catch (error) {
+            console.error('❌ Failed to read signal outcomes:', error);
+        }
+
+        return outcomes.sort((a, b) => a.emittedAt - b.emittedAt);
+    }
+
+    /**
+     * Hit rates and calibration buckets for the stored outcomes
+     */
+    async getReport(query: CalibrationQuery = {}): Promise<CalibrationReport> {
+        const outcomes = await this.getOutcomes(query);
+
+        const byGenerator: CalibrationReport['byGenerator'] = {};
+        this.groupBy(outcomes, outcome => outcome.generator).forEach((group, generator) => {
+            byGenerator[generator as SignalGeneratorId] = summariseOutcomes(group);
+        });
+
+        const bySignalType: CalibrationReport['bySignalType'] = {};
+        this.groupBy(outcomes, outcome => outcome.signalType).forEach((group, signalType) => {
+            bySignalType[signalType] = summariseOutcomes(group);
+        });
+
+        return {
+            overall: summariseOutcomes(outcomes),
+            byGenerator,
+            bySignalType,
+            buckets: buildCalibrationBuckets(outcomes),
+            expired: outcomes.filter(outcome => outcome.status === 'EXPIRED').length,
+            pending: this.getPending().filter(outcome => !query.generator || outcome.generator === query.generator)
+                .length,
+        };
+    }
+
+    /**
+     * Notified whenever a signal settles or expires
+     */
+    subscribe(listener: (outcome: SignalOutcome) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Forget stored outcomes and stop watching pending signals
+     */
+    async clear(): Promise<void> {
+        this.pending.forEach(queue => queue.forEach(entry => clearTimeout(entry.expiryTimer)));
+        this.pending.clear();
+        this.feedUnsubscribers.forEach(unsubscribe => unsubscribe());
+        this.feedUnsubscribers.clear();
+        this.trackedIds.clear();
+
+        try {
+            await this.store.clear();
+        } catch (error) {
+            console.error('❌ Failed to clear signal outcomes:', error);
+        }
+    }
+
+    // Private helper methods
+
+    private isValidPrediction(prediction: SignalPrediction): boolean {
+        if (!Number.isInteger(prediction.durationTicks) || prediction.durationTicks < 1) return false;
+        if (!DIGIT_BARRIER_CONTRACTS.includes(prediction.contract)) return true;
+
+        const barrier = prediction.barrier;
+        return barrier !== undefined && Number.isInteger(barrier) && barrier >= 0 && barrier <= 9;
+    }
+
+    private ensureFeed(symbol: string): void {
+        if (this.feedUnsubscribers.has(symbol)) return;
+        this.feedUnsubscribers.set(
+            symbol,
+            tickFeed.subscribe(symbol, tick => this.handleTick(symbol, tick))
+        );
+    }
+
+    private releaseFeedIfIdle(symbol: string): void {
+        if (this.pending.get(symbol)?.length) return;
+        this.pending.delete(symbol);
+        this.feedUnsubscribers.get(symbol)?.();
+        this.feedUnsubscribers.delete(symbol);
+    }
+
+    private handleTick(symbol: string, tick: SourceTick): void {
+        const queue = this.pending.get(symbol);
+        if (!queue) return;
+
+        const remaining: PendingSignal[] = [];
+        queue.forEach(entry => {
+            entry.ticks.push(tick);
+            const won = evaluatePrediction(entry.outcome.prediction, entry.ticks);
+            if (won === null) {
+                remaining.push(entry);
+                return;
+            }
+
+            clearTimeout(entry.expiryTimer);
+            const exit = entry.ticks[getRequiredTicks(entry.outcome.prediction) - 1];
+            this.finish({
+                ...entry.outcome,
+                status: won ? 'WON' : 'LOST',
+                entryQuote: entry.ticks[0].quote,
+                exitQuote: exit.quote,
+                exitDigit: exit.lastDigit,
+                settledAt: Date.now(),
+            });
+        });
+
+        this.pending.set(symbol, remaining);
+        this.releaseFeedIfIdle(symbol);
+    }
+
+    private expire(symbol: string, id: string): void {
+        const queue = this.pending.get(symbol) ?? [];
+        const entry = queue.find(item => item.outcome.id === id);
+        if (!entry) return;
+
+        clearTimeout(entry.expiryTimer);
+        this.pending.set(
+            symbol,
+            queue.filter(item => item !== entry)
+        );
+        this.finish({ ...entry.outcome, status: 'EXPIRED', settledAt: Date.now() });
+        this.releaseFeedIfIdle(symbol);
+    }
+
+    private isStale(emittedAt: number): boolean {
+        return Date.now() - emittedAt > PENDING_EXPIRY_MS;
+    }
+
+    private finish(outcome: SignalOutcome): void {
+        // Settled ids only need remembering while a re-published copy would still be tracked
+        this.trackedIds.forEach((emittedAt, key) => {
+            if (this.isStale(emittedAt)) this.trackedIds.delete(key);
+        });
+        this.persist(outcome);
+        this.listeners.forEach(listener => {
+            try {
+                listener(outcome);
+            } catch (error) {
+                console.error('Error in signal outcome listener:', error);
+            }
+        });
+    }
+
+    private async persist(outcome: SignalOutcome): Promise<void> {
+        try {
+            await this.store.setItem(outcome.id, outcome);
+            if (++this.writesSincePrune >= PRUNE_EVERY_WRITES) {
+                this.writesSincePrune = 0;
+                await this.prune();
+            }
+        } catch (error) {
+            console.error('❌ Failed to store signal outcome:', error);
+        }
+    }
+
+    /**
+     * Drop the oldest outcomes once over the storage cap
+     */
+    private async prune(): Promise<void> {
+        const outcomes = await this.getOutcomes();
+        const excess = outcomes.length - MAX_STORED_OUTCOMES;
+        for (const outcome of outcomes.slice(0, Math.max(excess, 0))) {
+            await this.store.removeItem(outcome.id);
+        }
+    }
+
+    private groupBy(outcomes: SignalOutcome[], key: (outcome: SignalOutcome) => string): Map<string, SignalOutcome[]> {
+        const groups = new Map<string, SignalOutcome[]>();
+        outcomes.forEach(outcome => {
+            const group = groups.get(key(outcome)) ?? [];
+            group.push(outcome);
+            groups.set(key(outcome), group);
+        });
+        return groups;
+    }
+}
+
+export const signalOutcomeTracker = new SignalOutcomeTrackerService();
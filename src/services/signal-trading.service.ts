@@ -4,7 +4,10 @@
  */
 
 import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+import { accountRiskGate } from './account-risk-gate.service';
 import { derivAPIService } from './deriv-api.service';
+import { DataProvenance, isTradeableProvenance } from './tick-source/tick-source';
+import { tradeLedger } from './trade-ledger.service';
 
 export interface SignalTradeConfig {
     signalId: string;
@@ -288,6 +291,8 @@ class SignalTradingService {
         config: SignalTradeConfig,
         callback?: (result: SignalTradeResult) => void
     ): Promise<SignalTradeResult> {
+        let riskTicketId: string | undefined;
+
         try {
             // STRICT VALIDATION: Ensure stake is valid
             if (!config.stake || config.stake <= 0 || isNaN(config.stake)) {
@@ -365,6 +370,26 @@ class SignalTradingService {
             const validatedStake = this.validateStake(config.stake, 'pre-proposal');
             console.log('💰 Final validated stake:', validatedStake);
 
+            // Account-level risk gate shared with the other auto-trading engines
+            const riskDecision = accountRiskGate.requestApproval({
+                engine: 'SIGNALS',
+                stake: validatedStake,
+                symbol: config.market,
+                contractType,
+            });
+            if (!riskDecision.allowed) {
+                const errorResult: SignalTradeResult = {
+                    success: false,
+                    error: riskDecision.message,
+                    signalId: config.signalId,
+                    timestamp: Date.now(),
+                };
+                this.addToHistory(errorResult);
+                if (callback) callback(errorResult);
+                return errorResult;
+            }
+            riskTicketId = riskDecision.ticketId;
+
             // Get proposal
             console.log('📝 Getting proposal...');
             const proposal = await this.getProposal({
@@ -394,6 +419,7 @@ class SignalTradingService {
                     durationUnit: config.durationUnit,
                     barrier,
                 });
+                accountRiskGate.releaseTicket(riskTicketId!);
                 this.addToHistory(errorResult);
                 if (callback) callback(errorResult);
 
@@ -422,6 +448,7 @@ class SignalTradingService {
                     timestamp: Date.now(),
                 };
                 console.error('❌ Buy failed:', errorMsg);
+                accountRiskGate.releaseTicket(riskTicketId!);
                 this.addToHistory(errorResult);
                 if (callback) callback(errorResult);
                 alert(`Trade failed: ${errorMsg}`);
@@ -433,6 +460,7 @@ class SignalTradingService {
 
             // Store active contract
             if (buyResponse.buy?.contract_id) {
+                accountRiskGate.attachContract(riskTicketId!, buyResponse.buy.contract_id);
                 this.activeContracts.set(buyResponse.buy.contract_id, config);
 
                 // Add metadata to identify this as a signal trade
@@ -482,6 +510,7 @@ class SignalTradingService {
                 timestamp: Date.now(),
             };
             console.error('❌ Trade execution error:', errorMsg, error);
+            if (riskTicketId) accountRiskGate.releaseTicket(riskTicketId);
             this.addToHistory(errorResult);
             if (callback) callback(errorResult);
             alert(`Trade failed: ${errorMsg}`);
@@ -709,9 +738,25 @@ class SignalTradingService {
             const profit = Number(contract.profit) || 0;
             const isWon = profit > 0;
 
+            accountRiskGate.recordSettlement(contractId, profit);
+
             // Get the original trade config
             const config = this.activeContracts.get(contractId);
 
+            tradeLedger.record({
+                contractId,
+                engine: 'SIGNALS',
+                strategy: config?.type || signalId,
+                symbol: config?.market || String(contract.underlying || ''),
+                contractType: contract.contract_type as string | undefined,
+                stake: Number(contract.buy_price) || config?.stake || 0,
+                payout: Number(contract.payout) || 0,
+                profit,
+                entrySpot: Number(contract.entry_spot) || undefined,
+                exitSpot: Number(contract.exit_tick ?? contract.sell_spot) || undefined,
+                settledAt: Number(contract.sell_time) * 1000 || undefined,
+            });
+
             // Find and update the existing trade in history
             const existingTradeIndex = this.tradeHistory.findIndex(t => t.contractId === contractId);
 
@@ -1006,7 +1051,13 @@ class SignalTradingService {
     /**
      * Check if signal should be auto-traded
      */
-    shouldAutoTrade(signal: { confidence: string; market: string; type: string; status: string }): boolean {
+    shouldAutoTrade(signal: {
+        confidence: string;
+        market: string;
+        type: string;
+        status: string;
+        provenance?: DataProvenance;
+    }): boolean {
         if (!this.autoTradeConfig.enabled) return false;
         if (this.isPaused) {
             console.log('⏸️ Auto-trade is paused');
@@ -1014,6 +1065,12 @@ class SignalTradingService {
         }
         if (signal.status !== 'ACTIVE') return false;
 
+        // Signals built on replayed, generated, mixed or untagged ticks are never traded automatically
+        if (!signal.provenance || !isTradeableProvenance(signal.provenance)) {
+            console.log(`🚫 Auto-trade blocked: signal is based on ${signal.provenance ?? 'untagged'} data`);
+            return false;
+        }
+
         // Check confidence
         const confidenceLevels = { LOW: 1, MEDIUM: 2, HIGH: 3 };
         const minLevel = confidenceLevels[this.autoTradeConfig.minConfidence];
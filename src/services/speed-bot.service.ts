@@ -4,7 +4,9 @@
  */
 
 import { api_base } from '@/external/bot-skeleton/services/api/api-base';
+import { accountRiskGate } from './account-risk-gate.service';
 import { derivAPIService } from './deriv-api.service';
+import { tradeLedger } from './trade-ledger.service';
 
 export interface SpeedBotConfig {
     market: string;
@@ -188,7 +190,21 @@ class SpeedBotService {
     private async placeTrade(): Promise<void> {
         if (!this.config || !this.isRunning) return;
 
+        let riskTicketId: string | undefined;
+
         try {
+            // Account-level risk gate shared with the other auto-trading engines
+            const riskDecision = accountRiskGate.requestApproval({
+                engine: 'SPEED_BOT',
+                stake: this.stats.currentStake,
+                symbol: this.config.market,
+            });
+            if (!riskDecision.allowed) {
+                this.notifyTradeUpdate({ type: 'error', error: riskDecision.message });
+                return;
+            }
+            riskTicketId = riskDecision.ticketId;
+
             // Notify trade started
             this.notifyTradeUpdate({ type: 'trade_started' });
 
@@ -197,6 +213,7 @@ class SpeedBotService {
 
             if (!proposal || !proposal.proposal) {
                 console.error('Failed to get proposal');
+                accountRiskGate.releaseTicket(riskTicketId!);
                 return;
             }
 
@@ -205,6 +222,7 @@ class SpeedBotService {
 
             if (!buyResponse || !buyResponse.buy) {
                 console.error('Error buying contract: No response');
+                accountRiskGate.releaseTicket(riskTicketId!);
                 this.notifyTradeUpdate({
                     type: 'error',
                     error: 'Failed to buy contract',
@@ -216,10 +234,12 @@ class SpeedBotService {
 
             // Monitor the contract
             if (buyResponse.buy?.contract_id) {
+                accountRiskGate.attachContract(riskTicketId!, buyResponse.buy.contract_id);
                 await this.monitorContract(buyResponse.buy.contract_id);
             }
         } catch (error) {
             console.error('Error placing trade:', error);
+            if (riskTicketId) accountRiskGate.releaseTicket(riskTicketId);
             this.notifyTradeUpdate({
                 type: 'error',
                 error: (error as Error).message,
@@ -293,6 +313,21 @@ class SpeedBotService {
             const profit = contract.profit || 0;
             const isWin = profit > 0;
 
+            accountRiskGate.recordSettlement(contract.contract_id, profit);
+            tradeLedger.record({
+                contractId: contract.contract_id,
+                engine: 'SPEED_BOT',
+                strategy: this.config?.strategy || 'Speed Bot',
+                symbol: contract.underlying || this.config?.market || '',
+                contractType: contract.contract_type,
+                stake: Number(contract.buy_price) || 0,
+                payout: Number(contract.payout) || 0,
+                profit,
+                entrySpot: Number(contract.entry_spot) || undefined,
+                exitSpot: Number(contract.exit_tick ?? contract.sell_spot) || undefined,
+                settledAt: Number(contract.sell_time) * 1000 || undefined,
+            });
+
             // Update stats
             this.stats.runs++;
             this.stats.totalPL += profit;
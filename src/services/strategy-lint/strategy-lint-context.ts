@@ -0,0 +1,238 @@
+/**
+ * Strategy Lint Context
+ * Read-only view of a Blockly workspace's XML that lint rules query: enabled blocks, variables,
+ * procedure definitions and how blocks nest inside one another
+ */
+
+export type StrategyLintSeverity = 'error' | 'warning';
+
+export interface StrategyLintFinding {
+    message: string;
+    blockId?: string;
+}
+
+export interface StrategyLintIssue extends StrategyLintFinding {
+    ruleId: string;
+    severity: StrategyLintSeverity;
+}
+
+export interface StrategyLintRule {
+    id: string;
+    severity: StrategyLintSeverity;
+    description: string;
+    check: (context: StrategyLintContext) => StrategyLintFinding[];
+}
+
+// A value written to a variable: variables_set, math_change or an argument passed to a procedure
+export interface VariableAssignment {
+    variableId: string;
+    block: Element;
+    value: Element | null;
+}
+
+export interface StrategyLintContext {
+    root: Element;
+    // Enabled blocks (including shadows standing in for an empty input), in document order
+    blocks: Element[];
+    topBlocks: Element[];
+    variables: Map<string, string>;
+    assignments: VariableAssignment[];
+    getBlocksOfType: (...types: string[]) => Element[];
+    // Id of the workspace variable a block's variable field refers to
+    getVariableId: (block: Element) => string | undefined;
+    getProcedure: (name: string) => Element | undefined;
+}
+
+const CONNECTION_TAGS = ['value', 'statement', 'next'];
+
+const isBlockElement = (element: Element | null): element is Element =>
+    !!element && (element.localName === 'block' || element.localName === 'shadow');
+
+const childElements = (element: Element, localName: string): Element[] =>
+    Array.from(element.children).filter(child => child.localName === localName);
+
+export const getBlockType = (block: Element): string => block.getAttribute('type') ?? '';
+
+export const getBlockId = (block: Element): string | undefined => block.getAttribute('id') ?? undefined;
+
+export const getField = (block: Element, name: string): Element | undefined =>
+    childElements(block, 'field').find(field => field.getAttribute('name') === name);
+
+export const getFieldValue = (block: Element, name: string): string | undefined =>
+    getField(block, name)?.textContent?.trim();
+
+// Variable fields are named VAR, or VARIABLE on statement blocks that store their result
+export const getVariableField = (block: Element): Element | undefined =>
+    getField(block, 'VAR') ?? getField(block, 'VARIABLE');
+
+/**
+ * The block connected to a value or statement input; a real block wins over its shadow
+ */
+export const getInputBlock = (block: Element, name: string): Element | null => {
+    const input = [...childElements(block, 'value'), ...childElements(block, 'statement')].find(
+        element => element.getAttribute('name') === name
+    );
+    if (!input) return null;
+
+    return childElements(input, 'block')[0] ?? childElements(input, 'shadow')[0] ?? null;
+};
+
+const getConnectedBlocks = (block: Element): Element[] =>
+    Array.from(block.children)
+        .filter(child => CONNECTION_TAGS.includes(child.localName))
+        .map(connection => childElements(connection, 'block')[0] ?? childElements(connection, 'shadow')[0])
+        .filter(isBlockElement);
+
+/**
+ * Every block nested in the given block's inputs and the stack following it
+ */
+export const getDescendants = (block: Element): Element[] =>
+    getConnectedBlocks(block).flatMap(child => [child, ...getDescendants(child)]);
+
+/**
+ * Blocks whose inputs contain the given block, innermost first. Blocks earlier in the same
+ * stack are skipped, since a block only sits in their "next" connection.
+ */
+export const getEnclosingBlocks = (block: Element): Element[] => {
+    const enclosing: Element[] = [];
+    let current = block;
+
+    while (isBlockElement(current.parentElement?.parentElement ?? null)) {
+        const connection = current.parentElement as Element;
+        const parent = connection.parentElement as Element;
+        if (connection.localName !== 'next') enclosing.push(parent);
+        current = parent;
+    }
+
+    return enclosing;
+};
+
+export const getTopBlock = (block: Element): Element => {
+    let current = block;
+    while (isBlockElement(current.parentElement?.parentElement ?? null)) {
+        current = current.parentElement?.parentElement as Element;
+    }
+    return current;
+};
+
+/**
+ * Blocks that follow the given block in its stack
+ */
+export const getFollowingBlocks = (block: Element): Element[] => {
+    const next = childElements(block, 'next')[0];
+    const following = next ? childElements(next, 'block')[0] : undefined;
+    return following ? [following, ...getFollowingBlocks(following)] : [];
+};
+
+const isDisabled = (block: Element) =>
+    block.getAttribute('disabled') === 'true' || block.getAttribute('enabled') === 'false';
+
+/**
+ * Build the lint context from a workspace <xml> element; disabled blocks and everything inside them
+ * are left out because they never run
+ */
+export const createLintContext = (root: Element): StrategyLintContext => {
+    const topBlocks = childElements(root, 'block').filter(block => !isDisabled(block));
+    const blocks: Element[] = [];
+
+    // A disabled block skips its inputs but still hands over to the block after it
+    const collect = (block: Element) => {
+        if (!isDisabled(block)) blocks.push(block);
+        Array.from(block.children)
+            .filter(child => CONNECTION_TAGS.includes(child.localName))
+            .filter(connection => connection.localName === 'next' || !isDisabled(block))
+            .forEach(connection => {
+                const child = childElements(connection, 'block')[0] ?? childElements(connection, 'shadow')[0];
+                if (isBlockElement(child)) collect(child);
+            });
+    };
+    topBlocks.forEach(collect);
+
+    const variables = new Map<string, string>();
+    childElements(root, 'variables').forEach(container =>
+        childElements(container, 'variable').forEach(variable => {
+            const id = variable.getAttribute('id');
+            if (id) variables.set(id, variable.textContent?.trim() ?? '');
+        })
+    );
+
+    // Blockly falls back to the variable's name when a field's id is not declared
+    const variableIdsByName = new Map(Array.from(variables.entries()).map(([id, name]) => [name, id]));
+    const getVariableId = (block: Element) => {
+        const field = getVariableField(block);
+        const id = field?.getAttribute('id') ?? undefined;
+        if (!field || (id && variables.has(id))) return id;
+
+        return variableIdsByName.get(field.textContent?.trim() ?? '') ?? id;
+    };
+
+    const getBlocksOfType = (...types: string[]) => blocks.filter(block => types.includes(getBlockType(block)));
+
+    const procedures = new Map<string, Element>();
+    getBlocksOfType('procedures_defreturn', 'procedures_defnoreturn').forEach(definition => {
+        const name = getFieldValue(definition, 'NAME');
+        if (name) procedures.set(name, definition);
+    });
+    const getProcedure = (name: string) => procedures.get(name);
+
+    const assignments: VariableAssignment[] = [];
+    getBlocksOfType('variables_set', 'math_change').forEach(block => {
+        const variableId = getVariableId(block);
+        if (variableId) {
+            assignments.push({
+                variableId,
+                block,
+                value: getInputBlock(block, getBlockType(block) === 'math_change' ? 'DELTA' : 'VALUE'),
+            });
+        }
+    });
+    getBlocksOfType('procedures_callreturn', 'procedures_callnoreturn').forEach(call => {
+        const name = childElements(call, 'mutation')[0]?.getAttribute('name') ?? '';
+        const definition = getProcedure(name);
+        const parameters = definition
+            ? childElements(childElements(definition, 'mutation')[0] ?? definition, 'arg')
+            : [];
+        parameters.forEach((parameter, index) => {
+            const declaredId = parameter.getAttribute('varid') ?? '';
+            const variableId = variables.has(declaredId)
+                ? declaredId
+                : (variableIdsByName.get(parameter.getAttribute('name') ?? '') ?? declaredId);
+            if (variableId) assignments.push({ variableId, block: call, value: getInputBlock(call, `ARG${index}`) });
+        });
+    });
+
+    return { root, blocks, topBlocks, variables, assignments, getBlocksOfType, getVariableId, getProcedure };
+};
+
+/**
+ * Whether a block, or any block nested in it, matches; calls to procedures are followed into their definitions
+ */
+export const referencesBlock = (
+    context: StrategyLintContext,
+    block: Element | null,
+    matches: (candidate: Element) => boolean,
+    visitedProcedures: Set<string> = new Set()
+): boolean => {
+    if (!block) return false;
+
+    return [block, ...getDescendants(block)].some(candidate => {
+        if (matches(candidate)) return true;
+        if (!getBlockType(candidate).startsWith('procedures_call')) return false;
+
+        const name = childElements(candidate, 'mutation')[0]?.getAttribute('name') ?? '';
+        const definition = context.getProcedure(name);
+        if (!definition || visitedProcedures.has(name)) return false;
+
+        visitedProcedures.add(name);
+        return getConnectedBlocks(definition).some(child =>
+            referencesBlock(context, child, matches, visitedProcedures)
+        );
+    });
+};
+
+export const isVariableGet = (context: StrategyLintContext, variableIds: string | Set<string>) => (block: Element) => {
+    if (getBlockType(block) !== 'variables_get') return false;
+
+    const variableId = context.getVariableId(block) ?? '';
+    return typeof variableIds === 'string' ? variableId === variableIds : variableIds.has(variableId);
+};
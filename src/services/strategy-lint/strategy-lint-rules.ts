@@ -0,0 +1,277 @@
+/**
+ * Strategy Lint Rules
+ * Built-in static checks run over a bot's workspace before it is run or after it is imported
+ */
+
+import { config } from '@/external/bot-skeleton/constants/config';
+import {
+    getBlockId,
+    getBlockType,
+    getEnclosingBlocks,
+    getField,
+    getFieldValue,
+    getFollowingBlocks,
+    getInputBlock,
+    getTopBlock,
+    getVariableField,
+    isVariableGet,
+    referencesBlock,
+    type StrategyLintContext,
+    type StrategyLintFinding,
+    type StrategyLintRule,
+} from './strategy-lint-context';
+
+const REQUIRED_BLOCKS: Record<string, string> = {
+    trade_definition: 'Trade parameters',
+    before_purchase: 'Purchase conditions',
+};
+
+const LOOP_BLOCKS = [
+    'controls_repeat',
+    'controls_repeat_ext',
+    'controls_whileUntil',
+    'controls_for',
+    'controls_forEach',
+];
+
+// Blocks that end the statement list they are in; trade_again returns from the after-purchase handler
+const TERMINATING_BLOCKS = ['trade_again', 'controls_flow_statements', 'procedures_ifreturn'];
+
+// Blocks other than variables_set and math_change that write to the variable in their VAR field;
+// blocks with a VARIABLE field (indicators, text_join) always write to it
+const VARIABLE_WRITING_BLOCKS = ['controls_for', 'controls_forEach', 'text_append'];
+
+const PROFIT_SOURCE_BLOCKS = ['total_profit', 'balance', 'read_details', 'sell_price'];
+
+const GROWTH_OPERATORS = ['MULTIPLY', 'POWER'];
+
+const getVariableName = (context: StrategyLintContext, variableId: string) =>
+    context.variables.get(variableId) ?? variableId;
+
+const isLimitCheck = (block: Element) => {
+    if (getBlockType(block) === 'math_constrain') return true;
+    if (getBlockType(block) !== 'logic_compare') return false;
+
+    // "x = null" only checks that a variable has been initialised
+    return ['A', 'B'].every(input => getBlockType(getInputBlock(block, input) ?? block) !== 'logic_null');
+};
+
+const getLimitChecks = (context: StrategyLintContext) => context.blocks.filter(isLimitCheck);
+
+const requiredBlocksRule: StrategyLintRule = {
+    id: 'missing-required-block',
+    severity: 'error',
+    description: 'The strategy needs trade parameters and purchase conditions to run',
+    check: context =>
+        Object.entries(REQUIRED_BLOCKS)
+            .filter(([type]) => !context.topBlocks.some(block => getBlockType(block) === type))
+            .map(([, label]) => ({ message: `The strategy has no "${label}" block, so it cannot run.` })),
+};
+
+const purchaseContractTypeRule: StrategyLintRule = {
+    id: 'purchase-contract-type',
+    severity: 'error',
+    description: 'Purchase blocks must buy a contract type selected in the trade parameters',
+    check: context => {
+        const tradeType = context.getBlocksOfType('trade_definition_tradetype')[0];
+        const contractType = context.getBlocksOfType('trade_definition_contracttype')[0];
+        const tradeTypeName = tradeType && getFieldValue(tradeType, 'TRADETYPE_LIST');
+        const selected = contractType && getFieldValue(contractType, 'TYPE_LIST');
+        if (!tradeTypeName || !selected) return [];
+
+        const { opposites } = config();
+        const options: object[] = opposites[tradeTypeName.toUpperCase() as keyof typeof opposites] ?? [];
+        const allowed = selected === 'both' ? options.flatMap(option => Object.keys(option)) : [selected];
+        if (allowed.length === 0) return [];
+
+        return context
+            .getBlocksOfType('purchase')
+            .filter(purchase => !allowed.includes(getFieldValue(purchase, 'PURCHASE_LIST') ?? ''))
+            .map(purchase => ({
+                message: `Purchase buys ${getFieldValue(purchase, 'PURCHASE_LIST')}, but the trade parameters only allow ${allowed.join(' or ')}.`,
+                blockId: getBlockId(purchase),
+            }));
+    },
+};
+
+const unreachableBlockRule: StrategyLintRule = {
+    id: 'unreachable-block',
+    severity: 'warning',
+    description: 'Blocks outside the main blocks, or after a block that ends its stack, never run',
+    check: context => {
+        const { mainBlocks, INDEPEDENT_BLOCKS } = config();
+        const runnable = [...mainBlocks, ...INDEPEDENT_BLOCKS];
+
+        const stray = context.topBlocks
+            .filter(block => !runnable.includes(getBlockType(block)))
+            .map(block => ({
+                message: `This "${getBlockType(block)}" block is not inside any main block and will not run.`,
+                blockId: getBlockId(block),
+            }));
+
+        const afterTerminator = context.blocks
+            .filter(block => TERMINATING_BLOCKS.includes(getBlockType(block)))
+            .map(block => getFollowingBlocks(block)[0])
+            .filter((block): block is Element => !!block)
+            .map(block => ({
+                message: `This "${getBlockType(block)}" block comes after a block that ends the stack and will never run.`,
+                blockId: getBlockId(block),
+            }));
+
+        return [...stray, ...afterTerminator];
+    },
+};
+
+const undefinedVariableRule: StrategyLintRule = {
+    id: 'undefined-variable',
+    severity: 'error',
+    description: 'Variables used by blocks must exist in the workspace',
+    check: context =>
+        context.blocks
+            .filter(block => {
+                const variableId = context.getVariableId(block);
+                return variableId !== undefined && !context.variables.has(variableId);
+            })
+            .map(block => ({
+                message: `This block uses the variable "${getVariableField(block)?.textContent}", which is not defined in the strategy.`,
+                blockId: getBlockId(block),
+            })),
+};
+
+const unassignedVariableRule: StrategyLintRule = {
+    id: 'unassigned-variable',
+    severity: 'warning',
+    description: 'Variables that are read but never set are always empty',
+    check: context => {
+        const assigned = new Set(context.assignments.map(assignment => assignment.variableId));
+        context.blocks
+            .filter(block => VARIABLE_WRITING_BLOCKS.includes(getBlockType(block)) || getField(block, 'VARIABLE'))
+            .forEach(block => {
+                const variableId = context.getVariableId(block);
+                if (variableId) assigned.add(variableId);
+            });
+
+        const reported = new Set<string>();
+        return context.getBlocksOfType('variables_get').reduce<StrategyLintFinding[]>((findings, block) => {
+            const variableId = context.getVariableId(block);
+            if (!variableId || !context.variables.has(variableId) || assigned.has(variableId)) return findings;
+            if (reported.has(variableId)) return findings;
+
+            reported.add(variableId);
+            findings.push({
+                message: `The variable "${getVariableName(context, variableId)}" is read but never set.`,
+                blockId: getBlockId(block),
+            });
+            return findings;
+        }, []);
+    },
+};
+
+const unboundedStakeGrowthRule: StrategyLintRule = {
+    id: 'unbounded-stake-growth',
+    severity: 'warning',
+    description: 'Variables that multiply themselves (e.g. a martingale multiplier) need a maximum',
+    check: context => {
+        const limitChecks = getLimitChecks(context);
+        const reported = new Set<string>();
+
+        return context.assignments.reduce<StrategyLintFinding[]>((findings, { variableId, block, value }) => {
+            if (reported.has(variableId) || getBlockType(block).startsWith('procedures_call')) return findings;
+
+            const readsItself = isVariableGet(context, variableId);
+            const grows =
+                getBlockType(block) === 'math_change'
+                    ? referencesBlock(context, value, readsItself)
+                    : referencesBlock(
+                          context,
+                          value,
+                          candidate =>
+                              getBlockType(candidate) === 'math_arithmetic' &&
+                              GROWTH_OPERATORS.includes(getFieldValue(candidate, 'OP') ?? '') &&
+                              referencesBlock(context, candidate, readsItself)
+                      );
+            if (!grows) return findings;
+
+            const isBounded = limitChecks.some(check => referencesBlock(context, check, readsItself));
+            if (isBounded) return findings;
+
+            reported.add(variableId);
+            findings.push({
+                message: `"${getVariableName(context, variableId)}" keeps growing with no maximum; a losing streak can raise the stake without limit.`,
+                blockId: getBlockId(block),
+            });
+            return findings;
+        }, []);
+    },
+};
+
+const profitLimitsRule: StrategyLintRule = {
+    id: 'missing-profit-limits',
+    severity: 'warning',
+    description: 'Strategies that trade again should stop at a take-profit or stop-loss',
+    check: context => {
+        const tradeAgain = context.getBlocksOfType('trade_again');
+        if (tradeAgain.length === 0) return [];
+
+        // Variables holding profit, directly or through other variables and procedure arguments
+        const profitVariables = new Set<string>();
+        const isProfitSource = (block: Element) =>
+            PROFIT_SOURCE_BLOCKS.includes(getBlockType(block)) || isVariableGet(context, profitVariables)(block);
+        let changed = true;
+        while (changed) {
+            changed = false;
+            context.assignments.forEach(({ variableId, value }) => {
+                if (!profitVariables.has(variableId) && referencesBlock(context, value, isProfitSource)) {
+                    profitVariables.add(variableId);
+                    changed = true;
+                }
+            });
+        }
+
+        const hasLimit = getLimitChecks(context).some(check => referencesBlock(context, check, isProfitSource));
+        if (hasLimit) return [];
+
+        return [
+            {
+                message:
+                    'The strategy trades again without checking total profit or balance, so it has no take-profit or stop-loss.',
+                blockId: getBlockId(tradeAgain[0]),
+            },
+        ];
+    },
+};
+
+const tradeAgainWithoutStopRule: StrategyLintRule = {
+    id: 'trade-again-without-stop',
+    severity: 'warning',
+    description: 'Trade again should run under a condition, not unconditionally or inside a loop',
+    check: context =>
+        context.getBlocksOfType('trade_again').reduce<StrategyLintFinding[]>((findings, block) => {
+            const enclosing = getEnclosingBlocks(block).filter(parent => parent !== getTopBlock(block));
+            const loop = enclosing.find(parent => LOOP_BLOCKS.includes(getBlockType(parent)));
+
+            if (loop) {
+                findings.push({
+                    message: 'Trade again is inside a loop; it ends the after-purchase block on its first pass.',
+                    blockId: getBlockId(block),
+                });
+            } else if (!enclosing.some(parent => getBlockType(parent) === 'controls_if')) {
+                findings.push({
+                    message: 'Trade again runs after every contract with no condition to stop.',
+                    blockId: getBlockId(block),
+                });
+            }
+            return findings;
+        }, []),
+};
+
+export const BUILT_IN_LINT_RULES: StrategyLintRule[] = [
+    requiredBlocksRule,
+    purchaseContractTypeRule,
+    undefinedVariableRule,
+    unreachableBlockRule,
+    unassignedVariableRule,
+    unboundedStakeGrowthRule,
+    profitLimitsRule,
+    tradeAgainWithoutStopRule,
+];
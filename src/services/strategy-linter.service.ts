@@ -0,0 +1,87 @@
+/**
+ * Strategy Linter Service
+ * Static analysis of a bot's Blockly workspace. Runs a pluggable set of rules over the workspace
+ * XML and reports errors (which stop the bot from running) and warnings with the offending block.
+ */
+
+import { parseBotXml } from './bot-manifest/bot-xml-parameters';
+import {
+    createLintContext,
+    type StrategyLintIssue,
+    type StrategyLintRule,
+} from './strategy-lint/strategy-lint-context';
+import { BUILT_IN_LINT_RULES } from './strategy-lint/strategy-lint-rules';
+
+export interface StrategyLintReport {
+    issues: StrategyLintIssue[];
+    errorCount: number;
+    warningCount: number;
+    hasErrors: boolean;
+}
+
+class StrategyLinterService {
+    private rules = new Map<string, StrategyLintRule>(BUILT_IN_LINT_RULES.map(rule => [rule.id, rule]));
+
+    /**
+     * Add a rule, replacing any rule with the same id
+     */
+    registerRule(rule: StrategyLintRule): void {
+        this.rules.set(rule.id, rule);
+    }
+
+    unregisterRule(ruleId: string): void {
+        this.rules.delete(ruleId);
+    }
+
+    getRules(): StrategyLintRule[] {
+        return Array.from(this.rules.values());
+    }
+
+    /**
+     * Lint workspace XML, given as text or as the <xml> element Blockly produces
+     */
+    lint(xml: string | Element): StrategyLintReport {
+        const root = typeof xml === 'string' ? parseBotXml(xml).documentElement : xml;
+        const context = createLintContext(root);
+
+        const issues = this.getRules().flatMap(rule => {
+            try {
+                return rule.check(context).map(finding => ({
+                    ...finding,
+                    ruleId: rule.id,
+                    severity: rule.severity,
+                }));
+            } catch (error) {
+                console.error(`❌ Strategy lint rule "${rule.id}" failed:`, error);
+                return [];
+            }
+        });
+
+        return this.createReport(issues);
+    }
+
+    /**
+     * Lint the blocks currently in a Blockly workspace (the main workspace by default)
+     */
+    lintWorkspace(workspace = window.Blockly?.derivWorkspace): StrategyLintReport {
+        if (!workspace) return this.createReport([]);
+
+        return this.lint(window.Blockly.Xml.workspaceToDom(workspace));
+    }
+
+    // Private helper methods
+
+    private createReport(issues: StrategyLintIssue[]): StrategyLintReport {
+        const sorted = [...issues].sort((a, b) => Number(b.severity === 'error') - Number(a.severity === 'error'));
+        const errorCount = sorted.filter(issue => issue.severity === 'error').length;
+
+        return {
+            issues: sorted,
+            errorCount,
+            warningCount: sorted.length - errorCount,
+            hasErrors: errorCount > 0,
+        };
+    }
+}
+
+export const strategyLinterService = new StrategyLinterService();
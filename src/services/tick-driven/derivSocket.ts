@@ -1,11 +1,12 @@
 /**
  * Deriv WebSocket Tick Service
- * Handles live tick data subscription with auto-reconnect and heartbeat
+ * Handles live tick data subscription through the shared tick feed
  *
  * SAFETY: This service only subscribes to tick data - NO TRADING ENDPOINTS
  */
 
-import { getWebSocketURL } from '../../config/api-config';
+import { tickFeed } from '../tick-feed.service';
+import type { SourceTick } from '../tick-source/tick-source';
 
 export interface TickData {
     price: number;
@@ -16,18 +17,12 @@ export interface TickData {
 
 export interface SocketConfig {
     symbol: string;
-    appId: string;
-    reconnectInterval: number;
-    heartbeatInterval: number;
 }
 
 export class DerivSocketService {
-    private ws: WebSocket | null = null;
     private config: SocketConfig;
     private isConnected = false;
-    private reconnectTimer: NodeJS.Timeout | null = null;
-    private heartbeatTimer: NodeJS.Timeout | null = null;
-    private subscriptionId: string | null = null;
+    private unsubscribe: (() => void) | null = null;
     private listeners: Map<string, ((data: TickData) => void)[]> = new Map();
 
     constructor(config: SocketConfig) {
@@ -39,160 +34,57 @@ export class DerivSocketService {
     }
 
     /**
-     * Connect to Deriv WebSocket
+     * Start receiving ticks from the shared tick feed
+     * (the feed's connection pool owns reconnects and heartbeats)
      */
     public async connect(): Promise<void> {
         if (this.isConnected) {
-            console.log('🔌 Already connected to Deriv WebSocket');
+            console.log('🔌 Already connected to Deriv tick feed');
             return;
         }
 
-        try {
-            const wsUrl = getWebSocketURL('frontend', { app_id: this.config.appId });
-            console.log('🔌 Connecting to Deriv WebSocket:', wsUrl);
-
-            this.ws = new WebSocket(wsUrl);
-
-            this.ws.onopen = () => {
-                console.log('✅ Connected to Deriv WebSocket');
-                this.isConnected = true;
-                this.startHeartbeat();
-                this.subscribeToTicks();
-                this.emit('connect', null);
-            };
-
-            this.ws.onmessage = event => {
-                this.handleMessage(JSON.parse(event.data));
-            };
-
-            this.ws.onclose = () => {
-                console.log('🔌 Deriv WebSocket disconnected');
-                this.isConnected = false;
-                this.stopHeartbeat();
-                this.emit('disconnect', null);
-                this.scheduleReconnect();
-            };
-
-            this.ws.onerror = error => {
-                console.error('❌ Deriv WebSocket error:', error);
-                this.emit('error', error);
-            };
-        } catch (error) {
-            console.error('❌ Failed to connect to Deriv WebSocket:', error);
-            this.scheduleReconnect();
-            throw error;
-        }
+        console.log('📡 Subscribing to ticks:', this.config.symbol);
+
+        this.unsubscribe = tickFeed.subscribe(this.config.symbol, tick => this.handleTick(tick));
+        this.isConnected = true;
+        this.emit('connect', null);
     }
 
     /**
-     * Disconnect from WebSocket
+     * Stop receiving ticks
      */
     public disconnect(): void {
-        console.log('🔌 Disconnecting from Deriv WebSocket');
+        console.log('🔌 Disconnecting from Deriv tick feed');
 
-        if (this.reconnectTimer) {
-            clearTimeout(this.reconnectTimer);
-            this.reconnectTimer = null;
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
         }
 
-        this.stopHeartbeat();
-
-        if (this.ws) {
-            this.ws.close();
-            this.ws = null;
+        if (this.isConnected) {
+            this.isConnected = false;
+            this.emit('disconnect', null);
         }
-
-        this.isConnected = false;
     }
 
     /**
-     * Subscribe to tick data for the configured symbol
+     * Convert feed ticks to the engine's tick format
      */
-    private async subscribeToTicks(): Promise<void> {
-        if (!this.ws || !this.isConnected) {
-            console.warn('⚠️ Cannot subscribe - not connected');
-            return;
-        }
-
-        const subscribeMessage = {
-            ticks: this.config.symbol,
-            subscribe: 1,
+    private handleTick(tick: SourceTick): void {
+        const tickData: TickData = {
+            price: tick.quote,
+            lastDigit: tick.lastDigit,
+            timestamp: Date.now(),
+            symbol: tick.symbol,
         };
 
-        console.log('📡 Subscribing to ticks:', subscribeMessage);
-        this.ws.send(JSON.stringify(subscribeMessage));
-    }
-
-    /**
-     * Handle incoming WebSocket messages
-     */
-    private handleMessage(data: any): void {
-        // Handle tick data
-        if (data.tick && data.tick.symbol === this.config.symbol) {
-            const tickData: TickData = {
-                price: data.tick.quote,
-                lastDigit: Math.floor((data.tick.quote * 10000) % 10),
-                timestamp: Date.now(),
-                symbol: data.tick.symbol,
-            };
-
-            console.log('📊 Tick received:', {
-                price: tickData.price,
-                digit: tickData.lastDigit,
-                symbol: tickData.symbol,
-            });
-
-            this.emit('tick', tickData);
-        }
-
-        // Handle subscription confirmation
-        if (data.subscription && data.subscription.id) {
-            this.subscriptionId = data.subscription.id;
-            console.log('✅ Tick subscription confirmed:', this.subscriptionId);
-        }
-
-        // Handle heartbeat
-        if (data.ping) {
-            this.ws?.send(JSON.stringify({ pong: data.ping }));
-        }
-    }
-
-    /**
-     * Start heartbeat to keep connection alive
-     */
-    private startHeartbeat(): void {
-        this.heartbeatTimer = setInterval(() => {
-            if (this.ws && this.isConnected) {
-                this.ws.send(JSON.stringify({ ping: 1 }));
-            }
-        }, this.config.heartbeatInterval);
-    }
-
-    /**
-     * Stop heartbeat
-     */
-    private stopHeartbeat(): void {
-        if (this.heartbeatTimer) {
-            clearInterval(this.heartbeatTimer);
-            this.heartbeatTimer = null;
-        }
-    }
-
-    /**
-     * Schedule reconnection attempt
-     */
-    private scheduleReconnect(): void {
-        if (this.reconnectTimer) {
-            return; // Already scheduled
-        }
-
-        console.log(`🔄 Scheduling reconnect in ${this.config.reconnectInterval}ms`);
+        console.log('📊 Tick received:', {
+            price: tickData.price,
+            digit: tickData.lastDigit,
+            symbol: tickData.symbol,
+        });
 
-        this.reconnectTimer = setTimeout(() => {
-            this.reconnectTimer = null;
-            console.log('🔄 Attempting to reconnect...');
-            this.connect().catch(console.error);
-        }, this.config.reconnectInterval);
+        this.emit('tick', tickData);
     }
 
     /**
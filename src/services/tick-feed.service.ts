@@ -0,0 +1,235 @@
+/**
+ * Tick Feed Service
+ * Single entry point for tick data: holds one upstream subscription per symbol on the
+ * active tick source and fans each tick out to every consumer. Switching the source
+ * (live, recorded replay, synthetic) re-points every screen at once.
+ */
+
+import { LiveTickSource } from './tick-source/live-tick-source';
+import { SourceTick, TickSource } from './tick-source/tick-source';
+
+export type TickFeedListener = (tick: SourceTick) => void;
+
+interface FeedChannel {
+    listeners: Set<TickFeedListener>;
+    buffer: SourceTick[];
+    unsubscribe: (() => void) | null;
+    opening: boolean;
+    generation: number; // bumped whenever the upstream is closed, so stale subscriptions are dropped
+    ticksReceived: number;
+}
+
+export interface TickFeedStats {
+    source: { kind: TickSource['kind']; name: string };
+    upstreamSubscriptions: number;
+    listeners: number;
+    symbols: Array<{ symbol: string; listeners: number; buffered: number; ticksReceived: number; lastEpoch?: number }>;
+}
+
+class TickFeedService {
+    private source: TickSource = new LiveTickSource();
+    private channels: Map<string, FeedChannel> = new Map();
+    private sourceListeners: Set<(source: TickSource) => void> = new Set();
+    private readonly BUFFER_SIZE = 1000;
+
+    /**
+     * Listen to ticks for a symbol; the first listener opens the upstream subscription
+     * and the last one to leave closes it
+     */
+    subscribe(symbol: string, listener: TickFeedListener): () => void {
+        const channel = this.getChannel(symbol);
+        channel.listeners.add(listener);
+
+        if (!channel.unsubscribe && !channel.opening) {
+            this.openUpstream(symbol, channel);
+        }
+
+        return () => {
+            channel.listeners.delete(listener);
+            if (channel.listeners.size === 0) {
+                this.closeUpstream(symbol, channel);
+            }
+        };
+    }
+
+    /**
+     * Most recent ticks for a symbol, oldest first. Served from the stream buffer when
+     * the symbol is streaming and enough ticks are buffered, otherwise from the source.
+     */
+    async getHistory(symbol: string, count: number): Promise<SourceTick[]> {
+        const channel = this.channels.get(symbol);
+        if (channel?.unsubscribe && channel.buffer.length >= count) {
+            return channel.buffer.slice(-count);
+        }
+
+        const source = this.source;
+        const history = await source.getHistory(symbol, count);
+
+        if (channel?.unsubscribe && source === this.source) {
+            this.seedBuffer(channel, history);
+        }
+        return history;
+    }
+
+    /**
+     * Latest streamed tick for a symbol
+     */
+    getLatest(symbol: string): SourceTick | null {
+        const buffer = this.channels.get(symbol)?.buffer;
+        return buffer && buffer.length > 0 ? buffer[buffer.length - 1] : null;
+    }
+
+    /**
+     * Point every consumer at a different tick source
+     */
+    setSource(source: TickSource): void {
+        if (source === this.source) return;
+
+        console.log(`🔀 Tick feed switching from ${this.source.name} to ${source.name}`);
+
+        this.channels.forEach((channel, symbol) => {
+            this.closeUpstream(symbol, channel);
+            channel.buffer = [];
+        });
+
+        this.source = source;
+
+        this.channels.forEach((channel, symbol) => {
+            if (channel.listeners.size > 0) {
+                this.openUpstream(symbol, channel);
+            }
+        });
+
+        this.sourceListeners.forEach(listener => {
+            try {
+                listener(source);
+            } catch (error) {
+                console.error('❌ Error in tick source listener:', error);
+            }
+        });
+    }
+
+    /**
+     * Return to live Deriv ticks
+     */
+    useLiveSource(): void {
+        if (this.source.kind !== 'live') {
+            this.setSource(new LiveTickSource());
+        }
+    }
+
+    getSource(): TickSource {
+        return this.source;
+    }
+
+    isLive(): boolean {
+        return this.source.kind === 'live';
+    }
+
+    /**
+     * Notified whenever the active source changes
+     */
+    onSourceChange(listener: (source: TickSource) => void): () => void {
+        this.sourceListeners.add(listener);
+        return () => {
+            this.sourceListeners.delete(listener);
+        };
+    }
+
+    getStats(): TickFeedStats {
+        const symbols = Array.from(this.channels.entries()).map(([symbol, channel]) => ({
+            symbol,
+            listeners: channel.listeners.size,
+            buffered: channel.buffer.length,
+            ticksReceived: channel.ticksReceived,
+            lastEpoch: channel.buffer[channel.buffer.length - 1]?.epoch,
+        }));
+
+        return {
+            source: { kind: this.source.kind, name: this.source.name },
+            upstreamSubscriptions: Array.from(this.channels.values()).filter(channel => channel.unsubscribe).length,
+            listeners: symbols.reduce((sum, symbol) => sum + symbol.listeners, 0),
+            symbols,
+        };
+    }
+
+    // Private helper methods
+
+    private getChannel(symbol: string): FeedChannel {
+        let channel = this.channels.get(symbol);
+        if (!channel) {
+            channel = {
+                listeners: new Set(),
+                buffer: [],
+                unsubscribe: null,
+                opening: false,
+                generation: 0,
+                ticksReceived: 0,
+            };
+            this.channels.set(symbol, channel);
+        }
+        return channel;
+    }
+
+    private async openUpstream(symbol: string, channel: FeedChannel): Promise<void> {
+        const source = this.source;
+        const generation = ++channel.generation;
+        channel.opening = true;
+
+        try {
+            const unsubscribe = await source.subscribe(symbol, tick => this.dispatch(channel, tick));
+
+            // Everyone left, or the source changed, while the subscription was being set up
+            if (channel.listeners.size === 0 || generation !== channel.generation) {
+                unsubscribe();
+                return;
+            }
+
+            channel.unsubscribe = unsubscribe;
+            console.log(`📡 Tick feed streaming ${symbol} from ${source.name}`);
+        } catch (error) {
+            console.error(`❌ Tick feed failed to subscribe to ${symbol}:`, error);
+        } finally {
+            if (generation === channel.generation) {
+                channel.opening = false;
+            }
+        }
+    }
+
+    private closeUpstream(symbol: string, channel: FeedChannel): void {
+        channel.generation++;
+        channel.opening = false;
+        if (channel.unsubscribe) {
+            channel.unsubscribe();
+            channel.unsubscribe = null;
+            console.log(`🔇 Tick feed closed ${symbol}`);
+        }
+    }
+
+    private dispatch(channel: FeedChannel, tick: SourceTick): void {
+        channel.ticksReceived++;
+        channel.buffer.push(tick);
+        if (channel.buffer.length > this.BUFFER_SIZE) {
+            channel.buffer.shift();
+        }
+
+        channel.listeners.forEach(listener => {
+            try {
+                listener(tick);
+            } catch (error) {
+                console.error(`❌ Error in tick listener for ${tick.symbol}:`, error);
+            }
+        });
+    }
+
+    /**
+     * Put fetched history in front of the streamed ticks so later requests hit the buffer
+     */
+    private seedBuffer(channel: FeedChannel, history: SourceTick[]): void {
+        const firstStreamed = channel.buffer[0]?.epoch ?? Infinity;
+        const older = history.filter(tick => tick.epoch < firstStreamed);
+        channel.buffer = [...older, ...channel.buffer].slice(-this.BUFFER_SIZE);
+    }
+}
+
+export const tickFeed = new TickFeedService();
@@ -3,7 +3,8 @@
  * Tracks last digit of ticks and provides digit statistics
  */
 
-import { derivAPIService } from './deriv-api.service';
+import { tickFeed } from './tick-feed.service';
+import type { TickProvenance } from './tick-source/tick-source';
 
 export interface TickData {
     quote: number;
@@ -11,6 +12,7 @@ export interface TickData {
     epoch: number;
     symbol: string;
     timestamp: number;
+    provenance: TickProvenance;
 }
 
 export interface DigitStats {
@@ -24,7 +26,7 @@ class TickPointerService {
     private currentTick: TickData | null = null;
     private tickHistory: TickData[] = [];
     private digitCounts: Map<number, number> = new Map();
-    private subscriptionId: string | null = null;
+    private feedUnsubscribe: (() => void) | null = null;
     private callbacks: Set<(tick: TickData) => void> = new Set();
     private maxHistorySize = 100;
 
@@ -33,7 +35,7 @@ class TickPointerService {
      */
     async subscribeTo(symbol: string, callback: (tick: TickData) => void): Promise<void> {
         // Unsubscribe from previous if exists
-        if (this.subscriptionId) {
+        if (this.feedUnsubscribe) {
             await this.unsubscribe();
         }
 
@@ -44,30 +46,24 @@ class TickPointerService {
         this.callbacks.add(callback);
 
         try {
-            // Subscribe to ticks
-            const subscriptionId = await derivAPIService.subscribeToTicks(symbol, response => {
-                if (response.tick) {
-                    const tick = response.tick;
-                    const lastDigit = this.extractLastDigit(tick.quote);
-
-                    const tickData: TickData = {
-                        quote: tick.quote,
-                        lastDigit,
-                        epoch: tick.epoch,
-                        symbol: tick.symbol,
-                        timestamp: Date.now(),
-                    };
-
-                    this.currentTick = tickData;
-                    this.addToHistory(tickData);
-                    this.updateDigitCount(lastDigit);
-
-                    // Notify all callbacks
-                    this.callbacks.forEach(cb => cb(tickData));
-                }
+            // Subscribe to ticks on the shared feed
+            this.feedUnsubscribe = tickFeed.subscribe(symbol, tick => {
+                const tickData: TickData = {
+                    quote: tick.quote,
+                    lastDigit: tick.lastDigit,
+                    epoch: tick.epoch,
+                    symbol: tick.symbol,
+                    timestamp: Date.now(),
+                    provenance: tick.provenance,
+                };
+
+                this.currentTick = tickData;
+                this.addToHistory(tickData);
+                this.updateDigitCount(tick.lastDigit);
+
+                // Notify all callbacks
+                this.callbacks.forEach(cb => cb(tickData));
             });
-
-            this.subscriptionId = subscriptionId || null;
         } catch (error) {
             console.error('Failed to subscribe to ticks:', error);
             throw error;
@@ -78,10 +74,10 @@ class TickPointerService {
      * Unsubscribe from current tick stream
      */
     async unsubscribe(): Promise<void> {
-        if (this.subscriptionId) {
+        if (this.feedUnsubscribe) {
             try {
-                await derivAPIService.unsubscribe(this.subscriptionId);
-                this.subscriptionId = null;
+                this.feedUnsubscribe();
+                this.feedUnsubscribe = null;
             } catch (error) {
                 console.error('Failed to unsubscribe:', error);
             }
@@ -89,15 +85,6 @@ class TickPointerService {
         this.callbacks.clear();
     }
 
-    /**
-     * Extract last digit from tick quote
-     */
-    private extractLastDigit(quote: number): number {
-        const quoteStr = quote.toString();
-        const lastChar = quoteStr.charAt(quoteStr.length - 1);
-        return parseInt(lastChar, 10);
-    }
-
     /**
      * Add tick to history
      */
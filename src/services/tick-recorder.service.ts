@@ -0,0 +1,394 @@
+/**
+ * Tick Recorder Service
+ * Captures live ticks from the shared tick feed into IndexedDB, per symbol, so a session
+ * can be reviewed, exported or replayed later. Ticks are stored in fixed-size chunks and
+ * each recording prunes its oldest chunks once it passes its retention limits.
+ */
+
+import localForage from 'localforage';
+import { tickFeed } from './tick-feed.service';
+import { RecordedTickSource, RecordedTickSourceOptions } from './tick-source/recorded-tick-source';
+import type { SourceTick } from './tick-source/tick-source';
+
+// Provenance is not stored: whatever reads a recording back is replaying it
+export type RecordedTickEntry = Omit<SourceTick, 'symbol' | 'provenance'>;
+
+export interface RecordingLimits {
+    maxTicks: number;
+    maxAgeMinutes: number;
+}
+
+export interface RecordingChunk {
+    index: number;
+    count: number;
+    firstEpoch: number;
+    lastEpoch: number;
+}
+
+export interface TickRecording {
+    id: string;
+    symbol: string;
+    startedAt: number;
+    stoppedAt?: number;
+    tickCount: number;
+    firstEpoch?: number;
+    lastEpoch?: number;
+    pipSize?: number;
+    chunks: RecordingChunk[];
+    limits: RecordingLimits;
+}
+
+interface ActiveRecording {
+    recording: TickRecording;
+    openChunk: RecordedTickEntry[];
+    unsubscribe: () => void;
+    flushTimer: ReturnType<typeof setInterval>;
+    dirty: boolean;
+}
+
+export const DEFAULT_RECORDING_LIMITS: RecordingLimits = {
+    maxTicks: 50000,
+    maxAgeMinutes: 24 * 60,
+};
+
+class TickRecorderService {
+    private recordings = localForage.createInstance({ name: 'pipnova', storeName: 'tick_recordings' });
+    private chunks = localForage.createInstance({ name: 'pipnova', storeName: 'tick_recording_chunks' });
+    private active: Map<string, ActiveRecording> = new Map();
+    private listeners: Set<() => void> = new Set();
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    private readonly CHUNK_SIZE = 500;
+    private readonly FLUSH_INTERVAL = 5000;
+    private readonly MAX_RECORDINGS = 50;
+
+    /**
+     * Start recording a symbol; ticks are only captured while the feed is live
+     */
+    async startRecording(symbol: string, limits: Partial<RecordingLimits> = {}): Promise<TickRecording> {
+        const existing = this.active.get(symbol);
+        if (existing) return existing.recording;
+
+        const now = Date.now();
+        const recording: TickRecording = {
+            id: `${symbol}-${now}`,
+            symbol,
+            startedAt: now,
+            tickCount: 0,
+            chunks: [],
+            limits: { ...DEFAULT_RECORDING_LIMITS, ...limits },
+        };
+
+        const session: ActiveRecording = {
+            recording,
+            openChunk: [],
+            dirty: true,
+            unsubscribe: tickFeed.subscribe(symbol, tick => this.capture(session, tick)),
+            flushTimer: setInterval(() => this.enqueueFlush(session), this.FLUSH_INTERVAL),
+        };
+        this.active.set(symbol, session);
+
+        await this.enqueueFlush(session);
+        await this.pruneRecordings();
+
+        console.log(`⏺️ Recording ticks for ${symbol}`);
+        this.notify();
+        return recording;
+    }
+
+    /**
+     * Stop recording a symbol and write any buffered ticks
+     */
+    async stopRecording(symbol: string): Promise<TickRecording | null> {
+        const session = this.active.get(symbol);
+        if (!session) return null;
+
+        session.unsubscribe();
+        clearInterval(session.flushTimer);
+        this.active.delete(symbol);
+
+        session.recording.stoppedAt = Date.now();
+        session.dirty = true;
+        await this.enqueueFlush(session);
+
+        console.log(`⏹️ Stopped recording ${symbol}: ${session.recording.tickCount} ticks`);
+        this.notify();
+        return session.recording;
+    }
+
+    /**
+     * Toggle recording for a symbol; resolves with the new recording state
+     */
+    async toggleRecording(symbol: string): Promise<boolean> {
+        if (this.isRecording(symbol)) {
+            await this.stopRecording(symbol);
+            return false;
+        }
+        await this.startRecording(symbol);
+        return true;
+    }
+
+    isRecording(symbol: string): boolean {
+        return this.active.has(symbol);
+    }
+
+    getRecordingSymbols(): string[] {
+        return Array.from(this.active.keys());
+    }
+
+    /**
+     * Every stored recording, newest first
+     */
+    async listRecordings(symbol?: string): Promise<TickRecording[]> {
+        const recordings: TickRecording[] = [];
+        await this.recordings.iterate<TickRecording, void>(recording => {
+            if (!symbol || recording.symbol === symbol) {
+                recordings.push(this.findActive(recording.id)?.recording || recording);
+            }
+        });
+        return recordings.sort((a, b) => b.startedAt - a.startedAt);
+    }
+
+    async getRecording(id: string): Promise<TickRecording | null> {
+        const session = this.findActive(id);
+        return session ? session.recording : this.recordings.getItem<TickRecording>(id);
+    }
+
+    /**
+     * Recorded ticks, oldest first; pass a count to get only the most recent ones
+     */
+    async getTicks(id: string, count?: number): Promise<RecordedTickEntry[]> {
+        const recording = await this.getRecording(id);
+        if (!recording) throw new Error(`Recording ${id} not found`);
+
+        // Sealed chunks may still be on their way to storage
+        await this.writeQueue;
+
+        const session = this.findActive(id);
+        const ticks: RecordedTickEntry[] = [];
+
+        for (const chunk of recording.chunks) {
+            if (session && chunk.index === this.getOpenChunkIndex(session.recording)) {
+                ticks.push(...session.openChunk);
+            } else {
+                ticks.push(...((await this.chunks.getItem<RecordedTickEntry[]>(this.chunkKey(id, chunk.index))) || []));
+            }
+        }
+
+        return count !== undefined ? ticks.slice(-count) : ticks;
+    }
+
+    async deleteRecording(id: string): Promise<void> {
+        const session = this.findActive(id);
+        if (session) await this.stopRecording(session.recording.symbol);
+
+        await this.enqueue(async () => {
+            const recording = await this.recordings.getItem<TickRecording>(id);
+            if (!recording) return;
+            await Promise.all(recording.chunks.map(chunk => this.chunks.removeItem(this.chunkKey(id, chunk.index))));
+            await this.recordings.removeItem(id);
+        });
+        this.notify();
+    }
+
+    /**
+     * Recording as CSV with the columns the backtester and optimizer import
+     */
+    async exportCsv(id: string): Promise<string> {
+        const recording = await this.getRecording(id);
+        if (!recording) throw new Error(`Recording ${id} not found`);
+
+        const ticks = await this.getTicks(id);
+        const rows = ticks.map(tick =>
+            [
+                recording.symbol,
+                tick.epoch,
+                tick.pipSize !== undefined ? tick.quote.toFixed(tick.pipSize) : tick.quote,
+                tick.pipSize ?? '',
+                tick.lastDigit,
+            ].join(',')
+        );
+        return ['symbol,epoch,quote,pip_size,last_digit', ...rows].join('\n');
+    }
+
+    async downloadCsv(id: string): Promise<void> {
+        const recording = await this.getRecording(id);
+        if (!recording) throw new Error(`Recording ${id} not found`);
+
+        const blob = new Blob([await this.exportCsv(id)], { type: 'text/csv;charset=utf-8;' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+
+        a.href = url;
+        a.download = `ticks-${recording.symbol}-${new Date(recording.startedAt).toISOString().slice(0, 19)}.csv`;
+        a.style.display = 'none';
+
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Tick source that replays a recording, for the shared feed or a single screen
+     */
+    createReplaySource(id: string, options: RecordedTickSourceOptions = {}): RecordedTickSource {
+        return new RecordedTickSource(
+            async symbol => {
+                const recording = await this.getRecording(id);
+                return recording && recording.symbol === symbol ? this.getTicks(id) : [];
+            },
+            { name: `Replay ${id}`, ...options }
+        );
+    }
+
+    /**
+     * Notified when recordings start, stop, grow or are deleted
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Write buffered ticks for every active recording
+     */
+    async flush(): Promise<void> {
+        await Promise.all(Array.from(this.active.values()).map(session => this.enqueueFlush(session)));
+    }
+
+    // Private helper methods
+
+    private capture(session: ActiveRecording, tick: SourceTick): void {
+        // Replays and synthetic ticks are not market data worth keeping
+        if (!tickFeed.isLive()) return;
+
+        const recording = session.recording;
+        if (recording.lastEpoch !== undefined && tick.epoch <= recording.lastEpoch) return;
+
+        if (recording.chunks.length === 0 || session.openChunk.length >= this.CHUNK_SIZE) {
+            if (session.openChunk.length > 0) {
+                // Seal the full chunk before starting the next one
+                this.enqueueChunkWrite(recording.id, this.getOpenChunkIndex(recording), session.openChunk);
+            }
+            const index = recording.chunks.length > 0 ? this.getOpenChunkIndex(recording) + 1 : 0;
+            recording.chunks.push({ index, count: 0, firstEpoch: tick.epoch, lastEpoch: tick.epoch });
+            session.openChunk = [];
+        }
+
+        session.openChunk.push({
+            epoch: tick.epoch,
+            quote: tick.quote,
+            pipSize: tick.pipSize,
+            lastDigit: tick.lastDigit,
+        });
+
+        const chunk = recording.chunks[recording.chunks.length - 1];
+        chunk.count = session.openChunk.length;
+        chunk.lastEpoch = tick.epoch;
+
+        recording.tickCount++;
+        recording.lastEpoch = tick.epoch;
+        recording.pipSize = tick.pipSize ?? recording.pipSize;
+        session.dirty = true;
+
+        this.applyRetention(recording);
+    }
+
+    /**
+     * Drop whole chunks from the front once the recording is over its tick or age limit
+     */
+    private applyRetention(recording: TickRecording): void {
+        const oldestAllowed = (recording.lastEpoch ?? 0) - recording.limits.maxAgeMinutes * 60;
+
+        while (recording.chunks.length > 1) {
+            const oldest = recording.chunks[0];
+            const overCount = recording.tickCount - oldest.count >= recording.limits.maxTicks;
+            const tooOld = oldest.lastEpoch < oldestAllowed;
+            if (!overCount && !tooOld) break;
+
+            recording.chunks.shift();
+            recording.tickCount -= oldest.count;
+            const key = this.chunkKey(recording.id, oldest.index);
+            this.enqueue(() => this.chunks.removeItem(key));
+        }
+
+        recording.firstEpoch = recording.chunks[0].firstEpoch;
+    }
+
+    /**
+     * Keep at most MAX_RECORDINGS, removing the oldest finished ones
+     */
+    private async pruneRecordings(): Promise<void> {
+        const recordings = await this.listRecordings();
+        const excess = recordings.length - this.MAX_RECORDINGS;
+        if (excess <= 0) return;
+
+        // Newest first, so the oldest finished recordings are at the end
+        const finished = recordings.filter(recording => !this.findActive(recording.id));
+        for (const recording of finished.slice(-excess)) {
+            await this.deleteRecording(recording.id);
+        }
+    }
+
+    private enqueueFlush(session: ActiveRecording): Promise<void> {
+        if (!session.dirty) return this.writeQueue;
+        session.dirty = false;
+
+        const recording = { ...session.recording, chunks: session.recording.chunks.map(chunk => ({ ...chunk })) };
+        const openChunk = [...session.openChunk];
+
+        return this.enqueue(async () => {
+            if (recording.chunks.length > 0) {
+                await this.chunks.setItem(this.chunkKey(recording.id, this.getOpenChunkIndex(recording)), openChunk);
+            }
+            await this.recordings.setItem(recording.id, recording);
+            this.notify();
+        });
+    }
+
+    private enqueueChunkWrite(id: string, index: number, ticks: RecordedTickEntry[]): void {
+        const snapshot = [...ticks];
+        this.enqueue(() => this.chunks.setItem(this.chunkKey(id, index), snapshot).then(() => undefined));
+    }
+
+    /**
+     * Serialise storage writes so chunks and metadata never interleave
+     */
+    private enqueue(task: () => Promise<unknown>): Promise<void> {
+        this.writeQueue = this.writeQueue
+            .then(task)
+            .then(() => undefined)
+            .catch(error => {
+                console.error('❌ Tick recorder write failed:', error);
+            });
+        return this.writeQueue;
+    }
+
+    private findActive(id: string): ActiveRecording | undefined {
+        return Array.from(this.active.values()).find(session => session.recording.id === id);
+    }
+
+    private getOpenChunkIndex(recording: TickRecording): number {
+        return recording.chunks[recording.chunks.length - 1].index;
+    }
+
+    private chunkKey(id: string, index: number): string {
+        return `${id}:${index}`;
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener();
+            } catch (error) {
+                console.error('❌ Error in tick recorder listener:', error);
+            }
+        });
+    }
+}
+
+export const tickRecorder = new TickRecorderService();
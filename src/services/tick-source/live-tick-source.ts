@@ -0,0 +1,61 @@
+/**
+ * Live Tick Source
+ * Deriv WebSocket ticks through the shared connection pool
+ */
+
+import type { TTicksHistoryResponse, TTicksSubscribeResponse } from '../../types/deriv-api.types';
+import { derivAPIService } from '../deriv-api.service';
+import { ConnectionType, derivConnectionPool } from '../deriv-connection-pool.service';
+import { createSourceTick, SourceTick, TickSource } from './tick-source';
+
+// Deriv's ticks_history limit per request
+const MAX_HISTORY_COUNT = 5000;
+
+// Deriv answers a failed request with an error in place of the history
+type TicksHistoryResult = TTicksHistoryResponse & { error?: { message?: string } };
+
+export class LiveTickSource implements TickSource {
+    public readonly kind = 'live' as const;
+    public readonly name = 'Deriv Live';
+
+    constructor(private readonly connectionType: ConnectionType = ConnectionType.SIGNALS) {}
+
+    public async subscribe(symbol: string, onTick: (tick: SourceTick) => void): Promise<() => void> {
+        return derivConnectionPool.subscribeToTicks(
+            symbol,
+            (response: unknown) => {
+                const tick = (response as Partial<TTicksSubscribeResponse> | undefined)?.tick;
+                const quote = Number(tick?.quote);
+
+                if (!tick || isNaN(quote) || quote <= 0) {
+                    console.error('❌ Invalid live tick:', response);
+                    return;
+                }
+
+                onTick(createSourceTick(symbol, quote, tick.epoch || Math.floor(Date.now() / 1000), tick.pip_size));
+            },
+            this.connectionType
+        );
+    }
+
+    public async getHistory(symbol: string, count: number): Promise<SourceTick[]> {
+        const response: TicksHistoryResult = await derivAPIService.getTicksHistory({
+            symbol,
+            count: Math.min(count, MAX_HISTORY_COUNT),
+            end: 'latest',
+            style: 'ticks',
+        });
+
+        if (response?.error) {
+            throw new Error(`API Error: ${response.error.message || 'Unknown error'}`);
+        }
+        if (!response?.history?.prices || !response.history.times) {
+            throw new Error('No history data received');
+        }
+
+        const { prices, times } = response.history;
+        return prices.map((price, index) =>
+            createSourceTick(symbol, price, times[index], response.pip_size, 'historical')
+        );
+    }
+}
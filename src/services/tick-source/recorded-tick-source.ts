@@ -0,0 +1,114 @@
+/**
+ * Recorded Tick Source
+ * Replays stored ticks (imported files or recorded sessions) as if they were live
+ */
+
+import { createSourceTick, SourceTick, TickSource } from './tick-source';
+
+export interface RecordedTick {
+    epoch: number;
+    quote: number;
+    pipSize?: number;
+}
+
+export type RecordedTickLoader = (symbol: string) => Promise<RecordedTick[]>;
+
+export interface RecordedTickSourceOptions {
+    name?: string;
+    speed?: number; // playback speed multiplier; 0 replays without waiting
+    loop?: boolean;
+    startIndex?: number; // ticks before this index count as history when playback starts
+}
+
+interface Playback {
+    ticks: SourceTick[];
+    cursor: number;
+}
+
+export class RecordedTickSource implements TickSource {
+    public readonly kind = 'recorded' as const;
+    public readonly name: string;
+
+    private loader: RecordedTickLoader;
+    private options: Required<Omit<RecordedTickSourceOptions, 'name'>>;
+    private playbacks: Map<string, Promise<Playback>> = new Map();
+
+    constructor(
+        recording: Record<string, RecordedTick[]> | RecordedTickLoader,
+        options: RecordedTickSourceOptions = {}
+    ) {
+        this.loader = typeof recording === 'function' ? recording : async symbol => recording[symbol] || [];
+        this.name = options.name || 'Recorded Replay';
+        this.options = {
+            speed: options.speed ?? 1,
+            loop: options.loop ?? false,
+            startIndex: options.startIndex ?? 0,
+        };
+    }
+
+    public async subscribe(symbol: string, onTick: (tick: SourceTick) => void): Promise<() => void> {
+        const playback = await this.getPlayback(symbol);
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        let stopped = false;
+
+        const playNext = () => {
+            if (stopped) return;
+
+            if (playback.cursor >= playback.ticks.length) {
+                if (!this.options.loop || playback.ticks.length === 0) {
+                    console.log(`⏹️ Replay of ${symbol} finished`);
+                    return;
+                }
+                playback.cursor = 0;
+            }
+
+            const tick = playback.ticks[playback.cursor++];
+            onTick(tick);
+
+            const next = playback.ticks[playback.cursor];
+            timer = setTimeout(playNext, next ? this.getDelay(tick, next) : 0);
+        };
+
+        timer = setTimeout(playNext, 0);
+
+        return () => {
+            stopped = true;
+            if (timer) clearTimeout(timer);
+        };
+    }
+
+    public async getHistory(symbol: string, count: number): Promise<SourceTick[]> {
+        const playback = await this.getPlayback(symbol);
+        return playback.ticks.slice(Math.max(0, playback.cursor - count), playback.cursor);
+    }
+
+    /**
+     * Rewind every symbol to the configured start
+     */
+    public rewind(): void {
+        this.playbacks.clear();
+    }
+
+    // Private helper methods
+
+    private getPlayback(symbol: string): Promise<Playback> {
+        let playback = this.playbacks.get(symbol);
+        if (!playback) {
+            playback = this.loader(symbol).then(recorded => {
+                const ticks = [...recorded]
+                    .sort((a, b) => a.epoch - b.epoch)
+                    .map(tick => createSourceTick(symbol, tick.quote, tick.epoch, tick.pipSize, 'recorded'));
+                return { ticks, cursor: Math.min(this.options.startIndex, ticks.length) };
+            });
+            // Let a failed load be retried on the next request
+            playback.catch(() => this.playbacks.delete(symbol));
+            this.playbacks.set(symbol, playback);
+        }
+        return playback;
+    }
+
+    private getDelay(current: SourceTick, next: SourceTick): number {
+        if (this.options.speed <= 0) return 0;
+        return Math.max(0, ((next.epoch - current.epoch) * 1000) / this.options.speed);
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * Synthetic Tick Source
+ * Seeded random-walk ticks for offline development and repeatable tests
+ */
+
+import { createSeededRandom } from '../../utils/seeded-random';
+import { createSourceTick, SourceTick, TickSource } from './tick-source';
+
+export interface SyntheticTickSourceOptions {
+    seed?: number;
+    intervalMs?: number;
+    startQuote?: number;
+    volatility?: number; // relative standard deviation per tick
+    pipSize?: number;
+}
+
+interface SyntheticSeries {
+    random: () => number;
+    ticks: SourceTick[];
+}
+
+const MAX_SERIES_LENGTH = 5000;
+
+export const hashSymbol = (symbol: string): number =>
+    symbol.split('').reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619), 2166136261);
+
+export class SyntheticTickSource implements TickSource {
+    public readonly kind = 'synthetic' as const;
+    public readonly name = 'Synthetic Random Walk';
+
+    private options: Required<SyntheticTickSourceOptions>;
+    private series: Map<string, SyntheticSeries> = new Map();
+
+    constructor(options: SyntheticTickSourceOptions = {}) {
+        this.options = {
+            seed: options.seed ?? 1,
+            intervalMs: options.intervalMs ?? 1000,
+            startQuote: options.startQuote ?? 1000,
+            volatility: options.volatility ?? 0.0005,
+            pipSize: options.pipSize ?? 2,
+        };
+    }
+
+    public async subscribe(symbol: string, onTick: (tick: SourceTick) => void): Promise<() => void> {
+        const timer = setInterval(() => onTick(this.nextTick(symbol)), this.options.intervalMs);
+        return () => clearInterval(timer);
+    }
+
+    public async getHistory(symbol: string, count: number): Promise<SourceTick[]> {
+        const series = this.getSeries(symbol);
+        while (series.ticks.length < Math.min(count, MAX_SERIES_LENGTH)) {
+            this.prependTick(symbol, series);
+        }
+        return series.ticks.slice(-count);
+    }
+
+    // Private helper methods
+
+    private getSeries(symbol: string): SyntheticSeries {
+        let series = this.series.get(symbol);
+        if (!series) {
+            series = { random: createSeededRandom(this.options.seed ^ hashSymbol(symbol)), ticks: [] };
+            this.series.set(symbol, series);
+        }
+        return series;
+    }
+
+    private nextTick(symbol: string): SourceTick {
+        const series = this.getSeries(symbol);
+        const last = series.ticks[series.ticks.length - 1];
+        const epoch = last ? last.epoch + this.getIntervalSeconds() : Math.floor(Date.now() / 1000);
+        const tick = this.createTick(symbol, series, last?.quote ?? this.options.startQuote, epoch);
+
+        series.ticks.push(tick);
+        if (series.ticks.length > MAX_SERIES_LENGTH) series.ticks.shift();
+        return tick;
+    }
+
+    /**
+     * Walk backwards from the oldest tick so history always ends at the live edge
+     */
+    private prependTick(symbol: string, series: SyntheticSeries): void {
+        const first = series.ticks[0];
+        const epoch = first ? first.epoch - this.getIntervalSeconds() : Math.floor(Date.now() / 1000);
+        series.ticks.unshift(this.createTick(symbol, series, first?.quote ?? this.options.startQuote, epoch));
+    }
+
+    private createTick(symbol: string, series: SyntheticSeries, from: number, epoch: number): SourceTick {
+        // Box-Muller transform for a normally distributed step
+        const u = Math.max(series.random(), Number.EPSILON);
+        const v = series.random();
+        const step = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+        const quote = Math.max(from * (1 + step * this.options.volatility), Math.pow(10, -this.options.pipSize));
+
+        return createSourceTick(
+            symbol,
+            Number(quote.toFixed(this.options.pipSize)),
+            epoch,
+            this.options.pipSize,
+            'synthetic'
+        );
+    }
+
+    private getIntervalSeconds(): number {
+        return Math.max(1, Math.round(this.options.intervalMs / 1000));
+    }
+}
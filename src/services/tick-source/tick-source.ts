@@ -0,0 +1,89 @@
+/**
+ * Tick Source
+ * Common contract for anything that can feed ticks to the analyzers: the live Deriv
+ * WebSocket, a recorded session replay or a synthetic generator
+ */
+
+export type TickSourceKind = 'live' | 'recorded' | 'synthetic';
+
+/**
+ * Where a tick came from: streamed from Deriv, fetched from Deriv's tick history,
+ * replayed from a recording or generated
+ */
+export type TickProvenance = 'live' | 'historical' | 'recorded' | 'synthetic';
+
+/**
+ * Provenance of anything derived from ticks; 'mixed' when real Deriv ticks were combined
+ * with replayed or generated ones
+ */
+export type DataProvenance = TickProvenance | 'mixed';
+
+export interface SourceTick {
+    symbol: string;
+    quote: number;
+    epoch: number;
+    pipSize?: number;
+    lastDigit: number;
+    provenance: TickProvenance;
+}
+
+export interface TickSource {
+    readonly kind: TickSourceKind;
+    readonly name: string;
+
+    /**
+     * Stream ticks for a symbol; resolves with the function that stops the stream
+     */
+    subscribe(symbol: string, onTick: (tick: SourceTick) => void): Promise<() => void>;
+
+    /**
+     * Most recent ticks for a symbol, oldest first
+     */
+    getHistory(symbol: string, count: number): Promise<SourceTick[]>;
+}
+
+/**
+ * Last digit of a quote; uses the pip size when known so trailing zeros are kept
+ */
+export const getLastDigit = (quote: number, pipSize?: number): number => {
+    const quoteStr = pipSize !== undefined ? quote.toFixed(pipSize) : Math.abs(quote).toString();
+    return parseInt(quoteStr.charAt(quoteStr.length - 1), 10);
+};
+
+/**
+ * Build a source tick from a quote
+ */
+export const createSourceTick = (
+    symbol: string,
+    quote: number,
+    epoch: number,
+    pipSize?: number,
+    provenance: TickProvenance = 'live'
+): SourceTick => ({
+    symbol,
+    quote,
+    epoch,
+    pipSize,
+    lastDigit: getLastDigit(quote, pipSize),
+    provenance,
+});
+
+const REAL_PROVENANCES: ReadonlySet<DataProvenance> = new Set(['live', 'historical']);
+
+/**
+ * Provenance of data built from several inputs. Deriv history followed by the live stream
+ * counts as live; any other combination is mixed, and so is an empty input.
+ */
+export const combineProvenance = (provenances: Iterable<DataProvenance>): DataProvenance => {
+    const distinct = [...new Set(provenances)];
+    if (distinct.length === 1) return distinct[0];
+    if (distinct.length > 1 && distinct.every(provenance => REAL_PROVENANCES.has(provenance))) return 'live';
+    return 'mixed';
+};
+
+/**
+ * Whether signals built on this data may place trades without a human deciding to.
+ * Replays describe a past session, so only Deriv's own ticks qualify.
+ */
+export const isTradeableProvenance = (provenance: DataProvenance): provenance is 'live' | 'historical' =>
+    REAL_PROVENANCES.has(provenance);
@@ -18,6 +18,7 @@ import {
     AnalysisConfig,
     AnalysisStatistics 
 } from '../../types/tickshark/analysis.types';
+import { combineProvenance } from '../tick-source/tick-source';
 
 class AnalysisEngineService {
     private config: AnalysisConfig = {
@@ -146,6 +147,7 @@ class AnalysisEngineService {
                 
                 version: '1.0.0',
                 parameters: analysisConfig,
+                provenance: combineProvenance(validTicks.map(tick => tick.provenance)),
             };
             
             // Cache result
@@ -183,6 +185,7 @@ class AnalysisEngineService {
                 validationErrors: [error instanceof Error ? error.message : 'Unknown analysis error'],
                 version: '1.0.0',
                 parameters: this.config,
+                provenance: combineProvenance(ticks.map(tick => tick.provenance)),
             };
         }
     }
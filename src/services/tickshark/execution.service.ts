@@ -0,0 +1,764 @@
+/**
+ * TickShark Execution Service
+ * Turns signals from the signal generator into trade intents and carries each one through
+ * CREATED → VALIDATED → QUEUED → EXECUTING → COMPLETED
+ *
+ * CRITICAL: Every intent is checked against the ExecutionConfig limits before it is queued
+ * - SIMULATION: queued intents execute on the simulation service
+ * - SEMI_AUTOMATED: each queued intent waits for approval until its confirmation deadline
+ * - FULLY_AUTOMATED: queued intents execute after the configured execution delay
+ * - Live executions pass the account risk gate, then buy and settle through the Deriv API
+ */
+
+import { api_base } from '../../external/bot-skeleton/services/api/api-base';
+import {
+    ConfirmationRequest,
+    ContractSide,
+    ExecutionConfig,
+    ExecutionEvent,
+    ExecutionQueue,
+    ExecutionResult,
+    ExecutionStatistics,
+    IntentType,
+    TradeIntent,
+    TradeParameters,
+    TradingMode,
+    ValidationCheck,
+} from '../../types/tickshark/execution.types';
+import { accountRiskGate } from '../account-risk-gate.service';
+import { BuyOutcome, SettledContract, sendBuy, watchContractSettlement } from '../contract-settlement';
+import { isTradeableProvenance } from '../tick-source/tick-source';
+import { tradeLedger } from '../trade-ledger.service';
+import { analyticsService } from './analytics.service';
+import { modeManagerService } from './mode-manager.service';
+import { AnalysisSignal, signalGeneratorService } from './signal-generator.service';
+import { getContractTicks, simulationService, toDerivContractType } from './simulation.service';
+
+export interface ExecutionSnapshot {
+    queue: ExecutionQueue;
+    confirmations: ConfirmationRequest[];
+    statistics: ExecutionStatistics;
+    recentEvents: ExecutionEvent[];
+}
+
+const MAX_FINISHED_INTENTS = 200;
+const MAX_EVENTS = 100;
+const SYNTHETIC_SYMBOL = /^(R_|1HZ|RDBEAR|RDBULL|JD|BOOM|CRASH|stpRNG|WLDAUD)/;
+const DIGIT_CONTRACTS = ['DIGITMATCH', 'DIGITDIFF', 'DIGITOVER', 'DIGITUNDER'];
+const DIRECTIONAL_SIDES: Partial<Record<IntentType, [ContractSide, ContractSide]>> = {
+    RISE_FALL: ['RISE', 'FALL'],
+    HIGHER_LOWER: ['HIGHER', 'LOWER'],
+};
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Build a trade intent from a generated signal; the side follows the expected price move
+ */
+export function createIntentFromSignal(signal: AnalysisSignal): TradeIntent {
+    const sides = DIRECTIONAL_SIDES[signal.type];
+    const side = sides?.[signal.expectedPrice < signal.currentPrice ? 1 : 0];
+
+    return {
+        id: `intent_${signal.id}`,
+        type: signal.type,
+        status: 'CREATED',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        parameters: {
+            symbol: signal.symbol,
+            contractType: signal.type,
+            stake: signal.recommendedStake,
+            duration: signal.recommendedDuration,
+            barrier: signal.barrier,
+            prediction: signal.prediction,
+            entrySpot: signal.currentPrice,
+            side,
+        },
+        analysisId: signal.analysisId,
+        signalId: signal.id,
+        confidence: signal.confidence,
+        riskScore: signal.riskScore,
+        validationChecks: [],
+        metadata: {
+            source: 'SIGNAL',
+            priority: signal.priority,
+            tags: [...signal.tags],
+            notes: signal.notes,
+        },
+    };
+}
+
+/**
+ * Deriv `buy` parameters for a live TickShark contract
+ */
+export function toBuyParameters(parameters: TradeParameters, currency: string): Record<string, unknown> {
+    const contractType = toDerivContractType(parameters);
+    const buyParameters: Record<string, unknown> = {
+        amount: parameters.stake,
+        basis: 'stake',
+        contract_type: contractType,
+        currency,
+        duration: getContractTicks(parameters),
+        duration_unit: 't',
+        symbol: parameters.symbol,
+    };
+
+    if (DIGIT_CONTRACTS.includes(contractType)) {
+        buyParameters.barrier = String(parameters.prediction ?? 5);
+    } else if (parameters.contractType === 'HIGHER_LOWER') {
+        if (parameters.barrier === undefined || parameters.entrySpot === undefined) {
+            throw new Error('Higher/Lower intents need a barrier and an entry spot');
+        }
+        // Tick contracts take the barrier as an offset from the entry spot
+        const offset = parameters.barrier - parameters.entrySpot;
+        buyParameters.barrier = `${offset >= 0 ? '+' : ''}${Number(offset.toFixed(5))}`;
+    }
+
+    return buyParameters;
+}
+
+class ExecutionService {
+    private config: ExecutionConfig = {
+        // Execution Limits
+        maxConcurrentTrades: 1,
+        maxTradesPerMinute: 6,
+        maxStakePerTrade: 50,
+        maxTotalStake: 500,
+
+        // Timing Controls
+        executionDelay: 0,
+        confirmationTimeout: 10000,
+        retryAttempts: 2,
+        retryDelay: 1000,
+
+        // Safety Controls
+        enableRiskChecks: true,
+        enableBalanceChecks: true,
+        enableMarketHoursCheck: true,
+        enableCooldownEnforcement: true,
+
+        // Performance Settings
+        latencyThreshold: 500, // ms
+        slippageThreshold: 0.001, // fraction of the signal price
+        executionTimeoutMs: 60000,
+    };
+
+    private queue: ExecutionQueue = { pending: [], executing: [], completed: [], failed: [] };
+    private confirmations: Map<string, { request: ConfirmationRequest; timer: ReturnType<typeof setTimeout> }> =
+        new Map();
+    private approvedIds: Set<string> = new Set();
+    private confirmationTimes: Map<string, number> = new Map();
+    private executionStarts: number[] = [];
+    private events: ExecutionEvent[] = [];
+    private listeners: Set<(snapshot: ExecutionSnapshot) => void> = new Set();
+    private unsubscribeSignals?: () => void;
+    private queueTimer?: ReturnType<typeof setTimeout>;
+    private statistics: ExecutionStatistics = this.createInitialStatistics();
+    private firstStartTime = 0;
+    private activeSince = 0;
+    private activeTime = 0;
+    private riskScores: number[] = [];
+
+    /**
+     * Start turning generated signals into intents
+     */
+    start(): void {
+        if (this.unsubscribeSignals) return;
+
+        const now = Date.now();
+        this.firstStartTime = this.firstStartTime || now;
+        this.activeSince = now;
+        this.unsubscribeSignals = signalGeneratorService.subscribe(signals => this.handleSignals(signals));
+        console.log('🦈 Execution service started');
+    }
+
+    /**
+     * Stop taking signals; intents still waiting for approval or execution are cancelled
+     */
+    stop(): void {
+        if (!this.unsubscribeSignals) return;
+
+        this.unsubscribeSignals();
+        this.unsubscribeSignals = undefined;
+        this.activeTime += Date.now() - this.activeSince;
+
+        if (this.queueTimer) {
+            clearTimeout(this.queueTimer);
+            this.queueTimer = undefined;
+        }
+        [...this.queue.pending].forEach(intent => this.cancelIntent(intent, 'Execution service stopped'));
+        console.log('🦈 Execution service stopped');
+    }
+
+    isRunning(): boolean {
+        return !!this.unsubscribeSignals;
+    }
+
+    /**
+     * Validate an intent and queue it; returns the intent with its new status
+     */
+    submitIntent(intent: TradeIntent): TradeIntent {
+        const mode = modeManagerService.getCurrentMode();
+        const modeConfig = modeManagerService.getModeConfig(mode);
+
+        this.riskScores.push(intent.riskScore);
+        this.recordEvent('INTENT_CREATED', intent, 'INFO', `Intent created for ${intent.parameters.symbol}`);
+
+        intent.validationChecks = this.validateIntent(intent, mode);
+        const failedChecks = intent.validationChecks.filter(check => check.status === 'FAILED');
+        if (failedChecks.length > 0) {
+            this.statistics.riskViolations++;
+            this.finishIntent(intent, 'FAILED', failedChecks.map(check => check.message).join('; '));
+            return intent;
+        }
+
+        this.setStatus(intent, 'VALIDATED');
+        this.recordEvent('INTENT_VALIDATED', intent, 'INFO', 'Intent passed validation');
+
+        this.setStatus(intent, 'QUEUED');
+        this.queue.pending.push(intent);
+        this.recordEvent('INTENT_QUEUED', intent, 'INFO', `Intent queued in ${mode}`);
+
+        // Human oversight with confirmation: the intent waits in the dashboard for approve/reject
+        if (modeConfig.requiresConfirmation && modeConfig.humanOversight) {
+            this.requestConfirmation(intent, modeConfig.confirmationTimeout || this.config.confirmationTimeout);
+        } else {
+            this.approvedIds.add(intent.id);
+            this.scheduleQueue(this.config.executionDelay);
+        }
+
+        this.notifyListeners();
+        return intent;
+    }
+
+    /**
+     * Approve an intent waiting for confirmation
+     */
+    approveIntent(intentId: string): boolean {
+        const confirmation = this.confirmations.get(intentId);
+        if (!confirmation) return false;
+
+        clearTimeout(confirmation.timer);
+        this.confirmations.delete(intentId);
+        this.approvedIds.add(intentId);
+        this.confirmationTimes.set(intentId, Date.now() - confirmation.request.requestedAt);
+
+        this.scheduleQueue(this.config.executionDelay);
+        this.notifyListeners();
+        return true;
+    }
+
+    /**
+     * Reject an intent waiting for confirmation
+     */
+    rejectIntent(intentId: string, reason = 'Rejected by user'): boolean {
+        const confirmation = this.confirmations.get(intentId);
+        if (!confirmation) return false;
+
+        this.cancelIntent(confirmation.request.intent, reason);
+        return true;
+    }
+
+    /**
+     * Snapshot of the queue, open confirmations and statistics
+     */
+    getSnapshot(): ExecutionSnapshot {
+        return {
+            queue: {
+                pending: [...this.queue.pending],
+                executing: [...this.queue.executing],
+                completed: [...this.queue.completed],
+                failed: [...this.queue.failed],
+            },
+            confirmations: [...this.confirmations.values()].map(({ request }) => request),
+            statistics: this.getStatistics(),
+            recentEvents: [...this.events],
+        };
+    }
+
+    getStatistics(): ExecutionStatistics {
+        const now = Date.now();
+        const activeTime = this.activeTime + (this.unsubscribeSignals ? now - this.activeSince : 0);
+        const activeHours = activeTime / 3600000;
+
+        return {
+            ...this.statistics,
+            tradesPerHour: activeHours > 0 ? this.statistics.totalTrades / activeHours : 0,
+            activeTime,
+            totalTime: this.firstStartTime ? now - this.firstStartTime : 0,
+        };
+    }
+
+    /**
+     * Subscribe to queue and statistics changes
+     */
+    subscribe(listener: (snapshot: ExecutionSnapshot) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Update configuration
+     */
+    updateConfiguration(newConfig: Partial<ExecutionConfig>): void {
+        this.config = { ...this.config, ...newConfig };
+        console.log('🦈 Execution configuration updated');
+    }
+
+    /**
+     * Get current configuration
+     */
+    getConfiguration(): ExecutionConfig {
+        return { ...this.config };
+    }
+
+    /**
+     * Clear finished intents, events and statistics
+     */
+    reset(): void {
+        this.queue.completed = [];
+        this.queue.failed = [];
+        this.events = [];
+        this.executionStarts = [];
+        this.riskScores = [];
+        this.statistics = this.createInitialStatistics();
+        this.activeTime = 0;
+        this.firstStartTime = this.unsubscribeSignals ? Date.now() : 0;
+        this.activeSince = Date.now();
+        this.notifyListeners();
+    }
+
+    /**
+     * Private helper methods
+     */
+    private handleSignals(signals: AnalysisSignal[]): void {
+        if (!modeManagerService.getModeConfig().canExecuteTrades) return;
+
+        const simulated = modeManagerService.getCurrentMode() === 'SIMULATION';
+        signals.forEach(signal => {
+            // Replayed, generated or mixed ticks may drive the simulator but never a real buy
+            if (!simulated && !isTradeableProvenance(signal.provenance)) {
+                console.log(`🦈 Skipping signal ${signal.id}: based on ${signal.provenance} data`);
+                return;
+            }
+            this.submitIntent(createIntentFromSignal(signal));
+        });
+    }
+
+    private validateIntent(intent: TradeIntent, mode: TradingMode): ValidationCheck[] {
+        const modeStatus = modeManagerService.getModeStatus();
+        const { parameters } = intent;
+        const now = Date.now();
+        const checks: ValidationCheck[] = [];
+        const check = (type: ValidationCheck['type'], passed: boolean, message: string) =>
+            checks.push({ type, status: passed ? 'PASSED' : 'FAILED', message, timestamp: now });
+
+        check(
+            'SYMBOL_AVAILABLE',
+            !!parameters.symbol && modeStatus.config.canExecuteTrades && !modeStatus.emergencyStop,
+            modeStatus.emergencyStop
+                ? 'Emergency stop is active'
+                : modeStatus.config.canExecuteTrades
+                  ? `Trading ${parameters.symbol}`
+                  : `${mode} does not execute trades`
+        );
+
+        const maxStake = Math.min(this.config.maxStakePerTrade, modeStatus.config.maxStakePerTrade);
+        check(
+            'STAKE_LIMIT',
+            parameters.stake > 0 && parameters.stake <= maxStake,
+            `Stake ${parameters.stake} against a limit of ${maxStake}`
+        );
+
+        if (this.config.enableRiskChecks) {
+            const maxTotalStake = Math.min(this.config.maxTotalStake, modeStatus.config.maxTotalStake);
+            const openStake = [...this.queue.pending, ...this.queue.executing].reduce(
+                (sum, queued) => sum + queued.parameters.stake,
+                0
+            );
+            check(
+                'RISK_LIMIT',
+                openStake + parameters.stake <= maxTotalStake,
+                `Open stake ${openStake + parameters.stake} against a limit of ${maxTotalStake}`
+            );
+        }
+
+        if (this.config.enableCooldownEnforcement) {
+            const recentStarts = this.executionStarts.filter(start => now - start < 60000).length;
+            check(
+                'COOLDOWN',
+                recentStarts < this.config.maxTradesPerMinute,
+                `${recentStarts} of ${this.config.maxTradesPerMinute} trades in the last minute`
+            );
+        }
+
+        // Synthetic indices trade around the clock; other markets close at the weekend
+        if (this.config.enableMarketHoursCheck && !SYNTHETIC_SYMBOL.test(parameters.symbol)) {
+            const day = new Date(now).getUTCDay();
+            check('MARKET_HOURS', day !== 0 && day !== 6, 'Market closed at the weekend');
+        }
+
+        if (this.config.enableBalanceChecks && mode !== 'SIMULATION') {
+            const balance = Number((api_base.account_info as { balance?: number | string }).balance);
+            check(
+                'BALANCE_CHECK',
+                api_base.is_authorized && (!Number.isFinite(balance) || balance >= parameters.stake),
+                api_base.is_authorized ? `Balance ${balance} for a stake of ${parameters.stake}` : 'Not logged in'
+            );
+        }
+
+        return checks;
+    }
+
+    private requestConfirmation(intent: TradeIntent, timeout: number): void {
+        const requestedAt = Date.now();
+        const request: ConfirmationRequest = { intent, requestedAt, expiresAt: requestedAt + timeout };
+        const timer = setTimeout(() => this.cancelIntent(intent, 'Confirmation timed out'), timeout);
+
+        this.confirmations.set(intent.id, { request, timer });
+    }
+
+    private scheduleQueue(delay: number): void {
+        if (this.queueTimer) return;
+        this.queueTimer = setTimeout(() => {
+            this.queueTimer = undefined;
+            this.processQueue();
+        }, delay);
+    }
+
+    private processQueue(): void {
+        while (this.queue.executing.length < this.config.maxConcurrentTrades) {
+            const next = this.queue.pending.find(intent => this.approvedIds.has(intent.id));
+            if (!next) return;
+
+            this.queue.pending = this.queue.pending.filter(intent => intent !== next);
+            this.approvedIds.delete(next.id);
+            void this.execute(next);
+        }
+    }
+
+    private async execute(intent: TradeIntent): Promise<void> {
+        const mode = modeManagerService.getCurrentMode();
+
+        this.queue.executing.push(intent);
+        this.executionStarts.push(Date.now());
+        this.setStatus(intent, 'EXECUTING');
+        this.recordEvent('EXECUTION_STARTED', intent, 'INFO', `Executing in ${mode}`);
+        this.notifyListeners();
+
+        try {
+            if (mode === 'SIMULATION') {
+                await simulationService.simulateExecution(intent);
+            } else {
+                intent.execution = await this.executeLive(intent);
+                this.setStatus(intent, intent.execution.success ? 'COMPLETED' : 'FAILED');
+            }
+        } catch (error) {
+            intent.execution = this.failedResult(error instanceof Error ? error.message : 'Execution failed', 0);
+            this.setStatus(intent, 'FAILED');
+        }
+
+        if (intent.execution) {
+            intent.execution.executionMetrics.confirmationTime = this.confirmationTimes.get(intent.id) ?? 0;
+        }
+        this.confirmationTimes.delete(intent.id);
+        this.queue.executing = this.queue.executing.filter(executing => executing !== intent);
+        this.finishIntent(intent, intent.status, intent.execution?.errorMessage);
+        this.scheduleQueue(0);
+    }
+
+    private async executeLive(intent: TradeIntent): Promise<ExecutionResult> {
+        const { parameters } = intent;
+        const startedAt = Date.now();
+
+        if (!api_base.api) {
+            return this.failedResult('Deriv API not connected', 0);
+        }
+
+        const decision = accountRiskGate.requestApproval({
+            engine: 'TICKSHARK',
+            stake: parameters.stake,
+            symbol: parameters.symbol,
+            contractType: toDerivContractType(parameters),
+        });
+        if (!decision.allowed) {
+            return this.failedResult(`Blocked by risk gate: ${decision.message}`, 0);
+        }
+
+        const currency = (api_base.account_info as { currency?: string }).currency || 'USD';
+        const contractType = toDerivContractType(parameters);
+        let outcome: BuyOutcome = { status: 'rejected', error: 'Buy failed' };
+        let latency = 0;
+
+        // Only a buy Deriv explicitly rejected is retried; one that may have gone through is never resent
+        for (let attempt = 0; attempt <= this.config.retryAttempts; attempt++) {
+            if (attempt > 0) await wait(this.config.retryDelay);
+
+            const sentAt = Date.now();
+            outcome = await sendBuy(
+                { buy: 1, price: parameters.stake, parameters: toBuyParameters(parameters, currency) },
+                { symbol: parameters.symbol, contractType, stake: parameters.stake, sentAt }
+            );
+            latency = Date.now() - sentAt;
+            if (outcome.status !== 'rejected') break;
+        }
+
+        if (outcome.status === 'rejected') {
+            accountRiskGate.releaseTicket(decision.ticketId!);
+            return this.failedResult(outcome.error, latency);
+        }
+        if (outcome.status === 'unknown') {
+            // The ticket stays open so the risk gate keeps counting the stake
+            return this.failedResult(`${outcome.error}; check Reports before trading again`, latency);
+        }
+
+        const { buy } = outcome;
+        accountRiskGate.attachContract(decision.ticketId!, buy.contract_id);
+        const contract = await watchContractSettlement(buy.contract_id, {
+            timeoutMs: this.config.executionTimeoutMs,
+            onSettled: settled => this.bookSettlement(intent, settled, Number(buy.buy_price), latency),
+        });
+        const executionTime = Date.now() - startedAt;
+
+        if (!contract) {
+            return {
+                ...this.failedResult('Settlement timed out; it is booked when the contract closes', latency),
+                contractId: String(buy.contract_id),
+            };
+        }
+
+        const entrySpot = Number(contract.entry_spot) || undefined;
+        const exitSpot = Number(contract.exit_tick ?? contract.sell_spot) || undefined;
+        const profit = Number(contract.profit) || 0;
+        const payout = profit > 0 ? Number(contract.payout) || 0 : 0;
+        const slippage =
+            entrySpot && parameters.entrySpot ? Math.abs(entrySpot - parameters.entrySpot) / parameters.entrySpot : 0;
+
+        return {
+            success: true,
+            contractId: String(buy.contract_id),
+            entrySpot,
+            exitSpot,
+            payout,
+            profit,
+            executionMetrics: {
+                latency,
+                slippage,
+                executionTime,
+                networkDelay: latency,
+                processingTime: executionTime - latency,
+                confirmationTime: 0,
+            },
+        };
+    }
+
+    /**
+     * Book a sold contract with the risk gate, the ledger and analytics
+     */
+    private bookSettlement(intent: TradeIntent, contract: SettledContract, buyPrice: number, latency: number): void {
+        const { parameters } = intent;
+        const profit = Number(contract.profit) || 0;
+
+        accountRiskGate.recordSettlement(contract.contract_id, profit);
+        tradeLedger.record({
+            contractId: contract.contract_id,
+            engine: 'TICKSHARK',
+            strategy: intent.type,
+            symbol: contract.underlying || parameters.symbol,
+            contractType: contract.contract_type || toDerivContractType(parameters),
+            stake: Number(contract.buy_price) || buyPrice || parameters.stake,
+            payout: profit > 0 ? Number(contract.payout) || 0 : 0,
+            profit,
+            entrySpot: Number(contract.entry_spot) || undefined,
+            exitSpot: Number(contract.exit_tick ?? contract.sell_spot) || undefined,
+            settledAt: Number(contract.sell_time) * 1000 || undefined,
+        });
+        analyticsService.addTradeRecord({
+            timestamp: Date.now(),
+            signalType: parameters.contractType,
+            confidence: intent.confidence,
+            risk: intent.riskScore,
+            stake: parameters.stake,
+            profit,
+            duration: getContractTicks(parameters),
+            latency,
+            marketCondition: `LIVE_${modeManagerService.getCurrentMode()}`,
+            isWin: profit > 0,
+            isSimulation: false,
+        });
+    }
+
+    private cancelIntent(intent: TradeIntent, reason: string): void {
+        const confirmation = this.confirmations.get(intent.id);
+        if (confirmation) {
+            clearTimeout(confirmation.timer);
+            this.confirmations.delete(intent.id);
+        }
+        this.approvedIds.delete(intent.id);
+        this.queue.pending = this.queue.pending.filter(pending => pending !== intent);
+
+        this.setStatus(intent, 'CANCELLED');
+        this.finishIntent(intent, 'CANCELLED', reason);
+    }
+
+    private finishIntent(intent: TradeIntent, status: TradeIntent['status'], message?: string): void {
+        this.setStatus(intent, status);
+
+        if (status === 'COMPLETED') {
+            this.queue.completed.unshift(intent);
+            this.recordEvent('INTENT_COMPLETED', intent, 'INFO', `Settled with ${intent.execution?.profit ?? 0}`);
+        } else {
+            this.queue.failed.unshift(intent);
+            this.recordEvent(
+                status === 'CANCELLED' ? 'INTENT_CANCELLED' : 'INTENT_FAILED',
+                intent,
+                status === 'CANCELLED' ? 'INFO' : 'WARNING',
+                message || status
+            );
+        }
+        this.queue.completed.splice(MAX_FINISHED_INTENTS);
+        this.queue.failed.splice(MAX_FINISHED_INTENTS);
+
+        this.updateStatistics(intent);
+        this.notifyListeners();
+    }
+
+    private updateStatistics(intent: TradeIntent): void {
+        const stats = this.statistics;
+        const metrics = intent.execution?.executionMetrics;
+
+        if (intent.status === 'CANCELLED') {
+            stats.cancelledTrades++;
+        } else if (intent.execution) {
+            stats.totalTrades++;
+            if (intent.status === 'COMPLETED') {
+                stats.successfulTrades++;
+            } else {
+                stats.failedTrades++;
+            }
+        }
+
+        if (intent.status === 'COMPLETED' && intent.execution) {
+            stats.totalStake += intent.parameters.stake;
+            stats.totalPayout += intent.execution.payout ?? 0;
+            stats.netProfit = Math.round((stats.totalPayout - stats.totalStake) * 100) / 100;
+        }
+
+        const settled = this.queue.completed;
+        const wins = settled.filter(completed => (completed.execution?.profit ?? 0) > 0).length;
+        stats.winRate = settled.length > 0 ? wins / settled.length : 0;
+        stats.averageProfit = stats.successfulTrades > 0 ? stats.netProfit / stats.successfulTrades : 0;
+        stats.successRate = stats.totalTrades > 0 ? stats.successfulTrades / stats.totalTrades : 0;
+
+        let equity = 0;
+        let peak = 0;
+        stats.maxDrawdown = 0;
+        [...settled].reverse().forEach(completed => {
+            equity += completed.execution?.profit ?? 0;
+            peak = Math.max(peak, equity);
+            stats.maxDrawdown = Math.max(stats.maxDrawdown, peak - equity);
+        });
+
+        if (metrics && stats.totalTrades > 0) {
+            const count = stats.totalTrades;
+            stats.averageLatency += (metrics.latency - stats.averageLatency) / count;
+            stats.averageSlippage += (metrics.slippage - stats.averageSlippage) / count;
+            stats.averageExecutionTime += (metrics.executionTime - stats.averageExecutionTime) / count;
+
+            if (metrics.latency > this.config.latencyThreshold) {
+                this.recordEvent('EXECUTION_COMPLETED', intent, 'WARNING', `Latency ${Math.round(metrics.latency)}ms`);
+            }
+            if (metrics.slippage > this.config.slippageThreshold) {
+                this.recordEvent('EXECUTION_COMPLETED', intent, 'WARNING', `Slippage ${metrics.slippage}`);
+            }
+        }
+
+        stats.maxRiskScore = Math.max(0, ...this.riskScores);
+        stats.averageRiskScore =
+            this.riskScores.length > 0
+                ? this.riskScores.reduce((sum, score) => sum + score, 0) / this.riskScores.length
+                : 0;
+    }
+
+    private failedResult(errorMessage: string, latency: number): ExecutionResult {
+        return {
+            success: false,
+            errorMessage,
+            executionMetrics: {
+                latency,
+                slippage: 0,
+                executionTime: latency,
+                networkDelay: latency,
+                processingTime: 0,
+                confirmationTime: 0,
+            },
+        };
+    }
+
+    private setStatus(intent: TradeIntent, status: TradeIntent['status']): void {
+        intent.status = status;
+        intent.updatedAt = Date.now();
+    }
+
+    private recordEvent(
+        type: ExecutionEvent['type'],
+        intent: TradeIntent,
+        severity: ExecutionEvent['severity'],
+        message: string
+    ): void {
+        this.events.unshift({
+            id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            timestamp: Date.now(),
+            type,
+            intentId: intent.id,
+            data: { status: intent.status },
+            severity,
+            message,
+        });
+        this.events.splice(MAX_EVENTS);
+    }
+
+    private notifyListeners(): void {
+        if (this.listeners.size === 0) return;
+
+        const snapshot = this.getSnapshot();
+        this.listeners.forEach(listener => {
+            try {
+                listener(snapshot);
+            } catch (error) {
+                console.error('🦈 Execution listener error:', error);
+            }
+        });
+    }
+
+    private createInitialStatistics(): ExecutionStatistics {
+        return {
+            totalTrades: 0,
+            successfulTrades: 0,
+            failedTrades: 0,
+            cancelledTrades: 0,
+            totalStake: 0,
+            totalPayout: 0,
+            netProfit: 0,
+            winRate: 0,
+            averageProfit: 0,
+            maxDrawdown: 0,
+            averageLatency: 0,
+            averageSlippage: 0,
+            averageExecutionTime: 0,
+            successRate: 0,
+            tradesPerHour: 0,
+            activeTime: 0,
+            totalTime: 0,
+            maxRiskScore: 0,
+            averageRiskScore: 0,
+            riskViolations: 0,
+        };
+    }
+}
+
+// Export singleton instance
+export const executionService = new ExecutionService();
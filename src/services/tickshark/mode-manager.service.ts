@@ -10,6 +10,7 @@
  */
 
 import { TradingMode } from '../../types/tickshark/execution.types';
+import { simulationService } from './simulation.service';
 
 export { TradingMode };
 
@@ -176,6 +177,11 @@ class ModeManagerService {
             // Perform initial safety checks
             await this.performSafetyChecks(this.currentMode);
             
+            // A restored simulation mode needs its tick source running again
+            if (this.currentMode === 'SIMULATION') {
+                await simulationService.start();
+            }
+            
             this.isInitialized = true;
             this.modeStartTime = Date.now();
             
@@ -343,6 +349,7 @@ class ModeManagerService {
         
         // Force switch to safe mode
         const previousMode = this.currentMode;
+        simulationService.stop();
         this.currentMode = 'MANUAL_OBSERVATION';
         this.modeStartTime = Date.now();
         
@@ -393,6 +400,13 @@ class ModeManagerService {
         try {
             const previousMode = this.currentMode;
             
+            // Simulation runs on its own tick source; start it before committing the switch
+            if (transition.to === 'SIMULATION') {
+                await simulationService.start();
+            } else if (previousMode === 'SIMULATION') {
+                simulationService.stop();
+            }
+            
             // Update current mode
             this.currentMode = transition.to;
             this.modeStartTime = Date.now();
@@ -11,6 +11,8 @@
 
 import { AnalysisResult, ArbitrageOpportunity } from '../../types/tickshark/analysis.types';
 import { TradingMode, IntentType } from '../../types/tickshark/execution.types';
+import { fromAnalysisSignal, signalOutcomeTracker } from '../signal-outcome-tracker.service';
+import type { DataProvenance } from '../tick-source/tick-source';
 
 export interface AnalysisSignal {
     id: string;
@@ -53,6 +55,7 @@ export interface AnalysisSignal {
     
     // Metadata
     source: 'LATENCY_ARBITRAGE' | 'SPREAD_ARBITRAGE' | 'PATTERN_DETECTION' | 'ML_MODEL';
+    provenance: DataProvenance; // Of the ticks behind the analysis
     priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
     tags: string[];
     notes?: string;
@@ -158,6 +161,7 @@ class SignalGeneratorService {
     private statistics: SignalStatistics = this.initializeStatistics();
     private lastSignalTime = 0;
     private signalHistory: AnalysisSignal[] = [];
+    private listeners: Set<(signals: AnalysisSignal[]) => void> = new Set();
 
     /**
      * Generate trading signals from analysis results
@@ -189,12 +193,17 @@ class SignalGeneratorService {
             
             // Update tracking
             this.updateSignalTracking(filteredSignals);
+            signalOutcomeTracker.trackMany(filteredSignals.map(fromAnalysisSignal));
             
             // Update statistics
             this.updateStatistics(signals, filteredSignals);
             
             this.lastSignalTime = Date.now();
             
+            if (filteredSignals.length > 0) {
+                this.notifyListeners(filteredSignals);
+            }
+            
             return filteredSignals;
             
         } catch (error) {
@@ -241,6 +250,26 @@ class SignalGeneratorService {
         console.log('🦈 Signal history cleared');
     }
 
+    /**
+     * Subscribe to signals as they pass the filters
+     */
+    subscribe(listener: (signals: AnalysisSignal[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private notifyListeners(signals: AnalysisSignal[]): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(signals);
+            } catch (error) {
+                console.error('🦈 Signal listener error:', error);
+            }
+        });
+    }
+
     /**
      * Private signal generation methods
      */
@@ -321,6 +350,7 @@ class SignalGeneratorService {
                 validationScore: confidence,
                 
                 source: this.mapOpportunityTypeToSource(opportunity.type),
+                provenance: analysisResult.provenance,
                 priority: opportunity.priority,
                 tags: this.generateSignalTags(opportunity, analysisResult),
                 notes: this.generateSignalNotes(opportunity, analysisResult),
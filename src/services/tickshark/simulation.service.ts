@@ -0,0 +1,694 @@
+/**
+ * TickShark Simulation Service
+ * Drives the TickShark pipeline from a replayed or synthetic tick source
+ *
+ * CRITICAL: Risk-free execution environment for the SIMULATION trading mode
+ * - HISTORICAL_REPLAY: recorded ticks from the Deriv API or an imported file
+ * - SYNTHETIC_DATA: random-walk ticks shaped by marketSimulation settings
+ * - HYBRID: historical replay continued by synthetic ticks once the data runs out
+ * - LIVE_SIMULATION: live ticks with simulated executions
+ * - Simulated executions honour latency, jitter, slippage and rejection settings
+ */
+
+import { isWinningContract } from '../../engine/backtester';
+import { TickData } from '../../types/tickshark/analysis.types';
+import { ContractSide, TradeIntent, TradeParameters } from '../../types/tickshark/execution.types';
+import { SimulationConfig, SimulationResult, SimulationState } from '../../types/tickshark/simulation.types';
+import { getPayoutMultiplier } from '../../utils/profit-calculator';
+import { historicalTickLoader, type HistoricalTickData } from '../historical-tick-loader.service';
+import { getLastDigit } from '../tick-source/tick-source';
+import { analysisEngineService } from './analysis-engine.service';
+import { analyticsService } from './analytics.service';
+import { tickListenerService } from './tick-listener.service';
+
+export interface SimulatedTick extends HistoricalTickData {
+    origin: 'HISTORICAL' | 'SYNTHETIC' | 'LIVE';
+}
+
+interface PendingSettlement {
+    intent: TradeIntent;
+    entry: SimulatedTick;
+    ticksRemaining: number;
+    startedAt: number;
+    latency: number;
+    slippage: number;
+    resolve: (intent: TradeIntent) => void;
+}
+
+const DEFAULT_SIDES: Record<TradeParameters['contractType'], ContractSide> = {
+    RISE_FALL: 'RISE',
+    HIGHER_LOWER: 'HIGHER',
+    MATCHES_DIFFERS: 'MATCHES',
+    EVEN_ODD: 'EVEN',
+    OVER_UNDER: 'OVER',
+};
+
+const DERIV_CONTRACT_TYPES: Record<ContractSide, string> = {
+    RISE: 'CALL',
+    FALL: 'PUT',
+    HIGHER: 'CALL',
+    LOWER: 'PUT',
+    MATCHES: 'DIGITMATCH',
+    DIFFERS: 'DIGITDIFF',
+    EVEN: 'DIGITEVEN',
+    ODD: 'DIGITODD',
+    OVER: 'DIGITOVER',
+    UNDER: 'DIGITUNDER',
+};
+
+/**
+ * Map TickShark trade parameters onto the Deriv contract type
+ */
+export function toDerivContractType(parameters: TradeParameters): string {
+    return DERIV_CONTRACT_TYPES[parameters.side ?? DEFAULT_SIDES[parameters.contractType]];
+}
+
+/**
+ * Number of ticks a TickShark contract runs for (Deriv tick contracts run 1-10 ticks)
+ */
+export function getContractTicks(parameters: TradeParameters): number {
+    return Math.max(1, Math.min(10, Math.round(parameters.duration)));
+}
+
+const randomInRange = ([min, max]: [number, number]): number => min + Math.random() * (max - min);
+
+class SimulationService {
+    private config: SimulationConfig = {
+        mode: 'HISTORICAL_REPLAY',
+        duration: 10 * 60 * 1000, // 10 minutes of simulated time
+
+        dataSource: {
+            type: 'HISTORICAL_FILE',
+            symbol: 'R_100',
+            timeRange: [0, 0], // [0, 0] replays the whole series
+            tickRate: 10, // ticks per second
+        },
+
+        executionSimulation: {
+            latencyRange: [50, 250], // ms
+            slippageRange: [0, 0.0005], // fraction of entry price
+            rejectionRate: 0.02,
+            partialFillRate: 0, // Binary contracts fill completely or not at all
+            networkJitter: 20, // ms
+        },
+
+        marketSimulation: {
+            spreadRange: [0.001, 0.005],
+            volatilityFactor: 1,
+            gapProbability: 0.001,
+            liquidityFactor: 1,
+            marketHours: false,
+        },
+
+        performance: {
+            maxTicksPerSecond: 100,
+            bufferSize: 5000,
+            memoryLimit: 50 * 1024 * 1024,
+            enableOptimizations: true,
+        },
+
+        logging: {
+            enableDetailedLogging: false,
+            logLevel: 'INFO',
+            saveResults: true,
+        },
+    };
+
+    private state: SimulationState = this.createInitialState();
+    private sourceTicks: SimulatedTick[] = [];
+    private importedTicks: HistoricalTickData[] | null = null;
+    private recentTicks: SimulatedTick[] = [];
+    private cursor = 0;
+    private simulatedTime = 0;
+    private lastQuote = 0;
+    private simulatedStartTime = 0;
+    private pumpTimer?: ReturnType<typeof setInterval>;
+    private unsubscribeLive?: () => void;
+    private pendingSettlements: PendingSettlement[] = [];
+    private executedIntents: TradeIntent[] = [];
+    private analysesAtStart = 0;
+    private opportunitiesAtStart = 0;
+    private lastResult?: SimulationResult;
+
+    /**
+     * Start a simulation run
+     */
+    async start(config?: Partial<SimulationConfig>): Promise<SimulationState> {
+        if (this.isRunning()) {
+            this.stop();
+        }
+
+        if (config) {
+            this.updateConfiguration(config);
+        }
+
+        this.state = this.createInitialState();
+        this.recentTicks = [];
+        this.pendingSettlements = [];
+        this.executedIntents = [];
+        this.cursor = 0;
+
+        try {
+            console.log(`🦈 Starting ${this.config.mode} simulation for ${this.config.dataSource.symbol}...`);
+
+            this.sourceTicks = await this.loadSourceTicks();
+            this.simulatedTime =
+                this.sourceTicks.length > 0 ? this.sourceTicks[0].epoch * 1000 : Math.floor(Date.now() / 1000) * 1000;
+            this.simulatedStartTime = this.simulatedTime;
+            this.lastQuote = this.sourceTicks.length > 0 ? this.sourceTicks[0].quote : this.getBaseQuote();
+
+            const analysisStats = analysisEngineService.getStatistics();
+            this.analysesAtStart = analysisStats.totalAnalyses;
+            this.opportunitiesAtStart = analysisStats.opportunitiesDetected;
+
+            if (this.config.mode === 'LIVE_SIMULATION') {
+                // Live ticks keep flowing through the listener; only executions are simulated
+                this.unsubscribeLive = tickListenerService.subscribe(tick => this.handleLiveTick(tick));
+            } else {
+                tickListenerService.setExternalFeed(true);
+                this.startPump();
+            }
+
+            this.state.status = 'RUNNING';
+            return this.getState();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Simulation failed to start';
+            this.state.status = 'FAILED';
+            this.state.errors.push(message);
+            console.error('🦈 Simulation start failed:', message);
+            throw error;
+        }
+    }
+
+    /**
+     * Pause tick emission; pending executions settle once ticks resume
+     */
+    pause(): void {
+        if (this.state.status !== 'RUNNING') return;
+        this.stopPump();
+        this.state.status = 'PAUSED';
+    }
+
+    /**
+     * Resume a paused simulation
+     */
+    resume(): void {
+        if (this.state.status !== 'PAUSED') return;
+        this.state.status = 'RUNNING';
+        if (this.config.mode !== 'LIVE_SIMULATION') {
+            this.startPump();
+        }
+    }
+
+    /**
+     * Stop the simulation and build its result
+     */
+    stop(): SimulationResult | undefined {
+        if (!this.isRunning()) {
+            return this.lastResult;
+        }
+
+        this.stopPump();
+        this.unsubscribeLive?.();
+        this.unsubscribeLive = undefined;
+        tickListenerService.setExternalFeed(false);
+
+        // Contracts that cannot settle any more are cancelled rather than guessed
+        this.pendingSettlements.forEach(pending => {
+            pending.intent.status = 'CANCELLED';
+            pending.intent.updatedAt = Date.now();
+            pending.resolve(pending.intent);
+        });
+        this.pendingSettlements = [];
+
+        if (this.state.status !== 'FAILED') {
+            this.state.status = 'COMPLETED';
+        }
+        this.state.endTime = Date.now();
+        this.lastResult = this.buildResult();
+        this.state.results = this.lastResult;
+
+        console.log(`🦈 Simulation ${this.state.id} stopped after ${this.state.ticksProcessed} ticks`);
+        return this.lastResult;
+    }
+
+    /**
+     * Provide ticks for HISTORICAL_REPLAY / HYBRID runs (e.g. from an imported file)
+     * Passing null reverts to loading ticks from the configured recording or the Deriv API
+     */
+    loadTicks(ticks: HistoricalTickData[] | null): void {
+        this.importedTicks = ticks;
+    }
+
+    /**
+     * Execute an intent against the simulated market
+     * Resolves once the contract has settled on the simulated tick stream
+     */
+    simulateExecution(intent: TradeIntent): Promise<TradeIntent> {
+        const { executionSimulation } = this.config;
+        const latency = Math.max(
+            0,
+            randomInRange(executionSimulation.latencyRange) +
+                (Math.random() * 2 - 1) * executionSimulation.networkJitter
+        );
+        const slippage = randomInRange(executionSimulation.slippageRange);
+        const startedAt = Date.now();
+
+        intent.status = 'EXECUTING';
+        intent.updatedAt = startedAt;
+
+        return new Promise(resolve => {
+            setTimeout(() => {
+                if (!this.isRunning() || this.recentTicks.length === 0) {
+                    resolve(this.failIntent(intent, 'Simulation is not running', latency, slippage, startedAt));
+                    return;
+                }
+
+                if (Math.random() < executionSimulation.rejectionRate) {
+                    resolve(this.failIntent(intent, 'Rejected by simulated broker', latency, slippage, startedAt));
+                    return;
+                }
+
+                // The entry is whichever tick is current once the simulated latency has elapsed
+                this.pendingSettlements.push({
+                    intent,
+                    entry: this.recentTicks[this.recentTicks.length - 1],
+                    ticksRemaining: getContractTicks(intent.parameters),
+                    startedAt,
+                    latency,
+                    slippage,
+                    resolve,
+                });
+            }, latency);
+        });
+    }
+
+    /**
+     * Whether ticks are currently being simulated
+     */
+    isRunning(): boolean {
+        return this.state.status === 'RUNNING' || this.state.status === 'PAUSED';
+    }
+
+    /**
+     * Get current simulation state
+     */
+    getState(): SimulationState {
+        return { ...this.state, errors: [...this.state.errors], warnings: [...this.state.warnings] };
+    }
+
+    /**
+     * Get the result of the last completed run
+     */
+    getLastResult(): SimulationResult | undefined {
+        return this.lastResult;
+    }
+
+    /**
+     * Get recent simulated ticks
+     */
+    getRecentTicks(count = 10): SimulatedTick[] {
+        return this.recentTicks.slice(-count);
+    }
+
+    /**
+     * Update configuration
+     */
+    updateConfiguration(newConfig: Partial<SimulationConfig>): void {
+        this.config = {
+            ...this.config,
+            ...newConfig,
+            dataSource: { ...this.config.dataSource, ...newConfig.dataSource },
+            executionSimulation: { ...this.config.executionSimulation, ...newConfig.executionSimulation },
+            marketSimulation: { ...this.config.marketSimulation, ...newConfig.marketSimulation },
+            performance: { ...this.config.performance, ...newConfig.performance },
+            logging: { ...this.config.logging, ...newConfig.logging },
+        };
+        console.log('🦈 Simulation configuration updated');
+    }
+
+    /**
+     * Get current configuration
+     */
+    getConfiguration(): SimulationConfig {
+        return { ...this.config };
+    }
+
+    /**
+     * Private helper methods
+     */
+    private async loadSourceTicks(): Promise<SimulatedTick[]> {
+        const { mode, dataSource, performance } = this.config;
+
+        if (mode === 'SYNTHETIC_DATA' || mode === 'LIVE_SIMULATION') {
+            return [];
+        }
+
+        let ticks = this.importedTicks;
+        if (!ticks) {
+            const result = dataSource.recordingId
+                ? await historicalTickLoader.loadRecordedTicks(dataSource.recordingId, performance.bufferSize)
+                : await historicalTickLoader.loadHistoricalTicksWithRetry(dataSource.symbol, performance.bufferSize);
+            if (!result.success) {
+                throw new Error(result.error || `No historical ticks for ${dataSource.symbol}`);
+            }
+            ticks = result.ticks;
+        }
+
+        const [from, to] = dataSource.timeRange;
+        const inRange = from || to ? ticks.filter(tick => tick.epoch >= from && (!to || tick.epoch <= to)) : ticks;
+
+        if (inRange.length === 0 && mode === 'HISTORICAL_REPLAY') {
+            throw new Error('No historical ticks in the configured time range');
+        }
+
+        return inRange.map(tick => ({ ...tick, origin: 'HISTORICAL' as const }));
+    }
+
+    private startPump(): void {
+        const { tickRate } = this.config.dataSource;
+        const ticksPerSecond = Math.max(0.1, Math.min(tickRate, this.config.performance.maxTicksPerSecond));
+
+        this.stopPump();
+        this.pumpTimer = setInterval(() => this.emitNextTick(), 1000 / ticksPerSecond);
+    }
+
+    private stopPump(): void {
+        if (this.pumpTimer) {
+            clearInterval(this.pumpTimer);
+            this.pumpTimer = undefined;
+        }
+    }
+
+    private emitNextTick(): void {
+        const tick = this.nextSourceTick();
+        if (!tick || tick.epoch * 1000 - this.simulatedStartTime > this.config.duration) {
+            this.stop();
+            return;
+        }
+
+        this.processSimulatedTick(tick);
+        tickListenerService.injectTick(this.toTickSharkTick(tick));
+    }
+
+    private nextSourceTick(): SimulatedTick | null {
+        if (this.cursor < this.sourceTicks.length) {
+            return this.sourceTicks[this.cursor++];
+        }
+
+        // Pure replays end with their data; synthetic and hybrid runs keep generating
+        if (this.config.mode === 'HISTORICAL_REPLAY') {
+            return null;
+        }
+
+        return this.generateSyntheticTick();
+    }
+
+    private generateSyntheticTick(): SimulatedTick {
+        const { volatilityFactor, gapProbability } = this.config.marketSimulation;
+        const sigma = 0.0005 * volatilityFactor;
+
+        // Box-Muller normal sample for the random walk
+        const normal = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+        const gap = Math.random() < gapProbability ? (Math.random() < 0.5 ? -10 : 10) * sigma : 0;
+        const quote = Number((this.lastQuote * (1 + normal * sigma + gap)).toFixed(2));
+
+        this.simulatedTime += 1000;
+
+        return {
+            epoch: Math.floor(this.simulatedTime / 1000),
+            quote,
+            lastDigit: parseInt(quote.toFixed(2).slice(-1), 10),
+            origin: 'SYNTHETIC',
+        };
+    }
+
+    private handleLiveTick(tick: TickData): void {
+        if (tick.symbol !== this.config.dataSource.symbol || this.state.status !== 'RUNNING') return;
+
+        const quote = tick.bid;
+        this.processSimulatedTick({
+            epoch: Math.floor(tick.timestamp / 1000),
+            quote,
+            // The pip size keeps trailing zeros that the number itself drops
+            lastDigit: getLastDigit(quote, tick.pipSize),
+            origin: 'LIVE',
+        });
+    }
+
+    private processSimulatedTick(tick: SimulatedTick): void {
+        this.simulatedTime = tick.epoch * 1000;
+        this.lastQuote = tick.quote;
+
+        this.recentTicks.push(tick);
+        if (this.recentTicks.length > this.config.performance.bufferSize) {
+            this.recentTicks.splice(0, this.recentTicks.length - this.config.performance.bufferSize);
+        }
+
+        this.settlePending(tick);
+        this.updateState();
+    }
+
+    private settlePending(tick: SimulatedTick): void {
+        const due: PendingSettlement[] = [];
+
+        this.pendingSettlements = this.pendingSettlements.filter(pending => {
+            // The entry tick itself does not count towards the contract duration
+            if (pending.entry === tick) return true;
+            pending.ticksRemaining--;
+            if (pending.ticksRemaining > 0) return true;
+            due.push(pending);
+            return false;
+        });
+
+        due.forEach(pending => this.settle(pending, tick));
+    }
+
+    private settle(pending: PendingSettlement, exit: SimulatedTick): void {
+        const { intent, entry, latency, slippage, startedAt } = pending;
+        const parameters = intent.parameters;
+        const contractType = toDerivContractType(parameters);
+        const isRiseFall = contractType === 'CALL' || contractType === 'PUT';
+
+        // Slippage always works against the trader on directional contracts
+        const direction = contractType === 'CALL' ? 1 : -1;
+        const entrySpot = isRiseFall ? entry.quote * (1 + slippage * direction) : entry.quote;
+        const reference =
+            parameters.contractType === 'HIGHER_LOWER' && parameters.barrier !== undefined
+                ? parameters.barrier
+                : entrySpot;
+        const digitBarrier = parameters.prediction ?? 5;
+
+        const isWin = isWinningContract(contractType, digitBarrier, { ...entry, quote: reference }, exit);
+        const multiplier = getPayoutMultiplier(contractType, digitBarrier);
+        const payout = isWin ? Math.round(parameters.stake * multiplier * 100) / 100 : 0;
+        const profit = Math.round((payout - parameters.stake) * 100) / 100;
+        const executionTime = Date.now() - startedAt;
+
+        intent.status = 'COMPLETED';
+        intent.updatedAt = Date.now();
+        intent.execution = {
+            success: true,
+            contractId: `sim-${this.state.id}-${intent.id}`,
+            entrySpot,
+            exitSpot: exit.quote,
+            payout,
+            profit,
+            executionMetrics: {
+                latency,
+                slippage,
+                executionTime,
+                networkDelay: latency,
+                processingTime: executionTime - latency,
+                confirmationTime: 0,
+            },
+        };
+
+        this.executedIntents.push(intent);
+        this.state.tradesExecuted++;
+
+        analyticsService.addTradeRecord({
+            timestamp: intent.updatedAt,
+            signalType: parameters.contractType,
+            confidence: intent.confidence,
+            risk: intent.riskScore,
+            stake: parameters.stake,
+            profit,
+            duration: getContractTicks(parameters),
+            latency,
+            marketCondition: `SIMULATION_${this.config.mode}`,
+            isWin,
+            isSimulation: true,
+        });
+
+        pending.resolve(intent);
+    }
+
+    private failIntent(
+        intent: TradeIntent,
+        errorMessage: string,
+        latency: number,
+        slippage: number,
+        startedAt: number
+    ): TradeIntent {
+        const executionTime = Date.now() - startedAt;
+
+        intent.status = 'FAILED';
+        intent.updatedAt = Date.now();
+        intent.execution = {
+            success: false,
+            errorMessage,
+            executionMetrics: {
+                latency,
+                slippage,
+                executionTime,
+                networkDelay: latency,
+                processingTime: 0,
+                confirmationTime: 0,
+            },
+        };
+
+        this.executedIntents.push(intent);
+        this.state.warnings.push(`${intent.id}: ${errorMessage}`);
+        return intent;
+    }
+
+    private toTickSharkTick(tick: SimulatedTick): TickData {
+        const spread = randomInRange(this.config.marketSimulation.spreadRange);
+        const latency = Math.random() * this.config.executionSimulation.networkJitter;
+        const timestamp = tick.epoch * 1000;
+
+        return {
+            symbol: this.config.dataSource.symbol,
+            timestamp,
+            bid: tick.quote,
+            ask: tick.quote + spread,
+            spread,
+            receiveTime: timestamp + latency,
+            processTime: timestamp + latency,
+            latency,
+            quality: spread / tick.quote < 0.001 ? 'HIGH' : 'MEDIUM',
+            source: tick.origin === 'SYNTHETIC' ? 'simulation-synthetic' : 'simulation-replay',
+            // Whatever the simulator feeds the listener is a replay, never the current market
+            provenance: tick.origin === 'SYNTHETIC' ? 'synthetic' : 'recorded',
+            sequenceNumber: this.state.ticksProcessed + 1,
+            isValid: true,
+        };
+    }
+
+    private updateState(): void {
+        const now = Date.now();
+        const analysisStats = analysisEngineService.getStatistics();
+        const elapsedSeconds = (now - this.state.startTime) / 1000;
+
+        this.state.ticksProcessed++;
+        this.state.currentTime = this.simulatedTime;
+        this.state.analysesCompleted = analysisStats.totalAnalyses - this.analysesAtStart;
+        this.state.processingRate = elapsedSeconds > 0 ? this.state.ticksProcessed / elapsedSeconds : 0;
+        this.state.memoryUsage = this.recentTicks.length;
+
+        const simulatedElapsed = this.simulatedTime - this.simulatedStartTime;
+        const timeProgress = this.config.duration > 0 ? simulatedElapsed / this.config.duration : 0;
+        const dataProgress =
+            this.config.mode === 'HISTORICAL_REPLAY' && this.sourceTicks.length > 0
+                ? this.cursor / this.sourceTicks.length
+                : 0;
+        this.state.progress = Math.min(1, Math.max(timeProgress, dataProgress));
+    }
+
+    private buildResult(): SimulationResult {
+        const settled = this.executedIntents.filter(intent => intent.status === 'COMPLETED');
+        const profits = settled.map(intent => intent.execution?.profit ?? 0);
+        const totalStake = settled.reduce((sum, intent) => sum + intent.parameters.stake, 0);
+        const totalPayout = settled.reduce((sum, intent) => sum + (intent.execution?.payout ?? 0), 0);
+        const wins = profits.filter(profit => profit > 0).length;
+
+        let equity = 0;
+        let peak = 0;
+        let maxDrawdown = 0;
+        profits.forEach(profit => {
+            equity += profit;
+            peak = Math.max(peak, equity);
+            maxDrawdown = Math.max(maxDrawdown, peak - equity);
+        });
+
+        const mean = profits.length > 0 ? profits.reduce((sum, profit) => sum + profit, 0) / profits.length : 0;
+        const variance =
+            profits.length > 1
+                ? profits.reduce((sum, profit) => sum + Math.pow(profit - mean, 2), 0) / (profits.length - 1)
+                : 0;
+        const latencies = this.executedIntents.map(intent => intent.execution?.executionMetrics.latency ?? 0);
+        const analysisStats = analysisEngineService.getStatistics();
+
+        return {
+            id: this.state.id,
+            config: this.getConfiguration(),
+            duration: (this.state.endTime ?? Date.now()) - this.state.startTime,
+            ticksProcessed: this.state.ticksProcessed,
+            analysesCompleted: this.state.analysesCompleted,
+            tradesExecuted: this.state.tradesExecuted,
+
+            tradingResults: {
+                totalTrades: this.executedIntents.length,
+                successfulTrades: settled.length,
+                failedTrades: this.executedIntents.length - settled.length,
+                totalStake,
+                totalPayout,
+                netProfit: totalPayout - totalStake,
+                winRate: settled.length > 0 ? wins / settled.length : 0,
+                maxDrawdown,
+                sharpeRatio: variance > 0 ? mean / Math.sqrt(variance) : 0,
+            },
+
+            analysisResults: {
+                opportunitiesDetected: analysisStats.opportunitiesDetected - this.opportunitiesAtStart,
+                opportunitiesActioned: this.executedIntents.length,
+                averageLatency:
+                    latencies.length > 0 ? latencies.reduce((sum, value) => sum + value, 0) / latencies.length : 0,
+                predictionAccuracy: settled.length > 0 ? wins / settled.length : 0,
+                falsePositiveRate: settled.length > 0 ? (settled.length - wins) / settled.length : 0,
+            },
+
+            systemPerformance: {
+                averageProcessingTime: this.state.processingRate > 0 ? 1000 / this.state.processingRate : 0,
+                maxMemoryUsage: this.state.memoryUsage,
+                averageCpuUsage: 0,
+                errorCount: this.state.errors.length,
+                warningCount: this.state.warnings.length,
+            },
+
+            tickData: tickListenerService.getRecentTicks(this.config.dataSource.symbol, 1000),
+            analysisData: [],
+            tradeData: [...this.executedIntents],
+
+            timestamp: Date.now(),
+            version: '1.0.0',
+        };
+    }
+
+    private getBaseQuote(): number {
+        return this.lastQuote > 0 ? this.lastQuote : 1000;
+    }
+
+    private createInitialState(): SimulationState {
+        const now = Date.now();
+        return {
+            id: `sim-${now}-${Math.random().toString(36).substr(2, 9)}`,
+            startTime: now,
+            currentTime: now,
+            status: 'INITIALIZING',
+            progress: 0,
+            ticksProcessed: 0,
+            analysesCompleted: 0,
+            tradesExecuted: 0,
+            processingRate: 0,
+            memoryUsage: 0,
+            cpuUsage: 0,
+            errors: [],
+            warnings: [],
+        };
+    }
+}
+
+// Export singleton instance
+export const simulationService = new SimulationService();
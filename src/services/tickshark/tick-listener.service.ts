@@ -139,6 +139,8 @@ class TickListenerService {
     private processingTimer?: NodeJS.Timeout;
     private latencyTimer?: NodeJS.Timeout;
     private subscribers = new Set<(tick: TickData) => void>();
+    private externalFeedActive = false;
+    private liveUnsubscribers = new Map<string, () => void>();
 
     /**
      * Initialize the tick listener service
@@ -230,9 +232,11 @@ class TickListenerService {
                 status.isActive = false;
             }
             
-            // If using unified service, unsubscribe
-            if (this.config.integrateWithUnifiedService) {
-                // The unified service handles unsubscription
+            // If using unified service, release its tick feed subscription
+            const unsubscribe = this.liveUnsubscribers.get(symbol);
+            if (unsubscribe) {
+                unsubscribe();
+                this.liveUnsubscribers.delete(symbol);
                 console.log(`🦈 Unsubscribed from unified service for ${symbol}`);
             }
             
@@ -256,6 +260,27 @@ class TickListenerService {
         };
     }
 
+    /**
+     * Route an external tick source (e.g. simulation) through the pipeline.
+     * While active, ticks arriving from live streams are ignored.
+     */
+    setExternalFeed(active: boolean): void {
+        this.externalFeedActive = active;
+        console.log(`🦈 External tick feed ${active ? 'enabled - live ticks suspended' : 'disabled'}`);
+    }
+
+    /**
+     * Feed a tick from an external source through validation, buffering and analysis
+     */
+    injectTick(tick: TickData): void {
+        if (!this.tickBuffer.has(tick.symbol)) {
+            this.tickBuffer.set(tick.symbol, []);
+            this.streamStatus.set(tick.symbol, this.createInitialStreamStatus(tick.symbol));
+        }
+
+        this.processTick(tick, true);
+    }
+
     /**
      * Get current stream status for all symbols
      */
@@ -355,6 +380,10 @@ class TickListenerService {
             );
             
             if (result.success) {
+                if (result.liveSubscription) {
+                    this.liveUnsubscribers.set(symbol, result.liveSubscription);
+                }
+
                 // Process historical ticks if available
                 if (result.historicalTicks && result.historicalTicks.length > 0) {
                     result.historicalTicks.forEach(tickData => {
@@ -436,6 +465,7 @@ class TickListenerService {
                 ask,
                 spread: ask - bid,
                 volume: unifiedTick.volume,
+                pipSize: unifiedTick.pipSize,
                 
                 receiveTime,
                 processTime,
@@ -443,6 +473,7 @@ class TickListenerService {
                 
                 quality: this.assessTickQuality(bid, ask, receiveTime),
                 source: 'unified-service',
+                provenance: unifiedTick.provenance ?? 'live',
                 
                 sequenceNumber: this.processingStats.totalTicksProcessed + 1,
                 isValid: true,
@@ -475,6 +506,7 @@ class TickListenerService {
                 ask,
                 spread: ask - bid,
                 volume: derivTick.volume,
+                pipSize: derivTick.pip_size,
                 
                 receiveTime,
                 processTime,
@@ -482,6 +514,7 @@ class TickListenerService {
                 
                 quality: this.assessTickQuality(bid, ask, receiveTime),
                 source: 'deriv-api',
+                provenance: 'live',
                 
                 sequenceNumber: this.processingStats.totalTicksProcessed + 1,
                 isValid: true,
@@ -495,8 +528,13 @@ class TickListenerService {
         }
     }
 
-    private processTick(tick: TickData): void {
+    private processTick(tick: TickData, isExternal = false): void {
         try {
+            // Live ticks are suspended while an external feed drives the pipeline
+            if (this.externalFeedActive && !isExternal) {
+                return;
+            }
+            
             // Validate tick
             if (!this.validateTick(tick)) {
                 return;
@@ -0,0 +1,153 @@
+/**
+ * Trade History Transfer Service
+ * Exports the trade ledger for an account and date range, re-imports exported files
+ * and reconciles local records with the Deriv profit table.
+ */
+
+import {
+    parseTradeHistory,
+    ProfitTableTransaction,
+    reconcileTradeHistory,
+    ReconciliationReport,
+    serializeTradeHistory,
+    TradeHistoryFormat,
+} from '@/utils/trade-history';
+import { derivAPIService } from './deriv-api.service';
+import { LedgerQuery, tradeLedger } from './trade-ledger.service';
+
+export interface TradeHistoryRange {
+    accountId?: string;
+    from: number;
+    to: number;
+}
+
+export interface TradeHistoryImportResult {
+    imported: number;
+    skipped: number;
+    accountId?: string;
+    report: ReconciliationReport;
+}
+
+// profit_table returns at most this many transactions per request
+const PROFIT_TABLE_PAGE_SIZE = 500;
+
+class TradeHistoryTransferService {
+    /**
+     * Download every ledger entry in the range as CSV or JSON
+     */
+    async exportHistory(range: TradeHistoryRange, format: TradeHistoryFormat): Promise<number> {
+        const accountId = range.accountId || this.getActiveAccountId();
+        const entries = await tradeLedger.query(this.toQuery({ ...range, accountId }));
+        const content = serializeTradeHistory(entries, format, {
+            accountId,
+            exportedAt: Date.now(),
+            from: range.from,
+            to: range.to,
+        });
+
+        const day = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+        const filename = `trade-history-${accountId || 'all'}-${day(range.from)}-to-${day(range.to)}.${format}`;
+        this.download(filename, content, format === 'json' ? 'application/json' : 'text/csv;charset=utf-8;');
+
+        console.log(`📤 Exported ${entries.length} trades to ${filename}`);
+        return entries.length;
+    }
+
+    /**
+     * Import an exported file into the ledger and reconcile it with the server
+     */
+    async importHistory(content: string): Promise<TradeHistoryImportResult> {
+        const file = parseTradeHistory(content);
+        const activeAccountId = this.getActiveAccountId();
+
+        if (file.accountId && activeAccountId && file.accountId !== activeAccountId) {
+            throw new Error(`This file belongs to ${file.accountId}; switch to that account to import it`);
+        }
+
+        const { imported, skipped } = await tradeLedger.importEntries(file.entries);
+        console.log(`📥 Imported ${imported} trades (${skipped} already present)`);
+
+        const settledTimes = file.entries.map(entry => entry.settledAt);
+        const from = file.from ?? (settledTimes.length > 0 ? Math.min(...settledTimes) : Date.now());
+        const to = file.to ?? (settledTimes.length > 0 ? Math.max(...settledTimes) : Date.now());
+        const transactions = await this.fetchProfitTable(from, to);
+
+        return {
+            imported,
+            skipped,
+            accountId: file.accountId,
+            report: reconcileTradeHistory(file.entries, transactions),
+        };
+    }
+
+    /**
+     * Reconcile the local ledger for a date range with the server profit table
+     */
+    async reconcile(range: TradeHistoryRange): Promise<ReconciliationReport> {
+        const accountId = range.accountId || this.getActiveAccountId();
+        const [entries, transactions] = await Promise.all([
+            tradeLedger.query(this.toQuery({ ...range, accountId })),
+            this.fetchProfitTable(range.from, range.to),
+        ]);
+        return reconcileTradeHistory(entries, transactions);
+    }
+
+    /**
+     * Fetch every profit_table transaction sold within the range
+     */
+    async fetchProfitTable(from: number, to: number): Promise<ProfitTableTransaction[]> {
+        const transactions: ProfitTableTransaction[] = [];
+        let offset = 0;
+        let hasMore = true;
+
+        while (hasMore) {
+            const response = await derivAPIService.getProfitTable({
+                description: 0,
+                limit: PROFIT_TABLE_PAGE_SIZE,
+                offset,
+                sort: 'ASC',
+                date_from: Math.floor(from / 1000),
+                date_to: Math.ceil(to / 1000),
+            });
+
+            if (!response?.profit_table) {
+                throw new Error('Could not load the profit table from the server');
+            }
+
+            const page = response.profit_table.transactions || [];
+            transactions.push(...page);
+            hasMore = page.length >= PROFIT_TABLE_PAGE_SIZE;
+            offset += page.length;
+        }
+
+        return transactions;
+    }
+
+    // Private helper methods
+
+    private toQuery(range: TradeHistoryRange): LedgerQuery {
+        return { accountId: range.accountId, from: range.from, to: range.to, includePaper: true };
+    }
+
+    private getActiveAccountId(): string | undefined {
+        return localStorage.getItem('active_loginid') || undefined;
+    }
+
+    private download(filename: string, content: string, type: string): void {
+        const blob = new Blob([content], { type });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+
+        a.href = url;
+        a.download = filename;
+        a.style.display = 'none';
+
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+
+        URL.revokeObjectURL(url);
+    }
+}
+
+export const tradeHistoryTransfer = new TradeHistoryTransferService();
@@ -0,0 +1,229 @@
+/**
+ * Trade Ledger Service
+ * Append-only record of settled contracts from every trading surface, persisted in IndexedDB
+ * so daily reviews and statistics survive reloads.
+ */
+
+import localForage from 'localforage';
+import type { TradingEngine } from './account-risk-gate.service';
+
+export type LedgerEngine = TradingEngine | 'BOT_BUILDER' | 'TICK_ENGINE';
+
+export interface LedgerEntry {
+    id: string;
+    contractId: string;
+    engine: LedgerEngine;
+    strategy: string;
+    symbol: string;
+    contractType?: string;
+    stake: number;
+    payout: number;
+    profit: number;
+    entrySpot?: number;
+    exitSpot?: number;
+    settledAt: number;
+    recordedAt: number;
+    accountId?: string;
+    isPaper?: boolean;
+}
+
+export type LedgerEntryInput = Omit<LedgerEntry, 'id' | 'recordedAt' | 'settledAt' | 'contractId'> & {
+    contractId: string | number;
+    settledAt?: number;
+};
+
+export interface LedgerQuery {
+    accountId?: string;
+    from?: number;
+    to?: number;
+    engine?: LedgerEngine | LedgerEngine[];
+    symbol?: string;
+    strategy?: string;
+    includePaper?: boolean;
+    limit?: number;
+}
+
+export interface LedgerSummary {
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    totalStake: number;
+    totalProfit: number;
+    byEngine: Partial<Record<LedgerEngine, { trades: number; profit: number }>>;
+    bySymbol: Record<string, { trades: number; profit: number }>;
+}
+
+class TradeLedgerService {
+    private store = localForage.createInstance({ name: 'pipnova', storeName: 'trade_ledger' });
+    private listeners: Set<(entry: LedgerEntry) => void> = new Set();
+    private pendingWrites: Map<string, Promise<LedgerEntry | null>> = new Map();
+
+    /**
+     * Append a settled contract. Entries are never updated; a repeated settlement
+     * of the same contract from the same engine is ignored.
+     */
+    async record(input: LedgerEntryInput): Promise<LedgerEntry | null> {
+        const contractId = String(input.contractId);
+        const id = `${input.engine}:${contractId}`;
+
+        // Settlement handlers often fire more than once for the same contract
+        const pending = this.pendingWrites.get(id);
+        if (pending) return pending.then(() => null);
+
+        const write = this.append(id, { ...input, contractId });
+        this.pendingWrites.set(id, write);
+        try {
+            return await write;
+        } finally {
+            this.pendingWrites.delete(id);
+        }
+    }
+
+    /**
+     * Append entries restored from an export, keeping their original ids and timestamps.
+     * Entries already present are skipped.
+     */
+    async importEntries(entries: LedgerEntry[]): Promise<{ imported: number; skipped: number }> {
+        let imported = 0;
+        let skipped = 0;
+
+        for (const entry of entries) {
+            const id = `${entry.engine}:${entry.contractId}`;
+            try {
+                if (await this.store.getItem(id)) {
+                    skipped++;
+                    continue;
+                }
+                await this.store.setItem(id, { ...entry, id });
+                imported++;
+            } catch (error) {
+                console.error('❌ Failed to import trade ledger entry:', error);
+                skipped++;
+            }
+        }
+
+        return { imported, skipped };
+    }
+
+    /**
+     * Query entries ordered by settlement time
+     */
+    async query(filter: LedgerQuery = {}): Promise<LedgerEntry[]> {
+        const engines = filter.engine ? ([] as LedgerEngine[]).concat(filter.engine) : null;
+        const entries: LedgerEntry[] = [];
+
+        try {
+            await this.store.iterate<LedgerEntry, void>(entry => {
+                if (filter.accountId && entry.accountId !== filter.accountId) return;
+                if (filter.from !== undefined && entry.settledAt < filter.from) return;
+                if (filter.to !== undefined && entry.settledAt > filter.to) return;
+                if (engines && !engines.includes(entry.engine)) return;
+                if (filter.symbol && entry.symbol !== filter.symbol) return;
+                if (filter.strategy && entry.strategy !== filter.strategy) return;
+                if (!filter.includePaper && entry.isPaper) return;
+                entries.push(entry);
+            });
+        } catch (error) {
+            console.error('❌ Failed to read trade ledger:', error);
+        }
+
+        entries.sort((a, b) => a.settledAt - b.settledAt);
+        return filter.limit ? entries.slice(-filter.limit) : entries;
+    }
+
+    /**
+     * Entries settled today, local time
+     */
+    async getToday(filter: Omit<LedgerQuery, 'from' | 'to'> = {}): Promise<LedgerEntry[]> {
+        const start = new Date();
+        start.setHours(0, 0, 0, 0);
+        return this.query({ ...filter, from: start.getTime() });
+    }
+
+    /**
+     * Aggregate statistics for the matching entries
+     */
+    async getSummary(filter: LedgerQuery = {}): Promise<LedgerSummary> {
+        const entries = await this.query(filter);
+        const summary: LedgerSummary = {
+            totalTrades: entries.length,
+            wins: 0,
+            losses: 0,
+            winRate: 0,
+            totalStake: 0,
+            totalProfit: 0,
+            byEngine: {},
+            bySymbol: {},
+        };
+
+        entries.forEach(entry => {
+            if (entry.profit > 0) summary.wins++;
+            else summary.losses++;
+            summary.totalStake += entry.stake;
+            summary.totalProfit += entry.profit;
+
+            const engine = summary.byEngine[entry.engine] || { trades: 0, profit: 0 };
+            engine.trades++;
+            engine.profit += entry.profit;
+            summary.byEngine[entry.engine] = engine;
+
+            const symbol = summary.bySymbol[entry.symbol] || { trades: 0, profit: 0 };
+            symbol.trades++;
+            symbol.profit += entry.profit;
+            summary.bySymbol[entry.symbol] = symbol;
+        });
+
+        summary.winRate = entries.length > 0 ? (summary.wins / entries.length) * 100 : 0;
+        summary.totalStake = Math.round(summary.totalStake * 100) / 100;
+        summary.totalProfit = Math.round(summary.totalProfit * 100) / 100;
+        return summary;
+    }
+
+    /**
+     * Subscribe to newly appended entries
+     */
+    subscribe(listener: (entry: LedgerEntry) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Remove every entry (use with caution)
+     */
+    async clear(): Promise<void> {
+        await this.store.clear();
+    }
+
+    // Private helper methods
+
+    private async append(id: string, input: LedgerEntryInput & { contractId: string }): Promise<LedgerEntry | null> {
+        try {
+            if (await this.store.getItem(id)) return null;
+
+            const now = Date.now();
+            const entry: LedgerEntry = {
+                ...input,
+                id,
+                stake: Number(input.stake) || 0,
+                payout: Number(input.payout) || 0,
+                profit: Math.round((Number(input.profit) || 0) * 100) / 100,
+                settledAt: input.settledAt ?? now,
+                recordedAt: now,
+                accountId: input.accountId || localStorage.getItem('active_loginid') || undefined,
+            };
+
+            await this.store.setItem(id, entry);
+            this.listeners.forEach(listener => listener(entry));
+            return entry;
+        } catch (error) {
+            // Ledger failures must never interrupt trading
+            console.error('❌ Failed to write trade ledger entry:', error);
+            return null;
+        }
+    }
+}
+
+export const tradeLedger = new TradeLedgerService();
@@ -5,17 +5,22 @@
 
 import { ConnectionType, derivConnectionPool } from './deriv-connection-pool.service';
 import { derivAPIInitializer } from './deriv-api-initializer.service';
+import { tickFeed } from './tick-feed.service';
+import { combineProvenance, DataProvenance, TickProvenance } from './tick-source/tick-source';
 
 interface TickData {
     quote: number;
     epoch: number;
     lastDigit: number;
     symbol: string;
+    pipSize?: number;
+    provenance: TickProvenance;
 }
 
 interface UnifiedTickResult {
     success: boolean;
     historicalTicks: TickData[];
+    provenance: DataProvenance; // Of the historical ticks; live ticks carry their own
     liveSubscription?: () => void;
     error?: string;
 }
@@ -49,8 +54,10 @@ export class UnifiedTickDataService {
         try {
             while (retryCount < maxRetries) {
                 try {
-                    // Step 1: Ensure API is initialized
-                    await this.ensureAPIInitialized();
+                    // Step 1: Ensure API is initialized (replays and synthetic feeds run offline)
+                    if (tickFeed.isLive()) {
+                        await this.ensureAPIInitialized();
+                    }
 
                     // Step 2: Load historical data first with timeout
                     const historicalTicks = await Promise.race([
@@ -60,8 +67,8 @@ export class UnifiedTickDataService {
                         ),
                     ]);
 
-                    // Step 3: Set up live subscription using the same connection
-                    const liveUnsubscribe = await this.subscribeLiveTicks(symbol, onLiveTick, connectionType);
+                    // Step 3: Set up live subscription on the shared tick feed
+                    const liveUnsubscribe = await this.subscribeLiveTicks(symbol, onLiveTick);
 
                     // Store subscription for cleanup
                     this.activeSubscriptions.set(symbol, liveUnsubscribe);
@@ -73,6 +80,7 @@ export class UnifiedTickDataService {
                     return {
                         success: true,
                         historicalTicks,
+                        provenance: combineProvenance(historicalTicks.map(tick => tick.provenance)),
                         liveSubscription: liveUnsubscribe,
                     };
                 } catch (retryError) {
@@ -108,6 +116,7 @@ export class UnifiedTickDataService {
             return {
                 success: false,
                 historicalTicks: [],
+                provenance: tickFeed.isLive() ? 'historical' : tickFeed.getSource().kind,
                 error: errorMessage,
             };
         }
@@ -146,6 +155,18 @@ export class UnifiedTickDataService {
     ): Promise<TickData[]> {
         console.log(`📊 Loading ${count} historical ticks for ${symbol}...`);
 
+        if (!tickFeed.isLive()) {
+            const ticks = await tickFeed.getHistory(symbol, count);
+            return ticks.map(tick => ({
+                quote: tick.quote,
+                epoch: tick.epoch,
+                lastDigit: this.extractLastDigit(tick.quote),
+                symbol,
+                pipSize: tick.pipSize,
+                provenance: tick.provenance,
+            }));
+        }
+
         try {
             // Ensure API is initialized and ready
             await derivAPIInitializer.waitForReady(15000);
@@ -203,6 +224,7 @@ export class UnifiedTickDataService {
                     epoch,
                     lastDigit,
                     symbol,
+                    provenance: 'historical',
                 };
             });
 
@@ -215,60 +237,26 @@ export class UnifiedTickDataService {
     }
 
     /**
-     * Subscribe to live ticks using the connection pool
+     * Subscribe to live ticks through the shared tick feed
      */
-    private async subscribeLiveTicks(
-        symbol: string,
-        onTick: (tickData: TickData) => void,
-        connectionType: ConnectionType
-    ): Promise<() => void> {
+    private async subscribeLiveTicks(symbol: string, onTick: (tickData: TickData) => void): Promise<() => void> {
         console.log(`🎯 Subscribing to live ticks for ${symbol}...`);
 
-        const unsubscribe = await derivConnectionPool.subscribeToTicks(
-            symbol,
-            (rawTickData: any) => {
-                try {
-                    // Extract quote using same method as historical data
-                    let quote: number;
-                    if (rawTickData.tick && typeof rawTickData.tick.quote !== 'undefined') {
-                        quote = parseFloat(rawTickData.tick.quote);
-                    } else if (typeof rawTickData.quote !== 'undefined') {
-                        quote = parseFloat(rawTickData.quote);
-                    } else {
-                        console.error('❌ No quote found in live tick data:', rawTickData);
-                        return;
-                    }
-
-                    // Validate quote
-                    if (isNaN(quote) || quote <= 0) {
-                        console.error('❌ Invalid quote value:', quote);
-                        return;
-                    }
-
-                    // Extract epoch
-                    const epoch = rawTickData.tick?.epoch || rawTickData.epoch || Math.floor(Date.now() / 1000);
-
-                    // Extract last digit using same method as historical data
-                    const lastDigit = this.extractLastDigit(quote);
-
-                    // Create unified tick data structure
-                    const tickData: TickData = {
-                        quote,
-                        epoch,
-                        lastDigit,
-                        symbol,
-                    };
-
-                    // Call the callback with processed data
-                    onTick(tickData);
-                } catch (error) {
-                    console.error('❌ Error processing live tick:', error);
-                }
-            },
-            connectionType
-        );
-
-        return unsubscribe;
+        return tickFeed.subscribe(symbol, tick => {
+            try {
+                // Use the same digit extraction as historical data
+                onTick({
+                    quote: tick.quote,
+                    epoch: tick.epoch,
+                    lastDigit: this.extractLastDigit(tick.quote),
+                    symbol,
+                    pipSize: tick.pipSize,
+                    provenance: tick.provenance,
+                });
+            } catch (error) {
+                console.error('❌ Error processing live tick:', error);
+            }
+        });
     }
 
     /**
@@ -312,6 +300,7 @@ export class UnifiedTickDataService {
             activeSubscriptions: this.activeSubscriptions.size,
             symbols: Array.from(this.activeSubscriptions.keys()),
             connectionPool: derivConnectionPool.getConnectionStats(),
+            tickFeed: tickFeed.getStats(),
             apiState: derivAPIInitializer.getConnectionState(),
         };
     }
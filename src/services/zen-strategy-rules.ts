@@ -0,0 +1,185 @@
+/**
+ * Zen Strategy Rules
+ * Pure strategy decisions shared by the live Zen trading service and the offline optimizer:
+ * contract mapping, martingale staking and contract switching
+ */
+
+import type { ContractTypePerformance, ZenTradeConfig } from './zen-trading.service';
+
+export type ZenStrategy = ZenTradeConfig['strategy'];
+
+// Deriv API contract type names for each strategy
+export const ZEN_CONTRACT_TYPES: Record<ZenStrategy, string> = {
+    Even: 'DIGITEVEN',
+    Odd: 'DIGITODD',
+    Matches: 'DIGITMATCH',
+    Differs: 'DIGITDIFF',
+    Over: 'DIGITOVER',
+    Under: 'DIGITUNDER',
+    Rise: 'CALL',
+    Fall: 'PUT',
+    Straddle6: 'DIGITOVER', // Default for straddle, but handled separately
+};
+
+export const ZEN_STRATEGIES = Object.keys(ZEN_CONTRACT_TYPES) as ZenStrategy[];
+
+// Straddle6 buys Over and Under on this digit
+export const STRADDLE_BARRIER = 6;
+
+// Deriv's minimum stake for most markets
+export const ZEN_MIN_STAKE = 0.35;
+
+/**
+ * Deriv contract type for a strategy
+ */
+export const getZenContractType = (strategy: string): string => ZEN_CONTRACT_TYPES[strategy as ZenStrategy] || 'CALL';
+
+/**
+ * Stake after the given number of consecutive losses
+ */
+export const getMartingaleStake = (baseStake: number, multiplier: number, consecutiveLosses: number): number =>
+    consecutiveLosses > 0 && multiplier > 1.0 ? baseStake * Math.pow(multiplier, consecutiveLosses) : baseStake;
+
+/**
+ * Cap a stake (max position size or 10x base stake) and round it for the Deriv API
+ */
+export const limitZenStake = (stake: number, baseStake: number, maxPositionSize?: number): number => {
+    const maxStake = maxPositionSize || baseStake * 10;
+    // Deriv API rejects stakes with more than 2 decimal places
+    const rounded = Math.round(Math.min(stake, maxStake) * 100) / 100;
+    return Math.max(rounded, ZEN_MIN_STAKE);
+};
+
+/**
+ * Strategies available for switching
+ */
+export const getAvailableZenStrategies = (excludeStrategies: string[] = []): string[] =>
+    ZEN_STRATEGIES.filter(strategy => !excludeStrategies.includes(strategy));
+
+/**
+ * Strategy following the current one in a sequence, wrapping around
+ */
+export const getNextZenStrategy = (current: string, sequence: string[]): string =>
+    sequence[(sequence.indexOf(current) + 1) % sequence.length];
+
+/**
+ * Add a settled trade to the per-strategy performance (keeps the last 10 outcomes)
+ */
+export const recordZenContractPerformance = (
+    performance: Map<string, ContractTypePerformance>,
+    strategy: string,
+    contractType: string,
+    isWin: boolean,
+    profit: number,
+    timestamp: number
+): ContractTypePerformance => {
+    if (!performance.has(strategy)) {
+        performance.set(strategy, {
+            contractType,
+            strategy,
+            totalTrades: 0,
+            wins: 0,
+            losses: 0,
+            winRate: 0,
+            avgProfit: 0,
+            totalProfit: 0,
+            lastUsed: timestamp,
+            recentPerformance: [],
+        });
+    }
+
+    const stats = performance.get(strategy)!;
+    stats.totalTrades++;
+    stats.lastUsed = timestamp;
+
+    if (isWin) {
+        stats.wins++;
+    } else {
+        stats.losses++;
+    }
+
+    stats.totalProfit += profit;
+    stats.winRate = stats.wins / stats.totalTrades;
+    stats.avgProfit = stats.totalProfit / stats.totalTrades;
+
+    stats.recentPerformance.push(isWin);
+    if (stats.recentPerformance.length > 10) {
+        stats.recentPerformance.shift();
+    }
+
+    return stats;
+};
+
+/**
+ * Strategy with the best recent win rate; strategies need at least 3 trades to qualify
+ */
+export const selectBestPerformingZenStrategy = (
+    strategies: string[],
+    performance: Map<string, ContractTypePerformance>,
+    performanceWindow: number
+): { strategy: string; winRate: number } => {
+    let bestStrategy = strategies[0];
+    let bestWinRate = 0;
+
+    for (const strategy of strategies) {
+        const stats = performance.get(strategy);
+        if (stats && stats.totalTrades >= 3) {
+            const recentWins = stats.recentPerformance.filter(win => win).length;
+            const recentWinRate = recentWins / Math.min(stats.recentPerformance.length, performanceWindow);
+
+            if (recentWinRate > bestWinRate) {
+                bestWinRate = recentWinRate;
+                bestStrategy = strategy;
+            }
+        }
+    }
+
+    return { strategy: bestStrategy, winRate: bestWinRate };
+};
+
+/**
+ * Normalised (0-1) volatility of the last 20 ticks
+ */
+export const getZenMarketVolatility = (tickHistory: number[]): number => {
+    if (tickHistory.length < 10) return 0.5; // default medium volatility
+
+    const recentTicks = tickHistory.slice(-20);
+    const mean = recentTicks.reduce((sum, tick) => sum + tick, 0) / recentTicks.length;
+    const variance = recentTicks.reduce((sum, tick) => sum + Math.pow(tick - mean, 2), 0) / recentTicks.length;
+
+    return Math.min(1, Math.sqrt(variance) * 1000);
+};
+
+/**
+ * Difference between the averages of the two halves of the last 10 ticks
+ */
+export const getZenMarketTrend = (tickHistory: number[]): number => {
+    if (tickHistory.length < 5) return 0;
+
+    const recentTicks = tickHistory.slice(-10);
+    const firstHalf = recentTicks.slice(0, Math.floor(recentTicks.length / 2));
+    const secondHalf = recentTicks.slice(Math.floor(recentTicks.length / 2));
+
+    const firstAvg = firstHalf.reduce((sum, tick) => sum + tick, 0) / firstHalf.length;
+    const secondAvg = secondHalf.reduce((sum, tick) => sum + tick, 0) / secondHalf.length;
+
+    return secondAvg - firstAvg; // Positive = uptrend, Negative = downtrend
+};
+
+/**
+ * Pick a strategy from market conditions (adaptive switching mode)
+ */
+export const selectAdaptiveZenStrategy = (volatility: number, trend: number, lastDigit: number): string => {
+    // High volatility - prefer Rise/Fall
+    if (volatility > 0.5) {
+        return trend > 0 ? 'Rise' : 'Fall';
+    }
+
+    // Low volatility - prefer digit contracts
+    if (volatility < 0.2) {
+        return lastDigit % 2 === 0 ? 'Even' : 'Odd';
+    }
+
+    // Medium volatility - use digit over/under
+    return lastDigit > 5 ? 'Under' : 'Over';
+};
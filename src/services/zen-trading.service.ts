@@ -6,6 +6,20 @@
 
 import { API_CONFIG, getWebSocketURL } from '../config/api-config';
 import { calculateProfit, type ContractDetails } from '../utils/profit-calculator';
+import { accountRiskGate } from './account-risk-gate.service';
+import { tradeLedger } from './trade-ledger.service';
+import {
+    getAvailableZenStrategies,
+    getMartingaleStake,
+    getNextZenStrategy,
+    getZenContractType,
+    getZenMarketTrend,
+    getZenMarketVolatility,
+    limitZenStake,
+    recordZenContractPerformance,
+    selectAdaptiveZenStrategy,
+    selectBestPerformingZenStrategy,
+} from './zen-strategy-rules';
 
 export interface ZenTradeConfig {
     strategy: 'Even' | 'Odd' | 'Matches' | 'Differs' | 'Over' | 'Under' | 'Rise' | 'Fall' | 'Straddle6';
@@ -672,20 +686,7 @@ class ZenTradingService {
     private getContractType(): string {
         if (!this.config) return 'CALL';
 
-        // Use correct Deriv API contract type names
-        const strategyMap: Record<string, string> = {
-            Even: 'DIGITEVEN',
-            Odd: 'DIGITODD',
-            Matches: 'DIGITMATCH',
-            Differs: 'DIGITDIFF',
-            Over: 'DIGITOVER',
-            Under: 'DIGITUNDER',
-            Rise: 'CALL',
-            Fall: 'PUT',
-            Straddle6: 'DIGITOVER', // Default for straddle, but handled separately
-        };
-
-        const contractType = strategyMap[this.config.strategy] || 'CALL';
+        const contractType = getZenContractType(this.config.strategy);
         console.log(`📊 Strategy: ${this.config.strategy} → Contract Type: ${contractType}`);
 
         return contractType;
@@ -702,7 +703,7 @@ class ZenTradingService {
         // Apply martingale if enabled and we have consecutive losses
         if (this.consecutiveLosses > 0 && this.config.martingaleMultiplier > 1.0) {
             const originalStake = stake;
-            stake = this.config.stake * Math.pow(this.config.martingaleMultiplier, this.consecutiveLosses);
+            stake = getMartingaleStake(this.config.stake, this.config.martingaleMultiplier, this.consecutiveLosses);
 
             console.log(`🎯 MARTINGALE ACTIVE:`, {
                 baseStake: this.config.stake,
@@ -757,16 +758,9 @@ class ZenTradingService {
             console.log(`⚙️ Advanced config exists but features disabled - using pure martingale`);
         }
 
-        // Apply basic risk management (max 10x base stake or advanced config limit)
-        const maxStake = this.advancedConfig?.maxPositionSize || this.config.stake * 10;
-        stake = Math.min(stake, maxStake);
-
-        // CRITICAL: Round to 2 decimal places for Deriv API compliance
-        // Deriv API rejects stakes with more than 2 decimal places
-        stake = Math.round(stake * 100) / 100;
-
-        // Ensure minimum stake of 0.35 (Deriv's minimum for most markets)
-        stake = Math.max(stake, 0.35);
+        // Apply basic risk management (max 10x base stake or advanced config limit),
+        // rounded to 2 decimal places and at least Deriv's minimum stake
+        stake = limitZenStake(stake, this.config.stake, this.advancedConfig?.maxPositionSize);
 
         console.log(`💰 Calculated stake: ${stake.toFixed(2)} (rounded to 2 decimal places)`);
 
@@ -959,7 +953,7 @@ class ZenTradingService {
             trade.proposalId = proposal.id as string;
 
             // Step 2: Buy contract (fire-and-forget style)
-            const buyResponse = await this.buyContract(proposal.id as string, trade.stake);
+            const buyResponse = await this.buyWithRiskGate(trade, proposal.id as string);
 
             if (buyResponse.buy && typeof buyResponse.buy === 'object') {
                 const buyData = buyResponse.buy as Record<string, unknown>;
@@ -1114,7 +1108,7 @@ class ZenTradingService {
             }
 
             // Step 2: Buy contract
-            const buyResponse = await this.buyContract(proposal.id as string, trade.stake);
+            const buyResponse = await this.buyWithRiskGate(trade, proposal.id as string);
 
             if (buyResponse.buy && typeof buyResponse.buy === 'object') {
                 const buyData = buyResponse.buy as Record<string, unknown>;
@@ -1202,6 +1196,35 @@ class ZenTradingService {
         }
     }
 
+    /**
+     * Buy contract after passing the account-level risk gate shared with the other engines
+     */
+    private async buyWithRiskGate(trade: ZenTradeResult, proposalId: string): Promise<Record<string, unknown>> {
+        const decision = accountRiskGate.requestApproval({
+            engine: 'ZEN',
+            stake: trade.stake,
+            symbol: trade.market,
+            contractType: trade.contractType,
+        });
+        if (!decision.allowed) {
+            throw new Error(decision.message);
+        }
+
+        try {
+            const response = await this.buyContract(proposalId, trade.stake);
+            const buyData = response.buy as Record<string, unknown> | undefined;
+            if (buyData?.contract_id) {
+                accountRiskGate.attachContract(decision.ticketId!, String(buyData.contract_id));
+            } else {
+                accountRiskGate.releaseTicket(decision.ticketId!);
+            }
+            return response;
+        } catch (error) {
+            accountRiskGate.releaseTicket(decision.ticketId!);
+            throw error;
+        }
+    }
+
     /**
      * Buy contract using Deriv API
      */
@@ -1423,6 +1446,7 @@ class ZenTradingService {
             trade.status = profitResult.outcome === 'win' ? 'won' : 'lost';
             trade.profit = profitResult.profit;
             trade.exitSpot = exitSpot;
+            accountRiskGate.recordSettlement(trade.contractId!, trade.profit);
 
             // 🚀 ENHANCED: Store additional profit details for better transaction history
             trade.buyPrice = profitResult.buyPrice;
@@ -1437,6 +1461,19 @@ class ZenTradingService {
                 `🚀 MANUAL PROFIT: ${trade.strategy} → ${trade.status.toUpperCase()} | Profit: ${profitResult.profit >= 0 ? '+' : ''}${profitResult.profit.toFixed(2)} | Exit: ${exitSpot} (${exitDigit}) | Buy: ${profitResult.buyPrice} | Payout: ${profitResult.payout} | ROI: ${profitResult.roi.toFixed(1)}%`
             );
 
+            tradeLedger.record({
+                contractId: trade.contractId!,
+                engine: 'ZEN',
+                strategy: trade.strategy,
+                symbol: trade.market,
+                contractType: trade.contractType,
+                stake: trade.stake,
+                payout: trade.payout || 0,
+                profit: trade.profit,
+                entrySpot: trade.entrySpot,
+                exitSpot,
+            });
+
             this.updateTradingStats(trade);
             this.callbacks.onTrade?.(trade);
         } else {
@@ -1673,24 +1710,11 @@ class ZenTradingService {
      */
     private selectBestPerformingStrategy(): string {
         const performanceWindow = this.config?.contractSwitching?.performanceWindow || 10;
-        const strategies = this.getAvailableStrategies();
-
-        let bestStrategy = strategies[0];
-        let bestWinRate = 0;
-
-        for (const strategy of strategies) {
-            const performance = this.contractPerformance.get(strategy);
-            if (performance && performance.totalTrades >= 3) {
-                // Calculate recent win rate
-                const recentWins = performance.recentPerformance.filter(win => win).length;
-                const recentWinRate = recentWins / Math.min(performance.recentPerformance.length, performanceWindow);
-
-                if (recentWinRate > bestWinRate) {
-                    bestWinRate = recentWinRate;
-                    bestStrategy = strategy;
-                }
-            }
-        }
+        const { strategy: bestStrategy, winRate: bestWinRate } = selectBestPerformingZenStrategy(
+            this.getAvailableStrategies(),
+            this.contractPerformance,
+            performanceWindow
+        );
 
         console.log(`📊 Best performing strategy: ${bestStrategy} (${(bestWinRate * 100).toFixed(1)}% win rate)`);
         return bestStrategy;
@@ -1705,20 +1729,7 @@ class ZenTradingService {
 
         console.log(`📈 Market analysis: Volatility=${volatility.toFixed(3)}, Trend=${trend.toFixed(3)}`);
 
-        // High volatility - prefer Rise/Fall
-        if (volatility > 0.5) {
-            return trend > 0 ? 'Rise' : 'Fall';
-        }
-
-        // Low volatility - prefer digit contracts
-        if (volatility < 0.2) {
-            const lastDigit = this.getLastTickDigit();
-            return lastDigit % 2 === 0 ? 'Even' : 'Odd';
-        }
-
-        // Medium volatility - use digit over/under
-        const lastDigit = this.getLastTickDigit();
-        return lastDigit > 5 ? 'Under' : 'Over';
+        return selectAdaptiveZenStrategy(volatility, trend, this.getLastTickDigit());
     }
 
     /**
@@ -1730,28 +1741,21 @@ class ZenTradingService {
             return this.selectNextInRotation();
         }
 
-        const currentIndex = customSequence.indexOf(this.config!.strategy);
-        const nextIndex = (currentIndex + 1) % customSequence.length;
-        return customSequence[nextIndex];
+        return getNextZenStrategy(this.config!.strategy, customSequence);
     }
 
     /**
      * Select next strategy in default rotation
      */
     private selectNextInRotation(): string {
-        const strategies = this.getAvailableStrategies();
-        const currentIndex = strategies.indexOf(this.config!.strategy);
-        const nextIndex = (currentIndex + 1) % strategies.length;
-        return strategies[nextIndex];
+        return getNextZenStrategy(this.config!.strategy, this.getAvailableStrategies());
     }
 
     /**
      * Get available strategies (excluding any that are disabled)
      */
     private getAvailableStrategies(): string[] {
-        const allStrategies = ['Even', 'Odd', 'Matches', 'Differs', 'Over', 'Under', 'Rise', 'Fall', 'Straddle6'];
-        const excludeStrategies = this.config?.contractSwitching?.excludeStrategies || [];
-        return allStrategies.filter(strategy => !excludeStrategies.includes(strategy));
+        return getAvailableZenStrategies(this.config?.contractSwitching?.excludeStrategies);
     }
 
     /**
@@ -1801,31 +1805,14 @@ class ZenTradingService {
      * Calculate market volatility from recent ticks
      */
     private calculateMarketVolatility(): number {
-        if (this.tickHistory.length < 10) return 0.5; // default medium volatility
-
-        const recentTicks = this.tickHistory.slice(-20);
-        const mean = recentTicks.reduce((sum, tick) => sum + tick, 0) / recentTicks.length;
-        const variance = recentTicks.reduce((sum, tick) => sum + Math.pow(tick - mean, 2), 0) / recentTicks.length;
-        const volatility = Math.sqrt(variance);
-
-        // Normalize to 0-1 range
-        return Math.min(1, volatility * 1000);
+        return getZenMarketVolatility(this.tickHistory);
     }
 
     /**
      * Calculate market trend from recent ticks
      */
     private calculateMarketTrend(): number {
-        if (this.tickHistory.length < 5) return 0;
-
-        const recentTicks = this.tickHistory.slice(-10);
-        const firstHalf = recentTicks.slice(0, Math.floor(recentTicks.length / 2));
-        const secondHalf = recentTicks.slice(Math.floor(recentTicks.length / 2));
-
-        const firstAvg = firstHalf.reduce((sum, tick) => sum + tick, 0) / firstHalf.length;
-        const secondAvg = secondHalf.reduce((sum, tick) => sum + tick, 0) / secondHalf.length;
-
-        return secondAvg - firstAvg; // Positive = uptrend, Negative = downtrend
+        return getZenMarketTrend(this.tickHistory);
     }
 
     /**
@@ -1841,44 +1828,14 @@ class ZenTradingService {
      */
     private updateContractPerformance(trade: ZenTradeResult): void {
         const strategy = trade.strategy;
-
-        if (!this.contractPerformance.has(strategy)) {
-            this.contractPerformance.set(strategy, {
-                contractType: trade.contractType,
-                strategy: strategy,
-                totalTrades: 0,
-                wins: 0,
-                losses: 0,
-                winRate: 0,
-                avgProfit: 0,
-                totalProfit: 0,
-                lastUsed: Date.now(),
-                recentPerformance: [],
-            });
-        }
-
-        const performance = this.contractPerformance.get(strategy)!;
-        performance.totalTrades++;
-        performance.lastUsed = Date.now();
-
-        const isWin = trade.status === 'won';
-        const profit = trade.profit || 0;
-
-        if (isWin) {
-            performance.wins++;
-        } else {
-            performance.losses++;
-        }
-
-        performance.totalProfit += profit;
-        performance.winRate = performance.wins / performance.totalTrades;
-        performance.avgProfit = performance.totalProfit / performance.totalTrades;
-
-        // Update recent performance (keep last 10 trades)
-        performance.recentPerformance.push(isWin);
-        if (performance.recentPerformance.length > 10) {
-            performance.recentPerformance.shift();
-        }
+        const performance = recordZenContractPerformance(
+            this.contractPerformance,
+            strategy,
+            trade.contractType,
+            trade.status === 'won',
+            trade.profit || 0,
+            Date.now()
+        );
 
         console.log(`📊 Updated performance for ${strategy}:`, {
             winRate: `${(performance.winRate * 100).toFixed(1)}%`,
@@ -2379,6 +2336,7 @@ class ZenTradingService {
                         trade.status = 'error';
                         trade.error = 'Contract settlement timeout - all monitoring methods failed';
                         trade.profit = -trade.stake; // Assume loss for timeout
+                        accountRiskGate.recordSettlement(trade.contractId!, trade.profit);
                         this.callbacks.onTrade?.(trade);
                     }
                 }, 15000);
@@ -2554,6 +2512,7 @@ class ZenTradingService {
                     trade.status = 'lost';
                     trade.profit = -trade.stake;
                     trade.error = 'Assumed loss due to settlement timeout';
+                    accountRiskGate.recordSettlement(trade.contractId, trade.profit);
                     this.callbacks.onTrade?.(trade);
                 } else {
                     // Try one more aggressive check
@@ -4,6 +4,9 @@
  * re-authorization, and real-time trading data streams
  */
 
+import { getLocalServerEndpoint } from '../config/api-config';
+import { tickFeed } from './tick-feed.service';
+
 export interface ZenWebSocketConfig {
     appId: string;
     apiToken?: string;
@@ -80,6 +83,7 @@ class ZenWebSocketService {
     
     // Data state
     private tickData: TickData | null = null;
+    private tickUnsubscribe: (() => void) | null = null;
     private proposalData: ProposalData | null = null;
     private balanceData: BalanceData | null = null;
     private activeContracts = new Map<string, ContractData>();
@@ -94,7 +98,7 @@ class ZenWebSocketService {
         console.log('🚀 ZenWebSocket: Initializing with config:', {
             appId: config.appId,
             hasToken: !!config.apiToken,
-            endpoint: config.endpoint || 'wss://ws.derivws.com/websockets/v3'
+            endpoint: this.getEndpoint()
         });
     }
 
@@ -118,7 +122,7 @@ class ZenWebSocketService {
 
         this.setConnectionStatus('connecting');
         
-        const endpoint = this.config.endpoint || 'wss://ws.derivws.com/websockets/v3';
+        const endpoint = this.getEndpoint();
         const wsUrl = `${endpoint}?app_id=${this.config.appId}`;
         
         console.log(`🔌 ZenWebSocket: Connecting to ${wsUrl}`);
@@ -224,25 +228,15 @@ class ZenWebSocketService {
      * Subscribe to live ticks
      */
     async subscribeTicks(symbol: string): Promise<string> {
-        const tickRequest = {
-            ticks: symbol,
-            subscribe: 1,
-            req_id: this.requestId++
-        };
-
         console.log(`📊 ZenWebSocket: Subscribing to ticks for ${symbol}`);
-        
-        const response = await this.sendRequest(tickRequest);
-        
-        if (response.error) {
-            throw new Error(`Tick subscription failed: ${response.error.message}`);
-        }
 
-        const subscriptionId = response.subscription?.id;
-        
-        // Add to registry
-        this.addToRegistry('ticks', tickRequest, subscriptionId);
-        
+        // Ticks come from the shared feed so this socket only carries trading streams
+        this.tickUnsubscribe?.();
+        this.tickUnsubscribe = tickFeed.subscribe(symbol, tick => {
+            this.handleTick({ tick: { quote: tick.quote, epoch: tick.epoch, symbol: tick.symbol } });
+        });
+
+        const subscriptionId = `tick-feed:${symbol}`;
         console.log(`✅ ZenWebSocket: Tick subscription successful for ${symbol}, ID: ${subscriptionId}`);
         return subscriptionId;
     }
@@ -342,6 +336,13 @@ class ZenWebSocketService {
         return subscriptionId;
     }
 
+    /**
+     * Configured endpoint, then a local server set from the endpoint page, then production
+     */
+    private getEndpoint(): string {
+        return this.config?.endpoint || getLocalServerEndpoint() || 'wss://ws.derivws.com/websockets/v3';
+    }
+
     /**
      * Handle incoming WebSocket messages
      */
@@ -712,6 +713,13 @@ class ZenWebSocketService {
      * Unsubscribe from a specific subscription
      */
     async unsubscribe(subscriptionId: string): Promise<void> {
+        if (subscriptionId.startsWith('tick-feed:')) {
+            this.tickUnsubscribe?.();
+            this.tickUnsubscribe = null;
+            console.log(`✅ ZenWebSocket: Unsubscribed from ${subscriptionId}`);
+            return;
+        }
+
         const unsubscribeRequest = {
             forget: subscriptionId,
             req_id: this.requestId++
@@ -747,6 +755,9 @@ class ZenWebSocketService {
             this.reconnectTimer = null;
         }
         
+        this.tickUnsubscribe?.();
+        this.tickUnsubscribe = null;
+
         // Unsubscribe from all active subscriptions
         const unsubscribePromises = this.subscriptionsRegistry
             .filter(sub => sub.subscriptionId)
@@ -0,0 +1,66 @@
+import { TContractInfo } from '../../components/summary/summary-card.types';
+import { transaction_elements } from '../../constants/transactions';
+import RootStore from '../root-store';
+import TransactionsStore from '../transactions-store';
+
+jest.mock('@/external/bot-skeleton', () => ({ LogTypes: {} }));
+
+jest.mock('../../services/trade-ledger.service', () => ({
+    tradeLedger: { record: jest.fn() },
+}));
+
+const contract = (overrides: Partial<TContractInfo>) => ({
+    type: transaction_elements.CONTRACT,
+    data: { run_id: 'run_2', is_completed: true, buy_price: 1, ...overrides } as TContractInfo,
+});
+
+const createStore = () =>
+    new TransactionsStore(
+        { run_panel: {} } as unknown as RootStore,
+        {
+            client: { loginid: 'CR1' },
+        } as unknown as ConstructorParameters<typeof TransactionsStore>[1]
+    );
+
+describe('TransactionsStore.market_statistics', () => {
+    it('splits the latest run by market', () => {
+        const store = createStore();
+        store.elements = {
+            CR1: [
+                contract({ underlying: 'R_10', display_name: 'Volatility 10 Index', profit: 1.5 }),
+                contract({ underlying: 'R_100', profit: -1 }),
+                contract({ underlying: 'R_10', profit: -1 }),
+                contract({ underlying: 'R_10', is_completed: false, profit: 0 }),
+                { type: transaction_elements.DIVIDER, data: 'run_2' },
+                contract({ run_id: 'run_1', underlying: 'R_50', profit: 0.95 }),
+            ],
+        };
+
+        expect(store.market_statistics).toEqual([
+            {
+                symbol: 'R_10',
+                display_name: 'Volatility 10 Index',
+                number_of_runs: 2,
+                open_contracts: 1,
+                won_contracts: 1,
+                lost_contracts: 1,
+                total_profit: 0.5,
+                total_stake: 2,
+            },
+            {
+                symbol: 'R_100',
+                display_name: 'R_100',
+                number_of_runs: 1,
+                open_contracts: 0,
+                won_contracts: 0,
+                lost_contracts: 1,
+                total_profit: -1,
+                total_stake: 1,
+            },
+        ]);
+    });
+
+    it('is empty before any contract', () => {
+        expect(createStore().market_statistics).toEqual([]);
+    });
+});
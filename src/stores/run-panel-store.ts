@@ -2,6 +2,7 @@ import { action, computed, makeObservable, observable, reaction, runInAction } f
 import { botNotification } from '@/components/bot-notification/bot-notification';
 import { notification_message } from '@/components/bot-notification/bot-notification-utils';
 import { isSafari, mobileOSDetect, standalone_routes } from '@/components/shared';
+import { DBOT_TABS } from '@/constants/bot-contents';
 import { contract_stages, TContractStage } from '@/constants/contract-stage';
 import { run_panel } from '@/constants/run-panel';
 import { ErrorTypes, MessageTypes, observer, unrecoverable_errors } from '@/external/bot-skeleton';
@@ -13,6 +14,8 @@ import { Buy, ProposalOpenContract } from '@deriv/api-types';
 import { TStores } from '@deriv/stores/types';
 import { localize } from '@deriv-com/translations';
 import { TDbot } from 'Types';
+import { type StrategyLintIssue } from '../services/strategy-lint/strategy-lint-context';
+import { type StrategyLintReport, strategyLinterService } from '../services/strategy-linter.service';
 import RootStore from './root-store';
 
 export type TContractState = {
@@ -22,6 +25,10 @@ export type TContractState = {
     id: string;
 };
 
+export type TLintReportSource = 'run' | 'import';
+
+const getLintIssueKey = (issue: StrategyLintIssue) => `${issue.ruleId}:${issue.blockId ?? ''}`;
+
 export default class RunPanelStore {
     root_store: RootStore;
     dbot: TDbot;
@@ -43,6 +50,8 @@ export default class RunPanelStore {
             run_id: observable,
             error_type: observable,
             show_bot_stop_message: observable,
+            lint_report: observable.ref,
+            lint_report_source: observable,
             is_stop_button_visible: computed,
             is_stop_button_disabled: computed,
             is_clear_stat_disabled: computed,
@@ -68,6 +77,11 @@ export default class RunPanelStore {
             showClearStatDialog: action,
             showIncompatibleStrategyDialog: action,
             showContractUpdateErrorDialog: action,
+            showLintReport: action,
+            closeLintReport: action,
+            onLintIssueClick: action,
+            onRunDespiteLintWarnings: action,
+            onStrategyLoaded: action,
             registerBotListeners: action,
             registerReactions: action,
             onBotRunningEvent: action,
@@ -106,6 +120,11 @@ export default class RunPanelStore {
     is_sell_requested = false;
     show_bot_stop_message = false;
     is_contracy_buying_in_progress = false;
+    lint_report: StrategyLintReport | null = null;
+    lint_report_source: TLintReportSource = 'run';
+
+    // Warnings the user chose to run with; they are not shown again until the strategy is reloaded
+    acknowledged_lint_warnings: string[] = [];
 
     run_id = '';
     onOkButtonClick: (() => void) | null = null;
@@ -196,6 +215,8 @@ export default class RunPanelStore {
         }
         self_exclusion.setIsRestricted(false);
 
+        if (!this.checkStrategyLint()) return;
+
         this.registerBotListeners();
 
         if (!this.dbot.shouldRunBot()) {
@@ -432,6 +453,50 @@ export default class RunPanelStore {
         this.is_dialog_open = true;
     };
 
+    /**
+     * Lint the workspace before running: errors stop the run, new warnings ask the user to confirm
+     */
+    checkStrategyLint = () => {
+        const report = strategyLinterService.lintWorkspace();
+        const has_new_warnings = report.issues.some(
+            issue => !this.acknowledged_lint_warnings.includes(getLintIssueKey(issue))
+        );
+        if (!report.hasErrors && !has_new_warnings) return true;
+
+        this.showLintReport(report, 'run');
+        return false;
+    };
+
+    showLintReport = (report: StrategyLintReport, source: TLintReportSource) => {
+        this.lint_report = report;
+        this.lint_report_source = source;
+    };
+
+    closeLintReport = () => {
+        this.lint_report = null;
+    };
+
+    onLintIssueClick = (block_id: string) => {
+        const { dashboard } = this.root_store;
+
+        this.closeLintReport();
+        dashboard.setActiveTab(DBOT_TABS.BOT_BUILDER);
+        this.dbot.centerAndHighlightBlock(block_id, true);
+    };
+
+    onRunDespiteLintWarnings = () => {
+        this.acknowledged_lint_warnings = this.lint_report?.issues.map(getLintIssueKey) ?? [];
+        this.closeLintReport();
+        this.onRunButtonClick();
+    };
+
+    onStrategyLoaded = () => {
+        const report = strategyLinterService.lintWorkspace();
+
+        this.acknowledged_lint_warnings = [];
+        if (report.issues.length) this.showLintReport(report, 'import');
+    };
+
     registerBotListeners = () => {
         const { summary_card, transactions } = this.root_store;
 
@@ -702,6 +767,7 @@ export default class RunPanelStore {
         observer.register('ui.log.notify', journal.onNotify);
         observer.register('ui.log.success', journal.onLogSuccess);
         observer.register('client.invalid_token', this.handleInvalidToken);
+        observer.register('bot.strategy_loaded', this.onStrategyLoaded);
     };
 
     onUnmount = () => {
@@ -719,6 +785,7 @@ export default class RunPanelStore {
         observer.unregisterAll('ui.log.notify');
         observer.unregisterAll('ui.log.success');
         observer.unregisterAll('client.invalid_token');
+        observer.unregisterAll('bot.strategy_loaded');
     };
 
     handleInvalidToken = async () => {
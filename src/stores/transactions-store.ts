@@ -5,6 +5,7 @@ import { ProposalOpenContract } from '@deriv/api-types';
 import { TPortfolioPosition, TStores } from '@deriv/stores/types';
 import { TContractInfo } from '../components/summary/summary-card.types';
 import { transaction_elements } from '../constants/transactions';
+import { tradeLedger } from '../services/trade-ledger.service';
 import { getStoredItemsByKey, getStoredItemsByUser, setStoredItemsByKey } from '../utils/session-storage';
 import RootStore from './root-store';
 
@@ -17,6 +18,17 @@ type TElement = {
     [key: string]: TTransaction[];
 };
 
+export type TMarketStatistics = {
+    symbol: string;
+    display_name: string;
+    number_of_runs: number;
+    open_contracts: number;
+    won_contracts: number;
+    lost_contracts: number;
+    total_profit: number;
+    total_stake: number;
+};
+
 export default class TransactionsStore {
     root_store: RootStore;
     core: TStores;
@@ -36,6 +48,7 @@ export default class TransactionsStore {
             is_called_proposal_open_contract: observable,
             is_transaction_details_modal_open: observable,
             transactions: computed,
+            market_statistics: computed,
             onBotContractEvent: action.bound,
             pushTransaction: action.bound,
             clear: action.bound,
@@ -95,6 +108,45 @@ export default class TransactionsStore {
         return statistics;
     }
 
+    // Per-market results of the latest run, for bots that trade several markets
+    get market_statistics(): TMarketStatistics[] {
+        const contracts = this.transactions
+            .filter(trx => trx.type === transaction_elements.CONTRACT && typeof trx.data === 'object')
+            .map(({ data }) => data as TContractInfo);
+        const latest_run_id = contracts[0]?.run_id;
+        const markets = new Map<string, TMarketStatistics>();
+
+        contracts
+            .filter(contract => contract.run_id === latest_run_id && contract.underlying)
+            .forEach(contract => {
+                const symbol = contract.underlying as string;
+                const stats = markets.get(symbol) ?? {
+                    symbol,
+                    display_name: contract.display_name || symbol,
+                    number_of_runs: 0,
+                    open_contracts: 0,
+                    won_contracts: 0,
+                    lost_contracts: 0,
+                    total_profit: 0,
+                    total_stake: 0,
+                };
+                const { profit = 0, is_completed = false, buy_price = 0 } = contract;
+
+                if (is_completed) {
+                    stats.number_of_runs += 1;
+                    stats.total_profit += profit;
+                    stats.total_stake += buy_price;
+                    if (profit > 0) stats.won_contracts += 1;
+                    else stats.lost_contracts += 1;
+                } else {
+                    stats.open_contracts += 1;
+                }
+                markets.set(symbol, stats);
+            });
+
+        return Array.from(markets.values());
+    }
+
     toggleTransactionDetailsModal = (is_open: boolean) => {
         this.is_transaction_details_modal_open = is_open;
     };
@@ -167,6 +219,22 @@ export default class TransactionsStore {
         }
 
         this.elements = { ...this.elements }; // force update
+
+        if (is_completed && data.contract_id) {
+            tradeLedger.record({
+                contractId: data.contract_id,
+                engine: 'BOT_BUILDER',
+                strategy: 'Bot Builder',
+                symbol: data.underlying || '',
+                contractType: data.contract_type,
+                stake: data.buy_price || 0,
+                payout: data.payout || 0,
+                profit: data.profit || 0,
+                entrySpot: data.entry_spot ?? undefined,
+                exitSpot: data.sell_spot ?? undefined,
+                settledAt: data.sell_time ? data.sell_time * 1000 : undefined,
+            });
+        }
     }
 
     clear() {
@@ -12,6 +12,9 @@ export interface AccumulatorConfig {
     market: string; // e.g., 'R_10', 'R_25', 'R_50'
     initialStake: number;
     strategy: AccumulatorStrategy;
+    takeProfitTicks?: number; // Close each contract after surviving this many ticks
+    maxKnockOuts?: number; // Stop the bot after this many knock-outs
+    paperMode?: boolean; // Settle against live ticks without buying
 }
 
 export type AccumulatorStrategy =
@@ -36,12 +39,27 @@ export interface AccumulatorSession {
     maxValue: number;
     minValue: number;
     trades: AccumulatorTrade[];
+    paperMode: boolean;
+    knockOuts: number;
+    barrier?: number; // Fraction of the previous spot on either side
+    openPosition?: AccumulatorPosition;
+}
+
+export interface AccumulatorPosition {
+    id: string;
+    stake: number;
+    entrySpot: number;
+    previousSpot: number;
+    ticksHeld: number;
+    currentValue: number;
+    openedAt: Date;
+    contractId?: string;
 }
 
 export interface AccumulatorTrade {
     id: string;
     timestamp: Date;
-    action: 'START' | 'TICK' | 'EXIT' | 'STOP_LOSS' | 'TAKE_PROFIT';
+    action: 'START' | 'TICK' | 'EXIT' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'KNOCK_OUT';
     value: number;
     profit: number;
     profitPercentage: number;
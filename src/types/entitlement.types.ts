@@ -0,0 +1,113 @@
+/**
+ * Entitlement Types
+ * Shared contract between the `/api/entitlements` function and the client entitlement service
+ */
+
+export const PREMIUM_BOTS = [
+    { id: 'novagrid2026', name: 'Novagrid 2026' },
+    { id: 'novagridElite', name: 'Novagrid Elite' },
+] as const;
+
+export type PremiumBotId = (typeof PREMIUM_BOTS)[number]['id'];
+
+export type EntitlementFeature = 'signals' | 'admin' | `bot:${PremiumBotId}`;
+
+export const ENTITLEMENT_FEATURES: EntitlementFeature[] = [
+    'signals',
+    ...PREMIUM_BOTS.map(bot => `bot:${bot.id}` as const),
+    'admin',
+];
+
+export const FEATURE_LABELS: Record<EntitlementFeature, string> = {
+    signals: 'Signals Center',
+    'bot:novagrid2026': 'Novagrid 2026',
+    'bot:novagridElite': 'Novagrid Elite',
+    admin: 'Admin',
+};
+
+// Deriv login ids: CR/MF real, VRTC demo, VRW wallet
+export const ACCOUNT_ID_PATTERN = /^[A-Z]{2,5}\d+$/;
+
+/**
+ * Payload of a signed entitlement token (ES256 JWT); times are in seconds
+ */
+export interface EntitlementClaims {
+    sub: string; // login id the token was issued to
+    accounts: string[]; // every login id on the authorized Deriv user
+    features: EntitlementFeature[];
+    iat: number;
+    exp: number;
+}
+
+export interface EntitlementGrant {
+    account: string;
+    feature: EntitlementFeature;
+    grantedBy: string;
+    grantedAt: string; // ISO timestamp
+    startsAt?: string; // ISO timestamp; active immediately when absent
+    expiresAt?: string; // ISO timestamp; permanent when absent
+    bootstrap?: boolean; // admin granted through ENTITLEMENT_BOOTSTRAP_ADMINS, not revocable from the panel
+}
+
+/**
+ * A grant as requested by an admin; granting a feature the account already has replaces its dates
+ */
+export interface EntitlementGrantRequest {
+    account: string;
+    feature: EntitlementFeature;
+    startsAt?: string;
+    expiresAt?: string;
+}
+
+export interface EntitlementGrantResult {
+    account: string;
+    feature: string;
+    status: 'created' | 'updated' | 'failed';
+    error?: string;
+}
+
+export type EntitlementGrantStatus = 'scheduled' | 'active' | 'expired';
+
+export type EntitlementAuditAction = 'grant' | 'update' | 'revoke' | 'expire';
+
+export interface EntitlementAuditEntry {
+    id: string;
+    action: EntitlementAuditAction;
+    account: string;
+    feature: EntitlementFeature;
+    actor: string; // login id of the admin, or 'system' for automatic expiry
+    at: string; // ISO timestamp
+    startsAt?: string;
+    expiresAt?: string;
+}
+
+/**
+ * One use of a premium feature: a premium bot loaded or a signals page opened
+ */
+export interface EntitlementUsageEntry {
+    account: string;
+    feature: EntitlementFeature;
+    at: string; // ISO timestamp
+}
+
+export interface EntitlementUsageSummary {
+    account: string;
+    feature: EntitlementFeature;
+    count: number;
+    firstUsedAt: string;
+    lastUsedAt: string;
+}
+
+export interface EntitlementUsageReport {
+    summary: EntitlementUsageSummary[]; // most recently used first
+    events: EntitlementUsageEntry[]; // newest first
+}
+
+export const isEntitlementFeature = (value: unknown): value is EntitlementFeature =>
+    ENTITLEMENT_FEATURES.includes(value as EntitlementFeature);
+
+export const getGrantStatus = (grant: EntitlementGrant, now = Date.now()): EntitlementGrantStatus => {
+    if (grant.startsAt && Date.parse(grant.startsAt) > now) return 'scheduled';
+    if (grant.expiresAt && Date.parse(grant.expiresAt) <= now) return 'expired';
+    return 'active';
+};
@@ -3,6 +3,8 @@
  * Type definitions for market analysis and latency arbitrage detection
  */
 
+import type { DataProvenance, TickProvenance } from '../../services/tick-source/tick-source';
+
 export interface TickData {
     symbol: string;
     timestamp: number;
@@ -10,6 +12,7 @@ export interface TickData {
     ask: number;
     spread: number;
     volume?: number;
+    pipSize?: number; // Decimal places Deriv quotes the symbol at, when known
     
     // Latency Metrics
     receiveTime: number;
@@ -19,6 +22,7 @@ export interface TickData {
     // Quality Metrics
     quality: 'HIGH' | 'MEDIUM' | 'LOW';
     source: string;
+    provenance: TickProvenance;
     
     // Metadata
     sequenceNumber: number;
@@ -139,6 +143,7 @@ export interface AnalysisResult {
     version: string;
     modelVersion?: string;
     parameters: Record<string, any>;
+    provenance: DataProvenance; // Of the analysed ticks
 }
 
 export interface AnalysisConfig {
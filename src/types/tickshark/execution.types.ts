@@ -9,7 +9,9 @@ export type IntentType = 'RISE_FALL' | 'HIGHER_LOWER' | 'MATCHES_DIFFERS' | 'EVE
 
 export type IntentStatus = 'CREATED' | 'VALIDATED' | 'QUEUED' | 'EXECUTING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
 
-export type ExecutionResult = 'WIN' | 'LOSS' | 'CANCELLED' | 'PENDING';
+export type ExecutionOutcome = 'WIN' | 'LOSS' | 'CANCELLED' | 'PENDING';
+
+export type ContractSide = 'RISE' | 'FALL' | 'HIGHER' | 'LOWER' | 'MATCHES' | 'DIFFERS' | 'EVEN' | 'ODD' | 'OVER' | 'UNDER';
 
 export interface TradeParameters {
     symbol: string;
@@ -19,6 +21,7 @@ export interface TradeParameters {
     barrier?: number;
     prediction?: number;
     entrySpot?: number;
+    side?: ContractSide; // Which side of the contract pair to buy; defaults to the first (RISE, HIGHER, MATCHES, EVEN, OVER)
 }
 
 export interface ExecutionMetrics {
@@ -96,6 +99,12 @@ export interface ExecutionQueue {
     failed: TradeIntent[];
 }
 
+export interface ConfirmationRequest {
+    intent: TradeIntent;
+    requestedAt: number;
+    expiresAt: number; // The intent is rejected if it is not approved by then
+}
+
 export interface ExecutionConfig {
     // Execution Limits
     maxConcurrentTrades: number;
@@ -22,6 +22,7 @@ export interface SimulationConfig {
         timeRange: [number, number];
         tickRate: number;
         filePath?: string;
+        recordingId?: string; // Replay a stored tick recording instead of Deriv history
     };
     
     // Execution Simulation
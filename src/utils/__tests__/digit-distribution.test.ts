@@ -0,0 +1,63 @@
+/**
+ * Digit Distribution Tests
+ */
+
+import {
+    getBarrierPercentage,
+    getColdDigits,
+    getCurrentStreak,
+    getDigitPercentages,
+    getHotDigits,
+    getParityPercentage,
+    getTicksSinceDigit,
+    tallyDigits,
+    takeRecentDigits,
+} from '../digit-distribution';
+
+// Oldest first: 7 shows up three times in ten and ends on a run of three
+const digits = [7, 1, 2, 7, 3, 4, 7, 5, 6, 8, 0, 1, 2, 3, 4, 5, 6, 7, 7, 7];
+
+describe('tallyDigits', () => {
+    test('counts digits and measures last appearance from the latest tick', () => {
+        const tallies = tallyDigits(digits);
+
+        expect(tallies[7]).toMatchObject({ count: 6, percentage: 30, lastSeen: 0, longestStreak: 3 });
+        expect(tallies[0]).toMatchObject({ count: 1, percentage: 5, lastSeen: 9, longestStreak: 1 });
+        expect(tallies[9]).toMatchObject({ count: 0, percentage: 0, lastSeen: -1, longestStreak: 0 });
+    });
+
+    test('handles an empty sequence', () => {
+        expect(getDigitPercentages([])).toEqual(Array(10).fill(0));
+        expect(getCurrentStreak([])).toEqual({ digit: -1, length: 0 });
+        expect(getParityPercentage([], 'even')).toBe(0);
+        expect(getHotDigits([])).toEqual([]);
+        expect(getColdDigits([])).toEqual([]);
+    });
+});
+
+describe('digit analysis', () => {
+    test('lists hot digits most frequent first and cold digits least frequent first', () => {
+        expect(getHotDigits(digits)).toEqual([7]);
+        expect(getColdDigits(digits)).toEqual([9, 0, 8]);
+    });
+
+    test('reports the current streak and ticks since a digit', () => {
+        expect(getCurrentStreak(digits)).toEqual({ digit: 7, length: 3 });
+        expect(getTicksSinceDigit(digits, 6)).toBe(3);
+        expect(getTicksSinceDigit(digits, 7)).toBe(0);
+        expect(getTicksSinceDigit(digits, 9)).toBe(-1);
+    });
+
+    test('measures even/odd and strict over/under shares', () => {
+        expect(getParityPercentage(digits, 'even')).toBe(40);
+        expect(getParityPercentage(digits, 'odd')).toBe(60);
+        expect(getBarrierPercentage(digits, 'over', 5)).toBe(45);
+        expect(getBarrierPercentage(digits, 'under', 5)).toBe(45);
+    });
+
+    test('limits the analysis to the most recent ticks', () => {
+        expect(takeRecentDigits(digits, 4)).toEqual([6, 7, 7, 7]);
+        expect(takeRecentDigits(digits)).toBe(digits);
+        expect(getDigitPercentages(takeRecentDigits(digits, 4))[7]).toBe(75);
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Digit Statistics Tests
+ */
+
+import {
+    analyseDigitRandomness,
+    chiSquarePValue,
+    chiSquareUniformity,
+    correctAcrossMarkets,
+    getSignalSignificance,
+    holmAdjust,
+    normalCdf,
+    runsTest,
+    serialCorrelation,
+} from '../digit-statistics';
+
+// Every digit equally often, in a scrambled order
+const fairDigits = Array.from({ length: 500 }, (_, i) => (i * 7 + Math.floor(i / 10) * 3) % 10);
+
+// Digit 7 shows up three times as often as it should
+const skewedDigits = Array.from({ length: 500 }, (_, i) => (i % 4 === 0 ? 7 : i % 10));
+
+describe('distribution functions', () => {
+    test('normal CDF matches reference values', () => {
+        expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+        expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+        expect(normalCdf(-2.5758)).toBeCloseTo(0.005, 4);
+    });
+
+    test('chi-square p-values match reference critical values', () => {
+        expect(chiSquarePValue(16.919, 9)).toBeCloseTo(0.05, 4);
+        expect(chiSquarePValue(21.666, 9)).toBeCloseTo(0.01, 4);
+        expect(chiSquarePValue(4.168, 9)).toBeCloseTo(0.9, 3);
+        expect(chiSquarePValue(0, 9)).toBe(1);
+    });
+});
+
+describe('digit tests', () => {
+    test('chi-square separates a uniform sequence from a skewed one', () => {
+        const fair = chiSquareUniformity(fairDigits);
+        expect(fair.counts).toEqual(new Array(10).fill(50));
+        expect(fair.statistic).toBe(0);
+        expect(fair.pValue).toBe(1);
+
+        const skewed = chiSquareUniformity(skewedDigits);
+        expect(skewed.counts[7]).toBeGreaterThan(150);
+        expect(skewed.pValue).toBeLessThan(1e-6);
+    });
+
+    test('runs test flags alternation and clustering', () => {
+        const alternating = Array.from({ length: 100 }, (_, i) => i % 2 === 0);
+        const clustered = Array.from({ length: 100 }, (_, i) => i < 50);
+
+        expect(runsTest(alternating)).toMatchObject({ runs: 100, expectedRuns: 51 });
+        expect(runsTest(alternating).statistic).toBeGreaterThan(0);
+        expect(runsTest(alternating).pValue).toBeLessThan(0.001);
+        expect(runsTest(clustered)).toMatchObject({ runs: 2 });
+        expect(runsTest(clustered).statistic).toBeLessThan(0);
+        expect(runsTest([true, true, true]).pValue).toBe(1);
+    });
+
+    test('serial correlation detects digits that repeat their predecessor', () => {
+        const sticky = Array.from({ length: 300 }, (_, i) => Math.floor(i / 5) % 10);
+        const result = serialCorrelation(sticky);
+
+        expect(result.coefficient).toBeGreaterThan(0.5);
+        expect(result.pValue).toBeLessThan(0.001);
+        expect(serialCorrelation([3, 3, 3, 3]).pValue).toBe(1);
+    });
+
+    test('Holm correction is monotone and keeps the input order', () => {
+        expect(holmAdjust([0.01, 0.04, 0.03, 0.005])).toEqual([0.03, 0.06, 0.06, 0.02]);
+        expect(holmAdjust([0.2, 0.9])).toEqual([0.4, 0.9]);
+    });
+});
+
+describe('randomness report', () => {
+    test('needs enough ticks before calling a skew significant', () => {
+        const report = analyseDigitRandomness([7, 7, 7, 7, 7, 7, 7, 7, 7, 7]);
+
+        expect(report.reliable).toBe(false);
+        expect(report.significant).toBe(false);
+    });
+
+    test('flags the over-represented digit after correcting for ten comparisons', () => {
+        const report = analyseDigitRandomness(skewedDigits);
+
+        expect(report.significant).toBe(true);
+        expect(report.digits.filter(test => test.significant).map(test => test.digit)).toContain(7);
+        expect(report.digits[7].adjustedPValue).toBeGreaterThanOrEqual(report.digits[7].pValue);
+        expect(analyseDigitRandomness(fairDigits).significant).toBe(false);
+    });
+
+    test('doubles the smaller of the digit and chi-square p-values for a signal', () => {
+        const report = analyseDigitRandomness(skewedDigits);
+        const withPValues = (digitPValue: number, chiSquarePValue: number) => ({
+            ...report,
+            chiSquare: { ...report.chiSquare, adjustedPValue: chiSquarePValue },
+            digits: report.digits.map(test => ({ ...test, adjustedPValue: digitPValue })),
+        });
+
+        expect(getSignalSignificance(withPValues(0.03, 0.5), 7)).toMatchObject({ pValue: 0.06, significant: false });
+        expect(getSignalSignificance(withPValues(0.5, 0.02), 7)).toMatchObject({ pValue: 0.04, significant: true });
+        expect(getSignalSignificance(withPValues(0.8, 0.9), 7).pValue).toBe(1);
+    });
+
+    test('correcting across markets weakens borderline results', () => {
+        // Digit 3 at 67/500: z = 2.53, raw p = 0.011
+        const borderline = Array.from({ length: 500 }, (_, i) => (i < 67 ? 3 : [0, 1, 2, 4, 5, 6, 7, 8, 9][i % 9]));
+        const single = analyseDigitRandomness(borderline);
+        const [corrected] = correctAcrossMarkets([single, ...new Array(13).fill(analyseDigitRandomness(fairDigits))]);
+
+        const alone = getSignalSignificance(single, 3, 10);
+        const scanned = getSignalSignificance(corrected, 3, 140);
+
+        expect(alone.rawPValue).toBeCloseTo(0.011, 2);
+        expect(scanned.rawPValue).toBe(alone.rawPValue);
+        expect(scanned.pValue).toBeGreaterThan(alone.pValue);
+        expect(scanned.significant).toBe(false);
+        expect(scanned.comparisons).toBe(140);
+    });
+});
@@ -0,0 +1,50 @@
+/**
+ * Entitlement CSV Tests
+ */
+
+import { addDuration, parseGrantCsv } from '../entitlement-csv';
+
+describe('Entitlement CSV', () => {
+    const now = new Date('2026-10-01T00:00:00Z');
+
+    test('adds day, week, month and year durations', () => {
+        expect(addDuration(now, '7d')?.toISOString()).toBe('2026-10-08T00:00:00.000Z');
+        expect(addDuration(now, '2w')?.toISOString()).toBe('2026-10-15T00:00:00.000Z');
+        expect(addDuration(now, '1m')?.toISOString()).toBe('2026-11-01T00:00:00.000Z');
+        expect(addDuration(now, '1Y')?.toISOString()).toBe('2027-10-01T00:00:00.000Z');
+        expect(addDuration(now, 'soon')).toBeNull();
+    });
+
+    test('parses grants per feature and reports rejected rows by line', () => {
+        const csv = [
+            'account,features,starts,expires',
+            '# trials',
+            'cr100,novagrid2026; Signals,,7d',
+            '"VRTC200","Novagrid Elite",2026-11-01,1m',
+            '',
+            'CR300,bot:novagridElite,,2027-01-01',
+            'bad-account,signals,,',
+            'CR400,everything,,',
+            'CR500,signals,,2026-09-01',
+        ].join('\n');
+
+        const { grants, errors } = parseGrantCsv(csv, now);
+
+        expect(grants).toEqual([
+            { account: 'CR100', feature: 'bot:novagrid2026', expiresAt: '2026-10-08T00:00:00.000Z' },
+            { account: 'CR100', feature: 'signals', expiresAt: '2026-10-08T00:00:00.000Z' },
+            {
+                account: 'VRTC200',
+                feature: 'bot:novagridElite',
+                startsAt: '2026-11-01T00:00:00.000Z',
+                expiresAt: '2026-12-01T00:00:00.000Z',
+            },
+            { account: 'CR300', feature: 'bot:novagridElite', expiresAt: '2027-01-01T00:00:00.000Z' },
+        ]);
+        expect(errors).toEqual([
+            'Line 7: Invalid account "bad-account"',
+            'Line 8: Unknown feature "everything"',
+            'Line 9: Expiry must be after the start',
+        ]);
+    });
+});
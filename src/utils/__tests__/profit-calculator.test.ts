@@ -8,6 +8,7 @@ import {
     calculateProfit,
     calculateRiseFallProfit,
     calculateStraddleProfit,
+    getPayoutMultiplier,
 } from '../profit-calculator';
 
 describe('Profit Calculator', () => {
@@ -67,8 +68,8 @@ describe('Profit Calculator', () => {
             });
 
             expect(result.outcome).toBe('win');
-            expect(result.profit).toBe(8); // 1 * 9 - 1 = 8
-            expect(result.payout).toBe(9);
+            expect(result.profit).toBe(8.5); // 1 * 0.95 / 0.1 - 1 = 8.5
+            expect(result.payout).toBe(9.5);
         });
 
         test('DIGITMATCH - should lose on no match', () => {
@@ -96,7 +97,7 @@ describe('Profit Calculator', () => {
             });
 
             expect(result.outcome).toBe('win');
-            expect(result.profit).toBe(0.55); // 5 * 1.11 - 5 = 0.55
+            expect(result.profit).toBe(0.28); // 5 * 0.95 / 0.9 - 5 = 0.28
         });
 
         test('DIGITOVER - should win when digit is over target', () => {
@@ -110,7 +111,7 @@ describe('Profit Calculator', () => {
             });
 
             expect(result.outcome).toBe('win');
-            expect(result.profit).toBe(4.5);
+            expect(result.profit).toBe(10.83); // 5 * 0.95 / 0.3 - 5 = 10.83
         });
 
         test('DIGITUNDER - should win when digit is under target', () => {
@@ -124,7 +125,32 @@ describe('Profit Calculator', () => {
             });
 
             expect(result.outcome).toBe('win');
-            expect(result.profit).toBe(4.5);
+            expect(result.profit).toBe(2.92); // 5 * 0.95 / 0.6 - 5 = 2.92
+        });
+
+        test('DIGITOVER - pays more the higher the barrier', () => {
+            const overZero = calculateDigitProfit({
+                contractType: 'DIGITOVER',
+                stake: 1,
+                entrySpot: 123.456,
+                exitSpot: 123.459, // Last digit is 9
+                duration: 1,
+                defaultDigit: 0,
+            });
+            const overEight = calculateDigitProfit({
+                contractType: 'DIGITOVER',
+                stake: 1,
+                entrySpot: 123.456,
+                exitSpot: 123.459,
+                duration: 1,
+                defaultDigit: 8,
+            });
+
+            expect(overZero.profit).toBe(0.06); // 1 * 0.95 / 0.9 - 1 = 0.06
+            expect(overEight.profit).toBe(8.5); // 1 * 0.95 / 0.1 - 1 = 8.5
+            expect(getPayoutMultiplier('DIGITOVER', 0)).toBeCloseTo(getPayoutMultiplier('DIGITUNDER', 9));
+            expect(getPayoutMultiplier('DIGITOVER', 8)).toBeCloseTo(getPayoutMultiplier('DIGITMATCH', 3));
+            expect(getPayoutMultiplier('DIGITUNDER', 0)).toBe(0);
         });
     });
 
@@ -208,8 +234,8 @@ describe('Profit Calculator', () => {
 
             expect(result.overResult.outcome).toBe('win');
             expect(result.underResult.outcome).toBe('loss');
-            expect(result.totalProfit).toBe(-0.25); // 2.25 - 2.5 = -0.25 (over wins, under loses)
-            expect(result.totalOutcome).toBe('loss');
+            expect(result.totalProfit).toBe(2.92); // 5.42 - 2.5 = 2.92 (over wins at 0.95 / 0.3, under loses)
+            expect(result.totalOutcome).toBe('win');
         });
 
         test('should handle losing straddle (digit = 6)', () => {
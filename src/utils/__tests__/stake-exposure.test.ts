@@ -0,0 +1,116 @@
+/**
+ * Stake Exposure Tests
+ */
+
+import { createSeededRandom } from '../seeded-random';
+import {
+    getLossStreakLimits,
+    getMeasuredWinProbability,
+    getStakeLadder,
+    getStreakProbability,
+    simulateSessionPnl,
+} from '../stake-exposure';
+import { getStakeSequence } from '../stake-progression';
+
+const martingale = { stake: 1, size: 2, maxStake: 10, payoutRatio: 0.95 };
+
+describe('getStakeSequence', () => {
+    test('doubles martingale stakes on losses and resets past the max stake', () => {
+        expect(getStakeSequence('MARTINGALE', martingale, [false, false, false, false, false, true])).toEqual([
+            1, 2, 4, 8, 1, 2,
+        ]);
+    });
+
+    test("follows 1-3-2-6 on a winning streak and D'Alembert units on losses", () => {
+        const params = { stake: 2, unit: 1, payoutRatio: 0.95 };
+
+        expect(getStakeSequence('STRATEGY_1_3_2_6', params, [true, true, true, true, false])).toEqual([2, 6, 4, 12, 2]);
+        expect(getStakeSequence('D_ALEMBERT', params, [false, false, true, true, true])).toEqual([2, 4, 6, 4, 2]);
+    });
+
+    test("ends an Oscar's Grind session once it is in profit", () => {
+        const params = { stake: 1, payoutRatio: 1 };
+
+        // -1, -1, +1, +2 (stake raised after a win that followed a loss), ends one unit up
+        expect(getStakeSequence('OSCARS_GRIND', params, [false, false, true, true, true])).toEqual([1, 1, 1, 2, 1]);
+    });
+});
+
+describe('getStakeLadder', () => {
+    test('lists stakes and cumulative loss through a losing streak', () => {
+        const ladder = getStakeLadder('MARTINGALE', martingale, 20);
+
+        expect(ladder.map(step => [step.stake, step.totalLoss, step.resetsToInitial])).toEqual([
+            [1, 1, false],
+            [2, 3, false],
+            [4, 7, false],
+            [8, 15, true],
+            [1, 16, false],
+            [2, 18, false],
+            [4, 22, false],
+        ]);
+        expect(getLossStreakLimits(ladder, 20)).toEqual({ toMaxStake: 4, toLossThreshold: 7 });
+    });
+
+    test('reports no limits when neither is reached', () => {
+        const ladder = getStakeLadder('MARTINGALE', { stake: 1, size: 2, payoutRatio: 0.95 }, undefined, 5);
+
+        expect(ladder).toHaveLength(5);
+        expect(getLossStreakLimits(ladder)).toEqual({ toMaxStake: null, toLossThreshold: null });
+    });
+});
+
+describe('getStreakProbability', () => {
+    test('matches exact values for small cases', () => {
+        expect(getStreakProbability(0.5, 1, 3)).toBeCloseTo(1 - 0.125);
+        // Runs of two losses in three trades: LLx or WLL
+        expect(getStreakProbability(0.5, 2, 3)).toBeCloseTo(0.375);
+        expect(getStreakProbability(0.5, 4, 3)).toBe(0);
+        expect(getStreakProbability(0, 2, 10)).toBe(0);
+    });
+
+    test('grows with the number of runs', () => {
+        expect(getStreakProbability(0.5, 5, 100)).toBeGreaterThan(getStreakProbability(0.5, 5, 20));
+    });
+});
+
+describe('simulateSessionPnl', () => {
+    const options = { winProbability: 0.5, runs: 50, sessions: 500, profitThreshold: 5, lossThreshold: 20 };
+
+    test('is repeatable with a seeded random source and respects the thresholds', () => {
+        const first = simulateSessionPnl('MARTINGALE', martingale, { ...options, random: createSeededRandom(7) });
+        const second = simulateSessionPnl('MARTINGALE', martingale, { ...options, random: createSeededRandom(7) });
+
+        expect(first).toEqual(second);
+        expect(first.results).toHaveLength(500);
+        expect(first.results[0]).toBeGreaterThan(-20 - 10);
+        expect(first.percentile5).toBeLessThanOrEqual(first.median);
+        expect(first.median).toBeLessThanOrEqual(first.percentile95);
+        expect(first.lossThresholdRate + first.profitThresholdRate).toBeLessThanOrEqual(1);
+        expect(first.histogram.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(500);
+    });
+
+    test('always wins or always loses at the extremes', () => {
+        const wins = simulateSessionPnl('MARTINGALE', martingale, { ...options, winProbability: 1 });
+        const losses = simulateSessionPnl('MARTINGALE', martingale, { ...options, winProbability: 0 });
+
+        expect(wins.profitThresholdRate).toBe(1);
+        expect(losses.lossThresholdRate).toBe(1);
+    });
+});
+
+describe('getMeasuredWinProbability', () => {
+    const digits = [0, 1, 2, 3, 4, 5, 6, 7, 8, 8];
+
+    test('measures digit contracts from recent digits', () => {
+        expect(getMeasuredWinProbability('DIGITEVEN', digits)).toBeCloseTo(0.6);
+        expect(getMeasuredWinProbability('DIGITOVER', digits, 5)).toBeCloseTo(0.4);
+        expect(getMeasuredWinProbability('DIGITMATCH', digits, 8)).toBeCloseTo(0.2);
+        expect(getMeasuredWinProbability('DIGITDIFF', digits, 8)).toBeCloseTo(0.8);
+    });
+
+    test('returns null for other contracts or no data', () => {
+        expect(getMeasuredWinProbability('CALL', digits)).toBeNull();
+        expect(getMeasuredWinProbability('DIGITEVEN', [])).toBeNull();
+    });
+});
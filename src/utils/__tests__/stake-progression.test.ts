@@ -0,0 +1,63 @@
+/**
+ * Stake Progression Tests
+ */
+
+import { getFibonacciUnits, getLabouchereUnits, getStakeSequence } from '../stake-progression';
+
+describe('getLabouchereUnits', () => {
+    test('adds the first and last numbers of the line', () => {
+        expect(getLabouchereUnits([1, 2, 3])).toBe(4);
+        expect(getLabouchereUnits([3])).toBe(3);
+        expect(getLabouchereUnits([])).toBe(0);
+    });
+});
+
+describe('getFibonacciUnits', () => {
+    test('follows the Fibonacci sequence from the first step', () => {
+        expect([0, 1, 2, 3, 4, 5, 6].map(getFibonacciUnits)).toEqual([1, 1, 2, 3, 5, 8, 13]);
+    });
+});
+
+describe('getStakeSequence', () => {
+    test('adds lost units to the Labouchère line and crosses off both ends on a win', () => {
+        const params = { stake: 1, lineLength: 4, payoutRatio: 0.95 };
+
+        // 1111 -> 11112 -> 111123 -> 1112 -> 11 -> cleared, starts over at 1111
+        expect(getStakeSequence('LABOUCHERE', params, [false, false, true, true, true, true])).toEqual([
+            2, 3, 4, 3, 2, 2,
+        ]);
+    });
+
+    test('moves one Fibonacci step up on a loss and two steps back on a win', () => {
+        const params = { stake: 1, payoutRatio: 0.95 };
+
+        expect(getStakeSequence('FIBONACCI', params, [false, false, false, false, true, true, true])).toEqual([
+            1, 1, 2, 3, 5, 2, 1,
+        ]);
+    });
+
+    test('resets the Paroli stake after the win streak target or a loss', () => {
+        const params = { stake: 1, size: 2, winStreakTarget: 3, payoutRatio: 0.95 };
+
+        expect(getStakeSequence('PAROLI', params, [true, true, true, true, false, true])).toEqual([1, 2, 4, 1, 2, 1]);
+    });
+
+    test('starts the progression over when the next stake exceeds the max stake', () => {
+        expect(
+            getStakeSequence('FIBONACCI', { stake: 1, maxStake: 4, payoutRatio: 0.95 }, [
+                false,
+                false,
+                false,
+                false,
+                false,
+            ])
+        ).toEqual([1, 1, 2, 3, 1]);
+        expect(
+            getStakeSequence('LABOUCHERE', { stake: 1, lineLength: 2, maxStake: 3, payoutRatio: 0.95 }, [
+                false,
+                false,
+                false,
+            ])
+        ).toEqual([2, 3, 2]);
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * Trade History Export / Import Tests
+ */
+
+import type { LedgerEntry } from '../../services/trade-ledger.service';
+import {
+    parseTradeHistory,
+    ProfitTableTransaction,
+    reconcileTradeHistory,
+    serializeTradeHistory,
+} from '../trade-history';
+
+const entry = (contractId: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry => ({
+    id: `ZEN:${contractId}`,
+    contractId,
+    engine: 'ZEN',
+    strategy: 'Even Odd',
+    symbol: 'R_100',
+    contractType: 'DIGITEVEN',
+    stake: 1,
+    payout: 1.95,
+    profit: 0.95,
+    entrySpot: 1234.56,
+    exitSpot: 1234.58,
+    settledAt: 1_700_000_000_000,
+    recordedAt: 1_700_000_000_500,
+    accountId: 'CR123',
+    ...overrides,
+});
+
+const transaction = (contract_id: number, buy_price: number, sell_price: number): ProfitTableTransaction => ({
+    app_id: 1,
+    buy_price,
+    contract_id,
+    longcode: '',
+    payout: 1.95,
+    purchase_time: 1_699_999_999,
+    sell_price,
+    sell_time: 1_700_000_000,
+    shortcode: `DIGITEVEN_R_100_1.95_${contract_id}`,
+    transaction_id: contract_id * 10,
+});
+
+describe('Trade History', () => {
+    describe('serialisation', () => {
+        test('round-trips entries through CSV, including quoted values', () => {
+            const entries = [entry('101', { strategy: 'Over, "fast"' }), entry('102', { isPaper: true })];
+
+            const parsed = parseTradeHistory(serializeTradeHistory(entries, 'csv'));
+
+            expect(parsed.entries).toEqual(entries);
+            expect(parsed.accountId).toBe('CR123');
+        });
+
+        test('round-trips entries and the export range through JSON', () => {
+            const content = serializeTradeHistory([entry('101')], 'json', {
+                accountId: 'CR123',
+                exportedAt: 1,
+                from: 10,
+                to: 20,
+            });
+
+            const parsed = parseTradeHistory(content);
+
+            expect(parsed).toMatchObject({ version: 1, accountId: 'CR123', from: 10, to: 20 });
+            expect(parsed.entries).toEqual([entry('101')]);
+        });
+
+        test('rejects files that are not trade history exports', () => {
+            expect(() => parseTradeHistory('')).toThrow('empty');
+            expect(() => parseTradeHistory('{"foo": 1}')).toThrow('no trade entries');
+            expect(() => parseTradeHistory('Market,Profit\nR_100,1')).toThrow('missing columns');
+            expect(() => parseTradeHistory('contractId,engine,stake,profit,settledAt\n1,ZEN,abc,1,2')).toThrow(
+                'Entry 2 has an invalid stake or profit'
+            );
+        });
+    });
+
+    describe('reconciliation', () => {
+        test('flags trades missing on either side and profit mismatches', () => {
+            const entries = [
+                entry('1'),
+                entry('2', { profit: -1 }),
+                entry('3'),
+                entry('sim_1', { engine: 'TICK_ENGINE', isPaper: true }),
+            ];
+            const transactions = [transaction(1, 1, 1.95), transaction(2, 1, 1.95), transaction(4, 2, 0)];
+
+            const report = reconcileTradeHistory(entries, transactions);
+
+            expect(report.matched.map(trade => trade.contractId)).toEqual(['1', '2']);
+            expect(report.profitMismatches).toHaveLength(1);
+            expect(report.profitMismatches[0]).toMatchObject({
+                contractId: '2',
+                serverProfit: 0.95,
+                profitDifference: -1.95,
+            });
+            expect(report.localOnly.map(local => local.contractId)).toEqual(['3']);
+            expect(report.serverOnly.map(server => server.contract_id)).toEqual([4]);
+            expect(report.skippedPaper).toBe(1);
+        });
+    });
+});
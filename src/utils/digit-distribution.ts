@@ -0,0 +1,136 @@
+/**
+ * Digit Distribution Module
+ * Frequency, hot/cold zone, streak and "last seen" figures for a sequence of last digits,
+ * shared by the digit scanners and the bot builder's digit analysis blocks
+ */
+
+export interface DigitTally {
+    digit: number;
+    count: number;
+    frequency: number; // 0-1 share of the sequence
+    percentage: number;
+    lastSeen: number; // Ticks since the digit last appeared (0 = latest tick, -1 = never)
+    longestStreak: number; // Longest run of the digit in a row
+}
+
+export interface DigitStreak {
+    digit: number;
+    length: number;
+}
+
+export type DigitParity = 'even' | 'odd';
+export type DigitBarrierDirection = 'over' | 'under';
+
+export const DIGIT_EXPECTED_FREQUENCY = 0.1;
+export const HOT_DIGIT_THRESHOLD = 0.15;
+export const COLD_DIGIT_THRESHOLD = 0.05;
+
+/**
+ * Keep the most recent count digits of an oldest-first sequence; the whole sequence when count is not set
+ */
+export function takeRecentDigits(digits: number[], count?: number): number[] {
+    return count && count > 0 ? digits.slice(-count) : digits;
+}
+
+/**
+ * Per-digit counts, frequency, last appearance and longest run of an oldest-first digit sequence
+ */
+export function tallyDigits(digits: number[]): DigitTally[] {
+    const tallies: DigitTally[] = Array.from({ length: 10 }, (_, digit) => ({
+        digit,
+        count: 0,
+        frequency: 0,
+        percentage: 0,
+        lastSeen: -1,
+        longestStreak: 0,
+    }));
+
+    let run = 0;
+    digits.forEach((digit, index) => {
+        const tally = tallies[digit];
+        if (!tally) return;
+
+        tally.count++;
+        tally.lastSeen = digits.length - 1 - index;
+
+        run = index > 0 && digits[index - 1] === digit ? run + 1 : 1;
+        tally.longestStreak = Math.max(tally.longestStreak, run);
+    });
+
+    tallies.forEach(tally => {
+        tally.frequency = digits.length > 0 ? tally.count / digits.length : 0;
+        tally.percentage = tally.frequency * 100;
+    });
+
+    return tallies;
+}
+
+/**
+ * Percentage of the sequence taken by each digit, indexed by digit
+ */
+export function getDigitPercentages(digits: number[]): number[] {
+    return tallyDigits(digits).map(tally => tally.percentage);
+}
+
+/**
+ * Digits appearing at least as often as the hot threshold, most frequent first
+ */
+export function getHotDigits(digits: number[], threshold = HOT_DIGIT_THRESHOLD): number[] {
+    return tallyDigits(digits)
+        .filter(tally => digits.length > 0 && tally.frequency >= threshold)
+        .sort((a, b) => b.frequency - a.frequency || a.digit - b.digit)
+        .map(tally => tally.digit);
+}
+
+/**
+ * Digits appearing no more often than the cold threshold, least frequent first
+ */
+export function getColdDigits(digits: number[], threshold = COLD_DIGIT_THRESHOLD): number[] {
+    return tallyDigits(digits)
+        .filter(tally => digits.length > 0 && tally.frequency <= threshold)
+        .sort((a, b) => a.frequency - b.frequency || a.digit - b.digit)
+        .map(tally => tally.digit);
+}
+
+/**
+ * The digit repeating at the end of the sequence and how many ticks in a row it has appeared
+ */
+export function getCurrentStreak(digits: number[]): DigitStreak {
+    if (digits.length === 0) return { digit: -1, length: 0 };
+
+    const digit = digits[digits.length - 1];
+    let length = 1;
+    while (length < digits.length && digits[digits.length - 1 - length] === digit) {
+        length++;
+    }
+
+    return { digit, length };
+}
+
+/**
+ * Ticks since the digit last appeared (0 = on the latest tick, -1 = not in the sequence)
+ */
+export function getTicksSinceDigit(digits: number[], digit: number): number {
+    const index = digits.lastIndexOf(digit);
+    return index === -1 ? -1 : digits.length - 1 - index;
+}
+
+/**
+ * Percentage of even or odd digits in the sequence
+ */
+export function getParityPercentage(digits: number[], parity: DigitParity): number {
+    if (digits.length === 0) return 0;
+
+    const remainder = parity === 'even' ? 0 : 1;
+    return (digits.filter(digit => digit % 2 === remainder).length / digits.length) * 100;
+}
+
+/**
+ * Percentage of digits strictly over or under the barrier, as Over/Under contracts settle
+ */
+export function getBarrierPercentage(digits: number[], direction: DigitBarrierDirection, barrier: number): number {
+    if (digits.length === 0) return 0;
+
+    const wins = digits.filter(digit => (direction === 'over' ? digit > barrier : digit < barrier));
+    return (wins.length / digits.length) * 100;
+}
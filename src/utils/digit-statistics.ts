@@ -0,0 +1,354 @@
+/**
+ * Digit Statistics Module
+ * Tests whether a sequence of last digits can be told apart from a fair uniform RNG:
+ * chi-square goodness of fit, per-digit deviation, runs tests and serial correlation,
+ * with Holm correction when many digits (and markets) are tested at once
+ */
+
+export interface StatisticalTestResult {
+    statistic: number;
+    pValue: number;
+}
+
+export interface ChiSquareResult extends StatisticalTestResult {
+    degreesOfFreedom: number;
+    counts: number[];
+    expected: number;
+    adjustedPValue: number; // Corrected across the markets tested together
+}
+
+export interface DigitDeviationTest {
+    digit: number;
+    count: number;
+    expected: number;
+    zScore: number;
+    pValue: number;
+    adjustedPValue: number; // Corrected across the 10 digits (and markets)
+    significant: boolean;
+}
+
+export interface RunsTestResult extends StatisticalTestResult {
+    runs: number;
+    expectedRuns: number;
+}
+
+export interface SerialCorrelationResult extends StatisticalTestResult {
+    lag: number;
+    coefficient: number;
+}
+
+export interface DigitRandomnessReport {
+    sampleSize: number;
+    alpha: number;
+    reliable: boolean; // Enough ticks for the chi-square approximation to hold
+    chiSquare: ChiSquareResult;
+    digits: DigitDeviationTest[];
+    runs: {
+        evenOdd: RunsTestResult;
+        highLow: RunsTestResult;
+    };
+    serialCorrelation: SerialCorrelationResult;
+    significant: boolean; // Distribution skew is unlikely under a fair RNG
+}
+
+/**
+ * p-value attached to scanner signals
+ */
+export interface SignalSignificance {
+    pValue: number; // Corrected p-value the decision is based on, Bonferroni-adjusted for its two tests
+    rawPValue: number; // Uncorrected p-value of the target digit
+    chiSquarePValue: number;
+    runsPValue: number;
+    serialCorrelationPValue: number;
+    comparisons: number;
+    significant: boolean;
+}
+
+export interface SignificanceFilter {
+    enabled: boolean; // Drop signals that are not significant
+    alpha: number;
+}
+
+export const DEFAULT_SIGNIFICANCE_ALPHA = 0.05;
+export const DEFAULT_SIGNIFICANCE_FILTER: SignificanceFilter = { enabled: false, alpha: DEFAULT_SIGNIFICANCE_ALPHA };
+
+// Expected count per digit must reach 5 for the chi-square approximation
+export const MIN_RELIABLE_SAMPLE_SIZE = 50;
+
+const DIGIT_COUNT = 10;
+const DIGIT_PROBABILITY = 1 / DIGIT_COUNT;
+const GAMMA_EPSILON = 1e-12;
+const GAMMA_MAX_ITERATIONS = 500;
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26)
+ */
+export function normalCdf(z: number): number {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf =
+        1 -
+        ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+            t *
+            Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value of a standard normal test statistic
+ */
+export function twoSidedPValue(z: number): number {
+    if (!Number.isFinite(z)) return Number.isNaN(z) ? 1 : 0;
+    return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+function logGamma(x: number): number {
+    // Lanczos approximation, g = 7
+    const coefficients = [
+        0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+        12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+    ];
+    if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+
+    const shifted = x - 1;
+    let sum = coefficients[0];
+    for (let i = 1; i < coefficients.length; i++) {
+        sum += coefficients[i] / (shifted + i);
+    }
+    const t = shifted + 7.5;
+    return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Regularised upper incomplete gamma Q(a, x): series below a + 1, continued fraction above
+ */
+function upperIncompleteGamma(a: number, x: number): number {
+    if (x <= 0) return 1;
+    const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+    if (x < a + 1) {
+        let term = 1 / a;
+        let sum = term;
+        for (let n = 1; n < GAMMA_MAX_ITERATIONS; n++) {
+            term *= x / (a + n);
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * GAMMA_EPSILON) break;
+        }
+        return Math.max(0, 1 - sum * Math.exp(logPrefix));
+    }
+
+    // Modified Lentz's method
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let n = 1; n < GAMMA_MAX_ITERATIONS; n++) {
+        const an = -n * (n - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < GAMMA_EPSILON) break;
+    }
+    return Math.min(1, h * Math.exp(logPrefix));
+}
+
+/**
+ * Probability of a chi-square statistic at least this large
+ */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+    if (statistic <= 0) return 1;
+    return upperIncompleteGamma(degreesOfFreedom / 2, statistic / 2);
+}
+
+/**
+ * Chi-square goodness of fit of the digit counts against a uniform distribution
+ */
+export function chiSquareUniformity(digits: number[]): ChiSquareResult {
+    const counts = countDigits(digits);
+    const expected = digits.length * DIGIT_PROBABILITY;
+    const statistic = expected > 0 ? counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0) : 0;
+    const pValue = chiSquarePValue(statistic, DIGIT_COUNT - 1);
+
+    return {
+        statistic,
+        pValue,
+        degreesOfFreedom: DIGIT_COUNT - 1,
+        counts,
+        expected,
+        adjustedPValue: pValue,
+    };
+}
+
+/**
+ * Binomial (normal approximation) test of each digit's count against the expected 10%
+ */
+export function digitDeviationTests(digits: number[], alpha = DEFAULT_SIGNIFICANCE_ALPHA): DigitDeviationTest[] {
+    const counts = countDigits(digits);
+    const expected = digits.length * DIGIT_PROBABILITY;
+    const standardDeviation = Math.sqrt(digits.length * DIGIT_PROBABILITY * (1 - DIGIT_PROBABILITY));
+    const pValues = counts.map(count =>
+        standardDeviation > 0 ? twoSidedPValue((count - expected) / standardDeviation) : 1
+    );
+    const adjusted = holmAdjust(pValues);
+
+    return counts.map((count, digit) => ({
+        digit,
+        count,
+        expected,
+        zScore: standardDeviation > 0 ? (count - expected) / standardDeviation : 0,
+        pValue: pValues[digit],
+        adjustedPValue: adjusted[digit],
+        significant: adjusted[digit] < alpha,
+    }));
+}
+
+/**
+ * Wald-Wolfowitz runs test; too few runs means clustering, too many means alternation
+ */
+export function runsTest(sequence: boolean[]): RunsTestResult {
+    const n1 = sequence.filter(Boolean).length;
+    const n2 = sequence.length - n1;
+    const n = sequence.length;
+    const runs = sequence.reduce(
+        (total, value, index) => (index === 0 || value !== sequence[index - 1] ? total + 1 : total),
+        0
+    );
+
+    if (n1 === 0 || n2 === 0 || n < 2) {
+        return { statistic: 0, pValue: 1, runs, expectedRuns: runs };
+    }
+
+    const expectedRuns = (2 * n1 * n2) / n + 1;
+    const variance = (2 * n1 * n2 * (2 * n1 * n2 - n)) / (n * n * (n - 1));
+    const statistic = variance > 0 ? (runs - expectedRuns) / Math.sqrt(variance) : 0;
+
+    return { statistic, pValue: twoSidedPValue(statistic), runs, expectedRuns };
+}
+
+/**
+ * Lag-k autocorrelation of the digits; under independence r ~ N(-1/n, 1/n)
+ */
+export function serialCorrelation(digits: number[], lag = 1): SerialCorrelationResult {
+    const n = digits.length;
+    if (n <= lag + 1) return { statistic: 0, pValue: 1, lag, coefficient: 0 };
+
+    const mean = digits.reduce((sum, digit) => sum + digit, 0) / n;
+    const denominator = digits.reduce((sum, digit) => sum + (digit - mean) ** 2, 0);
+    if (denominator === 0) return { statistic: 0, pValue: 1, lag, coefficient: 0 };
+
+    let numerator = 0;
+    for (let i = 0; i < n - lag; i++) {
+        numerator += (digits[i] - mean) * (digits[i + lag] - mean);
+    }
+
+    const coefficient = numerator / denominator;
+    const statistic = (coefficient + 1 / n) * Math.sqrt(n);
+    return { statistic, pValue: twoSidedPValue(statistic), lag, coefficient };
+}
+
+/**
+ * Holm-Bonferroni adjusted p-values, returned in the input order
+ */
+export function holmAdjust(pValues: number[]): number[] {
+    const m = pValues.length;
+    const order = pValues.map((pValue, index) => ({ pValue, index })).sort((a, b) => a.pValue - b.pValue);
+    const adjusted = new Array<number>(m);
+
+    let runningMax = 0;
+    order.forEach(({ pValue, index }, rank) => {
+        runningMax = Math.max(runningMax, Math.min(1, (m - rank) * pValue));
+        adjusted[index] = runningMax;
+    });
+
+    return adjusted;
+}
+
+/**
+ * Run every test on a digit sequence (oldest first). Per-digit p-values are corrected across the 10 digits.
+ */
+export function analyseDigitRandomness(digits: number[], alpha = DEFAULT_SIGNIFICANCE_ALPHA): DigitRandomnessReport {
+    const valid = digits.filter(digit => Number.isInteger(digit) && digit >= 0 && digit <= 9);
+    const chiSquare = chiSquareUniformity(valid);
+    const reliable = valid.length >= MIN_RELIABLE_SAMPLE_SIZE;
+
+    return {
+        sampleSize: valid.length,
+        alpha,
+        reliable,
+        chiSquare,
+        digits: digitDeviationTests(valid, alpha),
+        runs: {
+            evenOdd: runsTest(valid.map(digit => digit % 2 === 0)),
+            highLow: runsTest(valid.map(digit => digit >= 5)),
+        },
+        serialCorrelation: serialCorrelation(valid),
+        significant: reliable && chiSquare.pValue < alpha,
+    };
+}
+
+/**
+ * Correct reports of several markets scanned together: chi-square p-values across markets,
+ * per-digit p-values across every digit of every market
+ */
+export function correctAcrossMarkets(reports: DigitRandomnessReport[]): DigitRandomnessReport[] {
+    const chiSquareAdjusted = holmAdjust(reports.map(report => report.chiSquare.pValue));
+    const digitAdjusted = holmAdjust(reports.flatMap(report => report.digits.map(test => test.pValue)));
+
+    return reports.map((report, reportIndex) => {
+        const adjustedPValue = chiSquareAdjusted[reportIndex];
+        return {
+            ...report,
+            chiSquare: { ...report.chiSquare, adjustedPValue },
+            digits: report.digits.map((test, digitIndex) => {
+                const adjusted = digitAdjusted[reportIndex * DIGIT_COUNT + digitIndex];
+                return { ...test, adjustedPValue: adjusted, significant: adjusted < report.alpha };
+            }),
+            significant: report.reliable && adjustedPValue < report.alpha,
+        };
+    });
+}
+
+/**
+ * Significance of a signal on one digit, read from its market's (corrected) report. The signal
+ * counts if either its digit's deviation or the market's chi-square test rejects, so the smaller
+ * of the two p-values is doubled to keep the error rate at alpha.
+ */
+export function getSignalSignificance(
+    report: DigitRandomnessReport,
+    targetDigit: number,
+    comparisons = 1
+): SignalSignificance {
+    const target = report.digits.find(test => test.digit === targetDigit);
+    const pValue = Math.min(1, 2 * Math.min(target?.adjustedPValue ?? 1, report.chiSquare.adjustedPValue));
+
+    return {
+        pValue,
+        rawPValue: target?.pValue ?? 1,
+        chiSquarePValue: report.chiSquare.adjustedPValue,
+        runsPValue: Math.min(report.runs.evenOdd.pValue, report.runs.highLow.pValue),
+        serialCorrelationPValue: report.serialCorrelation.pValue,
+        comparisons,
+        significant: report.reliable && pValue < report.alpha,
+    };
+}
+
+/**
+ * Short p-value label, e.g. "p=0.012" or "p<0.001"
+ */
+export function formatPValue(pValue: number): string {
+    return pValue < 0.001 ? 'p<0.001' : `p=${pValue.toFixed(3)}`;
+}
+
+function countDigits(digits: number[]): number[] {
+    const counts = new Array<number>(DIGIT_COUNT).fill(0);
+    digits.forEach(digit => {
+        if (digit >= 0 && digit < DIGIT_COUNT) counts[digit]++;
+    });
+    return counts;
+}
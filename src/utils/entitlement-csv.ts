@@ -0,0 +1,127 @@
+/**
+ * Entitlement CSV Module
+ * Parses bulk grant imports for the Admin Panel, one account per row:
+ *   account,features,starts,expires
+ * - features: feature keys (`bot:novagrid2026`), bot ids (`novagrid2026`), bot names (`Novagrid 2026`),
+ *   `signals` or `admin`, several joined with `;`
+ * - starts: a date such as 2026-11-01; empty starts now
+ * - expires: a date, a duration after the start (`7d`, `2w`, `1m`, `1y`), or empty for no expiry
+ */
+
+import {
+    ACCOUNT_ID_PATTERN,
+    ENTITLEMENT_FEATURES,
+    EntitlementFeature,
+    EntitlementGrantRequest,
+    PREMIUM_BOTS,
+} from '../types/entitlement.types';
+
+export interface ParsedGrantCsv {
+    grants: EntitlementGrantRequest[];
+    errors: string[]; // one message per rejected row, with its line number
+}
+
+const DURATION_PATTERN = /^(\d+)\s*([dwmy])$/i;
+
+/**
+ * Add a duration such as `7d`, `2w`, `1m` or `1y` to a date; null if the duration is not recognised
+ */
+export const addDuration = (start: Date, duration: string): Date | null => {
+    const match = duration.trim().match(DURATION_PATTERN);
+    if (!match) return null;
+
+    const amount = Number(match[1]);
+    const end = new Date(start.getTime());
+    switch (match[2].toLowerCase()) {
+        case 'd':
+            end.setUTCDate(end.getUTCDate() + amount);
+            break;
+        case 'w':
+            end.setUTCDate(end.getUTCDate() + amount * 7);
+            break;
+        case 'm':
+            end.setUTCMonth(end.getUTCMonth() + amount);
+            break;
+        default:
+            end.setUTCFullYear(end.getUTCFullYear() + amount);
+    }
+    return end;
+};
+
+/**
+ * Match a feature key, premium bot id or premium bot name, ignoring case
+ */
+export const resolveFeature = (value: string): EntitlementFeature | null => {
+    const normalized = value.trim().toLowerCase();
+    const feature = ENTITLEMENT_FEATURES.find(key => key.toLowerCase() === normalized);
+    if (feature) return feature;
+
+    const bot = PREMIUM_BOTS.find(
+        premiumBot => premiumBot.id.toLowerCase() === normalized || premiumBot.name.toLowerCase() === normalized
+    );
+    return bot ? `bot:${bot.id}` : null;
+};
+
+const parseDate = (value: string): Date | null => {
+    const time = Date.parse(value);
+    return isNaN(time) ? null : new Date(time);
+};
+
+/**
+ * Grants for one CSV row, or the reason the row is rejected
+ */
+const parseRow = (
+    [account = '', features = '', starts = '', expires = '']: string[],
+    now: Date
+): EntitlementGrantRequest[] | string => {
+    const normalizedAccount = account.toUpperCase();
+    if (!ACCOUNT_ID_PATTERN.test(normalizedAccount)) return `Invalid account "${account}"`;
+
+    const names = features
+        .split(';')
+        .map(feature => feature.trim())
+        .filter(Boolean);
+    if (!names.length) return 'No feature given';
+    const unknown = names.find(feature => !resolveFeature(feature));
+    if (unknown) return `Unknown feature "${unknown}"`;
+
+    const startDate = starts ? parseDate(starts) : null;
+    if (starts && !startDate) return `Invalid start date "${starts}"`;
+
+    const expiryDate = expires ? addDuration(startDate || now, expires) || parseDate(expires) : null;
+    if (expires && !expiryDate) return `Invalid expiry "${expires}"`;
+    if (expiryDate && expiryDate.getTime() <= (startDate || now).getTime()) return 'Expiry must be after the start';
+
+    return names.map(feature => ({
+        account: normalizedAccount,
+        feature: resolveFeature(feature)!,
+        ...(startDate ? { startsAt: startDate.toISOString() } : {}),
+        ...(expiryDate ? { expiresAt: expiryDate.toISOString() } : {}),
+    }));
+};
+
+export const parseGrantCsv = (text: string, now = new Date()): ParsedGrantCsv => {
+    const grants: EntitlementGrantRequest[] = [];
+    const errors: string[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        const cells = line.split(',').map(cell =>
+            cell
+                .trim()
+                .replace(/^"(.*)"$/, '$1')
+                .trim()
+        );
+
+        // Blank lines, comments and a header row
+        if (!cells[0] || cells[0].startsWith('#') || cells[0].toLowerCase() === 'account') return;
+
+        const result = parseRow(cells, now);
+        if (typeof result === 'string') {
+            errors.push(`Line ${index + 1}: ${result}`);
+        } else {
+            grants.push(...result);
+        }
+    });
+
+    return { grants, errors };
+};
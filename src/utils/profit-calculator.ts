@@ -59,9 +59,9 @@ export function calculateDigitProfit(details: ContractDetails): ProfitResult {
             isWin = false;
     }
 
-    // Calculate payout (typically 1.9x for digit contracts)
-    const payoutMultiplier = getPayoutMultiplier(contractType);
-    const payout = isWin ? stake * payoutMultiplier : 0;
+    // Calculate payout from the barrier's win probability (1.9x for Even/Odd)
+    const payoutMultiplier = getPayoutMultiplier(contractType, defaultDigit);
+    const payout = isWin ? Math.round(stake * payoutMultiplier * 100) / 100 : 0;
     const profit = payout - stake;
     const roi = (profit / stake) * 100;
 
@@ -134,20 +134,45 @@ export function calculateRiseFallProfit(details: ContractDetails): ProfitResult
     };
 }
 
+/**
+ * Share of the fair payout Deriv keeps on digit contracts
+ */
+export const DIGIT_COMMISSION = 0.05;
+
+/**
+ * Chance of a digit contract winning when the last digit is uniformly distributed
+ */
+export function getDigitWinProbability(contractType: string, barrier?: number): number {
+    const digit = Number(barrier);
+    switch (contractType) {
+        case 'DIGITEVEN':
+        case 'DIGITODD':
+            return 0.5;
+        case 'DIGITMATCH':
+            return 0.1;
+        case 'DIGITDIFF':
+            return 0.9;
+        case 'DIGITOVER':
+            return Number.isInteger(digit) ? Math.max(0, 9 - digit) / 10 : 0;
+        case 'DIGITUNDER':
+            return Number.isInteger(digit) ? Math.min(10, Math.max(0, digit)) / 10 : 0;
+        default:
+            return 0;
+    }
+}
+
 /**
  * Get payout multiplier based on contract type
- * These are typical Deriv payout rates
+ * Digit contracts are priced from the barrier's win probability, less commission;
+ * Rise/Fall uses the typical Deriv rate
  */
-function getPayoutMultiplier(contractType: string): number {
-    const multipliers: Record<string, number> = {
-        // Digit contracts
-        DIGITEVEN: 1.9,
-        DIGITODD: 1.9,
-        DIGITMATCH: 9.0, // Higher payout for exact match
-        DIGITDIFF: 1.11, // Lower payout for differs
-        DIGITOVER: 1.9,
-        DIGITUNDER: 1.9,
+export function getPayoutMultiplier(contractType: string, barrier?: number): number {
+    if (contractType.startsWith('DIGIT')) {
+        const probability = getDigitWinProbability(contractType, barrier);
+        return probability > 0 ? (1 - DIGIT_COMMISSION) / probability : 0;
+    }
 
+    const multipliers: Record<string, number> = {
         // Rise/Fall contracts
         CALL: 1.85,
         PUT: 1.85,
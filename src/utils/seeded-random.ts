@@ -0,0 +1,16 @@
+/**
+ * Seeded Random
+ * Mulberry32: a small, fast generator that repeats exactly for a given seed, so simulations
+ * and synthetic ticks can be reproduced
+ */
+
+export function createSeededRandom(seed: number): () => number {
+    let value = seed >>> 0;
+    return () => {
+        value = (value + 0x6d2b79f5) >>> 0;
+        let t = value;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
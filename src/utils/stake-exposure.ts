@@ -0,0 +1,219 @@
+/**
+ * Stake Exposure Module
+ * Consequences of a stake progression before it is run: the stake ladder through a losing streak,
+ * the streak that reaches the max stake or loss threshold, how likely that streak is, and a
+ * Monte Carlo distribution of session profit and loss
+ */
+
+import { getBarrierPercentage, getParityPercentage, tallyDigits } from './digit-distribution';
+import {
+    advanceProgression,
+    createProgressionState,
+    type StakeProgressionName,
+    type StakeProgressionParams,
+} from './stake-progression';
+
+export interface StakeLadderStep {
+    loss: number; // 1-based position in the losing streak
+    stake: number;
+    totalLoss: number; // Cumulative loss including this trade
+    resetsToInitial: boolean; // The next stake would exceed the max stake, so it resets
+}
+
+export interface LossStreakLimits {
+    toMaxStake: number | null; // Losses in a row until the stake resets at the max stake
+    toLossThreshold: number | null; // Losses in a row until the loss threshold stops the bot
+}
+
+export interface SessionSimulationOptions {
+    winProbability: number; // 0-1
+    runs: number; // Maximum trades per session
+    sessions: number;
+    profitThreshold?: number;
+    lossThreshold?: number;
+    random?: () => number;
+}
+
+export interface PnlHistogramBucket {
+    from: number;
+    to: number;
+    count: number;
+}
+
+export interface SessionSimulationResult {
+    results: number[]; // Session P&L, ascending
+    mean: number;
+    median: number;
+    percentile5: number;
+    percentile95: number;
+    lossThresholdRate: number; // Share of sessions stopped by the loss threshold
+    profitThresholdRate: number; // Share of sessions stopped by the profit threshold
+    histogram: PnlHistogramBucket[];
+}
+
+export const DEFAULT_LADDER_STEPS = 15;
+const HISTOGRAM_BUCKETS = 12;
+
+/**
+ * Stakes placed through consecutive losses, stopping at the loss threshold or after maxSteps
+ */
+export function getStakeLadder(
+    name: StakeProgressionName,
+    params: StakeProgressionParams,
+    lossThreshold?: number,
+    maxSteps = DEFAULT_LADDER_STEPS
+): StakeLadderStep[] {
+    const ladder: StakeLadderStep[] = [];
+    let state = createProgressionState(name, params);
+    let totalLoss = 0;
+
+    for (let loss = 1; loss <= maxSteps; loss++) {
+        const { stake } = state;
+        const unbounded = advanceProgression(name, { ...params, maxStake: undefined }, state, false);
+        totalLoss += stake;
+
+        ladder.push({
+            loss,
+            stake,
+            totalLoss,
+            resetsToInitial: !!params.maxStake && unbounded.stake > params.maxStake,
+        });
+        if (lossThreshold && totalLoss >= lossThreshold) break;
+
+        state = advanceProgression(name, params, state, false);
+    }
+
+    return ladder;
+}
+
+export function getLossStreakLimits(ladder: StakeLadderStep[], lossThreshold?: number): LossStreakLimits {
+    const toMaxStake = ladder.find(step => step.resetsToInitial)?.loss ?? null;
+    const toLossThreshold = lossThreshold ? (ladder.find(step => step.totalLoss >= lossThreshold)?.loss ?? null) : null;
+
+    return { toMaxStake, toLossThreshold };
+}
+
+/**
+ * Probability of at least one run of `streak` consecutive losses within `runs` independent trades
+ */
+export function getStreakProbability(lossProbability: number, streak: number, runs: number): number {
+    if (streak <= 0) return 1;
+    if (streak > runs || lossProbability <= 0) return 0;
+    if (lossProbability >= 1) return 1;
+
+    // Probability of currently being on a losing run of each length, with no full streak seen yet
+    let runLengths = Array(streak).fill(0);
+    runLengths[0] = 1;
+    let reached = 0;
+
+    for (let trade = 0; trade < runs; trade++) {
+        const next = Array(streak).fill(0);
+        runLengths.forEach((probability, length) => {
+            next[0] += probability * (1 - lossProbability);
+            if (length + 1 === streak) {
+                reached += probability * lossProbability;
+            } else {
+                next[length + 1] += probability * lossProbability;
+            }
+        });
+        runLengths = next;
+    }
+
+    return reached;
+}
+
+const percentile = (sorted: number[], share: number) =>
+    sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(share * sorted.length))] : 0;
+
+function buildHistogram(sorted: number[]): PnlHistogramBucket[] {
+    if (!sorted.length) return [];
+
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    const width = (max - min) / HISTOGRAM_BUCKETS || 1;
+    const buckets = Array.from({ length: HISTOGRAM_BUCKETS }, (_, index) => ({
+        from: min + index * width,
+        to: min + (index + 1) * width,
+        count: 0,
+    }));
+    sorted.forEach(value => {
+        buckets[Math.min(HISTOGRAM_BUCKETS - 1, Math.floor((value - min) / width))].count++;
+    });
+
+    return buckets;
+}
+
+/**
+ * Run many sessions of the progression with random outcomes; each session stops after `runs`
+ * trades or when the profit or loss threshold is crossed, like the strategy templates do
+ */
+export function simulateSessionPnl(
+    name: StakeProgressionName,
+    params: StakeProgressionParams,
+    options: SessionSimulationOptions
+): SessionSimulationResult {
+    const { winProbability, runs, sessions, profitThreshold, lossThreshold, random = Math.random } = options;
+    const results: number[] = [];
+    let lossStops = 0;
+    let profitStops = 0;
+
+    for (let session = 0; session < sessions; session++) {
+        let state = createProgressionState(name, params);
+        let total = 0;
+
+        for (let trade = 0; trade < runs; trade++) {
+            const won = random() < winProbability;
+            total += won ? state.stake * params.payoutRatio : -state.stake;
+            state = advanceProgression(name, params, state, won);
+
+            if (profitThreshold && total >= profitThreshold) {
+                profitStops++;
+                break;
+            }
+            if (lossThreshold && total <= -lossThreshold) {
+                lossStops++;
+                break;
+            }
+        }
+        results.push(total);
+    }
+
+    results.sort((a, b) => a - b);
+    const count = results.length || 1;
+
+    return {
+        results,
+        mean: results.reduce((sum, value) => sum + value, 0) / count,
+        median: percentile(results, 0.5),
+        percentile5: percentile(results, 0.05),
+        percentile95: percentile(results, 0.95),
+        lossThresholdRate: lossStops / count,
+        profitThresholdRate: profitStops / count,
+        histogram: buildHistogram(results),
+    };
+}
+
+/**
+ * Win probability of a digit contract measured from recent last digits; null for contract types
+ * that do not settle on the last digit
+ */
+export function getMeasuredWinProbability(contractType: string, digits: number[], prediction = 0): number | null {
+    if (!digits.length) return null;
+
+    switch (contractType) {
+        case 'DIGITEVEN':
+            return getParityPercentage(digits, 'even') / 100;
+        case 'DIGITODD':
+            return getParityPercentage(digits, 'odd') / 100;
+        case 'DIGITOVER':
+            return getBarrierPercentage(digits, 'over', prediction) / 100;
+        case 'DIGITUNDER':
+            return getBarrierPercentage(digits, 'under', prediction) / 100;
+        case 'DIGITMATCH':
+            return tallyDigits(digits)[prediction]?.frequency ?? null;
+        case 'DIGITDIFF':
+            return 1 - (tallyDigits(digits)[prediction]?.frequency ?? 0);
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,215 @@
+/**
+ * Stake Progression Module
+ * How each Quick Strategy template moves the stake from one trade to the next, mirroring the
+ * stake logic in the strategy XML templates under src/xml
+ */
+
+export type StakeProgressionName =
+    | 'MARTINGALE'
+    | 'D_ALEMBERT'
+    | 'OSCARS_GRIND'
+    | 'REVERSE_MARTINGALE'
+    | 'REVERSE_D_ALEMBERT'
+    | 'STRATEGY_1_3_2_6'
+    | 'LABOUCHERE'
+    | 'FIBONACCI'
+    | 'PAROLI';
+
+export interface StakeProgressionParams {
+    stake: number; // Initial stake, also one unit
+    size?: number; // Martingale and Paroli multiplier
+    unit?: number; // D'Alembert units added or removed
+    winStreakTarget?: number; // Paroli wins in a row before the stake resets
+    lineLength?: number; // Labouchère units in a fresh cancellation line
+    maxStake?: number; // Reset to the initial stake when the next stake would exceed this
+    payoutRatio: number; // Profit of a winning trade per unit of stake
+}
+
+export interface StakeProgressionState {
+    stake: number;
+    winStreak: number;
+    lastWon: boolean | null;
+    sessionProfit: number; // Oscar's Grind session profit
+    step: number; // Fibonacci position
+    line: number[]; // Labouchère cancellation line, in units
+}
+
+export const STAKE_PROGRESSIONS: StakeProgressionName[] = [
+    'MARTINGALE',
+    'D_ALEMBERT',
+    'OSCARS_GRIND',
+    'REVERSE_MARTINGALE',
+    'REVERSE_D_ALEMBERT',
+    'STRATEGY_1_3_2_6',
+    'LABOUCHERE',
+    'FIBONACCI',
+    'PAROLI',
+];
+
+const SEQUENCE_1_3_2_6 = [1, 3, 2, 6];
+const DEFAULT_WIN_STREAK_TARGET = 3;
+const DEFAULT_LINE_LENGTH = 4;
+
+export function isStakeProgression(name: string): name is StakeProgressionName {
+    return (STAKE_PROGRESSIONS as string[]).includes(name);
+}
+
+/**
+ * Units staked for a Labouchère line: the first and last numbers, or the only one left
+ */
+export function getLabouchereUnits(line: number[]): number {
+    if (line.length === 0) return 0;
+    return line.length === 1 ? line[0] : line[0] + line[line.length - 1];
+}
+
+/**
+ * Units staked at a Fibonacci position: 1, 1, 2, 3, 5, 8, ...
+ */
+export function getFibonacciUnits(step: number): number {
+    let previous = 0;
+    let units = 1;
+    for (let index = 0; index < step; index++) {
+        [previous, units] = [units, previous + units];
+    }
+    return units;
+}
+
+const createLabouchereLine = (params: StakeProgressionParams) =>
+    Array<number>(Math.max(1, params.lineLength ?? DEFAULT_LINE_LENGTH)).fill(1);
+
+export function createProgressionState(
+    name: StakeProgressionName,
+    params: StakeProgressionParams
+): StakeProgressionState {
+    const line = name === 'LABOUCHERE' ? createLabouchereLine(params) : [];
+    const stake = name === 'LABOUCHERE' ? params.stake * getLabouchereUnits(line) : params.stake;
+
+    return { stake, winStreak: 0, lastWon: null, sessionProfit: 0, step: 0, line };
+}
+
+/**
+ * Oscar's Grind: a session ends once it is in profit; the stake grows by one unit after a win that
+ * follows a loss, and never exceeds what is needed to end the session one unit up
+ */
+function getOscarsGrindState(
+    params: StakeProgressionParams,
+    state: StakeProgressionState,
+    won: boolean,
+    profit: number
+): StakeProgressionState {
+    const sessionProfit = state.sessionProfit + profit;
+    if (won && sessionProfit > 0) {
+        return { ...state, stake: params.stake, sessionProfit: 0 };
+    }
+
+    let stake = won && state.lastWon === false ? state.stake + params.stake : state.stake;
+    const needed = params.stake - sessionProfit;
+    if (stake > needed) {
+        stake = Math.max(params.stake, Math.round(needed / params.stake) * params.stake);
+    }
+
+    return { ...state, stake, sessionProfit };
+}
+
+/**
+ * Labouchère: a win crosses off the first and last numbers of the line, a loss adds the units just
+ * lost to the end; a cleared line starts over
+ */
+function getLabouchereState(
+    params: StakeProgressionParams,
+    state: StakeProgressionState,
+    won: boolean
+): StakeProgressionState {
+    let line = won ? state.line.slice(1, -1) : [...state.line, getLabouchereUnits(state.line)];
+    if (line.length === 0) line = createLabouchereLine(params);
+
+    return { ...state, line, stake: params.stake * getLabouchereUnits(line) };
+}
+
+/**
+ * Stake state after a trade with the given outcome
+ */
+export function advanceProgression(
+    name: StakeProgressionName,
+    params: StakeProgressionParams,
+    state: StakeProgressionState,
+    won: boolean
+): StakeProgressionState {
+    const { stake: initialStake, size = 2, unit = 1, maxStake } = params;
+    const profit = won ? state.stake * params.payoutRatio : -state.stake;
+    const winStreak = won ? state.winStreak + 1 : 0;
+    const current: StakeProgressionState = { ...state, winStreak };
+    let next: StakeProgressionState;
+
+    switch (name) {
+        case 'MARTINGALE':
+            next = { ...current, stake: won ? initialStake : state.stake * size };
+            break;
+        case 'REVERSE_MARTINGALE':
+            next = { ...current, stake: won ? state.stake * size : initialStake };
+            break;
+        case 'D_ALEMBERT':
+            next = {
+                ...current,
+                stake: won
+                    ? Math.max(initialStake, state.stake - unit * initialStake)
+                    : state.stake + unit * initialStake,
+            };
+            break;
+        case 'REVERSE_D_ALEMBERT':
+            next = {
+                ...current,
+                stake: won
+                    ? state.stake + unit * initialStake
+                    : Math.max(initialStake, state.stake - unit * initialStake),
+            };
+            break;
+        case 'OSCARS_GRIND':
+            next = getOscarsGrindState(params, current, won, profit);
+            break;
+        case 'STRATEGY_1_3_2_6':
+            next = { ...current, stake: initialStake * SEQUENCE_1_3_2_6[winStreak % SEQUENCE_1_3_2_6.length] };
+            break;
+        case 'LABOUCHERE':
+            next = getLabouchereState(params, current, won);
+            break;
+        case 'FIBONACCI': {
+            // A loss moves one step along the sequence, a win two steps back
+            const step = won ? Math.max(0, state.step - 2) : state.step + 1;
+            next = { ...current, step, stake: initialStake * getFibonacciUnits(step) };
+            break;
+        }
+        case 'PAROLI':
+            if (winStreak >= (params.winStreakTarget ?? DEFAULT_WIN_STREAK_TARGET)) {
+                next = { ...current, stake: initialStake, winStreak: 0 };
+            } else {
+                next = { ...current, stake: won ? state.stake * size : initialStake };
+            }
+            break;
+        default:
+            next = current;
+    }
+
+    next = { ...next, lastWon: won };
+    if (maxStake && next.stake > maxStake) {
+        return { ...createProgressionState(name, params), lastWon: won };
+    }
+    return next;
+}
+
+/**
+ * Stakes placed for a sequence of trade outcomes (true = win)
+ */
+export function getStakeSequence(
+    name: StakeProgressionName,
+    params: StakeProgressionParams,
+    outcomes: boolean[]
+): number[] {
+    let state = createProgressionState(name, params);
+
+    return outcomes.map(won => {
+        const { stake } = state;
+        state = advanceProgression(name, params, state, won);
+        return stake;
+    });
+}
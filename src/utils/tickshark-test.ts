@@ -577,6 +577,7 @@ export class TickSharkTestSuite {
                 latency: Math.random() * 30 + 10,
                 quality: Math.random() > 0.1 ? 'HIGH' : 'MEDIUM',
                 source: 'TEST_GENERATOR',
+                provenance: 'synthetic',
                 sequenceNumber: i,
                 isValid: true,
             });
@@ -612,6 +613,7 @@ export class TickSharkTestSuite {
                 latency,
                 quality: latency < 50 ? 'HIGH' : 'MEDIUM',
                 source: 'TEST_GENERATOR',
+                provenance: 'synthetic',
                 sequenceNumber: i,
                 isValid: true,
             });
@@ -0,0 +1,255 @@
+/**
+ * Trade History Export / Import
+ * Serialises trade ledger entries to CSV or JSON and reconciles them against the Deriv profit table
+ */
+
+import type { LedgerEngine, LedgerEntry } from '../services/trade-ledger.service';
+import type { TProfitTableResponse } from '../types/deriv-api.types';
+
+export type TradeHistoryFormat = 'csv' | 'json';
+
+export type ProfitTableTransaction = TProfitTableResponse['profit_table']['transactions'][number];
+
+export interface TradeHistoryFile {
+    version: number;
+    accountId?: string;
+    exportedAt: number;
+    from?: number;
+    to?: number;
+    entries: LedgerEntry[];
+}
+
+export interface ReconciledTrade {
+    contractId: string;
+    local: LedgerEntry;
+    server: ProfitTableTransaction;
+    serverProfit: number;
+    profitDifference: number;
+}
+
+export interface ReconciliationReport {
+    matched: ReconciledTrade[];
+    profitMismatches: ReconciledTrade[];
+    localOnly: LedgerEntry[];
+    serverOnly: ProfitTableTransaction[];
+    skippedPaper: number;
+}
+
+export const TRADE_HISTORY_VERSION = 1;
+
+// Differences below a cent are rounding, not bookkeeping errors
+const PROFIT_TOLERANCE = 0.01;
+
+const CSV_COLUMNS: Array<keyof LedgerEntry> = [
+    'contractId',
+    'engine',
+    'strategy',
+    'symbol',
+    'contractType',
+    'stake',
+    'payout',
+    'profit',
+    'entrySpot',
+    'exitSpot',
+    'settledAt',
+    'recordedAt',
+    'accountId',
+    'isPaper',
+];
+
+const NUMERIC_COLUMNS: Array<keyof LedgerEntry> = [
+    'stake',
+    'payout',
+    'profit',
+    'entrySpot',
+    'exitSpot',
+    'settledAt',
+    'recordedAt',
+];
+
+/**
+ * Serialise ledger entries in the requested format
+ */
+export function serializeTradeHistory(
+    entries: LedgerEntry[],
+    format: TradeHistoryFormat,
+    meta: Omit<TradeHistoryFile, 'version' | 'entries'> = { exportedAt: Date.now() }
+): string {
+    if (format === 'json') {
+        const file: TradeHistoryFile = { version: TRADE_HISTORY_VERSION, ...meta, entries };
+        return JSON.stringify(file, null, 2);
+    }
+
+    const rows = entries.map(entry => CSV_COLUMNS.map(column => escapeCsvValue(entry[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Parse an exported file; the format is detected from its content.
+ * Throws when the file is not a trade history export.
+ */
+export function parseTradeHistory(content: string): TradeHistoryFile {
+    const trimmed = content.trim();
+    if (!trimmed) throw new Error('The file is empty');
+
+    if (trimmed.startsWith('{')) {
+        let file: TradeHistoryFile;
+        try {
+            file = JSON.parse(trimmed);
+        } catch {
+            throw new Error('The file is not valid JSON');
+        }
+        if (!Array.isArray(file.entries)) throw new Error('The JSON file has no trade entries');
+        return { ...file, entries: file.entries.map((entry, index) => validateEntry(entry, index + 1)) };
+    }
+
+    const [header, ...rows] = parseCsv(trimmed);
+    const missing = ['contractId', 'engine', 'stake', 'profit', 'settledAt'].filter(column => !header.includes(column));
+    if (missing.length > 0) throw new Error(`The CSV file is missing columns: ${missing.join(', ')}`);
+
+    const entries = rows.map((cells, index) => {
+        const raw: Record<string, unknown> = {};
+        header.forEach((column, cellIndex) => {
+            const value = cells[cellIndex];
+            if (value === undefined || value === '') return;
+            if (NUMERIC_COLUMNS.includes(column as keyof LedgerEntry)) raw[column] = Number(value);
+            else if (column === 'isPaper') raw[column] = value === 'true';
+            else raw[column] = value;
+        });
+        return validateEntry(raw, index + 2);
+    });
+
+    const accountIds = Array.from(new Set(entries.map(entry => entry.accountId).filter(Boolean)));
+    return {
+        version: TRADE_HISTORY_VERSION,
+        accountId: accountIds.length === 1 ? accountIds[0] : undefined,
+        exportedAt: Date.now(),
+        entries,
+    };
+}
+
+/**
+ * Match local entries with the server profit table by contract id.
+ * Paper trades never reach the server and are left out of the comparison.
+ */
+export function reconcileTradeHistory(
+    entries: LedgerEntry[],
+    transactions: ProfitTableTransaction[]
+): ReconciliationReport {
+    const serverById = new Map(transactions.map(transaction => [String(transaction.contract_id), transaction]));
+    const seen = new Set<string>();
+    const report: ReconciliationReport = {
+        matched: [],
+        profitMismatches: [],
+        localOnly: [],
+        serverOnly: [],
+        skippedPaper: 0,
+    };
+
+    entries.forEach(entry => {
+        if (entry.isPaper) {
+            report.skippedPaper++;
+            return;
+        }
+
+        const server = serverById.get(entry.contractId);
+        if (!server) {
+            report.localOnly.push(entry);
+            return;
+        }
+
+        seen.add(entry.contractId);
+        const serverProfit = Math.round((server.sell_price - server.buy_price) * 100) / 100;
+        const trade: ReconciledTrade = {
+            contractId: entry.contractId,
+            local: entry,
+            server,
+            serverProfit,
+            profitDifference: Math.round((entry.profit - serverProfit) * 100) / 100,
+        };
+
+        report.matched.push(trade);
+        if (Math.abs(trade.profitDifference) >= PROFIT_TOLERANCE) report.profitMismatches.push(trade);
+    });
+
+    report.serverOnly = transactions.filter(transaction => !seen.has(String(transaction.contract_id)));
+    return report;
+}
+
+// Private helper methods
+
+function escapeCsvValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    row.push(cell);
+    rows.push(row);
+    return rows.filter(cells => cells.some(value => value !== ''));
+}
+
+function validateEntry(raw: Partial<LedgerEntry> | Record<string, unknown>, line: number): LedgerEntry {
+    const entry = raw as Partial<LedgerEntry>;
+    if (entry.contractId === undefined || entry.contractId === null || entry.contractId === '') {
+        throw new Error(`Entry ${line} has no contract id`);
+    }
+    if (!entry.engine) throw new Error(`Entry ${line} has no engine`);
+    if (!Number.isFinite(entry.settledAt)) throw new Error(`Entry ${line} has an invalid settlement time`);
+    if (!Number.isFinite(entry.stake) || !Number.isFinite(entry.profit)) {
+        throw new Error(`Entry ${line} has an invalid stake or profit`);
+    }
+
+    const contractId = String(entry.contractId);
+    const engine = entry.engine as LedgerEngine;
+    return {
+        ...entry,
+        id: `${engine}:${contractId}`,
+        contractId,
+        engine,
+        strategy: entry.strategy || '',
+        symbol: entry.symbol || '',
+        stake: entry.stake as number,
+        payout: Number.isFinite(entry.payout) ? (entry.payout as number) : 0,
+        profit: entry.profit as number,
+        settledAt: entry.settledAt as number,
+        recordedAt: Number.isFinite(entry.recordedAt) ? (entry.recordedAt as number) : (entry.settledAt as number),
+    };
+}